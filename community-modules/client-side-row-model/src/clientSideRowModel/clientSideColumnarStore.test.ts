@@ -0,0 +1,70 @@
+import { ColumnModel, Context, EventService, GridOptionsWrapper, RowNode, SelectionService } from '@ag-grid-community/core';
+import { ClientSideColumnarStore } from './clientSideColumnarStore';
+
+function createStore(getRowNodeId?: (data: any) => string) {
+    const gridOptionsWrapper = {
+        getRowNodeIdFunc: () => getRowNodeId,
+        getIsRowSelectableFunc: (): undefined => undefined,
+        isSuppressParentsInRowNodes: () => false
+    };
+    const selectionService = { syncInRowNode: jest.fn() };
+    const columnModel = { isPivotMode: () => false, getRowGroupColumns: (): any[] => [] };
+
+    const context = new Context({
+        providedBeanInstances: {
+            gridOptionsWrapper: gridOptionsWrapper as Partial<GridOptionsWrapper>,
+            selectionService: selectionService as Partial<SelectionService>,
+            columnModel: columnModel as Partial<ColumnModel>,
+            eventService: new EventService(),
+            rowRenderer: null, valueService: null, rowModel: null, valueCache: null, columnApi: null, gridApi: null,
+            frameworkOverrides: null
+        },
+        beanClasses: [],
+        debug: false
+    }, { log: () => {} });
+
+    const store = context.createBean(new ClientSideColumnarStore(new RowNode()));
+
+    store.setColumnarRowData({
+        rowCount: 3,
+        columns: {
+            code: ['a', 'b', 'c'],
+            price: new Float64Array([1, NaN, 3])
+        }
+    });
+
+    return store;
+}
+
+describe('getRowNodeById', () => {
+    it('finds rows by index when getRowNodeId is not set', () => {
+        const store = createStore();
+
+        expect(store.getRowNodeById('1')!.data.price).toBeNull();
+        expect(store.getRowNodeById('3')).toBeNull();
+        expect(store.getRowNodeById('0.5')).toBeNull();
+    });
+
+    it('finds rows that do not have a node yet by the id from getRowNodeId', () => {
+        const store = createStore(data => data.code);
+        const rowNode = store.getRowNodeById('c')!;
+
+        expect(rowNode.id).toBe('c');
+        expect(rowNode.data.price).toBe(3);
+        expect(store.getRowNodeById('c')).toBe(rowNode);
+        expect(store.getRowNodeById('2')).toBeNull();
+    });
+});
+
+describe('forEachCreatedNode', () => {
+    it('only visits the rows that have a node, in row order', () => {
+        const store = createStore();
+        const visited: string[] = [];
+
+        store.getRowNode(2);
+        store.getRowNode(0);
+        store.forEachCreatedNode(rowNode => visited.push(rowNode.id!));
+
+        expect(visited).toEqual(['0', '2']);
+    });
+});
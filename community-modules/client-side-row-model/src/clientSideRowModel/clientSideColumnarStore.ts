@@ -0,0 +1,304 @@
+import {
+    _,
+    Autowired,
+    BeanStub,
+    Column,
+    ColumnarRowData,
+    ColumnarRows,
+    ColumnModel,
+    RowNode
+} from "@ag-grid-community/core";
+
+// holds columnar row data for the client-side row model. the stages filter and sort the row indexes, and the row
+// nodes are only created for the rows that get displayed, selected or looked up.
+export class ClientSideColumnarStore extends BeanStub implements ColumnarRows {
+
+    @Autowired('columnModel') private columnModel: ColumnModel;
+
+    private readonly rootNode: RowNode;
+
+    private columnarRowData: ColumnarRowData | null = null;
+    private rowNodes: { [rowIndex: number]: RowNode; } = {};
+    private rowNodesById: { [id: string]: RowNode; } = {};
+    // the row index of each id given by getRowNodeId, only worked out once a row without a node is looked up by id
+    private rowIndexesById: { [id: string]: number; } | null = null;
+
+    // true when every row has a node in rootNode.allLeafChildren, for the stages that only work on nodes
+    private leafChildrenCreated = false;
+
+    public rowCount = 0;
+    public rowIndexesAfterFilter = new Int32Array(0);
+    public rowIndexesAfterSort = new Int32Array(0);
+
+    constructor(rootNode: RowNode) {
+        super();
+        this.rootNode = rootNode;
+    }
+
+    public isActive(): boolean {
+        return this.columnarRowData != null;
+    }
+
+    // true while the stages work on the columnar rows rather than the nodes
+    public isColumnar(): boolean {
+        return this.columnarRowData != null && !this.leafChildrenCreated;
+    }
+
+    public setColumnarRowData(columnarRowData: ColumnarRowData | null): void {
+        this.columnarRowData = columnarRowData;
+        this.rowNodes = {};
+        this.rowNodesById = {};
+        this.rowIndexesById = null;
+        this.leafChildrenCreated = false;
+        this.rowCount = columnarRowData ? columnarRowData.rowCount : 0;
+        this.rowIndexesAfterFilter = this.createAllRowIndexes();
+        this.rowIndexesAfterSort = this.rowIndexesAfterFilter;
+
+        this.setRootNodeChildren([]);
+    }
+
+    // the rows stay columnar unless they need grouping, which is done on nodes. returns true if the stages
+    // should get the columnar rows, otherwise every row has a node in the root node for the standard stages.
+    public updateRootNode(): boolean {
+        const columnar = !this.columnModel.isPivotMode()
+            && this.columnModel.getRowGroupColumns().length === 0
+            && !this.gridOptionsWrapper.isTreeData();
+
+        if (columnar === !this.leafChildrenCreated) { return columnar; }
+
+        this.leafChildrenCreated = !columnar;
+        this.setRootNodeChildren(columnar ? [] : this.getAllRowNodes());
+
+        // the nodes were in groups, so move them back to the top level
+        if (columnar) {
+            _.iterateObject(this.rowNodes, (key: string, rowNode: RowNode) => this.setTopLevel(rowNode));
+        }
+
+        return columnar;
+    }
+
+    private setRootNodeChildren(rowNodes: RowNode[]): void {
+        this.rootNode.allLeafChildren = rowNodes;
+        this.rootNode.childrenAfterGroup = rowNodes;
+        this.rootNode.childrenAfterFilter = rowNodes;
+        this.rootNode.childrenAfterSort = rowNodes;
+        this.rootNode.childrenMapped = null;
+        this.rootNode.updateHasChildren();
+    }
+
+    public createAllRowIndexes(): Int32Array {
+        const rowIndexes = new Int32Array(this.rowCount);
+
+        for (let i = 0; i < this.rowCount; i++) {
+            rowIndexes[i] = i;
+        }
+
+        return rowIndexes;
+    }
+
+    public getValues(column: Column): Float64Array | any[] | null {
+        const colDef = column.getColDef();
+        const { field } = colDef;
+
+        if (!this.columnarRowData || !field || colDef.valueGetter) { return null; }
+
+        // the row data objects only have the fields as they are, so nested fields are never found
+        if (field.indexOf('.') >= 0 && !this.gridOptionsWrapper.isSuppressFieldDotNotation()) { return null; }
+
+        return this.columnarRowData.columns[field] || null;
+    }
+
+    public getRowNode(rowIndex: number): RowNode {
+        let rowNode = this.rowNodes[rowIndex];
+
+        if (!rowNode) {
+            rowNode = this.createRowNode(rowIndex);
+            this.rowNodes[rowIndex] = rowNode;
+            this.rowNodesById[rowNode.id!] = rowNode;
+        }
+
+        return rowNode;
+    }
+
+    public getRowNodeById(id: string): RowNode | null {
+        const rowNode = this.rowNodesById[id];
+
+        if (rowNode) { return rowNode; }
+
+        const rowIndex = this.getRowIndexById(id);
+
+        return rowIndex != null ? this.getRowNode(rowIndex) : null;
+    }
+
+    private getRowIndexById(id: string): number | null {
+        const getRowNodeId = this.gridOptionsWrapper.getRowNodeIdFunc();
+
+        // unless getRowNodeId provides them, the ids are the row indexes
+        if (!getRowNodeId) {
+            const rowIndex = Number(id);
+            const isRowIndex = rowIndex >= 0 && rowIndex < this.rowCount && Math.floor(rowIndex) === rowIndex;
+
+            return isRowIndex ? rowIndex : null;
+        }
+
+        if (!this.rowIndexesById) {
+            this.rowIndexesById = this.createRowIndexesById(getRowNodeId);
+        }
+
+        const rowIndex = this.rowIndexesById[id];
+
+        return rowIndex != null ? rowIndex : null;
+    }
+
+    private createRowIndexesById(getRowNodeId: (data: any) => string): { [id: string]: number; } {
+        const rowIndexesById: { [id: string]: number; } = {};
+        const { columns } = this.columnarRowData!;
+        const fields = Object.keys(columns);
+
+        for (let rowIndex = 0; rowIndex < this.rowCount; rowIndex++) {
+            // a plain copy of the values is enough to work out the id, and is cheaper than the data of a node
+            const data: any = {};
+
+            for (let i = 0; i < fields.length; i++) {
+                data[fields[i]] = this.getValue(columns[fields[i]], rowIndex);
+            }
+
+            rowIndexesById[getRowNodeId(data)] = rowIndex;
+        }
+
+        return rowIndexesById;
+    }
+
+    public getCopyOfNodesMap(): { [id: string]: RowNode; } {
+        return _.cloneObject(this.rowNodesById);
+    }
+
+    // calls back with the nodes that have been created, in row order. rows without a node haven't been displayed,
+    // selected or looked up, so have no state on them to visit.
+    public forEachCreatedNode(callback: (rowNode: RowNode, index: number) => void): void {
+        let index = 0;
+
+        _.iterateObject(this.rowNodes, (key: string, rowNode: RowNode) => callback(rowNode, index++));
+    }
+
+    // the nodes of all rows, in row order. this creates every node, so is only for when every row is needed
+    public getAllRowNodes(): RowNode[] {
+        return this.getRowNodes(this.createAllRowIndexes());
+    }
+
+    public getRowNodes(rowIndexes: Int32Array): RowNode[] {
+        const rowNodes: RowNode[] = [];
+
+        for (let i = 0; i < rowIndexes.length; i++) {
+            rowNodes.push(this.getRowNode(rowIndexes[i]));
+        }
+
+        return rowNodes;
+    }
+
+    public getDisplayedRowCount(): number {
+        return this.rowIndexesAfterSort.length;
+    }
+
+    public getDisplayedRow(displayedIndex: number): RowNode {
+        const rowNode = this.getRowNode(this.rowIndexesAfterSort[displayedIndex]);
+
+        if (rowNode.rowIndex !== displayedIndex) {
+            this.setRowPosition(rowNode, displayedIndex);
+        }
+
+        return rowNode;
+    }
+
+    public isRowDisplayed(rowNode: RowNode): boolean {
+        const { rowIndex } = rowNode;
+
+        return rowIndex != null && rowIndex < this.rowIndexesAfterSort.length
+            && this.rowNodes[this.rowIndexesAfterSort[rowIndex]] === rowNode;
+    }
+
+    // positions the nodes that have been created, as the rows all have the same height the nodes
+    // that don't exist yet are positioned when they are created. rowsAfter are the rows displayed
+    // after the columnar rows, ie the total footer.
+    public setRowTops(rowsAfter: RowNode[]): void {
+        const displayedRowCount = this.rowIndexesAfterSort.length;
+
+        // the displayed index + 1 of each row, so 0 means the row isn't displayed
+        const displayedPositions = new Int32Array(this.rowCount);
+
+        for (let i = 0; i < displayedRowCount; i++) {
+            displayedPositions[this.rowIndexesAfterSort[i]] = i + 1;
+        }
+
+        _.iterateObject(this.rowNodes, (key: string, rowNode: RowNode) => {
+            const position = displayedPositions[Number(key)];
+
+            if (position > 0) {
+                this.setRowPosition(rowNode, position - 1);
+            } else {
+                rowNode.clearRowTopAndRowIndex();
+            }
+        });
+
+        rowsAfter.forEach((rowNode, index) => this.setRowPosition(rowNode, displayedRowCount + index));
+    }
+
+    public getRowIndexAtPixel(pixel: number): number {
+        const rowHeight = this.gridOptionsWrapper.getRowHeightAsNumber();
+        const index = Math.floor(pixel / rowHeight);
+
+        return Math.max(0, index);
+    }
+
+    private setRowPosition(rowNode: RowNode, displayedIndex: number): void {
+        const rowHeight = this.gridOptionsWrapper.getRowHeightAsNumber();
+
+        rowNode.setRowHeight(rowHeight);
+        rowNode.setRowTop(displayedIndex * rowHeight);
+        rowNode.setRowIndex(displayedIndex);
+    }
+
+    private createRowNode(rowIndex: number): RowNode {
+        const rowNode = new RowNode();
+        this.createBean(rowNode);
+
+        rowNode.group = false;
+        rowNode.setMaster(false);
+        this.setTopLevel(rowNode);
+        rowNode.setDataAndId(this.createRowData(rowIndex), rowIndex.toString());
+
+        return rowNode;
+    }
+
+    private setTopLevel(rowNode: RowNode): void {
+        rowNode.parent = this.gridOptionsWrapper.isSuppressParentsInRowNodes() ? null : this.rootNode;
+        rowNode.level = 0;
+        rowNode.setUiLevel(0);
+    }
+
+    // the data of a row is an object with a property for each field, which reads and writes the value in the
+    // column, so edits go into the arrays. missing values in Float64Arrays are NaN, which are shown as null.
+    private createRowData(rowIndex: number): any {
+        const data: any = {};
+        const { columns } = this.columnarRowData!;
+
+        Object.keys(columns).forEach(field => {
+            const values = columns[field];
+            const numeric = values instanceof Float64Array;
+
+            Object.defineProperty(data, field, {
+                enumerable: true,
+                get: () => this.getValue(values, rowIndex),
+                set: (value: any) => values[rowIndex] = numeric && value == null ? NaN : value
+            });
+        });
+
+        return data;
+    }
+
+    private getValue(values: Float64Array | any[], rowIndex: number): any {
+        const value = values[rowIndex];
+
+        return values instanceof Float64Array && isNaN(value) ? null : value;
+    }
+}
@@ -9,6 +9,7 @@ import {
     GridOptionsWrapper,
     IsRowMaster,
     RowDataTransaction,
+    RowDataTransactionRecord,
     RowNode,
     RowNodeTransaction,
     SelectionChangedEvent,
@@ -106,7 +107,11 @@ export class ClientSideNodeManager {
         this.rootNode.allLeafChildren = this.recursiveFunction(rowData, this.rootNode, ClientSideNodeManager.TOP_LEVEL)!;
     }
 
-    public updateRowData(rowDataTran: RowDataTransaction, rowNodeOrder: {[id:string]: number} | null | undefined): RowNodeTransaction {
+    public updateRowData(
+        rowDataTran: RowDataTransaction,
+        rowNodeOrder: {[id:string]: number} | null | undefined,
+        record?: RowDataTransactionRecord
+    ): RowNodeTransaction {
         const rowNodeTransaction: RowNodeTransaction = {
             remove: [],
             update: [],
@@ -115,8 +120,13 @@ export class ClientSideNodeManager {
 
         const nodesToUnselect: RowNode[] = [];
 
-        this.executeRemove(rowDataTran, rowNodeTransaction, nodesToUnselect);
-        this.executeUpdate(rowDataTran, rowNodeTransaction, nodesToUnselect);
+        // the order is only recorded when the rows are reordered, otherwise the indexes of the rows are enough
+        if (record && rowNodeOrder && !this.isInOrder(this.rootNode.allLeafChildren, rowNodeOrder)) {
+            record.orderBefore = this.rootNode.allLeafChildren.map(rowNode => rowNode.id!);
+        }
+
+        this.executeRemove(rowDataTran, rowNodeTransaction, nodesToUnselect, record);
+        this.executeUpdate(rowDataTran, rowNodeTransaction, nodesToUnselect, record);
         this.executeAdd(rowDataTran, rowNodeTransaction);
 
         this.updateSelection(nodesToUnselect);
@@ -125,9 +135,65 @@ export class ClientSideNodeManager {
             _.sortRowNodesByOrder(this.rootNode.allLeafChildren, rowNodeOrder);
         }
 
+        if (record) {
+            this.recordAddedRows(rowDataTran, rowNodeTransaction, rowNodeOrder, record);
+        }
+
         return rowNodeTransaction;
     }
 
+    // true if the rows in the order are already sorted by it, rows not in the order are ignored
+    private isInOrder(rowNodes: RowNode[], rowNodeOrder: {[id: string]: number}): boolean {
+        let lastIndex = -1;
+
+        for (let i = 0; i < rowNodes.length; i++) {
+            const index = rowNodeOrder[rowNodes[i].id!];
+
+            if (index === undefined) { continue; }
+            if (index < lastIndex) { return false; }
+
+            lastIndex = index;
+        }
+
+        return true;
+    }
+
+    private recordAddedRows(
+        rowDataTran: RowDataTransaction,
+        rowNodeTransaction: RowNodeTransaction,
+        rowNodeOrder: {[id:string]: number} | null | undefined,
+        record: RowDataTransactionRecord
+    ): void {
+        const leafChildren = this.rootNode.allLeafChildren;
+        const added = rowNodeTransaction.add;
+
+        if (record.orderBefore) {
+            record.orderAfter = leafChildren.map(rowNode => rowNode.id!);
+        }
+
+        if (added.length === 0) { return; }
+
+        // the added rows were sorted in with the other rows, so are looked for. sorting went through the rows already.
+        if (rowNodeOrder) {
+            const addedIds: {[id: string]: boolean} = {};
+            added.forEach(rowNode => addedIds[rowNode.id!] = true);
+
+            leafChildren.forEach((rowNode, index) => {
+                if (addedIds[rowNode.id!]) {
+                    record.add.push({ data: rowNode.data, index });
+                }
+            });
+            return;
+        }
+
+        // otherwise the rows were added together at addIndex, or at the end
+        const { addIndex } = rowDataTran;
+        const lastPossibleIndex = leafChildren.length - added.length;
+        const firstIndex = typeof addIndex === 'number' && addIndex >= 0 ? Math.min(addIndex, lastPossibleIndex) : lastPossibleIndex;
+
+        added.forEach((rowNode, i) => record.add.push({ data: rowNode.data, index: firstIndex + i }));
+    }
+
     private updateSelection(nodesToUnselect: RowNode[]): void {
         const selectionChanged = nodesToUnselect.length > 0;
         if (selectionChanged) {
@@ -176,7 +242,12 @@ export class ClientSideNodeManager {
         rowNodeTransaction.add = newNodes;
     }
 
-    private executeRemove(rowDataTran: RowDataTransaction, rowNodeTransaction: RowNodeTransaction, nodesToUnselect: RowNode[]): void {
+    private executeRemove(
+        rowDataTran: RowDataTransaction,
+        rowNodeTransaction: RowNodeTransaction,
+        nodesToUnselect: RowNode[],
+        record?: RowDataTransactionRecord
+    ): void {
         const {remove} = rowDataTran;
 
         if (_.missingOrEmpty(remove)) { return; }
@@ -206,10 +277,24 @@ export class ClientSideNodeManager {
             rowNodeTransaction.remove.push(rowNode);
         });
 
+        if (record) {
+            // indexes are recorded before the rows are taken out, so undo puts them back where they were
+            this.rootNode.allLeafChildren.forEach((rowNode, index) => {
+                if (rowIdsRemoved[rowNode.id!]) {
+                    record.remove.push({ data: rowNode.data, index });
+                }
+            });
+        }
+
         this.rootNode.allLeafChildren = this.rootNode.allLeafChildren.filter(rowNode => !rowIdsRemoved[rowNode.id!]);
     }
 
-    private executeUpdate(rowDataTran: RowDataTransaction, rowNodeTransaction: RowNodeTransaction, nodesToUnselect: RowNode[]): void {
+    private executeUpdate(
+        rowDataTran: RowDataTransaction,
+        rowNodeTransaction: RowNodeTransaction,
+        nodesToUnselect: RowNode[],
+        record?: RowDataTransactionRecord
+    ): void {
         const {update} = rowDataTran;
         if (_.missingOrEmpty(update)) { return; }
 
@@ -218,6 +303,11 @@ export class ClientSideNodeManager {
 
             if (!rowNode) { return; }
 
+            // if the data item was changed in place there is no previous version to go back to
+            if (record && rowNode.data !== item) {
+                record.update.push({ oldData: rowNode.data, newData: item });
+            }
+
             rowNode.updateData(item);
             if (!rowNode.selectable && rowNode.isSelected()) {
                 nodesToUnselect.push(rowNode);
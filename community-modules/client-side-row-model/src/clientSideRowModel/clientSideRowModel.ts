@@ -5,6 +5,7 @@ import {
     BeanStub,
     ChangedPath,
     ColumnApi,
+    ColumnarRowData,
     ColumnModel,
     Constants,
     Events,
@@ -22,16 +23,20 @@ import {
     RowBounds,
     RowDataChangedEvent,
     RowDataTransaction,
+    RowDataTransactionRecord,
     RowDataUpdatedEvent,
     RowNode,
     RowHighlightPosition,
     RowNodeTransaction,
     SelectionService,
+    TransactionsAppliedEvent,
     ValueCache,
     AsyncTransactionsFlushed,
     AnimationFrameService
 } from "@ag-grid-community/core";
 import { ClientSideNodeManager } from "./clientSideNodeManager";
+import { ClientSideColumnarStore } from "./clientSideColumnarStore";
+import { RowModelWorkerService } from "./rowModelWorkerService";
 
 enum RecursionType { Normal, AfterFilter, AfterFilterAndSort, PivotNodes }
 
@@ -54,6 +59,7 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
     @Autowired('columnApi') private columnApi: ColumnApi;
     @Autowired('gridApi') private gridApi: GridApi;
     @Autowired('animationFrameService') private animationFrameService: AnimationFrameService;
+    @Autowired('rowModelWorkerService') private rowModelWorkerService: RowModelWorkerService;
 
     // standard stages
     @Autowired('filterStage') private filterStage: IRowNodeStage;
@@ -67,8 +73,10 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
 
     // top most node of the tree. the children are the user provided data.
     private rootNode: RowNode;
-    private rowsToDisplay: RowNode[]; // the rows mapped to rows to display
+    private rowsToDisplay: RowNode[] = []; // the rows mapped to rows to display
     private nodeManager: ClientSideNodeManager;
+    // when set, rowsToDisplay only has the rows after the columnar rows, ie the total footer
+    private columnarStore: ClientSideColumnarStore;
     private rowDataTransactionBatch: BatchTransactionItem[] | null;
     private lastHighlightedRow: RowNode | null;
     private applyAsyncTransactionsTimeout: number | undefined;
@@ -110,16 +118,24 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
             this.selectionService);
 
         this.createBean(this.rootNode);
+
+        this.columnarStore = this.createManagedBean(new ClientSideColumnarStore(this.rootNode));
     }
 
     public start(): void {
+        const columnarRowData = this.gridOptionsWrapper.getColumnarRowData();
         const rowData = this.gridOptionsWrapper.getRowData();
-        if (rowData) {
+        if (columnarRowData) {
+            this.setColumnarRowData(columnarRowData);
+        } else if (rowData) {
             this.setRowData(rowData);
         }
     }
 
     public ensureRowHeightsValid(startPixel: number, endPixel: number, startLimitIndex: number, endLimitIndex: number): boolean {
+        // columnar rows all have the fixed row height
+        if (this.columnarStore.isColumnar()) { return false; }
+
         let atLeastOneChange: boolean;
         let res = false;
 
@@ -156,6 +172,11 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
     }
 
     private setRowTops(): void {
+        if (this.columnarStore.isColumnar()) {
+            this.columnarStore.setRowTops(this.rowsToDisplay);
+            return;
+        }
+
         let nextRowTop = 0;
         for (let i = 0; i < this.rowsToDisplay.length; i++) {
 
@@ -176,6 +197,8 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
     }
 
     private resetRowTops(changedPath: ChangedPath): void {
+        // the columnar store clears the nodes that aren't displayed when it sets the row tops
+        if (this.columnarStore.isColumnar()) { return; }
 
         const displayedRowsMapped: RowNodeMap = {};
         this.rowsToDisplay.forEach(rowNode => {
@@ -217,6 +240,9 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
 
     // returns false if row was moved, otherwise true
     public ensureRowsAtPixel(rowNodes: RowNode[], pixel: number, increment: number = 0): boolean {
+        // columnar rows are kept in the order of the arrays
+        if (this.columnarStore.isActive()) { return false; }
+
         const indexAtPixelNow = this.getRowIndexAtPixel(pixel);
         const rowNodeAtPixelNow = this.getRow(indexAtPixelNow);
 
@@ -287,6 +313,10 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
     }
 
     public getRowCount(): number {
+        if (this.columnarStore.isColumnar()) {
+            return this.columnarStore.getDisplayedRowCount() + this.rowsToDisplay.length;
+        }
+
         if (this.rowsToDisplay) {
             return this.rowsToDisplay.length;
         }
@@ -295,6 +325,10 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
     }
 
     public getTopLevelRowCount(): number {
+        if (this.columnarStore.isColumnar()) {
+            return this.columnarStore.rowIndexesAfterFilter.length;
+        }
+
         const showingRootNode = this.rowsToDisplay && this.rowsToDisplay[0] === this.rootNode;
 
         if (showingRootNode) {
@@ -305,6 +339,10 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
     }
 
     public getTopLevelRowDisplayedIndex(topLevelIndex: number): number {
+        if (this.columnarStore.isColumnar()) {
+            return topLevelIndex;
+        }
+
         const showingRootNode = this.rowsToDisplay && this.rowsToDisplay[0] === this.rootNode;
 
         if (showingRootNode) {
@@ -328,7 +366,7 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
             return null;
         }
 
-        const rowNode = this.rowsToDisplay[index];
+        const rowNode = this.getRow(index);
 
         if (rowNode) {
             return {
@@ -379,6 +417,10 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
         return Constants.ROW_MODEL_TYPE_CLIENT_SIDE;
     }
 
+    public isColumnar(): boolean {
+        return this.columnarStore.isColumnar();
+    }
+
     private onValueChanged(): void {
         if (this.columnModel.isPivotActive()) {
             this.refreshModel({ step: ClientSideRowModelSteps.PIVOT });
@@ -427,6 +469,20 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
 
         if (this.isSuppressModelUpdateAfterUpdateTransaction(params)) { return; }
 
+        // without row groups, columnar row data goes through the stages as row indexes rather than nodes
+        if (this.columnarStore.isActive() && this.columnarStore.updateRootNode()) {
+            this.refreshColumnarModel(params);
+            return;
+        }
+
+        const mainThreadParams = this.rowModelWorkerService.refreshModel(this.rootNode, params,
+            this.onWorkerRefreshed.bind(this), this.refreshModel.bind(this));
+
+        // the worker calls back once it has updated the nodes
+        if (!mainThreadParams) { return; }
+
+        params = mainThreadParams;
+
         // this goes through the pipeline of stages. what's in my head is similar
         // to the diagram on this page:
         // http://commons.apache.org/sandbox/commons-pipeline/pipeline_basics.html
@@ -455,7 +511,7 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
                 this.doPivot(changedPath);
             case ClientSideRowModelSteps.AGGREGATE: // depends on agg fields
                 // start = new Date().getTime();
-                this.doAggregate(changedPath);
+                this.doAggregate(changedPath, params.rowNodeTransactions);
             // console.log('aggregation = ' + (new Date().getTime() - start));
             case ClientSideRowModelSteps.SORT:
                 // start = new Date().getTime();
@@ -467,6 +523,46 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
             // console.log('rowsToDisplay = ' + (new Date().getTime() - start));
         }
 
+        this.onModelUpdated(params, changedPath);
+    }
+
+    private refreshColumnarModel(params: RefreshModelParams): void {
+        const columnarRows = this.columnarStore;
+        const changedPath = this.createChangePath(undefined);
+
+        // fallthrough in below switch is on purpose, the same as refreshModel
+        switch (params.step) {
+            case ClientSideRowModelSteps.EVERYTHING:
+            case ClientSideRowModelSteps.FILTER:
+                this.filterStage.execute({ rowNode: this.rootNode, columnarRows });
+            case ClientSideRowModelSteps.PIVOT:
+            case ClientSideRowModelSteps.AGGREGATE:
+                this.doAggregate(changedPath);
+            case ClientSideRowModelSteps.SORT:
+                this.sortStage.execute({ rowNode: this.rootNode, columnarRows });
+            case ClientSideRowModelSteps.MAP:
+                this.rowsToDisplay = this.flattenStage.execute({ rowNode: this.rootNode, columnarRows }) as RowNode[];
+        }
+
+        this.onModelUpdated(params, changedPath);
+    }
+
+    // the worker has grouped, filtered, aggregated and sorted the nodes, so only the mapping is left
+    private onWorkerRefreshed(params: RefreshModelParams): void {
+        if (params.step === ClientSideRowModelSteps.EVERYTHING && !params.rowNodeTransactions) {
+            // set open/closed state on groups
+            this.restoreGroupState(params.groupState);
+        }
+
+        this.doRowsToDisplay();
+
+        const changedPath = new ChangedPath(false, this.rootNode);
+        changedPath.setInactive();
+
+        this.onModelUpdated(params, changedPath);
+    }
+
+    private onModelUpdated(params: RefreshModelParams, changedPath: ChangedPath): void {
         // set all row tops to null, then set row tops on all visible rows. if we don't
         // do this, then the algorithm below only sets row tops, old row tops from old rows
         // will still lie around
@@ -492,11 +588,17 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
     }
 
     public isEmpty(): boolean {
-        const rowsMissing = _.missing(this.rootNode.allLeafChildren) || this.rootNode.allLeafChildren.length === 0;
+        const rowsMissing = this.columnarStore.isColumnar() ?
+            this.columnarStore.rowCount === 0 :
+            _.missing(this.rootNode.allLeafChildren) || this.rootNode.allLeafChildren.length === 0;
         return _.missing(this.rootNode) || rowsMissing || !this.columnModel.isReady();
     }
 
     public isRowsToRender(): boolean {
+        if (this.columnarStore.isColumnar()) {
+            return this.getRowCount() > 0;
+        }
+
         return _.exists(this.rowsToDisplay) && this.rowsToDisplay.length > 0;
     }
 
@@ -510,6 +612,18 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
 
         const groupsSelectChildren = this.gridOptionsWrapper.isGroupSelectsChildren();
 
+        // the rows in between are found by their displayed indexes, so only their nodes are created
+        if (this.columnarStore.isColumnar() && firstInRange.rowIndex != null && (!lastInRange || lastInRange.rowIndex != null)) {
+            const firstIndex = Math.min(firstInRange.rowIndex, lastInRange ? lastInRange.rowIndex! : 0);
+            const lastIndex = Math.max(firstInRange.rowIndex, lastInRange ? lastInRange.rowIndex! : 0);
+
+            for (let i = firstIndex; i <= lastIndex; i++) {
+                result.push(this.getRow(i));
+            }
+
+            return result;
+        }
+
         this.forEachNodeAfterFilterAndSort(rowNode => {
             const lookingForLastRow = firstRowHit && !lastRowHit;
 
@@ -557,10 +671,24 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
     }
 
     public getRow(index: number): RowNode {
+        if (this.columnarStore.isColumnar()) {
+            const columnarRowCount = this.columnarStore.getDisplayedRowCount();
+
+            if (index >= 0 && index < columnarRowCount) {
+                return this.columnarStore.getDisplayedRow(index);
+            }
+
+            return this.rowsToDisplay[index - columnarRowCount];
+        }
+
         return this.rowsToDisplay[index];
     }
 
     public isRowPresent(rowNode: RowNode): boolean {
+        if (this.columnarStore.isColumnar() && this.columnarStore.isRowDisplayed(rowNode)) {
+            return true;
+        }
+
         return this.rowsToDisplay.indexOf(rowNode) >= 0;
     }
 
@@ -579,6 +707,10 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
             // if pixel is less than or equal zero, it's always the first row
             return 0;
         }
+
+        if (this.columnarStore.isColumnar()) {
+            return Math.min(this.columnarStore.getRowIndexAtPixel(pixelToMatch), this.getRowCount() - 1);
+        }
         const lastNode = _.last(this.rowsToDisplay);
         if (lastNode.rowTop! <= pixelToMatch) {
             return this.rowsToDisplay.length - 1;
@@ -608,20 +740,40 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
     }
 
     public forEachLeafNode(callback: (node: RowNode, index: number) => void): void {
+        if (this.columnarStore.isColumnar()) {
+            this.columnarStore.getAllRowNodes().forEach(callback);
+            return;
+        }
+
         if (this.rootNode.allLeafChildren) {
             this.rootNode.allLeafChildren.forEach((rowNode, index) => callback(rowNode, index));
         }
     }
 
     public forEachNode(callback: (node: RowNode, index: number) => void): void {
+        if (this.columnarStore.isColumnar()) {
+            this.columnarStore.forEachCreatedNode(callback);
+            return;
+        }
+
         this.recursivelyWalkNodesAndCallback(this.rootNode.childrenAfterGroup, callback, RecursionType.Normal, 0);
     }
 
     public forEachNodeAfterFilter(callback: (node: RowNode, index: number) => void): void {
+        if (this.columnarStore.isColumnar()) {
+            this.columnarStore.getRowNodes(this.columnarStore.rowIndexesAfterFilter).forEach(callback);
+            return;
+        }
+
         this.recursivelyWalkNodesAndCallback(this.rootNode.childrenAfterFilter, callback, RecursionType.AfterFilter, 0);
     }
 
     public forEachNodeAfterFilterAndSort(callback: (node: RowNode, index: number) => void): void {
+        if (this.columnarStore.isColumnar()) {
+            this.columnarStore.getRowNodes(this.columnarStore.rowIndexesAfterSort).forEach(callback);
+            return;
+        }
+
         this.recursivelyWalkNodesAndCallback(this.rootNode.childrenAfterSort, callback, RecursionType.AfterFilterAndSort, 0);
     }
 
@@ -669,9 +821,10 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
 
     // it's possible to recompute the aggregate without doing the other parts
     // + gridApi.recomputeAggregates()
-    public doAggregate(changedPath?: ChangedPath): void {
+    public doAggregate(changedPath?: ChangedPath, rowNodeTransactions?: RowNodeTransaction[]): void {
         if (this.aggregationStage) {
-            this.aggregationStage.execute({ rowNode: this.rootNode, changedPath: changedPath });
+            const columnarRows = this.columnarStore.isColumnar() ? this.columnarStore : undefined;
+            this.aggregationStage.execute({ rowNode: this.rootNode, changedPath, rowNodeTransactions, columnarRows });
         }
     }
 
@@ -784,6 +937,10 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
     }
 
     public getCopyOfNodesMap(): { [id: string]: RowNode; } {
+        if (this.columnarStore.isActive()) {
+            return this.columnarStore.getCopyOfNodesMap();
+        }
+
         return this.nodeManager.getCopyOfNodesMap();
     }
 
@@ -802,6 +959,8 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
                 }
             });
             return res;
+        } else if (this.columnarStore.isActive()) {
+            return this.columnarStore.getRowNodeById(id);
         } else {
             return this.nodeManager.getRowNode(id);
         }
@@ -816,8 +975,22 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
         // remember group state, so we can expand groups that should be expanded
         const groupState = this.getGroupState();
 
+        this.columnarStore.setColumnarRowData(null);
         this.nodeManager.setRowData(rowData);
 
+        this.onNewRowData(groupState);
+    }
+
+    public setColumnarRowData(columnarRowData: ColumnarRowData): void {
+        const groupState = this.getGroupState();
+
+        this.nodeManager.setRowData([]);
+        this.columnarStore.setColumnarRowData(columnarRowData);
+
+        this.onNewRowData(groupState);
+    }
+
+    private onNewRowData(groupState: any): void {
         // this event kicks off:
         // - clears selection
         // - updates filters
@@ -837,6 +1010,8 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
     }
 
     public batchUpdateRowData(rowDataTransaction: RowDataTransaction, callback?: (res: RowNodeTransaction) => void): void {
+        if (this.isTransactionUnsupported()) { return; }
+
         if (this.applyAsyncTransactionsTimeout == null) {
             this.rowDataTransactionBatch = [];
             const waitMillis = this.gridOptionsWrapper.getAsyncTransactionWaitMillis();
@@ -859,6 +1034,7 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
 
         const callbackFuncsBound: Function[] = [];
         const rowNodeTrans: RowNodeTransaction[] = [];
+        const transactionRecords: RowDataTransactionRecord[] | undefined = this.isRecordTransactions() ? [] : undefined;
 
         // The rowGroup stage uses rowNodeOrder if order was provided. if we didn't pass 'true' to
         // commonUpdateRowData, using addIndex would have no effect when grouping.
@@ -866,8 +1042,12 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
 
         if (this.rowDataTransactionBatch) {
             this.rowDataTransactionBatch.forEach(tranItem => {
-                const rowNodeTran = this.nodeManager.updateRowData(tranItem.rowDataTransaction, undefined);
+                const record = transactionRecords ? this.createTransactionRecord() : undefined;
+                const rowNodeTran = this.nodeManager.updateRowData(tranItem.rowDataTransaction, undefined, record);
                 rowNodeTrans.push(rowNodeTran);
+                if (record) {
+                    transactionRecords!.push(record);
+                }
                 if (tranItem.callback) {
                     callbackFuncsBound.push(tranItem.callback.bind(null, rowNodeTran));
                 }
@@ -877,7 +1057,7 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
             });
         }
 
-        this.commonUpdateRowData(rowNodeTrans, undefined, forceRowNodeOrder);
+        this.commonUpdateRowData(rowNodeTrans, undefined, forceRowNodeOrder, transactionRecords);
 
         // do callbacks in next VM turn so it's async
         if (callbackFuncsBound.length > 0) {
@@ -901,21 +1081,42 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
     }
 
     public updateRowData(rowDataTran: RowDataTransaction, rowNodeOrder?: { [id: string]: number; }): RowNodeTransaction | null {
+        if (this.isTransactionUnsupported()) { return null; }
 
         this.valueCache.onDataChanged();
 
-        const rowNodeTran = this.nodeManager.updateRowData(rowDataTran, rowNodeOrder);
+        const record = this.isRecordTransactions() ? this.createTransactionRecord() : undefined;
+        const rowNodeTran = this.nodeManager.updateRowData(rowDataTran, rowNodeOrder, record);
 
         // if doing immutableData, addIndex is never present. however if doing standard transaction, and user
         // provided addIndex, then this is used in updateRowData. However if doing Enterprise, then the rowGroup
         // stage also uses the
         const forceRowNodeOrder = typeof rowDataTran.addIndex === 'number';
 
-        this.commonUpdateRowData([rowNodeTran], rowNodeOrder, forceRowNodeOrder);
+        this.commonUpdateRowData([rowNodeTran], rowNodeOrder, forceRowNodeOrder, record ? [record] : undefined);
 
         return rowNodeTran;
     }
 
+    // the nodes of columnar row data are created from the arrays, so rows can't be added or removed with a transaction
+    private isTransactionUnsupported(): boolean {
+        if (!this.columnarStore.isActive()) { return false; }
+
+        console.warn('AG Grid: transactions are not supported with columnarRowData, update the arrays and call api.setColumnarRowData() instead');
+
+        return true;
+    }
+
+    // recording what each transaction changed costs a pass over the rows, so it's only done when the
+    // undo / redo history needs it
+    private isRecordTransactions(): boolean {
+        return this.gridOptionsWrapper.isUndoRedoTransactions() || this.gridOptionsWrapper.isUndoRedoStructuralChanges();
+    }
+
+    private createTransactionRecord(): RowDataTransactionRecord {
+        return { add: [], remove: [], update: [] };
+    }
+
     private createRowNodeOrder(): { [id: string]: number; } | undefined {
         const suppressSortOrder = this.gridOptionsWrapper.isSuppressMaintainUnsortedOrder();
         if (suppressSortOrder) { return; }
@@ -935,7 +1136,8 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
     // common to updateRowData and batchUpdateRowData
     private commonUpdateRowData(rowNodeTrans: RowNodeTransaction[],
                                 rowNodeOrder: { [id: string]: number; } | undefined,
-                                forceRowNodeOrder: boolean): void {
+                                forceRowNodeOrder: boolean,
+                                transactionRecords?: RowDataTransactionRecord[]): void {
 
         if (forceRowNodeOrder) {
             rowNodeOrder = this.createRowNodeOrder();
@@ -956,17 +1158,31 @@ export class ClientSideRowModel extends BeanStub implements IClientSideRowModel
             columnApi: this.columnApi
         };
         this.eventService.dispatchEvent(event);
+
+        const transactionsAppliedEvent: TransactionsAppliedEvent = {
+            type: Events.EVENT_TRANSACTIONS_APPLIED,
+            rowNodeTransactions: rowNodeTrans,
+            transactionRecords
+        };
+        this.eventService.dispatchEvent(transactionsAppliedEvent);
     }
 
     private doRowsToDisplay() {
         this.rowsToDisplay = this.flattenStage.execute({ rowNode: this.rootNode }) as RowNode[];
     }
 
+    public onRowNodeDataChanged(rowNode: RowNode): void {
+        this.rowModelWorkerService.onRowNodeDataChanged(rowNode);
+    }
+
     public onRowHeightChanged(): void {
         this.refreshModel({ step: ClientSideRowModelSteps.MAP, keepRenderedRows: true, keepEditingRows: true });
     }
 
     public resetRowHeights(): void {
+        // columnar rows all have the fixed row height
+        if (this.columnarStore.isColumnar()) { return; }
+
         let atLeastOne = false;
         this.forEachNode(rowNode => {
             rowNode.setRowHeight(rowNode.rowHeight, true);
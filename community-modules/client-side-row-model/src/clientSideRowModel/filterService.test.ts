@@ -0,0 +1,112 @@
+import { ColDef, Column, ColumnarRows, FilterManager, IFilterComp, NumberFilter, RowNode, TextFilter } from '@ag-grid-community/core';
+import { FilterService } from './filterService';
+
+function createColumn(field: string, colDef: ColDef = {}): Column {
+    return { getColDef: (): ColDef => ({ field, ...colDef }) } as Column;
+}
+
+function createColumnarRows(columns: { [field: string]: Float64Array | any[]; }, rowCount: number) {
+    const rowIndexes = new Int32Array(rowCount).map((value, index) => index);
+    const getRowNode = jest.fn((rowIndex: number) => {
+        const data: any = {};
+        Object.keys(columns).forEach(field => data[field] = columns[field][rowIndex]);
+
+        return { data } as RowNode;
+    });
+
+    const columnarRows: ColumnarRows = {
+        rowCount,
+        rowIndexesAfterFilter: rowIndexes,
+        rowIndexesAfterSort: rowIndexes,
+        getValues: column => columns[column.getColDef().field!] || null,
+        getRowNode
+    };
+
+    return { columnarRows, getRowNode };
+}
+
+function createNumberFilter(passes: (value: number | null) => boolean): NumberFilter {
+    const filter = new NumberFilter();
+    jest.spyOn(filter, 'doesValuePass').mockImplementation(passes);
+
+    return filter;
+}
+
+function createService(activeFilters: { column: Column, filter: IFilterComp; }[], doesRowPassFilter = (rowNode: RowNode) => true) {
+    const service = new FilterService();
+    const filterManager = {
+        isAnyNonColumnFilterPresent: () => false,
+        getActiveColumnFilters: () => activeFilters,
+        doesRowPassFilter: jest.fn(({ rowNode }: { rowNode: RowNode; }) => doesRowPassFilter(rowNode))
+    };
+
+    Object.assign(service, { filterManager });
+
+    return { service, filterManager };
+}
+
+describe('filterColumnarRows', () => {
+    it('filters Float64Array columns on the values, passing missing values as null', () => {
+        const price = new Float64Array([5, NaN, 1, 10]);
+        const { columnarRows, getRowNode } = createColumnarRows({ price }, 4);
+        const filter = createNumberFilter(value => value == null || value > 2);
+        const { service } = createService([{ column: createColumn('price'), filter }]);
+
+        service.filterColumnarRows(columnarRows);
+
+        expect(Array.from(columnarRows.rowIndexesAfterFilter)).toStrictEqual([0, 1, 3]);
+        expect(filter.doesValuePass).toHaveBeenCalledWith(null);
+        expect(getRowNode).not.toHaveBeenCalled();
+    });
+
+    it('only creates nodes for the rows that pass the number filters when other columns need them', () => {
+        const price = new Float64Array([5, 1, 10, 8]);
+        const name = ['a', 'b', 'c', 'd'];
+        const { columnarRows, getRowNode } = createColumnarRows({ price, name }, 4);
+        const numberFilter = createNumberFilter(value => value != null && value > 2);
+        const { service } = createService([
+            { column: createColumn('price'), filter: numberFilter },
+            { column: createColumn('name'), filter: new TextFilter() }
+        ], rowNode => rowNode.data.name !== 'c');
+
+        service.filterColumnarRows(columnarRows);
+
+        expect(Array.from(columnarRows.rowIndexesAfterFilter)).toStrictEqual([0, 3]);
+        expect(getRowNode.mock.calls).toEqual([[0], [2], [3]]);
+    });
+
+    it('filters number filters on columns that are not Float64Arrays through the nodes', () => {
+        const price = [5, 1, 10];
+        const { columnarRows, getRowNode } = createColumnarRows({ price }, 3);
+        const filter = createNumberFilter(() => true);
+        const { service } = createService([{ column: createColumn('price'), filter }], rowNode => rowNode.data.price > 2);
+
+        service.filterColumnarRows(columnarRows);
+
+        expect(Array.from(columnarRows.rowIndexesAfterFilter)).toStrictEqual([0, 2]);
+        expect(filter.doesValuePass).not.toHaveBeenCalled();
+        expect(getRowNode).toHaveBeenCalledTimes(3);
+    });
+
+    it('filters columns with filter value getters through the nodes', () => {
+        const price = new Float64Array([5, 1, 10]);
+        const filterValueGetter = jest.fn();
+        const columns = [
+            createColumn('price', { filterValueGetter }),
+            createColumn('price', { filterParams: { valueGetter: filterValueGetter } })
+        ];
+
+        columns.forEach(column => {
+            const { columnarRows, getRowNode } = createColumnarRows({ price }, 3);
+            const filter = createNumberFilter(() => true);
+            const { service, filterManager } = createService([{ column, filter }], rowNode => rowNode.data.price < 8);
+
+            service.filterColumnarRows(columnarRows);
+
+            expect(Array.from(columnarRows.rowIndexesAfterFilter)).toStrictEqual([0, 1]);
+            expect(filter.doesValuePass).not.toHaveBeenCalled();
+            expect(getRowNode).toHaveBeenCalledTimes(3);
+            expect(filterManager.doesRowPassFilter).toHaveBeenCalledWith({ rowNode: getRowNode.mock.results[0].value });
+        });
+    });
+});
@@ -2,7 +2,10 @@ import {
     Autowired,
     Bean,
     ChangedPath,
+    Column,
+    ColumnarRows,
     FilterManager,
+    NumberFilter,
     PostConstruct,
     RowNode,
     BeanStub
@@ -25,6 +28,53 @@ export class FilterService extends BeanStub {
         this.filterNodes(filterActive, changedPath);
     }
 
+    // number filters on Float64Array columns check the values in the arrays, unless the column has a filter value
+    // getter. the other filters need the row nodes, so nodes are only created for the rows that pass the number filters.
+    public filterColumnarRows(columnarRows: ColumnarRows): void {
+        const { rowCount } = columnarRows;
+        const valueFilters: { values: Float64Array, filter: NumberFilter; }[] = [];
+        let nodeFilterPresent = this.filterManager.isAnyNonColumnFilterPresent();
+
+        this.filterManager.getActiveColumnFilters().forEach(({ column, filter }) => {
+            const values = columnarRows.getValues(column);
+
+            if (filter instanceof NumberFilter && values instanceof Float64Array && !this.hasFilterValueGetter(column)) {
+                valueFilters.push({ values, filter });
+            } else {
+                nodeFilterPresent = true;
+            }
+        });
+
+        const rowIndexes = new Int32Array(rowCount);
+        let count = 0;
+
+        // for optimum performance, we use for loops here rather than functional code
+        for (let rowIndex = 0; rowIndex < rowCount; rowIndex++) {
+            let passes = true;
+
+            for (let i = 0; i < valueFilters.length && passes; i++) {
+                const value = valueFilters[i].values[rowIndex];
+                passes = valueFilters[i].filter.doesValuePass(isNaN(value) ? null : value);
+            }
+
+            if (passes && nodeFilterPresent) {
+                passes = this.filterManager.doesRowPassFilter({ rowNode: columnarRows.getRowNode(rowIndex) });
+            }
+
+            if (passes) {
+                rowIndexes[count++] = rowIndex;
+            }
+        }
+
+        columnarRows.rowIndexesAfterFilter = rowIndexes.subarray(0, count);
+    }
+
+    private hasFilterValueGetter(column: Column): boolean {
+        const { filterValueGetter, filterParams } = column.getColDef();
+
+        return !!filterValueGetter || !!(filterParams && filterParams.valueGetter);
+    }
+
     private filterNodes(filterActive: boolean, changedPath: ChangedPath): void {
 
         const filterCallback = (rowNode: RowNode, includeChildNodes: boolean) => {
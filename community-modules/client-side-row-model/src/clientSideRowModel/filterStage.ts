@@ -16,7 +16,12 @@ export class FilterStage extends BeanStub implements IRowNodeStage {
     @Autowired('filterService') private filterService: FilterService;
 
     public execute(params: StageExecuteParams): void {
-        const { rowNode, changedPath } = params;
+        const { rowNode, changedPath, columnarRows } = params;
+
+        if (columnarRows) {
+            this.filterService.filterColumnarRows(columnarRows);
+            return;
+        }
 
         this.filterService.filter(changedPath!);
 
@@ -27,11 +27,15 @@ export class FlattenStage extends BeanStub implements IRowNodeStage {
         // is where the pivot values are
         const showRootNode = skipLeafNodes && rootNode.leafGroup;
         const topList = showRootNode ? [rootNode] : rootNode.childrenAfterSort;
+        const { columnarRows } = params;
 
-        this.recursivelyAddToRowsToDisplay(topList, result, nextRowTop, skipLeafNodes, 0);
+        // columnar rows are displayed by their indexes, so only the total footer goes into the result
+        if (!columnarRows) {
+            this.recursivelyAddToRowsToDisplay(topList, result, nextRowTop, skipLeafNodes, 0);
+        }
 
         // we do not want the footer total if the gris is empty
-        const atLeastOneRowPresent = result.length > 0;
+        const atLeastOneRowPresent = result.length > 0 || (columnarRows != null && columnarRows.rowIndexesAfterSort.length > 0);
 
         const includeGroupTotalFooter = !showRootNode
             // don't show total footer when showRootNode is true (i.e. in pivot mode and no groups)
@@ -0,0 +1,222 @@
+import { _ } from '@ag-grid-community/core';
+import { rowModelWorker, RowModelWorkerColumn, RowModelWorkerConfig, RowModelWorkerRequest, RowModelWorkerResponse } from './rowModelWorker';
+
+function createColumn(field: string): RowModelWorkerColumn {
+    return { colId: field, field, fieldContainsDots: false };
+}
+
+function createConfig(config: Partial<RowModelWorkerConfig> = {}): RowModelWorkerConfig {
+    return {
+        groupColumns: [createColumn('country')],
+        valueColumns: [{ ...createColumn('gold'), aggFunc: 'sum' }],
+        filters: [],
+        sorts: [{ column: createColumn('gold'), descending: true, groupColumns: [] }],
+        accentedSort: false,
+        aggFilteredOnly: true,
+        aggAtRootLevel: false,
+        ...config
+    };
+}
+
+// runs the worker in this thread, with a fake scope in place of the worker's self
+function createWorker() {
+    const scope: any = { postMessage: jest.fn() };
+
+    rowModelWorker(scope, _.defaultComparator, _.NAMED_COMPARATORS);
+
+    return (request: RowModelWorkerRequest): RowModelWorkerResponse | undefined => {
+        scope.postMessage.mockClear();
+        // the rows are copied, as posting them to a worker would, so the worker's changes don't reach the other tests
+        scope.onmessage({ data: { ...request, rows: request.rows && request.rows.slice() } });
+
+        const { calls } = scope.postMessage.mock;
+
+        return calls.length ? calls[0][0] : undefined;
+    };
+}
+
+const toArrays = (lists: (Int32Array | null)[]) => lists.map(list => list && Array.from(list));
+
+const rows = [
+    { country: 'Ireland', sport: 'Golf', gold: 2 },
+    { country: 'USA', sport: 'Swimming', gold: 5 },
+    { country: 'Ireland', sport: 'Swimming', gold: 1 },
+    { country: 'USA', sport: 'Golf', gold: 3 }
+];
+
+describe('rowModelWorker', () => {
+    it('groups, aggregates and sorts the rows', () => {
+        const send = createWorker();
+        const response = send({ id: 1, step: 'group', config: createConfig(), rows })!;
+
+        expect(response.id).toBe(1);
+        expect(response.groups!.map(group => [group.key, group.parent, Array.from(group.children)])).toEqual([
+            ['', -1, [-1, -2]],
+            ['Ireland', 0, [0, 2]],
+            ['USA', 0, [1, 3]]
+        ]);
+        expect(toArrays(response.filtered!)).toEqual([null, null, null]);
+        expect(response.aggData).toEqual([null, { gold: 3 }, { gold: 8 }]);
+        expect(toArrays(response.sorted!)).toEqual([[-2, -1], [0, 2], [1, 3]]);
+    });
+
+    it('only runs the steps from the one asked for, aggregating the filtered rows', () => {
+        const send = createWorker();
+
+        send({ id: 1, step: 'group', config: createConfig(), rows });
+
+        const filters = [{
+            column: createColumn('sport'),
+            filterType: 'text',
+            operator: 'AND',
+            conditions: [{ type: 'equals', filter: 'swimming' }]
+        }];
+        const response = send({ id: 2, step: 'filter', config: createConfig({ filters }) })!;
+
+        expect(response.groups).toBeUndefined();
+        expect(toArrays(response.filtered!)).toEqual([[-1, -2], [2], [1]]);
+        expect(response.aggData).toEqual([null, { gold: 1 }, { gold: 5 }]);
+        expect(toArrays(response.sorted!)).toEqual([[-2, -1], [2], [1]]);
+    });
+
+    it('keeps the rows up to date with transactions, adding the rows to the end of their groups', () => {
+        const send = createWorker();
+
+        send({ id: 1, step: 'group', config: createConfig(), rows });
+
+        const transaction = { removed: [0], added: [{ index: 3, data: { country: 'France', sport: 'Golf', gold: 4 } }], updated: [] };
+
+        expect(send({ transaction })).toBeUndefined();
+
+        const response = send({ id: 2, step: 'sort', config: createConfig() })!;
+
+        // the groups are kept, the same as the group stage does with transactions
+        expect(response.groups!.map(group => [group.key, Array.from(group.children)])).toEqual([
+            ['', [-1, -2, -3]],
+            ['Ireland', [1]],
+            ['USA', [0, 2]],
+            ['France', [3]]
+        ]);
+        expect(response.aggData).toEqual([null, { gold: 1 }, { gold: 8 }, { gold: 4 }]);
+        expect(toArrays(response.sorted!)).toEqual([[-2, -3, -1], [1], [0, 2], [3]]);
+    });
+
+    it('only reads the rows of the groups a transaction changes', () => {
+        const send = createWorker();
+        const reads: string[] = [];
+        const createRow = (country: string, gold: number) => ({
+            country,
+            get gold() {
+                reads.push(country);
+                return gold;
+            }
+        });
+
+        send({ id: 1, step: 'group', config: createConfig(), rows: [createRow('Ireland', 2), createRow('USA', 5), createRow('USA', 3)] });
+        reads.length = 0;
+
+        const transaction = { removed: [], added: [{ index: 1, data: createRow('Ireland', 4) }], updated: [] };
+        const response = send({ id: 2, step: 'group', config: createConfig(), transaction })!;
+
+        expect(response.aggData).toEqual([null, { gold: 6 }, { gold: 8 }]);
+        expect(toArrays(response.sorted!)).toEqual([[-2, -1], [1, 0], [2, 3]]);
+        expect(reads.length).toBeGreaterThan(0);
+        expect(reads.filter(country => country !== 'Ireland')).toEqual([]);
+    });
+
+    it('removes the groups that transactions leave empty', () => {
+        const send = createWorker();
+
+        send({ id: 1, step: 'group', config: createConfig(), rows });
+
+        const response = send({ id: 2, step: 'group', config: createConfig(), transaction: { removed: [1, 3], added: [], updated: [] } })!;
+
+        expect(response.groups!.map(group => [group.key, group.parent, Array.from(group.children)])).toEqual([
+            ['', -1, [-1]],
+            ['Ireland', 0, [0, 1]]
+        ]);
+        expect(response.aggData).toEqual([null, { gold: 3 }]);
+        expect(toArrays(response.sorted!)).toEqual([[-1], [0, 1]]);
+    });
+
+    it('filters the groups a transaction changes, leaving out the groups it filters empty', () => {
+        const send = createWorker();
+        const filters = [{
+            column: createColumn('sport'),
+            filterType: 'text',
+            operator: 'AND',
+            conditions: [{ type: 'equals', filter: 'swimming' }]
+        }];
+
+        send({ id: 1, step: 'group', config: createConfig({ filters }), rows });
+
+        const transaction = { removed: [2], added: [{ index: 3, data: { country: 'France', sport: 'Swimming', gold: 4 } }], updated: [] };
+        const response = send({ id: 2, step: 'group', config: createConfig({ filters }), transaction })!;
+
+        expect(toArrays(response.filtered!)).toEqual([[-2, -3], [], [1], [3]]);
+        expect(response.aggData).toEqual([null, { gold: null }, { gold: 5 }, { gold: 4 }]);
+    });
+
+    it('moves updated rows to the groups their values are in when grouping', () => {
+        const send = createWorker();
+
+        send({ id: 1, step: 'group', config: createConfig(), rows });
+
+        const updated = [
+            { index: 0, data: { country: 'France', sport: 'Golf', gold: 2 } },
+            { index: 2, data: { country: 'USA', sport: 'Swimming', gold: 1 } }
+        ];
+        const response = send({ id: 2, step: 'group', config: createConfig(), transaction: { removed: [], added: [], updated } })!;
+
+        expect(response.groups!.map(group => [group.key, Array.from(group.children)])).toEqual([
+            ['', [-1, -2]],
+            ['USA', [1, 3, 2]],
+            ['France', [0]]
+        ]);
+        expect(response.aggData).toEqual([null, { gold: 9 }, { gold: 2 }]);
+    });
+
+    it('groups all the rows again when the group columns change', () => {
+        const send = createWorker();
+
+        send({ id: 1, step: 'group', config: createConfig(), rows });
+
+        const response = send({ id: 2, step: 'group', config: createConfig({ groupColumns: [createColumn('sport')] }) })!;
+
+        expect(response.groups!.map(group => [group.key, Array.from(group.children)])).toEqual([
+            ['', [-1, -2]],
+            ['Golf', [0, 3]],
+            ['Swimming', [1, 2]]
+        ]);
+        expect(response.aggData).toEqual([null, { gold: 5 }, { gold: 6 }]);
+    });
+
+    it('aggregates again without grouping when rows are only updated', () => {
+        const send = createWorker();
+
+        send({ id: 1, step: 'group', config: createConfig(), rows });
+
+        const updated = [{ index: 0, data: { country: 'USA', sport: 'Golf', gold: 10 } }];
+        const response = send({ id: 2, step: 'sort', config: createConfig(), transaction: { removed: [], added: [], updated } })!;
+
+        // updated rows stay in their groups, the same as editing on the main thread
+        expect(response.groups).toBeUndefined();
+        expect(response.aggData).toEqual([null, { gold: 11 }, { gold: 8 }]);
+        expect(toArrays(response.sorted!)).toEqual([[-1, -2], [0, 2], [1, 3]]);
+    });
+
+    it('posts the error when a step fails, and runs every step on the next request', () => {
+        const send = createWorker();
+        const failingConfig = createConfig({ valueColumns: [{ ...createColumn('gold'), aggFunc: 'unknown' }] });
+
+        const failed = send({ id: 1, step: 'group', config: failingConfig, rows })!;
+
+        expect(failed.id).toBe(1);
+        expect(failed.error).toBeDefined();
+
+        const response = send({ id: 2, step: 'sort', config: createConfig() })!;
+
+        expect(response.error).toBeUndefined();
+        expect(response.groups).toHaveLength(3);
+    });
+});
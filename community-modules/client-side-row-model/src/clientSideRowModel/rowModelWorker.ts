@@ -0,0 +1,792 @@
+import { RowDataRecord } from "@ag-grid-community/core";
+
+// the messages between the row model and the worker. leaf rows are referred to by their index in the root node's
+// allLeafChildren, and groups by their index in the groups the worker returns, where the root node is 0. where
+// children can be either, groups are given as their negated index.
+
+export type RowModelWorkerStep = 'group' | 'filter' | 'aggregate' | 'sort';
+
+export interface RowModelWorkerColumn {
+    colId: string;
+    field?: string;
+    fieldContainsDots: boolean;
+    comparatorKey?: string;
+}
+
+export interface RowModelWorkerValueColumn extends RowModelWorkerColumn {
+    aggFunc: string;
+}
+
+export interface RowModelWorkerFilterCondition {
+    type: string;
+    // date filters are given as timestamps
+    filter?: any;
+    filterTo?: any;
+}
+
+export interface RowModelWorkerFilter {
+    column: RowModelWorkerColumn;
+    filterType: string;
+    operator: string;
+    conditions: RowModelWorkerFilterCondition[];
+    /** The selected values of set filters */
+    values?: (string | null)[];
+    caseSensitive?: boolean;
+    inRangeInclusive?: boolean;
+    includeBlanksInEquals?: boolean;
+    includeBlanksInLessThan?: boolean;
+    includeBlanksInGreaterThan?: boolean;
+    includeBlanksInRange?: boolean;
+}
+
+export interface RowModelWorkerSort {
+    column: RowModelWorkerColumn;
+    descending: boolean;
+    /** The row group columns, by index, whose keys the column shows on group rows */
+    groupColumns: number[];
+    /** For group columns with a field, the comparator of the column the field belongs to, used on leaf rows */
+    leafComparatorKey?: string;
+}
+
+export interface RowModelWorkerConfig {
+    groupColumns: RowModelWorkerColumn[];
+    valueColumns: RowModelWorkerValueColumn[];
+    filters: RowModelWorkerFilter[];
+    sorts: RowModelWorkerSort[];
+    accentedSort: boolean;
+    aggFilteredOnly: boolean;
+    aggAtRootLevel: boolean;
+}
+
+export interface RowModelWorkerTransaction {
+    /** Indexes from before the transaction, ascending */
+    removed: number[];
+    /** Indexes from after the transaction, ascending */
+    added: RowDataRecord[];
+    updated: RowDataRecord[];
+}
+
+export interface RowModelWorkerRequest {
+    /** Missing when the rows are only kept up to date, without refreshing */
+    id?: number;
+    step?: RowModelWorkerStep;
+    config?: RowModelWorkerConfig;
+    rows?: any[];
+    transaction?: RowModelWorkerTransaction;
+}
+
+export interface RowModelWorkerGroup {
+    key: string;
+    /** Index of the row group column */
+    column: number;
+    parent: number;
+    level: number;
+    /** In the order they were grouped */
+    children: Int32Array;
+}
+
+export interface RowModelWorkerResponse {
+    id: number;
+    error?: string;
+    /** Present when the rows were grouped */
+    groups?: RowModelWorkerGroup[];
+    /** Present when the rows were filtered, null for groups when nothing is filtered */
+    filtered?: (Int32Array | null)[];
+    /** Present when the groups were aggregated */
+    aggData?: any[];
+    /** The filtered children in sort order, null for groups when nothing is sorted */
+    sorted?: (Int32Array | null)[];
+}
+
+/**
+ * Runs the stages of the row model up to sorting. The worker is created from the source of this function, so it
+ * mustn't use anything declared outside of it. Each stage keeps its results, so a refresh runs only the stages from
+ * the step it asks for. Transactions are applied to the groups the rows are in, and each stage then runs again only for
+ * those groups and their parents, unless its config changed.
+ */
+export function rowModelWorker(
+    scope: any,
+    defaultComparator: (valueA: any, valueB: any, accentedCompare: boolean) => number,
+    namedComparators: { [key: string]: (valueA: any, valueB: any) => number; }
+): void {
+
+    interface Group {
+        key: string;
+        column: number;
+        parent: number;
+        level: number;
+        children: number[];
+        mapped: { [key: string]: number; };
+    }
+
+    const STEPS: RowModelWorkerStep[] = ['group', 'filter', 'aggregate', 'sort'];
+    const FILTER = 1;
+    const AGGREGATE = 2;
+    const SORT = 3;
+
+    // @ts-ignore
+    const toBigInt: ((value: any) => any) | null = typeof BigInt === 'undefined' ? null : BigInt;
+
+    let rows: any[] = [];
+    let groups: Group[] = [];
+    let filtered: (number[] | null)[] = [];
+    let aggData: any[] = [];
+    let sorted: (number[] | null)[] = [];
+
+    // the group each row is in, and whether it was updated since, as updated rows only move groups when regrouped
+    let rowGroups: number[] = [];
+    let updatedRows: boolean[] = [];
+    let groupColumns: RowModelWorkerColumn[] = [];
+
+    // the config each step last ran with, null when it has to run for all the groups
+    let stepConfigs: (string | null)[] = STEPS.map(() => null);
+    // by step, the groups whose results are out of date because their rows changed. a group's parents are always in
+    // the same sets, as their results depend on it
+    let dirtyGroups: boolean[][] = STEPS.map(() => []);
+
+    // index of the first step that has to run again because the rows changed, past the last step when none
+    let staleStep = 0;
+
+    const getValue = (column: RowModelWorkerColumn, data: any): any => {
+        const { field } = column;
+
+        if (!field || !data) { return; }
+        if (!column.fieldContainsDots) { return data[field]; }
+
+        const fields = field.split('.');
+        let value = data;
+
+        for (let i = 0; i < fields.length; i++) {
+            if (value == null) { return; }
+            value = value[fields[i]];
+        }
+
+        return value;
+    };
+
+    const markDirty = (groupIndex: number): void => {
+        for (let g = groupIndex; g >= 0; g = groups[g].parent) {
+            if (dirtyGroups[FILTER][g] && dirtyGroups[AGGREGATE][g] && dirtyGroups[SORT][g]) { return; }
+
+            dirtyGroups[FILTER][g] = dirtyGroups[AGGREGATE][g] = dirtyGroups[SORT][g] = true;
+        }
+    };
+
+    /** The group the row belongs in, creating the groups it needs */
+    const getGroupIndex = (data: any): number => {
+        let parent = 0;
+        let level = 0;
+
+        for (let c = 0; c < groupColumns.length; c++) {
+            const column = groupColumns[c];
+            let key = getValue(column, data);
+
+            // rows without a key are put in the group above, the same as the group stage does
+            if (key == null) { continue; }
+            if (typeof key !== 'string') { key = String(key); }
+
+            const mapKey = column.colId + '-' + key;
+            let index = groups[parent].mapped[mapKey];
+
+            if (index === undefined) {
+                index = groups.length;
+                groups.push({ key, column: c, parent, level, children: [], mapped: Object.create(null) });
+                groups[parent].mapped[mapKey] = index;
+                groups[parent].children.push(-index);
+            }
+
+            parent = index;
+            level++;
+        }
+
+        return parent;
+    };
+
+    /** Removes the rows from their groups, leaving any groups that are left empty to removeEmptyGroups */
+    const removeFromGroups = (rowIndexes: number[]): void => {
+        const removed: { [index: number]: boolean; } = {};
+        const changedGroups: { [index: number]: boolean; } = {};
+
+        rowIndexes.forEach(index => {
+            removed[index] = true;
+            changedGroups[rowGroups[index]] = true;
+            markDirty(rowGroups[index]);
+        });
+
+        Object.keys(changedGroups).forEach(key => {
+            const groupItem = groups[Number(key)];
+            groupItem.children = groupItem.children.filter(child => child < 0 || !removed[child]);
+        });
+    };
+
+    const addToGroup = (rowIndex: number, groupIndex: number): void => {
+        groups[groupIndex].children.push(rowIndex);
+        rowGroups[rowIndex] = groupIndex;
+        markDirty(groupIndex);
+    };
+
+    const removeEmptyGroups = (): void => {
+        const removedChildCounts: number[] = groups.map(() => 0);
+        // where each group moves to, -1 for the removed groups
+        const newIndexes: number[] = [];
+        let removedCount = 0;
+
+        // children are always after their group, so going backwards finds the groups that only had empty groups
+        for (let g = groups.length - 1; g > 0; g--) {
+            if (groups[g].children.length > removedChildCounts[g]) { continue; }
+
+            newIndexes[g] = -1;
+            removedChildCounts[groups[g].parent]++;
+            removedCount++;
+        }
+
+        if (!removedCount) { return; }
+
+        const remapChildren = (children: number[]) => {
+            const result: number[] = [];
+
+            for (let i = 0; i < children.length; i++) {
+                const child = children[i];
+
+                if (child >= 0) {
+                    result.push(child);
+                } else if (newIndexes[-child] >= 0) {
+                    result.push(-newIndexes[-child]);
+                }
+            }
+
+            return result;
+        };
+
+        const kept: number[] = [];
+
+        for (let g = 0; g < groups.length; g++) {
+            if (newIndexes[g] === -1) { continue; }
+
+            newIndexes[g] = kept.length;
+            kept.push(g);
+        }
+
+        groups = kept.map(g => {
+            const groupItem = groups[g];
+            const mapped: { [key: string]: number; } = Object.create(null);
+
+            Object.keys(groupItem.mapped).forEach(key => {
+                const index = newIndexes[groupItem.mapped[key]];
+
+                if (index >= 0) {
+                    mapped[key] = index;
+                }
+            });
+
+            return {
+                key: groupItem.key,
+                column: groupItem.column,
+                parent: g === 0 ? -1 : newIndexes[groupItem.parent],
+                level: groupItem.level,
+                children: remapChildren(groupItem.children),
+                mapped
+            };
+        });
+
+        filtered = kept.map(g => filtered[g] ? remapChildren(filtered[g]!) : null);
+        sorted = kept.map(g => sorted[g] ? remapChildren(sorted[g]!) : null);
+        aggData = kept.map(g => aggData[g]);
+        dirtyGroups = dirtyGroups.map(dirty => kept.map(g => !!dirty[g]));
+        rowGroups = rowGroups.map(g => newIndexes[g]);
+    };
+
+    const applyTransaction = (transaction: RowModelWorkerTransaction): void => {
+        const { removed, added, updated } = transaction;
+        const grouped = stepConfigs[0] !== null;
+
+        if (grouped && removed.length) {
+            removeFromGroups(removed);
+        }
+
+        if (removed.length || added.length) {
+            const removedIndexes: { [index: number]: boolean; } = {};
+            // where each row moves to, -1 for the removed rows
+            const newIndexes: number[] = [];
+            const newRows: any[] = [];
+            const newRowGroups: number[] = [];
+            const newUpdatedRows: boolean[] = [];
+            let addedIndex = 0;
+
+            const addRows = () => {
+                while (addedIndex < added.length && added[addedIndex].index === newRows.length) {
+                    newRows.push(added[addedIndex++].data);
+                    newRowGroups.push(-1);
+                    newUpdatedRows.push(false);
+                }
+            };
+
+            removed.forEach(index => removedIndexes[index] = true);
+
+            for (let i = 0; i < rows.length; i++) {
+                if (removedIndexes[i]) {
+                    newIndexes.push(-1);
+                    continue;
+                }
+
+                addRows();
+                newIndexes.push(newRows.length);
+                newRows.push(rows[i]);
+                newRowGroups.push(rowGroups[i]);
+                newUpdatedRows.push(!!updatedRows[i]);
+            }
+
+            // the rows added after all the others
+            for (; addedIndex < added.length; addedIndex++) {
+                newRows.push(added[addedIndex].data);
+                newRowGroups.push(-1);
+                newUpdatedRows.push(false);
+            }
+
+            rows = newRows;
+            rowGroups = newRowGroups;
+            updatedRows = newUpdatedRows;
+
+            if (grouped) {
+                // the groups refer to the rows by index, so they're moved to where the rows are now
+                const remap = (children: number[]) => children
+                    .filter(child => child < 0 || newIndexes[child] >= 0)
+                    .map(child => child < 0 ? child : newIndexes[child]);
+
+                groups.forEach(groupItem => groupItem.children = remap(groupItem.children));
+                filtered = filtered.map(list => list && remap(list));
+                sorted = sorted.map(list => list && remap(list));
+
+                // added rows go at the end of their groups, the same as the group stage does with transactions
+                added.forEach(({ index }) => addToGroup(index, getGroupIndex(rows[index])));
+                removeEmptyGroups();
+            }
+        }
+
+        updated.forEach(record => {
+            rows[record.index] = record.data;
+
+            if (grouped) {
+                updatedRows[record.index] = true;
+                markDirty(rowGroups[record.index]);
+            }
+        });
+
+        // updates alone don't move rows between groups, the same as editing on the main thread
+        staleStep = Math.min(staleStep, removed.length || added.length ? 0 : STEPS.indexOf('aggregate'));
+    };
+
+    const group = (config: RowModelWorkerConfig): void => {
+        groupColumns = config.groupColumns;
+        groups = [{ key: '', column: -1, parent: -1, level: -1, children: [], mapped: Object.create(null) }];
+        rowGroups = [];
+        updatedRows = [];
+
+        for (let i = 0; i < rows.length; i++) {
+            const g = getGroupIndex(rows[i]);
+
+            groups[g].children.push(i);
+            rowGroups.push(g);
+            updatedRows.push(false);
+        }
+    };
+
+    /** Moves the rows updated since they were grouped to the groups their values are in now */
+    const regroupUpdatedRows = (): void => {
+        const moved: number[] = [];
+        const newGroups: number[] = [];
+
+        for (let i = 0; i < rows.length; i++) {
+            if (!updatedRows[i]) { continue; }
+
+            const g = getGroupIndex(rows[i]);
+
+            updatedRows[i] = false;
+
+            if (g !== rowGroups[i]) {
+                moved.push(i);
+                newGroups.push(g);
+            }
+        }
+
+        removeFromGroups(moved);
+        moved.forEach((index, i) => addToGroup(index, newGroups[i]));
+        removeEmptyGroups();
+    };
+
+    /** The groups the step has to run for, null for all of them, marking them for the steps after it */
+    const takeDirtyGroups = (step: number, all: boolean): boolean[] | null => {
+        const dirty = dirtyGroups[step];
+
+        dirtyGroups[step] = [];
+
+        if (all) { return null; }
+
+        for (let later = step + 1; later < STEPS.length; later++) {
+            dirty.forEach((isDirty, g) => isDirty && (dirtyGroups[later][g] = true));
+        }
+
+        return dirty;
+    };
+
+    const conditionPasses = (filter: RowModelWorkerFilter, condition: RowModelWorkerFilterCondition, value: any): boolean => {
+        const { type } = condition;
+
+        if (filter.filterType === 'text') {
+            if (value == null) { return type === 'notEqual' || type === 'notContains'; }
+
+            const format = (text: any) => filter.caseSensitive || text == null ? text : text.toString().toLowerCase();
+            const cellText = format(value);
+            const filterText = format(condition.filter);
+
+            switch (type) {
+                case 'contains': return cellText.indexOf(filterText) >= 0;
+                case 'notContains': return cellText.indexOf(filterText) < 0;
+                case 'equals': return cellText === filterText;
+                case 'notEqual': return cellText != filterText;
+                case 'startsWith': return cellText.indexOf(filterText) === 0;
+                case 'endsWith': {
+                    const index = cellText.lastIndexOf(filterText);
+                    return index >= 0 && index === (cellText.length - filterText.length);
+                }
+            }
+
+            return false;
+        }
+
+        if (value == null) {
+            switch (type) {
+                case 'equals':
+                case 'notEqual':
+                    return !!filter.includeBlanksInEquals;
+                case 'greaterThan':
+                case 'greaterThanOrEqual':
+                    return !!filter.includeBlanksInGreaterThan;
+                case 'lessThan':
+                case 'lessThanOrEqual':
+                    return !!filter.includeBlanksInLessThan;
+                case 'inRange':
+                    return !!filter.includeBlanksInRange;
+            }
+
+            return false;
+        }
+
+        // the same comparisons the number and date filters make, the filter value first
+        const compare = filter.filterType === 'number' ?
+            (left: any, right: any) => left === right ? 0 : (left < right ? 1 : -1) :
+            (left: any, right: any) => right < left ? -1 : (right > left ? 1 : 0);
+        const result = compare(condition.filter, value);
+
+        switch (type) {
+            case 'equals': return result === 0;
+            case 'notEqual': return result !== 0;
+            case 'greaterThan': return result > 0;
+            case 'greaterThanOrEqual': return result >= 0;
+            case 'lessThan': return result < 0;
+            case 'lessThanOrEqual': return result <= 0;
+            case 'inRange': {
+                const resultTo = compare(condition.filterTo, value);
+
+                return filter.inRangeInclusive ? result >= 0 && resultTo <= 0 : result > 0 && resultTo < 0;
+            }
+        }
+
+        return true;
+    };
+
+    const filter = (config: RowModelWorkerConfig, all: boolean): void => {
+        const { filters } = config;
+        const dirty = takeDirtyGroups(FILTER, all);
+
+        if (!filters.length) {
+            filtered = groups.map(() => null);
+            return;
+        }
+
+        const selectedValues = filters.map(f => {
+            if (!f.values) { return null; }
+
+            const selected: { [key: string]: boolean; } = Object.create(null);
+            f.values.forEach(value => selected[String(value)] = true);
+
+            return selected;
+        });
+
+        const isSelected = (selected: { [key: string]: boolean; }, value: any) =>
+            selected[String(value == null || value === '' ? null : value)] === true;
+
+        const passes = (data: any) => filters.every((f, index) => {
+            const value = getValue(f.column, data);
+            const selected = selectedValues[index];
+
+            if (selected) {
+                return Array.isArray(value) ? value.some(v => isSelected(selected, v)) : isSelected(selected, value);
+            }
+
+            const conditionPassesFunc = (condition: RowModelWorkerFilterCondition) => conditionPasses(f, condition, value);
+
+            return f.operator === 'OR' ? f.conditions.some(conditionPassesFunc) : f.conditions.every(conditionPassesFunc);
+        });
+
+        if (!dirty) {
+            filtered = groups.map(() => null);
+        }
+
+        // groups are always after their parent, so going backwards filters the children of a group before it
+        for (let g = groups.length - 1; g >= 0; g--) {
+            if (dirty && !dirty[g]) { continue; }
+
+            filtered[g] = groups[g].children.filter(child => child >= 0 ? passes(rows[child]) : filtered[-child]!.length > 0);
+        }
+    };
+
+    const AGG_FUNCS: { [name: string]: (values: any[]) => any; } = {
+        sum: values => {
+            let result: any = null;
+
+            for (let i = 0; i < values.length; i++) {
+                const value = values[i];
+
+                if (typeof value === 'number') {
+                    result = result === null ? value : result + (typeof result === 'number' || !toBigInt ? value : toBigInt(value));
+                } else if (typeof value === 'bigint') {
+                    result = result === null ? value : (typeof result === 'bigint' ? result : toBigInt!(result)) + value;
+                }
+            }
+
+            return result;
+        },
+        min: values => {
+            let result: any = null;
+
+            for (let i = 0; i < values.length; i++) {
+                const value = values[i];
+
+                if ((typeof value === 'number' || typeof value === 'bigint') && (result === null || result > value)) {
+                    result = value;
+                }
+            }
+
+            return result;
+        },
+        max: values => {
+            let result: any = null;
+
+            for (let i = 0; i < values.length; i++) {
+                const value = values[i];
+
+                if ((typeof value === 'number' || typeof value === 'bigint') && (result === null || result < value)) {
+                    result = value;
+                }
+            }
+
+            return result;
+        },
+        first: values => values.length > 0 ? values[0] : null,
+        last: values => values.length > 0 ? values[values.length - 1] : null,
+        // count and avg are objects like the ones the grid creates, without the functions, which the row model adds
+        count: values => {
+            let value = 0;
+
+            for (let i = 0; i < values.length; i++) {
+                const item = values[i];
+                value += item != null && typeof item.value === 'number' ? item.value : 1;
+            }
+
+            return { value };
+        },
+        avg: values => {
+            let sum: any = 0;
+            let count = 0;
+
+            for (let i = 0; i < values.length; i++) {
+                const item = values[i];
+                let valueToAdd: any = null;
+
+                if (typeof item === 'number' || typeof item === 'bigint') {
+                    valueToAdd = item;
+                    count++;
+                } else if (item != null && (typeof item.value === 'number' || typeof item.value === 'bigint') && typeof item.count === 'number') {
+                    // groups are weighted by their count
+                    valueToAdd = item.value * (typeof item.value === 'number' || !toBigInt ? item.count : toBigInt(item.count));
+                    count += item.count;
+                }
+
+                if (typeof valueToAdd === 'number') {
+                    sum += typeof sum === 'number' || !toBigInt ? valueToAdd : toBigInt(valueToAdd);
+                } else if (typeof valueToAdd === 'bigint') {
+                    sum = (typeof sum === 'bigint' ? sum : toBigInt!(sum)) + valueToAdd;
+                }
+            }
+
+            const value = count > 0 ? sum / (typeof sum === 'number' || !toBigInt ? count : toBigInt(count)) : null;
+
+            return { count, value };
+        }
+    };
+
+    const aggregate = (config: RowModelWorkerConfig, all: boolean): void => {
+        const { valueColumns } = config;
+        const dirty = takeDirtyGroups(AGGREGATE, all);
+
+        if (!dirty || !valueColumns.length) {
+            aggData = groups.map(() => null);
+        }
+
+        if (!valueColumns.length) { return; }
+
+        for (let g = groups.length - 1; g >= 0; g--) {
+            if ((dirty && !dirty[g]) || (g === 0 && !config.aggAtRootLevel)) { continue; }
+
+            const children = (config.aggFilteredOnly && filtered[g]) || groups[g].children;
+            const result: any = {};
+
+            valueColumns.forEach(column => {
+                const values = children.map(child => child >= 0 ? getValue(column, rows[child]) : aggData[-child][column.colId]);
+                result[column.colId] = AGG_FUNCS[column.aggFunc](values);
+            });
+
+            aggData[g] = result;
+        }
+    };
+
+    const getSortValue = (sort: RowModelWorkerSort, child: number): any => {
+        if (child >= 0) { return getValue(sort.column, rows[child]); }
+
+        const groupItem = groups[-child];
+
+        if (sort.groupColumns.indexOf(groupItem.column) >= 0) { return groupItem.key; }
+
+        const agg = aggData[-child];
+        const value = agg ? agg[sort.column.colId] : undefined;
+
+        // count and avg are sorted by their number, the same as the grid does with their toNumber()
+        return value != null && typeof value === 'object' && 'value' in value ? value.value : value;
+    };
+
+    const getComparator = (config: RowModelWorkerConfig, sort: RowModelWorkerSort, child: number): (valueA: any, valueB: any) => number => {
+        let key = sort.column.comparatorKey;
+
+        if (!key) {
+            key = child < 0 ? config.groupColumns[groups[-child].column].comparatorKey : sort.leafComparatorKey;
+        }
+
+        return key ? namedComparators[key] : (valueA, valueB) => defaultComparator(valueA, valueB, config.accentedSort);
+    };
+
+    const sort = (config: RowModelWorkerConfig, all: boolean): void => {
+        const { sorts } = config;
+        const dirty = takeDirtyGroups(SORT, all);
+
+        if (!dirty || !sorts.length) {
+            sorted = groups.map(() => null);
+        }
+
+        if (!sorts.length) { return; }
+
+        const compare = (a: { child: number, pos: number; }, b: { child: number, pos: number; }): number => {
+            for (let i = 0; i < sorts.length; i++) {
+                const sortItem = sorts[i];
+                const comparator = getComparator(config, sortItem, a.child);
+                const result = comparator(getSortValue(sortItem, a.child), getSortValue(sortItem, b.child));
+
+                if (!isNaN(result) && result !== 0) {
+                    return sortItem.descending ? -result : result;
+                }
+            }
+
+            // keeps the order of equal rows
+            return a.pos - b.pos;
+        };
+
+        for (let g = 0; g < groups.length; g++) {
+            if (dirty && !dirty[g]) { continue; }
+
+            const children = filtered[g] || groups[g].children;
+            const items = children.map((child, pos) => ({ child, pos }));
+
+            sorted[g] = items.sort(compare).map(item => item.child);
+        }
+    };
+
+    scope.onmessage = (event: { data: RowModelWorkerRequest; }) => {
+        const request = event.data;
+
+        if (request.rows) {
+            rows = request.rows;
+            staleStep = 0;
+            stepConfigs = STEPS.map(() => null);
+        }
+
+        if (request.transaction) {
+            applyTransaction(request.transaction);
+        }
+
+        if (request.id == null) { return; }
+
+        const { id, config } = request;
+        const response: RowModelWorkerResponse = { id };
+        const transfer: ArrayBuffer[] = [];
+        const toTransferable = (list: number[] | null): Int32Array | null => {
+            if (!list) { return null; }
+
+            const array = new Int32Array(list);
+            transfer.push(array.buffer);
+
+            return array;
+        };
+
+        try {
+            const firstStep = Math.min(STEPS.indexOf(request.step!), staleStep);
+            const configs = [
+                JSON.stringify(config!.groupColumns),
+                JSON.stringify(config!.filters),
+                JSON.stringify([config!.valueColumns, config!.aggFilteredOnly, config!.aggAtRootLevel]),
+                JSON.stringify([config!.sorts, config!.accentedSort])
+            ];
+            // a step runs for all the groups when its config changed, or a step before it ran for all of them,
+            // otherwise only for the groups whose rows changed
+            let all = false;
+            const runStep = (step: number, run: (all: boolean) => void) => {
+                all = all || stepConfigs[step] !== configs[step];
+                run(all);
+                stepConfigs[step] = configs[step];
+            };
+
+            staleStep = STEPS.length;
+
+            if (firstStep <= 0) {
+                runStep(0, runForAll => runForAll ? group(config!) : regroupUpdatedRows());
+                response.groups = groups.map(g => ({
+                    key: g.key,
+                    column: g.column,
+                    parent: g.parent,
+                    level: g.level,
+                    children: toTransferable(g.children)!
+                }));
+            }
+
+            if (firstStep <= 1) {
+                runStep(FILTER, runForAll => filter(config!, runForAll));
+                response.filtered = filtered.map(toTransferable);
+            }
+
+            if (firstStep <= 2) {
+                runStep(AGGREGATE, runForAll => aggregate(config!, runForAll));
+                response.aggData = aggData;
+            }
+
+            runStep(SORT, runForAll => sort(config!, runForAll));
+            response.sorted = sorted.map(toTransferable);
+        } catch (e) {
+            // everything runs again after an error, as the stages could be part done
+            staleStep = 0;
+            stepConfigs = STEPS.map(() => null);
+            scope.postMessage({ id, error: String(e && e.message || e) });
+            return;
+        }
+
+        scope.postMessage(response, transfer);
+    };
+}
@@ -0,0 +1,837 @@
+import {
+    _,
+    AdvancedFilterService,
+    Autowired,
+    Bean,
+    BeanStub,
+    CellValueChangedEvent,
+    ClientSideRowModelSteps,
+    ColDef,
+    Column,
+    ColumnModel,
+    Constants,
+    Events,
+    FilterManager,
+    GridApi,
+    IRowNodeStage,
+    NumberSequence,
+    Optional,
+    PostConstruct,
+    RefreshModelParams,
+    RowNode,
+    RowNodeTransaction,
+    SelectableService,
+    SelectionService,
+    SimpleFilter,
+    SortController
+} from "@ag-grid-community/core";
+import { SortService } from "./sortService";
+import {
+    rowModelWorker,
+    RowModelWorkerColumn,
+    RowModelWorkerConfig,
+    RowModelWorkerFilter,
+    RowModelWorkerGroup,
+    RowModelWorkerRequest,
+    RowModelWorkerResponse,
+    RowModelWorkerSort,
+    RowModelWorkerStep,
+    RowModelWorkerTransaction,
+    RowModelWorkerValueColumn
+} from "./rowModelWorker";
+
+interface PendingRequest {
+    id: number;
+    params: RefreshModelParams;
+    rootNode: RowNode;
+    /** The leaf rows the indexes in the response refer to */
+    leaves: RowNode[];
+    groupColumns: Column[];
+    valueColumns: Column[];
+    aggAtRootLevel: boolean;
+    /** False when the rows are grouped from scratch, so none of the group nodes are kept */
+    keepGroups: boolean;
+    onRefreshed: (params: RefreshModelParams) => void;
+    onFailed: (params: RefreshModelParams) => void;
+}
+
+const WORKER_STEPS: { [step: string]: RowModelWorkerStep; } = {
+    [ClientSideRowModelSteps.EVERYTHING]: 'group',
+    [ClientSideRowModelSteps.FILTER]: 'filter',
+    // pivoting isn't done in the worker, so this step only aggregates
+    [ClientSideRowModelSteps.PIVOT]: 'aggregate',
+    [ClientSideRowModelSteps.AGGREGATE]: 'aggregate',
+    [ClientSideRowModelSteps.SORT]: 'sort'
+};
+
+const STEP_ORDER = [
+    ClientSideRowModelSteps.EVERYTHING,
+    ClientSideRowModelSteps.FILTER,
+    ClientSideRowModelSteps.PIVOT,
+    ClientSideRowModelSteps.AGGREGATE,
+    ClientSideRowModelSteps.SORT,
+    ClientSideRowModelSteps.MAP,
+    ClientSideRowModelSteps.NOTHING
+];
+
+const BUILT_IN_AGG_FUNCS = ['sum', 'min', 'max', 'first', 'last', 'count', 'avg'];
+
+const PROVIDED_FILTERS: { [filterType: string]: string; } = {
+    text: 'agTextColumnFilter',
+    number: 'agNumberColumnFilter',
+    date: 'agDateColumnFilter',
+    set: 'agSetColumnFilter'
+};
+
+const TEXT_FILTER_TYPES = [
+    SimpleFilter.EQUALS, SimpleFilter.NOT_EQUAL, SimpleFilter.CONTAINS, SimpleFilter.NOT_CONTAINS,
+    SimpleFilter.STARTS_WITH, SimpleFilter.ENDS_WITH
+];
+
+const SCALAR_FILTER_TYPES = [
+    SimpleFilter.EQUALS, SimpleFilter.NOT_EQUAL, SimpleFilter.LESS_THAN, SimpleFilter.LESS_THAN_OR_EQUAL,
+    SimpleFilter.GREATER_THAN, SimpleFilter.GREATER_THAN_OR_EQUAL, SimpleFilter.IN_RANGE
+];
+
+/**
+ * Runs the grouping, filtering, aggregation and sorting of the row model in a web worker when
+ * gridOptions.enableRowModelWorker is set. The worker keeps a copy of the row data, which is kept up to date with
+ * the transactions. Whenever the configuration can't be sent to the worker, eg a column has a valueGetter, the
+ * row model refreshes on the main thread as normal.
+ */
+@Bean('rowModelWorkerService')
+export class RowModelWorkerService extends BeanStub {
+
+    @Autowired('columnModel') private columnModel: ColumnModel;
+    @Autowired('filterManager') private filterManager: FilterManager;
+    @Autowired('advancedFilterService') private advancedFilterService: AdvancedFilterService;
+    @Autowired('sortController') private sortController: SortController;
+    @Autowired('sortService') private sortService: SortService;
+    @Autowired('selectionService') private selectionService: SelectionService;
+    @Autowired('selectableService') private selectableService: SelectableService;
+    @Autowired('gridApi') private gridApi: GridApi;
+
+    @Optional('groupStage') private groupStage: IRowNodeStage;
+    @Optional('aggregationStage') private aggregationStage: IRowNodeStage;
+
+    private active: boolean;
+    private worker: Worker | null = null;
+    private workerUrl: string | null = null;
+
+    // the loading overlay is only shown when the worker takes a while, so quick refreshes don't flash it
+    private static LOADING_OVERLAY_DELAY_MILLIS = 300;
+
+    private requestSequence = new NumberSequence();
+    private groupIdSequence = new NumberSequence();
+    private pendingRequest: PendingRequest | null = null;
+
+    // the leaf rows as the worker has them, null when the worker needs all the rows again
+    private syncedLeaves: RowNode[] | null = null;
+    // rows edited or given new data since the last request, keyed by node id
+    private updatedNodes: { [id: string]: RowNode; } = {};
+
+    // the root node followed by the group nodes, in the order the worker last grouped them
+    private groupNodes: RowNode[] = [];
+    // set until the worker has grouped the rows, and when the main thread grouped them since
+    private regroupRequired = true;
+
+    private loadingOverlayTimeout: number | undefined;
+    // only the loading overlay this service showed is hidden again, so overlays the application shows are left alone
+    private showingLoadingOverlay = false;
+
+    @PostConstruct
+    private init(): void {
+        this.active = this.gridOptionsWrapper.isEnableRowModelWorker() && this.gridOptionsWrapper.isRowModelDefault();
+
+        if (!this.active) { return; }
+
+        this.addManagedListener(this.eventService, Events.EVENT_CELL_VALUE_CHANGED, this.onCellValueChanged.bind(this));
+        this.addDestroyFunc(() => {
+            window.clearTimeout(this.loadingOverlayTimeout);
+            this.destroyWorker();
+        });
+    }
+
+    /**
+     * Sends the refresh to the worker, calling onRefreshed once the nodes are updated, or onFailed if the worker stops
+     * working. Returns null if the worker took the refresh, otherwise the params to refresh the main thread with,
+     * which include any refresh that was still waiting on the worker.
+     */
+    public refreshModel(
+        rootNode: RowNode,
+        params: RefreshModelParams,
+        onRefreshed: (params: RefreshModelParams) => void,
+        onFailed: (params: RefreshModelParams) => void
+    ): RefreshModelParams | null {
+        // mapping only uses the nodes, which are left as they are until the worker responds
+        if (!this.active || !WORKER_STEPS[params.step]) { return params; }
+
+        const pending = this.pendingRequest;
+        const mergedParams = pending ? this.mergeParams(pending.params, params) : params;
+        const config = this.createConfig();
+
+        this.pendingRequest = null;
+
+        if (!config || !this.createWorker()) {
+            this.onMainThreadRefresh(params, mergedParams);
+            this.restoreOverlay(rootNode);
+            return mergedParams;
+        }
+
+        const id = this.requestSequence.next();
+        const leaves = rootNode.allLeafChildren;
+        const request: RowModelWorkerRequest = {
+            id,
+            step: this.regroupRequired ? 'group' : WORKER_STEPS[mergedParams.step],
+            config
+        };
+
+        this.addRows(request, leaves, params);
+
+        try {
+            this.worker!.postMessage(request);
+        } catch (e) {
+            // eg the row data can't be copied to the worker
+            this.deactivate(e);
+            this.restoreOverlay(rootNode);
+            return mergedParams;
+        }
+
+        this.regroupRequired = false;
+        this.pendingRequest = {
+            id,
+            params: mergedParams,
+            rootNode,
+            leaves: this.syncedLeaves!,
+            groupColumns: this.getGroupColumns(),
+            valueColumns: this.getValueColumns(),
+            aggAtRootLevel: config.aggAtRootLevel,
+            keepGroups: mergedParams.step !== ClientSideRowModelSteps.EVERYTHING || !!mergedParams.rowNodeTransactions,
+            onRefreshed,
+            onFailed
+        };
+
+        this.scheduleLoadingOverlay();
+
+        return null;
+    }
+
+    private onMainThreadRefresh(params: RefreshModelParams, mergedParams: RefreshModelParams): void {
+        // the worker doesn't know about the rows changed by this refresh
+        if (params.rowNodeTransactions || params.newData) {
+            this.syncedLeaves = null;
+        }
+
+        if (mergedParams.step === ClientSideRowModelSteps.EVERYTHING) {
+            this.regroupRequired = true;
+        }
+    }
+
+    private mergeParams(first: RefreshModelParams, second: RefreshModelParams): RefreshModelParams {
+        const step = STEP_ORDER[Math.min(STEP_ORDER.indexOf(first.step), STEP_ORDER.indexOf(second.step))];
+        const isRegroupWithoutTransactions = (params: RefreshModelParams) =>
+            params.step === ClientSideRowModelSteps.EVERYTHING && !params.rowNodeTransactions;
+
+        // the transactions can only update the groups if neither refresh groups from scratch
+        const keepTransactions = (first.rowNodeTransactions || second.rowNodeTransactions) &&
+            !isRegroupWithoutTransactions(first) && !isRegroupWithoutTransactions(second);
+
+        return {
+            step,
+            groupState: first.groupState || second.groupState,
+            keepRenderedRows: first.keepRenderedRows && second.keepRenderedRows,
+            animate: first.animate && second.animate,
+            keepEditingRows: first.keepEditingRows && second.keepEditingRows,
+            rowNodeTransactions: keepTransactions ?
+                (first.rowNodeTransactions || []).concat(second.rowNodeTransactions || []) : undefined,
+            rowNodeOrder: second.rowNodeOrder || first.rowNodeOrder,
+            newData: first.newData || second.newData,
+            afterColumnsChanged: first.afterColumnsChanged || second.afterColumnsChanged
+        };
+    }
+
+    /** Called when the data of a row is replaced, eg with rowNode.setData(), as the worker has a copy of the data */
+    public onRowNodeDataChanged(node: RowNode): void {
+        if (!this.active) { return; }
+
+        this.markUpdated(node);
+    }
+
+    private onCellValueChanged(event: CellValueChangedEvent): void {
+        this.markUpdated(event.node);
+    }
+
+    private markUpdated(node: RowNode): void {
+        // when the worker doesn't have the rows, they're all sent with the next request anyway
+        if (!this.syncedLeaves || node.group || node.isRowPinned() || node.id == null) { return; }
+
+        this.updatedNodes[node.id] = node;
+    }
+
+    private getGroupColumns(): Column[] {
+        return this.groupStage ? this.columnModel.getRowGroupColumns() : [];
+    }
+
+    private getValueColumns(): Column[] {
+        return this.aggregationStage ? this.columnModel.getValueColumns() : [];
+    }
+
+    private createConfig(): RowModelWorkerConfig | null {
+        const gridOptionsWrapper = this.gridOptionsWrapper;
+
+        const unsupported = gridOptionsWrapper.isTreeData() ||
+            this.columnModel.isPivotMode() ||
+            gridOptionsWrapper.isEnableCellExpressions() ||
+            gridOptionsWrapper.getGroupRowAggNodesFunc() ||
+            gridOptionsWrapper.getPostSortFunc() ||
+            gridOptionsWrapper.getDefaultGroupSortComparator() ||
+            gridOptionsWrapper.isGroupHideOpenParents() ||
+            this.filterManager.isQuickFilterPresent() ||
+            gridOptionsWrapper.isExternalFilterPresent() ||
+            this.advancedFilterService.isFilterPresent();
+
+        if (unsupported) { return null; }
+
+        const groupColumns: RowModelWorkerColumn[] = [];
+        const valueColumns: RowModelWorkerValueColumn[] = [];
+
+        for (const column of this.getGroupColumns()) {
+            const workerColumn = this.createWorkerColumn(column);
+
+            if (!workerColumn || column.getColDef().keyCreator) { return null; }
+
+            groupColumns.push(workerColumn);
+        }
+
+        const customAggFuncs = gridOptionsWrapper.getAggFuncs() || {};
+
+        for (const column of this.getValueColumns()) {
+            const workerColumn = this.createWorkerColumn(column);
+            const aggFunc = column.getAggFunc();
+
+            if (!workerColumn || typeof aggFunc !== 'string' || BUILT_IN_AGG_FUNCS.indexOf(aggFunc) < 0 || customAggFuncs[aggFunc]) {
+                return null;
+            }
+
+            // the shown values and the calculated measures are set by the aggregation stage after aggregating
+            if (column.getShowValueAs() || column.getColDef().calculatedMeasure) { return null; }
+
+            valueColumns.push({ ...workerColumn, aggFunc });
+        }
+
+        const filters = this.createFilters();
+        const sorts = this.createSorts();
+
+        if (!filters || !sorts) { return null; }
+
+        return {
+            groupColumns,
+            valueColumns,
+            filters,
+            sorts,
+            accentedSort: gridOptionsWrapper.isAccentedSort(),
+            aggFilteredOnly: !gridOptionsWrapper.isSuppressAggFilteredOnly(),
+            aggAtRootLevel: !gridOptionsWrapper.isSuppressAggAtRootLevel()
+        };
+    }
+
+    private createWorkerColumn(column: Column): RowModelWorkerColumn | null {
+        const colDef = column.getColDef();
+
+        if (colDef.valueGetter) { return null; }
+
+        return {
+            colId: column.getColId(),
+            field: colDef.field,
+            fieldContainsDots: column.isFieldContainsDots(),
+            comparatorKey: this.getComparatorKey(colDef)
+        };
+    }
+
+    private getComparatorKey(colDef: ColDef): string | undefined {
+        const { comparatorKey } = colDef;
+
+        // unknown keys sort with the default comparator, the same as the main thread
+        return comparatorKey && _.NAMED_COMPARATORS[comparatorKey] ? comparatorKey : undefined;
+    }
+
+    private createFilters(): RowModelWorkerFilter[] | null {
+        const filterModel = this.filterManager.getFilterModel();
+        const filters: RowModelWorkerFilter[] = [];
+
+        for (const colId of Object.keys(filterModel)) {
+            const column = this.columnModel.getPrimaryColumn(colId);
+            const filter = column ? this.createFilter(column, filterModel[colId]) : null;
+
+            if (!filter) { return null; }
+
+            filters.push(filter);
+        }
+
+        return filters;
+    }
+
+    private createFilter(column: Column, model: any): RowModelWorkerFilter | null {
+        const colDef = column.getColDef();
+        const params = colDef.filterParams || {};
+        const { filterType } = model;
+        const isProvidedFilter = PROVIDED_FILTERS[filterType] != null &&
+            (colDef.filter === true || colDef.filter === PROVIDED_FILTERS[filterType]);
+        const workerColumn = this.createWorkerColumn(column);
+
+        const unsupported = !isProvidedFilter ||
+            !workerColumn ||
+            colDef.filterValueGetter ||
+            params.textCustomComparator ||
+            params.textFormatter ||
+            params.comparator ||
+            params.nullComparator ||
+            (params.filterOptions && params.filterOptions.some((option: any) => typeof option !== 'string'));
+
+        if (unsupported) { return null; }
+
+        if (filterType === 'set') {
+            if (colDef.keyCreator) { return null; }
+
+            return { column: workerColumn!, filterType, operator: 'AND', conditions: [], values: model.values };
+        }
+
+        const conditions = model.operator ? SimpleFilter.getCombinedModelConditions(model) : [model];
+        const types = filterType === 'text' ? TEXT_FILTER_TYPES : SCALAR_FILTER_TYPES;
+
+        if (conditions.some((condition: any) => types.indexOf(condition.type) < 0)) { return null; }
+
+        // dates are compared as timestamps, as they are in the worker
+        const toTimestamp = (value?: string | null) => {
+            const date = _.parseDateTimeFromString(value);
+            return date ? date.getTime() : null;
+        };
+
+        return {
+            column: workerColumn!,
+            filterType,
+            operator: model.operator || 'AND',
+            conditions: conditions.map((condition: any) => filterType === 'date' ?
+                { type: condition.type, filter: toTimestamp(condition.dateFrom), filterTo: toTimestamp(condition.dateTo) } :
+                { type: condition.type, filter: condition.filter, filterTo: condition.filterTo }
+            ),
+            caseSensitive: !!params.caseSensitive,
+            inRangeInclusive: !!params.inRangeInclusive,
+            includeBlanksInEquals: !!params.includeBlanksInEquals,
+            includeBlanksInLessThan: !!params.includeBlanksInLessThan,
+            includeBlanksInGreaterThan: !!params.includeBlanksInGreaterThan,
+            includeBlanksInRange: !!params.includeBlanksInRange
+        };
+    }
+
+    private createSorts(): RowModelWorkerSort[] | null {
+        const sortOptions = this.sortController.getSortOptions();
+        const groupColumns = this.getGroupColumns();
+        const sorts: RowModelWorkerSort[] = [];
+
+        // group rows are sorted with the comparator of their row group column
+        if (sortOptions.length && groupColumns.some(column => column.getColDef().comparator)) { return null; }
+
+        for (const sortOption of sortOptions) {
+            const { column } = sortOption;
+            const colDef = column.getColDef();
+            const workerColumn = this.createWorkerColumn(column);
+
+            if (!workerColumn || colDef.comparator) { return null; }
+
+            let leafComparatorKey: string | undefined;
+
+            if (colDef.showRowGroup && colDef.field) {
+                const primaryColumn = this.columnModel.getPrimaryColumn(colDef.field);
+                const primaryColDef = primaryColumn ? primaryColumn.getColDef() : null;
+
+                if (primaryColDef && primaryColDef.comparator) { return null; }
+
+                leafComparatorKey = primaryColDef ? this.getComparatorKey(primaryColDef) : undefined;
+            }
+
+            sorts.push({
+                column: workerColumn,
+                descending: sortOption.sort !== Constants.SORT_ASC,
+                groupColumns: groupColumns
+                    .map((groupColumn, index) => column.isRowGroupDisplayed(groupColumn.getId()) ? index : -1)
+                    .filter(index => index >= 0),
+                leafComparatorKey
+            });
+        }
+
+        return sorts;
+    }
+
+    private addRows(request: RowModelWorkerRequest, leaves: RowNode[], params: RefreshModelParams): void {
+        // the order the rows are given in can change completely, so they're all sent again
+        const canSendChanges = this.syncedLeaves && !params.newData && !params.rowNodeOrder;
+        const transaction = canSendChanges ? this.createTransaction(leaves, params.rowNodeTransactions) : null;
+
+        if (!transaction) {
+            request.rows = leaves.map(node => node.data);
+        } else if (transaction.removed.length || transaction.added.length || transaction.updated.length) {
+            request.transaction = transaction;
+        }
+
+        this.syncedLeaves = leaves.slice();
+        this.updatedNodes = {};
+    }
+
+    /** The changes to the rows since they were sent, or null if they can't be worked out */
+    private createTransaction(leaves: RowNode[], rowNodeTransactions?: RowNodeTransaction[]): RowModelWorkerTransaction | null {
+        const syncedLeaves = this.syncedLeaves!;
+        const removedIds: { [id: string]: boolean; } = {};
+        const addedIds: { [id: string]: boolean; } = {};
+        const updatedIds: { [id: string]: boolean; } = {};
+
+        Object.keys(this.updatedNodes).forEach(id => updatedIds[id] = true);
+
+        if (rowNodeTransactions) {
+            rowNodeTransactions.forEach(tran => {
+                tran.remove.forEach(node => removedIds[node.id!] = true);
+                tran.add.forEach(node => addedIds[node.id!] = true);
+                tran.update.forEach(node => updatedIds[node.id!] = true);
+            });
+        } else {
+            // without transactions, the rows are only the same if they are the same nodes
+            const sameLeaves = leaves.length === syncedLeaves.length && leaves.every((node, index) => node === syncedLeaves[index]);
+
+            if (!sameLeaves) { return null; }
+        }
+
+        const transaction: RowModelWorkerTransaction = { removed: [], added: [], updated: [] };
+
+        syncedLeaves.forEach((node, index) => {
+            if (removedIds[node.id!]) {
+                transaction.removed.push(index);
+            }
+        });
+
+        leaves.forEach((node, index) => {
+            if (addedIds[node.id!]) {
+                transaction.added.push({ index, data: node.data });
+            } else if (updatedIds[node.id!]) {
+                transaction.updated.push({ index, data: node.data });
+            }
+        });
+
+        const { removed, added } = transaction;
+
+        return syncedLeaves.length - removed.length + added.length === leaves.length ? transaction : null;
+    }
+
+    private createWorker(): boolean {
+        if (this.worker) { return true; }
+
+        try {
+            const namedComparators = Object.keys(_.NAMED_COMPARATORS)
+                .map(key => `${JSON.stringify(key)}: ${_.NAMED_COMPARATORS[key]}`);
+            const source = `(${rowModelWorker})(self, ${_.defaultComparator}, { ${namedComparators.join(', ')} });`;
+
+            this.workerUrl = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+            this.worker = new Worker(this.workerUrl);
+        } catch (e) {
+            // eg workers aren't supported, or are blocked by the content security policy
+            this.deactivate(e);
+            return false;
+        }
+
+        this.worker.onmessage = (event: MessageEvent) => this.onMessage(event.data);
+        this.worker.onerror = (event: ErrorEvent) => this.onWorkerFailed(event.message);
+
+        return true;
+    }
+
+    private onMessage(response: RowModelWorkerResponse): void {
+        const request = this.pendingRequest;
+
+        // responses to refreshes that were merged into a later one are ignored
+        if (!request || request.id !== response.id) { return; }
+
+        if (response.error) {
+            this.onWorkerFailed(response.error);
+            return;
+        }
+
+        this.pendingRequest = null;
+
+        if (response.groups) {
+            this.applyGroups(request, response.groups);
+        }
+
+        if (response.filtered) {
+            this.applyFilter(request, response.filtered);
+        }
+
+        if (response.aggData && this.aggregationStage) {
+            this.applyAggData(request, response.aggData);
+        }
+
+        if (response.sorted) {
+            this.applySort(request, response.sorted);
+        }
+
+        if (response.groups && this.gridOptionsWrapper.isGroupSelectsChildren()) {
+            this.selectionService.updateGroupsFromChildrenSelections();
+        }
+
+        request.onRefreshed(request.params);
+
+        this.restoreOverlay(request.rootNode);
+    }
+
+    private onWorkerFailed(reason: any): void {
+        const request = this.pendingRequest;
+
+        this.pendingRequest = null;
+        this.deactivate(reason);
+
+        if (!request) { return; }
+
+        // the main thread groups again from its own nodes, which are as they were before the request
+        request.onFailed(request.params);
+
+        this.restoreOverlay(request.rootNode);
+    }
+
+    private scheduleLoadingOverlay(): void {
+        if (this.showingLoadingOverlay || this.loadingOverlayTimeout != null) { return; }
+
+        this.loadingOverlayTimeout = window.setTimeout(() => {
+            this.loadingOverlayTimeout = undefined;
+            this.showingLoadingOverlay = true;
+            this.gridApi.showLoadingOverlay();
+        }, RowModelWorkerService.LOADING_OVERLAY_DELAY_MILLIS);
+    }
+
+    private restoreOverlay(rootNode: RowNode): void {
+        window.clearTimeout(this.loadingOverlayTimeout);
+        this.loadingOverlayTimeout = undefined;
+
+        if (!this.showingLoadingOverlay) { return; }
+
+        this.showingLoadingOverlay = false;
+
+        // the overlay the grid shows once the rows are set
+        if (rootNode.allLeafChildren.length === 0) {
+            this.gridApi.showNoRowsOverlay();
+        } else {
+            this.gridApi.hideOverlay();
+        }
+    }
+
+    private deactivate(reason: any): void {
+        console.warn('AG Grid: the row model worker failed, so rows will be processed on the main thread', reason);
+
+        this.active = false;
+        this.destroyWorker();
+    }
+
+    private destroyWorker(): void {
+        if (this.worker) {
+            this.worker.terminate();
+            this.worker = null;
+        }
+
+        if (this.workerUrl) {
+            URL.revokeObjectURL(this.workerUrl);
+            this.workerUrl = null;
+        }
+    }
+
+    private toNodes(children: Int32Array, leaves: RowNode[]): RowNode[] {
+        const nodes: RowNode[] = [];
+
+        for (let i = 0; i < children.length; i++) {
+            const child = children[i];
+            nodes.push(child >= 0 ? leaves[child] : this.groupNodes[-child]);
+        }
+
+        return nodes;
+    }
+
+    private applyGroups(request: PendingRequest, groups: RowModelWorkerGroup[]): void {
+        const { rootNode, leaves, groupColumns, keepGroups } = request;
+
+        if (!keepGroups) {
+            // groups are about to get disposed, so need to deselect any that are selected
+            this.selectionService.removeGroupsFromSelection();
+        }
+
+        // group nodes are kept by their key, the same as the group stage does when applying transactions
+        const nodes: RowNode[] = [rootNode];
+        const previousMapped: { [key: string]: RowNode; }[] = [keepGroups && rootNode.childrenMapped || {}];
+
+        rootNode.childrenMapped = {};
+
+        for (let g = 1; g < groups.length; g++) {
+            const group = groups[g];
+            const parent = nodes[group.parent];
+            const column = groupColumns[group.column];
+            const mappedKey = column.getId() + '-' + group.key;
+            const node = previousMapped[group.parent][mappedKey] || this.createGroup(group, parent, column);
+
+            previousMapped.push(node.childrenMapped || {});
+
+            node.childrenMapped = {};
+            node.allLeafChildren = [];
+            node.leafGroup = group.level === groupColumns.length - 1;
+            parent.childrenMapped![mappedKey] = node;
+            nodes.push(node);
+        }
+
+        this.groupNodes = nodes;
+
+        const leafGroups = new Int32Array(leaves.length);
+
+        groups.forEach((group, g) => {
+            const node = nodes[g];
+            const { children } = group;
+
+            for (let i = 0; i < children.length; i++) {
+                const child = children[i];
+
+                if (child >= 0) {
+                    leaves[child].parent = node;
+                    leaves[child].level = node.level + 1;
+                    leafGroups[child] = g;
+                }
+            }
+
+            node.childrenAfterGroup = this.toNodes(children, leaves);
+            node.updateHasChildren();
+        });
+
+        // the leaves of each group are in the same order as the root's
+        for (let i = 0; i < leaves.length; i++) {
+            for (let g = leafGroups[i]; g > 0; g = groups[g].parent) {
+                nodes[g].allLeafChildren.push(leaves[i]);
+            }
+        }
+
+        this.selectableService.updateSelectableAfterGrouping(rootNode);
+    }
+
+    private createGroup(group: RowModelWorkerGroup, parent: RowNode, column: Column): RowNode {
+        const groupNode = new RowNode();
+        this.getContext().createBean(groupNode);
+
+        groupNode.group = true;
+        groupNode.field = column.getColDef().field || null;
+        groupNode.rowGroupColumn = column;
+        groupNode.groupData = {};
+
+        this.columnModel.getGroupDisplayColumns().forEach(col => {
+            if (col.isRowGroupDisplayed(column.getId())) {
+                groupNode.groupData![col.getColId()] = group.key;
+            }
+        });
+
+        // the ids can't clash with the group stage's, as groups made by either are kept when the other groups
+        groupNode.id = RowNode.ID_PREFIX_ROW_GROUP + 'worker-' + this.groupIdSequence.next();
+        groupNode.key = group.key;
+        groupNode.level = group.level;
+        groupNode.rowGroupIndex = group.level;
+        groupNode.setAllChildrenCount(0);
+        groupNode.childrenAfterGroup = [];
+        groupNode.childrenMapped = {};
+        groupNode.updateHasChildren();
+        groupNode.parent = this.gridOptionsWrapper.isSuppressParentsInRowNodes() ? null : parent;
+        groupNode.expanded = this.isExpandedByDefault(groupNode);
+
+        return groupNode;
+    }
+
+    private isExpandedByDefault(groupNode: RowNode): boolean {
+        const userCallback = this.gridOptionsWrapper.getIsGroupOpenByDefaultFunc();
+
+        if (userCallback) {
+            return userCallback({
+                rowNode: groupNode,
+                field: groupNode.field!,
+                key: groupNode.key!,
+                level: groupNode.level,
+                rowGroupColumn: groupNode.rowGroupColumn!
+            }) == true;
+        }
+
+        const expandByDefault = this.gridOptionsWrapper.getGroupDefaultExpanded()!;
+
+        return expandByDefault === -1 || groupNode.level < expandByDefault;
+    }
+
+    private applyFilter(request: PendingRequest, filtered: (Int32Array | null)[]): void {
+        const nodes = this.groupNodes;
+
+        // children are always after their group, so their counts are set first
+        for (let g = nodes.length - 1; g >= 0; g--) {
+            const node = nodes[g];
+            const children = filtered[g];
+
+            node.childrenAfterFilter = children ? this.toNodes(children, request.leaves) : node.childrenAfterGroup;
+
+            let allChildrenCount = 0;
+
+            node.childrenAfterFilter!.forEach(child => {
+                allChildrenCount += child.group ? child.allChildrenCount as number : 1;
+            });
+
+            node.setAllChildrenCount(allChildrenCount);
+        }
+
+        this.selectableService.updateSelectableAfterFiltering(request.rootNode);
+    }
+
+    private applyAggData(request: PendingRequest, aggData: any[]): void {
+        const { valueColumns, aggAtRootLevel } = request;
+
+        this.groupNodes.forEach((node, g) => {
+            if (!node.hasChildren()) {
+                if (node.aggData) {
+                    node.setAggData(null);
+                }
+                return;
+            }
+
+            if (g === 0 && !aggAtRootLevel) { return; }
+
+            const data = aggData[g];
+
+            if (data) {
+                valueColumns.forEach(column => data[column.getColId()] = this.addAggValueFunctions(data[column.getColId()]));
+            }
+
+            node.setAggData(data);
+
+            if (node.sibling) {
+                node.sibling.setAggData(data);
+            }
+        });
+    }
+
+    // the count and avg values can't have functions in the worker, so they're added here
+    private addAggValueFunctions(value: any): any {
+        if (value == null || typeof value !== 'object') { return value; }
+
+        value.toString = function() {
+            return typeof this.value === 'number' || typeof this.value === 'bigint' ? this.value.toString() : '';
+        };
+        // used for sorting
+        value.toNumber = function() {
+            return this.value;
+        };
+
+        return value;
+    }
+
+    private applySort(request: PendingRequest, sorted: (Int32Array | null)[]): void {
+        this.groupNodes.forEach((node, g) => {
+            const children = sorted[g];
+
+            node.childrenAfterSort = children ? this.toNodes(children, request.leaves) : node.childrenAfterFilter!.slice(0);
+
+            this.sortService.updateChildIndexes(node);
+        });
+    }
+}
@@ -0,0 +1,117 @@
+import { ColDef, Column, ColumnarRows, Constants, RowNode, SortedRowNode, SortOption } from '@ag-grid-community/core';
+import { SortService } from './sortService';
+
+function createColumn(field: string, colDef: ColDef = {}): Column {
+    return { getColDef: (): ColDef => ({ field, ...colDef }) } as Column;
+}
+
+function createColumnarRows(columns: { [field: string]: Float64Array | any[]; }, rowIndexesAfterFilter: number[]) {
+    const getRowNode = jest.fn((rowIndex: number) => {
+        const data: any = {};
+        Object.keys(columns).forEach(field => data[field] = columns[field][rowIndex]);
+
+        return { data } as RowNode;
+    });
+
+    const columnarRows: ColumnarRows = {
+        rowCount: rowIndexesAfterFilter.length,
+        rowIndexesAfterFilter: new Int32Array(rowIndexesAfterFilter),
+        rowIndexesAfterSort: new Int32Array(0),
+        getValues: column => columns[column.getColDef().field!] || null,
+        getRowNode
+    };
+
+    return { columnarRows, getRowNode };
+}
+
+function createService() {
+    const service = new SortService();
+
+    // compares the data of the nodes on the field of each column, the same as the standard sort without comparators
+    const rowNodeSorter = {
+        compareRowNodes: jest.fn((sortOptions: SortOption[], a: SortedRowNode, b: SortedRowNode) => {
+            for (let i = 0; i < sortOptions.length; i++) {
+                const field = sortOptions[i].column.getColDef().field!;
+                const valueA = a.rowNode.data[field];
+                const valueB = b.rowNode.data[field];
+
+                if (valueA !== valueB) {
+                    const result = valueA < valueB ? -1 : 1;
+                    return sortOptions[i].sort === Constants.SORT_DESC ? -result : result;
+                }
+            }
+
+            return a.currentPos - b.currentPos;
+        })
+    };
+
+    Object.assign(service, { rowNodeSorter });
+
+    return { service, rowNodeSorter };
+}
+
+describe('sortColumnarRows', () => {
+    it('keeps the filtered rows when not sorting', () => {
+        const { columnarRows } = createColumnarRows({ price: new Float64Array([3, 1, 2]) }, [0, 2]);
+        const { service } = createService();
+
+        service.sortColumnarRows([], columnarRows);
+
+        expect(columnarRows.rowIndexesAfterSort).toBe(columnarRows.rowIndexesAfterFilter);
+    });
+
+    it('sorts Float64Array columns on the values, with missing values first and equal values in row order', () => {
+        const price = new Float64Array([3, NaN, 1, 3, NaN]);
+        const { columnarRows, getRowNode } = createColumnarRows({ price }, [0, 1, 2, 3, 4]);
+        const { service } = createService();
+
+        service.sortColumnarRows([{ sort: Constants.SORT_ASC, column: createColumn('price') }], columnarRows);
+
+        expect(Array.from(columnarRows.rowIndexesAfterSort)).toStrictEqual([1, 4, 2, 0, 3]);
+        expect(getRowNode).not.toHaveBeenCalled();
+    });
+
+    it('puts missing values last when descending, and sorts on the next column for equal values', () => {
+        const price = new Float64Array([3, NaN, 1, 3]);
+        const quantity = new Float64Array([1, 1, 1, 2]);
+        const { columnarRows } = createColumnarRows({ price, quantity }, [0, 1, 2, 3]);
+        const { service } = createService();
+
+        service.sortColumnarRows([
+            { sort: Constants.SORT_DESC, column: createColumn('price') },
+            { sort: Constants.SORT_DESC, column: createColumn('quantity') }
+        ], columnarRows);
+
+        expect(Array.from(columnarRows.rowIndexesAfterSort)).toStrictEqual([3, 0, 2, 1]);
+    });
+
+    it('only sorts the filtered rows', () => {
+        const { columnarRows } = createColumnarRows({ price: new Float64Array([4, 3, 2, 1]) }, [0, 2, 3]);
+        const { service } = createService();
+
+        service.sortColumnarRows([{ sort: Constants.SORT_ASC, column: createColumn('price') }], columnarRows);
+
+        expect(Array.from(columnarRows.rowIndexesAfterSort)).toStrictEqual([3, 2, 0]);
+    });
+
+    it('sorts through the nodes when any column is not a Float64Array or has a comparator', () => {
+        const price = new Float64Array([2, 1, 2]);
+        const name = ['b', 'c', 'a'];
+        const { columnarRows, getRowNode } = createColumnarRows({ price, name }, [0, 1, 2]);
+        const { service, rowNodeSorter } = createService();
+
+        service.sortColumnarRows([
+            { sort: Constants.SORT_ASC, column: createColumn('price') },
+            { sort: Constants.SORT_ASC, column: createColumn('name') }
+        ], columnarRows);
+
+        expect(Array.from(columnarRows.rowIndexesAfterSort)).toStrictEqual([1, 2, 0]);
+        expect(getRowNode).toHaveBeenCalledTimes(3);
+
+        rowNodeSorter.compareRowNodes.mockClear();
+
+        service.sortColumnarRows([{ sort: Constants.SORT_ASC, column: createColumn('price', { comparator: (a, b) => a - b }) }], columnarRows);
+
+        expect(rowNodeSorter.compareRowNodes).toHaveBeenCalled();
+    });
+});
@@ -6,7 +6,9 @@ import {
     Autowired,
     Bean,
     ChangedPath,
+    ColumnarRows,
     ColumnModel,
+    Constants,
     PostConstruct,
     RowNode,
     BeanStub
@@ -65,6 +67,74 @@ export class SortService extends BeanStub {
         this.updateGroupDataForHiddenOpenParents(changedPath);
     }
 
+    // numeric columns without comparators are sorted on the values in the arrays, otherwise every filtered row
+    // needs its node for the standard comparison. postSort isn't called, as there is no list of nodes.
+    public sortColumnarRows(sortOptions: SortOption[], columnarRows: ColumnarRows): void {
+        const { rowIndexesAfterFilter } = columnarRows;
+
+        if (sortOptions.length === 0) {
+            columnarRows.rowIndexesAfterSort = rowIndexesAfterFilter;
+            return;
+        }
+
+        const rowIndexes: number[] = [];
+
+        for (let i = 0; i < rowIndexesAfterFilter.length; i++) {
+            rowIndexes.push(rowIndexesAfterFilter[i]);
+        }
+
+        const valueSorts = sortOptions.map(sortOption => {
+            const colDef = sortOption.column.getColDef();
+            const values = columnarRows.getValues(sortOption.column);
+            const comparatorPresent = colDef.comparator != null || colDef.comparatorKey != null;
+
+            if (comparatorPresent || !(values instanceof Float64Array)) { return null; }
+
+            return { values, descending: sortOption.sort === Constants.SORT_DESC };
+        });
+
+        if (valueSorts.every(valueSort => valueSort != null)) {
+            rowIndexes.sort((rowIndexA, rowIndexB) => {
+                for (let i = 0; i < valueSorts.length; i++) {
+                    const { values, descending } = valueSorts[i]!;
+                    const result = this.compareColumnarValues(values[rowIndexA], values[rowIndexB]);
+
+                    if (result !== 0) {
+                        return descending ? -result : result;
+                    }
+                }
+
+                // keep the row order for equal values, as the standard sort keeps the node order
+                return rowIndexA - rowIndexB;
+            });
+
+            columnarRows.rowIndexesAfterSort = new Int32Array(rowIndexes);
+            return;
+        }
+
+        // the original position is the row index, so equal rows stay in row order
+        const sortedRowNodes: SortedRowNode[] = rowIndexes.map(rowIndex => ({
+            currentPos: rowIndex,
+            rowNode: columnarRows.getRowNode(rowIndex)
+        }));
+
+        sortedRowNodes.sort((a, b) => this.rowNodeSorter.compareRowNodes(sortOptions, a, b));
+
+        columnarRows.rowIndexesAfterSort = new Int32Array(sortedRowNodes.map(sortedRowNode => sortedRowNode.currentPos));
+    }
+
+    // missing values are NaN, and go first the same as the default comparator puts nulls first
+    private compareColumnarValues(valueA: number, valueB: number): number {
+        const valueAMissing = isNaN(valueA);
+        const valueBMissing = isNaN(valueB);
+
+        if (valueAMissing || valueBMissing) {
+            return valueAMissing === valueBMissing ? 0 : (valueAMissing ? -1 : 1);
+        }
+
+        return valueA === valueB ? 0 : (valueA < valueB ? -1 : 1);
+    }
+
     private mapNodeToSortedNode(rowNode: RowNode, pos: number): SortedRowNode {
         return {currentPos: pos, rowNode: rowNode};
     }
@@ -159,7 +229,7 @@ export class SortService extends BeanStub {
         return res;
     }
 
-    private updateChildIndexes(rowNode: RowNode) {
+    public updateChildIndexes(rowNode: RowNode) {
         if (_.missing(rowNode.childrenAfterSort)) {
             return;
         }
@@ -24,6 +24,12 @@ export class SortStage extends BeanStub {
         const sortOptions: SortOption[] = this.sortController.getSortOptions();
 
         const sortActive = _.exists(sortOptions) && sortOptions.length > 0;
+
+        if (params.columnarRows) {
+            this.sortService.sortColumnarRows(sortActive ? sortOptions : [], params.columnarRows);
+            return;
+        }
+
         const deltaSort = sortActive
             && _.exists(params.rowNodeTransactions)
             // in time we can remove this check, so that delta sort is always
@@ -6,9 +6,10 @@ import { FlattenStage } from "./clientSideRowModel/flattenStage";
 import { SortService } from "./clientSideRowModel/sortService";
 import { FilterService } from "./clientSideRowModel/filterService";
 import { ImmutableService } from "./clientSideRowModel/immutableService";
+import { RowModelWorkerService } from "./clientSideRowModel/rowModelWorkerService";
 
 export const ClientSideRowModelModule: Module = {
     moduleName: ModuleNames.ClientSideRowModelModule,
-    beans: [FilterStage, SortStage, FlattenStage, SortService, FilterService, ImmutableService],
+    beans: [FilterStage, SortStage, FlattenStage, SortService, FilterService, ImmutableService, RowModelWorkerService],
     rowModels: {clientSide: ClientSideRowModel}
 };
@@ -1,4 +1,4 @@
-import { ColDef, ColGroupDef } from "../entities/colDef";
+import { ColDef, ColGroupDef, ShowValueAs } from "../entities/colDef";
 import { ColumnGroupChild } from "../entities/columnGroupChild";
 import { ColumnModel, ColumnState } from "./columnModel";
 import { OriginalColumnGroup } from "../entities/originalColumnGroup";
@@ -67,6 +67,7 @@ export class ColumnApi {
 
     public moveRowGroupColumn(fromIndex: number, toIndex: number): void { this.columnModel.moveRowGroupColumn(fromIndex, toIndex); }
     public setColumnAggFunc(key: string | Column, aggFunc: string): void { this.columnModel.setColumnAggFunc(key, aggFunc); }
+    public setColumnShowValueAs(key: string | Column, showValueAs: ShowValueAs | null): void { this.columnModel.setColumnShowValueAs(key, showValueAs); }
 
     public setColumnWidth(key: string | Column, newWidth: number, finished: boolean = true): void {
         this.columnModel.setColumnWidths([{key, newWidth}], false, finished);
@@ -1,6 +1,6 @@
 import { ColumnGroup } from '../entities/columnGroup';
 import { Column } from '../entities/column';
-import { AbstractColDef, ColDef, ColGroupDef, IAggFunc } from '../entities/colDef';
+import { AbstractColDef, ColDef, ColGroupDef, IAggFunc, ShowValueAs } from '../entities/colDef';
 import { ColumnGroupChild } from '../entities/columnGroupChild';
 import { ExpressionService } from '../valueService/expressionService';
 import { ColumnFactory } from './columnFactory';
@@ -1202,6 +1202,17 @@ export class ColumnModel extends BeanStub {
         this.fireColumnEvent(Events.EVENT_COLUMN_VALUE_CHANGED, [column], source);
     }
 
+    public setColumnShowValueAs(key: string | Column | null | undefined, showValueAs: ShowValueAs | null, source: ColumnEventType = "api"): void {
+        if (!key) { return; }
+
+        const column = this.getPrimaryColumn(key);
+        if (!column) { return; }
+
+        column.setShowValueAs(showValueAs);
+
+        this.fireColumnEvent(Events.EVENT_COLUMN_VALUE_CHANGED, [column], source);
+    }
+
     private fireColumnEvent(type: string, columns: Column[], source: ColumnEventType): void {
         const event: ColumnValueChangedEvent = {
             type: type,
@@ -2583,7 +2594,10 @@ export class ColumnModel extends BeanStub {
             }
         }
 
-        if (aggFuncFound) {
+        const valueColumn = pivotValueColumn || column;
+
+        // calculated measures aren't aggregated
+        if (aggFuncFound && !valueColumn.getColDef().calculatedMeasure) {
             const aggFuncString = (typeof aggFunc === 'string') ? aggFunc : 'func';
             const localeTextFunc = this.gridOptionsWrapper.getLocaleTextFunc();
             const aggFuncStringTranslated = localeTextFunc(aggFuncString, aggFuncString);
@@ -2666,6 +2680,10 @@ export class ColumnModel extends BeanStub {
                     col.setAggFunc(colDef.initialAggFunc);
                 }
             }
+            // null clears, the same as aggFunc
+            if (colDef.showValueAs !== undefined) {
+                col.setShowValueAs(colDef.showValueAs);
+            }
         });
     }
 
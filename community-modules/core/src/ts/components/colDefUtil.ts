@@ -22,12 +22,14 @@ export class ColDefUtil {
         'filter',
         'initialAggFunc',
         'aggFunc',
+        'showValueAs',
         'cellRenderer',
         'cellEditor',
         'pinned',
         'initialPinned',
         'chartDataType',
-        'cellEditorPopupPosition'
+        'cellEditorPopupPosition',
+        'comparatorKey'
     ];
 
     public static OBJECT_PROPERTIES = [
@@ -53,7 +55,8 @@ export class ColDefUtil {
         'tooltipComponentParams',
         'tooltipComponentFramework',
         'refData',
-        'columnsMenuParams'
+        'columnsMenuParams',
+        'aggFuncParams'
     ];
 
     public static ARRAY_PROPERTIES = [
@@ -124,6 +127,7 @@ export class ColDefUtil {
     public static FUNCTION_PROPERTIES = [
         'dndSourceOnRowDrag',
         'valueGetter',
+        'calculatedMeasure',
         'valueSetter',
         'filterValueGetter',
         'keyCreator',
@@ -133,6 +137,7 @@ export class ColDefUtil {
         'valueFormatter',
         'pinnedRowValueFormatter',
         'valueParser',
+        'validator',
         'comparator',
         'equals',
         'pivotComparator',
@@ -8,6 +8,10 @@ export class Constants {
     static EXPORT_TYPE_CLIPBOARD = 'clipboard';
     static EXPORT_TYPE_EXCEL = 'excel';
     static EXPORT_TYPE_CSV = 'csv';
+    static EXPORT_TYPE_PDF = 'pdf';
+    static EXPORT_TYPE_JSON = 'json';
+    static EXPORT_TYPE_HTML = 'html';
+    static EXPORT_TYPE_MARKDOWN = 'markdown';
 
     static ROW_MODEL_TYPE_INFINITE = 'infinite';
     static ROW_MODEL_TYPE_VIEWPORT = 'viewport';
@@ -80,6 +80,48 @@ export interface IAggFuncParams {
     context: any;
 }
 
+/** An aggregation function that keeps a state for each group, which is combined into the state of the parent group,
+ * so only the groups of changed rows are recalculated. It can also read the values of other columns of the same rows. */
+export interface IStatefulAggFunc<TState = any> {
+    /** The ids of the other columns whose values are passed in inputValues, eg the weights of a weighted average */
+    inputColumns?: string[] | ((colDef: ColDef) => string[]);
+    /** Creates the state of the values of leaf rows */
+    aggregate(params: IStatefulAggFuncParams): TState;
+    /** Combines the states of child groups, and of the group's own leaf rows, into one state */
+    combine(states: TState[]): TState;
+    /** The value shown for a group with this state */
+    getValue(state: TState): any;
+    /** Adds the values of leaf rows to the state, for incrementalAggregation. Can return null to aggregate all
+     * the rows of the group instead */
+    add?(state: TState, params: IStatefulAggFuncParams): TState | null;
+    /** Removes the values of leaf rows that were added to the state before, for incrementalAggregation. Can return
+     * null to aggregate all the rows of the group instead */
+    remove?(state: TState, params: IStatefulAggFuncParams): TState | null;
+}
+
+export interface IStatefulAggFuncParams extends IAggFuncParams {
+    /** The values of the input columns by column id, each in the same row order as values */
+    inputValues: { [colId: string]: any[]; };
+}
+
+/** How the aggregated values of a value column are shown. The differences and running totals go across the pivot
+ * columns, the ranks are among the groups with the same parent, with 1 for the largest value */
+export type ShowValueAs =
+    'percentOfRowTotal' | 'percentOfColumnTotal' | 'percentOfGrandTotal' | 'differenceFromPrevious' | 'runningTotal' | 'rank';
+
+export interface CalculatedMeasureParams {
+    /** The aggregated value, as a number, of a value column for the same group and pivot keys */
+    getValue: (colId: string) => any;
+    node: RowNode;
+    column: Column;
+    colDef: ColDef;
+    /** The pivot keys of the pivot column, empty when not pivoting or for the pivot row totals */
+    pivotKeys: string[];
+    api: GridApi;
+    columnApi: ColumnApi;
+    context: any;
+}
+
 /***********************************************************************
  * Don't forget to update PropertyKeys if changing this class. PLEASE! *
  ***********************************************************************/
@@ -200,10 +242,25 @@ export interface ColDef extends AbstractColDef, IFilterDef {
     /** Gets called after editing, converts the value in the cell. */
     valueParser?: ((params: ValueParserParams) => any) | string;
 
+    /** Checks a new value from editing, pasting or filling. Return an error message if the value is invalid, or a
+     * Promise of one to validate asynchronously. */
+    validator?: (params: ValidatorParams) => ValidatorResult | Promise<ValidatorResult>;
+
     /** Name of function to use for aggregation. One of [sum,min,max,first,last] or a function. */
     aggFunc?: string | IAggFunc | null;
     initialAggFunc?: string | IAggFunc;
 
+    /** Params for the aggFunc, eg { weightColumn: 'volume' } for weightedAvg or { percentile: 95 } for percentile */
+    aggFuncParams?: any;
+
+    /** Shows the aggregated values as eg a percentage of the row total or a rank. Percentages are fractions, eg 0.25 for 25% */
+    showValueAs?: ShowValueAs | null;
+
+    /** Makes the value column a calculated measure, whose group values are calculated from the aggregated values of the
+     * other value columns rather than aggregated, eg "getValue('profit') / getValue('revenue')". It still needs an aggFunc
+     * to be a value column */
+    calculatedMeasure?: string | ((params: CalculatedMeasureParams) => any);
+
     /** Agg funcs allowed on this column. If missing, all installed agg funcs are allowed.
      * Can be eg ['sum','avg']. This will restrict what the GUI allows to select only.*/
     allowedAggFuncs?: string[];
@@ -228,6 +285,10 @@ export interface ColDef extends AbstractColDef, IFilterDef {
     /** Comparator function for custom sorting. */
     comparator?: (valueA: any, valueB: any, nodeA: RowNode, nodeB: RowNode, isInverted: boolean) => number;
 
+    /** Name of a provided comparator to sort with when there is no comparator function, one of 'caseInsensitive', 'number' or 'date'.
+     * Unlike comparator functions, these can be used when the rows are sorted in a web worker. */
+    comparatorKey?: string;
+
     /** Comparator for values, used by renderer to know if values have changed. Cells who's values have not changed don't get refreshed. */
     equals?: (valueA: any, valueB: any) => boolean;
 
@@ -463,6 +524,14 @@ export interface ValueSetterParams extends NewValueParams {
 export interface ValueParserParams extends NewValueParams {
 }
 
+export interface ValidatorParams extends NewValueParams {
+    /** What caused the change, one of 'edit', 'paste', 'fill' or 'api' */
+    source: string;
+}
+
+/** An error message, or null / undefined if the value is valid */
+export type ValidatorResult = string | null | undefined;
+
 export interface ValueFormatterParams extends BaseWithValueColDefParams {
 }
 
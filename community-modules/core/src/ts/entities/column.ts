@@ -7,7 +7,8 @@ import {
     ColSpanParams,
     IAggFunc,
     ColumnFunctionCallbackParams,
-    RowSpanParams
+    RowSpanParams,
+    ShowValueAs
 } from "./colDef";
 import { EventService } from "../eventService";
 import { Autowired, Context, PostConstruct } from "../context/context";
@@ -89,6 +90,7 @@ export class Column implements ColumnGroupChild, OriginalColumnGroupChild, IEven
     private left: number | null;
     private oldLeft: number | null;
     private aggFunc: string | IAggFunc | null | undefined;
+    private showValueAs: ShowValueAs | null | undefined;
     private sort: string | null | undefined;
     private sortIndex: number | null | undefined;
     private moving = false;
@@ -521,6 +523,14 @@ export class Column implements ColumnGroupChild, OriginalColumnGroupChild, IEven
         return this.aggFunc;
     }
 
+    public setShowValueAs(showValueAs: ShowValueAs | null | undefined): void {
+        this.showValueAs = showValueAs;
+    }
+
+    public getShowValueAs(): ShowValueAs | null | undefined {
+        return this.showValueAs;
+    }
+
     public getLeft(): number | null {
         return this.left;
     }
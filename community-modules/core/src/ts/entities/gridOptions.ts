@@ -7,7 +7,7 @@ import { ColumnApi } from "../columns/columnApi";
 import { Column } from "./column";
 import { IViewportDatasource } from "../interfaces/iViewportDatasource";
 import { ICellRenderer, ICellRendererComp, ICellRendererFunc } from "../rendering/cellRenderers/iCellRenderer";
-import { ColDef, ColGroupDef, IAggFunc, SuppressKeyboardEventParams } from "./colDef";
+import { ColDef, ColGroupDef, IAggFunc, IStatefulAggFunc, SuppressKeyboardEventParams } from "./colDef";
 import { IDatasource } from "../interfaces/iDatasource";
 import { CellPosition } from "./cellPosition";
 import { IServerSideDatasource } from "../interfaces/iServerSideDatasource";
@@ -32,6 +32,7 @@ import {
     ChartOptionsChanged,
     ChartRangeSelectionChanged,
     ColumnAggFuncChangeRequestEvent,
+    ColumnShowValueAsChangeRequestEvent,
     ColumnEverythingChangedEvent,
     ColumnGroupOpenedEvent,
     ColumnMovedEvent,
@@ -81,7 +82,8 @@ import {
     ViewportChangedEvent,
     VirtualColumnsChangedEvent,
     VirtualRowRemovedEvent,
-    GridSizeChangedEvent
+    GridSizeChangedEvent,
+    StateUpdatedEvent
 } from "../events";
 import { IComponent } from "../interfaces/iComponent";
 import { ILoadingOverlayComp } from "../rendering/overlays/loadingOverlayComponent";
@@ -93,6 +95,13 @@ import { AgChartOptions, AgChartTheme, AgChartThemeOverrides } from "../interfac
 import { ServerSideTransaction } from "../interfaces/serverSideTransaction";
 import { HeaderPosition } from "../headerRendering/header/headerPosition";
 import { ExcelExportParams, ExcelStyle } from "../interfaces/iExcelCreator";
+import { PdfExportParams } from "../interfaces/iPdfCreator";
+import { JsonExportParams } from "../interfaces/iJsonCreator";
+import { HtmlExportParams } from "../interfaces/iHtmlCreator";
+import { GridState } from "../interfaces/gridState";
+import { FindOptions } from "../interfaces/iFind";
+import { ConditionalFormattingRule } from "../interfaces/conditionalFormatting";
+import { ColumnarRowData } from "../interfaces/iColumnarRowData";
 
 export interface GridOptions {
     /*******************************************************************************************************
@@ -180,6 +189,10 @@ export interface GridOptions {
     suppressFieldDotNotation?: boolean;
     suppressCopyRowsToClipboard?: boolean;
     copyHeadersToClipboard?: boolean;
+    /** Copies also write the cells as an HTML table, which keeps the headers and styles when pasted into documents */
+    copyHtmlToClipboard?: boolean;
+    /** Copies write the cells as a Markdown table in place of the tab separated text */
+    copyMarkdownToClipboard?: boolean;
     clipboardDeliminator?: string;
     suppressClipboardPaste?: boolean;
     suppressClipboardApi?: boolean;
@@ -208,6 +221,18 @@ export interface GridOptions {
     /** @deprecated - no longer needed, transaction updates keep group state */
     rememberGroupStateWhenNewData?: boolean;
     suppressModelUpdateAfterUpdateTransaction?: boolean;
+    /** Runs the grouping, filtering, aggregation and sorting of the Client-Side Row Model in a web worker, so large
+     * row counts don't block the page. The rows are then updated asynchronously. Only columns using fields, the provided
+     * filters, the built-in aggregation functions and colDef.comparatorKey can be processed in the worker, for anything
+     * else the rows are processed on the main thread. The worker has a copy of the row data, so data changed in place
+     * must be updated with a transaction. Transactions are applied to the groups the rows are in, so only those groups
+     * are filtered, aggregated and sorted again, though the results for all the groups are still set on the row nodes. */
+    enableRowModelWorker?: boolean;
+    /** Transactions update the aggregates of the groups they change from the added, removed and updated rows, rather
+     * than from all the rows of the groups. The built-in sum, count, avg, min and max and the stateful agg funcs with add
+     * and remove are updated this way. The groups keep the values they aggregated, so this uses more memory. Not
+     * used with pivoting, tree data, groupRowAggNodes or, unless suppressAggFilteredOnly, while filtering. */
+    incrementalAggregation?: boolean;
     viewportRowModelPageSize?: number;
     viewportRowModelBufferSize?: number;
     enableCellChangeFlash?: boolean;
@@ -216,7 +241,17 @@ export interface GridOptions {
     allowShowChangeAfterFilter?: boolean;
     quickFilterText?: string;
     cacheQuickFilter?: boolean;
-    aggFuncs?: { [key: string]: IAggFunc; };
+    /** Enables the advanced filter, which joins conditions across columns with nested AND / OR groups.
+     * With the server-side row model, the advanced filter model is sent to the server in place of the column filter model. */
+    enableAdvancedFilter?: boolean;
+    /** Text to find in the grid. Unlike quickFilterText the rows are not filtered, matches are highlighted instead */
+    findSearchValue?: string;
+    findOptions?: FindOptions;
+    /** Spreadsheet style rules that format the cells from their values, also exported to Excel as conditional formats */
+    conditionalFormattingRules?: ConditionalFormattingRule[];
+    /** Adds 'Conditional Formatting...' to the column menu, which opens a dialog for editing the rules of the column */
+    enableConditionalFormattingEditor?: boolean;
+    aggFuncs?: { [key: string]: IAggFunc | IStatefulAggFunc; };
     suppressColumnVirtualisation?: boolean;
     functionsReadOnly?: boolean;
     functionsPassive?: boolean;
@@ -240,6 +275,18 @@ export interface GridOptions {
     excludeChildrenWhenTreeDataFiltering?: boolean;
     undoRedoCellEditing?: boolean;
     undoRedoCellEditingLimit?: number;
+    /** Also record column, sort, filter, row drag and transaction changes in the undo / redo history */
+    undoRedoStructuralChanges?: boolean;
+    /** Record Client Side Row Model transactions (add, remove and update) in the undo / redo history. Updates are only
+     * undone when getRowNodeId is set */
+    undoRedoTransactions?: boolean;
+    /** What happens when colDef.validator rejects a value: 'reject' (default) keeps the old value, 'accept' keeps
+     * the new value and marks the cell invalid, 'keepEditing' leaves the editor open when the user ends the edit
+     * (single cell editing only). Otherwise, including when another cell is focused or api.stopEditing() is called,
+     * the value is rejected */
+    invalidCellValueAction?: 'reject' | 'accept' | 'keepEditing';
+    /** State to restore once the grid is ready, as previously returned by api.getState() */
+    initialState?: GridState;
 
     cacheOverflowSize?: number;
     infiniteInitialRowCount?: number;
@@ -264,6 +311,9 @@ export interface GridOptions {
     floatingFilter?: boolean;
     suppressExcelExport?: boolean;
     suppressCsvExport?: boolean;
+    suppressPdfExport?: boolean;
+    suppressJsonExport?: boolean;
+    suppressHtmlExport?: boolean;
 
     // these should really be deprecated, as the user should be using the default
     // column definitions for specifying column defaults.
@@ -295,6 +345,9 @@ export interface GridOptions {
     defaultExportParams?: CsvExportParams | ExcelExportParams;
     defaultCsvExportParams?: CsvExportParams;
     defaultExcelExportParams?: ExcelExportParams;
+    defaultPdfExportParams?: PdfExportParams;
+    defaultJsonExportParams?: JsonExportParams;
+    defaultHtmlExportParams?: HtmlExportParams;
 
     pivotSuppressAutoColumn?: boolean;
     groupSelectsChildren?: boolean;
@@ -350,6 +403,12 @@ export interface GridOptions {
 
     // changeable with impact
     rowData?: any[];
+    /** Row data held as one array per field, used instead of rowData by the Client-Side Row Model. Sorting, number
+     * filters and aggregation read the arrays directly and row nodes are only created for the rows that are displayed,
+     * selected or otherwise asked for. Unless getRowNodeId is set, row ids are the row indexes. Rows have the fixed
+     * rowHeight, and transactions, master detail and postSort aren't supported. With row groups, pivoting or tree data
+     * a node is created for every row. */
+    columnarRowData?: ColumnarRowData;
     pinnedTopRowData?: any[];
     pinnedBottomRowData?: any[];
     sideBar?: SideBarDef | string | boolean | null;
@@ -384,6 +443,10 @@ export interface GridOptions {
     groupRowInnerRendererFramework?: any;
     createChartContainer?: (params: ChartRef) => void;
     fillOperation?: (params: FillOperationParams) => any;
+    /** Validates a row after any of its values change, return error messages keyed by column id. Edited, pasted and
+     * filled values are also validated before they are set, with `data` a copy of the row's data with the new value,
+     * and invalidCellValueAction applies when the new value gives the row an error it didn't have */
+    rowValidator?: (params: RowValidatorParams) => { [colId: string]: string; } | null | undefined;
 
     isExternalFilterPresent?(): boolean;
     doesExternalFilterPass?(node: RowNode): boolean;
@@ -515,6 +578,8 @@ export interface GridOptions {
 
     onColumnAggFuncChangeRequest?(event: ColumnAggFuncChangeRequestEvent): void;
 
+    onColumnShowValueAsChangeRequest?(event: ColumnShowValueAsChangeRequestEvent): void;
+
     onModelUpdated?(event: ModelUpdatedEvent): void;
 
     onCellKeyDown?(event: CellKeyDownEvent): void;
@@ -611,6 +676,8 @@ export interface GridOptions {
 
     onGridSizeChanged?(event: GridSizeChangedEvent): void;
 
+    onStateUpdated?(event: StateUpdatedEvent): void;
+
     // apis, set by the grid on init
     api?: GridApi | null; // change to typed
     columnApi?: ColumnApi | null; // change to typed
@@ -667,6 +734,14 @@ export interface IsRowSelectable {
     (node: RowNode): boolean;
 }
 
+export interface RowValidatorParams {
+    data: any;
+    node: RowNode;
+    api: GridApi;
+    columnApi: ColumnApi;
+    context: any;
+}
+
 export interface RowClassParams {
     data: any;
     node: RowNode;
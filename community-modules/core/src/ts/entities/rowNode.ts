@@ -8,6 +8,7 @@ import { ColumnModel } from "../columns/columnModel";
 import { ColumnApi } from "../columns/columnApi";
 import { Autowired, Context } from "../context/context";
 import { IRowModel } from "../interfaces/iRowModel";
+import { IClientSideRowModel } from "../interfaces/iClientSideRowModel";
 import { Constants } from "../constants/constants";
 import { IEventEmitter } from "../interfaces/iEventEmitter";
 import { ValueCache } from "../valueService/valueCache";
@@ -77,6 +78,7 @@ export class RowNode implements IEventEmitter {
     public static EVENT_UI_LEVEL_CHANGED = 'uiLevelChanged';
     public static EVENT_HIGHLIGHT_CHANGED = 'rowHighlightChanged';
     public static EVENT_DRAGGING_CHANGED = 'draggingChanged';
+    public static EVENT_VALIDATION_CHANGED = 'validationChanged';
 
     @Autowired('eventService') private mainEventService: EventService;
     @Autowired('rowRenderer') private rowRenderer: RowRenderer;
@@ -100,6 +102,13 @@ export class RowNode implements IEventEmitter {
     /** The aggregated data */
     public aggData: any;
 
+    /** The states of stateful aggregation functions by column id, which the parent group's states are combined from */
+    public aggStates: { [colId: string]: any; } | null = null;
+
+    /** The aggregated data before colDef.showValueAs changed it, which the parent group is aggregated from. Null unless
+     * a value column shows its values as something else */
+    public rawAggData: any = null;
+
     /** The user provided data */
     public data: any;
 
@@ -248,6 +257,9 @@ export class RowNode implements IEventEmitter {
 
     public highlighted: RowHighlightPosition | null = null;
 
+    /** Validation error messages for the invalid cells of this row, keyed by column id */
+    public validationErrors: { [colId: string]: string; } | null = null;
+
     private selected: boolean | undefined = false;
     private eventService: EventService | null;
 
@@ -271,6 +283,7 @@ export class RowNode implements IEventEmitter {
         this.valueCache.onDataChanged();
         this.updateDataOnDetailNode();
         this.checkRowSelectable();
+        this.notifyRowModelOfNewData();
 
         const event: DataChangedEvent = this.createDataChangedEvent(data, oldData, update);
 
@@ -340,12 +353,20 @@ export class RowNode implements IEventEmitter {
         this.setId(id);
         this.selectionService.syncInRowNode(this, oldNode);
         this.checkRowSelectable();
+        this.notifyRowModelOfNewData();
 
         const event: DataChangedEvent = this.createDataChangedEvent(data, oldData, false);
 
         this.dispatchLocalEvent(event);
     }
 
+    // the client-side row model can keep a copy of the data in a web worker, which needs to know the row has changed
+    private notifyRowModelOfNewData(): void {
+        if (this.rowModel && this.rowModel.getType() === Constants.ROW_MODEL_TYPE_CLIENT_SIDE) {
+            (this.rowModel as IClientSideRowModel).onRowNodeDataChanged(this);
+        }
+    }
+
     private checkRowSelectable() {
         const isRowSelectableFunc = this.gridOptionsWrapper.getIsRowSelectableFunc();
         this.setRowSelectable(isRowSelectableFunc ? isRowSelectableFunc!(this) : true);
@@ -470,6 +491,14 @@ export class RowNode implements IEventEmitter {
         }
     }
 
+    public setValidationErrors(validationErrors: { [colId: string]: string; } | null): void {
+        this.validationErrors = validationErrors;
+
+        if (this.eventService) {
+            this.eventService.dispatchEvent(this.createLocalRowEvent(RowNode.EVENT_VALIDATION_CHANGED));
+        }
+    }
+
     public setAllChildrenCount(allChildrenCount: number | null): void {
         if (this.allChildrenCount === allChildrenCount) { return; }
 
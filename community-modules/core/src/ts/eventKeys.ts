@@ -93,6 +93,7 @@ export class Events {
     public static EVENT_CELL_MOUSE_DOWN = 'cellMouseDown';
     public static EVENT_CELL_CONTEXT_MENU = 'cellContextMenu';
     public static EVENT_CELL_VALUE_CHANGED = 'cellValueChanged';
+    public static EVENT_CELL_VALIDATION_FAILED = 'cellValidationFailed';
     public static EVENT_ROW_VALUE_CHANGED = 'rowValueChanged';
     public static EVENT_CELL_FOCUSED = 'cellFocused';
     public static EVENT_ROW_SELECTED = 'rowSelected';
@@ -111,6 +112,18 @@ export class Events {
     public static EVENT_FILTER_MODIFIED = 'filterModified';
     public static EVENT_FILTER_OPENED = 'filterOpened';
 
+    /** The find search value, options or matches changed, or the active match moved */
+    public static EVENT_FIND_CHANGED = 'findChanged';
+
+    /** The conditional formatting rules changed, or the values they are evaluated against did */
+    public static EVENT_CONDITIONAL_FORMATTING_CHANGED = 'conditionalFormattingChanged';
+
+    /** A chunk of a streaming CSV export was written, also fired when the export finishes or is cancelled */
+    public static EVENT_CSV_EXPORT_PROGRESS = 'csvExportProgress';
+
+    /** A page of rows was loaded for an export from the server, also fired when the export finishes or fails */
+    public static EVENT_SERVER_SIDE_EXPORT_PROGRESS = 'serverSideExportProgress';
+
     public static EVENT_SORT_CHANGED = 'sortChanged';
 
     /** A row was removed from the dom, for any reason. Use to clean up resources (if any) used by the row. */
@@ -159,6 +172,10 @@ export class Events {
      * to bound properties, this event fires after the grid has finished processing the change. */
     public static EVENT_COMPONENT_STATE_CHANGED = 'componentStateChanged';
 
+    /** Something the user can change about their view of the grid has changed, eg columns, filters, selection
+     * or scroll position. Fires once for a batch of changes, and once after api.setState(). */
+    public static EVENT_STATE_UPDATED = 'stateUpdated';
+
     /** All items from here down are used internally by the grid, not intended for external use. */
     // not documented, either experimental, or we just don't want users using an depending on them
     public static EVENT_BODY_HEIGHT_CHANGED = 'bodyHeightChanged';
@@ -189,9 +206,13 @@ export class Events {
     public static EVENT_COLUMN_PIVOT_CHANGE_REQUEST = 'columnPivotChangeRequest';
     public static EVENT_COLUMN_VALUE_CHANGE_REQUEST = 'columnValueChangeRequest';
     public static EVENT_COLUMN_AGG_FUNC_CHANGE_REQUEST = 'columnAggFuncChangeRequest';
+    public static EVENT_COLUMN_SHOW_VALUE_AS_CHANGE_REQUEST = 'columnShowValueAsChangeRequest';
 
     public static EVENT_KEYBOARD_FOCUS = 'keyboardFocus';
     public static EVENT_MOUSE_FOCUS = 'mouseFocus';
 
     public static EVENT_STORE_UPDATED = 'storeUpdated';
+
+    /** Fired by the Client Side Row Model after transactions are applied, includes the resulting row node transactions */
+    public static EVENT_TRANSACTIONS_APPLIED = 'transactionsApplied';
 }
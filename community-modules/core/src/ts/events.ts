@@ -1,6 +1,6 @@
 import { RowNode } from './entities/rowNode';
 import { Column } from './entities/column';
-import { ColDef } from './entities/colDef';
+import { ColDef, ShowValueAs } from './entities/colDef';
 import { GridApi } from './gridApi';
 import { ColumnApi } from './columns/columnApi';
 import { OriginalColumnGroup } from './entities/originalColumnGroup';
@@ -11,6 +11,9 @@ import { CellRange, CellRangeParams } from './interfaces/IRangeService';
 import { ChartModel } from './interfaces/IChartService';
 import { ServerSideTransactionResult } from "./interfaces/serverSideTransaction";
 import { RowNodeTransaction } from "./interfaces/rowNodeTransaction";
+import { RowDataTransactionRecord } from "./interfaces/iClientSideRowModel";
+import { GridState, GridStateKey } from "./interfaces/gridState";
+import { FindMatch } from "./interfaces/iFind";
 export { Events } from './eventKeys';
 
 export interface ModelUpdatedEvent extends AgGridEvent {
@@ -79,6 +82,28 @@ export interface FilterModifiedEvent extends AgGridEvent {
     column: Column;
 }
 
+export interface FindChangedEvent extends AgGridEvent {
+    matchCount: number;
+    activeMatch: FindMatch | null;
+    /** -1 when there isn't an active match */
+    activeMatchIndex: number;
+}
+
+export interface ConditionalFormattingChangedEvent extends AgGridEvent { }
+
+export interface CsvExportProgressEvent extends AgGridEvent {
+    rowsExported: number;
+    rowCount: number;
+    finished: boolean;
+    cancelled: boolean;
+}
+
+export interface ServerSideExportProgressEvent extends AgGridEvent {
+    rowsLoaded: number;
+    finished: boolean;
+    failed: boolean;
+}
+
 export interface FilterOpenedEvent extends AgGridEvent {
     column: Column | OriginalColumnGroup;
     source: FilterRequestSource;
@@ -89,6 +114,13 @@ export interface SortChangedEvent extends AgGridEvent { }
 
 export interface GridReadyEvent extends AgGridEvent { }
 
+export interface StateUpdatedEvent extends AgGridEvent {
+    /** The parts of the state that have changed since the last event */
+    sources: GridStateKey[];
+    /** The complete state of the grid after the change */
+    state: GridState;
+}
+
 export interface DisplayedColumnsWidthChangedEvent extends AgGridEvent { } // not documented
 export interface ColumnHoverChangedEvent extends AgGridEvent { } // not documented
 export interface BodyHeightChangedEvent extends AgGridEvent { } // not documented
@@ -368,6 +400,15 @@ export interface CellValueChangedEvent extends CellEvent {
     source: string | undefined;
 }
 
+export interface CellValidationFailedEvent extends CellEvent {
+    oldValue: any;
+    /** The value that failed validation, it is only in the cell if invalidCellValueAction is 'accept' */
+    newValue: any;
+    error: string;
+    /** One of 'edit', 'paste' or 'fill' */
+    source: string;
+}
+
 export interface AsyncTransactionsFlushed extends AgGridEvent {
     results: (RowNodeTransaction | ServerSideTransactionResult) [];
 }
@@ -388,10 +429,20 @@ export interface ColumnAggFuncChangeRequestEvent extends ColumnRequestEvent {
     aggFunc: any;
 }
 
+export interface ColumnShowValueAsChangeRequestEvent extends ColumnRequestEvent {
+    showValueAs: ShowValueAs | null;
+}
+
 export interface ScrollVisibilityChangedEvent extends AgGridEvent { } // not documented
 
 export interface StoreUpdatedEvent extends AgEvent {} // not documented
 
+export interface TransactionsAppliedEvent extends AgEvent { // not documented
+    rowNodeTransactions: RowNodeTransaction[];
+    /** Only present when transactions are recorded for undo / redo */
+    transactionRecords?: RowDataTransactionRecord[];
+}
+
 export interface LeftPinnedWidthChangedEvent extends AgEvent {} // not documented
 export interface RightPinnedWidthChangedEvent extends AgEvent {} // not documented
 
@@ -0,0 +1,302 @@
+import { Autowired, PostConstruct } from "../../context/context";
+import { Component } from "../../widgets/component";
+import { RefSelector } from "../../widgets/componentAnnotations";
+import { AgSelect } from "../../widgets/agSelect";
+import { AgInputTextField } from "../../widgets/agInputTextField";
+import { AgInputNumberField } from "../../widgets/agInputNumberField";
+import { ColumnModel } from "../../columns/columnModel";
+import { Column } from "../../entities/column";
+import { AdvancedFilterModel, ColumnAdvancedFilterModel, JoinAdvancedFilterModel } from "../../interfaces/advancedFilterModel";
+import { DEFAULT_FILTER_LOCALE_TEXT, IFilterLocaleText } from "../filterLocaleText";
+import { clearElement, loadTemplate } from "../../utils/dom";
+import { removeFromArray } from "../../utils/array";
+
+type ColumnFilterType = ColumnAdvancedFilterModel['filterType'];
+
+/** Edits a copy of an advanced filter model, the model is only applied when the user presses apply */
+export class AdvancedFilterBuilderComp extends Component {
+
+    public static EVENT_APPLY = 'advancedFilterApply';
+    public static EVENT_CANCEL = 'advancedFilterCancel';
+
+    private static TEMPLATE = /* html */
+        `<div class="ag-advanced-filter-builder">
+            <div ref="eConditions" class="ag-advanced-filter-builder-conditions"></div>
+            <div class="ag-advanced-filter-builder-buttons">
+                <button type="button" ref="eApplyButton" class="ag-standard-button ag-advanced-filter-builder-button"></button>
+                <button type="button" ref="eCancelButton" class="ag-standard-button ag-advanced-filter-builder-button"></button>
+            </div>
+        </div>`;
+
+    private static TEXT_TYPES = ['contains', 'notContains', 'equals', 'notEqual', 'startsWith', 'endsWith', 'blank', 'notBlank'];
+    private static SCALAR_TYPES = [
+        'equals', 'notEqual', 'lessThan', 'lessThanOrEqual', 'greaterThan', 'greaterThanOrEqual', 'inRange', 'blank', 'notBlank'
+    ];
+
+    @Autowired('columnModel') private columnModel: ColumnModel;
+
+    @RefSelector('eConditions') private readonly eConditions: HTMLElement;
+    @RefSelector('eApplyButton') private readonly eApplyButton: HTMLButtonElement;
+    @RefSelector('eCancelButton') private readonly eCancelButton: HTMLButtonElement;
+
+    // the root is always a join, so conditions can be added to it
+    private readonly model: JoinAdvancedFilterModel;
+
+    // the fields are recreated each time the structure of the model changes, so are destroyed separately
+    private fieldComps: Component[] = [];
+
+    constructor(model: AdvancedFilterModel | null) {
+        super(AdvancedFilterBuilderComp.TEMPLATE);
+
+        if (!model) {
+            this.model = { filterType: 'join', type: 'AND', conditions: [] };
+        } else {
+            this.model = model.filterType === 'join' ? model : { filterType: 'join', type: 'AND', conditions: [model] };
+        }
+    }
+
+    @PostConstruct
+    private postConstruct(): void {
+        this.eApplyButton.textContent = this.translate('applyFilter');
+        this.eCancelButton.textContent = this.translate('cancelFilter');
+
+        this.addManagedListener(this.eApplyButton, 'click', () => this.dispatchEvent({ type: AdvancedFilterBuilderComp.EVENT_APPLY }));
+        this.addManagedListener(this.eCancelButton, 'click', () => this.dispatchEvent({ type: AdvancedFilterBuilderComp.EVENT_CANCEL }));
+        this.addDestroyFunc(() => this.destroyFieldComps());
+
+        this.refresh();
+    }
+
+    /** Returns the model without any incomplete conditions or empty groups, or null if nothing is left */
+    public getModel(): AdvancedFilterModel | null {
+        const cleanModel = (model: AdvancedFilterModel): AdvancedFilterModel | null => {
+            if (model.filterType !== 'join') {
+                return this.isConditionComplete(model) ? model : null;
+            }
+
+            const conditions = model.conditions
+                .map(cleanModel)
+                .filter(condition => condition != null) as AdvancedFilterModel[];
+
+            return conditions.length ? { filterType: 'join', type: model.type, conditions } : null;
+        };
+
+        return cleanModel(this.model);
+    }
+
+    private isConditionComplete(model: ColumnAdvancedFilterModel): boolean {
+        if (model.type === 'blank' || model.type === 'notBlank') { return true; }
+        if (model.filter == null || model.filter === '') { return false; }
+
+        return model.type !== 'inRange' || (model.filterTo != null && model.filterTo !== '');
+    }
+
+    private refresh(): void {
+        this.destroyFieldComps();
+        clearElement(this.eConditions);
+        this.eConditions.appendChild(this.createJoinGui(this.model, null));
+    }
+
+    private destroyFieldComps(): void {
+        this.fieldComps.forEach(comp => this.destroyBean(comp));
+        this.fieldComps = [];
+    }
+
+    private createJoinGui(join: JoinAdvancedFilterModel, parent: JoinAdvancedFilterModel | null): HTMLElement {
+        const eGroup = loadTemplate(/* html */
+            `<div class="ag-advanced-filter-builder-group">
+                <div class="ag-advanced-filter-builder-group-header"></div>
+                <div class="ag-advanced-filter-builder-group-children"></div>
+            </div>`
+        );
+        const eHeader = eGroup.querySelector('.ag-advanced-filter-builder-group-header') as HTMLElement;
+        const eChildren = eGroup.querySelector('.ag-advanced-filter-builder-group-children') as HTMLElement;
+
+        const joinSelect = this.createFieldComp(new AgSelect())
+            .addOptions([
+                { value: 'AND', text: this.translate('andCondition') },
+                { value: 'OR', text: this.translate('orCondition') }
+            ])
+            .setValue(join.type)
+            .onValueChange(value => join.type = value === 'OR' ? 'OR' : 'AND');
+
+        eHeader.appendChild(joinSelect.getGui());
+        eHeader.appendChild(this.createButton('advancedFilterAddCondition', () => {
+            join.conditions.push(this.createDefaultCondition());
+            this.refresh();
+        }));
+        eHeader.appendChild(this.createButton('advancedFilterAddGroup', () => {
+            join.conditions.push({ filterType: 'join', type: 'AND', conditions: [this.createDefaultCondition()] });
+            this.refresh();
+        }));
+
+        if (parent) {
+            eHeader.appendChild(this.createRemoveButton(join, parent));
+        }
+
+        join.conditions.forEach(condition => {
+            const eChild = condition.filterType === 'join'
+                ? this.createJoinGui(condition, join)
+                : this.createConditionGui(condition, join);
+
+            eChildren.appendChild(eChild);
+        });
+
+        return eGroup;
+    }
+
+    private createConditionGui(condition: ColumnAdvancedFilterModel, parent: JoinAdvancedFilterModel): HTMLElement {
+        const eCondition = loadTemplate(/* html */ `<div class="ag-advanced-filter-builder-condition"></div>`);
+
+        const columnSelect = this.createFieldComp(new AgSelect())
+            .addOptions(this.getFilterableColumns().map(column => ({
+                value: column.getColId(),
+                text: this.columnModel.getDisplayNameForColumn(column, 'filterToolPanel') || column.getColId()
+            })))
+            .setValue(condition.colId)
+            .onValueChange(colId => {
+                const column = colId ? this.columnModel.getPrimaryColumn(colId) : null;
+
+                if (!column) { return; }
+
+                // the operators and values of one type of condition don't apply to another, so they are reset
+                const newCondition = this.getFilterType(column) === condition.filterType
+                    ? { ...condition, colId: column.getColId() }
+                    : this.createDefaultCondition(column);
+
+                parent.conditions[parent.conditions.indexOf(condition)] = newCondition;
+                this.refresh();
+            });
+
+        const types = condition.filterType === 'text' ? AdvancedFilterBuilderComp.TEXT_TYPES : AdvancedFilterBuilderComp.SCALAR_TYPES;
+        const typeSelect = this.createFieldComp(new AgSelect())
+            .addOptions(types.map(type => ({ value: type, text: this.translate(type as keyof IFilterLocaleText) })))
+            .setValue(condition.type)
+            .onValueChange(type => {
+                condition.type = type as ColumnAdvancedFilterModel['type'];
+                this.refresh();
+            });
+
+        eCondition.appendChild(columnSelect.getGui());
+        eCondition.appendChild(typeSelect.getGui());
+
+        if (condition.type !== 'blank' && condition.type !== 'notBlank') {
+            eCondition.appendChild(this.createValueField(condition, 'filter'));
+
+            if (condition.type === 'inRange') {
+                eCondition.appendChild(this.createValueField(condition, 'filterTo'));
+            }
+        }
+
+        eCondition.appendChild(this.createRemoveButton(condition, parent));
+
+        return eCondition;
+    }
+
+    private createValueField(condition: ColumnAdvancedFilterModel, key: 'filter' | 'filterTo'): HTMLElement {
+        const isNumber = condition.filterType === 'number';
+        const field = this.createFieldComp(isNumber ? new AgInputNumberField() : new AgInputTextField());
+        const value = this.getConditionValue(condition, key);
+
+        field.setValue(value == null ? null : String(value));
+
+        if (condition.filterType === 'date') {
+            field.setInputPlaceholder(this.translate('dateFormatOoo'));
+        } else if (condition.type === 'inRange') {
+            field.setInputPlaceholder(this.translate(key === 'filter' ? 'inRangeStart' : 'inRangeEnd'));
+        }
+
+        // only the model is updated while typing, refreshing would take the focus away from the field
+        field.onValueChange(newValue => this.setConditionValue(condition, key, newValue == null || newValue === '' ? null : newValue));
+
+        return field.getGui();
+    }
+
+    // text conditions don't have a filterTo, as they have no inRange type
+    private getConditionValue(condition: ColumnAdvancedFilterModel, key: 'filter' | 'filterTo'): string | number | undefined {
+        switch (condition.filterType) {
+            case 'number': return condition[key];
+            case 'date': return condition[key];
+            default: return key === 'filter' ? condition.filter : undefined;
+        }
+    }
+
+    // removes the value when null, so the model only has the values the user entered
+    private setConditionValue(condition: ColumnAdvancedFilterModel, key: 'filter' | 'filterTo', value: string | null): void {
+        if (condition.filterType === 'number') {
+            if (value == null) {
+                delete condition[key];
+            } else {
+                condition[key] = parseFloat(value);
+            }
+        } else if (condition.filterType === 'date') {
+            if (value == null) {
+                delete condition[key];
+            } else {
+                condition[key] = value;
+            }
+        } else if (key === 'filter') {
+            if (value == null) {
+                delete condition.filter;
+            } else {
+                condition.filter = value;
+            }
+        }
+    }
+
+    private createRemoveButton(model: AdvancedFilterModel, parent: JoinAdvancedFilterModel): HTMLElement {
+        return this.createButton('advancedFilterRemove', () => {
+            removeFromArray(parent.conditions, model);
+            this.refresh();
+        });
+    }
+
+    private createButton(key: keyof IFilterLocaleText, callback: () => void): HTMLElement {
+        const eButton = loadTemplate(/* html */
+            `<button type="button" class="ag-standard-button ag-advanced-filter-builder-button"></button>`
+        );
+
+        eButton.textContent = this.translate(key);
+
+        // the button is removed with the rest of the tree when refreshing, so the listener isn't managed
+        eButton.addEventListener('click', callback);
+
+        return eButton;
+    }
+
+    private createDefaultCondition(column?: Column): ColumnAdvancedFilterModel {
+        const col = column || this.getFilterableColumns()[0];
+        const colId = col ? col.getColId() : '';
+        const filterType = col ? this.getFilterType(col) : 'text';
+
+        switch (filterType) {
+            case 'number': return { filterType: 'number', colId, type: 'equals' };
+            case 'date': return { filterType: 'date', colId, type: 'equals' };
+            default: return { filterType: 'text', colId, type: 'contains' };
+        }
+    }
+
+    private getFilterableColumns(): Column[] {
+        return (this.columnModel.getAllPrimaryColumns() || []).filter(column => column.isFilterAllowed());
+    }
+
+    private getFilterType(column: Column): ColumnFilterType {
+        switch (column.getColDef().filter) {
+            case 'agNumberColumnFilter': return 'number';
+            case 'agDateColumnFilter': return 'date';
+            default: return 'text';
+        }
+    }
+
+    private createFieldComp<T extends Component>(comp: T): T {
+        this.fieldComps.push(comp);
+
+        return this.createBean(comp);
+    }
+
+    private translate(key: keyof IFilterLocaleText): string {
+        const translate = this.gridOptionsWrapper.getLocaleTextFunc();
+
+        return translate(key, DEFAULT_FILTER_LOCALE_TEXT[key]);
+    }
+}
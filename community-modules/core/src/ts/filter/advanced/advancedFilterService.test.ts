@@ -0,0 +1,153 @@
+import { AdvancedFilterService } from './advancedFilterService';
+import { ColumnModel } from '../../columns/columnModel';
+import { ValueService } from '../../valueService/valueService';
+import { FilterManager } from '../filterManager';
+import { GridOptionsWrapper } from '../../gridOptionsWrapper';
+import { AdvancedFilterModel } from '../../interfaces/advancedFilterModel';
+import { mock } from '../../test-utils/mock';
+
+/** The filterParams of the columns are keyed by column id */
+function createService(enabled = true, filterParams: { [colId: string]: any; } = {}) {
+    const service = new AdvancedFilterService();
+
+    const gridOptionsWrapper = mock<GridOptionsWrapper>('isEnableAdvancedFilter');
+    gridOptionsWrapper.isEnableAdvancedFilter.mockReturnValue(enabled);
+
+    const columnModel = mock<ColumnModel>('getPrimaryColumn');
+    columnModel.getPrimaryColumn.mockImplementation((colId: any) => colId === 'missing'
+        ? null
+        : { getColId: () => colId, getColDef: () => ({ filterParams: filterParams[colId] }) } as any);
+
+    // the rows are their values, keyed by column id
+    const valueService = mock<ValueService>('getValue');
+    valueService.getValue.mockImplementation((column, rowNode: any) => rowNode[column.getColId()]);
+
+    const filterManager = mock<FilterManager>('onFilterChanged');
+
+    Object.assign(service, { gridOptionsWrapper, columnModel, valueService, filterManager });
+
+    const doesRowPass = (model: AdvancedFilterModel, row: any) => {
+        service.setModel(model);
+        return service.doesFilterPass(row);
+    };
+
+    return { service, filterManager, doesRowPass };
+}
+
+describe('setModel', () => {
+    it('only refreshes the filters when the model changes', () => {
+        const { service, filterManager } = createService();
+        const model: AdvancedFilterModel = { filterType: 'text', colId: 'country', type: 'equals', filter: 'UK' };
+
+        service.setModel(model);
+        service.setModel({ ...model });
+
+        expect(filterManager.onFilterChanged).toHaveBeenCalledTimes(1);
+        expect(service.getModel()).toStrictEqual(model);
+        expect(service.getModel()).not.toBe(model);
+    });
+
+    it('warns and ignores the model when the advanced filter is not enabled', () => {
+        const { service } = createService(false);
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+        service.setModel({ filterType: 'text', colId: 'country', type: 'blank' });
+
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(service.isFilterPresent()).toBe(false);
+        warn.mockRestore();
+    });
+});
+
+describe('doesFilterPass', () => {
+    it('filters text case insensitively', () => {
+        const { doesRowPass } = createService();
+
+        expect(doesRowPass({ filterType: 'text', colId: 'country', type: 'startsWith', filter: 'ire' }, { country: 'Ireland' })).toBe(true);
+        expect(doesRowPass({ filterType: 'text', colId: 'country', type: 'endsWith', filter: 'LAND' }, { country: 'Ireland' })).toBe(true);
+        expect(doesRowPass({ filterType: 'text', colId: 'country', type: 'notContains', filter: 'rel' }, { country: 'Ireland' })).toBe(false);
+        expect(doesRowPass({ filterType: 'text', colId: 'country', type: 'blank' }, { country: ' ' })).toBe(true);
+    });
+
+    it('filters numbers and dates, including ranges', () => {
+        const { doesRowPass } = createService();
+
+        expect(doesRowPass({ filterType: 'number', colId: 'price', type: 'inRange', filter: 10, filterTo: 20 }, { price: 15 })).toBe(true);
+        expect(doesRowPass({ filterType: 'number', colId: 'price', type: 'greaterThan', filter: '5' as any }, { price: 40 })).toBe(true);
+        expect(doesRowPass({ filterType: 'number', colId: 'price', type: 'lessThan', filter: 5 }, { price: null })).toBe(false);
+        expect(doesRowPass({ filterType: 'date', colId: 'date', type: 'equals', filter: '2021-03-01' }, { date: new Date(2021, 2, 1, 15) })).toBe(true);
+        expect(doesRowPass({ filterType: 'date', colId: 'date', type: 'lessThan', filter: '2021-03-01' }, { date: '2021-03-02' })).toBe(false);
+    });
+
+    it('passes blank cells for notEqual and notContains only, as the provided text filter does', () => {
+        const { doesRowPass } = createService();
+
+        expect(doesRowPass({ filterType: 'text', colId: 'country', type: 'notEqual', filter: 'Ireland' }, { country: null })).toBe(true);
+        expect(doesRowPass({ filterType: 'text', colId: 'country', type: 'notContains', filter: 'rel' }, { country: '' })).toBe(true);
+        expect(doesRowPass({ filterType: 'text', colId: 'country', type: 'contains', filter: 'rel' }, { country: null })).toBe(false);
+        expect(doesRowPass({ filterType: 'number', colId: 'price', type: 'notEqual', filter: 5 }, { price: null })).toBe(false);
+    });
+
+    it('excludes the ends of ranges unless the column filter has inRangeInclusive set', () => {
+        const range = (colId: string, filter: any, filterTo: any): AdvancedFilterModel => colId === 'price'
+            ? { filterType: 'number', colId, type: 'inRange', filter, filterTo }
+            : { filterType: 'date', colId, type: 'inRange', filter, filterTo };
+        const exclusive = createService();
+        const inclusive = createService(true, { price: { inRangeInclusive: true }, date: { inRangeInclusive: true } });
+
+        expect(exclusive.doesRowPass(range('price', 10, 20), { price: 10 })).toBe(false);
+        expect(exclusive.doesRowPass(range('price', 10, 20), { price: 20 })).toBe(false);
+        expect(exclusive.doesRowPass(range('date', '2021-03-01', '2021-03-31'), { date: '2021-03-31' })).toBe(false);
+        expect(inclusive.doesRowPass(range('price', 10, 20), { price: 10 })).toBe(true);
+        expect(inclusive.doesRowPass(range('price', 10, 20), { price: 20 })).toBe(true);
+        expect(inclusive.doesRowPass(range('date', '2021-03-01', '2021-03-31'), { date: '2021-03-31' })).toBe(true);
+    });
+
+    it('joins nested conditions across columns', () => {
+        const { doesRowPass } = createService();
+        const model: AdvancedFilterModel = {
+            filterType: 'join',
+            type: 'AND',
+            conditions: [
+                {
+                    filterType: 'join',
+                    type: 'OR',
+                    conditions: [
+                        { filterType: 'text', colId: 'country', type: 'equals', filter: 'UK' },
+                        { filterType: 'text', colId: 'country', type: 'equals', filter: 'IE' }
+                    ]
+                },
+                { filterType: 'number', colId: 'price', type: 'greaterThan', filter: 100 }
+            ]
+        };
+
+        expect(doesRowPass(model, { country: 'IE', price: 200 })).toBe(true);
+        expect(doesRowPass(model, { country: 'FR', price: 200 })).toBe(false);
+        expect(doesRowPass(model, { country: 'UK', price: 50 })).toBe(false);
+    });
+
+    it('passes conditions on columns that do not exist', () => {
+        const { doesRowPass } = createService();
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+        expect(doesRowPass({ filterType: 'text', colId: 'missing', type: 'equals', filter: 'x' }, {})).toBe(true);
+        warn.mockRestore();
+    });
+});
+
+describe('getReferencedColIds', () => {
+    it('returns each column the conditions reference once', () => {
+        const { service } = createService();
+
+        expect(service.getReferencedColIds({
+            filterType: 'join',
+            type: 'OR',
+            conditions: [
+                { filterType: 'text', colId: 'country', type: 'equals', filter: 'UK' },
+                { filterType: 'text', colId: 'country', type: 'equals', filter: 'IE' },
+                { filterType: 'number', colId: 'price', type: 'blank' }
+            ]
+        })).toStrictEqual(['country', 'price']);
+        expect(service.getReferencedColIds(null)).toStrictEqual([]);
+    });
+});
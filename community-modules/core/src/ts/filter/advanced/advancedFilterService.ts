@@ -0,0 +1,225 @@
+import { Autowired, Bean } from "../../context/context";
+import { BeanStub } from "../../context/beanStub";
+import { ColumnModel } from "../../columns/columnModel";
+import { Column } from "../../entities/column";
+import { RowNode } from "../../entities/rowNode";
+import { ValueService } from "../../valueService/valueService";
+import { FilterManager } from "../filterManager";
+import {
+    AdvancedFilterModel,
+    ColumnAdvancedFilterModel,
+    DateAdvancedFilterModel,
+    NumberAdvancedFilterModel,
+    TextAdvancedFilterModel
+} from "../../interfaces/advancedFilterModel";
+import { AdvancedFilterBuilderComp } from "./advancedFilterBuilderComp";
+import { AgDialog } from "../../widgets/agDialog";
+import { DEFAULT_FILTER_LOCALE_TEXT } from "../filterLocaleText";
+import { parseDateTimeFromString, serialiseDate } from "../../utils/date";
+import { deepCloneObject } from "../../utils/object";
+import { doOnce } from "../../utils/function";
+import { jsonEquals } from "../../utils/generic";
+
+@Bean('advancedFilterService')
+export class AdvancedFilterService extends BeanStub {
+
+    @Autowired('columnModel') private columnModel: ColumnModel;
+    @Autowired('valueService') private valueService: ValueService;
+    @Autowired('filterManager') private filterManager: FilterManager;
+
+    private model: AdvancedFilterModel | null = null;
+    private builderDialog: AgDialog | null = null;
+
+    public isEnabled(): boolean {
+        return this.gridOptionsWrapper.isEnableAdvancedFilter();
+    }
+
+    public isFilterPresent(): boolean {
+        return this.isEnabled() && this.model != null;
+    }
+
+    public getModel(): AdvancedFilterModel | null {
+        return this.model ? deepCloneObject(this.model) : null;
+    }
+
+    public setModel(model: AdvancedFilterModel | null): void {
+        if (!this.isEnabled()) {
+            doOnce(() => console.warn('AG Grid: the advanced filter is only available when enableAdvancedFilter = true'), 'advancedFilterService.setModel');
+            return;
+        }
+
+        const newModel = model ? deepCloneObject(model) : null;
+
+        if (jsonEquals(this.model, newModel)) { return; }
+
+        this.model = newModel;
+        this.filterManager.onFilterChanged();
+    }
+
+    public doesFilterPass(node: RowNode): boolean {
+        return this.doesModelPass(this.model!, node);
+    }
+
+    /** Ids of all the columns the model has conditions on */
+    public getReferencedColIds(model: AdvancedFilterModel | null): string[] {
+        const colIds = new Set<string>();
+        const addColIds = (childModel: AdvancedFilterModel) => {
+            if (childModel.filterType === 'join') {
+                childModel.conditions.forEach(addColIds);
+            } else {
+                colIds.add(childModel.colId);
+            }
+        };
+
+        if (model) {
+            addColIds(model);
+        }
+
+        const res: string[] = [];
+        colIds.forEach(colId => res.push(colId));
+
+        return res;
+    }
+
+    public showBuilder(): void {
+        if (!this.isEnabled() || this.builderDialog) { return; }
+
+        const translate = this.gridOptionsWrapper.getLocaleTextFunc();
+        const builderComp = this.createBean(new AdvancedFilterBuilderComp(this.getModel()));
+        const dialog = this.builderDialog = this.createBean(new AgDialog({
+            title: translate('advancedFilterBuilder', DEFAULT_FILTER_LOCALE_TEXT.advancedFilterBuilder),
+            component: builderComp,
+            width: 600,
+            height: 400,
+            minWidth: 400,
+            resizable: true,
+            movable: true,
+            centered: true,
+            closable: true
+        }));
+
+        builderComp.addManagedListener(builderComp, AdvancedFilterBuilderComp.EVENT_APPLY, () => {
+            this.setModel(builderComp.getModel());
+            this.destroyBean(dialog);
+        });
+
+        builderComp.addManagedListener(builderComp, AdvancedFilterBuilderComp.EVENT_CANCEL, () => this.destroyBean(dialog));
+
+        dialog.addDestroyFunc(() => {
+            this.builderDialog = null;
+            this.destroyBean(builderComp);
+        });
+    }
+
+    public hideBuilder(): void {
+        if (this.builderDialog) {
+            this.destroyBean(this.builderDialog);
+        }
+    }
+
+    private doesModelPass(model: AdvancedFilterModel, node: RowNode): boolean {
+        if (model.filterType === 'join') {
+            const { conditions } = model;
+
+            if (!conditions || !conditions.length) { return true; }
+
+            return model.type === 'OR'
+                ? conditions.some(condition => this.doesModelPass(condition, node))
+                : conditions.every(condition => this.doesModelPass(condition, node));
+        }
+
+        const column = this.columnModel.getPrimaryColumn(model.colId);
+
+        if (!column) {
+            doOnce(() => console.warn(`AG Grid: the advanced filter references column ${model.colId}, which does not exist`), 'advancedFilterService.missingColumn' + model.colId);
+            return true;
+        }
+
+        return this.doesColumnModelPass(model, column, node);
+    }
+
+    private doesColumnModelPass(model: ColumnAdvancedFilterModel, column: Column, node: RowNode): boolean {
+        const value = this.valueService.getValue(column, node, true);
+        const blank = value == null || (typeof value === 'string' && value.trim() === '');
+
+        if (model.type === 'blank') { return blank; }
+        if (model.type === 'notBlank') { return !blank; }
+
+        // as with the provided text filter, blank cells only pass the negative text conditions
+        if (blank) {
+            return model.filterType === 'text' && (model.type === 'notEqual' || model.type === 'notContains');
+        }
+
+        // ranges include their ends only when the column's provided filter would, ie inRangeInclusive is set
+        const { filterParams } = column.getColDef();
+        const inRangeInclusive = !!(filterParams && filterParams.inRangeInclusive);
+
+        switch (model.filterType) {
+            case 'text': return this.doesTextPass(model, String(value));
+            case 'number': return this.doesNumberPass(model, Number(value), inRangeInclusive);
+            case 'date': return this.doesDatePass(model, value, inRangeInclusive);
+        }
+
+        return true;
+    }
+
+    private doesTextPass(model: TextAdvancedFilterModel, value: string): boolean {
+        const cellText = value.toLowerCase();
+        const filterText = model.filter == null ? '' : String(model.filter).toLowerCase();
+
+        switch (model.type) {
+            case 'equals': return cellText === filterText;
+            case 'notEqual': return cellText !== filterText;
+            case 'contains': return cellText.indexOf(filterText) >= 0;
+            case 'notContains': return cellText.indexOf(filterText) < 0;
+            case 'startsWith': return cellText.indexOf(filterText) === 0;
+            case 'endsWith': return cellText.length >= filterText.length
+                && cellText.lastIndexOf(filterText) === cellText.length - filterText.length;
+        }
+
+        return true;
+    }
+
+    private doesNumberPass(model: NumberAdvancedFilterModel, value: number, inRangeInclusive: boolean): boolean {
+        if (isNaN(value)) { return false; }
+
+        // models built outside the grid, eg from a query string, might hold the numbers as strings
+        const toNumber = (filter?: number) => filter == null ? null : Number(filter);
+
+        return this.doesComparisonPass(model.type, value, toNumber(model.filter), toNumber(model.filterTo), inRangeInclusive);
+    }
+
+    private doesDatePass(model: DateAdvancedFilterModel, value: any, inRangeInclusive: boolean): boolean {
+        const date = value instanceof Date ? value : parseDateTimeFromString(String(value));
+
+        if (!date || isNaN(date.getTime())) { return false; }
+
+        // dates are compared by day, so the time a cell value might have is ignored
+        const toDay = (dateStr?: string) => dateStr ? serialiseDate(parseDateTimeFromString(dateStr), false) : null;
+
+        return this.doesComparisonPass(
+            model.type, serialiseDate(date, false)!, toDay(model.filter), toDay(model.filterTo), inRangeInclusive
+        );
+    }
+
+    private doesComparisonPass<T extends number | string>(
+        type: string, value: T, filter: T | null, filterTo: T | null, inRangeInclusive: boolean
+    ): boolean {
+        if (filter == null) { return true; }
+
+        switch (type) {
+            case 'equals': return value === filter;
+            case 'notEqual': return value !== filter;
+            case 'lessThan': return value < filter;
+            case 'lessThanOrEqual': return value <= filter;
+            case 'greaterThan': return value > filter;
+            case 'greaterThanOrEqual': return value >= filter;
+            case 'inRange':
+                if (filterTo == null) { return inRangeInclusive ? value >= filter : value > filter; }
+
+                return inRangeInclusive ? value >= filter && value <= filterTo : value > filter && value < filterTo;
+        }
+
+        return true;
+    }
+}
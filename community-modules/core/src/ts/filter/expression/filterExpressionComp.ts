@@ -0,0 +1,252 @@
+import { Autowired, PostConstruct } from "../../context/context";
+import { Component } from "../../widgets/component";
+import { RefSelector } from "../../widgets/componentAnnotations";
+import { AgInputTextField } from "../../widgets/agInputTextField";
+import { Events } from "../../eventKeys";
+import { KeyCode } from "../../constants/keyCode";
+import { FilterExpressionService, FilterExpressionSuggestions } from "./filterExpressionService";
+import { FilterExpressionError } from "./filterExpressionParser";
+import { PopupService } from "../../widgets/popupService";
+import {
+    addOrRemoveCssClass, clearElement, getAbsoluteWidth, loadTemplate, setDisplayed, setElementWidth
+} from "../../utils/dom";
+import { setAriaActiveDescendant, setAriaExpanded, setAriaSelected } from "../../utils/aria";
+
+/**
+ * Input for typing filter expressions, eg `price > 100 and country in ("UK", "IE")`. The expression is applied
+ * when enter is pressed, until then parse errors are shown under the input as the expression is typed.
+ */
+export class FilterExpressionComp extends Component {
+
+    private static TEMPLATE = /* html */
+        `<div class="ag-filter-expression" role="presentation">
+            <ag-input-text-field ref="eInput" class="ag-filter-expression-input"></ag-input-text-field>
+            <div ref="eError" class="ag-filter-expression-error" aria-live="polite"></div>
+        </div>`;
+
+    @Autowired('filterExpressionService') private filterExpressionService: FilterExpressionService;
+    @Autowired('popupService') private popupService: PopupService;
+
+    @RefSelector('eInput') private readonly eInput: AgInputTextField;
+    @RefSelector('eError') private readonly eError: HTMLElement;
+
+    // the suggestions are shown in a popup, so they aren't clipped by the status bar or header they are in
+    private readonly eSuggestions: HTMLElement = loadTemplate(
+        /* html */ `<div class="ag-filter-expression-suggestions" role="listbox"></div>`
+    );
+    private hideSuggestionsPopup: (() => void) | null = null;
+
+    private suggestions: FilterExpressionSuggestions | null = null;
+    private highlightedIndex = -1;
+
+    constructor() {
+        super(FilterExpressionComp.TEMPLATE);
+    }
+
+    @PostConstruct
+    private postConstruct(): void {
+        const translate = this.gridOptionsWrapper.getLocaleTextFunc();
+        const eInputElement = this.eInput.getInputElement();
+
+        this.eInput.setInputPlaceholder(translate('filterExpressionOoo', 'Filter, eg price > 100 and country = UK'));
+        eInputElement.setAttribute('role', 'combobox');
+        eInputElement.setAttribute('aria-autocomplete', 'list');
+
+        this.addManagedListener(eInputElement, 'input', this.onInput.bind(this));
+        this.addManagedListener(eInputElement, 'keydown', this.onKeyDown.bind(this));
+        this.addManagedListener(eInputElement, 'blur', () => this.hideSuggestions());
+
+        // stops the input losing focus when a suggestion is clicked
+        this.addManagedListener(this.eSuggestions, 'mousedown', (e: MouseEvent) => e.preventDefault());
+
+        this.addManagedListener(this.eventService, Events.EVENT_FILTER_CHANGED, this.onFilterChanged.bind(this));
+        this.addDestroyFunc(() => this.hideSuggestions());
+
+        this.hideSuggestions();
+        this.showError(null);
+        this.eInput.setValue(this.filterExpressionService.getExpression(), true);
+    }
+
+    private onFilterChanged(): void {
+        // while the user is typing, the expression isn't replaced by the one for the filters
+        if (document.activeElement === this.eInput.getInputElement()) { return; }
+
+        this.eInput.setValue(this.filterExpressionService.getExpression(), true);
+        this.showError(null);
+    }
+
+    private onInput(): void {
+        const expression = this.getExpression();
+
+        this.showError(this.filterExpressionService.compile(expression).error);
+        this.refreshSuggestions();
+    }
+
+    private onKeyDown(e: KeyboardEvent): void {
+        const suggestionCount = this.suggestions ? this.suggestions.suggestions.length : 0;
+
+        switch (e.keyCode) {
+            case KeyCode.DOWN:
+            case KeyCode.UP:
+                if (!suggestionCount) { return; }
+
+                e.preventDefault();
+
+                const step = e.keyCode === KeyCode.DOWN ? 1 : -1;
+                this.highlightSuggestion((this.highlightedIndex + step + suggestionCount) % suggestionCount);
+                break;
+            case KeyCode.TAB:
+                if (this.highlightedIndex < 0) { return; }
+
+                e.preventDefault();
+                this.acceptSuggestion(this.highlightedIndex);
+                break;
+            case KeyCode.ENTER:
+                e.preventDefault();
+
+                if (this.highlightedIndex >= 0) {
+                    this.acceptSuggestion(this.highlightedIndex);
+                } else {
+                    this.applyExpression();
+                }
+                break;
+            case KeyCode.ESCAPE:
+                if (!suggestionCount) { return; }
+
+                e.preventDefault();
+                this.hideSuggestions();
+                break;
+        }
+    }
+
+    private applyExpression(): void {
+        this.hideSuggestions();
+        this.showError(this.filterExpressionService.setExpression(this.getExpression()));
+    }
+
+    private refreshSuggestions(): void {
+        const eInputElement = this.eInput.getInputElement();
+        const caret = eInputElement.selectionStart == null ? this.getExpression().length : eInputElement.selectionStart;
+        const suggestions = this.filterExpressionService.getSuggestions(this.getExpression(), caret);
+
+        if (!suggestions.suggestions.length) {
+            this.hideSuggestions();
+            return;
+        }
+
+        this.suggestions = suggestions;
+        this.highlightedIndex = -1;
+
+        clearElement(this.eSuggestions);
+
+        suggestions.suggestions.forEach((suggestion, index) => {
+            const eSuggestion = loadTemplate(/* html */
+                `<div class="ag-filter-expression-suggestion" role="option" id="${this.getSuggestionId(index)}"></div>`
+            );
+
+            eSuggestion.textContent = suggestion;
+
+            // the suggestions are recreated with each key press, so the listener goes with the element
+            eSuggestion.addEventListener('click', () => this.acceptSuggestion(index));
+            this.eSuggestions.appendChild(eSuggestion);
+        });
+
+        setAriaExpanded(eInputElement, true);
+
+        if (!this.hideSuggestionsPopup) {
+            this.showSuggestionsPopup();
+        }
+    }
+
+    private showSuggestionsPopup(): void {
+        const addPopupRes = this.popupService.addPopup({
+            eChild: this.eSuggestions,
+            closedCallback: () => {
+                this.hideSuggestionsPopup = null;
+                this.hideSuggestions();
+            }
+        });
+
+        this.hideSuggestionsPopup = addPopupRes ? addPopupRes.hideFunc : null;
+
+        setElementWidth(this.eSuggestions, getAbsoluteWidth(this.eInput.getGui()));
+        this.eSuggestions.style.position = 'absolute';
+
+        this.popupService.positionPopupUnderComponent({
+            type: 'filterExpression',
+            eventSource: this.eInput.getGui(),
+            ePopup: this.eSuggestions,
+            keepWithinBounds: true
+        });
+    }
+
+    private highlightSuggestion(index: number): void {
+        const eSuggestionElements = this.eSuggestions.children;
+
+        for (let i = 0; i < eSuggestionElements.length; i++) {
+            const eSuggestion = eSuggestionElements[i] as HTMLElement;
+            const highlighted = i === index;
+
+            addOrRemoveCssClass(eSuggestion, 'ag-filter-expression-suggestion-highlighted', highlighted);
+            setAriaSelected(eSuggestion, highlighted);
+
+            if (highlighted) {
+                eSuggestion.scrollIntoView({ block: 'nearest' });
+            }
+        }
+
+        this.highlightedIndex = index;
+        setAriaActiveDescendant(this.eInput.getInputElement(), this.getSuggestionId(index));
+    }
+
+    private acceptSuggestion(index: number): void {
+        if (!this.suggestions) { return; }
+
+        const { start, end, suggestions } = this.suggestions;
+        const expression = this.getExpression();
+        const insertText = suggestions[index] + ' ';
+        const newExpression = expression.slice(0, start) + insertText + expression.slice(end).replace(/^\s+/, '');
+        const eInputElement = this.eInput.getInputElement();
+
+        this.eInput.setValue(newExpression, true);
+
+        const caret = start + insertText.length;
+        eInputElement.setSelectionRange(caret, caret);
+        eInputElement.focus();
+
+        this.onInput();
+    }
+
+    private hideSuggestions(): void {
+        this.suggestions = null;
+        this.highlightedIndex = -1;
+
+        clearElement(this.eSuggestions);
+
+        if (this.hideSuggestionsPopup) {
+            const hidePopup = this.hideSuggestionsPopup;
+            this.hideSuggestionsPopup = null;
+            hidePopup();
+        }
+
+        const eInputElement = this.eInput.getInputElement();
+        setAriaExpanded(eInputElement, false);
+        setAriaActiveDescendant(eInputElement, null);
+    }
+
+    private showError(error: FilterExpressionError | null): void {
+        addOrRemoveCssClass(this.getGui(), 'ag-filter-expression-invalid', !!error);
+        setDisplayed(this.eError, !!error);
+
+        // the position helps find the problem in long expressions
+        this.eError.textContent = error ? `${error.message} (${error.start + 1})` : '';
+    }
+
+    private getExpression(): string {
+        return this.eInput.getValue() || '';
+    }
+
+    private getSuggestionId(index: number): string {
+        return `ag-filter-expression-${this.getCompId()}-${index}`;
+    }
+}
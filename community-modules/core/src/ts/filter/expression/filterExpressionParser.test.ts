@@ -0,0 +1,65 @@
+import { FilterExpressionParser } from './filterExpressionParser';
+
+describe('parse', () => {
+    it('parses a condition', () => {
+        const { node, error } = FilterExpressionParser.parse('price > 100');
+
+        expect(error).toBeNull();
+        expect(node).toStrictEqual({ type: 'condition', column: 'price', operator: '>', values: ['100'], start: 0, end: 11 });
+    });
+
+    it('gives and a higher precedence than or', () => {
+        const { node } = FilterExpressionParser.parse('a = 1 or b = 2 and c = 3');
+
+        expect(node!.type).toBe('join');
+        expect((node as any).operator).toBe('or');
+        expect((node as any).children[1].operator).toBe('and');
+    });
+
+    it('supports brackets, quoted values, bracketed columns, in and between', () => {
+        const { node, error } = FilterExpressionParser.parse('([Sale Price] between 1 and 5 or name ~ "smi th") and country in ("UK", \'IE\')');
+
+        expect(error).toBeNull();
+
+        const [group, countryCondition] = (node as any).children;
+
+        expect(group.children[0]).toMatchObject({ column: 'Sale Price', operator: 'between', values: ['1', '5'] });
+        expect(group.children[1]).toMatchObject({ column: 'name', operator: '~', values: ['smi th'] });
+        expect(countryCondition).toMatchObject({ column: 'country', operator: 'in', values: ['UK', 'IE'] });
+    });
+
+    it('returns null for an empty expression', () => {
+        expect(FilterExpressionParser.parse('  ')).toStrictEqual({ node: null, error: null });
+    });
+
+    it('returns the position of errors', () => {
+        expect(FilterExpressionParser.parse('price >').error).toStrictEqual({ message: 'Expected a value', start: 7, end: 7 });
+        expect(FilterExpressionParser.parse('price 100').error).toStrictEqual({ message: 'Expected an operator but found 100', start: 6, end: 9 });
+        expect(FilterExpressionParser.parse('name = "smi').error).toStrictEqual({ message: 'Missing closing "', start: 7, end: 11 });
+    });
+});
+
+describe('getCompletionContext', () => {
+    it('expects a column at the start and after a join', () => {
+        expect(FilterExpressionParser.getCompletionContext('pr', 2)).toMatchObject({ expected: 'column', start: 0, prefix: 'pr' });
+        expect(FilterExpressionParser.getCompletionContext('price > 1 and ', 14)).toMatchObject({ expected: 'column', start: 14, prefix: '' });
+    });
+
+    it('expects an operator or a value for the column being typed', () => {
+        expect(FilterExpressionParser.getCompletionContext('country ', 8)).toMatchObject({ expected: 'operator', column: 'country' });
+        expect(FilterExpressionParser.getCompletionContext('country in ("U', 14)).toMatchObject({ expected: 'value', column: 'country', prefix: 'U' });
+    });
+
+    it('expects a join after a condition', () => {
+        expect(FilterExpressionParser.getCompletionContext('price > 1 ', 10)).toMatchObject({ expected: 'join' });
+    });
+});
+
+describe('quoteValue', () => {
+    it('only quotes values that are not bare words', () => {
+        expect(FilterExpressionParser.quoteValue('UK')).toBe('UK');
+        expect(FilterExpressionParser.quoteValue('United Kingdom')).toBe('"United Kingdom"');
+        expect(FilterExpressionParser.quoteValue('and')).toBe('"and"');
+        expect(FilterExpressionParser.quoteValue('say "hi"')).toBe('"say \\"hi\\""');
+    });
+});
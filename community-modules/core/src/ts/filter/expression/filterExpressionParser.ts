@@ -0,0 +1,443 @@
+export type FilterExpressionOperator = '=' | '!=' | '<' | '<=' | '>' | '>=' | '~' | '!~' | '^=' | '$=' | 'in' | 'between';
+
+export interface FilterExpressionConditionNode {
+    type: 'condition';
+    /** Column id or header name, as typed */
+    column: string;
+    operator: FilterExpressionOperator;
+    /** One value, apart from 'in' which has any number and 'between' which has two */
+    values: string[];
+    start: number;
+    end: number;
+}
+
+export interface FilterExpressionJoinNode {
+    type: 'join';
+    operator: 'and' | 'or';
+    children: FilterExpressionNode[];
+    start: number;
+    end: number;
+}
+
+export type FilterExpressionNode = FilterExpressionConditionNode | FilterExpressionJoinNode;
+
+/** Position of the error in the expression, so it can be shown against the text that caused it */
+export interface FilterExpressionError {
+    message: string;
+    start: number;
+    end: number;
+}
+
+export interface FilterExpressionParseResult {
+    node: FilterExpressionNode | null;
+    error: FilterExpressionError | null;
+}
+
+export type FilterExpressionPart = 'column' | 'operator' | 'value' | 'join' | 'none';
+
+/** What could be typed at the caret, used for autocomplete */
+export interface FilterExpressionCompletionContext {
+    expected: FilterExpressionPart;
+    /** The column the condition at the caret is on, when a column is expected to have been typed already */
+    column?: string;
+    /** Text between start and end is replaced when a suggestion is chosen */
+    start: number;
+    end: number;
+    prefix: string;
+}
+
+type TokenType = 'word' | 'string' | 'column' | 'operator' | 'lparen' | 'rparen' | 'comma';
+
+interface Token {
+    type: TokenType;
+    value: string;
+    start: number;
+    end: number;
+    /** False when a quoted string or bracketed column name is missing its closing character */
+    closed: boolean;
+}
+
+const OPERATORS: FilterExpressionOperator[] = ['<=', '>=', '!=', '!~', '^=', '$=', '=', '<', '>', '~'];
+const SPECIAL_CHARS = '()[],"\'=!<>~';
+
+/**
+ * Parses filter expressions such as `price > 100 and country in ("UK", "IE") and name ~ "smi"`.
+ *
+ * Conditions are a column, an operator and a value, joined with `and` / `or` and grouped with brackets.
+ * Values are quoted when they contain spaces, column names are put in square brackets, eg `[Sale Price] >= 10`.
+ */
+export class FilterExpressionParser {
+
+    private readonly expression: string;
+    private readonly tokens: Token[];
+    private pos = 0;
+
+    constructor(expression: string) {
+        this.expression = expression;
+        this.tokens = FilterExpressionParser.tokenise(expression);
+    }
+
+    public static parse(expression: string): FilterExpressionParseResult {
+        try {
+            const parser = new FilterExpressionParser(expression);
+            const node = parser.parseExpression();
+
+            return { node, error: null };
+        } catch (e) {
+            if (e && typeof e.message === 'string' && typeof e.start === 'number') {
+                return { node: null, error: e as FilterExpressionError };
+            }
+
+            throw e;
+        }
+    }
+
+    public static getCompletionContext(expression: string, caret: number): FilterExpressionCompletionContext {
+        const textBeforeCaret = expression.slice(0, caret);
+        const tokens = FilterExpressionParser.tokenise(textBeforeCaret, false);
+        const lastToken = tokens[tokens.length - 1];
+
+        // a word, or a string or column without its closing character, at the caret is still being typed, so it's
+        // what gets replaced by the suggestion
+        const typing = !!lastToken && lastToken.end === caret &&
+            (lastToken.type === 'word' || ((lastToken.type === 'string' || lastToken.type === 'column') && !lastToken.closed));
+        const completeTokens = typing ? tokens.slice(0, tokens.length - 1) : tokens;
+
+        let state = 'column';
+        let column: string | undefined;
+
+        completeTokens.forEach(token => {
+            const keyword = token.type === 'word' ? token.value.toLowerCase() : null;
+            const isValue = token.type === 'word' || token.type === 'string';
+
+            switch (state) {
+                case 'column':
+                    if (token.type !== 'lparen') {
+                        column = token.value;
+                        state = 'operator';
+                    }
+                    break;
+                case 'operator':
+                    if (keyword === 'in') {
+                        state = 'inOpen';
+                    } else if (keyword === 'between') {
+                        state = 'betweenFrom';
+                    } else {
+                        state = 'value';
+                    }
+                    break;
+                case 'inOpen':
+                    state = 'inValue';
+                    break;
+                case 'inValue':
+                    state = isValue ? 'inNext' : state;
+                    break;
+                case 'inNext':
+                    state = token.type === 'comma' ? 'inValue' : 'join';
+                    break;
+                case 'value':
+                    state = 'join';
+                    break;
+                case 'betweenFrom':
+                    state = 'betweenAnd';
+                    break;
+                case 'betweenAnd':
+                    state = 'betweenTo';
+                    break;
+                case 'betweenTo':
+                    state = 'join';
+                    break;
+                case 'join':
+                    if (keyword === 'and' || keyword === 'or') {
+                        state = 'column';
+                        column = undefined;
+                    }
+                    break;
+            }
+        });
+
+        const expectedByState: { [state: string]: FilterExpressionPart; } = {
+            column: 'column',
+            operator: 'operator',
+            value: 'value',
+            inValue: 'value',
+            betweenFrom: 'value',
+            betweenTo: 'value',
+            join: 'join'
+        };
+
+        const start = typing ? lastToken.start : caret;
+
+        return {
+            expected: expectedByState[state] || 'none',
+            column,
+            start,
+            end: caret,
+            prefix: typing ? lastToken.value : ''
+        };
+    }
+
+    /** Quotes a value when it can't be typed as a bare word */
+    public static quoteValue(value: string): string {
+        return FilterExpressionParser.isBareWord(value) ? value : `"${value.replace(/(["\\])/g, '\\$1')}"`;
+    }
+
+    /** Puts a column name in brackets when it can't be typed as a bare word */
+    public static quoteColumn(column: string): string {
+        return FilterExpressionParser.isBareWord(column) ? column : `[${column}]`;
+    }
+
+    private static isBareWord(value: string): boolean {
+        if (value === '' || /\s/.test(value) || value.indexOf('^=') >= 0 || value.indexOf('$=') >= 0) { return false; }
+
+        for (let i = 0; i < value.length; i++) {
+            if (SPECIAL_CHARS.indexOf(value[i]) >= 0) { return false; }
+        }
+
+        return ['and', 'or', 'in', 'between'].indexOf(value.toLowerCase()) < 0;
+    }
+
+    private static tokenise(expression: string, strict = true): Token[] {
+        const tokens: Token[] = [];
+        let i = 0;
+
+        while (i < expression.length) {
+            const char = expression[i];
+
+            if (/\s/.test(char)) {
+                i++;
+                continue;
+            }
+
+            const start = i;
+
+            if (char === '(' || char === ')' || char === ',') {
+                const type: TokenType = char === '(' ? 'lparen' : char === ')' ? 'rparen' : 'comma';
+                tokens.push({ type, value: char, start, end: ++i, closed: true });
+                continue;
+            }
+
+            if (char === '"' || char === '\'' || char === '[') {
+                const closeChar = char === '[' ? ']' : char;
+                let value = '';
+                let closed = false;
+
+                i++;
+
+                while (i < expression.length) {
+                    const next = expression[i++];
+
+                    if (next === closeChar) {
+                        closed = true;
+                        break;
+                    }
+
+                    // quotes inside strings are escaped with a backslash
+                    if (next === '\\' && closeChar !== ']' && i < expression.length) {
+                        value += expression[i++];
+                    } else {
+                        value += next;
+                    }
+                }
+
+                if (!closed && strict) {
+                    throw FilterExpressionParser.createError(`Missing closing ${closeChar}`, start, i);
+                }
+
+                tokens.push({ type: char === '[' ? 'column' : 'string', value, start, end: i, closed });
+                continue;
+            }
+
+            const operator = OPERATORS.filter(op => expression.substr(i, op.length) === op)[0];
+
+            if (operator) {
+                i += operator.length;
+                tokens.push({ type: 'operator', value: operator, start, end: i, closed: true });
+                continue;
+            }
+
+            while (i < expression.length && !/\s/.test(expression[i]) && SPECIAL_CHARS.indexOf(expression[i]) < 0 &&
+                !(expression.substr(i, 2) === '^=' || expression.substr(i, 2) === '$=')) {
+                i++;
+            }
+
+            if (i === start) {
+                // a lone ! or similar, which isn't part of any operator
+                if (strict) {
+                    throw FilterExpressionParser.createError(`Unexpected ${char}`, start, start + 1);
+                }
+
+                i++;
+                continue;
+            }
+
+            tokens.push({ type: 'word', value: expression.slice(start, i), start, end: i, closed: true });
+        }
+
+        return tokens;
+    }
+
+    private static createError(message: string, start: number, end: number): FilterExpressionError {
+        return { message, start, end };
+    }
+
+    private parseExpression(): FilterExpressionNode | null {
+        if (this.tokens.length === 0) { return null; }
+
+        const node = this.parseOr();
+        const token = this.peek();
+
+        if (token) {
+            throw this.unexpected(token, 'and, or');
+        }
+
+        return node;
+    }
+
+    private parseOr(): FilterExpressionNode {
+        return this.parseJoin('or', () => this.parseAnd());
+    }
+
+    private parseAnd(): FilterExpressionNode {
+        return this.parseJoin('and', () => this.parsePrimary());
+    }
+
+    private parseJoin(operator: 'and' | 'or', parseChild: () => FilterExpressionNode): FilterExpressionNode {
+        const children = [parseChild()];
+
+        while (this.isKeyword(this.peek(), operator)) {
+            this.pos++;
+            children.push(parseChild());
+        }
+
+        if (children.length === 1) { return children[0]; }
+
+        return {
+            type: 'join',
+            operator,
+            children,
+            start: children[0].start,
+            end: children[children.length - 1].end
+        };
+    }
+
+    private parsePrimary(): FilterExpressionNode {
+        const token = this.next('a column');
+
+        if (token.type === 'lparen') {
+            const node = this.parseOr();
+            const closeToken = this.next(')');
+
+            if (closeToken.type !== 'rparen') {
+                throw this.unexpected(closeToken, ')');
+            }
+
+            // the brackets are included, so errors about the group cover all of it
+            return { ...node, start: token.start, end: closeToken.end };
+        }
+
+        if (token.type !== 'word' && token.type !== 'column' && token.type !== 'string') {
+            throw this.unexpected(token, 'a column');
+        }
+
+        return this.parseCondition(token);
+    }
+
+    private parseCondition(columnToken: Token): FilterExpressionConditionNode {
+        const operatorToken = this.next('an operator');
+        const keyword = operatorToken.type === 'word' ? operatorToken.value.toLowerCase() : null;
+
+        let operator: FilterExpressionOperator;
+        let values: string[];
+
+        if (keyword === 'in') {
+            operator = 'in';
+            values = this.parseValueList();
+        } else if (keyword === 'between') {
+            operator = 'between';
+
+            const from = this.parseValue();
+
+            if (!this.isKeyword(this.peek(), 'and')) {
+                throw this.unexpected(this.peek(), 'and');
+            }
+
+            this.pos++;
+            values = [from, this.parseValue()];
+        } else if (operatorToken.type === 'operator') {
+            operator = operatorToken.value as FilterExpressionOperator;
+            values = [this.parseValue()];
+        } else {
+            throw this.unexpected(operatorToken, 'an operator');
+        }
+
+        return {
+            type: 'condition',
+            column: columnToken.value,
+            operator,
+            values,
+            start: columnToken.start,
+            end: this.tokens[this.pos - 1].end
+        };
+    }
+
+    private parseValueList(): string[] {
+        const openToken = this.next('(');
+
+        if (openToken.type !== 'lparen') {
+            throw this.unexpected(openToken, '(');
+        }
+
+        const values = [this.parseValue()];
+
+        while (true) {
+            const token = this.next(', or )');
+
+            if (token.type === 'rparen') { return values; }
+
+            if (token.type !== 'comma') {
+                throw this.unexpected(token, ', or )');
+            }
+
+            values.push(this.parseValue());
+        }
+    }
+
+    private parseValue(): string {
+        const token = this.next('a value');
+
+        if (token.type !== 'word' && token.type !== 'string') {
+            throw this.unexpected(token, 'a value');
+        }
+
+        return token.value;
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.pos];
+    }
+
+    private next(expected: string): Token {
+        const token = this.tokens[this.pos++];
+
+        if (!token) {
+            const end = this.expression.length;
+            throw FilterExpressionParser.createError(`Expected ${expected}`, end, end);
+        }
+
+        return token;
+    }
+
+    private isKeyword(token: Token | undefined, keyword: string): boolean {
+        return !!token && token.type === 'word' && token.value.toLowerCase() === keyword;
+    }
+
+    private unexpected(token: Token | undefined, expected: string): FilterExpressionError {
+        if (!token) {
+            const end = this.expression.length;
+            return FilterExpressionParser.createError(`Expected ${expected}`, end, end);
+        }
+
+        return FilterExpressionParser.createError(`Expected ${expected} but found ${token.value}`, token.start, token.end);
+    }
+}
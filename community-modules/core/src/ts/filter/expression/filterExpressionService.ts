@@ -0,0 +1,475 @@
+import { Autowired, Bean, PostConstruct } from "../../context/context";
+import { BeanStub } from "../../context/beanStub";
+import { ColumnModel } from "../../columns/columnModel";
+import { Column } from "../../entities/column";
+import { FilterManager } from "../filterManager";
+import { Events } from "../../eventKeys";
+import { ModuleRegistry } from "../../modules/moduleRegistry";
+import { ModuleNames } from "../../modules/moduleNames";
+import {
+    FilterExpressionConditionNode,
+    FilterExpressionError,
+    FilterExpressionNode,
+    FilterExpressionOperator,
+    FilterExpressionParser
+} from "./filterExpressionParser";
+import { parseDateTimeFromString, serialiseDate } from "../../utils/date";
+import { iterateObject } from "../../utils/object";
+import { jsonEquals } from "../../utils/generic";
+import { SimpleFilter } from "../provided/simpleFilter";
+import { IFilterComp } from "../../interfaces/iFilter";
+
+type ExpressionFilterType = 'text' | 'number' | 'date' | 'set';
+
+export interface FilterExpressionResult {
+    /** The column filter model the expression compiles to, as passed to api.setFilterModel() */
+    filterModel: { [colId: string]: any; } | null;
+    error: FilterExpressionError | null;
+}
+
+export interface FilterExpressionSuggestions {
+    /** Text between start and end is replaced by the chosen suggestion */
+    start: number;
+    end: number;
+    suggestions: string[];
+}
+
+// the set filter is in an enterprise module, so is only known here by the method that returns its values
+interface SetFilterValues {
+    getValues(): (string | null)[];
+}
+
+// the conditions of one column that are joined together, which become that column's filter model
+interface ColumnConditions {
+    column: Column;
+    operator: 'AND' | 'OR';
+    nodes: FilterExpressionConditionNode[];
+}
+
+const SIMPLE_FILTER_TYPES: { [operator: string]: string; } = {
+    '=': 'equals',
+    '!=': 'notEqual',
+    '~': 'contains',
+    '!~': 'notContains',
+    '^=': 'startsWith',
+    '$=': 'endsWith',
+    '<': 'lessThan',
+    '<=': 'lessThanOrEqual',
+    '>': 'greaterThan',
+    '>=': 'greaterThanOrEqual',
+    'between': 'inRange'
+};
+
+const OPERATORS_BY_FILTER_TYPE: { [filterType: string]: FilterExpressionOperator[]; } = {
+    text: ['=', '!=', '~', '!~', '^=', '$=', 'in'],
+    number: ['=', '!=', '<', '<=', '>', '>=', 'between', 'in'],
+    date: ['=', '!=', '<', '<=', '>', '>=', 'between', 'in'],
+    set: ['=', 'in']
+};
+
+/**
+ * Compiles filter expressions, eg `price > 100 and country in ("UK", "IE")`, into the column filter model, so
+ * the expression and the column filters always agree. Each column is still filtered by its own filter, so
+ * conditions on different columns can only be joined with `and`.
+ */
+@Bean('filterExpressionService')
+export class FilterExpressionService extends BeanStub {
+
+    private static MAX_VALUE_SUGGESTIONS = 50;
+
+    @Autowired('columnModel') private columnModel: ColumnModel;
+    @Autowired('filterManager') private filterManager: FilterManager;
+
+    // the last expression applied, so it can be shown as typed for as long as the filters still match it. the filter
+    // model is taken from the filters once they are set, as filters can change the model they are given (eg the order)
+    private expression: string | null = null;
+    private expressionFilterModel: { [colId: string]: any; } | null = null;
+    private pendingExpression: string | null = null;
+
+    @PostConstruct
+    private postConstruct(): void {
+        this.addManagedListener(this.eventService, Events.EVENT_FILTER_CHANGED, this.onFilterChanged.bind(this));
+    }
+
+    private onFilterChanged(): void {
+        if (this.pendingExpression == null) { return; }
+
+        this.expression = this.pendingExpression;
+        this.expressionFilterModel = this.filterManager.getFilterModel();
+        this.pendingExpression = null;
+    }
+
+    public compile(expression: string): FilterExpressionResult {
+        const { node, error } = FilterExpressionParser.parse(expression);
+
+        if (error) { return { filterModel: null, error }; }
+
+        if (!node) { return { filterModel: {}, error: null }; }
+
+        try {
+            return { filterModel: this.createFilterModel(node), error: null };
+        } catch (e) {
+            if (e && typeof e.message === 'string' && typeof e.start === 'number') {
+                return { filterModel: null, error: e as FilterExpressionError };
+            }
+
+            throw e;
+        }
+    }
+
+    /** Replaces the column filters with the filters from the expression, returns the error if it can't be compiled */
+    public setExpression(expression: string): FilterExpressionError | null {
+        const { filterModel, error } = this.compile(expression);
+
+        if (error) { return error; }
+
+        this.pendingExpression = expression;
+        this.filterManager.setFilterModel(filterModel!);
+
+        return null;
+    }
+
+    /**
+     * Returns the expression for the current column filters. Filters that can't be written as an expression, eg
+     * custom filters or filter options without an operator, are left out.
+     */
+    public getExpression(): string {
+        const filterModel = this.filterManager.getFilterModel();
+
+        if (this.expression != null && jsonEquals(filterModel, this.expressionFilterModel)) {
+            return this.expression;
+        }
+
+        const parts: string[] = [];
+
+        iterateObject(filterModel, (colId: string, model: any) => {
+            const part = this.createExpressionForModel(FilterExpressionParser.quoteColumn(colId), model);
+
+            if (part) {
+                parts.push(part);
+            }
+        });
+
+        return parts.join(' and ');
+    }
+
+    public getSuggestions(expression: string, caret: number): FilterExpressionSuggestions {
+        const context = FilterExpressionParser.getCompletionContext(expression, caret);
+        const prefix = context.prefix.toLowerCase();
+        const column = context.column != null ? this.findColumn(context.column) : null;
+        const filterType = column ? this.getFilterType(column) : null;
+
+        let suggestions: string[] = [];
+
+        switch (context.expected) {
+            case 'column':
+                suggestions = this.getFilterableColumns().map(col => FilterExpressionParser.quoteColumn(this.getColumnName(col)));
+                break;
+            case 'operator':
+                suggestions = filterType ? OPERATORS_BY_FILTER_TYPE[filterType] : [];
+                break;
+            case 'value':
+                suggestions = column && filterType === 'set' ? this.getSetFilterValues(column).map(FilterExpressionParser.quoteValue) : [];
+                break;
+            case 'join':
+                suggestions = ['and', 'or'];
+                break;
+        }
+
+        // what has been typed doesn't include the opening quote or bracket
+        const matches = suggestions.filter(suggestion => suggestion.replace(/^["\[]/, '').toLowerCase().indexOf(prefix) === 0);
+
+        return {
+            start: context.start,
+            end: context.end,
+            suggestions: context.expected === 'value' ? matches.slice(0, FilterExpressionService.MAX_VALUE_SUGGESTIONS) : matches
+        };
+    }
+
+    private createFilterModel(node: FilterExpressionNode): { [colId: string]: any; } {
+        const allColumnConditions: ColumnConditions[] = [];
+
+        this.getAndNodes(node).forEach(andNode => {
+            const columnConditions = this.getColumnConditions(andNode);
+            const existing = allColumnConditions.filter(item => item.column === columnConditions.column)[0];
+
+            if (!existing) {
+                allColumnConditions.push(columnConditions);
+                return;
+            }
+
+            if (existing.operator === 'OR' || columnConditions.operator === 'OR') {
+                throw this.createError(`Conditions on ${existing.column.getColId()} must all be joined with and, or all with or`, andNode);
+            }
+
+            existing.nodes.push(...columnConditions.nodes);
+        });
+
+        const model: { [colId: string]: any; } = {};
+
+        allColumnConditions.forEach(columnConditions => {
+            model[columnConditions.column.getColId()] = this.createColumnFilterModel(columnConditions);
+        });
+
+        return model;
+    }
+
+    // the top level conditions joined with and, as each column filter is joined with and
+    private getAndNodes(node: FilterExpressionNode): FilterExpressionNode[] {
+        if (node.type === 'join' && node.operator === 'and') {
+            const res: FilterExpressionNode[] = [];
+            node.children.forEach(child => res.push(...this.getAndNodes(child)));
+            return res;
+        }
+
+        return [node];
+    }
+
+    private getColumnConditions(node: FilterExpressionNode): ColumnConditions {
+        const nodes = this.getOrConditionNodes(node);
+        const columns = nodes.map(conditionNode => this.getColumnForNode(conditionNode));
+        const column = columns[0];
+
+        if (columns.some(col => col !== column)) {
+            throw this.createError('Conditions on different columns can only be joined with and', node);
+        }
+
+        // `country in (UK, IE)` is the same as `country = UK or country = IE`, apart from set filters which take a list
+        const isOr = nodes.length > 1 || (nodes[0].operator === 'in' && nodes[0].values.length > 1);
+
+        return { column, operator: isOr ? 'OR' : 'AND', nodes };
+    }
+
+    private getOrConditionNodes(node: FilterExpressionNode): FilterExpressionConditionNode[] {
+        if (node.type === 'condition') { return [node]; }
+
+        if (node.operator === 'and') {
+            throw this.createError('Conditions joined with and can not be inside conditions joined with or', node);
+        }
+
+        const res: FilterExpressionConditionNode[] = [];
+        node.children.forEach(child => res.push(...this.getOrConditionNodes(child)));
+
+        return res;
+    }
+
+    private createColumnFilterModel(columnConditions: ColumnConditions): any {
+        const { column, operator, nodes } = columnConditions;
+        const filterType = this.getFilterType(column)!;
+
+        if (filterType === 'set') {
+            return this.createSetFilterModel(column, operator, nodes);
+        }
+
+        const conditions: any[] = [];
+
+        nodes.forEach(node => {
+            if (node.operator !== 'in') {
+                conditions.push(this.createSimpleFilterCondition(filterType, node.operator, node.values, node));
+                return;
+            }
+
+            node.values.forEach(value => conditions.push(this.createSimpleFilterCondition(filterType, '=', [value], node)));
+        });
+
+        const maxNumConditions = SimpleFilter.getMaxNumConditions(column.getColDef().filterParams || {});
+
+        if (conditions.length > maxNumConditions) {
+            const message = `${column.getColId()} can have at most ${maxNumConditions} conditions`;
+            throw this.createError(message, nodes[0], nodes[nodes.length - 1]);
+        }
+
+        if (conditions.length === 1) { return conditions[0]; }
+
+        return { filterType, operator, conditions };
+    }
+
+    private createSetFilterModel(column: Column, operator: 'AND' | 'OR', nodes: FilterExpressionConditionNode[]): any {
+        if (operator === 'AND' && nodes.length > 1) {
+            throw this.createError(`${column.getColId()} has a set filter, so can only have one condition`, nodes[1]);
+        }
+
+        const values: string[] = [];
+
+        nodes.forEach(node => {
+            if (node.operator !== '=' && node.operator !== 'in') {
+                throw this.createError(`${column.getColId()} has a set filter, so only = and in can be used`, node);
+            }
+
+            values.push(...node.values);
+        });
+
+        return { filterType: 'set', values };
+    }
+
+    private createSimpleFilterCondition(
+        filterType: ExpressionFilterType,
+        operator: FilterExpressionOperator,
+        values: string[],
+        node: FilterExpressionConditionNode
+    ): any {
+        const type = SIMPLE_FILTER_TYPES[operator];
+
+        if (OPERATORS_BY_FILTER_TYPE[filterType].indexOf(operator) < 0) {
+            throw this.createError(`${operator} can not be used with a ${filterType} filter`, node);
+        }
+
+        if (filterType === 'text') {
+            return { filterType, type, filter: values[0] };
+        }
+
+        if (filterType === 'number') {
+            const [filter, filterTo] = values.map(value => this.parseNumber(value, node));
+            return { filterType, type, filter, filterTo: filterTo == null ? null : filterTo };
+        }
+
+        const [dateFrom, dateTo] = values.map(value => this.parseDate(value, node));
+        return { filterType, type, dateFrom, dateTo: dateTo == null ? null : dateTo };
+    }
+
+    private parseNumber(value: string, node: FilterExpressionConditionNode): number {
+        const res = Number(value);
+
+        if (value.trim() === '' || isNaN(res)) {
+            throw this.createError(`${value} is not a number`, node);
+        }
+
+        return res;
+    }
+
+    private parseDate(value: string, node: FilterExpressionConditionNode): string {
+        const date = parseDateTimeFromString(value);
+
+        if (!date) {
+            throw this.createError(`${value} is not a date, dates are written as yyyy-mm-dd`, node);
+        }
+
+        return serialiseDate(date)!;
+    }
+
+    private getColumnForNode(node: FilterExpressionConditionNode): Column {
+        const column = this.findColumn(node.column);
+
+        if (!column) {
+            throw this.createError(`No column called ${node.column}`, node);
+        }
+
+        if (!this.getFilterType(column)) {
+            throw this.createError(`${node.column} does not have a text, number, date or set filter`, node);
+        }
+
+        return column;
+    }
+
+    private createExpressionForModel(column: string, model: any): string | null {
+        if (!model) { return null; }
+
+        if (model.filterType === 'set') {
+            const values: string[] = (model.values || []).filter((value: string | null) => value != null);
+
+            if (!values.length) { return null; }
+
+            return values.length === 1
+                ? `${column} = ${FilterExpressionParser.quoteValue(values[0])}`
+                : `${column} in (${values.map(FilterExpressionParser.quoteValue).join(', ')})`;
+        }
+
+        if (model.operator) {
+            const conditions = SimpleFilter.getCombinedModelConditions(model)
+                .map(condition => this.createExpressionForCondition(column, condition))
+                .filter(condition => condition != null);
+
+            if (conditions.length < 2) { return conditions[0] || null; }
+
+            return model.operator === 'OR' ? `(${conditions.join(' or ')})` : conditions.join(' and ');
+        }
+
+        return this.createExpressionForCondition(column, model);
+    }
+
+    private createExpressionForCondition(column: string, condition: any): string | null {
+        const operators = Object.keys(SIMPLE_FILTER_TYPES).filter(key => SIMPLE_FILTER_TYPES[key] === condition.type);
+        const operator = operators[0];
+
+        if (!operator) { return null; }
+
+        const isDate = condition.filterType === 'date';
+        const toText = (value: any) => {
+            // dates are only written down to the day, which is all the date filter compares
+            const text = isDate ? (value || '').split(' ')[0] : String(value);
+            return FilterExpressionParser.quoteValue(text);
+        };
+
+        const from = isDate ? condition.dateFrom : condition.filter;
+        const to = isDate ? condition.dateTo : condition.filterTo;
+
+        if (from == null) { return null; }
+
+        if (operator === 'between') {
+            return `${column} between ${toText(from)} and ${toText(to)}`;
+        }
+
+        return `${column} ${operator} ${toText(from)}`;
+    }
+
+    private findColumn(name: string): Column | null {
+        const column = this.columnModel.getPrimaryColumn(name);
+
+        if (column) { return column; }
+
+        const lowerCaseName = name.toLowerCase();
+        const matches = this.getFilterableColumns().filter(col =>
+            col.getColId().toLowerCase() === lowerCaseName || this.getColumnName(col).toLowerCase() === lowerCaseName
+        );
+
+        return matches[0] || null;
+    }
+
+    private getColumnName(column: Column): string {
+        return this.columnModel.getDisplayNameForColumn(column, 'filterToolPanel') || column.getColId();
+    }
+
+    private getFilterableColumns(): Column[] {
+        return (this.columnModel.getAllPrimaryColumns() || []).filter(column => this.getFilterType(column) != null);
+    }
+
+    private getFilterType(column: Column): ExpressionFilterType | null {
+        if (!column.isFilterAllowed()) { return null; }
+
+        const colDef = column.getColDef();
+
+        if (colDef.filterFramework) { return null; }
+
+        switch (colDef.filter) {
+            case true:
+                return ModuleRegistry.isRegistered(ModuleNames.SetFilterModule) ? 'set' : 'text';
+            case 'agTextColumnFilter':
+                return 'text';
+            case 'agNumberColumnFilter':
+                return 'number';
+            case 'agDateColumnFilter':
+                return 'date';
+            case 'agSetColumnFilter':
+                return 'set';
+            default:
+                return null;
+        }
+    }
+
+    private getSetFilterValues(column: Column): string[] {
+        const filterPromise = this.filterManager.getFilterComponent(column, 'NO_UI');
+        const filter = filterPromise && filterPromise.resolveNow<IFilterComp | null>(null, filterComp => filterComp);
+
+        if (!this.isSetFilter(filter)) { return []; }
+
+        return filter.getValues().filter(value => value != null) as string[];
+    }
+
+    private isSetFilter(filter: IFilterComp | null): filter is IFilterComp & SetFilterValues {
+        return !!filter && typeof (filter as IFilterComp & Partial<SetFilterValues>).getValues === 'function';
+    }
+
+    private createError(message: string, node: FilterExpressionNode, endNode: FilterExpressionNode = node): FilterExpressionError {
+        return { message, start: node.start, end: endNode.end };
+    }
+}
@@ -20,7 +20,14 @@ export interface IFilterLocaleText {
     endsWith: string;
     andCondition: string;
     orCondition: string;
+    removeCondition: string;
     dateFormatOoo: string;
+    blank: string;
+    notBlank: string;
+    advancedFilterBuilder: string;
+    advancedFilterAddCondition: string;
+    advancedFilterAddGroup: string;
+    advancedFilterRemove: string;
 }
 
 export interface IFilterTitleLocaleText {
@@ -56,5 +63,12 @@ export const DEFAULT_FILTER_LOCALE_TEXT: IFilterLocaleText & IFilterTitleLocaleT
     endsWith: 'Ends with',
     andCondition: 'AND',
     orCondition: 'OR',
+    removeCondition: 'Remove Condition',
     dateFormatOoo: 'yyyy-mm-dd',
+    blank: 'Blank',
+    notBlank: 'Not blank',
+    advancedFilterBuilder: 'Advanced Filter',
+    advancedFilterAddCondition: 'Add Condition',
+    advancedFilterAddGroup: 'Add Group',
+    advancedFilterRemove: 'Remove',
 };
\ No newline at end of file
@@ -19,6 +19,7 @@ import { convertToSet } from '../utils/set';
 import { exists } from '../utils/generic';
 import { mergeDeep, cloneObject } from '../utils/object';
 import { loadTemplate } from '../utils/dom';
+import { AdvancedFilterService } from './advanced/advancedFilterService';
 
 export type FilterRequestSource = 'COLUMN_MENU' | 'TOOLBAR' | 'NO_UI';
 
@@ -33,6 +34,7 @@ export class FilterManager extends BeanStub {
     @Autowired('columnApi') private columnApi: ColumnApi;
     @Autowired('gridApi') private gridApi: GridApi;
     @Autowired('userComponentFactory') private userComponentFactory: UserComponentFactory;
+    @Autowired('advancedFilterService') private advancedFilterService: AdvancedFilterService;
 
     public static QUICK_FILTER_SEPARATOR = '\n';
 
@@ -64,7 +66,8 @@ export class FilterManager extends BeanStub {
         this.quickFilterParts = this.quickFilter ? this.quickFilter.split(' ') : null;
     }
 
-    public setFilterModel(model: { [key: string]: any; }): void {
+    // the promise resolves once the model is set on every filter and the filter changed event has fired
+    public setFilterModel(model: { [key: string]: any; }): AgPromise<void> {
         const allPromises: AgPromise<void>[] = [];
 
         if (model) {
@@ -97,7 +100,7 @@ export class FilterManager extends BeanStub {
             });
         }
 
-        AgPromise.all(allPromises).then(() => this.onFilterChanged());
+        return AgPromise.all(allPromises).then(() => this.onFilterChanged());
     }
 
     private setModelOnFilterWrapper(filterPromise: AgPromise<IFilterComp>, newModel: any): AgPromise<void> {
@@ -157,6 +160,28 @@ export class FilterManager extends BeanStub {
         });
     }
 
+    /** The active column filters with their columns, for filtering values that aren't read from row nodes */
+    public getActiveColumnFilters(): { column: Column, filter: IFilterComp; }[] {
+        const result: { column: Column, filter: IFilterComp; }[] = [];
+
+        this.allAdvancedFilters.forEach(filterWrapper => {
+            const filter = filterWrapper.filterPromise!.resolveNow(null, f => f);
+
+            if (filter && this.activeAdvancedFilters.indexOf(filter) >= 0) {
+                result.push({ column: filterWrapper.column, filter });
+            }
+        });
+
+        return result;
+    }
+
+    // the quick, external and advanced filter builder filters, which only filter row nodes
+    public isAnyNonColumnFilterPresent(): boolean {
+        return this.isQuickFilterPresent() ||
+            this.advancedFilterService.isFilterPresent() ||
+            this.gridOptionsWrapper.isExternalFilterPresent();
+    }
+
     private updateFilterFlagInColumns(source: ColumnEventType, additionalEventAttributes?: any): void {
         this.allAdvancedFilters.forEach(filterWrapper => {
             const isFilterActive = filterWrapper.filterPromise!.resolveNow(false, filter => filter!.isFilterActive());
@@ -166,7 +191,10 @@ export class FilterManager extends BeanStub {
     }
 
     public isAnyFilterPresent(): boolean {
-        return this.isQuickFilterPresent() || this.isAdvancedFilterPresent() || this.gridOptionsWrapper.isExternalFilterPresent();
+        return this.isQuickFilterPresent() ||
+            this.isAdvancedFilterPresent() ||
+            this.advancedFilterService.isFilterPresent() ||
+            this.gridOptionsWrapper.isExternalFilterPresent();
     }
 
     private doAdvancedFiltersPass(node: RowNode, filterToSkip?: IFilterComp): boolean {
@@ -303,11 +331,16 @@ export class FilterManager extends BeanStub {
             return false;
         }
 
-        // lastly, check our internal advanced filter
+        // then check the column filters
         if (this.isAdvancedFilterPresent() && !this.doAdvancedFiltersPass(params.rowNode, params.filterInstanceToSkip)) {
             return false;
         }
 
+        // lastly, check the filter from the advanced filter builder, which spans columns
+        if (this.advancedFilterService.isFilterPresent() && !this.advancedFilterService.doesFilterPass(params.rowNode)) {
+            return false;
+        }
+
         // got this far, all filters pass
         return true;
     }
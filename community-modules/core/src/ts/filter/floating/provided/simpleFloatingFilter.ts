@@ -41,23 +41,25 @@ export abstract class SimpleFloatingFilter extends Component implements IFloatin
 
         if (isCombined) {
             const combinedModel = model as ICombinedSimpleModel<ISimpleFilterModel>;
+            const conditions = SimpleFilter.getCombinedModelConditions(combinedModel);
 
-            const con1Str = this.conditionToString(combinedModel.condition1);
-            const con2Str = this.conditionToString(combinedModel.condition2);
+            return conditions.map(condition => this.getTextFromCondition(condition)).join(` ${combinedModel.operator} `);
+        }
 
-            return `${con1Str} ${combinedModel.operator} ${con2Str}`;
-        } else {
-            const condition = model as ISimpleFilterModel;
-            const customOption = this.optionsFactory.getCustomOption(condition.type);
-
-            // For custom filter options we display the Name of the filter instead
-            // of displaying the `from` value, as it wouldn't be relevant
-            if (customOption && customOption.hideFilterInput) {
-                this.gridOptionsWrapper.getLocaleTextFunc()(customOption.displayKey, customOption.displayName);
-                return customOption.displayName;
-            }
-            return this.conditionToString(condition);
+        return this.getTextFromCondition(model as ISimpleFilterModel);
+    }
+
+    private getTextFromCondition(condition: ISimpleFilterModel): string {
+        const customOption = this.optionsFactory.getCustomOption(condition.type);
+
+        // For custom filter options we display the Name of the filter instead
+        // of displaying the `from` value, as it wouldn't be relevant
+        if (customOption && customOption.hideFilterInput) {
+            this.gridOptionsWrapper.getLocaleTextFunc()(customOption.displayKey, customOption.displayName);
+            return customOption.displayName;
         }
+
+        return this.conditionToString(condition);
     }
 
     protected isEventFromFloatingFilter(event: FilterChangedEvent): boolean | undefined {
@@ -81,7 +83,7 @@ export abstract class SimpleFloatingFilter extends Component implements IFloatin
 
         if (isCombined) {
             const combinedModel = model as ICombinedSimpleModel<ISimpleFilterModel>;
-            condition = combinedModel.condition1;
+            condition = SimpleFilter.getCombinedModelConditions(combinedModel)[0];
         } else {
             condition = model as ISimpleFilterModel;
         }
@@ -96,7 +98,7 @@ export abstract class SimpleFloatingFilter extends Component implements IFloatin
             return this.isTypeEditable(this.lastType);
         }
 
-        // never allow editing if the filter is combined (ie has two parts)
+        // never allow editing if the filter is combined (ie has more than one condition)
         const isCombined = (model as any).operator;
 
         if (isCombined) {
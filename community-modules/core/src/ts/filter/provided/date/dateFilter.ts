@@ -1,11 +1,10 @@
-import { RefSelector } from '../../../widgets/componentAnnotations';
 import { Autowired } from '../../../context/context';
 import { UserComponentFactory } from '../../../components/framework/userComponentFactory';
 import { DateCompWrapper } from './dateCompWrapper';
-import { ConditionPosition, ISimpleFilterModel, SimpleFilter } from '../simpleFilter';
+import { ISimpleFilterModel, SimpleFilter } from '../simpleFilter';
 import { Comparator, IScalarFilterParams, ScalarFilter } from '../scalarFilter';
 import { serialiseDate, parseDateTimeFromString } from '../../../utils/date';
-import { setDisplayed } from '../../../utils/dom';
+import { setDisplayed, loadTemplate } from '../../../utils/dom';
 import { AgPromise } from '../../../utils';
 import { IAfterGuiAttachedParams } from '../../../interfaces/iAfterGuiAttachedParams';
 
@@ -35,15 +34,11 @@ export class DateFilter extends ScalarFilter<DateFilterModel, Date> {
         ScalarFilter.IN_RANGE
     ];
 
-    @RefSelector('eCondition1PanelFrom') private readonly eCondition1PanelFrom: HTMLElement;
-    @RefSelector('eCondition1PanelTo') private readonly eCondition1PanelTo: HTMLElement;
-    @RefSelector('eCondition2PanelFrom') private readonly eCondition2PanelFrom: HTMLElement;
-    @RefSelector('eCondition2PanelTo') private readonly eCondition2PanelTo: HTMLElement;
+    private readonly eConditionPanelsFrom: HTMLElement[] = [];
+    private readonly eConditionPanelsTo: HTMLElement[] = [];
 
-    private dateCondition1FromComp: DateCompWrapper;
-    private dateCondition1ToComp: DateCompWrapper;
-    private dateCondition2FromComp: DateCompWrapper;
-    private dateCondition2ToComp: DateCompWrapper;
+    private readonly dateConditionFromComps: DateCompWrapper[] = [];
+    private readonly dateConditionToComps: DateCompWrapper[] = [];
 
     @Autowired('userComponentFactory') private readonly userComponentFactory: UserComponentFactory;
 
@@ -56,7 +51,7 @@ export class DateFilter extends ScalarFilter<DateFilterModel, Date> {
     public afterGuiAttached(params?: IAfterGuiAttachedParams): void {
         super.afterGuiAttached(params);
 
-        this.dateCondition1FromComp.afterGuiAttached(params);
+        this.dateConditionFromComps[0].afterGuiAttached(params);
     }
 
     protected mapRangeFromModel(filterModel: DateFilterModel): { from: Date | null; to: Date | null; } {
@@ -75,13 +70,11 @@ export class DateFilter extends ScalarFilter<DateFilterModel, Date> {
     }
 
     protected setValueFromFloatingFilter(value: string): void {
-        this.dateCondition1FromComp.setDate(value == null ? null : parseDateTimeFromString(value));
-        this.dateCondition1ToComp.setDate(null);
-        this.dateCondition2FromComp.setDate(null);
-        this.dateCondition2ToComp.setDate(null);
+        this.dateConditionFromComps[0].setDate(value == null ? null : parseDateTimeFromString(value));
+        this.dateConditionToComps[0].setDate(null);
     }
 
-    protected setConditionIntoUi(model: DateFilterModel, position: ConditionPosition): void {
+    protected setConditionIntoUi(model: DateFilterModel, position: number): void {
         const [dateFrom, dateTo] = model ?
             [parseDateTimeFromString(model.dateFrom), parseDateTimeFromString(model.dateTo)] :
             [null, null];
@@ -94,10 +87,8 @@ export class DateFilter extends ScalarFilter<DateFilterModel, Date> {
 
     protected resetUiToDefaults(silent?: boolean): AgPromise<void> {
         return super.resetUiToDefaults(silent).then(() => {
-            this.dateCondition1FromComp.setDate(null);
-            this.dateCondition1ToComp.setDate(null);
-            this.dateCondition2FromComp.setDate(null);
-            this.dateCondition2ToComp.setDate(null);
+            this.dateConditionFromComps.forEach(dateComp => dateComp.setDate(null));
+            this.dateConditionToComps.forEach(dateComp => dateComp.setDate(null));
         });
     }
 
@@ -116,54 +107,52 @@ export class DateFilter extends ScalarFilter<DateFilterModel, Date> {
     }
 
     protected setParams(params: IDateFilterParams): void {
-        super.setParams(params);
-
         this.dateFilterParams = params;
 
-        this.createDateComponents();
-    }
-
-    private createDateComponents(): void {
-        const createDateCompWrapper = (element: HTMLElement) =>
-            new DateCompWrapper(
-                this.getContext(),
-                this.userComponentFactory,
-                {
-                    onDateChanged: () => this.onUiChanged(),
-                    filterParams: this.dateFilterParams
-                },
-                element);
-
-        this.dateCondition1FromComp = createDateCompWrapper(this.eCondition1PanelFrom);
-        this.dateCondition1ToComp = createDateCompWrapper(this.eCondition1PanelTo);
-        this.dateCondition2FromComp = createDateCompWrapper(this.eCondition2PanelFrom);
-        this.dateCondition2ToComp = createDateCompWrapper(this.eCondition2PanelTo);
-
-        this.addDestroyFunc(() => {
-            this.dateCondition1FromComp.destroy();
-            this.dateCondition1ToComp.destroy();
-            this.dateCondition2FromComp.destroy();
-            this.dateCondition2ToComp.destroy();
-        });
+        super.setParams(params);
+    }
+
+    private createDateCompWrapper(element: HTMLElement): DateCompWrapper {
+        return new DateCompWrapper(
+            this.getContext(),
+            this.userComponentFactory,
+            {
+                onDateChanged: () => this.onUiChanged(),
+                filterParams: this.dateFilterParams
+            },
+            element);
     }
 
     protected getDefaultFilterOptions(): string[] {
         return DateFilter.DEFAULT_FILTER_OPTIONS;
     }
 
-    protected createValueTemplate(position: ConditionPosition): string {
-        const pos = position === ConditionPosition.One ? '1' : '2';
+    protected createValueElement(): HTMLElement {
+        const eBody = loadTemplate(/* html */`
+            <div class="ag-filter-body">
+                <div class="ag-filter-from ag-filter-date-from"></div>
+                <div class="ag-filter-to ag-filter-date-to"></div>
+            </div>`);
+        const ePanelFrom = eBody.querySelector('.ag-filter-from') as HTMLElement;
+        const ePanelTo = eBody.querySelector('.ag-filter-to') as HTMLElement;
+
+        this.eConditionPanelsFrom.push(ePanelFrom);
+        this.eConditionPanelsTo.push(ePanelTo);
+        this.dateConditionFromComps.push(this.createDateCompWrapper(ePanelFrom));
+        this.dateConditionToComps.push(this.createDateCompWrapper(ePanelTo));
 
-        return /* html */`
-            <div class="ag-filter-body" ref="eCondition${pos}Body">
-                <div class="ag-filter-from ag-filter-date-from" ref="eCondition${pos}PanelFrom"></div>
-                <div class="ag-filter-to ag-filter-date-to" ref="eCondition${pos}PanelTo"></div>
-            </div>`;
+        return eBody;
     }
 
-    protected isConditionUiComplete(position: ConditionPosition): boolean {
-        const positionOne = position === ConditionPosition.One;
-        const option = positionOne ? this.getCondition1Type() : this.getCondition2Type();
+    protected removeValueElements(startPosition: number, deleteCount: number): void {
+        this.eConditionPanelsFrom.splice(startPosition, deleteCount);
+        this.eConditionPanelsTo.splice(startPosition, deleteCount);
+        this.dateConditionFromComps.splice(startPosition, deleteCount).forEach(dateComp => dateComp.destroy());
+        this.dateConditionToComps.splice(startPosition, deleteCount).forEach(dateComp => dateComp.destroy());
+    }
+
+    protected isConditionUiComplete(position: number): boolean {
+        const option = this.getConditionType(position);
 
         if (option === SimpleFilter.EMPTY) { return false; }
 
@@ -188,9 +177,8 @@ export class DateFilter extends ScalarFilter<DateFilterModel, Date> {
         return 'date';
     }
 
-    protected createCondition(position: ConditionPosition): DateFilterModel {
-        const positionOne = position === ConditionPosition.One;
-        const type = positionOne ? this.getCondition1Type() : this.getCondition2Type();
+    protected createCondition(position: number): DateFilterModel {
+        const type = this.getConditionType(position);
         const [compFrom, compTo] = this.getFromToComponents(position);
 
         return {
@@ -206,17 +194,10 @@ export class DateFilter extends ScalarFilter<DateFilterModel, Date> {
         const placeholder = this.translate('dateFormatOoo');
         const ariaLabel = globalTranslate('ariaFilterValue', 'Filter Value');
 
-        this.dateCondition1FromComp.setInputPlaceholder(placeholder);
-        this.dateCondition1FromComp.setInputAriaLabel(ariaLabel);
-
-        this.dateCondition1ToComp.setInputPlaceholder(placeholder);
-        this.dateCondition1ToComp.setInputAriaLabel(ariaLabel);
-
-        this.dateCondition2FromComp.setInputPlaceholder(placeholder);
-        this.dateCondition2FromComp.setInputAriaLabel(ariaLabel);
-
-        this.dateCondition2ToComp.setInputPlaceholder(placeholder);
-        this.dateCondition2ToComp.setInputAriaLabel(ariaLabel);
+        [...this.dateConditionFromComps, ...this.dateConditionToComps].forEach(dateComp => {
+            dateComp.setInputPlaceholder(placeholder);
+            dateComp.setInputAriaLabel(ariaLabel);
+        });
     }
 
     protected updateUiVisibility(): void {
@@ -224,18 +205,15 @@ export class DateFilter extends ScalarFilter<DateFilterModel, Date> {
 
         this.resetPlaceholder();
 
-        const condition1Type = this.getCondition1Type();
-        setDisplayed(this.eCondition1PanelFrom, this.showValueFrom(condition1Type));
-        setDisplayed(this.eCondition1PanelTo, this.showValueTo(condition1Type));
+        for (let position = 0; position < this.getNumConditions(); position++) {
+            const conditionType = this.getConditionType(position);
 
-        const condition2Type = this.getCondition2Type();
-        setDisplayed(this.eCondition2PanelFrom, this.showValueFrom(condition2Type));
-        setDisplayed(this.eCondition2PanelTo, this.showValueTo(condition2Type));
+            setDisplayed(this.eConditionPanelsFrom[position], this.showValueFrom(conditionType));
+            setDisplayed(this.eConditionPanelsTo[position], this.showValueTo(conditionType));
+        }
     }
 
-    private getFromToComponents(position: ConditionPosition): [DateCompWrapper, DateCompWrapper] {
-        return position === ConditionPosition.One ?
-            [this.dateCondition1FromComp, this.dateCondition1ToComp] :
-            [this.dateCondition2FromComp, this.dateCondition2ToComp];
+    private getFromToComponents(position: number): [DateCompWrapper, DateCompWrapper] {
+        return [this.dateConditionFromComps[position], this.dateConditionToComps[position]];
     }
 }
@@ -1,11 +1,11 @@
-import { RefSelector } from '../../../widgets/componentAnnotations';
 import { AgPromise } from '../../../utils';
-import { SimpleFilter, ConditionPosition, ISimpleFilterModel } from '../simpleFilter';
+import { SimpleFilter, ISimpleFilterModel } from '../simpleFilter';
 import { ScalarFilter, Comparator, IScalarFilterParams } from '../scalarFilter';
 import { IAfterGuiAttachedParams } from '../../../interfaces/iAfterGuiAttachedParams';
 import { makeNull } from '../../../utils/generic';
-import { setDisplayed } from '../../../utils/dom';
+import { setDisplayed, loadTemplate } from '../../../utils/dom';
 import { AgInputTextField } from '../../../widgets/agInputTextField';
+import { AgInputNumberField } from '../../../widgets/agInputNumberField';
 import { isBrowserChrome, isBrowserEdge } from '../../../utils/browser';
 
 export interface NumberFilterModel extends ISimpleFilterModel {
@@ -29,11 +29,8 @@ export class NumberFilter extends ScalarFilter<NumberFilterModel, number> {
         ScalarFilter.IN_RANGE
     ];
 
-    @RefSelector('eValueFrom1') private readonly eValueFrom1: AgInputTextField;
-    @RefSelector('eValueTo1') private readonly eValueTo1: AgInputTextField;
-
-    @RefSelector('eValueFrom2') private readonly eValueFrom2: AgInputTextField;
-    @RefSelector('eValueTo2') private readonly eValueTo2: AgInputTextField;
+    private readonly eValuesFrom: AgInputTextField[] = [];
+    private readonly eValuesTo: AgInputTextField[] = [];
 
     private numberFilterParams: INumberFilterParams;
 
@@ -54,7 +51,7 @@ export class NumberFilter extends ScalarFilter<NumberFilterModel, number> {
 
     protected resetUiToDefaults(silent?: boolean): AgPromise<void> {
         return super.resetUiToDefaults(silent).then(() => {
-            const fields = [this.eValueFrom1, this.eValueFrom2, this.eValueTo1, this.eValueTo2];
+            const fields = [...this.eValuesFrom, ...this.eValuesTo];
 
             fields.forEach(field => field.setValue(null, silent));
 
@@ -62,20 +59,14 @@ export class NumberFilter extends ScalarFilter<NumberFilterModel, number> {
         });
     }
 
-    protected setConditionIntoUi(model: NumberFilterModel, position: ConditionPosition): void {
-        const positionOne = position === ConditionPosition.One;
-        const eValueFrom = positionOne ? this.eValueFrom1 : this.eValueFrom2;
-        const eValueTo = positionOne ? this.eValueTo1 : this.eValueTo2;
-
-        eValueFrom.setValue(model ? ('' + model.filter) : null);
-        eValueTo.setValue(model ? ('' + model.filterTo) : null);
+    protected setConditionIntoUi(model: NumberFilterModel, position: number): void {
+        this.eValuesFrom[position].setValue(model ? ('' + model.filter) : null);
+        this.eValuesTo[position].setValue(model ? ('' + model.filterTo) : null);
     }
 
     protected setValueFromFloatingFilter(value: string): void {
-        this.eValueFrom1.setValue(value);
-        this.eValueTo1.setValue(null);
-        this.eValueFrom2.setValue(null);
-        this.eValueTo2.setValue(null);
+        this.eValuesFrom[0].setValue(value);
+        this.eValuesTo[0].setValue(null);
     }
 
     protected comparator(): Comparator<number> {
@@ -89,57 +80,30 @@ export class NumberFilter extends ScalarFilter<NumberFilterModel, number> {
     protected setParams(params: INumberFilterParams): void {
         this.numberFilterParams = params;
 
-        const allowedCharPattern = this.getAllowedCharPattern();
-
-        if (allowedCharPattern) {
-            const config = { allowedCharPattern };
-
-            this.resetTemplate({
-                eValueFrom1: config,
-                eValueTo1: config,
-                eValueFrom2: config,
-                eValueTo2: config,
-            });
-        }
-
         super.setParams(params);
-
-        this.addValueChangedListeners();
     }
 
-    private addValueChangedListeners(): void {
-        const listener = () => this.onUiChanged();
-
-        this.eValueFrom1.onValueChange(listener);
-        this.eValueTo1.onValueChange(listener);
-        this.eValueFrom2.onValueChange(listener);
-        this.eValueTo2.onValueChange(listener);
+    private resetPlaceholder(): void {
+        for (let position = 0; position < this.getNumConditions(); position++) {
+            this.resetConditionPlaceholder(position);
+        }
     }
 
-    private resetPlaceholder(): void {
+    private resetConditionPlaceholder(position: number): void {
         const globalTranslate = this.gridOptionsWrapper.getLocaleTextFunc();
-        const isRange1 = this.showValueTo(this.getCondition1Type());
-        const isRange2 = this.showValueTo(this.getCondition2Type());
-
-        this.eValueFrom1.setInputPlaceholder(this.translate(isRange1 ? 'inRangeStart' : 'filterOoo'));
-        this.eValueFrom1.setInputAriaLabel(
-            isRange1
-                ? globalTranslate('ariaFilterFromValue', 'Filter from value')
-                : globalTranslate('ariaFilterValue', 'Filter Value')
-        );
+        const isRange = this.showValueTo(this.getConditionType(position));
+        const eValueFrom = this.eValuesFrom[position];
+        const eValueTo = this.eValuesTo[position];
 
-        this.eValueTo1.setInputPlaceholder(this.translate('inRangeEnd'));
-        this.eValueTo1.setInputAriaLabel(globalTranslate('ariaFilterToValue', 'Filter to Value'));
-
-        this.eValueFrom2.setInputPlaceholder(this.translate(isRange2 ? 'inRangeStart' : 'filterOoo'));
-        this.eValueFrom2.setInputAriaLabel(
-            isRange2
+        eValueFrom.setInputPlaceholder(this.translate(isRange ? 'inRangeStart' : 'filterOoo'));
+        eValueFrom.setInputAriaLabel(
+            isRange
                 ? globalTranslate('ariaFilterFromValue', 'Filter from value')
                 : globalTranslate('ariaFilterValue', 'Filter Value')
         );
 
-        this.eValueTo2.setInputPlaceholder(this.translate('inRangeEnd'));
-        this.eValueTo2.setInputAriaLabel(globalTranslate('ariaFilterToValue', 'Filter to Value'));
+        eValueTo.setInputPlaceholder(this.translate('inRangeEnd'));
+        eValueTo.setInputAriaLabel(globalTranslate('ariaFilterToValue', 'Filter to Value'));
     }
 
     public afterGuiAttached(params?: IAfterGuiAttachedParams): void {
@@ -148,7 +112,7 @@ export class NumberFilter extends ScalarFilter<NumberFilterModel, number> {
         this.resetPlaceholder();
 
         if (!params || !params.suppressFocus) {
-            this.eValueFrom1.getInputElement().focus();
+            this.eValuesFrom[0].getInputElement().focus();
         }
     }
 
@@ -156,21 +120,42 @@ export class NumberFilter extends ScalarFilter<NumberFilterModel, number> {
         return NumberFilter.DEFAULT_FILTER_OPTIONS;
     }
 
-    protected createValueTemplate(position: ConditionPosition): string {
-        const pos = position === ConditionPosition.One ? '1' : '2';
+    protected createValueElement(): HTMLElement {
+        const eBody = loadTemplate(/* html */`<div class="ag-filter-body" role="presentation"></div>`);
+        const eValueFrom = this.createValueField();
+        const eValueTo = this.createValueField();
+
+        eValueFrom.addCssClass('ag-filter-from');
+        eValueTo.addCssClass('ag-filter-to');
+
+        eBody.appendChild(eValueFrom.getGui());
+        eBody.appendChild(eValueTo.getGui());
+
+        this.eValuesFrom.push(eValueFrom);
+        this.eValuesTo.push(eValueTo);
+
+        return eBody;
+    }
+
+    private createValueField(): AgInputTextField {
         const allowedCharPattern = this.getAllowedCharPattern();
-        const agElementTag = allowedCharPattern ? 'ag-input-text-field' : 'ag-input-number-field';
+        const eValue = this.createBean(allowedCharPattern ?
+            new AgInputTextField({ allowedCharPattern }) :
+            new AgInputNumberField());
 
-        return /* html */`
-            <div class="ag-filter-body" ref="eCondition${pos}Body" role="presentation">
-                <${agElementTag} class="ag-filter-from ag-filter-filter" ref="eValueFrom${pos}"></${agElementTag}>
-                <${agElementTag} class="ag-filter-to ag-filter-filter" ref="eValueTo${pos}"></${agElementTag}>
-            </div>`;
+        eValue.addCssClass('ag-filter-filter');
+        eValue.onValueChange(() => this.onUiChanged());
+
+        return eValue;
     }
 
-    protected isConditionUiComplete(position: ConditionPosition): boolean {
-        const positionOne = position === ConditionPosition.One;
-        const option = positionOne ? this.getCondition1Type() : this.getCondition2Type();
+    protected removeValueElements(startPosition: number, deleteCount: number): void {
+        this.destroyBeans(this.eValuesFrom.splice(startPosition, deleteCount));
+        this.destroyBeans(this.eValuesTo.splice(startPosition, deleteCount));
+    }
+
+    protected isConditionUiComplete(position: number): boolean {
+        const option = this.getConditionType(position);
 
         if (option === SimpleFilter.EMPTY) { return false; }
 
@@ -178,11 +163,9 @@ export class NumberFilter extends ScalarFilter<NumberFilterModel, number> {
             return true;
         }
 
-        const eValue = positionOne ? this.eValueFrom1 : this.eValueFrom2;
-        const eValueTo = positionOne ? this.eValueTo1 : this.eValueTo2;
-        const value = this.stringToFloat(eValue.getValue());
+        const value = this.stringToFloat(this.eValuesFrom[position].getValue());
 
-        return value != null && (!this.showValueTo(option) || this.stringToFloat(eValueTo.getValue()) != null);
+        return value != null && (!this.showValueTo(option) || this.stringToFloat(this.eValuesTo[position].getValue()) != null);
     }
 
     protected areSimpleModelsEqual(aSimple: NumberFilterModel, bSimple: NumberFilterModel): boolean {
@@ -213,11 +196,9 @@ export class NumberFilter extends ScalarFilter<NumberFilterModel, number> {
         return filterText == null || filterText.trim() === '-' ? null : parseFloat(filterText);
     }
 
-    protected createCondition(position: ConditionPosition): NumberFilterModel {
-        const positionOne = position === ConditionPosition.One;
-        const type = positionOne ? this.getCondition1Type() : this.getCondition2Type();
-        const eValue = positionOne ? this.eValueFrom1 : this.eValueFrom2;
-        const value = this.stringToFloat(eValue.getValue());
+    protected createCondition(position: number): NumberFilterModel {
+        const type = this.getConditionType(position);
+        const value = this.stringToFloat(this.eValuesFrom[position].getValue());
 
         const model: NumberFilterModel = {
             filterType: this.getFilterType(),
@@ -228,10 +209,7 @@ export class NumberFilter extends ScalarFilter<NumberFilterModel, number> {
             model.filter = value;
 
             if (this.showValueTo(type)) {
-                const eValueTo = positionOne ? this.eValueTo1 : this.eValueTo2;
-                const valueTo = this.stringToFloat(eValueTo.getValue());
-
-                model.filterTo = valueTo;
+                model.filterTo = this.stringToFloat(this.eValuesTo[position].getValue());
             }
         }
 
@@ -243,13 +221,12 @@ export class NumberFilter extends ScalarFilter<NumberFilterModel, number> {
 
         this.resetPlaceholder();
 
-        const condition1Type = this.getCondition1Type();
-        const condition2Type = this.getCondition2Type();
+        for (let position = 0; position < this.getNumConditions(); position++) {
+            const conditionType = this.getConditionType(position);
 
-        setDisplayed(this.eValueFrom1.getGui(), this.showValueFrom(condition1Type));
-        setDisplayed(this.eValueTo1.getGui(), this.showValueTo(condition1Type));
-        setDisplayed(this.eValueFrom2.getGui(), this.showValueFrom(condition2Type));
-        setDisplayed(this.eValueTo2.getGui(), this.showValueTo(condition2Type));
+            setDisplayed(this.eValuesFrom[position].getGui(), this.showValueFrom(conditionType));
+            setDisplayed(this.eValuesTo[position].getGui(), this.showValueTo(conditionType));
+        }
     }
 
     private getAllowedCharPattern(): string | null {
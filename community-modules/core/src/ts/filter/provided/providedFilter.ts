@@ -96,7 +96,7 @@ export abstract class ProvidedFilter<T> extends Component implements IFilterComp
     protected resetTemplate(paramsMap?: any) {
         const templateString = /* html */`
             <div class="ag-filter-wrapper">
-                <div class="ag-filter-body-wrapper ag-${this.getCssIdentifier()}-body-wrapper">
+                <div class="ag-filter-body-wrapper ag-${this.getCssIdentifier()}-body-wrapper" ref="eFilterBody">
                     ${this.createBodyTemplate()}
                 </div>
             </div>`;
@@ -50,7 +50,15 @@ export abstract class ScalarFilter<M extends ISimpleFilterModel, T> extends Simp
     }
 
     protected individualConditionPasses(params: IDoesFilterPassParams, filterModel: ISimpleFilterModel) {
-        const cellValue = this.scalarFilterParams.valueGetter(params.node);
+        return this.individualValuePasses(this.scalarFilterParams.valueGetter(params.node), filterModel);
+    }
+
+    /** Whether a cell value passes the filter, for when the value is read without a row node, eg from columnar row data */
+    public doesValuePass(cellValue: T | null): boolean {
+        return this.doConditionsPass(m => this.individualValuePasses(cellValue, m));
+    }
+
+    private individualValuePasses(cellValue: T | null, filterModel: ISimpleFilterModel): boolean {
         const range = this.mapRangeFromModel(filterModel);
         const filterValue = range.from;
         const filterValueTo = range.to;
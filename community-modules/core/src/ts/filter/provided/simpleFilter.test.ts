@@ -0,0 +1,67 @@
+import { SimpleFilter, ICombinedSimpleModel } from './simpleFilter';
+import { TextFilterModel } from './text/textFilter';
+
+describe('getCombinedModelConditions', () => {
+    const condition = (filter: string): TextFilterModel => ({ filterType: 'text', type: 'contains', filter });
+
+    it('returns the conditions', () => {
+        const model: ICombinedSimpleModel<TextFilterModel> = {
+            filterType: 'text',
+            operator: 'OR',
+            conditions: [condition('a'), condition('b'), condition('c')]
+        };
+
+        expect(SimpleFilter.getCombinedModelConditions(model)).toStrictEqual([condition('a'), condition('b'), condition('c')]);
+    });
+
+    it('reads condition1 and condition2 from models without conditions', () => {
+        const model = { filterType: 'text', operator: 'AND', condition1: condition('a'), condition2: condition('b') };
+
+        expect(SimpleFilter.getCombinedModelConditions(model as any)).toStrictEqual([condition('a'), condition('b')]);
+    });
+});
+
+describe('getMaxNumConditions', () => {
+    it('allows two conditions by default', () => {
+        expect(SimpleFilter.getMaxNumConditions({} as any)).toBe(2);
+    });
+
+    it('allows one condition when and / or conditions are suppressed', () => {
+        expect(SimpleFilter.getMaxNumConditions({ suppressAndOrCondition: true, maxNumConditions: 5 } as any)).toBe(1);
+    });
+
+    it('allows at least one condition', () => {
+        expect(SimpleFilter.getMaxNumConditions({ maxNumConditions: 5 } as any)).toBe(5);
+        expect(SimpleFilter.getMaxNumConditions({ maxNumConditions: 0 } as any)).toBe(1);
+    });
+});
+
+describe('setModelIntoUi', () => {
+    it('uses the first maxNumConditions conditions, leaving the model passed in unchanged', () => {
+        const condition = (filter: string): TextFilterModel => ({ filterType: 'text', type: 'contains', filter });
+        const setConditionIntoUi = jest.fn();
+        const filter = Object.assign(Object.create(SimpleFilter.prototype), {
+            maxNumConditions: 2,
+            conditionGuis: [{ eType: { setValue: jest.fn() } }, { eType: { setValue: jest.fn() } }],
+            removeConditions: jest.fn(),
+            getMinNumConditions: () => 1,
+            getNumConditions: () => 2,
+            setJoinOperator: jest.fn(),
+            setConditionIntoUi
+        });
+        const model: ICombinedSimpleModel<TextFilterModel> = {
+            filterType: 'text',
+            operator: 'OR',
+            conditions: [condition('a'), condition('b'), condition('c')]
+        };
+
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        filter.setModelIntoUi(model);
+
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(setConditionIntoUi.mock.calls).toEqual([[condition('a'), 0], [condition('b'), 1]]);
+        expect(model.conditions).toStrictEqual([condition('a'), condition('b'), condition('c')]);
+
+        warn.mockRestore();
+    });
+});
@@ -5,16 +5,24 @@ import { IProvidedFilterParams, ProvidedFilter } from './providedFilter';
 import { AgPromise } from '../../utils';
 import { AgSelect } from '../../widgets/agSelect';
 import { AgRadioButton } from '../../widgets/agRadioButton';
-import { forEach, every, some, includes } from '../../utils/array';
-import { setDisplayed, setDisabled } from '../../utils/dom';
+import { forEach, every, some, includes, findIndex } from '../../utils/array';
+import { setDisplayed, setDisabled, loadTemplate, removeFromParent } from '../../utils/dom';
+import { setAriaLabel } from '../../utils/aria';
+import { createIconNoSpan } from '../../utils/icon';
 import { IFilterLocaleText } from '../filterLocaleText';
 
 export type JoinOperator = 'AND' | 'OR';
 
+/** @deprecated the conditions are numbered from 0, which this enum matches for the first two conditions */
+export enum ConditionPosition { One, Two }
+
 export interface ISimpleFilterParams extends IProvidedFilterParams {
     filterOptions?: (IFilterOptionDef | string)[];
     defaultOption?: string;
     defaultJoinOperator?: JoinOperator;
+    /** Maximum number of conditions the user can join together, defaults to 2 */
+    maxNumConditions?: number;
+    /** Same as maxNumConditions: 1 */
     suppressAndOrCondition?: boolean;
     alwaysShowBothConditions?: boolean;
 }
@@ -25,11 +33,27 @@ export interface ISimpleFilterModel extends ProvidedFilterModel {
 
 export interface ICombinedSimpleModel<M extends ISimpleFilterModel> extends ProvidedFilterModel {
     operator: JoinOperator;
-    condition1: M;
-    condition2: M;
+    conditions: M[];
+    /** @deprecated use conditions instead, only read when conditions is missing */
+    condition1?: M;
+    /** @deprecated use conditions instead, only read when conditions is missing */
+    condition2?: M;
 }
 
-export enum ConditionPosition { One, Two }
+// the AND / OR radio buttons and the remove button between a condition and the one before it
+interface JoinOperatorGui {
+    ePanel: HTMLElement;
+    eAnd: AgRadioButton;
+    eOr: AgRadioButton;
+    eRemoveButton: HTMLElement;
+}
+
+interface ConditionGui {
+    // null for the first condition, as it isn't joined to anything
+    joinOperatorGui: JoinOperatorGui | null;
+    eType: AgSelect;
+    eBody: HTMLElement;
+}
 
 /**
  * Every filter with a dropdown where the user can specify a comparing type against the filter values
@@ -49,30 +73,29 @@ export abstract class SimpleFilter<M extends ISimpleFilterModel> extends Provide
     public static STARTS_WITH = 'startsWith';
     public static ENDS_WITH = 'endsWith';
 
-    @RefSelector('eOptions1') protected readonly eType1: AgSelect;
-    @RefSelector('eOptions2') protected readonly eType2: AgSelect;
-    @RefSelector('eJoinOperatorPanel') protected readonly eJoinOperatorPanel: HTMLElement;
-    @RefSelector('eJoinOperatorAnd') protected readonly eJoinOperatorAnd: AgRadioButton;
-    @RefSelector('eJoinOperatorOr') protected readonly eJoinOperatorOr: AgRadioButton;
-    @RefSelector('eCondition1Body') protected readonly eCondition1Body: HTMLElement;
-    @RefSelector('eCondition2Body') protected readonly eCondition2Body: HTMLElement;
+    @RefSelector('eFilterBody') private readonly eFilterBody: HTMLElement;
 
-    private allowTwoConditions: boolean;
+    private readonly conditionGuis: ConditionGui[] = [];
+    private maxNumConditions: number;
     private alwaysShowBothConditions: boolean;
     private defaultJoinOperator: JoinOperator | undefined;
+    private joinOperatorGroupCount = 0;
 
     protected optionsFactory: OptionsFactory;
     protected abstract getDefaultFilterOptions(): string[];
 
-    // gets called once during initialisation, to build up the html template
-    protected abstract createValueTemplate(position: ConditionPosition): string;
+    // gets called each time a condition is added, to create the inputs for the values of the condition
+    protected abstract createValueElement(): HTMLElement;
+
+    // destroys the inputs of the conditions that are removed, the same as Array.splice
+    protected abstract removeValueElements(startPosition: number, deleteCount: number): void;
 
     // returns true in the row passes the said condition
     protected abstract individualConditionPasses(params: IDoesFilterPassParams, type: ISimpleFilterModel): boolean;
 
     // returns true if the UI represents a working filter, eg all parts are filled out.
     // eg if text filter and textfield blank then returns false.
-    protected abstract isConditionUiComplete(position: ConditionPosition): boolean;
+    protected abstract isConditionUiComplete(position: number): boolean;
 
     // filter uses this to know if new model is different from previous model, ie if filter has changed
     protected abstract areSimpleModelsEqual(a: ISimpleFilterModel, b: ISimpleFilterModel): boolean;
@@ -81,13 +104,29 @@ export abstract class SimpleFilter<M extends ISimpleFilterModel> extends Provide
     // (as that's where value is controlled), the 'type' part from the floating filter is dealt with in this class.
     protected abstract setValueFromFloatingFilter(value: string): void;
 
-    // getModel() calls this to create the two conditions. if only one condition,
-    // the result is returned by getModel(), otherwise is called twice and both results
+    // getModel() calls this to create each condition. if only one condition,
+    // the result is returned by getModel(), otherwise the results are
     // returned in a CombinedFilter object.
-    protected abstract createCondition(position: ConditionPosition): M;
+    protected abstract createCondition(position: number): M;
 
     // puts model values into the UI
-    protected abstract setConditionIntoUi(model: ISimpleFilterModel | null, position: ConditionPosition): void;
+    protected abstract setConditionIntoUi(model: ISimpleFilterModel | null, position: number): void;
+
+    /** Returns the conditions of a combined model, including models from before conditions replaced condition1 and condition2 */
+    public static getCombinedModelConditions<M extends ISimpleFilterModel>(model: ICombinedSimpleModel<M>): M[] {
+        if (model.conditions) { return model.conditions; }
+
+        return [model.condition1, model.condition2].filter(condition => condition != null) as M[];
+    }
+
+    /** The number of conditions that can be joined together with the given params, used by the filter expressions also */
+    public static getMaxNumConditions(params: ISimpleFilterParams): number {
+        if (params.suppressAndOrCondition) { return 1; }
+
+        const { maxNumConditions } = params;
+
+        return maxNumConditions == null ? 2 : Math.max(1, maxNumConditions);
+    }
 
     // returns true if this type requires a 'from' field, eg any filter that requires at least one text value
     protected showValueFrom(type?: string | null): boolean {
@@ -107,38 +146,81 @@ export abstract class SimpleFilter<M extends ISimpleFilterModel> extends Provide
     }
 
     protected setTypeFromFloatingFilter(type?: string | null): void {
-        this.eType1.setValue(type);
-        this.eType2.setValue(this.optionsFactory.getDefaultOption());
-        (this.isDefaultOperator('AND') ? this.eJoinOperatorAnd : this.eJoinOperatorOr).setValue(true);
+        // the floating filter only edits a single condition
+        this.removeConditions(1);
+        this.conditionGuis[0].eType.setValue(type);
     }
 
     public getModelFromUi(): M | ICombinedSimpleModel<M> | null {
-        if (!this.isConditionUiComplete(ConditionPosition.One)) {
-            return null;
-        }
+        const conditions: M[] = [];
 
-        if (this.isAllowTwoConditions() && this.isConditionUiComplete(ConditionPosition.Two)) {
-            return {
-                filterType: this.getFilterType(),
-                operator: this.getJoinOperator(),
-                condition1: this.createCondition(ConditionPosition.One),
-                condition2: this.createCondition(ConditionPosition.Two)
-            };
+        // conditions after an incomplete one are hidden, so aren't part of the model
+        for (let position = 0; position < this.getNumConditions() && this.isConditionUiComplete(position); position++) {
+            conditions.push(this.createCondition(position));
         }
 
-        return this.createCondition(ConditionPosition.One);
+        if (conditions.length === 0) { return null; }
+
+        if (conditions.length === 1) { return conditions[0]; }
+
+        return {
+            filterType: this.getFilterType(),
+            operator: this.getJoinOperator(),
+            conditions
+        };
+    }
+
+    protected getNumConditions(): number {
+        return this.conditionGuis.length;
+    }
+
+    protected getConditionType(position: number): string | null | undefined {
+        return this.conditionGuis[position].eType.getValue();
     }
 
+    protected getConditionBody(position: number): HTMLElement {
+        return this.conditionGuis[position].eBody;
+    }
+
+    /** @deprecated use getConditionType(0) instead */
     protected getCondition1Type(): string | null | undefined {
-        return this.eType1.getValue();
+        return this.getConditionType(0);
     }
 
+    /** @deprecated use getConditionType(1) instead, which fails while the second condition isn't shown */
     protected getCondition2Type(): string | null | undefined {
-        return this.eType2.getValue();
+        const conditionGui = this.conditionGuis[1];
+
+        return conditionGui ? conditionGui.eType.getValue() : this.optionsFactory.getDefaultOption();
+    }
+
+    /** @deprecated the type dropdowns of the conditions are created as the conditions are added */
+    protected get eType1(): AgSelect {
+        return this.conditionGuis[0].eType;
+    }
+
+    /** @deprecated the type dropdowns of the conditions are created as the conditions are added, so this is
+     * undefined while the second condition isn't shown */
+    protected get eType2(): AgSelect {
+        return this.conditionGuis[1] && this.conditionGuis[1].eType;
+    }
+
+    /** @deprecated use getConditionBody(0) instead */
+    protected get eCondition1Body(): HTMLElement {
+        return this.getConditionBody(0);
+    }
+
+    /** @deprecated use getConditionBody(1) instead, this is undefined while the second condition isn't shown */
+    protected get eCondition2Body(): HTMLElement {
+        return this.conditionGuis[1] && this.conditionGuis[1].eBody;
     }
 
     protected getJoinOperator(): JoinOperator {
-        return this.eJoinOperatorOr.getValue() === true ? 'OR' : 'AND';
+        const joinOperatorGui = this.conditionGuis.length > 1 ? this.conditionGuis[1].joinOperatorGui : null;
+
+        if (!joinOperatorGui) { return this.defaultJoinOperator || 'AND'; }
+
+        return joinOperatorGui.eOr.getValue() === true ? 'OR' : 'AND';
     }
 
     protected areModelsEqual(a: M | ICombinedSimpleModel<M>, b: M | ICombinedSimpleModel<M>): boolean {
@@ -154,76 +236,72 @@ export abstract class SimpleFilter<M extends ISimpleFilterModel> extends Provide
         const oneSimpleOneCombined = (!aIsSimple && bIsSimple) || (aIsSimple && !bIsSimple);
         if (oneSimpleOneCombined) { return false; }
 
-        let res: boolean;
-
         // otherwise both present, so compare
         if (aIsSimple) {
-            const aSimple = a as M;
-            const bSimple = b as M;
-
-            res = this.areSimpleModelsEqual(aSimple, bSimple);
-        } else {
-            const aCombined = a as ICombinedSimpleModel<M>;
-            const bCombined = b as ICombinedSimpleModel<M>;
-
-            res = aCombined.operator === bCombined.operator
-                && this.areSimpleModelsEqual(aCombined.condition1, bCombined.condition1)
-                && this.areSimpleModelsEqual(aCombined.condition2, bCombined.condition2);
+            return this.areSimpleModelsEqual(a as M, b as M);
         }
 
-        return res;
+        const aCombined = a as ICombinedSimpleModel<M>;
+        const bCombined = b as ICombinedSimpleModel<M>;
+        const aConditions = SimpleFilter.getCombinedModelConditions(aCombined);
+        const bConditions = SimpleFilter.getCombinedModelConditions(bCombined);
+
+        return aCombined.operator === bCombined.operator
+            && aConditions.length === bConditions.length
+            && every(aConditions, (aCondition, index) => this.areSimpleModelsEqual(aCondition, bConditions[index]));
     }
 
     protected setModelIntoUi(model: ISimpleFilterModel | ICombinedSimpleModel<M>): AgPromise<void> {
         const isCombined = (model as any).operator;
+        const allConditions = isCombined ?
+            SimpleFilter.getCombinedModelConditions(model as ICombinedSimpleModel<M>) :
+            [model as M];
 
-        if (isCombined) {
-            const combinedModel = model as ICombinedSimpleModel<M>;
+        if (allConditions.length > this.maxNumConditions) {
+            console.warn(`AG Grid: the filter model has ${allConditions.length} conditions, but maxNumConditions is ` +
+                `${this.maxNumConditions}, so only the first ${this.maxNumConditions} are used`);
+        }
 
-            const orChecked = combinedModel.operator === 'OR';
-            this.eJoinOperatorAnd.setValue(!orChecked);
-            this.eJoinOperatorOr.setValue(orChecked);
+        // copied, as the conditions can be the array of the model the caller passed in
+        const conditions = allConditions.slice(0, this.maxNumConditions);
 
-            this.eType1.setValue(combinedModel.condition1.type);
-            this.eType2.setValue(combinedModel.condition2.type);
+        // keeps one more condition than the model has, for the user to add another condition in
+        this.removeConditions(Math.max(conditions.length + 1, this.getMinNumConditions()));
 
-            this.setConditionIntoUi(combinedModel.condition1, ConditionPosition.One);
-            this.setConditionIntoUi(combinedModel.condition2, ConditionPosition.Two);
-        } else {
-            const simpleModel = model as ISimpleFilterModel;
+        while (this.getNumConditions() < Math.min(conditions.length + 1, this.maxNumConditions)) {
+            this.addCondition();
+        }
 
-            this.eJoinOperatorAnd.setValue(this.isDefaultOperator('AND'));
-            this.eJoinOperatorOr.setValue(this.isDefaultOperator('OR'));
+        this.setJoinOperator(isCombined ? (model as ICombinedSimpleModel<M>).operator : this.defaultJoinOperator);
 
-            this.eType1.setValue(simpleModel.type);
-            this.eType2.setValue(this.optionsFactory.getDefaultOption());
+        this.conditionGuis.forEach((conditionGui, position) => {
+            const condition = conditions[position];
 
-            this.setConditionIntoUi(simpleModel as M, ConditionPosition.One);
-            this.setConditionIntoUi(null, ConditionPosition.Two);
-        }
+            conditionGui.eType.setValue(condition ? condition.type : this.optionsFactory.getDefaultOption());
+            this.setConditionIntoUi(condition || null, position);
+        });
 
         return AgPromise.resolve();
     }
 
     public doesFilterPass(params: IDoesFilterPassParams): boolean {
+        return this.doConditionsPass(m => this.individualConditionPasses(params, m));
+    }
+
+    // combines the results of the conditions of the model with its operator
+    protected doConditionsPass(conditionPasses: (model: ISimpleFilterModel) => boolean): boolean {
         const model = this.getModel();
 
         if (model == null) { return true; }
 
         const { operator } = model as ICombinedSimpleModel<M>;
-        const models: ISimpleFilterModel[] = [];
-
-        if (operator) {
-            const combinedModel = model as ICombinedSimpleModel<M>;
-
-            models.push(combinedModel.condition1, combinedModel.condition2);
-        } else {
-            models.push(model as ISimpleFilterModel);
-        }
+        const models: ISimpleFilterModel[] = operator ?
+            SimpleFilter.getCombinedModelConditions(model as ICombinedSimpleModel<M>) :
+            [model as ISimpleFilterModel];
 
         const combineFunction = operator && operator === 'OR' ? some : every;
 
-        return combineFunction(models, m => this.individualConditionPasses(params, m));
+        return combineFunction(models, conditionPasses);
     }
 
     protected setParams(params: ISimpleFilterParams): void {
@@ -232,19 +310,137 @@ export abstract class SimpleFilter<M extends ISimpleFilterModel> extends Provide
         this.optionsFactory = new OptionsFactory();
         this.optionsFactory.init(params, this.getDefaultFilterOptions());
 
-        this.allowTwoConditions = !params.suppressAndOrCondition;
+        this.maxNumConditions = SimpleFilter.getMaxNumConditions(params);
         this.alwaysShowBothConditions = !!params.alwaysShowBothConditions;
         this.defaultJoinOperator = this.getDefaultJoinOperator(params.defaultJoinOperator);
 
-        this.putOptionsIntoDropdown();
-        this.addChangedListeners();
+        while (this.getNumConditions() < this.getMinNumConditions()) {
+            this.addCondition();
+        }
+
+        this.addDestroyFunc(() => this.removeConditions(0));
+    }
+
+    // the conditions that are always there, even when they are empty
+    private getMinNumConditions(): number {
+        return this.alwaysShowBothConditions ? Math.min(2, this.maxNumConditions) : 1;
     }
 
     private getDefaultJoinOperator(defaultJoinOperator?: JoinOperator): JoinOperator | undefined {
         return includes(['AND', 'OR'], defaultJoinOperator) ? defaultJoinOperator : 'AND';
     }
 
-    private putOptionsIntoDropdown(): void {
+    private addCondition(): void {
+        const isFirstCondition = this.getNumConditions() === 0;
+        const joinOperatorGui = isFirstCondition ? null : this.createJoinOperatorGui();
+
+        const eType = this.createBean(new AgSelect());
+        eType.addCssClass('ag-filter-select');
+        eType.setAriaLabel(this.gridOptionsWrapper.getLocaleTextFunc()('ariaFilteringOperator', 'Filtering operator'));
+        this.putOptionsIntoDropdown(eType);
+        eType.setValue(this.optionsFactory.getDefaultOption(), true);
+        eType.onValueChange(() => this.onUiChanged());
+
+        const eBody = this.createValueElement();
+
+        if (joinOperatorGui) {
+            this.eFilterBody.appendChild(joinOperatorGui.ePanel);
+        }
+
+        this.eFilterBody.appendChild(eType.getGui());
+        this.eFilterBody.appendChild(eBody);
+
+        this.conditionGuis.push({ joinOperatorGui, eType, eBody });
+    }
+
+    private createJoinOperatorGui(): JoinOperatorGui {
+        const translate = this.gridOptionsWrapper.getLocaleTextFunc();
+        const groupName = `ag-simple-filter-and-or-${this.getCompId()}-${this.joinOperatorGroupCount++}`;
+        const joinOperator = this.getJoinOperator();
+
+        const ePanel = loadTemplate(/* html */`<div class="ag-filter-condition"></div>`);
+        const eRemoveButton = loadTemplate(/* html */`<button type="button" class="ag-filter-condition-remove"></button>`);
+        const eRemoveIcon = createIconNoSpan('cancel', this.gridOptionsWrapper);
+
+        if (eRemoveIcon) {
+            eRemoveButton.appendChild(eRemoveIcon);
+        }
+
+        eRemoveButton.setAttribute('title', this.translate('removeCondition'));
+        setAriaLabel(eRemoveButton, this.translate('removeCondition'));
+
+        const createRadioButton = (operator: JoinOperator) => {
+            const eRadioButton = this.createBean(new AgRadioButton());
+
+            eRadioButton.addCssClass('ag-filter-condition-operator');
+            eRadioButton.addCssClass(`ag-filter-condition-operator-${operator.toLowerCase()}`);
+            eRadioButton
+                .setName(groupName)
+                .setLabel(this.translate(operator === 'AND' ? 'andCondition' : 'orCondition'))
+                .setValue(joinOperator === operator, true)
+                .onValueChange(value => {
+                    if (!value) { return; }
+
+                    // all the conditions are joined with the same operator, so the other radio buttons follow this one
+                    this.setJoinOperator(operator, true);
+                    this.onUiChanged();
+                });
+
+            ePanel.appendChild(eRadioButton.getGui());
+
+            return eRadioButton;
+        };
+
+        const joinOperatorGui: JoinOperatorGui = {
+            ePanel,
+            eAnd: createRadioButton('AND'),
+            eOr: createRadioButton('OR'),
+            eRemoveButton
+        };
+
+        ePanel.appendChild(eRemoveButton);
+
+        // the listener goes with the button when the condition is removed
+        eRemoveButton.addEventListener('click', () => {
+            const position = findIndex(this.conditionGuis, conditionGui => conditionGui.joinOperatorGui === joinOperatorGui);
+
+            this.removeConditions(position, 1);
+            this.onUiChanged();
+        });
+
+        return joinOperatorGui;
+    }
+
+    private setJoinOperator(operator: JoinOperator | undefined, silent?: boolean): void {
+        this.conditionGuis.forEach(({ joinOperatorGui }) => {
+            if (!joinOperatorGui) { return; }
+
+            joinOperatorGui.eAnd.setValue(operator === 'AND', silent);
+            joinOperatorGui.eOr.setValue(operator === 'OR', silent);
+        });
+    }
+
+    private removeConditions(startPosition: number, deleteCount = this.getNumConditions() - startPosition): void {
+        if (deleteCount <= 0) { return; }
+
+        const removed = this.conditionGuis.splice(startPosition, deleteCount);
+
+        removed.forEach(({ joinOperatorGui, eType, eBody }) => {
+            if (joinOperatorGui) {
+                removeFromParent(joinOperatorGui.ePanel);
+                this.destroyBean(joinOperatorGui.eAnd);
+                this.destroyBean(joinOperatorGui.eOr);
+            }
+
+            removeFromParent(eType.getGui());
+            this.destroyBean(eType);
+            removeFromParent(eBody);
+        });
+
+        this.removeValueElements(startPosition, removed.length);
+    }
+
+    private putOptionsIntoDropdown(eType: AgSelect): void {
         const filterOptions = this.optionsFactory.getFilterOptions();
 
         forEach(filterOptions, option => {
@@ -264,32 +460,19 @@ export abstract class SimpleFilter<M extends ISimpleFilterModel> extends Provide
                     this.translate(value as keyof IFilterLocaleText);
             }
 
-            const createOption = () => ({ value, text });
-
-            this.eType1.addOption(createOption());
-            this.eType2.addOption(createOption());
+            eType.addOption({ value, text });
         });
 
-        const readOnly = filterOptions.length <= 1;
-
-        this.eType1.setDisabled(readOnly);
-        this.eType2.setDisabled(readOnly);
+        eType.setDisabled(filterOptions.length <= 1);
     }
 
     public isAllowTwoConditions(): boolean {
-        return this.allowTwoConditions;
+        return this.maxNumConditions > 1;
     }
 
     protected createBodyTemplate(): string {
-        return /* html */`
-            <ag-select class="ag-filter-select" ref="eOptions1"></ag-select>
-            ${this.createValueTemplate(ConditionPosition.One)}
-            <div class="ag-filter-condition" ref="eJoinOperatorPanel">
-               <ag-radio-button ref="eJoinOperatorAnd" class="ag-filter-condition-operator ag-filter-condition-operator-and"></ag-radio-button>
-               <ag-radio-button ref="eJoinOperatorOr" class="ag-filter-condition-operator ag-filter-condition-operator-or"></ag-radio-button>
-            </div>
-            <ag-select class="ag-filter-select" ref="eOptions2"></ag-select>
-            ${this.createValueTemplate(ConditionPosition.Two)}`;
+        // the conditions are added to the body as they are needed
+        return '';
     }
 
     protected getCssIdentifier() {
@@ -297,56 +480,51 @@ export abstract class SimpleFilter<M extends ISimpleFilterModel> extends Provide
     }
 
     protected updateUiVisibility(): void {
-        const isCondition2Enabled = this.isCondition2Enabled();
-
-        if (this.alwaysShowBothConditions) {
-            this.eJoinOperatorAnd.setDisabled(!isCondition2Enabled);
-            this.eJoinOperatorOr.setDisabled(!isCondition2Enabled);
-            this.eType2.setDisabled(!isCondition2Enabled);
-            setDisabled(this.eCondition2Body, !isCondition2Enabled);
-        } else {
-            setDisplayed(this.eJoinOperatorPanel, isCondition2Enabled);
-            setDisplayed(this.eType2.getGui(), isCondition2Enabled);
-            setDisplayed(this.eCondition2Body, isCondition2Enabled);
+        const lastPosition = this.getNumConditions() - 1;
+
+        // once all the conditions are complete, another is added for the user to fill in
+        if (lastPosition + 1 < this.maxNumConditions && this.isConditionEnabled(lastPosition) && this.isConditionUiComplete(lastPosition)) {
+            this.addCondition();
         }
-    }
 
-    protected isCondition2Enabled(): boolean {
-        return this.allowTwoConditions && this.isConditionUiComplete(ConditionPosition.One);
-    }
+        this.conditionGuis.forEach(({ joinOperatorGui, eType, eBody }, position) => {
+            if (!joinOperatorGui) { return; }
 
-    protected resetUiToDefaults(silent?: boolean): AgPromise<void> {
-        const translate = this.gridOptionsWrapper.getLocaleTextFunc();
-        const filteringLabel = translate('ariaFilteringOperator', 'Filtering operator');
-        const uniqueGroupId = 'ag-simple-filter-and-or-' + this.getCompId();
-        const defaultOption = this.optionsFactory.getDefaultOption();
+            const isEnabled = this.isConditionEnabled(position);
+            const isRemovable = isEnabled && (position < this.getNumConditions() - 1 || this.isConditionUiComplete(position));
 
-        this.eType1.setValue(defaultOption, silent).setAriaLabel(filteringLabel);
-        this.eType2.setValue(defaultOption, silent).setAriaLabel(filteringLabel);
+            if (this.alwaysShowBothConditions) {
+                joinOperatorGui.eAnd.setDisabled(!isEnabled);
+                joinOperatorGui.eOr.setDisabled(!isEnabled);
+                eType.setDisabled(!isEnabled || this.optionsFactory.getFilterOptions().length <= 1);
+                setDisabled(eBody, !isEnabled);
+            } else {
+                setDisplayed(joinOperatorGui.ePanel, isEnabled);
+                setDisplayed(eType.getGui(), isEnabled);
+                setDisplayed(eBody, isEnabled);
+            }
 
-        this.eJoinOperatorAnd
-            .setValue(this.isDefaultOperator('AND'), silent)
-            .setName(uniqueGroupId)
-            .setLabel(this.translate('andCondition'));
+            setDisplayed(joinOperatorGui.eRemoveButton, isRemovable);
+        });
+    }
 
-        this.eJoinOperatorOr
-            .setValue(this.isDefaultOperator('OR'), silent)
-            .setName(uniqueGroupId)
-            .setLabel(this.translate('orCondition'));
+    // a condition can only be filled in once all the conditions before it are complete
+    protected isConditionEnabled(position: number): boolean {
+        for (let i = 0; i < position; i++) {
+            if (!this.isConditionUiComplete(i)) { return false; }
+        }
 
-        return AgPromise.resolve();
+        return true;
     }
 
-    private isDefaultOperator(operator: JoinOperator): boolean {
-        return operator === this.defaultJoinOperator;
-    }
+    protected resetUiToDefaults(silent?: boolean): AgPromise<void> {
+        const defaultOption = this.optionsFactory.getDefaultOption();
+
+        this.removeConditions(this.getMinNumConditions());
+        this.conditionGuis.forEach(({ eType }) => eType.setValue(defaultOption, silent));
+        this.setJoinOperator(this.defaultJoinOperator, silent);
 
-    private addChangedListeners() {
-        const listener = () => this.onUiChanged();
-        this.eType1.onValueChange(listener);
-        this.eType2.onValueChange(listener);
-        this.eJoinOperatorOr.onValueChange(listener);
-        this.eJoinOperatorAnd.onValueChange(listener);
+        return AgPromise.resolve();
     }
 
     protected doesFilterHaveHiddenInput(filterType?: string | null) {
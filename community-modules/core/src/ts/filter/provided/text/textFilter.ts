@@ -1,14 +1,12 @@
 import { IDoesFilterPassParams } from '../../../interfaces/iFilter';
-import { RefSelector } from '../../../widgets/componentAnnotations';
 import {
     SimpleFilter,
-    ConditionPosition,
     ISimpleFilterParams,
     ISimpleFilterModel
 } from '../simpleFilter';
 import { AgInputTextField } from '../../../widgets/agInputTextField';
 import { makeNull } from '../../../utils/generic';
-import { setDisplayed } from '../../../utils/dom';
+import { setDisplayed, loadTemplate } from '../../../utils/dom';
 import { IAfterGuiAttachedParams } from '../../../interfaces/iAfterGuiAttachedParams';
 import { AgPromise } from '../../../utils';
 import { forEach } from '../../../utils/array';
@@ -68,8 +66,7 @@ export class TextFilter extends SimpleFilter<TextFilterModel> {
         }
     };
 
-    @RefSelector('eValue1') private readonly eValue1: AgInputTextField;
-    @RefSelector('eValue2') private readonly eValue2: AgInputTextField;
+    private readonly eValues: AgInputTextField[] = [];
 
     private comparator: TextComparator;
     private formatter: TextFormatter;
@@ -97,34 +94,22 @@ export class TextFilter extends SimpleFilter<TextFilterModel> {
         return this.textFilterParams.trimInput ? TextFilter.trimInput(value) : value;
     }
 
-    private addValueChangedListeners(): void {
-        const listener = () => this.onUiChanged();
-        this.eValue1.onValueChange(listener);
-        this.eValue2.onValueChange(listener);
-    }
-
     protected setParams(params: ITextFilterParams): void {
-        super.setParams(params);
-
         this.textFilterParams = params;
         this.comparator = this.textFilterParams.textCustomComparator || TextFilter.DEFAULT_COMPARATOR;
         this.formatter = this.textFilterParams.textFormatter ||
             (this.textFilterParams.caseSensitive ? TextFilter.DEFAULT_FORMATTER : TextFilter.DEFAULT_LOWERCASE_FORMATTER);
 
-        this.addValueChangedListeners();
+        super.setParams(params);
     }
 
-    protected setConditionIntoUi(model: TextFilterModel, position: ConditionPosition): void {
-        const positionOne = position === ConditionPosition.One;
-        const eValue = positionOne ? this.eValue1 : this.eValue2;
-
-        eValue.setValue(model ? model.filter : null);
+    protected setConditionIntoUi(model: TextFilterModel, position: number): void {
+        this.eValues[position].setValue(model ? model.filter : null);
     }
 
-    protected createCondition(position: ConditionPosition): TextFilterModel {
-        const positionOne = position === ConditionPosition.One;
-        const type = positionOne ? this.getCondition1Type() : this.getCondition2Type();
-        const eValue = positionOne ? this.eValue1 : this.eValue2;
+    protected createCondition(position: number): TextFilterModel {
+        const type = this.getConditionType(position);
+        const eValue = this.eValues[position];
         const value = this.getCleanValue(eValue);
         eValue.setValue(value, true); // ensure clean value is visible
 
@@ -166,32 +151,45 @@ export class TextFilter extends SimpleFilter<TextFilterModel> {
     }
 
     private forEachInput(action: (field: AgInputTextField) => void): void {
-        forEach([this.eValue1, this.eValue2], action);
+        forEach(this.eValues, action);
     }
 
     protected setValueFromFloatingFilter(value: string): void {
-        this.eValue1.setValue(value);
-        this.eValue2.setValue(null);
+        this.eValues[0].setValue(value);
     }
 
     protected getDefaultFilterOptions(): string[] {
         return TextFilter.DEFAULT_FILTER_OPTIONS;
     }
 
-    protected createValueTemplate(position: ConditionPosition): string {
-        const pos = position === ConditionPosition.One ? '1' : '2';
+    protected createValueElement(): HTMLElement {
+        const eBody = loadTemplate(/* html */`<div class="ag-filter-body" role="presentation"></div>`);
+        const eValue = this.createBean(new AgInputTextField());
+        const globalTranslate = this.gridOptionsWrapper.getLocaleTextFunc();
 
-        return /* html */`
-            <div class="ag-filter-body" ref="eCondition${pos}Body" role="presentation">
-                <ag-input-text-field class="ag-filter-filter" ref="eValue${pos}"></ag-input-text-field>
-            </div>`;
+        eValue.addCssClass('ag-filter-filter');
+        eValue.setInputPlaceholder(this.translate('filterOoo'));
+        eValue.setInputAriaLabel(globalTranslate('ariaFilterValue', 'Filter Value'));
+        eValue.onValueChange(() => this.onUiChanged());
+
+        eBody.appendChild(eValue.getGui());
+        this.eValues.push(eValue);
+
+        return eBody;
+    }
+
+    protected removeValueElements(startPosition: number, deleteCount: number): void {
+        this.destroyBeans(this.eValues.splice(startPosition, deleteCount));
     }
 
     protected updateUiVisibility(): void {
         super.updateUiVisibility();
 
-        setDisplayed(this.eCondition1Body, this.showValueFrom(this.getCondition1Type()));
-        setDisplayed(this.eCondition2Body, this.isCondition2Enabled() && this.showValueFrom(this.getCondition2Type()));
+        for (let position = 0; position < this.getNumConditions(); position++) {
+            const isDisplayed = this.isConditionEnabled(position) && this.showValueFrom(this.getConditionType(position));
+
+            setDisplayed(this.getConditionBody(position), isDisplayed);
+        }
     }
 
     public afterGuiAttached(params?: IAfterGuiAttachedParams) {
@@ -200,18 +198,17 @@ export class TextFilter extends SimpleFilter<TextFilterModel> {
         this.resetPlaceholder();
 
         if (!params || !params.suppressFocus) {
-            this.eValue1.getInputElement().focus();
+            this.eValues[0].getInputElement().focus();
         }
     }
 
-    protected isConditionUiComplete(position: ConditionPosition): boolean {
-        const positionOne = position === ConditionPosition.One;
-        const option = positionOne ? this.getCondition1Type() : this.getCondition2Type();
+    protected isConditionUiComplete(position: number): boolean {
+        const option = this.getConditionType(position);
 
         if (option === SimpleFilter.EMPTY) { return false; }
         if (this.doesFilterHaveHiddenInput(option)) { return true; }
 
-        return this.getCleanValue(positionOne ? this.eValue1 : this.eValue2) != null;
+        return this.getCleanValue(this.eValues[position]) != null;
     }
 
     protected individualConditionPasses(params: IDoesFilterPassParams, filterModel: TextFilterModel): boolean {
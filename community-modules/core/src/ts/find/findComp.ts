@@ -0,0 +1,138 @@
+import { Autowired, PostConstruct } from "../context/context";
+import { Component } from "../widgets/component";
+import { RefSelector } from "../widgets/componentAnnotations";
+import { AgInputTextField } from "../widgets/agInputTextField";
+import { AgCheckbox } from "../widgets/agCheckbox";
+import { Events } from "../eventKeys";
+import { FindChangedEvent } from "../events";
+import { KeyCode } from "../constants/keyCode";
+import { FindService } from "./findService";
+import { createIconNoSpan } from "../utils/icon";
+import { setAriaLabel } from "../utils/aria";
+
+/**
+ * Toolbar for finding text in the grid. The matches are highlighted as the search value is typed, enter moves to
+ * the next match and shift + enter to the previous one.
+ */
+export class FindComp extends Component {
+
+    private static TEMPLATE = /* html */
+        `<div class="ag-find" role="search">
+            <ag-input-text-field ref="eInput" class="ag-find-input"></ag-input-text-field>
+            <span ref="eCount" class="ag-find-count" aria-live="polite"></span>
+            <button type="button" ref="ePrevious" class="ag-find-button"></button>
+            <button type="button" ref="eNext" class="ag-find-button"></button>
+            <ag-checkbox ref="eCaseSensitive" class="ag-find-option"></ag-checkbox>
+            <ag-checkbox ref="eWholeWord" class="ag-find-option"></ag-checkbox>
+            <ag-checkbox ref="eRegex" class="ag-find-option"></ag-checkbox>
+        </div>`;
+
+    @Autowired('findService') private findService: FindService;
+
+    @RefSelector('eInput') private readonly eInput: AgInputTextField;
+    @RefSelector('eCount') private readonly eCount: HTMLElement;
+    @RefSelector('ePrevious') private readonly ePrevious: HTMLButtonElement;
+    @RefSelector('eNext') private readonly eNext: HTMLButtonElement;
+    @RefSelector('eCaseSensitive') private readonly eCaseSensitive: AgCheckbox;
+    @RefSelector('eWholeWord') private readonly eWholeWord: AgCheckbox;
+    @RefSelector('eRegex') private readonly eRegex: AgCheckbox;
+
+    constructor() {
+        super(FindComp.TEMPLATE);
+    }
+
+    @PostConstruct
+    private postConstruct(): void {
+        const translate = this.gridOptionsWrapper.getLocaleTextFunc();
+        const eInputElement = this.eInput.getInputElement();
+
+        this.eInput.setInputPlaceholder(translate('findOoo', 'Find...'));
+
+        this.setupButton(this.ePrevious, 'smallUp', translate('findPrevious', 'Previous Match'), () => this.findService.findPrevious());
+        this.setupButton(this.eNext, 'smallDown', translate('findNext', 'Next Match'), () => this.findService.findNext());
+
+        this.eCaseSensitive.setLabel(translate('findMatchCase', 'Match Case'));
+        this.eWholeWord.setLabel(translate('findWholeWord', 'Whole Word'));
+        this.eRegex.setLabel(translate('findRegex', 'Regular Expression'));
+
+        [this.eCaseSensitive, this.eWholeWord, this.eRegex].forEach(
+            eOption => eOption.onValueChange(() => this.onOptionsChanged())
+        );
+
+        this.addManagedListener(eInputElement, 'input', () => this.findService.setSearchValue(this.eInput.getValue()));
+        this.addManagedListener(eInputElement, 'keydown', this.onKeyDown.bind(this));
+        this.addManagedListener(this.eventService, Events.EVENT_FIND_CHANGED, this.onFindChanged.bind(this));
+
+        this.refreshFromService();
+        this.refreshCount(this.findService.getMatches().length, this.findService.getActiveMatchIndex());
+    }
+
+    private setupButton(eButton: HTMLButtonElement, iconName: string, label: string, action: () => void): void {
+        const eIcon = createIconNoSpan(iconName, this.gridOptionsWrapper);
+
+        if (eIcon) {
+            eButton.appendChild(eIcon);
+        }
+
+        eButton.setAttribute('title', label);
+        setAriaLabel(eButton, label);
+
+        this.addManagedListener(eButton, 'click', action);
+    }
+
+    private onKeyDown(e: KeyboardEvent): void {
+        if (e.keyCode !== KeyCode.ENTER) { return; }
+
+        e.preventDefault();
+
+        if (e.shiftKey) {
+            this.findService.findPrevious();
+        } else {
+            this.findService.findNext();
+        }
+    }
+
+    private onOptionsChanged(): void {
+        this.findService.setOptions({
+            caseSensitive: !!this.eCaseSensitive.getValue(),
+            wholeWord: !!this.eWholeWord.getValue(),
+            regex: !!this.eRegex.getValue()
+        });
+    }
+
+    private onFindChanged(event: FindChangedEvent): void {
+        // while the user is typing, the value isn't replaced by the one from the service
+        if (document.activeElement !== this.eInput.getInputElement()) {
+            this.refreshFromService();
+        }
+
+        this.refreshCount(event.matchCount, event.activeMatchIndex);
+    }
+
+    private refreshFromService(): void {
+        const options = this.findService.getOptions();
+
+        this.eInput.setValue(this.findService.getSearchValue(), true);
+        this.eCaseSensitive.setValue(!!options.caseSensitive, true);
+        this.eWholeWord.setValue(!!options.wholeWord, true);
+        this.eRegex.setValue(!!options.regex, true);
+    }
+
+    private refreshCount(matchCount: number, activeMatchIndex: number): void {
+        const translate = this.gridOptionsWrapper.getLocaleTextFunc();
+        const noMatches = matchCount === 0;
+
+        if (!this.findService.getSearchValue()) {
+            this.eCount.textContent = '';
+        } else if (noMatches) {
+            this.eCount.textContent = translate('findNoMatches', 'No matches');
+        } else if (activeMatchIndex < 0) {
+            this.eCount.textContent = `${matchCount} ${translate('findMatches', 'matches')}`;
+        } else {
+            this.eCount.textContent = `${activeMatchIndex + 1} ${translate('of', 'of')} ${matchCount}`;
+        }
+
+        this.ePrevious.disabled = noMatches;
+        this.eNext.disabled = noMatches;
+    }
+}
@@ -0,0 +1,151 @@
+import { FindService } from './findService';
+import { ColumnModel } from '../columns/columnModel';
+import { Column } from '../entities/column';
+import { RowNode } from '../entities/rowNode';
+import { GridOptionsWrapper } from '../gridOptionsWrapper';
+import { IClientSideRowModel } from '../interfaces/iClientSideRowModel';
+import { ValueService } from '../valueService/valueService';
+import { ValueFormatterService } from '../rendering/valueFormatterService';
+import { ControllersService } from '../controllersService';
+import { AnimationFrameService } from '../misc/animationFrameService';
+import { EventService } from '../eventService';
+import { Context } from '../context/context';
+import { Constants } from '../constants/constants';
+import { Events } from '../eventKeys';
+import { CellValueChangedEvent } from '../events';
+import { mock } from '../test-utils/mock';
+
+describe('createRegExp', () => {
+    it('returns null when there is nothing to find', () => {
+        expect(FindService.createRegExp('', {})).toBeNull();
+    });
+
+    it('matches the search value as typed unless regex is set', () => {
+        expect(FindService.findInText('a.b axb', FindService.createRegExp('a.b', {})!)).toStrictEqual([{ start: 0, end: 3 }]);
+        expect(FindService.findInText('a.b axb', FindService.createRegExp('a.b', { regex: true })!)).toStrictEqual([
+            { start: 0, end: 3 }, { start: 4, end: 7 }
+        ]);
+    });
+
+    it('ignores case unless caseSensitive is set', () => {
+        expect(FindService.findInText('Ab ab', FindService.createRegExp('ab', {})!)).toHaveLength(2);
+        expect(FindService.findInText('Ab ab', FindService.createRegExp('ab', { caseSensitive: true })!)).toStrictEqual([{ start: 3, end: 5 }]);
+    });
+
+    it('only matches whole words when wholeWord is set', () => {
+        expect(FindService.findInText('cat concat cat', FindService.createRegExp('cat', { wholeWord: true })!)).toStrictEqual([
+            { start: 0, end: 3 }, { start: 11, end: 14 }
+        ]);
+    });
+
+    it('returns null for invalid regular expressions', () => {
+        expect(FindService.createRegExp('(a', { regex: true })).toBeNull();
+    });
+});
+
+describe('findInText', () => {
+    it('skips empty matches', () => {
+        expect(FindService.findInText('baab', FindService.createRegExp('a*', { regex: true })!)).toStrictEqual([{ start: 1, end: 3 }]);
+    });
+});
+
+function createRowNode(data: any, props: Partial<RowNode> = {}): RowNode {
+    return { data, level: 0, setExpanded: jest.fn(), ...props } as Partial<RowNode> as RowNode;
+}
+
+function createColumn(colId: string): Column {
+    return { getColId: () => colId, isPinned: () => false } as Partial<Column> as Column;
+}
+
+function createService(rowNodes: RowNode[], columns: Column[]) {
+    const gridOptionsWrapper = mock<GridOptionsWrapper>('getFindSearchValue', 'getFindOptions', 'isPagination', 'getApi', 'getColumnApi');
+    const columnModel = mock<ColumnModel>('getAllDisplayedColumns');
+    columnModel.getAllDisplayedColumns.mockReturnValue(columns);
+
+    const rowModel = mock<IClientSideRowModel>('getType', 'forEachNodeAfterFilterAndSort');
+    rowModel.getType.mockReturnValue(Constants.ROW_MODEL_TYPE_CLIENT_SIDE);
+    rowModel.forEachNodeAfterFilterAndSort.mockImplementation(callback => rowNodes.forEach(callback));
+
+    const valueService = mock<ValueService>('getValue');
+    valueService.getValue.mockImplementation((column, rowNode) => rowNode.data[column.getColId()]);
+
+    const valueFormatterService = mock<ValueFormatterService>('formatValue');
+    valueFormatterService.formatValue.mockReturnValue(null);
+
+    const controllersService = mock<ControllersService>('whenReady');
+    const animationFrameService = mock<AnimationFrameService>('flushAllFrames');
+    const eventService = new EventService();
+
+    const context = new Context({
+        providedBeanInstances: {
+            gridOptionsWrapper, columnModel, rowModel, valueService, valueFormatterService, controllersService, animationFrameService,
+            eventService, paginationProxy: null, columnApi: null, gridApi: null, frameworkOverrides: null
+        },
+        beanClasses: [FindService],
+        debug: false
+    }, { log: () => {} });
+
+    const service: FindService = context.getBean('findService');
+
+    return { service, valueService, animationFrameService, eventService };
+}
+
+describe('refreshing the matches', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    const columns = [createColumn('a'), createColumn('b')];
+
+    it('only searches the edited cell when a value changes', () => {
+        const rowNodes = [createRowNode({ a: 'x', b: 'y' }), createRowNode({ a: 'y', b: 'y' })];
+        const { service, valueService, eventService } = createService(rowNodes, columns);
+
+        service.setSearchValue('x');
+        valueService.getValue.mockClear();
+
+        rowNodes[1].data.b = 'xx';
+        const event = { type: Events.EVENT_CELL_VALUE_CHANGED, node: rowNodes[1], column: columns[1] } as Partial<CellValueChangedEvent>;
+        eventService.dispatchEvent(event as CellValueChangedEvent);
+
+        expect(valueService.getValue).toHaveBeenCalledTimes(1);
+        expect(service.getMatches().map(match => [match.node, match.column, match.start])).toEqual([
+            [rowNodes[0], columns[0], 0],
+            [rowNodes[1], columns[1], 0],
+            [rowNodes[1], columns[1], 1]
+        ]);
+    });
+
+    it('searches the cells once after the model updates settle', () => {
+        const { service, valueService, eventService } = createService([createRowNode({ a: 'x', b: 'y' })], columns);
+
+        service.setSearchValue('x');
+        valueService.getValue.mockClear();
+
+        eventService.dispatchEvent({ type: Events.EVENT_MODEL_UPDATED });
+        eventService.dispatchEvent({ type: Events.EVENT_MODEL_UPDATED });
+
+        expect(valueService.getValue).not.toHaveBeenCalled();
+
+        jest.runAllTimers();
+
+        expect(valueService.getValue).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not search the cells again when revealing a match expands its group', () => {
+        const group = createRowNode(null, { expanded: false });
+        const rowNode = createRowNode({ a: 'x', b: 'y' }, { parent: group, rowIndex: 1 });
+        const { service, valueService, animationFrameService, eventService } = createService([rowNode], columns);
+
+        (group.setExpanded as jest.Mock).mockImplementation(() => eventService.dispatchEvent({ type: Events.EVENT_MODEL_UPDATED }));
+        service.setSearchValue('x');
+        valueService.getValue.mockClear();
+
+        expect(service.findNext()).toBe(service.getMatches()[0]);
+        expect(group.setExpanded).toHaveBeenCalledWith(true);
+        expect(animationFrameService.flushAllFrames).toHaveBeenCalled();
+
+        jest.runAllTimers();
+
+        expect(valueService.getValue).not.toHaveBeenCalled();
+    });
+});
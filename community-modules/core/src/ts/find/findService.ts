@@ -0,0 +1,383 @@
+import { Autowired, Bean, PostConstruct } from "../context/context";
+import { BeanStub } from "../context/beanStub";
+import { ColumnModel } from "../columns/columnModel";
+import { Column } from "../entities/column";
+import { RowNode } from "../entities/rowNode";
+import { Events } from "../eventKeys";
+import { CellValueChangedEvent, FindChangedEvent } from "../events";
+import { IRowModel } from "../interfaces/iRowModel";
+import { IClientSideRowModel } from "../interfaces/iClientSideRowModel";
+import { FindMatch, FindOptions } from "../interfaces/iFind";
+import { ValueService } from "../valueService/valueService";
+import { ValueFormatterService } from "../rendering/valueFormatterService";
+import { PaginationProxy } from "../pagination/paginationProxy";
+import { ControllersService } from "../controllersService";
+import { GridBodyCtrl } from "../gridBodyComp/gridBodyCtrl";
+import { AnimationFrameService } from "../misc/animationFrameService";
+import { Constants } from "../constants/constants";
+import { escapeRegExp } from "../utils/string";
+
+/**
+ * Finds the search value in the formatted values of the cells, without filtering out the rows that don't match
+ * like the quick filter does. Matches are highlighted by the cells, and findNext() / findPrevious() step through
+ * them, expanding groups and scrolling the grid so the active match can be seen.
+ */
+@Bean('findService')
+export class FindService extends BeanStub {
+
+    @Autowired('columnModel') private columnModel: ColumnModel;
+    @Autowired('rowModel') private rowModel: IRowModel;
+    @Autowired('valueService') private valueService: ValueService;
+    @Autowired('valueFormatterService') private valueFormatterService: ValueFormatterService;
+    @Autowired('paginationProxy') private paginationProxy: PaginationProxy;
+    @Autowired('controllersService') private controllersService: ControllersService;
+    @Autowired('animationFrameService') private animationFrameService: AnimationFrameService;
+
+    // the rows and columns can change many times in a row, eg while rows stream in, so the cells are searched once they settle
+    private static RESCAN_DEBOUNCE_MILLIS = 100;
+
+    private gridBodyCon: GridBodyCtrl;
+
+    private rescanTimeout: number | undefined;
+    private revealingMatch = false;
+
+    private searchValue = '';
+    private options: FindOptions = {};
+
+    private matches: FindMatch[] = [];
+    private matchesByNode = new Map<RowNode, FindMatch[]>();
+    private activeMatchIndex = -1;
+
+    @PostConstruct
+    private postConstruct(): void {
+        this.searchValue = this.gridOptionsWrapper.getFindSearchValue() || '';
+        this.options = this.gridOptionsWrapper.getFindOptions() || {};
+
+        this.controllersService.whenReady(() => {
+            this.gridBodyCon = this.controllersService.getGridBodyController();
+        });
+
+        this.addManagedListener(this.eventService, Events.EVENT_MODEL_UPDATED, this.onModelUpdated.bind(this));
+        this.addManagedListener(this.eventService, Events.EVENT_CELL_VALUE_CHANGED, this.onCellValueChanged.bind(this));
+        this.addManagedListener(this.eventService, Events.EVENT_DISPLAYED_COLUMNS_CHANGED, this.scheduleRescan.bind(this));
+
+        this.addDestroyFunc(() => window.clearTimeout(this.rescanTimeout));
+
+        this.refreshMatches();
+    }
+
+    /** Returns the regular expression for the search value, or null if there is nothing to search for */
+    public static createRegExp(searchValue: string, options: FindOptions): RegExp | null {
+        if (!searchValue) { return null; }
+
+        let source = options.regex ? searchValue : escapeRegExp(searchValue);
+
+        if (options.wholeWord) {
+            source = `\\b(?:${source})\\b`;
+        }
+
+        try {
+            return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+        } catch (e) {
+            // the regex is still being typed, so it matches nothing rather than warning on every key press
+            return null;
+        }
+    }
+
+    /** Returns the start and end of each match of the regular expression in the text */
+    public static findInText(text: string, regExp: RegExp): { start: number, end: number; }[] {
+        const results: { start: number, end: number; }[] = [];
+
+        regExp.lastIndex = 0;
+
+        let match = regExp.exec(text);
+
+        while (match) {
+            const start = match.index;
+            const end = start + match[0].length;
+
+            // empty matches (eg from `a*`) can't be highlighted, and would never move lastIndex on
+            if (end > start) {
+                results.push({ start, end });
+            } else {
+                regExp.lastIndex++;
+            }
+
+            match = regExp.exec(text);
+        }
+
+        return results;
+    }
+
+    public setSearchValue(searchValue: string | null | undefined): void {
+        this.searchValue = searchValue || '';
+        this.activeMatchIndex = -1;
+        this.refreshMatches();
+    }
+
+    public getSearchValue(): string {
+        return this.searchValue;
+    }
+
+    public setOptions(options: FindOptions | null | undefined): void {
+        this.options = options || {};
+        this.activeMatchIndex = -1;
+        this.refreshMatches();
+    }
+
+    public getOptions(): FindOptions {
+        return this.options;
+    }
+
+    public getMatches(): FindMatch[] {
+        this.flushRescan();
+        return this.matches.slice();
+    }
+
+    public getActiveMatch(): FindMatch | null {
+        this.flushRescan();
+        return this.getLastActiveMatch();
+    }
+
+    /** Index of the active match, or -1 if findNext() / findPrevious() have not been called since the search changed */
+    public getActiveMatchIndex(): number {
+        this.flushRescan();
+        return this.activeMatchIndex;
+    }
+
+    /** Cells ask for their matches while rendering, so they get the last matches rather than waiting on a pending rescan */
+    public getCellMatches(node: RowNode, column: Column): FindMatch[] {
+        const nodeMatches = this.matchesByNode.get(node);
+
+        return nodeMatches ? nodeMatches.filter(match => match.column === column) : [];
+    }
+
+    public isActiveMatch(match: FindMatch): boolean {
+        return match === this.getLastActiveMatch();
+    }
+
+    public findNext(): FindMatch | null {
+        return this.moveActiveMatch(1);
+    }
+
+    public findPrevious(): FindMatch | null {
+        return this.moveActiveMatch(-1);
+    }
+
+    private moveActiveMatch(step: number): FindMatch | null {
+        this.flushRescan();
+
+        const matchCount = this.matches.length;
+
+        if (!matchCount) { return null; }
+
+        if (this.activeMatchIndex < 0) {
+            this.activeMatchIndex = step > 0 ? 0 : matchCount - 1;
+        } else {
+            this.activeMatchIndex = (this.activeMatchIndex + step + matchCount) % matchCount;
+        }
+
+        this.revealMatch(this.matches[this.activeMatchIndex]);
+        this.dispatchFindChanged();
+
+        return this.getActiveMatch();
+    }
+
+    private revealMatch(match: FindMatch): void {
+        const { node, column } = match;
+        const collapsedParents: RowNode[] = [];
+
+        for (let parent = node.parent; parent && parent.level >= 0; parent = parent.parent) {
+            if (!parent.expanded) {
+                collapsedParents.push(parent);
+            }
+        }
+
+        if (collapsedParents.length) {
+            this.revealingMatch = true;
+
+            // expanding from the top down, so each group is displayed by the time its children are expanded
+            collapsedParents.reverse().forEach(parent => parent.setExpanded(true));
+
+            // the expanded rows are displayed now rather than on the next frame, so the match has a row index
+            this.animationFrameService.flushAllFrames();
+
+            this.revealingMatch = false;
+        }
+
+        if (!this.gridBodyCon || node.rowIndex == null) { return; }
+
+        const scrollFeature = this.gridBodyCon.getScrollFeature();
+
+        if (this.gridOptionsWrapper.isPagination()) {
+            this.paginationProxy.goToPageWithIndex(node.rowIndex);
+        }
+
+        scrollFeature.ensureIndexVisible(node.rowIndex);
+
+        // pinned columns are always visible
+        if (!column.isPinned()) {
+            scrollFeature.ensureColumnVisible(column);
+        }
+    }
+
+    private onModelUpdated(): void {
+        // the client-side row model searches the rows inside collapsed groups too, so expanding them finds nothing new
+        if (this.revealingMatch && this.rowModel.getType() === Constants.ROW_MODEL_TYPE_CLIENT_SIDE) { return; }
+
+        this.scheduleRescan();
+    }
+
+    private onCellValueChanged(event: CellValueChangedEvent): void {
+        // a pending rescan searches the new value anyway
+        if (this.rescanTimeout != null) { return; }
+
+        const regExp = FindService.createRegExp(this.searchValue, this.options);
+        const { node, column } = event;
+
+        if (!regExp || this.columnModel.getAllDisplayedColumns().indexOf(column) < 0) { return; }
+
+        const matchesBefore = this.matchesByNode.get(node) || [];
+        const otherCellMatches = matchesBefore.filter(match => match.column !== column);
+        const cellMatches = this.findCellMatches(node, column, regExp);
+
+        // no matches before or after the change
+        if (!cellMatches.length && otherCellMatches.length === matchesBefore.length) { return; }
+
+        const nodeMatches = this.sortCellMatches(otherCellMatches.concat(cellMatches));
+
+        if (nodeMatches.length) {
+            this.matchesByNode.set(node, nodeMatches);
+        } else {
+            this.matchesByNode.delete(node);
+        }
+
+        this.collectMatches();
+    }
+
+    private sortCellMatches(matches: FindMatch[]): FindMatch[] {
+        const columns = this.columnModel.getAllDisplayedColumns();
+
+        return matches.sort((a, b) => columns.indexOf(a.column) - columns.indexOf(b.column) || a.start - b.start);
+    }
+
+    private scheduleRescan(): void {
+        // nothing to refresh when there isn't a search, saves going through all the cells on every change
+        if (!this.searchValue && !this.matches.length) { return; }
+
+        window.clearTimeout(this.rescanTimeout);
+        this.rescanTimeout = window.setTimeout(() => this.refreshMatches(), FindService.RESCAN_DEBOUNCE_MILLIS);
+    }
+
+    private flushRescan(): void {
+        if (this.rescanTimeout != null) {
+            this.refreshMatches();
+        }
+    }
+
+    private refreshMatches(): void {
+        const regExp = FindService.createRegExp(this.searchValue, this.options);
+
+        window.clearTimeout(this.rescanTimeout);
+        this.rescanTimeout = undefined;
+
+        this.matchesByNode = new Map();
+
+        if (regExp) {
+            const columns = this.columnModel.getAllDisplayedColumns();
+
+            this.forEachSearchableNode(node => {
+                const nodeMatches: FindMatch[] = [];
+
+                columns.forEach(column => nodeMatches.push(...this.findCellMatches(node, column, regExp)));
+
+                if (nodeMatches.length) {
+                    this.matchesByNode.set(node, nodeMatches);
+                }
+            });
+        }
+
+        this.collectMatches();
+    }
+
+    private findCellMatches(node: RowNode, column: Column, regExp: RegExp): FindMatch[] {
+        const text = this.getCellText(node, column);
+
+        if (text == null) { return []; }
+
+        return FindService.findInText(text, regExp).map(({ start, end }) => ({ node, column, start, end }));
+    }
+
+    /** Puts the matches of each row in the order of the rows, without formatting the values again */
+    private collectMatches(): void {
+        const activeMatch = this.getLastActiveMatch();
+
+        this.matches = [];
+        this.activeMatchIndex = -1;
+
+        if (this.matchesByNode.size) {
+            this.forEachSearchableNode(node => {
+                const nodeMatches = this.matchesByNode.get(node);
+
+                if (!nodeMatches) { return; }
+
+                nodeMatches.forEach(match => {
+                    // the active match stays active while it still matches, eg when another row is edited
+                    if (activeMatch && activeMatch.node === node && activeMatch.column === match.column && activeMatch.start === match.start) {
+                        this.activeMatchIndex = this.matches.length;
+                    }
+
+                    this.matches.push(match);
+                });
+            });
+        }
+
+        this.dispatchFindChanged();
+    }
+
+    private forEachSearchableNode(callback: (node: RowNode) => void): void {
+        // the client-side row model has all the rows, including the ones inside collapsed groups
+        if (this.rowModel.getType() === Constants.ROW_MODEL_TYPE_CLIENT_SIDE) {
+            (this.rowModel as IClientSideRowModel).forEachNodeAfterFilterAndSort(callback);
+            return;
+        }
+
+        // other row models only have the rows that are loaded
+        const rowCount = this.rowModel.getRowCount();
+
+        for (let i = 0; i < rowCount; i++) {
+            const node = this.rowModel.getRow(i);
+
+            if (node && !node.stub) {
+                callback(node);
+            }
+        }
+    }
+
+    /** The text shown in the cell when it doesn't have a cell renderer, ie the formatted value */
+    private getCellText(node: RowNode, column: Column): string | null {
+        const value = this.valueService.getValue(column, node);
+        const valueFormatted = this.valueFormatterService.formatValue(column, node, null, value);
+        const valueToDisplay = valueFormatted != null ? valueFormatted : value;
+
+        return valueToDisplay != null ? valueToDisplay.toString() : null;
+    }
+
+    /** The active match from the last search, without waiting on a pending rescan */
+    private getLastActiveMatch(): FindMatch | null {
+        return this.activeMatchIndex >= 0 ? this.matches[this.activeMatchIndex] : null;
+    }
+
+    private dispatchFindChanged(): void {
+        const event: FindChangedEvent = {
+            type: Events.EVENT_FIND_CHANGED,
+            api: this.gridOptionsWrapper.getApi()!,
+            columnApi: this.gridOptionsWrapper.getColumnApi()!,
+            matchCount: this.matches.length,
+            activeMatch: this.getLastActiveMatch(),
+            activeMatchIndex: this.activeMatchIndex
+        };
+
+        this.eventService.dispatchEvent(event);
+    }
+}
@@ -93,6 +93,12 @@ import { ControllersService } from "./controllersService";
 import { FakeHScrollComp } from "./gridBodyComp/fakeHScrollComp";
 import { PinnedWidthService } from "./gridBodyComp/pinnedWidthService";
 import { RowContainerComp } from "./gridBodyComp/rowContainer/rowContainerComp";
+import { StateService } from "./state/stateService";
+import { ValidationService } from "./valueService/validationService";
+import { AdvancedFilterService } from "./filter/advanced/advancedFilterService";
+import { FilterExpressionService } from "./filter/expression/filterExpressionService";
+import { FindService } from "./find/findService";
+import { ConditionalFormattingService } from "./styling/conditionalFormattingService";
 
 export interface GridParams {
     // used by Web Components
@@ -309,7 +315,8 @@ export class GridCoreCreator {
             SelectableService, AutoGroupColService, ChangeDetectionService, AnimationFrameService,
             DetailRowCompCache, UndoRedoService, AgStackComponentsRegistry, ColumnDefFactory,
             RowCssClassCalculator, RowNodeBlockLoader, RowNodeSorter, ControllersService,
-            PinnedWidthService
+            PinnedWidthService, StateService, ValidationService, AdvancedFilterService,
+            FilterExpressionService, FindService, ConditionalFormattingService
         ];
 
         const moduleBeans = this.extractModuleEntity(registeredModules, (module) => module.beans ? module.beans : []);
@@ -7,7 +7,7 @@ import { GridOptionsWrapper } from "./gridOptionsWrapper";
 import { GridBodyComp } from "./gridBodyComp/gridBodyComp";
 import { ValueService } from "./valueService/valueService";
 import { EventService } from "./eventService";
-import { ColDef, ColGroupDef, IAggFunc } from "./entities/colDef";
+import { ColDef, ColGroupDef, IAggFunc, IStatefulAggFunc } from "./entities/colDef";
 import { RowNode } from "./entities/rowNode";
 import { Constants } from "./constants/constants";
 import { Column } from "./entities/column";
@@ -22,11 +22,17 @@ import { IViewportDatasource } from "./interfaces/iViewportDatasource";
 import { IMenuFactory } from "./interfaces/iMenuFactory";
 import { IAggFuncService } from "./interfaces/iAggFuncService";
 import { IFilterComp } from "./interfaces/iFilter";
-import { CsvExportParams, ProcessCellForExportParams } from "./interfaces/exportParams";
+import {
+    CsvExportParams,
+    CsvServerSideExportParams,
+    CsvStreamExportParams,
+    ProcessCellForExportParams
+} from "./interfaces/exportParams";
 import {
     ExcelExportMultipleSheetParams,
     ExcelExportParams,
     ExcelFactoryMode,
+    ExcelServerSideExportParams,
     IExcelCreator
 } from "./interfaces/iExcelCreator";
 import { IDatasource } from "./interfaces/iDatasource";
@@ -83,8 +89,25 @@ import { PinnedRowModel } from "./pinnedRowModel/pinnedRowModel";
 import { IImmutableService } from "./interfaces/iImmutableService";
 import { IInfiniteRowModel } from "./interfaces/iInfiniteRowModel";
 import { ICsvCreator } from "./interfaces/iCsvCreator";
+import { IPdfCreator, PdfExportParams } from "./interfaces/iPdfCreator";
+import { IJsonCreator, JsonExportParams } from "./interfaces/iJsonCreator";
+import { HtmlExportParams, IHtmlCreator } from "./interfaces/iHtmlCreator";
+import { ExcelImportParams, IExcelImporter } from "./interfaces/iExcelImporter";
+import { CsvImportParams, ICsvImporter } from "./interfaces/iCsvImporter";
+import { ImportResult } from "./interfaces/importParams";
+import { AgPromise } from "./utils/promise";
 import { ModuleRegistry } from "./modules/moduleRegistry";
 import { UndoRedoService } from "./undoRedo/undoRedoService";
+import { CellValidationError, ValidationService } from "./valueService/validationService";
+import { AdvancedFilterService } from "./filter/advanced/advancedFilterService";
+import { AdvancedFilterModel } from "./interfaces/advancedFilterModel";
+import { FilterExpressionService } from "./filter/expression/filterExpressionService";
+import { FilterExpressionError } from "./filter/expression/filterExpressionParser";
+import { FindService } from "./find/findService";
+import { ConditionalFormattingService } from "./styling/conditionalFormattingService";
+import { ConditionalFormattingRule } from "./interfaces/conditionalFormatting";
+import { FindMatch, FindOptions } from "./interfaces/iFind";
+import { UndoRedoAction, UndoRedoActionHandler } from "./undoRedo/undoRedoStack";
 import { RowDropZoneEvents, RowDropZoneParams } from "./gridBodyComp/rowDragFeature";
 import { iterateObject, removeAllReferences } from "./utils/object";
 import { exists, missing } from "./utils/generic";
@@ -102,6 +125,9 @@ import { GridBodyCtrl } from "./gridBodyComp/gridBodyCtrl";
 import { OverlayWrapperComponent } from "./rendering/overlays/overlayWrapperComponent";
 import { HeaderPosition } from "./headerRendering/header/headerPosition";
 import { NavigationService } from "./gridBodyComp/navigationService";
+import { StateService } from "./state/stateService";
+import { GridState } from "./interfaces/gridState";
+import { ColumnarRowData } from "./interfaces/iColumnarRowData";
 
 export interface StartEditingCellParams {
     rowIndex: number;
@@ -179,7 +205,12 @@ export class GridApi {
 
     @Optional('immutableService') private immutableService: IImmutableService;
     @Optional('csvCreator') private csvCreator: ICsvCreator;
+    @Optional('csvImporter') private csvImporter: ICsvImporter;
+    @Optional('pdfCreator') private pdfCreator: IPdfCreator;
+    @Optional('jsonCreator') private jsonCreator: IJsonCreator;
+    @Optional('htmlCreator') private htmlCreator: IHtmlCreator;
     @Optional('excelCreator') private excelCreator: IExcelCreator;
+    @Optional('excelImporter') private excelImporter: IExcelImporter;
     @Autowired('rowRenderer') private rowRenderer: RowRenderer;
     @Autowired('navigationService') private navigationService: NavigationService;
     @Autowired('filterManager') private filterManager: FilterManager;
@@ -187,6 +218,11 @@ export class GridApi {
     @Autowired('selectionService') private selectionService: SelectionService;
     @Autowired('gridOptionsWrapper') private gridOptionsWrapper: GridOptionsWrapper;
     @Autowired('valueService') private valueService: ValueService;
+    @Autowired('validationService') private validationService: ValidationService;
+    @Autowired('advancedFilterService') private advancedFilterService: AdvancedFilterService;
+    @Autowired('filterExpressionService') private filterExpressionService: FilterExpressionService;
+    @Autowired('findService') private findService: FindService;
+    @Autowired('conditionalFormattingService') private conditionalFormattingService: ConditionalFormattingService;
     @Autowired('alignedGridsService') private alignedGridsService: AlignedGridsService;
     @Autowired('eventService') private eventService: EventService;
     @Autowired('pinnedRowModel') private pinnedRowModel: PinnedRowModel;
@@ -210,6 +246,7 @@ export class GridApi {
     @Optional('rowNodeBlockLoader') private rowNodeBlockLoader: RowNodeBlockLoader;
     @Optional('ssrmTransactionManager') private serverSideTransactionManager: IServerSideTransactionManager;
     @Optional('controllersService') private controllersService: ControllersService;
+    @Autowired('stateService') private stateService: StateService;
 
     private overlayWrapperComp: OverlayWrapperComponent;
     private gridBodyComp: GridBodyComp;
@@ -306,6 +343,80 @@ export class GridApi {
         }
     }
 
+    /** Returns the CSV as a stream of UTF-8 bytes, the rows are serialised a chunk at a time as the stream is read */
+    public getDataAsCsvStream(params?: CsvStreamExportParams): ReadableStream<Uint8Array> | undefined {
+        if (ModuleRegistry.assertRegistered(ModuleNames.CsvExportModule, 'api.getDataAsCsvStream')) {
+            return this.csvCreator.getDataAsCsvStream(params);
+        }
+    }
+
+    /** Downloads the CSV, serialised a chunk at a time so large exports don't block the browser */
+    public exportDataAsCsvStream(params?: CsvStreamExportParams): void {
+        if (ModuleRegistry.assertRegistered(ModuleNames.CsvExportModule, 'api.exportDataAsCsvStream')) {
+            this.csvCreator.exportDataAsCsvStream(params);
+        }
+    }
+
+    /** Stops any streaming CSV exports in progress */
+    public cancelCsvExport(): void {
+        if (ModuleRegistry.assertRegistered(ModuleNames.CsvExportModule, 'api.cancelCsvExport')) {
+            this.csvCreator.cancelCsvExport();
+        }
+    }
+
+    /**
+     * Exports all the rows of the Server-Side or Infinite Row Model's datasource, not only the loaded ones.
+     * Resolves with false if the datasource fails to load a page.
+     */
+    public exportDataAsCsvFromServer(params?: CsvServerSideExportParams): AgPromise<boolean> | undefined {
+        if (ModuleRegistry.assertRegistered(ModuleNames.CsvExportModule, 'api.exportDataAsCsvFromServer')) {
+            return this.csvCreator.exportDataAsCsvFromServer(params);
+        }
+    }
+
+    /** Reads the rows of CSV text or a CSV file into the grid, resolves with null if the import is cancelled */
+    public importCsv(data: string | Blob, params?: CsvImportParams): AgPromise<ImportResult> | undefined {
+        if (ModuleRegistry.assertRegistered(ModuleNames.CsvExportModule, 'api.importCsv')) {
+            return this.csvImporter.importCsv(data, params);
+        }
+    }
+
+    public getDataAsPdf(params?: PdfExportParams): Blob | undefined {
+        if (ModuleRegistry.assertRegistered(ModuleNames.CsvExportModule, 'api.getDataAsPdf')) {
+            return this.pdfCreator.getDataAsPdf(params);
+        }
+    }
+
+    public exportDataAsPdf(params?: PdfExportParams): void {
+        if (ModuleRegistry.assertRegistered(ModuleNames.CsvExportModule, 'api.exportDataAsPdf')) {
+            this.pdfCreator.exportDataAsPdf(params);
+        }
+    }
+
+    public getDataAsJson(params?: JsonExportParams): string | undefined {
+        if (ModuleRegistry.assertRegistered(ModuleNames.CsvExportModule, 'api.getDataAsJson')) {
+            return this.jsonCreator.getDataAsJson(params);
+        }
+    }
+
+    public exportDataAsJson(params?: JsonExportParams): void {
+        if (ModuleRegistry.assertRegistered(ModuleNames.CsvExportModule, 'api.exportDataAsJson')) {
+            this.jsonCreator.exportDataAsJson(params);
+        }
+    }
+
+    public getDataAsHtml(params?: HtmlExportParams): string | undefined {
+        if (ModuleRegistry.assertRegistered(ModuleNames.CsvExportModule, 'api.getDataAsHtml')) {
+            return this.htmlCreator.getDataAsHtml(params);
+        }
+    }
+
+    public exportDataAsHtml(params?: HtmlExportParams): void {
+        if (ModuleRegistry.assertRegistered(ModuleNames.CsvExportModule, 'api.exportDataAsHtml')) {
+            this.htmlCreator.exportDataAsHtml(params);
+        }
+    }
+
     public getDataAsExcel(params?: ExcelExportParams): string | Blob | undefined {
         if (ModuleRegistry.assertRegistered(ModuleNames.ExcelExportModule, 'api.getDataAsExcel')) {
             const exportMode: 'xml' | 'xlsx' = (params && params.exportMode) || 'xlsx';
@@ -328,6 +439,13 @@ export class GridApi {
         }
     }
 
+    /** The Excel version of exportDataAsCsvFromServer() */
+    public exportDataAsExcelFromServer(params?: ExcelServerSideExportParams): AgPromise<boolean> | undefined {
+        if (ModuleRegistry.assertRegistered(ModuleNames.ExcelExportModule, 'api.exportDataAsExcelFromServer')) {
+            return this.excelCreator.exportDataAsExcelFromServer(params);
+        }
+    }
+
     public getSheetDataForExcel(params?: ExcelExportParams): string | undefined {
         if (ModuleRegistry.assertRegistered(ModuleNames.ExcelExportModule, 'api.getSheetDataForExcel')) {
             const exportMode: 'xml' | 'xlsx' = (params && params.exportMode) || 'xlsx';
@@ -348,6 +466,13 @@ export class GridApi {
         }
     }
 
+    /** Reads the rows of an .xlsx workbook into the grid, resolves with null if the import fails or is cancelled */
+    public importFromExcel(data: Blob | ArrayBuffer, params?: ExcelImportParams): AgPromise<ImportResult> | undefined {
+        if (ModuleRegistry.assertRegistered(ModuleNames.ExcelExportModule, 'api.importFromExcel')) {
+            return this.excelImporter.importFromExcel(data, params);
+        }
+    }
+
     /** @deprecated */
     public setEnterpriseDatasource(datasource: IServerSideDatasource) {
         console.warn(`ag-grid: since version 18.x, api.setEnterpriseDatasource() should be replaced with api.setServerSideDatasource()`);
@@ -418,6 +543,15 @@ export class GridApi {
         }
     }
 
+    public setColumnarRowData(columnarRowData: ColumnarRowData) {
+        if (this.gridOptionsWrapper.isRowModelDefault()) {
+            this.selectionService.reset();
+            this.clientSideRowModel.setColumnarRowData(columnarRowData);
+        } else {
+            console.warn('cannot call setColumnarRowData unless using normal row model');
+        }
+    }
+
     /** @deprecated */
     public setFloatingTopRowData(rows: any[]): void {
         console.warn('AG Grid: since v12, api.setFloatingTopRowData() is now api.setPinnedTopRowData()');
@@ -828,6 +962,12 @@ export class GridApi {
     }
 
     public forEachNode(callback: (rowNode: RowNode, index: number) => void) {
+        // columnar rows don't all have nodes, the grid only visits the nodes that exist but the application expects every row
+        if (this.clientSideRowModel && this.clientSideRowModel.isColumnar()) {
+            this.clientSideRowModel.forEachLeafNode(callback);
+            return;
+        }
+
         this.rowModel.forEachNode(callback);
     }
 
@@ -945,6 +1085,104 @@ export class GridApi {
         return this.filterManager.getFilterModel();
     }
 
+    /** Sets the advanced filter, which is applied along with any column filters. Requires enableAdvancedFilter = true */
+    public setAdvancedFilterModel(model: AdvancedFilterModel | null): void {
+        this.advancedFilterService.setModel(model);
+    }
+
+    public getAdvancedFilterModel(): AdvancedFilterModel | null {
+        return this.advancedFilterService.getModel();
+    }
+
+    /** Opens a dialog where the user can build the advanced filter */
+    public showAdvancedFilterBuilder(): void {
+        this.advancedFilterService.showBuilder();
+    }
+
+    public hideAdvancedFilterBuilder(): void {
+        this.advancedFilterService.hideBuilder();
+    }
+
+    /**
+     * Sets the column filters from an expression, eg `price > 100 and country in ("UK", "IE")`.
+     * Returns the error if the expression can't be parsed or doesn't match the columns, in which case the filters are not changed.
+     */
+    public setFilterExpression(expression: string): FilterExpressionError | null {
+        return this.filterExpressionService.setExpression(expression);
+    }
+
+    /** Returns the column filters written as an expression */
+    public getFilterExpression(): string {
+        return this.filterExpressionService.getExpression();
+    }
+
+    /** Sets the text to find in the cells. Matches are highlighted, rows that don't match are not filtered out */
+    public setFindSearchValue(searchValue: string | null): void {
+        this.findService.setSearchValue(searchValue);
+    }
+
+    public getFindSearchValue(): string {
+        return this.findService.getSearchValue();
+    }
+
+    public setFindOptions(options: FindOptions | null): void {
+        this.findService.setOptions(options);
+    }
+
+    /** Moves to the next match, expanding groups and scrolling so it can be seen. Returns null if nothing matches */
+    public findNext(): FindMatch | null {
+        return this.findService.findNext();
+    }
+
+    /** Moves to the previous match, expanding groups and scrolling so it can be seen. Returns null if nothing matches */
+    public findPrevious(): FindMatch | null {
+        return this.findService.findPrevious();
+    }
+
+    /** Returns all the matches, in the order the rows and columns are displayed */
+    public getFindMatches(): FindMatch[] {
+        return this.findService.getMatches();
+    }
+
+    public getActiveFindMatch(): FindMatch | null {
+        return this.findService.getActiveMatch();
+    }
+
+    /** Replaces all the conditional formatting rules. Rules earlier in the list win when rules conflict */
+    public setConditionalFormattingRules(rules: ConditionalFormattingRule[] | null): void {
+        this.conditionalFormattingService.setRules(rules);
+    }
+
+    public getConditionalFormattingRules(): ConditionalFormattingRule[] {
+        return this.conditionalFormattingService.getRules();
+    }
+
+    /** Opens the dialog for editing the conditional formatting rules of the column */
+    public showConditionalFormattingEditor(colKey: string | Column): void {
+        const column = this.columnModel.getPrimaryColumn(colKey) || this.columnModel.getGridColumn(colKey);
+
+        if (!column) {
+            console.warn(`AG Grid: showConditionalFormattingEditor() could not find column ${colKey}`);
+            return;
+        }
+
+        this.conditionalFormattingService.showEditor(column);
+    }
+
+    public hideConditionalFormattingEditor(): void {
+        this.conditionalFormattingService.hideEditor();
+    }
+
+    /** Returns a JSON serialisable snapshot of the grid state, which can be restored later with setState() */
+    public getState(): GridState {
+        return this.stateService.getState();
+    }
+
+    /** Restores the grid state. Only the parts of the state provided are restored. */
+    public setState(state: GridState): void {
+        this.stateService.setState(state);
+    }
+
     public getFocusedCell(): CellPosition | null {
         return this.focusService.getFocusedCell();
     }
@@ -1367,6 +1605,24 @@ export class GridApi {
         return this.undoRedoService.getCurrentRedoStackSize();
     }
 
+    /** Adds a custom action to the undo / redo history, a handler for the action's type must be registered first */
+    public pushUndoRedoAction(action: UndoRedoAction): void {
+        this.undoRedoService.pushAction(action);
+    }
+
+    public registerUndoRedoActionHandler<T extends UndoRedoAction>(type: string, handler: UndoRedoActionHandler<T>): void {
+        this.undoRedoService.registerActionHandler(type, handler);
+    }
+
+    /** Changes made until endUndoRedoGroup() is called are undone / redone together as one step */
+    public startUndoRedoGroup(): void {
+        this.undoRedoService.startGroup();
+    }
+
+    public endUndoRedoGroup(): void {
+        this.undoRedoService.endGroup();
+    }
+
     public getChartModels(): ChartModel[] | undefined {
         if (ModuleRegistry.assertRegistered(ModuleNames.RangeSelectionModule, 'api.getChartModels') &&
             ModuleRegistry.assertRegistered(ModuleNames.GridChartsModule, 'api.getChartModels')) {
@@ -1476,6 +1732,11 @@ export class GridApi {
         this.rowRenderer.stopEditing(cancel);
     }
 
+    /** Returns the cells that failed colDef.validator or gridOptions.rowValidator */
+    public getValidationErrors(): CellValidationError[] {
+        return this.validationService.getValidationErrors();
+    }
+
     public startEditingCell(params: StartEditingCellParams): void {
         const column = this.columnModel.getGridColumn(params.colKey);
         if (!column) {
@@ -1497,13 +1758,13 @@ export class GridApi {
         cell.startRowOrCellEdit(params.keyPress, params.charPress);
     }
 
-    public addAggFunc(key: string, aggFunc: IAggFunc): void {
+    public addAggFunc(key: string, aggFunc: IAggFunc | IStatefulAggFunc): void {
         if (this.aggFuncService) {
             this.aggFuncService.addAggFunc(key, aggFunc);
         }
     }
 
-    public addAggFuncs(aggFuncs: { [key: string]: IAggFunc; }): void {
+    public addAggFuncs(aggFuncs: { [key: string]: IAggFunc | IStatefulAggFunc; }): void {
         if (this.aggFuncService) {
             this.aggFuncService.addAggFuncs(aggFuncs);
         }
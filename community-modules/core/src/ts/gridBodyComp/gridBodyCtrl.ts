@@ -20,6 +20,8 @@ import { getTabIndex, isBrowserIE } from "../utils/browser";
 import { RowRenderer } from "../rendering/rowRenderer";
 import { PopupService } from "../widgets/popupService";
 import { MouseEventService } from "./mouseEventService";
+import { IRowModel } from "../interfaces/iRowModel";
+import { IClientSideRowModel } from "../interfaces/iClientSideRowModel";
 
 export enum RowAnimationCssClasses {
     ANIMATION_ON = 'ag-row-animation',
@@ -54,6 +56,7 @@ export class GridBodyCtrl extends BeanStub {
     @Optional('contextMenuFactory') private contextMenuFactory: IContextMenuFactory;
     @Autowired('headerNavigationService') private headerNavigationService: HeaderNavigationService;
     @Autowired('paginationProxy') private paginationProxy: PaginationProxy;
+    @Autowired('rowModel') private rowModel: IRowModel;
     @Autowired('dragAndDropService') private dragAndDropService: DragAndDropService;
     @Autowired('pinnedRowModel') private pinnedRowModel: PinnedRowModel;
     @Autowired('rowRenderer') private rowRenderer: RowRenderer;
@@ -198,9 +201,16 @@ export class GridBodyCtrl extends BeanStub {
 
         if (modelType === Constants.ROW_MODEL_TYPE_CLIENT_SIDE) {
             rowCount = 0;
-            this.paginationProxy.forEachNode(node => {
-                if (!node.group) { rowCount++; }
-            });
+
+            // columnar rows aren't grouped and forEachNode only visits the rows that have a node, so the
+            // displayed rows are counted rather than creating a node for every row
+            if ((this.rowModel as IClientSideRowModel).isColumnar()) {
+                rowCount = this.rowModel.getRowCount();
+            } else {
+                this.paginationProxy.forEachNode(node => {
+                    if (!node.group) { rowCount++; }
+                });
+            }
         }
 
         const total = rowCount === -1 ? -1 : (headerCount + rowCount);
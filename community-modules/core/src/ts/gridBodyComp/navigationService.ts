@@ -395,7 +395,10 @@ export class NavigationService extends BeanStub {
         // has editable function (eg colDef.editable=func() ) and it depends on the
         // result of this cell, so need to save updates from the first edit, in case
         // the value is referenced in the function.
-        previousCell.stopEditing();
+        const editingStopped = previousCell.stopEditing();
+
+        // the value was invalid, so the user stays on this cell to correct it
+        if (!editingStopped) { return true; }
 
         // find the next cell to start editing
         const nextCell = this.findNextCellToFocusOn(previousPos, backwards, true) as CellCtrl;
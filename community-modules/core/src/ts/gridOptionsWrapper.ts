@@ -19,6 +19,7 @@ import {
     PostProcessPopupParams,
     ProcessChartOptionsParams,
     ProcessDataFromClipboardParams,
+    RowValidatorParams,
     ServerSideStoreParams,
     TabToNextCellParams,
     TabToNextHeaderParams,
@@ -28,7 +29,7 @@ import { EventService } from './eventService';
 import { Constants } from './constants/constants';
 import { ComponentUtil } from './components/componentUtil';
 import { GridApi } from './gridApi';
-import { ColDef, ColGroupDef, IAggFunc, SuppressKeyboardEventParams } from './entities/colDef';
+import { ColDef, ColGroupDef, IAggFunc, IStatefulAggFunc, SuppressKeyboardEventParams } from './entities/colDef';
 import { Autowired, Bean, PostConstruct, PreDestroy, Qualifier } from './context/context';
 import { ColumnApi } from './columns/columnApi';
 import { ColumnModel } from './columns/columnModel';
@@ -56,7 +57,14 @@ import { doOnce } from './utils/function';
 import { getScrollbarWidth } from './utils/browser';
 import { HeaderPosition } from './headerRendering/header/headerPosition';
 import { ExcelExportParams } from './interfaces/iExcelCreator';
+import { PdfExportParams } from './interfaces/iPdfCreator';
+import { JsonExportParams } from './interfaces/iJsonCreator';
+import { HtmlExportParams } from './interfaces/iHtmlCreator';
 import { capitalise } from './utils/string';
+import { GridState } from './interfaces/gridState';
+import { FindOptions } from './interfaces/iFind';
+import { ConditionalFormattingRule } from './interfaces/conditionalFormatting';
+import { ColumnarRowData } from './interfaces/iColumnarRowData';
 
 const DEFAULT_ROW_HEIGHT = 25;
 const DEFAULT_DETAIL_ROW_HEIGHT = 300;
@@ -670,6 +678,22 @@ export class GridOptionsWrapper {
         return this.gridOptions.quickFilterText;
     }
 
+    public getFindSearchValue(): string | undefined {
+        return this.gridOptions.findSearchValue;
+    }
+
+    public getFindOptions(): FindOptions | undefined {
+        return this.gridOptions.findOptions;
+    }
+
+    public getConditionalFormattingRules(): ConditionalFormattingRule[] | undefined {
+        return this.gridOptions.conditionalFormattingRules;
+    }
+
+    public isEnableConditionalFormattingEditor() {
+        return isTrue(this.gridOptions.enableConditionalFormattingEditor);
+    }
+
     public isCacheQuickFilter() {
         return isTrue(this.gridOptions.cacheQuickFilter);
     }
@@ -694,10 +718,22 @@ export class GridOptionsWrapper {
         return isTrue(this.gridOptions.undoRedoCellEditing);
     }
 
+    public isUndoRedoStructuralChanges() {
+        return isTrue(this.gridOptions.undoRedoStructuralChanges);
+    }
+
+    public isUndoRedoTransactions() {
+        return isTrue(this.gridOptions.undoRedoTransactions);
+    }
+
     public getUndoRedoCellEditingLimit(): number | undefined {
         return this.gridOptions.undoRedoCellEditingLimit;
     }
 
+    public getInitialState(): GridState | undefined {
+        return this.gridOptions.initialState;
+    }
+
     public getRowStyle() {
         return this.gridOptions.rowStyle;
     }
@@ -867,6 +903,10 @@ export class GridOptionsWrapper {
         return this.gridOptions.rowData;
     }
 
+    public getColumnarRowData(): ColumnarRowData | undefined {
+        return this.gridOptions.columnarRowData;
+    }
+
     public isEnableRtl() {
         return isTrue(this.gridOptions.enableRtl);
     }
@@ -959,6 +999,14 @@ export class GridOptionsWrapper {
         return isTrue(this.gridOptions.copyHeadersToClipboard);
     }
 
+    public isCopyHtmlToClipboard() {
+        return isTrue(this.gridOptions.copyHtmlToClipboard);
+    }
+
+    public isCopyMarkdownToClipboard() {
+        return isTrue(this.gridOptions.copyMarkdownToClipboard);
+    }
+
     public isSuppressClipboardPaste() {
         return isTrue(this.gridOptions.suppressClipboardPaste);
     }
@@ -1043,6 +1091,14 @@ export class GridOptionsWrapper {
         return this.gridOptions.fillOperation;
     }
 
+    public getRowValidatorFunc(): ((params: RowValidatorParams) => { [colId: string]: string; } | null | undefined) | undefined {
+        return this.gridOptions.rowValidator;
+    }
+
+    public getInvalidCellValueAction(): 'reject' | 'accept' | 'keepEditing' {
+        return this.gridOptions.invalidCellValueAction || 'reject';
+    }
+
     public isSuppressMultiRangeSelection(): boolean {
         return isTrue(this.gridOptions.suppressMultiRangeSelection);
     }
@@ -1059,7 +1115,7 @@ export class GridOptionsWrapper {
         return this.gridOptions.icons;
     }
 
-    public getAggFuncs(): { [key: string]: IAggFunc; } | undefined {
+    public getAggFuncs(): { [key: string]: IAggFunc | IStatefulAggFunc; } | undefined {
         return this.gridOptions.aggFuncs;
     }
 
@@ -1122,6 +1178,10 @@ export class GridOptionsWrapper {
         return isTrue(this.gridOptions.enableCellTextSelection);
     }
 
+    public isEnableAdvancedFilter() {
+        return isTrue(this.gridOptions.enableAdvancedFilter);
+    }
+
     public isSuppressParentsInRowNodes() {
         return isTrue(this.gridOptions.suppressParentsInRowNodes);
     }
@@ -1156,8 +1216,14 @@ export class GridOptionsWrapper {
 
     public getDefaultExportParams(type: 'csv'): CsvExportParams | undefined;
     public getDefaultExportParams(type: 'excel'): ExcelExportParams | undefined;
-    public getDefaultExportParams(type: 'csv' | 'excel'): CsvExportParams | ExcelExportParams | undefined {
-        if (this.gridOptions.defaultExportParams) {
+    public getDefaultExportParams(type: 'pdf'): PdfExportParams | undefined;
+    public getDefaultExportParams(type: 'json'): JsonExportParams | undefined;
+    public getDefaultExportParams(type: 'html'): HtmlExportParams | undefined;
+    public getDefaultExportParams(
+        type: 'csv' | 'excel' | 'pdf' | 'json' | 'html'
+    ): CsvExportParams | ExcelExportParams | PdfExportParams | JsonExportParams | HtmlExportParams | undefined {
+        // the deprecated defaultExportParams were only used by the CSV and Excel exports
+        if (this.gridOptions.defaultExportParams && (type === 'csv' || type === 'excel')) {
             console.warn(`AG Grid: Since v25.2 \`defaultExportParams\`  has been replaced by \`default${capitalise(type)}ExportParams\`'`);
             if (type === 'csv') {
                 return this.gridOptions.defaultExportParams as CsvExportParams;
@@ -1172,6 +1238,18 @@ export class GridOptionsWrapper {
         if (type === 'excel' && this.gridOptions.defaultExcelExportParams) {
             return this.gridOptions.defaultExcelExportParams;
         }
+
+        if (type === 'pdf' && this.gridOptions.defaultPdfExportParams) {
+            return this.gridOptions.defaultPdfExportParams;
+        }
+
+        if (type === 'json' && this.gridOptions.defaultJsonExportParams) {
+            return this.gridOptions.defaultJsonExportParams;
+        }
+
+        if (type === 'html' && this.gridOptions.defaultHtmlExportParams) {
+            return this.gridOptions.defaultHtmlExportParams;
+        }
     }
 
     public isSuppressCsvExport() {
@@ -1186,6 +1264,18 @@ export class GridOptionsWrapper {
         return isTrue(this.gridOptions.suppressExcelExport);
     }
 
+    public isSuppressPdfExport() {
+        return isTrue(this.gridOptions.suppressPdfExport);
+    }
+
+    public isSuppressJsonExport() {
+        return isTrue(this.gridOptions.suppressJsonExport);
+    }
+
+    public isSuppressHtmlExport() {
+        return isTrue(this.gridOptions.suppressHtmlExport);
+    }
+
     public isSuppressMakeColumnVisibleAfterUnGroup() {
         return isTrue(this.gridOptions.suppressMakeColumnVisibleAfterUnGroup);
     }
@@ -1456,6 +1546,14 @@ export class GridOptionsWrapper {
         return isTrue(this.gridOptions.suppressModelUpdateAfterUpdateTransaction);
     }
 
+    public isEnableRowModelWorker(): boolean {
+        return isTrue(this.gridOptions.enableRowModelWorker);
+    }
+
+    public isIncrementalAggregation(): boolean {
+        return isTrue(this.gridOptions.incrementalAggregation);
+    }
+
     public getDocument(): Document {
         // if user is providing document, we use the users one,
         // otherwise we use the document on the global namespace.
@@ -20,6 +20,10 @@ export interface ChartModel {
     suppressChartRanges?: boolean;
     aggFunc?: string | IAggFunc;
     unlinkChart?: boolean;
+    /** The column of the categories, unless the chart uses the default category of the row numbers */
+    categoryColId?: string;
+    /** The columns of the series, in the order they are charted */
+    seriesColIds?: string[];
     chart: any;
     getChartImageDataURL: (params: GetChartImageDataUrlParams) => string;
 }
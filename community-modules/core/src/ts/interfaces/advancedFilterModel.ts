@@ -0,0 +1,45 @@
+/**
+ * Filter model used by the advanced filter. Conditions can reference any column and are nested inside
+ * join models, eg (country = 'UK' OR country = 'IE') AND (price > 100 OR status startsWith 'VIP').
+ */
+export type AdvancedFilterModel = JoinAdvancedFilterModel | ColumnAdvancedFilterModel;
+
+export interface JoinAdvancedFilterModel {
+    filterType: 'join';
+    type: 'AND' | 'OR';
+    conditions: AdvancedFilterModel[];
+}
+
+export type ColumnAdvancedFilterModel = TextAdvancedFilterModel | NumberAdvancedFilterModel | DateAdvancedFilterModel;
+
+export type ScalarAdvancedFilterModelType =
+    'equals' | 'notEqual' | 'lessThan' | 'lessThanOrEqual' | 'greaterThan' | 'greaterThanOrEqual' | 'inRange' | 'blank' | 'notBlank';
+
+export type TextAdvancedFilterModelType =
+    'equals' | 'notEqual' | 'contains' | 'notContains' | 'startsWith' | 'endsWith' | 'blank' | 'notBlank';
+
+export interface TextAdvancedFilterModel {
+    filterType: 'text';
+    colId: string;
+    type: TextAdvancedFilterModelType;
+    filter?: string;
+}
+
+export interface NumberAdvancedFilterModel {
+    filterType: 'number';
+    colId: string;
+    type: ScalarAdvancedFilterModelType;
+    filter?: number;
+    /** Upper bound when type is inRange. The bounds are excluded unless the column's filterParams.inRangeInclusive is set */
+    filterTo?: number;
+}
+
+export interface DateAdvancedFilterModel {
+    filterType: 'date';
+    colId: string;
+    type: ScalarAdvancedFilterModelType;
+    /** Date in the format yyyy-mm-dd */
+    filter?: string;
+    /** Upper bound when type is inRange, in the format yyyy-mm-dd. Excluded as with filterTo of number models */
+    filterTo?: string;
+}
@@ -0,0 +1,81 @@
+/**
+ * Spreadsheet style conditional formatting rules. Rules are plain JSON, so they can be saved and restored, and
+ * are exported to Excel as conditional formats. Colours are hex, eg '#ff0000', as that is what Excel accepts.
+ */
+export type ConditionalFormattingRule =
+    CellValueFormattingRule | TopBottomFormattingRule | AverageFormattingRule | DuplicateFormattingRule |
+    ColorScaleFormattingRule | DataBarFormattingRule | IconSetFormattingRule;
+
+/** The formats Excel supports in conditional formatting */
+export interface ConditionalFormattingStyle {
+    backgroundColor?: string;
+    color?: string;
+    bold?: boolean;
+    italic?: boolean;
+}
+
+export type CellValueFormattingOperator =
+    'equals' | 'notEqual' | 'greaterThan' | 'greaterThanOrEqual' | 'lessThan' | 'lessThanOrEqual' | 'between' |
+    'notBetween' | 'contains';
+
+export interface CellValueFormattingRule {
+    type: 'cellValue';
+    colId: string;
+    operator: CellValueFormattingOperator;
+    value: number | string;
+    /** The end of the range for 'between' and 'notBetween' */
+    valueTo?: number | string;
+    style: ConditionalFormattingStyle;
+}
+
+/** Formats the highest (or lowest) ranked values of the column */
+export interface TopBottomFormattingRule {
+    type: 'topBottom';
+    colId: string;
+    /** Formats the lowest values instead of the highest */
+    bottom?: boolean;
+    /** Number of values, or percentage of values when percent is true */
+    rank: number;
+    percent?: boolean;
+    style: ConditionalFormattingStyle;
+}
+
+export interface AverageFormattingRule {
+    type: 'average';
+    colId: string;
+    /** Formats the values below the average instead of above */
+    below?: boolean;
+    style: ConditionalFormattingStyle;
+}
+
+export interface DuplicateFormattingRule {
+    type: 'duplicates';
+    colId: string;
+    /** Formats the values that only appear once instead */
+    unique?: boolean;
+    style: ConditionalFormattingStyle;
+}
+
+/** Colours the background between colours for the lowest, (middle) and highest values */
+export interface ColorScaleFormattingRule {
+    type: 'colorScale';
+    colId: string;
+    /** Two or three colours */
+    colors: string[];
+}
+
+/** Shows a bar in the background with a length relative to the lowest and highest values */
+export interface DataBarFormattingRule {
+    type: 'dataBar';
+    colId: string;
+    color: string;
+}
+
+export type ConditionalFormattingIconSet = 'arrows' | 'trafficLights' | 'flags';
+
+/** Shows one of three icons, for values in the top, middle and bottom thirds between the lowest and highest values */
+export interface IconSetFormattingRule {
+    type: 'iconSet';
+    colId: string;
+    iconSet: ConditionalFormattingIconSet;
+}
@@ -18,7 +18,7 @@ export interface BaseExportParams {
     skipPinnedBottom?: boolean;
 
     shouldRowBeSkipped?(params: ShouldRowBeSkippedParams): boolean;
-    processCellCallback?(params: ProcessCellForExportParams): string;
+    processCellCallback?(params: ProcessCellForExportParams): any;
     processHeaderCallback?(params: ProcessHeaderForExportParams): string;
     processGroupHeaderCallback?(params: ProcessGroupHeaderForExportParams): string;
     processRowGroupCallback?(params: ProcessRowGroupForExportParams): string;
@@ -65,6 +65,19 @@ export interface CsvExportParams extends ExportParams<CsvCustomContent> {
     suppressQuotes?: boolean;
 }
 
+export interface CsvStreamExportParams extends CsvExportParams {
+    /** The number of rows serialised before yielding to the browser, default 5000 */
+    chunkSize?: number;
+}
+
+/** For exports that load all the rows from the datasource of the Server-Side or Infinite Row Model */
+export interface ServerSideExportParams {
+    /** The number of rows requested from the datasource at a time, default 1000 */
+    pageSize?: number;
+}
+
+export interface CsvServerSideExportParams extends CsvExportParams, ServerSideExportParams { }
+
 export interface ShouldRowBeSkippedParams {
     node: RowNode;
     api: GridApi;
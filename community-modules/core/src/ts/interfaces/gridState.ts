@@ -0,0 +1,60 @@
+import { ColumnState } from "../columns/columnModel";
+import { AdvancedFilterModel } from "./advancedFilterModel";
+
+export interface ColumnGroupOpenState {
+    groupId: string;
+    open: boolean;
+}
+
+export interface RowGroupExpansionState {
+    /** Each entry is the route of group keys, from the top level down, of an expanded row group */
+    expandedGroupRoutes: string[][];
+    /** Ids of expanded master rows when using Master / Detail */
+    expandedMasterRowIds?: string[];
+}
+
+export interface FocusedCellState {
+    rowIndex: number;
+    rowPinned?: string | null;
+    colId: string;
+}
+
+export interface PaginationState {
+    page: number;
+    pageSize?: number;
+}
+
+export interface ScrollState {
+    top: number;
+    left: number;
+}
+
+export interface SideBarState {
+    visible: boolean;
+    openToolPanel: string | null;
+}
+
+/**
+ * A JSON serialisable snapshot of everything the user can change about their view of the grid. Every
+ * part is optional, so a partial state can be passed to setState() and only those parts are restored.
+ */
+export interface GridState {
+    /** Version of the state format, so older saved states can be migrated when the format changes */
+    version?: number;
+    pivotMode?: boolean;
+    /** Column order, widths, visibility, pinning, sort, row group, pivot and aggregation */
+    columnState?: ColumnState[];
+    columnGroupState?: ColumnGroupOpenState[];
+    filterModel?: { [colId: string]: any; };
+    /** Only saved when enableAdvancedFilter = true */
+    advancedFilterModel?: AdvancedFilterModel | null;
+    rowGroupExpansion?: RowGroupExpansionState;
+    /** Ids of the selected rows, as provided by getRowNodeId() or generated by the grid */
+    selectedRowIds?: string[];
+    focusedCell?: FocusedCellState | null;
+    pagination?: PaginationState;
+    scroll?: ScrollState;
+    sideBar?: SideBarState;
+}
+
+export type GridStateKey = keyof GridState;
@@ -1,10 +1,13 @@
-import { IAggFunc } from "../entities/colDef";
+import { IAggFunc, IStatefulAggFunc } from "../entities/colDef";
 import { Column } from "../entities/column";
 
 export interface IAggFuncService {
-    addAggFuncs(aggFuncs: {[key: string]: IAggFunc}): void;
-    addAggFunc(key: string, aggFunc: IAggFunc): void;
+    addAggFuncs(aggFuncs: {[key: string]: IAggFunc | IStatefulAggFunc}): void;
+    addAggFunc(key: string, aggFunc: IAggFunc | IStatefulAggFunc): void;
     clear(): void;
+    getAggFunc(name: string): IAggFunc;
+    getStatefulAggFunc(name: string): IStatefulAggFunc | undefined;
+    getIncrementalAggFunc(name: string): IStatefulAggFunc | undefined;
     getDefaultAggFunc(column: Column): string | null;
     getFuncNames(column: Column): string[];
 }
@@ -3,6 +3,7 @@ import { RowNodeTransaction } from './rowNodeTransaction';
 import { RowDataTransaction } from './rowDataTransaction';
 import { RowHighlightPosition, RowNode } from '../entities/rowNode';
 import { ChangedPath } from '../utils/changedPath';
+import { ColumnarRowData } from './iColumnarRowData';
 
 export enum ClientSideRowModelSteps {
     EVERYTHING = 'group',
@@ -17,14 +18,20 @@ export enum ClientSideRowModelSteps {
 export interface IClientSideRowModel extends IRowModel {
     updateRowData(rowDataTran: RowDataTransaction, rowNodeOrder?: { [id: string]: number; } | null): RowNodeTransaction | null;
     setRowData(rowData: any[]): void;
+    setColumnarRowData(columnarRowData: ColumnarRowData): void;
     refreshModel(params: RefreshModelParams): void;
     expandOrCollapseAll(expand: boolean): void;
     forEachLeafNode(callback: (node: RowNode, index: number) => void): void;
+    /** With columnar row data, only the rows that have a node are visited, use forEachLeafNode to visit every row */
     forEachNode(callback: (node: RowNode, index: number) => void): void;
+    /** True when the rows are columnar row data without row groups, so nodes are only created as they're needed */
+    isColumnar(): boolean;
     forEachNodeAfterFilter(callback: (node: RowNode, index: number) => void): void;
     forEachNodeAfterFilterAndSort(callback: (node: RowNode, index: number) => void): void;
     resetRowHeights(): void;
     onRowHeightChanged(): void;
+    /** Called when the data of a row is replaced, eg with rowNode.setData() */
+    onRowNodeDataChanged(rowNode: RowNode): void;
     batchUpdateRowData(rowDataTransaction: RowDataTransaction, callback?: (res: RowNodeTransaction) => void): void;
     flushAsyncTransactions(): void;
     getRootNode(): RowNode;
@@ -37,6 +44,24 @@ export interface IClientSideRowModel extends IRowModel {
     getLastHighlightedRowNode(): RowNode | null;
 }
 
+export interface RowDataRecord {
+    data: any;
+    /** Position of the row in the root node's allLeafChildren */
+    index: number;
+}
+
+/** What a transaction changed, recorded when transactions can be undone so the inverse transaction can be applied */
+export interface RowDataTransactionRecord {
+    /** Rows added with their index after the transaction */
+    add: RowDataRecord[];
+    /** Rows removed with their index before the transaction */
+    remove: RowDataRecord[];
+    update: { oldData: any; newData: any; }[];
+    /** Row ids before and after, only set if the transaction reordered the rows, eg when using immutableData */
+    orderBefore?: string[];
+    orderAfter?: string[];
+}
+
 export interface RefreshModelParams {
     // how much of the pipeline to execute
     step: ClientSideRowModelSteps;
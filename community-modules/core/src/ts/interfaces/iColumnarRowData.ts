@@ -0,0 +1,23 @@
+import { Column } from "../entities/column";
+import { RowNode } from "../entities/rowNode";
+
+/** Row data held column by column rather than row by row, eg for large grids of numbers */
+export interface ColumnarRowData {
+    /** The number of rows, each column holds one value per row */
+    rowCount: number;
+    /** The values of each field. In Float64Arrays, NaN is a missing value */
+    columns: { [field: string]: Float64Array | any[]; };
+}
+
+/** The rows of columnar row data as the stages of the client-side row model see them */
+export interface ColumnarRows {
+    rowCount: number;
+    /** The indexes of the rows that passed the filter stage, in row order */
+    rowIndexesAfterFilter: Int32Array;
+    /** The indexes of the filtered rows in the order of the sort stage */
+    rowIndexesAfterSort: Int32Array;
+    /** The values of the column, or null when they can only be read from row nodes, eg with a value getter */
+    getValues(column: Column): Float64Array | any[] | null;
+    /** The node of the row, which is created the first time it's needed */
+    getRowNode(rowIndex: number): RowNode;
+}
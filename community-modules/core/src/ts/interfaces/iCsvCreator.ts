@@ -1,6 +1,11 @@
-import { CsvExportParams } from "./exportParams";
+import { AgPromise } from "../utils/promise";
+import { CsvExportParams, CsvServerSideExportParams, CsvStreamExportParams } from "./exportParams";
 
 export interface ICsvCreator {
     getDataAsCsv(params?: CsvExportParams): string;
     exportDataAsCsv(params?: CsvExportParams): string;
+    getDataAsCsvStream(params?: CsvStreamExportParams): ReadableStream<Uint8Array>;
+    exportDataAsCsvStream(params?: CsvStreamExportParams): void;
+    cancelCsvExport(): void;
+    exportDataAsCsvFromServer(params?: CsvServerSideExportParams): AgPromise<boolean>;
 }
@@ -0,0 +1,14 @@
+import { BaseImportParams, ImportResult } from "./importParams";
+import { AgPromise } from "../utils/promise";
+
+export interface CsvImportParams extends BaseImportParams {
+    /** Detected from the first lines of the file when not given */
+    columnSeparator?: string;
+    /** Double quotes, unless the fields of the file are only quoted with single quotes */
+    quoteChar?: string;
+}
+
+export interface ICsvImporter {
+    /** Resolves with null when the file can't be read or the import is cancelled */
+    importCsv(data: string | Blob, params?: CsvImportParams): AgPromise<ImportResult>;
+}
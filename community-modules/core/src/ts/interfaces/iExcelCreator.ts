@@ -1,6 +1,8 @@
 import { Column } from "../entities/column";
-import { ExportParams } from "./exportParams";
+import { AgPromise } from "../utils/promise";
+import { ExportParams, ProcessCellForExportParams, ServerSideExportParams } from "./exportParams";
 import { XmlElement } from "./iXmlFactory";
+import { ConditionalFormattingRule } from "./conditionalFormatting";
 
 // Excel Styles
 export interface ExcelStyle {
@@ -82,6 +84,28 @@ export interface ExcelProtection {
 export interface ExcelWorksheet {
     name: string;
     table: ExcelTable;
+    conditionalFormatting?: ExcelConditionalFormatting[];
+    /** Whether the rows that summarise outline groups are below their detail rows, as Excel has them by default */
+    outlineSummaryBelow?: boolean;
+    /** The number of columns on the left and rows at the top that stay in view when scrolling */
+    frozenPane?: { columns: number, rows: number };
+    dataValidations?: ExcelDataValidation[];
+    /** Whether the sheet is protected, so only the cells with unlocked styles can be changed */
+    protected?: boolean;
+    charts?: ExcelChart[];
+}
+
+export interface ExcelDataValidation {
+    /** The cells the list applies to, as space separated ranges, eg 'B2:B10 B12' */
+    sqref: string;
+    /** The values the cells can have, which Excel shows in a dropdown */
+    values: string[];
+}
+
+export interface ExcelConditionalFormatting {
+    /** The cells the rule applies to, as space separated ranges, eg 'B2:B10 B12' */
+    sqref: string;
+    rule: ConditionalFormattingRule;
 }
 
 export interface ExcelTable {
@@ -96,6 +120,7 @@ export interface ExcelColumn {
     s?: number;
     hidden?: boolean;
     bestFit?: boolean;
+    outlineLevel?: number;
 }
 
 export interface ExcelRow {
@@ -115,6 +140,38 @@ export interface ExcelCell {
     mergeAcross?: number;
 }
 
+export type ExcelChartType = 'column' | 'bar' | 'line' | 'area' | 'scatter' | 'pie' | 'doughnut';
+
+/** A native Excel chart, of cells in the same sheet */
+export interface ExcelChart {
+    type: ExcelChartType;
+    grouping: 'standard' | 'stacked' | 'percentStacked';
+    title?: string;
+    xAxisTitle?: string;
+    yAxisTitle?: string;
+    series: ExcelChartSeries[];
+    /** The colours of the series, or of the slices of pie and doughnut charts, repeated when there are more */
+    colors: string[];
+    /** The cell at the top left of the chart, counting from 0 */
+    row: number;
+    column: number;
+    /** In pixels */
+    width: number;
+    height: number;
+}
+
+export interface ExcelChartSeries {
+    name: string;
+    /** The cells of the categories, or of the x values of scatter charts, as space separated ranges, eg 'A2:A10' */
+    categories?: string;
+    values: string;
+}
+
+/** Returned by the processCellCallback of the Excel export to write a formula rather than a value, eg '=B2*C2' */
+export interface ExcelFormula {
+    formula: string;
+}
+
 export interface ExcelImage {
     id: string;
     base64: string;
@@ -204,8 +261,40 @@ export interface ExcelExportParams extends ExportParams<ExcelCell[][]> {
     headerFooterConfig?: ExcelHeaderFooterConfig;
     suppressTextAsCDATA?:boolean;
     addImageToCell?: (rowIndex: number, column: Column, value: string) => { image: ExcelImage, value?: string } | undefined;
+    /**
+     * Writes the row groups as outline groups that can be collapsed in Excel, collapsed like the groups in the grid.
+     * The footers of groupIncludeFooter and groupIncludeTotalFooter are written with SUBTOTAL formulas, for the
+     * aggFuncs Excel has. Only used by the xlsx export mode.
+     */
+    outlineRowGroups?: boolean;
+    /**
+     * Writes the columns that column groups only show when open as outline groups of columns, so they collapse like
+     * in the grid. Only used by the xlsx export mode.
+     */
+    outlineColumnGroups?: boolean;
+    /**
+     * Freezes the header rows, the rows pinned to the top and the columns pinned to the left, so they stay in view
+     * when scrolling like they do in the grid. Only used by the xlsx export mode.
+     */
+    freezePanes?: boolean;
+    /**
+     * Adds the `cellEditorParams.values` of the columns edited with the select and rich select editors to their cells
+     * as lists to pick from. Only used by the xlsx export mode.
+     */
+    listValidation?: boolean;
+    /** Protects the sheet, so only the cells that are editable in the grid can be changed. Only used by the xlsx export mode. */
+    protectSheet?: boolean;
+    /**
+     * Adds the charts of the grid to the sheet as Excel charts of the exported cells, for the chart types Excel has.
+     * Only used by the xlsx export mode.
+     */
+    includeCharts?: boolean;
+    /** As well as a value, the callback can return an `ExcelFormula` that is written to the cell */
+    processCellCallback?(params: ProcessCellForExportParams): string | ExcelFormula;
 }
 
+export interface ExcelServerSideExportParams extends ExcelExportParams, ServerSideExportParams { }
+
 export interface ExcelExportMultipleSheetParams {
     author?: string;
     data: string[];
@@ -236,6 +325,7 @@ export interface IExcelCreator {
 
     getMultipleSheetsAsExcel(params: ExcelExportMultipleSheetParams): Blob | undefined;
     exportMultipleSheetsAsExcel(params: ExcelExportMultipleSheetParams): void;
+    exportDataAsExcelFromServer(params?: ExcelServerSideExportParams): AgPromise<boolean>;
 
     /** private methods */
     setFactoryMode(factoryMode: ExcelFactoryMode, exportMode: 'xml' | 'xlsx'): void;
@@ -0,0 +1,12 @@
+import { BaseImportParams, ImportResult } from "./importParams";
+import { AgPromise } from "../utils/promise";
+
+export interface ExcelImportParams extends BaseImportParams {
+    /** The sheet to import, defaults to the first sheet of the workbook */
+    sheetName?: string;
+}
+
+export interface IExcelImporter {
+    /** Resolves with null when the workbook can't be read or the import is cancelled */
+    importFromExcel(data: Blob | ArrayBuffer, params?: ExcelImportParams): AgPromise<ImportResult>;
+}
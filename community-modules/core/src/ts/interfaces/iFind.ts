@@ -0,0 +1,20 @@
+import { RowNode } from "../entities/rowNode";
+import { Column } from "../entities/column";
+
+export interface FindOptions {
+    /** Matches the case of the search value, defaults to false */
+    caseSensitive?: boolean;
+    /** Only matches whole words, defaults to false */
+    wholeWord?: boolean;
+    /** Treats the search value as a regular expression, defaults to false */
+    regex?: boolean;
+}
+
+/** A fragment of the formatted value of a cell that matches the search value */
+export interface FindMatch {
+    node: RowNode;
+    column: Column;
+    /** Position of the match in the formatted value, from start up to but not including end */
+    start: number;
+    end: number;
+}
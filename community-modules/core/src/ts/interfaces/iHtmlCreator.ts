@@ -0,0 +1,11 @@
+import { ExportParams } from "./exportParams";
+
+export interface HtmlExportParams extends ExportParams<string> {
+    /** 'html' (the default) is a table element, 'markdown' is a table in GitHub Flavored Markdown */
+    format?: 'html' | 'markdown';
+}
+
+export interface IHtmlCreator {
+    getDataAsHtml(params?: HtmlExportParams): string;
+    exportDataAsHtml(params?: HtmlExportParams): void;
+}
@@ -1,4 +1,4 @@
-import { IRowModel } from "./iRowModel";
+import { IRowModel, LoadRowsForExportParams } from "./iRowModel";
 import { IDatasource } from "./iDatasource";
 
 export interface IInfiniteRowModel extends IRowModel {
@@ -6,4 +6,5 @@ export interface IInfiniteRowModel extends IRowModel {
     refreshCache(): void;
     purgeCache(): void;
     setRowCount(rowCount: number, maxRowFound?: boolean): void;
+    loadRowsForExport(params: LoadRowsForExportParams): void;
 }
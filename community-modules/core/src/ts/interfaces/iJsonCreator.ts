@@ -0,0 +1,20 @@
+import { ExportParams } from "./exportParams";
+
+/**
+ * Custom content can't be added to JSON, so prependContent and appendContent aren't used. bigint values are written as
+ * strings, and the values of the avg and count agg funcs as numbers.
+ */
+export interface JsonExportParams extends ExportParams<never> {
+    /**
+     * 'rows' (the default) is an array of an object per row, keyed by column id. 'nested' puts the rows of each group in
+     * the `children` of the group's object. 'ndjson' is an object per line.
+     */
+    format?: 'rows' | 'nested' | 'ndjson';
+    /** The number of spaces the JSON is indented by, not used by 'ndjson'. Default 0, the JSON isn't indented. */
+    space?: number;
+}
+
+export interface IJsonCreator {
+    getDataAsJson(params?: JsonExportParams): string;
+    exportDataAsJson(params?: JsonExportParams): void;
+}
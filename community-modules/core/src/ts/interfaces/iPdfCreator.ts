@@ -0,0 +1,36 @@
+import { ExportParams } from "./exportParams";
+
+export type PdfPageSize = 'A3' | 'A4' | 'A5' | 'Letter' | 'Legal';
+
+/** In points, 72 to the inch */
+export interface PdfPageMargins {
+    top?: number;
+    right?: number;
+    bottom?: number;
+    left?: number;
+}
+
+/** Content added before or after the rows is text, one line of the page per line of the text */
+export interface PdfExportParams extends ExportParams<string> {
+    /** Default 'A4' */
+    pageSize?: PdfPageSize;
+    /** Default 'portrait' */
+    orientation?: 'portrait' | 'landscape';
+    /** Default 36 on every side */
+    margins?: PdfPageMargins;
+    /** In points, default 9 */
+    fontSize?: number;
+    /** Text at the top of every page */
+    headerText?: string;
+    /** Text at the bottom of every page */
+    footerText?: string;
+    /** Hides the 'Page 1 of 3' text at the bottom of every page */
+    suppressPageNumbers?: boolean;
+    /** The indent in points of each level of row groups, default 10 */
+    rowGroupIndent?: number;
+}
+
+export interface IPdfCreator {
+    getDataAsPdf(params?: PdfExportParams): Blob;
+    exportDataAsPdf(params?: PdfExportParams): void;
+}
@@ -6,6 +6,16 @@ export interface RowBounds {
     rowIndex?: number;
 }
 
+/** A page of rows requested straight from the datasource, the rows aren't added to the row model */
+export interface LoadRowsForExportParams {
+    startRow: number;
+    endRow: number;
+    /** The group the rows are children of, a node of level -1 for the top level rows */
+    parentNode: RowNode;
+    success(rowData: any[], lastRow?: number): void;
+    fail(): void;
+}
+
 export interface IRowModel {
 
     /** Returns the rowNode at the given index. */
@@ -1,6 +1,7 @@
 import { RowNode } from "../entities/rowNode";
 import { ChangedPath } from "../utils/changedPath";
 import { RowNodeTransaction } from "./rowNodeTransaction";
+import { ColumnarRows } from "./iColumnarRowData";
 
 export interface StageExecuteParams {
     rowNode: RowNode;
@@ -11,6 +12,8 @@ export interface StageExecuteParams {
     rowNodeOrder?: {[id: string]: number};
     changedPath?: ChangedPath;
     afterColumnsChanged?: boolean;
+    // when the rows are columnar row data without row groups, the stages work on these rather than the nodes
+    columnarRows?: ColumnarRows;
 }
 
 export interface IRowNodeStage {
@@ -22,8 +22,10 @@ export interface IServerSideGetRowsRequest {
     pivotMode: boolean;
     // what groups the user is viewing
     groupKeys: string[];
-    // if filtering, what the filter model is
+    // if filtering, what the filter model is. an AdvancedFilterModel (or null) when enableAdvancedFilter = true
     filterModel: any;
+    // if enableAdvancedFilter = true, the model of the column filters, which are applied alongside the advanced filter
+    columnFilterModel?: any;
     // if sorting, what the sort model is
     sortModel: any;
 }
@@ -1,4 +1,4 @@
-import { IRowModel } from "./iRowModel";
+import { IRowModel, LoadRowsForExportParams } from "./iRowModel";
 import { ServerSideTransaction, ServerSideTransactionResult } from "./serverSideTransaction";
 import { ServerSideStoreState } from "./IServerSideStore";
 import { IServerSideDatasource } from "./iServerSideDatasource";
@@ -12,6 +12,7 @@ export interface IServerSideRowModel extends IRowModel {
     expandAll(value: boolean): void;
     setDatasource(datasource: IServerSideDatasource): void;
     forEachNodeAfterFilterAndSort(callback: (node: RowNode, index: number) => void): void;
+    loadRowsForExport(params: LoadRowsForExportParams): void;
 }
 
 export interface IServerSideTransactionManager {
@@ -0,0 +1,45 @@
+import { ICellRendererParams } from "../rendering/cellRenderers/iCellRenderer";
+
+export type SparklineType = 'line' | 'area' | 'column' | 'winLoss';
+
+/** Highlights points of the sparkline. A string sets the colour of the marker instead of using the theme palette. */
+export interface SparklineMarkerOptions {
+    min?: boolean | string;
+    max?: boolean | string;
+    first?: boolean | string;
+    last?: boolean | string;
+    /** Diameter of the markers on line and area sparklines (default: 4) */
+    size?: number;
+}
+
+export interface SparklineTooltipParams {
+    value: number;
+    index: number;
+    values: (number | null)[];
+}
+
+export interface SparklineTooltipOptions {
+    /** Show the value under the mouse (default: true) */
+    enabled?: boolean;
+    /** Returns the tooltip text. By default the value is shown. */
+    renderer?: (params: SparklineTooltipParams) => string;
+}
+
+/** The cell value is an array of numbers. Missing values are nulls, which break the line. */
+export interface ISparklineCellRendererParams extends ICellRendererParams {
+    /** Default: 'line' */
+    type?: SparklineType;
+    /** Line colour, defaults to the first colour of the chart theme palette */
+    stroke?: string;
+    strokeWidth?: number;
+    /** Area, column and positive win/loss colour */
+    fill?: string;
+    /** Colour of negative columns and of losses */
+    negativeFill?: string;
+    /** Space around the sparkline in pixels (default: 3) */
+    padding?: number;
+    markers?: SparklineMarkerOptions;
+    tooltip?: SparklineTooltipOptions;
+    /** Chart theme the colours are taken from, defaults to the first of the grid's chartThemes */
+    chartTheme?: string;
+}
@@ -0,0 +1,57 @@
+import { GridApi } from "../gridApi";
+import { ColumnApi } from "../columns/columnApi";
+
+/** A value read from an imported file, dates are only found in workbooks */
+export type ImportValue = string | number | boolean | Date | null;
+
+export interface BaseImportParams {
+    /** Index of the row holding the column headers, or -1 when the file has no header row. Default: 0 */
+    headerRowIndex?: number;
+    /** 'rowData' replaces the rows of the grid, 'transaction' adds the imported rows to them. Default: 'rowData' */
+    importMode?: 'rowData' | 'transaction';
+    /** Creates column definitions from the headers of the file rather than matching them to the grid's columns */
+    generateColumnDefs?: boolean;
+    /**
+     * When generating column definitions, converts text that looks like numbers, booleans or ISO dates (yyyy-MM-dd)
+     * and sets up the columns for the type. Default: true
+     */
+    inferTypes?: boolean;
+    /**
+     * Called before the rows are loaded, to preview them or change which field each column of the file goes to.
+     * Return the mappings to use, or false to cancel the import.
+     */
+    processImport?(params: ProcessImportParams): ImportColumnMapping[] | boolean | void;
+    /** Number of rows parsed, or converted to row data, before giving the browser a chance to render. Default: 10000 */
+    chunkSize?: number;
+}
+
+export interface ImportColumnMapping {
+    /** Position of the column in the file */
+    index: number;
+    header: string;
+    /** The field the values are written to, null when the column isn't imported */
+    field: string | null;
+}
+
+export interface ProcessImportParams {
+    mappings: ImportColumnMapping[];
+    /** The rows of the file below the header row */
+    rows: ImportValue[][];
+    api: GridApi | null | undefined;
+    columnApi: ColumnApi | null | undefined;
+    context: any;
+}
+
+export interface ImportResult {
+    mappings: ImportColumnMapping[];
+    /** The data items that were loaded into the grid */
+    rowData: any[];
+    /** The rows that couldn't be imported */
+    errors: ImportError[];
+}
+
+export interface ImportError {
+    /** Position of the row in the file, starting from 1 for the first row */
+    rowNumber: number;
+    message: string;
+}
@@ -79,7 +79,14 @@ export {
     ExcelStyle,
     ExcelTable,
     ExcelXMLTemplate,
-    ExcelWorksheet
+    ExcelWorksheet,
+    ExcelConditionalFormatting,
+    ExcelChart,
+    ExcelChartSeries,
+    ExcelChartType,
+    ExcelDataValidation,
+    ExcelFormula,
+    ExcelServerSideExportParams
 } from "./interfaces/iExcelCreator";
 
 // dragAndDrop
@@ -121,6 +128,32 @@ export { TextFloatingFilter } from './filter/provided/text/textFloatingFilter';
 export { FloatingFilterWrapper } from './filter/floating/floatingFilterWrapper';
 export { FloatingFilterMapper } from './filter/floating/floatingFilterMapper';
 
+export { AdvancedFilterService } from "./filter/advanced/advancedFilterService";
+export { AdvancedFilterBuilderComp } from "./filter/advanced/advancedFilterBuilderComp";
+export {
+    AdvancedFilterModel, JoinAdvancedFilterModel, ColumnAdvancedFilterModel, TextAdvancedFilterModel, NumberAdvancedFilterModel,
+    DateAdvancedFilterModel, TextAdvancedFilterModelType, ScalarAdvancedFilterModelType
+} from "./interfaces/advancedFilterModel";
+
+export { FilterExpressionService, FilterExpressionResult, FilterExpressionSuggestions } from "./filter/expression/filterExpressionService";
+export { FilterExpressionComp } from "./filter/expression/filterExpressionComp";
+export {
+    FilterExpressionParser, FilterExpressionNode, FilterExpressionConditionNode, FilterExpressionJoinNode, FilterExpressionOperator,
+    FilterExpressionError, FilterExpressionParseResult, FilterExpressionCompletionContext, FilterExpressionPart
+} from "./filter/expression/filterExpressionParser";
+
+export { FindService } from "./find/findService";
+export { FindComp } from "./find/findComp";
+export { FindOptions, FindMatch } from "./interfaces/iFind";
+
+export { ConditionalFormattingService } from "./styling/conditionalFormattingService";
+export { ConditionalFormattingEditorComp } from "./styling/conditionalFormattingEditorComp";
+export {
+    ConditionalFormattingRule, ConditionalFormattingStyle, CellValueFormattingOperator, CellValueFormattingRule,
+    TopBottomFormattingRule, AverageFormattingRule, DuplicateFormattingRule, ColorScaleFormattingRule,
+    DataBarFormattingRule, ConditionalFormattingIconSet, IconSetFormattingRule
+} from "./interfaces/conditionalFormatting";
+
 // gridPanel
 export { GridBodyComp } from "./gridBodyComp/gridBodyComp";
 export { GridBodyCtrl, IGridBodyComp, RowAnimationCssClasses } from "./gridBodyComp/gridBodyCtrl";
@@ -188,7 +221,7 @@ export { PositionableFeature, ResizableStructure, ResizableSides, PositionableOp
 export { AutoWidthCalculator } from "./rendering/autoWidthCalculator";
 export { CheckboxSelectionComponent } from "./rendering/checkboxSelectionComponent";
 export { CellComp } from "./rendering/cell/cellComp";
-export { CellCtrl, ICellComp } from "./rendering/cell/cellCtrl";
+export { CellCtrl, ICellComp, CellFindMatch } from "./rendering/cell/cellCtrl";
 export { RowCtrl, IRowComp } from "./rendering/row/rowCtrl";
 export { RowRenderer } from "./rendering/rowRenderer";
 export { ValueFormatterService } from "./rendering/valueFormatterService";
@@ -203,8 +236,11 @@ export { ChangedPath } from "./utils/changedPath";
 export { RowNodeBlock, LoadCompleteEvent, LoadSuccessParams } from "./rowNodeCache/rowNodeBlock";
 export { RowNodeBlockLoader } from "./rowNodeCache/rowNodeBlockLoader";
 export { PaginationProxy } from "./pagination/paginationProxy";
-export { IClientSideRowModel, ClientSideRowModelSteps, RefreshModelParams } from "./interfaces/iClientSideRowModel";
+export {
+    IClientSideRowModel, ClientSideRowModelSteps, RefreshModelParams, RowDataRecord, RowDataTransactionRecord
+} from "./interfaces/iClientSideRowModel";
 export { IInfiniteRowModel } from "./interfaces/iInfiniteRowModel";
+export { ColumnarRowData, ColumnarRows } from "./interfaces/iColumnarRowData";
 
 export { ColumnVO } from "./interfaces/iColumnVO";
 
@@ -253,12 +289,22 @@ export { IChartService, ChartModel, GetChartImageDataUrlParams } from "./interfa
 
 // exporter
 export {
-    CsvExportParams, CsvCell, CsvCellData, CsvCustomContent, ExportParams, PackageFileParams,
+    CsvExportParams, CsvStreamExportParams, CsvServerSideExportParams, ServerSideExportParams, CsvCell, CsvCellData, CsvCustomContent, ExportParams, PackageFileParams,
     ProcessCellForExportParams, ProcessHeaderForExportParams, ProcessGroupHeaderForExportParams,
     ProcessRowGroupForExportParams, ShouldRowBeSkippedParams, BaseExportParams
 } from "./interfaces/exportParams";
 export { HeaderElement, PrefixedXmlAttributes, XmlElement } from "./interfaces/iXmlFactory";
 export { ICsvCreator } from "./interfaces/iCsvCreator";
+export { IPdfCreator, PdfExportParams, PdfPageMargins, PdfPageSize } from "./interfaces/iPdfCreator";
+export { IJsonCreator, JsonExportParams } from "./interfaces/iJsonCreator";
+export { IHtmlCreator, HtmlExportParams } from "./interfaces/iHtmlCreator";
+
+// importer
+export {
+    BaseImportParams, ImportColumnMapping, ImportError, ImportResult, ImportValue, ProcessImportParams
+} from "./interfaces/importParams";
+export { CsvImportParams, ICsvImporter } from "./interfaces/iCsvImporter";
+export { ExcelImportParams, IExcelImporter } from "./interfaces/iExcelImporter";
 
 // root
 export { VanillaFrameworkOverrides } from "./vanillaFrameworkOverrides";
@@ -286,9 +332,21 @@ export * from "./utils";
 export { ValueService } from "./valueService/valueService";
 export { ValueCache } from "./valueService/valueCache";
 export { ExpressionService } from "./valueService/expressionService";
+export { ValidationService, CellValidationError, ValidationOutcome } from "./valueService/validationService";
+export { StateService } from "./state/stateService";
+export {
+    GridState, GridStateKey, ColumnGroupOpenState, RowGroupExpansionState, FocusedCellState, PaginationState,
+    ScrollState, SideBarState
+} from "./interfaces/gridState";
+export { UndoRedoService } from "./undoRedo/undoRedoService";
+export {
+    UndoRedoAction, UndoRedoActionHandler, UndoRedoActionType, CellValueChange, CellValueUndoRedoAction,
+    FillUndoRedoAction, ColumnStateUndoRedoAction, FilterUndoRedoAction, RowOrderUndoRedoAction,
+    TransactionUndoRedoAction, GroupUndoRedoAction
+} from "./undoRedo/undoRedoStack";
 
 // uncatalogued
-export { IRowModel, RowBounds } from "./interfaces/iRowModel";
+export { IRowModel, RowBounds, LoadRowsForExportParams } from "./interfaces/iRowModel";
 export { IAggFuncService } from "./interfaces/iAggFuncService";
 export { IClipboardService } from "./interfaces/iClipboardService";
 export { IMenuFactory } from "./interfaces/iMenuFactory";
@@ -299,11 +357,15 @@ export { HeaderNavigationService, HeaderNavigationDirection } from "./headerRend
 export {
     IAggFunc,
     IAggFuncParams,
+    IStatefulAggFunc,
+    IStatefulAggFuncParams,
     ColGroupDef,
     ColDef,
     AbstractColDef,
     ValueSetterParams,
     ValueParserParams,
+    ValidatorParams,
+    ValidatorResult,
     ValueFormatterParams,
     ColSpanParams,
     RowSpanParams,
@@ -324,6 +386,8 @@ export {
     EditableCallbackParams,
     SuppressPasteCallbackParams,
     SuppressNavigableCallbackParams,    
+    ShowValueAs,
+    CalculatedMeasureParams,
     // deprecated params
     IsColumnFunc,
     IsColumnFuncParams
@@ -355,6 +419,7 @@ export {
     ProcessChartOptionsParams,
     ProcessChartParams,
     RowClassParams,
+    RowValidatorParams,
     ServerSideStoreType,
     ServerSideStoreParams,
     GetServerSideStoreParamsParams
@@ -374,6 +439,9 @@ export { IHeaderParams, IHeader } from "./headerRendering/header/headerComp";
 export { IHeaderGroupParams, IHeaderGroup } from "./headerRendering/headerGroup/headerGroupComp";
 export { ColumnApi } from "./columns/columnApi";
 export { IRichCellEditorParams } from "./interfaces/iRichCellEditorParams";
+export {
+    ISparklineCellRendererParams, SparklineType, SparklineMarkerOptions, SparklineTooltipOptions, SparklineTooltipParams
+} from "./interfaces/iSparklineCellRendererParams";
 export { WrappableInterface, BaseComponentWrapper, FrameworkComponentWrapper } from "./components/framework/frameworkComponentWrapper";
 export { IFrameworkOverrides } from "./interfaces/iFrameworkOverrides";
 export { Environment } from "./environment";
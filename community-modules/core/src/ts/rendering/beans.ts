@@ -8,6 +8,9 @@ import { ExpressionService } from "../valueService/expressionService";
 import { RowRenderer } from "./rowRenderer";
 import { TemplateService } from "../templateService";
 import { ValueService } from "../valueService/valueService";
+import { ValidationService } from "../valueService/validationService";
+import { FindService } from "../find/findService";
+import { ConditionalFormattingService } from "../styling/conditionalFormattingService";
 import { EventService } from "../eventService";
 import { ColumnAnimationService } from "./columnAnimationService";
 import { IRangeService, ISelectionHandleFactory } from "../interfaces/IRangeService";
@@ -84,6 +87,9 @@ export class Beans {
     @Autowired('rowCssClassCalculator') public rowCssClassCalculator: RowCssClassCalculator;
     @Autowired('rowModel') public rowModel: IRowModel;
     @Autowired('controllersService') public controllersService: ControllersService;
+    @Autowired('validationService') public validationService: ValidationService;
+    @Autowired('findService') public findService: FindService;
+    @Autowired('conditionalFormattingService') public conditionalFormattingService: ConditionalFormattingService;
 
     public doingMasterDetail: boolean;
     public gridBodyComp: GridBodyComp;
@@ -15,7 +15,7 @@ import { escapeString } from "../../utils/string";
 import { missing } from "../../utils/generic";
 import { addStylesToElement, clearElement } from "../../utils/dom";
 import { isBrowserIE } from "../../utils/browser";
-import { CellCtrl, ICellComp } from "./cellCtrl";
+import { CellCtrl, CellFindMatch, ICellComp } from "./cellCtrl";
 import { UserCompDetails } from "../../components/framework/userComponentFactory";
 
 enum DisplayState { ShowValue, EditValue }
@@ -57,6 +57,10 @@ export class CellComp extends Component implements TooltipParentComp {
     private cellCtrl: CellCtrl;
 
     private cellState: DisplayState;
+
+    // wrapped, as the value itself can be null. set while the value is shown without a cell renderer, so the
+    // find matches can be highlighted again without the value being refreshed
+    private valueWithoutCellRenderer: { value: any; } | null = null;
     private firstRender: boolean;
 
     // every time we go into edit mode, or back again, this gets incremented.
@@ -119,7 +123,8 @@ export class CellComp extends Component implements TooltipParentComp {
 
             getCellEditor: () => this.cellEditor || null,
             getCellRenderer: () => this.cellRenderer || null,
-            getParentOfValue: () => this.eCellValue || null
+            getParentOfValue: () => this.eCellValue || null,
+            refreshFindHighlight: () => this.refreshFindHighlight()
         };
 
         this.cellCtrl = cellCtrl;
@@ -274,14 +279,48 @@ export class CellComp extends Component implements TooltipParentComp {
     }
 
     private insertValueWithoutCellRenderer(valueToDisplay: any): void {
-        const escapedValue = valueToDisplay != null ? escapeString(valueToDisplay) : null;
-        if (escapedValue != null) {
-            this.eCellValue.innerHTML = escapedValue;
+        this.valueWithoutCellRenderer = { value: valueToDisplay };
+
+        const findMatches = this.cellCtrl.getFindMatches();
+        let valueHtml: string | null = null;
+
+        if (valueToDisplay != null) {
+            valueHtml = findMatches.length
+                ? this.createFindHighlightHtml(valueToDisplay.toString(), findMatches)
+                : escapeString(valueToDisplay);
+        }
+
+        if (valueHtml != null) {
+            this.eCellValue.innerHTML = valueHtml;
         } else {
             clearElement(this.eCellValue);
         }
     }
 
+    private createFindHighlightHtml(text: string, findMatches: CellFindMatch[]): string {
+        let html = '';
+        let position = 0;
+
+        findMatches.forEach(({ start, end, active }) => {
+            // the matches can be for the previous value, until the find service catches up with the change
+            if (start < position || end > text.length) { return; }
+
+            const cssClass = active ? 'ag-find-match ag-find-active-match' : 'ag-find-match';
+
+            html += escapeString(text.slice(position, start)) + `<mark class="${cssClass}">${escapeString(text.slice(start, end))}</mark>`;
+            position = end;
+        });
+
+        return html + escapeString(text.slice(position));
+    }
+
+    private refreshFindHighlight(): void {
+        // cell renderers show the value themselves, so only the cell's classes show they have a match
+        if (!this.valueWithoutCellRenderer) { return; }
+
+        this.insertValueWithoutCellRenderer(this.valueWithoutCellRenderer.value);
+    }
+
     private insertValueUsingAngular1Template(): void {
         const { template, templateUrl } = this.column.getColDef();
 
@@ -301,6 +340,7 @@ export class CellComp extends Component implements TooltipParentComp {
 
     private destroyEditorAndRenderer(): void {
         const {context} = this.beans;
+        this.valueWithoutCellRenderer = null;
         this.cellRenderer = context.destroyBean(this.cellRenderer);
         this.cellEditor = context.destroyBean(this.cellEditor);
         this.cellEditorPopupWrapper = context.destroyBean(this.cellEditorPopupWrapper);
@@ -512,7 +552,7 @@ export class CellComp extends Component implements TooltipParentComp {
     //
     // note - this is NOT called by context, as we don't wire / unwire the CellComp for performance reasons.
     public destroy(): void {
-        this.cellCtrl.stopEditing();
+        this.cellCtrl.stopEditing(false, true);
 
         this.destroyEditorAndRenderer();
         this.removeControlsWrapper();
@@ -0,0 +1,90 @@
+import { CellCtrl } from './cellCtrl';
+import { RowCtrl } from '../row/rowCtrl';
+import { RowRenderer } from '../rowRenderer';
+import { GridApi } from '../../gridApi';
+import { GridOptionsWrapper } from '../../gridOptionsWrapper';
+import { EventService } from '../../eventService';
+import { FocusService } from '../../focusService';
+import { ValidationService } from '../../valueService/validationService';
+import { Events } from '../../eventKeys';
+import { mock } from '../../test-utils/mock';
+
+const required = (params: { newValue: any; }) => params.newValue ? null : 'Required';
+
+/** A cell editing 'x', with an editor that has the value '' which fails colDef.validator */
+function createEditingCell() {
+    const gridOptionsWrapper = mock<GridOptionsWrapper>(
+        'getInvalidCellValueAction', 'getRowValidatorFunc', 'isFullRowEdit', 'isSuppressCellSelection', 'getApi', 'getColumnApi', 'getContext'
+    );
+    const eventService = mock<EventService>('dispatchEvent');
+    const focusService = mock<FocusService>('isCellFocused');
+    const validationService = new ValidationService();
+
+    gridOptionsWrapper.getInvalidCellValueAction.mockReturnValue('keepEditing');
+    Object.assign(validationService, { gridOptionsWrapper, eventService });
+
+    const rowNode = { id: '1', data: { a: 'x' }, setDataValue: jest.fn() };
+    const column = { getColId: () => 'a', getColDef: () => ({ field: 'a', validator: required }) };
+    const cellComp = { addOrRemoveCssClass: jest.fn(), getCellEditor: () => ({ getValue: () => '' }) };
+    const cellCtrl: CellCtrl = Object.assign(Object.create(CellCtrl.prototype), {
+        column,
+        rowNode,
+        cellComp,
+        editing: true,
+        cellPosition: { rowIndex: 0, rowPinned: null, column },
+        gow: gridOptionsWrapper,
+        beans: { gridOptionsWrapper, eventService, focusService, validationService }
+    });
+
+    // the rendering of the cell isn't part of these tests
+    ['setInlineEditingClass', 'refreshValidationCss', 'updateAndFormatValue', 'refreshCell', 'dispatchEditingStoppedEvent']
+        .forEach(method => jest.spyOn(cellCtrl as any, method).mockImplementation(() => undefined));
+    jest.spyOn(cellCtrl, 'getValueFromValueService').mockReturnValue('x');
+
+    return { cellCtrl, rowNode, eventService, focusService };
+}
+
+function getValidationFailedEvents(eventService: jest.Mocked<EventService>): any[] {
+    return eventService.dispatchEvent.mock.calls
+        .map(call => call[0])
+        .filter(event => event.type === Events.EVENT_CELL_VALIDATION_FAILED);
+}
+
+describe('keepEditing', () => {
+    it('keeps the editor open when the user ends the edit with an invalid value', () => {
+        const { cellCtrl, rowNode, eventService } = createEditingCell();
+
+        expect(cellCtrl.stopEditing()).toBe(false);
+        expect(cellCtrl.isEditing()).toBe(true);
+        expect(rowNode.setDataValue).not.toHaveBeenCalled();
+        expect(getValidationFailedEvents(eventService).length).toBe(1);
+    });
+
+    it('rejects the value and closes the editor when another cell is focused', () => {
+        const { cellCtrl, rowNode, eventService, focusService } = createEditingCell();
+
+        focusService.isCellFocused.mockReturnValue(false);
+        cellCtrl.onCellFocused();
+
+        expect(cellCtrl.isEditing()).toBe(false);
+        expect(rowNode.setDataValue).not.toHaveBeenCalled();
+        expect(getValidationFailedEvents(eventService).length).toBe(1);
+    });
+
+    it('rejects the value and closes the editor when api.stopEditing() is called', () => {
+        const { cellCtrl, rowNode, eventService } = createEditingCell();
+        const rowCtrl: RowCtrl = Object.assign(Object.create(RowCtrl.prototype), { getAllCellCtrls: () => [cellCtrl] });
+        const rowRenderer: RowRenderer = Object.assign(Object.create(RowRenderer.prototype), {
+            topRowCtrls: [],
+            bottomRowCtrls: [],
+            rowCtrlsByRowIndex: { 0: rowCtrl }
+        });
+        const api = Object.assign(Object.create(GridApi.prototype), { rowRenderer }) as GridApi;
+
+        api.stopEditing();
+
+        expect(cellCtrl.isEditing()).toBe(false);
+        expect(rowNode.setDataValue).not.toHaveBeenCalled();
+        expect(getValidationFailedEvents(eventService).length).toBe(1);
+    });
+});
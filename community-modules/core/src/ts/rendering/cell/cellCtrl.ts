@@ -31,6 +31,7 @@ import { CheckboxSelectionComponent } from "../checkboxSelectionComponent";
 import { DndSourceComp } from "../dndSourceComp";
 import { doOnce } from "../../utils/function";
 import { RowDragComp } from "../row/rowDragComp";
+import { ValidationOutcome } from "../../valueService/validationService";
 
 const CSS_CELL = 'ag-cell';
 const CSS_CELL_VALUE = 'ag-cell-value';
@@ -43,6 +44,9 @@ const CSS_CELL_INLINE_EDITING = 'ag-cell-inline-editing';
 const CSS_CELL_POPUP_EDITING = 'ag-cell-popup-editing';
 const CSS_COLUMN_HOVER = 'ag-column-hover';
 const CSS_CELL_WRAP_TEXT = 'ag-cell-wrap-text';
+const CSS_CELL_INVALID = 'ag-cell-invalid';
+const CSS_CELL_FIND_MATCH = 'ag-cell-find-match';
+const CSS_CELL_FIND_ACTIVE_MATCH = 'ag-cell-find-active-match';
 
 export interface ICellComp {
     addOrRemoveCssClass(cssClassName: string, on: boolean): void;
@@ -70,11 +74,19 @@ export interface ICellComp {
     getCellEditor(): ICellEditor | null;
     getCellRenderer(): ICellRenderer | null;
     getParentOfValue(): HTMLElement | null;
+    refreshFindHighlight(): void;
 
     showValue(valueToDisplay: any, compDetails: UserCompDetails | undefined, forceNewCellRendererInstance: boolean): void;
     editValue(compDetails: UserCompDetails, popup: boolean | undefined, position: string | undefined): void;
 }
 
+/** Part of the value shown in the cell that matches the find search value */
+export interface CellFindMatch {
+    start: number;
+    end: number;
+    active: boolean;
+}
+
 let instanceIdSequence = 0;
 
 export class CellCtrl extends BeanStub {
@@ -113,6 +125,8 @@ export class CellCtrl extends BeanStub {
     private editing: boolean;
     private editingInPopup: boolean;
 
+    private findMatches: CellFindMatch[] = [];
+
     private includeSelection: boolean;
     private includeDndSource: boolean;
     private includeRowDrag: boolean;
@@ -180,6 +194,8 @@ export class CellCtrl extends BeanStub {
         this.onCellFocused();
 
         this.applyStaticCssClasses();
+        this.refreshValidationCss();
+        this.refreshFindMatches();
 
         this.onFirstRightPinnedChanged();
         this.onLastLeftPinnedChanged();
@@ -281,11 +297,11 @@ export class CellCtrl extends BeanStub {
     }
 
     // pass in 'true' to cancel the editing.
-    public stopRowOrCellEdit(cancel: boolean = false) {
+    public stopRowOrCellEdit(cancel: boolean = false, forceStop = false) {
         if (this.beans.gridOptionsWrapper.isFullRowEdit()) {
             this.rowCtrl!.stopRowEditing(cancel);
         } else {
-            this.stopEditing(cancel);
+            this.stopEditing(cancel, forceStop);
         }
     }
 
@@ -297,8 +313,9 @@ export class CellCtrl extends BeanStub {
 
         if (!this.isEditing()) { return; }
         // note: this only happens when use clicks outside of the grid. if use clicks on another
-        // cell, then the editing will have already stopped on this cell
-        this.stopRowOrCellEdit();
+        // cell, then the editing will have already stopped on this cell. the popup is already gone, so
+        // we can't keep editing if the value is invalid.
+        this.stopRowOrCellEdit(false, true);
     }
 
     private takeValueFromCellEditor(cancel: boolean): { newValue?: any, newValueExists: boolean } {
@@ -334,20 +351,41 @@ export class CellCtrl extends BeanStub {
         }
     }
 
-    public stopEditing(cancel = false): void {
-        if (!this.editing) { return; }
+    // returns false if editing didn't stop, which happens when the new value is invalid and invalidCellValueAction
+    // is 'keepEditing'. pass forceStop = true when the editor can't stay open, eg when the cell is destroyed.
+    public stopEditing(cancel = false, forceStop = false): boolean {
+        if (!this.editing) { return true; }
 
         const { newValue, newValueExists } = this.takeValueFromCellEditor(cancel);
         const oldValue = this.getValueFromValueService();
 
         if (newValueExists) {
-            this.saveNewValue(oldValue, newValue);
+            // an unchanged value is not validated, it was already in the cell
+            const outcome = newValue !== oldValue ? this.validateNewValue(oldValue, newValue, forceStop) : 'accept';
+
+            if (outcome === 'keepEditing') {
+                this.cellComp.addOrRemoveCssClass(CSS_CELL_INVALID, true);
+                return false;
+            }
+
+            if (outcome === 'accept') {
+                this.saveNewValue(oldValue, newValue);
+            }
         }
 
         this.setEditing(false);
+        this.refreshValidationCss();
         this.updateAndFormatValue();
         this.refreshCell({ forceRefresh: true, suppressFlash: true });
         this.dispatchEditingStoppedEvent(oldValue, newValue);
+
+        return true;
+    }
+
+    private validateNewValue(oldValue: any, newValue: any, forceStop: boolean): ValidationOutcome {
+        const canKeepEditing = !forceStop && !this.beans.gridOptionsWrapper.isFullRowEdit();
+
+        return this.beans.validationService.validateNewValue(this.rowNode, this.column, oldValue, newValue, 'edit', canKeepEditing);
     }
 
     private dispatchEditingStoppedEvent(oldValue: any, newValue: any): void {
@@ -561,6 +599,9 @@ export class CellCtrl extends BeanStub {
         this.stopRowOrCellEdit();
         this.focusCell(true);
 
+        // the value was invalid, so the user stays on this cell to correct it
+        if (this.editing) { return; }
+
         if (!suppressNavigateAfterEdit) {
             this.navigateAfterEdit();
         }
@@ -740,6 +781,65 @@ export class CellCtrl extends BeanStub {
         return this.eGui;
     }
 
+    public getValidationError(): string | undefined {
+        const validationErrors = this.rowNode.validationErrors;
+        return validationErrors ? validationErrors[this.column.getColId()] : undefined;
+    }
+
+    public onValidationChanged(): void {
+        this.refreshValidationCss();
+        this.refreshToolTip();
+    }
+
+    private refreshValidationCss(): void {
+        // while editing, the class shows whether the value in the editor is valid
+        if (this.editing) { return; }
+
+        this.cellComp.addOrRemoveCssClass(CSS_CELL_INVALID, this.getValidationError() != null);
+    }
+
+    public onConditionalFormattingChanged(): void {
+        if (!this.cellComp) { return; }
+
+        this.cellCustomStyleFeature.applyUserStyles();
+    }
+
+    /** The matches of the find search value in this cell, with whether each is the active match */
+    public getFindMatches(): CellFindMatch[] {
+        return this.findMatches;
+    }
+
+    public onFindChanged(): void {
+        if (!this.cellComp) { return; }
+
+        const matchesBefore = this.findMatches;
+
+        this.refreshFindMatches();
+
+        const unchanged = matchesBefore.length === this.findMatches.length && matchesBefore.every((match, index) => {
+            const newMatch = this.findMatches[index];
+            return match.start === newMatch.start && match.end === newMatch.end && match.active === newMatch.active;
+        });
+
+        if (!unchanged) {
+            this.cellComp.refreshFindHighlight();
+        }
+    }
+
+    private refreshFindMatches(): void {
+        const { findService } = this.beans;
+
+        this.findMatches = findService.getCellMatches(this.rowNode, this.column).map(match => ({
+            start: match.start,
+            end: match.end,
+            active: findService.isActiveMatch(match)
+        }));
+
+        // cells with a cell renderer can't highlight the text, so the classes are also how these cells show matches
+        this.cellComp.addOrRemoveCssClass(CSS_CELL_FIND_MATCH, this.findMatches.length > 0);
+        this.cellComp.addOrRemoveCssClass(CSS_CELL_FIND_ACTIVE_MATCH, this.findMatches.some(match => match.active));
+    }
+
     public refreshToolTip(): void {
         this.cellTooltipFeature.refreshToolTip();
     }
@@ -883,11 +983,12 @@ export class CellCtrl extends BeanStub {
             }
         }
 
-        // if another cell was focused, and we are editing, then stop editing
+        // if another cell was focused, and we are editing, then stop editing. the focus has already moved, so the
+        // editor can't stay open, and an invalid value is rejected.
         const fullRowEdit = this.beans.gridOptionsWrapper.isFullRowEdit();
 
         if (!cellFocused && !fullRowEdit && this.editing) {
-            this.stopRowOrCellEdit();
+            this.stopRowOrCellEdit(false, true);
         }
     }
 
@@ -4,6 +4,9 @@ import { CellCtrl, ICellComp } from "./cellCtrl";
 import { Column } from "../../entities/column";
 import { RowNode } from "../../entities/rowNode";
 import { Beans } from "../beans";
+import { assign } from "../../utils/object";
+
+const CSS_CELL_CONDITIONAL_FORMAT_ICON = 'ag-cell-conditional-format-icon';
 
 export class CellCustomStyleFeature extends BeanStub {
 
@@ -16,6 +19,9 @@ export class CellCustomStyleFeature extends BeanStub {
 
     private scope: any;
 
+    // the styles set by conditional formatting last time, so they can be cleared when the format no longer applies
+    private conditionalFormatStyleKeys: string[] = [];
+
     constructor(ctrl: CellCtrl, beans: Beans) {
         super();
 
@@ -59,6 +65,26 @@ export class CellCustomStyleFeature extends BeanStub {
 
     public applyUserStyles() {
         const colDef = this.column.getColDef();
+        const { conditionalFormattingService } = this.beans;
+        const format = conditionalFormattingService.getCellFormat(this.rowNode, this.column);
+
+        if (!colDef.cellStyle && !format && !this.conditionalFormatStyleKeys.length) { return; }
+
+        const conditionalStyles = format ? conditionalFormattingService.getCellStyles(format) : {};
+        const styles: { [key: string]: string; } = {};
+
+        // the styles are set in one go, as some frameworks replace all the styles each time they are set
+        this.conditionalFormatStyleKeys.forEach(key => styles[key] = '');
+
+        assign(styles, this.getColDefStyles(), conditionalStyles);
+
+        this.conditionalFormatStyleKeys = Object.keys(conditionalStyles);
+        this.cellComp.addOrRemoveCssClass(CSS_CELL_CONDITIONAL_FORMAT_ICON, !!(format && format.icon));
+        this.cellComp.setUserStyles(styles);
+    }
+
+    private getColDefStyles(): {} | undefined {
+        const colDef = this.column.getColDef();
 
         if (!colDef.cellStyle) { return; }
 
@@ -83,7 +109,7 @@ export class CellCustomStyleFeature extends BeanStub {
             styles = colDef.cellStyle;
         }
 
-        this.cellComp.setUserStyles(styles);
+        return styles;
     }
 
     public applyClassesFromColDef() {
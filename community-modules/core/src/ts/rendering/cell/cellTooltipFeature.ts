@@ -79,6 +79,13 @@ export class CellTooltipFeature extends BeanStub {
         const colDef = this.column.getColDef();
         const data = this.rowNode.data;
 
+        // the validation error is more important than the usual tooltip, as the user needs to fix the value
+        const validationError = this.cellCtrl.getValidationError();
+
+        if (validationError != null) {
+            return validationError;
+        }
+
         if (colDef.tooltipField && exists(data)) {
             return getValueUsingField(data, colDef.tooltipField, this.column.isTooltipFieldContainsDots());
         }
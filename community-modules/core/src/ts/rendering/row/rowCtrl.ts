@@ -589,6 +589,9 @@ export class RowCtrl extends BeanStub {
         this.addManagedListener(this.rowNode, RowNode.EVENT_CELL_CHANGED, event => {
             this.getAllCellCtrls().forEach(cellCtrl => cellCtrl.onCellChanged(event));
         });
+        this.addManagedListener(this.rowNode, RowNode.EVENT_VALIDATION_CHANGED, () => {
+            this.getAllCellCtrls().forEach(cellCtrl => cellCtrl.onValidationChanged());
+        });
 
     }
 
@@ -964,8 +967,10 @@ export class RowCtrl extends BeanStub {
         }
     }
 
+    // the editors of the row are always closed, for full row editing and for api.stopEditing(), so an invalid value
+    // is rejected rather than keeping the editor open
     public stopEditing(cancel = false): void {
-        this.getAllCellCtrls().forEach(cellCtrl => cellCtrl.stopEditing(cancel));
+        this.getAllCellCtrls().forEach(cellCtrl => cellCtrl.stopEditing(cancel, true));
 
         if (!this.editingRow) { return; }
 
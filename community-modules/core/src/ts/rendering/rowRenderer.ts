@@ -142,6 +142,14 @@ export class RowRenderer extends BeanStub {
             this.getAllCellCtrls().forEach(cellCtrl => cellCtrl.onColumnHover());
         });
 
+        this.addManagedListener(this.eventService, Events.EVENT_FIND_CHANGED, () => {
+            this.getAllCellCtrls().forEach(cellCtrl => cellCtrl.onFindChanged());
+        });
+
+        this.addManagedListener(this.eventService, Events.EVENT_CONDITIONAL_FORMATTING_CHANGED, () => {
+            this.getAllCellCtrls().forEach(cellCtrl => cellCtrl.onConditionalFormattingChanged());
+        });
+
         // only for printLayout - because we are rendering all the cells in the same row, regardless of pinned state,
         // then changing the width of the containers will impact left position. eg the center cols all have their
         // left position adjusted by the width of the left pinned column, so if the pinned left column width changes,
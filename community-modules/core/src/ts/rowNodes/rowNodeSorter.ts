@@ -1,4 +1,5 @@
 import { Column } from "../entities/column";
+import { ColDef } from "../entities/colDef";
 import { RowNode } from "../entities/rowNode";
 import { Autowired, Bean } from "../context/context";
 import { GridOptionsWrapper } from "../gridOptionsWrapper";
@@ -76,14 +77,14 @@ export class RowNodeSorter {
         const column = sortOption.column;
 
         // comparator on col get preference over everything else
-        const comparatorOnCol = column.getColDef().comparator;
+        const comparatorOnCol = this.getColDefComparator(column.getColDef());
         if (comparatorOnCol != null) {
             return comparatorOnCol;
         }
 
         // if no comparator on col, see if we are showing a group, and if we are, get comparator from row group col
         if (rowNode.rowGroupColumn) {
-            return rowNode.rowGroupColumn.getColDef().comparator;
+            return this.getColDefComparator(rowNode.rowGroupColumn.getColDef());
         }
 
         if (column.getColDef().showRowGroup) {
@@ -91,7 +92,7 @@ export class RowNodeSorter {
             const groupLeafField = !rowNode.group && column.getColDef().field;
             if (groupLeafField) {
                 const primaryColumn = this.columnModel.getPrimaryColumn(column.getColDef().field!);
-                const groupLeafComparator = primaryColumn!.getColDef().comparator;
+                const groupLeafComparator = this.getColDefComparator(primaryColumn!.getColDef());
                 if (groupLeafComparator) {
                     return groupLeafComparator;
                 }
@@ -99,6 +100,22 @@ export class RowNodeSorter {
         }
     }
 
+    private getColDefComparator(colDef: ColDef):
+        ((valueA: any, valueB: any, nodeA: RowNode, nodeB: RowNode, isInverted: boolean) => number) | undefined {
+
+        if (colDef.comparator != null || colDef.comparatorKey == null) {
+            return colDef.comparator;
+        }
+
+        const namedComparator = _.NAMED_COMPARATORS[colDef.comparatorKey];
+
+        if (!namedComparator) {
+            _.doOnce(() => console.warn(`AG Grid: unknown comparatorKey '${colDef.comparatorKey}'`), 'rowNodeSorter.comparatorKey' + colDef.comparatorKey);
+        }
+
+        return namedComparator;
+    }
+
     private getValue(nodeA: RowNode, column: Column): string {
         return this.valueService.getValue(column, nodeA, false, false);
     }
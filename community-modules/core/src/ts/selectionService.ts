@@ -301,6 +301,9 @@ export class SelectionService extends BeanStub {
 
         if (justFiltered) {
             clientSideRowModel.forEachNodeAfterFilter(callback);
+        } else if (clientSideRowModel.isColumnar()) {
+            // columnar rows are never grouped, and forEachNode only visits the rows that have a node
+            clientSideRowModel.forEachLeafNode(callback);
         } else {
             clientSideRowModel.forEachNode(callback);
         }
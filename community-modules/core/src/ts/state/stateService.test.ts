@@ -0,0 +1,191 @@
+import { StateService } from './stateService';
+import { ColumnModel } from '../columns/columnModel';
+import { FilterManager } from '../filter/filterManager';
+import { AdvancedFilterService } from '../filter/advanced/advancedFilterService';
+import { SelectionService } from '../selectionService';
+import { FocusService } from '../focusService';
+import { EventService } from '../eventService';
+import { GridOptionsWrapper } from '../gridOptionsWrapper';
+import { ControllersService } from '../controllersService';
+import { GridBodyCtrl } from '../gridBodyComp/gridBodyCtrl';
+import { GridBodyScrollFeature } from '../gridBodyComp/gridBodyScrollFeature';
+import { IRowModel } from '../interfaces/iRowModel';
+import { RowNode } from '../entities/rowNode';
+import { Context } from '../context/context';
+import { Constants } from '../constants/constants';
+import { Events } from '../eventKeys';
+import { StateUpdatedEvent } from '../events';
+import { AgPromise } from '../utils';
+import { mock } from '../test-utils/mock';
+
+function createRowNode(id: string, props: Partial<RowNode> = {}): RowNode {
+    return { id, level: 0, setSelected: jest.fn(), setExpanded: jest.fn(), ...props } as Partial<RowNode> as RowNode;
+}
+
+function createService(rowNodes: RowNode[], rowModelType = Constants.ROW_MODEL_TYPE_CLIENT_SIDE) {
+    const columnModel = mock<ColumnModel>('isPivotMode', 'getColumnState', 'getColumnGroupState', 'setPivotMode', 'applyColumnState', 'setColumnGroupState');
+    columnModel.getColumnState.mockReturnValue([{ colId: 'a' }]);
+    columnModel.getColumnGroupState.mockReturnValue([]);
+
+    const filterManager = mock<FilterManager>('getFilterModel', 'setFilterModel');
+    filterManager.getFilterModel.mockReturnValue({ a: { type: 'equals' } });
+    filterManager.setFilterModel.mockReturnValue(AgPromise.resolve());
+
+    const advancedFilterService = mock<AdvancedFilterService>('isEnabled', 'getModel', 'setModel');
+    const selectionService = mock<SelectionService>('getSelectedNodes', 'deselectAllRowNodes', 'updateGroupsFromChildrenSelections');
+    selectionService.getSelectedNodes.mockReturnValue([]);
+
+    const focusService = mock<FocusService>('getFocusedCell', 'clearFocusedCell', 'setFocusedCell');
+    const gridOptionsWrapper = mock<GridOptionsWrapper>('isPagination', 'getSideBar', 'getInitialState');
+
+    const rowModel = mock<IRowModel>('forEachNode', 'getRowNode', 'getType');
+    rowModel.forEachNode.mockImplementation(callback => rowNodes.forEach(callback));
+    rowModel.getRowNode.mockImplementation((id: string) => rowNodes.filter(rowNode => rowNode.id === id)[0]);
+    rowModel.getType.mockReturnValue(rowModelType);
+
+    const scrollFeature = mock<GridBodyScrollFeature>('getVScrollPosition', 'getHScrollPosition');
+    scrollFeature.getVScrollPosition.mockReturnValue({ top: 0, bottom: 100 });
+    scrollFeature.getHScrollPosition.mockReturnValue({ left: 0, right: 100 });
+
+    const gridBodyCtrl = mock<GridBodyCtrl>('getScrollFeature');
+    gridBodyCtrl.getScrollFeature.mockReturnValue(scrollFeature);
+
+    const controllersService = mock<ControllersService>('getGridBodyController', 'whenReady');
+    controllersService.getGridBodyController.mockReturnValue(gridBodyCtrl);
+
+    const eventService = new EventService();
+
+    const context = new Context({
+        providedBeanInstances: {
+            columnModel, filterManager, advancedFilterService, selectionService, focusService, gridOptionsWrapper,
+            rowModel, eventService, controllersService, columnApi: null, gridApi: null, paginationProxy: null,
+            frameworkOverrides: null
+        },
+        beanClasses: [StateService],
+        debug: false
+    }, { log: () => {} });
+
+    const service: StateService = context.getBean('stateService');
+
+    return { service, columnModel, filterManager, selectionService, rowModel, scrollFeature, eventService };
+}
+
+describe('getState', () => {
+    it('includes the column, filter, expansion and selection state', () => {
+        const group = createRowNode('g', { group: true, expanded: true, key: 'Ireland' });
+        const row = createRowNode('1');
+        const { service, selectionService } = createService([group, row]);
+
+        selectionService.getSelectedNodes.mockReturnValue([row]);
+
+        expect(service.getState()).toStrictEqual({
+            version: StateService.STATE_VERSION,
+            pivotMode: undefined,
+            columnState: [{ colId: 'a' }],
+            columnGroupState: [],
+            filterModel: { a: { type: 'equals' } },
+            rowGroupExpansion: { expandedGroupRoutes: [['Ireland']] },
+            selectedRowIds: ['1'],
+            focusedCell: null,
+            scroll: { top: 0, left: 0 }
+        });
+    });
+});
+
+describe('state updated event', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('does not read the state when no listener asks for it', () => {
+        const { rowModel, scrollFeature, eventService } = createService([createRowNode('1')]);
+
+        eventService.dispatchEvent({ type: Events.EVENT_BODY_SCROLL });
+        jest.runAllTimers();
+
+        expect(scrollFeature.getVScrollPosition).not.toHaveBeenCalled();
+        expect(rowModel.forEachNode).not.toHaveBeenCalled();
+    });
+
+    it('only reads the scroll position when only the scroll has changed', () => {
+        const { rowModel, columnModel, scrollFeature, eventService } = createService([createRowNode('1')]);
+        const events: StateUpdatedEvent[] = [];
+
+        eventService.addEventListener(Events.EVENT_STATE_UPDATED, (event: StateUpdatedEvent) => events.push(event));
+
+        eventService.dispatchEvent({ type: Events.EVENT_SORT_CHANGED });
+        jest.runAllTimers();
+        expect(events[0].state.columnState).toStrictEqual([{ colId: 'a' }]);
+
+        rowModel.forEachNode.mockClear();
+        columnModel.getColumnState.mockClear();
+        scrollFeature.getVScrollPosition.mockReturnValue({ top: 50, bottom: 150 });
+
+        eventService.dispatchEvent({ type: Events.EVENT_BODY_SCROLL });
+        jest.runAllTimers();
+
+        expect(events[1].sources).toStrictEqual(['scroll']);
+        expect(events[1].state.scroll).toStrictEqual({ top: 50, left: 0 });
+        expect(events[1].state.columnState).toStrictEqual([{ colId: 'a' }]);
+        expect(rowModel.forEachNode).not.toHaveBeenCalled();
+        expect(columnModel.getColumnState).not.toHaveBeenCalled();
+    });
+});
+
+describe('setState', () => {
+    it('restores the columns before the filters, and only the parts given', () => {
+        const { service, columnModel, filterManager } = createService([]);
+        const calls: string[] = [];
+
+        columnModel.applyColumnState.mockImplementation(() => { calls.push('columns'); return true; });
+        filterManager.setFilterModel.mockImplementation(() => {
+            calls.push('filters');
+            return AgPromise.resolve();
+        });
+
+        service.setState({ filterModel: {}, columnState: [] });
+
+        expect(calls).toStrictEqual(['columns', 'filters']);
+        expect(columnModel.setPivotMode).not.toHaveBeenCalled();
+    });
+
+    it('dispatches one state updated event for everything it restores', () => {
+        const { service, eventService } = createService([]);
+        const events: StateUpdatedEvent[] = [];
+
+        eventService.addEventListener(Events.EVENT_STATE_UPDATED, (event: StateUpdatedEvent) => events.push(event));
+
+        service.setState({ pivotMode: true, columnState: [] });
+
+        expect(events.length).toBe(1);
+        expect(events[0].sources).toStrictEqual(['pivotMode', 'columnState']);
+    });
+
+    it('warns about states of a newer version', () => {
+        const { service } = createService([]);
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+        service.setState({ version: StateService.STATE_VERSION + 1 });
+
+        expect(warn).toHaveBeenCalledTimes(1);
+        warn.mockRestore();
+    });
+
+    it('selects rows that are loaded later for the server-side row model', () => {
+        const loaded = createRowNode('1');
+        const rowNodes = [loaded];
+        const { service, eventService } = createService(rowNodes, Constants.ROW_MODEL_TYPE_SERVER_SIDE);
+        const selectionChanged = jest.fn();
+
+        service.setState({ selectedRowIds: ['1', '2'] });
+
+        expect(loaded.setSelected).toHaveBeenCalledWith(true, false, true);
+
+        const later = createRowNode('2');
+        rowNodes.push(later);
+        eventService.addEventListener(Events.EVENT_SELECTION_CHANGED, selectionChanged);
+        eventService.dispatchEvent({ type: Events.EVENT_MODEL_UPDATED });
+
+        expect(later.setSelected).toHaveBeenCalledWith(true, false, true);
+        expect(selectionChanged).toHaveBeenCalledTimes(1);
+    });
+});
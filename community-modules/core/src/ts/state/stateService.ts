@@ -0,0 +1,496 @@
+import { Autowired, Bean, PostConstruct } from "../context/context";
+import { BeanStub } from "../context/beanStub";
+import { Events, StateUpdatedEvent } from "../events";
+import { ColumnModel } from "../columns/columnModel";
+import { ColumnApi } from "../columns/columnApi";
+import { FilterManager } from "../filter/filterManager";
+import { AdvancedFilterService } from "../filter/advanced/advancedFilterService";
+import { SelectionService } from "../selectionService";
+import { FocusService } from "../focusService";
+import { PaginationProxy } from "../pagination/paginationProxy";
+import { ControllersService } from "../controllersService";
+import { GridApi } from "../gridApi";
+import { IRowModel } from "../interfaces/iRowModel";
+import { IClientSideRowModel, ClientSideRowModelSteps } from "../interfaces/iClientSideRowModel";
+import { RowNode } from "../entities/rowNode";
+import { Constants } from "../constants/constants";
+import {
+    FocusedCellState,
+    GridState,
+    GridStateKey,
+    PaginationState,
+    RowGroupExpansionState,
+    ScrollState,
+    SideBarState
+} from "../interfaces/gridState";
+import { convertToSet } from "../utils/set";
+import { exists } from "../utils/generic";
+
+@Bean('stateService')
+export class StateService extends BeanStub {
+
+    public static STATE_VERSION = 1;
+
+    // separates the keys of a group route when used as a lookup key
+    private static ROUTE_SEPARATOR = '\u0000';
+
+    @Autowired('columnModel') private columnModel: ColumnModel;
+    @Autowired('columnApi') private columnApi: ColumnApi;
+    @Autowired('filterManager') private filterManager: FilterManager;
+    @Autowired('advancedFilterService') private advancedFilterService: AdvancedFilterService;
+    @Autowired('selectionService') private selectionService: SelectionService;
+    @Autowired('focusService') private focusService: FocusService;
+    @Autowired('paginationProxy') private paginationProxy: PaginationProxy;
+    @Autowired('controllersService') private controllersService: ControllersService;
+    @Autowired('gridApi') private gridApi: GridApi;
+    @Autowired('rowModel') private rowModel: IRowModel;
+
+    // row level state can only be applied to rows that are loaded. for the server side and infinite row
+    // models we hold onto whatever could not be applied yet, and apply it as the rows arrive.
+    private pendingExpandedRoutes: Set<string> | null = null;
+    private pendingExpandedMasterIds: Set<string> | null = null;
+    private pendingSelectedIds: Set<string> | null = null;
+
+    private settingState = false;
+    private updatedSources = new Set<GridStateKey>();
+    private updateScheduled = false;
+
+    // the state last given to stateUpdated listeners. only the parts that have changed since are read again,
+    // so that eg scrolling doesn't walk every row to work out which groups are expanded.
+    private lastState: GridState | null = null;
+    private staleKeys = new Set<GridStateKey>();
+
+    @PostConstruct
+    private init(): void {
+        this.addSourceListeners('columnState', [
+            Events.EVENT_COLUMN_MOVED, Events.EVENT_COLUMN_VISIBLE, Events.EVENT_COLUMN_PINNED,
+            Events.EVENT_COLUMN_RESIZED, Events.EVENT_COLUMN_ROW_GROUP_CHANGED, Events.EVENT_COLUMN_PIVOT_CHANGED,
+            Events.EVENT_COLUMN_VALUE_CHANGED, Events.EVENT_SORT_CHANGED, Events.EVENT_NEW_COLUMNS_LOADED
+        ]);
+        this.addSourceListeners('pivotMode', [Events.EVENT_COLUMN_PIVOT_MODE_CHANGED]);
+        this.addSourceListeners('columnGroupState', [Events.EVENT_COLUMN_GROUP_OPENED]);
+        this.addSourceListeners('filterModel', [Events.EVENT_FILTER_CHANGED]);
+        if (this.advancedFilterService.isEnabled()) {
+            this.addSourceListeners('advancedFilterModel', [Events.EVENT_FILTER_CHANGED]);
+        }
+        this.addSourceListeners('rowGroupExpansion', [Events.EVENT_ROW_GROUP_OPENED]);
+        this.addSourceListeners('selectedRowIds', [Events.EVENT_SELECTION_CHANGED]);
+        this.addSourceListeners('focusedCell', [Events.EVENT_CELL_FOCUSED]);
+        this.addSourceListeners('pagination', [Events.EVENT_PAGINATION_CHANGED]);
+        this.addSourceListeners('scroll', [Events.EVENT_BODY_SCROLL]);
+        this.addSourceListeners('sideBar', [Events.EVENT_TOOL_PANEL_VISIBLE_CHANGED]);
+
+        this.addManagedListener(this.eventService, Events.EVENT_MODEL_UPDATED, this.onModelUpdated.bind(this));
+
+        const initialState = this.gridOptionsWrapper.getInitialState();
+        if (initialState) {
+            // columns and rows are only set once the grid is ready, so we wait until then
+            this.controllersService.whenReady(() => {
+                window.setTimeout(() => {
+                    if (this.isAlive()) { this.setState(initialState); }
+                }, 0);
+            });
+        }
+    }
+
+    private addSourceListeners(source: GridStateKey, eventTypes: string[]): void {
+        eventTypes.forEach(eventType => {
+            this.addManagedListener(this.eventService, eventType, () => this.onStateChanged(source));
+        });
+    }
+
+    private onStateChanged(source: GridStateKey): void {
+        // setState() dispatches one event for everything it restores once it has finished
+        if (this.settingState) { return; }
+
+        this.updatedSources.add(source);
+        this.staleKeys.add(source);
+
+        if (this.updateScheduled) { return; }
+
+        // many events fire for one user action (eg a column drag), so we batch them into one update
+        this.updateScheduled = true;
+        window.setTimeout(this.dispatchStateUpdated.bind(this), 0);
+    }
+
+    private dispatchStateUpdated(): void {
+        this.updateScheduled = false;
+
+        if (!this.isAlive() || this.updatedSources.size === 0) { return; }
+
+        const sources: GridStateKey[] = [];
+        this.updatedSources.forEach(source => sources.push(source));
+        this.updatedSources.clear();
+
+        const event = {
+            type: Events.EVENT_STATE_UPDATED,
+            api: this.gridApi,
+            columnApi: this.columnApi,
+            sources
+        } as StateUpdatedEvent;
+
+        // the state is only read if a listener asks for it, as nothing may be listening
+        let state: GridState | undefined;
+        Object.defineProperty(event, 'state', {
+            enumerable: true,
+            get: () => state || (state = this.getUpdatedState())
+        });
+
+        this.eventService.dispatchEvent(event);
+    }
+
+    private onModelUpdated(): void {
+        // new or removed rows can change the expanded groups without a row group opened event
+        this.staleKeys.add('rowGroupExpansion');
+        this.applyPendingRowState();
+    }
+
+    private getUpdatedState(): GridState {
+        if (!this.lastState) {
+            this.lastState = this.getState();
+        } else {
+            const lastState = this.lastState;
+            this.staleKeys.forEach(key => this.readStateKey(lastState, key));
+        }
+
+        this.staleKeys.clear();
+
+        return { ...this.lastState };
+    }
+
+    public getState(): GridState {
+        const state: GridState = { version: StateService.STATE_VERSION };
+        const keys: GridStateKey[] = [
+            'pivotMode', 'columnState', 'columnGroupState', 'filterModel', 'advancedFilterModel', 'rowGroupExpansion',
+            'selectedRowIds', 'focusedCell', 'pagination', 'scroll', 'sideBar'
+        ];
+
+        keys.forEach(key => this.readStateKey(state, key));
+
+        return state;
+    }
+
+    private readStateKey(state: GridState, key: GridStateKey): void {
+        switch (key) {
+            case 'pivotMode':
+                state.pivotMode = this.columnModel.isPivotMode();
+                break;
+            case 'columnState':
+                state.columnState = this.columnModel.getColumnState();
+                break;
+            case 'columnGroupState':
+                state.columnGroupState = this.columnModel.getColumnGroupState();
+                break;
+            case 'filterModel':
+                state.filterModel = this.filterManager.getFilterModel();
+                break;
+            case 'advancedFilterModel':
+                if (this.advancedFilterService.isEnabled()) {
+                    state.advancedFilterModel = this.advancedFilterService.getModel();
+                }
+                break;
+            case 'rowGroupExpansion':
+                state.rowGroupExpansion = this.getRowGroupExpansionState();
+                break;
+            case 'selectedRowIds':
+                state.selectedRowIds = this.getSelectedRowIds();
+                break;
+            case 'focusedCell':
+                state.focusedCell = this.getFocusedCellState();
+                break;
+            case 'pagination':
+                if (this.gridOptionsWrapper.isPagination()) {
+                    state.pagination = this.getPaginationState();
+                }
+                break;
+            case 'scroll': {
+                const scroll = this.getScrollState();
+                if (scroll) {
+                    state.scroll = scroll;
+                }
+                break;
+            }
+            case 'sideBar':
+                if (this.gridOptionsWrapper.getSideBar()) {
+                    state.sideBar = this.getSideBarState();
+                }
+                break;
+        }
+    }
+
+    public setState(state: GridState): void {
+        if (!state) { return; }
+
+        if (state.version != null && state.version > StateService.STATE_VERSION) {
+            console.warn(`AG Grid: setState() was given a state of version ${state.version}, this grid only understands up to version ${StateService.STATE_VERSION}, some state may not be restored`);
+        }
+
+        const sources: GridStateKey[] = [];
+        const restore = (key: GridStateKey, callback: () => void) => {
+            if (state[key] === undefined) { return; }
+            callback();
+            sources.push(key);
+        };
+
+        this.settingState = true;
+
+        // the order is important, columns must be in place before filters can be set against them, and
+        // rows only exist in their final form (grouped and filtered) once the columns and filters are set.
+        // pagination and scrolling depend on the rows, and focus depends on what is scrolled into view.
+        try {
+            restore('pivotMode', () => this.columnModel.setPivotMode(!!state.pivotMode, 'api'));
+            restore('columnState', () => this.columnModel.applyColumnState({ state: state.columnState, applyOrder: true }, 'api'));
+            restore('columnGroupState', () => this.columnModel.setColumnGroupState(state.columnGroupState!, 'api'));
+            restore('filterModel', () => this.filterManager.setFilterModel(state.filterModel!));
+            restore('advancedFilterModel', () => this.advancedFilterService.setModel(state.advancedFilterModel!));
+            restore('rowGroupExpansion', () => this.setRowGroupExpansionState(state.rowGroupExpansion!));
+            restore('selectedRowIds', () => this.setSelectedRowIds(state.selectedRowIds!));
+            restore('pagination', () => this.setPaginationState(state.pagination!));
+            restore('scroll', () => this.setScrollState(state.scroll!));
+            restore('focusedCell', () => this.setFocusedCellState(state.focusedCell));
+            restore('sideBar', () => this.setSideBarState(state.sideBar!));
+        } finally {
+            this.settingState = false;
+        }
+
+        sources.forEach(source => {
+            this.updatedSources.add(source);
+            this.staleKeys.add(source);
+        });
+        // restoring columns and filters changes the rows, so which groups are expanded may have changed too
+        this.staleKeys.add('rowGroupExpansion');
+        this.dispatchStateUpdated();
+    }
+
+    private getRowGroupExpansionState(): RowGroupExpansionState {
+        const expandedGroupRoutes: string[][] = [];
+        const expandedMasterRowIds: string[] = [];
+
+        this.rowModel.forEachNode(rowNode => {
+            if (!rowNode.expanded || rowNode.footer) { return; }
+
+            if (rowNode.group) {
+                expandedGroupRoutes.push(this.getGroupRoute(rowNode));
+            } else if (rowNode.master && rowNode.id != null) {
+                expandedMasterRowIds.push(rowNode.id);
+            }
+        });
+
+        const result: RowGroupExpansionState = { expandedGroupRoutes };
+
+        if (expandedMasterRowIds.length) {
+            result.expandedMasterRowIds = expandedMasterRowIds;
+        }
+
+        return result;
+    }
+
+    private setRowGroupExpansionState(expansionState: RowGroupExpansionState): void {
+        const expandedRoutes = convertToSet((expansionState.expandedGroupRoutes || []).map(route => this.getRouteKey(route)));
+        const expandedMasterIds = convertToSet(expansionState.expandedMasterRowIds || []);
+
+        if (this.isClientSide()) {
+            // all rows are present, so we set the flags directly and refresh the model once,
+            // rather than have each row fire its own event and refresh
+            this.rowModel.forEachNode(rowNode => {
+                if (rowNode.group) {
+                    rowNode.expanded = expandedRoutes.has(this.getRouteKey(this.getGroupRoute(rowNode)));
+                } else if (rowNode.master) {
+                    rowNode.expanded = expandedMasterIds.has(rowNode.id!);
+                }
+            });
+
+            (this.rowModel as IClientSideRowModel).refreshModel({ step: ClientSideRowModelSteps.MAP });
+            return;
+        }
+
+        this.pendingExpandedRoutes = expandedRoutes;
+        this.pendingExpandedMasterIds = expandedMasterIds;
+
+        this.rowModel.forEachNode(rowNode => {
+            if (!rowNode.group && !rowNode.master) { return; }
+            // rows that are loaded are given the correct state, opened or closed. rows loaded later are only
+            // ever opened, so we don't close rows the user has opened since.
+            rowNode.setExpanded(this.consumePendingExpansion(rowNode));
+        });
+    }
+
+    private consumePendingExpansion(rowNode: RowNode): boolean {
+        if (rowNode.group && this.pendingExpandedRoutes) {
+            const routeKey = this.getRouteKey(this.getGroupRoute(rowNode));
+            return this.pendingExpandedRoutes.delete(routeKey);
+        }
+
+        if (rowNode.master && this.pendingExpandedMasterIds && rowNode.id != null) {
+            return this.pendingExpandedMasterIds.delete(rowNode.id);
+        }
+
+        return false;
+    }
+
+    private getSelectedRowIds(): string[] {
+        return this.selectionService.getSelectedNodes()
+            .filter(rowNode => rowNode.id != null)
+            .map(rowNode => rowNode.id!);
+    }
+
+    private setSelectedRowIds(selectedRowIds: string[]): void {
+        const idsToSelect = convertToSet(selectedRowIds);
+
+        this.selectionService.deselectAllRowNodes();
+
+        idsToSelect.forEach(id => {
+            const rowNode = this.rowModel.getRowNode(id);
+            if (rowNode) {
+                rowNode.setSelected(true, false, true);
+                idsToSelect.delete(id);
+            }
+        });
+
+        this.pendingSelectedIds = this.isClientSide() || idsToSelect.size === 0 ? null : idsToSelect;
+
+        this.onRowsSelected();
+    }
+
+    private onRowsSelected(): void {
+        // the rows were selected with suppressFinishActions, so we finish the actions here once for all rows
+        this.selectionService.updateGroupsFromChildrenSelections();
+
+        const event = {
+            type: Events.EVENT_SELECTION_CHANGED,
+            api: this.gridApi,
+            columnApi: this.columnApi
+        };
+
+        this.eventService.dispatchEvent(event);
+    }
+
+    private applyPendingRowState(): void {
+        const pendingExpansion = (this.pendingExpandedRoutes && this.pendingExpandedRoutes.size > 0)
+            || (this.pendingExpandedMasterIds && this.pendingExpandedMasterIds.size > 0);
+        const pendingSelection = this.pendingSelectedIds && this.pendingSelectedIds.size > 0;
+
+        if (!pendingExpansion && !pendingSelection) { return; }
+
+        let anySelected = false;
+
+        this.rowModel.forEachNode(rowNode => {
+            if (pendingExpansion && !rowNode.expanded && this.consumePendingExpansion(rowNode)) {
+                rowNode.setExpanded(true);
+            }
+
+            if (pendingSelection && rowNode.id != null && this.pendingSelectedIds!.delete(rowNode.id)) {
+                rowNode.setSelected(true, false, true);
+                anySelected = true;
+            }
+        });
+
+        if (anySelected) {
+            this.onRowsSelected();
+        }
+    }
+
+    private getFocusedCellState(): FocusedCellState | null {
+        const focusedCell = this.focusService.getFocusedCell();
+
+        if (!focusedCell) { return null; }
+
+        return {
+            rowIndex: focusedCell.rowIndex,
+            rowPinned: focusedCell.rowPinned,
+            colId: focusedCell.column.getColId()
+        };
+    }
+
+    private setFocusedCellState(focusedCell: FocusedCellState | null | undefined): void {
+        if (!focusedCell) {
+            this.focusService.clearFocusedCell();
+            return;
+        }
+
+        const column = this.columnModel.getGridColumn(focusedCell.colId);
+        if (!column) { return; }
+
+        this.focusService.setFocusedCell(focusedCell.rowIndex, column, focusedCell.rowPinned);
+    }
+
+    private getPaginationState(): PaginationState {
+        return {
+            page: this.paginationProxy.getCurrentPage(),
+            pageSize: this.paginationProxy.getPageSize()
+        };
+    }
+
+    private setPaginationState(pagination: PaginationState): void {
+        if (!this.gridOptionsWrapper.isPagination()) { return; }
+
+        const autoPageSize = this.gridOptionsWrapper.isPaginationAutoPageSize();
+        if (pagination.pageSize != null && !autoPageSize && pagination.pageSize !== this.paginationProxy.getPageSize()) {
+            this.gridOptionsWrapper.setProperty('paginationPageSize', pagination.pageSize);
+        }
+
+        this.paginationProxy.goToPage(pagination.page);
+    }
+
+    private getScrollState(): ScrollState | null {
+        const gridBodyCtrl = this.controllersService.getGridBodyController();
+        if (!gridBodyCtrl) { return null; }
+
+        const scrollFeature = gridBodyCtrl.getScrollFeature();
+
+        return {
+            top: scrollFeature.getVScrollPosition().top,
+            left: scrollFeature.getHScrollPosition().left
+        };
+    }
+
+    private setScrollState(scroll: ScrollState): void {
+        const gridBodyCtrl = this.controllersService.getGridBodyController();
+        if (!gridBodyCtrl) { return; }
+
+        const scrollFeature = gridBodyCtrl.getScrollFeature();
+
+        scrollFeature.setHorizontalScrollPosition(scroll.left);
+        scrollFeature.setVerticalScrollPosition(scroll.top);
+    }
+
+    private getSideBarState(): SideBarState {
+        return {
+            visible: this.gridApi.isSideBarVisible(),
+            openToolPanel: this.gridApi.getOpenedToolPanel()
+        };
+    }
+
+    private setSideBarState(sideBar: SideBarState): void {
+        if (!this.gridOptionsWrapper.getSideBar()) { return; }
+
+        this.gridApi.setSideBarVisible(sideBar.visible);
+
+        if (exists(sideBar.openToolPanel)) {
+            this.gridApi.openToolPanel(sideBar.openToolPanel);
+        } else if (this.gridApi.getOpenedToolPanel() != null) {
+            this.gridApi.closeToolPanel();
+        }
+    }
+
+    private getGroupRoute(rowNode: RowNode): string[] {
+        const route: string[] = [];
+        let pointer: RowNode | null = rowNode;
+
+        // the root node has level -1 and no key, so stop before we get to it
+        while (pointer && pointer.level >= 0) {
+            route.push(pointer.key != null ? pointer.key : '');
+            pointer = pointer.parent;
+        }
+
+        return route.reverse();
+    }
+
+    private getRouteKey(route: string[]): string {
+        return route.join(StateService.ROUTE_SEPARATOR);
+    }
+
+    private isClientSide(): boolean {
+        return this.rowModel.getType() === Constants.ROW_MODEL_TYPE_CLIENT_SIDE;
+    }
+}
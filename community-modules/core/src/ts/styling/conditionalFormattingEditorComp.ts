@@ -0,0 +1,371 @@
+import { PostConstruct } from "../context/context";
+import { Component } from "../widgets/component";
+import { RefSelector } from "../widgets/componentAnnotations";
+import { AgSelect } from "../widgets/agSelect";
+import { AgInputTextField } from "../widgets/agInputTextField";
+import { AgInputNumberField } from "../widgets/agInputNumberField";
+import { AgCheckbox } from "../widgets/agCheckbox";
+import {
+    CellValueFormattingOperator,
+    ConditionalFormattingRule,
+    ConditionalFormattingStyle
+} from "../interfaces/conditionalFormatting";
+import { clearElement, loadTemplate } from "../utils/dom";
+import { removeFromArray } from "../utils/array";
+
+const DEFAULT_LOCALE_TEXT = {
+    conditionalFormattingAddRule: 'Add Rule',
+    conditionalFormattingRemoveRule: 'Remove',
+    conditionalFormattingApply: 'Apply',
+    conditionalFormattingCancel: 'Cancel',
+    conditionalFormattingNoRules: 'No rules',
+    conditionalFormattingCellValue: 'Cell Value',
+    conditionalFormattingTopBottom: 'Top / Bottom',
+    conditionalFormattingAverage: 'Average',
+    conditionalFormattingDuplicates: 'Duplicates',
+    conditionalFormattingColorScale: 'Color Scale',
+    conditionalFormattingDataBar: 'Data Bar',
+    conditionalFormattingIconSet: 'Icon Set',
+    equals: 'Equals',
+    notEqual: 'Not equal',
+    greaterThan: 'Greater than',
+    greaterThanOrEqual: 'Greater than or equals',
+    lessThan: 'Less than',
+    lessThanOrEqual: 'Less than or equals',
+    conditionalFormattingBetween: 'Between',
+    conditionalFormattingNotBetween: 'Not between',
+    contains: 'Contains',
+    conditionalFormattingTop: 'Top',
+    conditionalFormattingBottom: 'Bottom',
+    conditionalFormattingPercent: 'Percent',
+    conditionalFormattingAbove: 'Above average',
+    conditionalFormattingBelow: 'Below average',
+    conditionalFormattingDuplicate: 'Duplicate values',
+    conditionalFormattingUnique: 'Unique values',
+    conditionalFormattingMidpoint: 'Midpoint',
+    conditionalFormattingArrows: 'Arrows',
+    conditionalFormattingTrafficLights: 'Traffic Lights',
+    conditionalFormattingFlags: 'Flags',
+    conditionalFormattingFill: 'Fill',
+    conditionalFormattingTextColor: 'Text',
+    conditionalFormattingBold: 'Bold',
+    conditionalFormattingItalic: 'Italic',
+    conditionalFormattingValue: 'Value',
+    conditionalFormattingValueTo: 'To'
+};
+
+type LocaleKey = keyof typeof DEFAULT_LOCALE_TEXT;
+
+const RULE_TYPES: { [type: string]: LocaleKey; } = {
+    cellValue: 'conditionalFormattingCellValue',
+    topBottom: 'conditionalFormattingTopBottom',
+    average: 'conditionalFormattingAverage',
+    duplicates: 'conditionalFormattingDuplicates',
+    colorScale: 'conditionalFormattingColorScale',
+    dataBar: 'conditionalFormattingDataBar',
+    iconSet: 'conditionalFormattingIconSet'
+};
+
+const OPERATORS: { [operator: string]: LocaleKey; } = {
+    equals: 'equals',
+    notEqual: 'notEqual',
+    greaterThan: 'greaterThan',
+    greaterThanOrEqual: 'greaterThanOrEqual',
+    lessThan: 'lessThan',
+    lessThanOrEqual: 'lessThanOrEqual',
+    between: 'conditionalFormattingBetween',
+    notBetween: 'conditionalFormattingNotBetween',
+    contains: 'contains'
+};
+
+// the same defaults Excel uses: light red fill with dark red text, and a red to yellow to green scale
+const DEFAULT_STYLE: ConditionalFormattingStyle = { backgroundColor: '#ffc7ce', color: '#9c0006' };
+const DEFAULT_SCALE_COLORS = ['#f8696b', '#ffeb84', '#63be7b'];
+const DEFAULT_BAR_COLOR = '#638ec6';
+
+/** Edits a copy of the conditional formatting rules of one column, the rules are only applied when the user presses apply */
+export class ConditionalFormattingEditorComp extends Component {
+
+    public static EVENT_APPLY = 'conditionalFormattingApply';
+    public static EVENT_CANCEL = 'conditionalFormattingCancel';
+
+    private static TEMPLATE = /* html */
+        `<div class="ag-conditional-formatting-editor">
+            <div ref="eRules" class="ag-conditional-formatting-rules"></div>
+            <div class="ag-conditional-formatting-buttons">
+                <button type="button" ref="eAddButton" class="ag-standard-button ag-conditional-formatting-button"></button>
+                <span class="ag-conditional-formatting-buttons-spacer"></span>
+                <button type="button" ref="eApplyButton" class="ag-standard-button ag-conditional-formatting-button"></button>
+                <button type="button" ref="eCancelButton" class="ag-standard-button ag-conditional-formatting-button"></button>
+            </div>
+        </div>`;
+
+    @RefSelector('eRules') private readonly eRules: HTMLElement;
+    @RefSelector('eAddButton') private readonly eAddButton: HTMLButtonElement;
+    @RefSelector('eApplyButton') private readonly eApplyButton: HTMLButtonElement;
+    @RefSelector('eCancelButton') private readonly eCancelButton: HTMLButtonElement;
+
+    // the fields are recreated each time the structure of the rules changes, so are destroyed separately
+    private fieldComps: Component[] = [];
+
+    constructor(private readonly colId: string, private readonly rules: ConditionalFormattingRule[]) {
+        super(ConditionalFormattingEditorComp.TEMPLATE);
+    }
+
+    @PostConstruct
+    private postConstruct(): void {
+        this.eAddButton.textContent = this.translate('conditionalFormattingAddRule');
+        this.eApplyButton.textContent = this.translate('conditionalFormattingApply');
+        this.eCancelButton.textContent = this.translate('conditionalFormattingCancel');
+
+        this.addManagedListener(this.eAddButton, 'click', () => {
+            this.rules.push(this.createDefaultRule('cellValue'));
+            this.refresh();
+        });
+        this.addManagedListener(this.eApplyButton, 'click', () => this.dispatchEvent({ type: ConditionalFormattingEditorComp.EVENT_APPLY }));
+        this.addManagedListener(this.eCancelButton, 'click', () => this.dispatchEvent({ type: ConditionalFormattingEditorComp.EVENT_CANCEL }));
+        this.addDestroyFunc(() => this.destroyFieldComps());
+
+        this.refresh();
+    }
+
+    /** Returns the rules without the ones that are missing values */
+    public getRules(): ConditionalFormattingRule[] {
+        const isBlank = (value: any) => value == null || value === '';
+
+        return this.rules.filter(rule => {
+            switch (rule.type) {
+                case 'cellValue':
+                    return !isBlank(rule.value) && (
+                        (rule.operator !== 'between' && rule.operator !== 'notBetween') || !isBlank(rule.valueTo)
+                    );
+                case 'topBottom':
+                    return rule.rank > 0;
+                default:
+                    return true;
+            }
+        });
+    }
+
+    private refresh(): void {
+        this.destroyFieldComps();
+        clearElement(this.eRules);
+
+        if (!this.rules.length) {
+            const eEmpty = loadTemplate(/* html */ `<div class="ag-conditional-formatting-no-rules"></div>`);
+
+            eEmpty.textContent = this.translate('conditionalFormattingNoRules');
+            this.eRules.appendChild(eEmpty);
+
+            return;
+        }
+
+        this.rules.forEach(rule => this.eRules.appendChild(this.createRuleGui(rule)));
+    }
+
+    private destroyFieldComps(): void {
+        this.fieldComps.forEach(comp => this.destroyBean(comp));
+        this.fieldComps = [];
+    }
+
+    private createRuleGui(rule: ConditionalFormattingRule): HTMLElement {
+        const eRule = loadTemplate(/* html */
+            `<div class="ag-conditional-formatting-rule">
+                <div class="ag-conditional-formatting-rule-fields"></div>
+                <div class="ag-conditional-formatting-rule-style"></div>
+            </div>`
+        );
+        const eFields = eRule.querySelector('.ag-conditional-formatting-rule-fields') as HTMLElement;
+        const eStyle = eRule.querySelector('.ag-conditional-formatting-rule-style') as HTMLElement;
+
+        const typeSelect = this.createSelect(RULE_TYPES, rule.type, type => {
+            // the settings of one type of rule don't apply to another, so the rule is replaced
+            this.rules[this.rules.indexOf(rule)] = this.createDefaultRule(type as ConditionalFormattingRule['type']);
+            this.refresh();
+        });
+
+        eFields.appendChild(typeSelect.getGui());
+
+        switch (rule.type) {
+            case 'cellValue':
+                eFields.appendChild(this.createSelect(OPERATORS, rule.operator, operator => {
+                    rule.operator = operator as CellValueFormattingOperator;
+                    this.refresh();
+                }).getGui());
+                eFields.appendChild(this.createValueField(rule.value, 'conditionalFormattingValue', value => rule.value = value));
+
+                if (rule.operator === 'between' || rule.operator === 'notBetween') {
+                    eFields.appendChild(this.createValueField(rule.valueTo, 'conditionalFormattingValueTo', value => rule.valueTo = value));
+                }
+                break;
+            case 'topBottom': {
+                const rankField = this.createFieldComp(new AgInputNumberField())
+                    .setValue(String(rule.rank))
+                    .onValueChange(value => rule.rank = value ? parseFloat(value) : 0);
+
+                eFields.appendChild(this.createSelect(
+                    { top: 'conditionalFormattingTop', bottom: 'conditionalFormattingBottom' },
+                    rule.bottom ? 'bottom' : 'top',
+                    value => rule.bottom = value === 'bottom'
+                ).getGui());
+                eFields.appendChild(rankField.getGui());
+                eFields.appendChild(this.createCheckbox('conditionalFormattingPercent', !!rule.percent, value => rule.percent = value).getGui());
+                break;
+            }
+            case 'average':
+                eFields.appendChild(this.createSelect(
+                    { above: 'conditionalFormattingAbove', below: 'conditionalFormattingBelow' },
+                    rule.below ? 'below' : 'above',
+                    value => rule.below = value === 'below'
+                ).getGui());
+                break;
+            case 'duplicates':
+                eFields.appendChild(this.createSelect(
+                    { duplicate: 'conditionalFormattingDuplicate', unique: 'conditionalFormattingUnique' },
+                    rule.unique ? 'unique' : 'duplicate',
+                    value => rule.unique = value === 'unique'
+                ).getGui());
+                break;
+            case 'colorScale':
+                rule.colors.forEach((color, index) => {
+                    eFields.appendChild(this.createColorField(color, value => rule.colors[index] = value).getGui());
+                });
+                eFields.appendChild(this.createCheckbox('conditionalFormattingMidpoint', rule.colors.length > 2, value => {
+                    rule.colors = value
+                        ? [rule.colors[0], DEFAULT_SCALE_COLORS[1], rule.colors[rule.colors.length - 1]]
+                        : [rule.colors[0], rule.colors[rule.colors.length - 1]];
+                    this.refresh();
+                }).getGui());
+                break;
+            case 'dataBar':
+                eFields.appendChild(this.createColorField(rule.color, value => rule.color = value).getGui());
+                break;
+            case 'iconSet':
+                eFields.appendChild(this.createSelect(
+                    { arrows: 'conditionalFormattingArrows', trafficLights: 'conditionalFormattingTrafficLights', flags: 'conditionalFormattingFlags' },
+                    rule.iconSet,
+                    value => rule.iconSet = value as typeof rule.iconSet
+                ).getGui());
+                break;
+        }
+
+        eFields.appendChild(this.createButton('conditionalFormattingRemoveRule', () => {
+            removeFromArray(this.rules, rule);
+            this.refresh();
+        }));
+
+        if ('style' in rule) {
+            this.createStyleFields(rule.style).forEach(eField => eStyle.appendChild(eField));
+        } else {
+            eRule.removeChild(eStyle);
+        }
+
+        return eRule;
+    }
+
+    private createStyleFields(style: ConditionalFormattingStyle): HTMLElement[] {
+        const eFields: HTMLElement[] = [];
+
+        // colour inputs always have a value, so a checkbox says whether the colour is used
+        (['backgroundColor', 'color'] as ('backgroundColor' | 'color')[]).forEach(key => {
+            const defaultColor = DEFAULT_STYLE[key]!;
+            const colorField = this.createColorField(style[key] || defaultColor, value => {
+                if (style[key] != null) {
+                    style[key] = value;
+                }
+            });
+            const checkbox = this.createCheckbox(
+                key === 'color' ? 'conditionalFormattingTextColor' : 'conditionalFormattingFill',
+                style[key] != null,
+                value => {
+                    if (value) {
+                        style[key] = colorField.getValue() || defaultColor;
+                    } else {
+                        delete style[key];
+                    }
+                }
+            );
+
+            eFields.push(checkbox.getGui(), colorField.getGui());
+        });
+
+        eFields.push(this.createCheckbox('conditionalFormattingBold', !!style.bold, value => style.bold = value).getGui());
+        eFields.push(this.createCheckbox('conditionalFormattingItalic', !!style.italic, value => style.italic = value).getGui());
+
+        return eFields;
+    }
+
+    private createDefaultRule(type: ConditionalFormattingRule['type']): ConditionalFormattingRule {
+        const { colId } = this;
+
+        switch (type) {
+            case 'topBottom': return { type, colId, rank: 10, style: { ...DEFAULT_STYLE } };
+            case 'average': return { type, colId, style: { ...DEFAULT_STYLE } };
+            case 'duplicates': return { type, colId, style: { ...DEFAULT_STYLE } };
+            case 'colorScale': return { type, colId, colors: DEFAULT_SCALE_COLORS.slice() };
+            case 'dataBar': return { type, colId, color: DEFAULT_BAR_COLOR };
+            case 'iconSet': return { type, colId, iconSet: 'arrows' };
+            default: return { type: 'cellValue', colId, operator: 'greaterThan', value: '', style: { ...DEFAULT_STYLE } };
+        }
+    }
+
+    private createSelect(options: { [value: string]: LocaleKey; }, value: string, onChange: (value: string) => void): AgSelect {
+        return this.createFieldComp(new AgSelect())
+            .addOptions(Object.keys(options).map(key => ({ value: key, text: this.translate(options[key]) })))
+            .setValue(value)
+            .onValueChange(newValue => onChange(newValue!));
+    }
+
+    private createValueField(value: number | string | undefined, placeholderKey: LocaleKey, onChange: (value: number | string) => void): HTMLElement {
+        const field = this.createFieldComp(new AgInputTextField());
+
+        field.setValue(value == null ? null : String(value));
+        field.setInputPlaceholder(this.translate(placeholderKey));
+
+        // numbers are kept as numbers, so they are compared and exported to Excel as numbers
+        field.onValueChange(newValue => {
+            const text = newValue || '';
+            onChange(text.trim() !== '' && isFinite(Number(text)) ? Number(text) : text);
+        });
+
+        return field.getGui();
+    }
+
+    private createColorField(color: string, onChange: (color: string) => void): AgInputTextField {
+        return this.createFieldComp(new AgInputTextField(undefined, 'ag-color-field', 'color'))
+            .setValue(color)
+            .onValueChange(value => onChange(value || ''));
+    }
+
+    private createCheckbox(labelKey: LocaleKey, value: boolean, onChange: (value: boolean) => void): AgCheckbox {
+        return this.createFieldComp(new AgCheckbox())
+            .setLabel(this.translate(labelKey))
+            .setValue(value)
+            .onValueChange(newValue => onChange(!!newValue));
+    }
+
+    private createButton(key: LocaleKey, callback: () => void): HTMLElement {
+        const eButton = loadTemplate(/* html */
+            `<button type="button" class="ag-standard-button ag-conditional-formatting-button"></button>`
+        );
+
+        eButton.textContent = this.translate(key);
+
+        // the button is removed with the rest of the rules when refreshing, so the listener isn't managed
+        eButton.addEventListener('click', callback);
+
+        return eButton;
+    }
+
+    private createFieldComp<T extends Component>(comp: T): T {
+        this.fieldComps.push(comp);
+
+        return this.createBean(comp);
+    }
+
+    private translate(key: LocaleKey): string {
+        const translate = this.gridOptionsWrapper.getLocaleTextFunc();
+
+        return translate(key, DEFAULT_LOCALE_TEXT[key]);
+    }
+}
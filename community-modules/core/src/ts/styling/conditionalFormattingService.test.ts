@@ -0,0 +1,89 @@
+import { ConditionalFormattingService } from './conditionalFormattingService';
+import { ConditionalFormattingRule } from '../interfaces/conditionalFormatting';
+
+const RED = { backgroundColor: '#ff0000' };
+const BLUE = { backgroundColor: '#0000ff', bold: true };
+
+const evaluate = (rules: ConditionalFormattingRule[], value: any, values: any[]) =>
+    ConditionalFormattingService.evaluateRules(rules, value, ConditionalFormattingService.createColumnStats(values));
+
+describe('evaluateRules', () => {
+    const values = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+    it('compares numbers as numbers, and text ignoring case', () => {
+        const greaterThan: ConditionalFormattingRule = { type: 'cellValue', colId: 'a', operator: 'greaterThan', value: 9, style: RED };
+        const equals: ConditionalFormattingRule = { type: 'cellValue', colId: 'a', operator: 'equals', value: 'abc', style: RED };
+
+        expect(evaluate([greaterThan], 10, values)).toStrictEqual(RED);
+        expect(evaluate([greaterThan], '10', values)).toStrictEqual(RED);
+        expect(evaluate([greaterThan], 9, values)).toBeNull();
+        expect(evaluate([equals], 'ABC', [])).toStrictEqual(RED);
+    });
+
+    it('accepts between ranges either way round', () => {
+        const rule: ConditionalFormattingRule = { type: 'cellValue', colId: 'a', operator: 'between', value: 5, valueTo: 2, style: RED };
+
+        expect(evaluate([rule], 3, values)).toStrictEqual(RED);
+        expect(evaluate([rule], 6, values)).toBeNull();
+    });
+
+    it('formats the top and bottom ranked values, by count or percent', () => {
+        const top: ConditionalFormattingRule = { type: 'topBottom', colId: 'a', rank: 2, style: RED };
+        const bottomPercent: ConditionalFormattingRule = { type: 'topBottom', colId: 'a', rank: 30, percent: true, bottom: true, style: RED };
+
+        expect(values.filter(value => evaluate([top], value, values))).toStrictEqual([9, 10]);
+        expect(values.filter(value => evaluate([bottomPercent], value, values))).toStrictEqual([1, 2, 3]);
+    });
+
+    it('formats values above or below the average', () => {
+        const above: ConditionalFormattingRule = { type: 'average', colId: 'a', style: RED };
+        const below: ConditionalFormattingRule = { type: 'average', colId: 'a', below: true, style: RED };
+
+        expect(values.filter(value => evaluate([above], value, values))).toStrictEqual([6, 7, 8, 9, 10]);
+        expect(values.filter(value => evaluate([below], value, values))).toStrictEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('formats duplicate or unique values', () => {
+        const texts = ['a', 'A', 'b'];
+        const duplicates: ConditionalFormattingRule = { type: 'duplicates', colId: 'a', style: RED };
+        const unique: ConditionalFormattingRule = { type: 'duplicates', colId: 'a', unique: true, style: RED };
+
+        expect(texts.filter(value => evaluate([duplicates], value, texts))).toStrictEqual(['a', 'A']);
+        expect(texts.filter(value => evaluate([unique], value, texts))).toStrictEqual(['b']);
+    });
+
+    it('gives each part of the format to the first rule that sets it', () => {
+        const rules: ConditionalFormattingRule[] = [
+            { type: 'cellValue', colId: 'a', operator: 'greaterThan', value: 0, style: RED },
+            { type: 'cellValue', colId: 'a', operator: 'greaterThan', value: 0, style: BLUE }
+        ];
+
+        expect(evaluate(rules, 1, values)).toStrictEqual({ backgroundColor: '#ff0000', bold: true });
+    });
+
+    it('scales colours, data bars and icons between the lowest and highest values', () => {
+        const rules: ConditionalFormattingRule[] = [
+            { type: 'colorScale', colId: 'a', colors: ['#000000', '#ffffff'] },
+            { type: 'dataBar', colId: 'a', color: '#638ec6' },
+            { type: 'iconSet', colId: 'a', iconSet: 'arrows' }
+        ];
+
+        expect(evaluate(rules, 10, [0, 10])).toStrictEqual({
+            backgroundColor: '#ffffff',
+            dataBar: { color: '#638ec6', percent: 100 },
+            icon: { iconSet: 'arrows', index: 2 }
+        });
+        expect(evaluate(rules, 5, [0, 10])!.icon!.index).toBe(1);
+    });
+});
+
+describe('interpolateColors', () => {
+    it('goes through the middle colour when there are three', () => {
+        expect(ConditionalFormattingService.interpolateColors(['#000', '#ff0000', '#fff'], 0.5)).toBe('#ff0000');
+        expect(ConditionalFormattingService.interpolateColors(['#000000', '#ffffff'], 0.5)).toBe('#808080');
+    });
+
+    it('returns null when a colour is not hex', () => {
+        expect(ConditionalFormattingService.interpolateColors(['red', '#ffffff'], 0.5)).toBeNull();
+    });
+});
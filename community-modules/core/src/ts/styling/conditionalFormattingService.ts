@@ -0,0 +1,452 @@
+import { Autowired, Bean, PostConstruct } from "../context/context";
+import { BeanStub } from "../context/beanStub";
+import { ColumnModel } from "../columns/columnModel";
+import { Column } from "../entities/column";
+import { RowNode } from "../entities/rowNode";
+import { Events } from "../eventKeys";
+import { ConditionalFormattingChangedEvent } from "../events";
+import { IRowModel } from "../interfaces/iRowModel";
+import { IClientSideRowModel } from "../interfaces/iClientSideRowModel";
+import {
+    CellValueFormattingRule,
+    ConditionalFormattingIconSet,
+    ConditionalFormattingRule,
+    ConditionalFormattingStyle,
+    TopBottomFormattingRule
+} from "../interfaces/conditionalFormatting";
+import { ValueService } from "../valueService/valueService";
+import { ConditionalFormattingEditorComp } from "./conditionalFormattingEditorComp";
+import { AgDialog } from "../widgets/agDialog";
+import { Constants } from "../constants/constants";
+import { deepCloneObject } from "../utils/object";
+import { jsonEquals } from "../utils/generic";
+import { findIndex } from "../utils/array";
+
+/** The values of a column the rules are evaluated against, so ranks and averages are only worked out once */
+export interface ConditionalFormattingColumnStats {
+    /** The numeric values, sorted ascending */
+    numbers: number[];
+    min: number;
+    max: number;
+    average: number;
+    /** How many times each value appears, keyed by the value in lower case, as Excel ignores case for duplicates */
+    counts: Map<string, number>;
+}
+
+/** The result of evaluating the rules of a column for one value */
+export interface CellConditionalFormat extends ConditionalFormattingStyle {
+    dataBar?: { color: string, percent: number; };
+    /** 0 for the lowest third of the values, 2 for the highest */
+    icon?: { iconSet: ConditionalFormattingIconSet, index: number; };
+}
+
+const ICON_COLORS = ['#d7301f', '#f0a30a', '#1a9850'];
+
+const CIRCLE_SHAPE = '<circle cx="8" cy="8" r="6"/>';
+const FLAG_SHAPE = '<path d="M3 2h1.5v12H3zM5 2h8l-2.5 3.5L13 9H5z"/>';
+
+// svg shapes of the icons, from the lowest third of the values to the highest, drawn in ICON_COLORS
+const ICON_SHAPES: { [iconSet: string]: string[]; } = {
+    arrows: ['<path d="M6 2h4v7h3l-5 5-5-5h3z"/>', '<path d="M2 6h7V3l5 5-5 5v-3H2z"/>', '<path d="M6 14h4V7h3L8 2 3 7h3z"/>'],
+    trafficLights: [CIRCLE_SHAPE, CIRCLE_SHAPE, CIRCLE_SHAPE],
+    flags: [FLAG_SHAPE, FLAG_SHAPE, FLAG_SHAPE]
+};
+
+const toNumber = (value: any): number | null => {
+    if (typeof value === 'number') {
+        return isNaN(value) ? null : value;
+    }
+
+    if (typeof value === 'string' && value.trim() !== '' && isFinite(Number(value))) {
+        return Number(value);
+    }
+
+    return null;
+};
+
+const isBlank = (value: any): boolean => value == null || value === '';
+
+/**
+ * Evaluates the conditional formatting rules against the values of the cells. The rules are kept in gridOptions
+ * form so they can be saved, edited in the editor dialog and exported to Excel as they are.
+ */
+@Bean('conditionalFormattingService')
+export class ConditionalFormattingService extends BeanStub {
+
+    @Autowired('columnModel') private columnModel: ColumnModel;
+    @Autowired('rowModel') private rowModel: IRowModel;
+    @Autowired('valueService') private valueService: ValueService;
+
+    private rules: ConditionalFormattingRule[] = [];
+    private statsByColId = new Map<string, ConditionalFormattingColumnStats>();
+    private editorDialog: AgDialog | null = null;
+
+    @PostConstruct
+    private postConstruct(): void {
+        const rules = this.gridOptionsWrapper.getConditionalFormattingRules();
+
+        this.rules = rules ? deepCloneObject(rules) : [];
+
+        const dataChangedListener = this.onDataChanged.bind(this);
+
+        this.addManagedListener(this.eventService, Events.EVENT_MODEL_UPDATED, dataChangedListener);
+        this.addManagedListener(this.eventService, Events.EVENT_CELL_VALUE_CHANGED, dataChangedListener);
+    }
+
+    public static createColumnStats(values: any[]): ConditionalFormattingColumnStats {
+        const numbers: number[] = [];
+        const counts = new Map<string, number>();
+
+        values.forEach(value => {
+            if (isBlank(value)) { return; }
+
+            const number = toNumber(value);
+
+            if (number != null) {
+                numbers.push(number);
+            }
+
+            const key = String(value).toLowerCase();
+            counts.set(key, (counts.get(key) || 0) + 1);
+        });
+
+        numbers.sort((a, b) => a - b);
+
+        const sum = numbers.reduce((total, number) => total + number, 0);
+
+        return {
+            numbers,
+            min: numbers.length ? numbers[0] : 0,
+            max: numbers.length ? numbers[numbers.length - 1] : 0,
+            average: numbers.length ? sum / numbers.length : 0,
+            counts
+        };
+    }
+
+    /**
+     * Applies the rules to the value in order. When more than one rule sets the same part of the format, the first
+     * one wins, which is also how Excel applies overlapping rules.
+     */
+    public static evaluateRules(
+        rules: ConditionalFormattingRule[], value: any, stats: ConditionalFormattingColumnStats
+    ): CellConditionalFormat | null {
+        const format: CellConditionalFormat = {};
+        const formatStyle: ConditionalFormattingStyle = format;
+        const applyStyleKey = <K extends keyof ConditionalFormattingStyle>(style: ConditionalFormattingStyle, key: K) => {
+            if (formatStyle[key] === undefined && style[key] != null) {
+                formatStyle[key] = style[key];
+            }
+        };
+        const applyStyle = (style: ConditionalFormattingStyle) => {
+            (Object.keys(style) as (keyof ConditionalFormattingStyle)[]).forEach(key => applyStyleKey(style, key));
+        };
+        const number = toNumber(value);
+        const range = stats.max - stats.min;
+        // where the value sits between the lowest and highest values, from 0 to 1
+        const position = number == null ? null : (range ? (number - stats.min) / range : 1);
+
+        rules.forEach(rule => {
+            switch (rule.type) {
+                case 'cellValue':
+                    if (ConditionalFormattingService.doesCellValueRulePass(rule, value)) {
+                        applyStyle(rule.style);
+                    }
+                    break;
+                case 'topBottom':
+                    if (number != null && ConditionalFormattingService.isInTopBottom(rule, number, stats)) {
+                        applyStyle(rule.style);
+                    }
+                    break;
+                case 'average':
+                    if (number != null && stats.numbers.length && (rule.below ? number < stats.average : number > stats.average)) {
+                        applyStyle(rule.style);
+                    }
+                    break;
+                case 'duplicates':
+                    if (!isBlank(value)) {
+                        const count = stats.counts.get(String(value).toLowerCase()) || 0;
+
+                        if (rule.unique ? count === 1 : count > 1) {
+                            applyStyle(rule.style);
+                        }
+                    }
+                    break;
+                case 'colorScale':
+                    if (position != null && format.backgroundColor === undefined) {
+                        const color = ConditionalFormattingService.interpolateColors(rule.colors, position);
+
+                        if (color) {
+                            format.backgroundColor = color;
+                        }
+                    }
+                    break;
+                case 'dataBar':
+                    if (position != null && !format.dataBar) {
+                        format.dataBar = { color: rule.color, percent: Math.round(position * 100) };
+                    }
+                    break;
+                case 'iconSet':
+                    if (position != null && !format.icon) {
+                        // the same thresholds as the Excel export, 33% and 67% of the way between the lowest and highest
+                        const index = position >= 0.67 ? 2 : position >= 0.33 ? 1 : 0;
+                        format.icon = { iconSet: rule.iconSet, index };
+                    }
+                    break;
+            }
+        });
+
+        return Object.keys(format).length ? format : null;
+    }
+
+    private static doesCellValueRulePass(rule: CellValueFormattingRule, value: any): boolean {
+        if (isBlank(value) || isBlank(rule.value)) { return false; }
+
+        if (rule.operator === 'contains') {
+            return String(value).toLowerCase().indexOf(String(rule.value).toLowerCase()) >= 0;
+        }
+
+        const compare = (ruleValue: number | string | undefined): number => {
+            const number = toNumber(value);
+            const ruleNumber = toNumber(ruleValue);
+
+            if (number != null && ruleNumber != null) {
+                return number - ruleNumber;
+            }
+
+            const text = String(value).toLowerCase();
+            const ruleText = String(ruleValue).toLowerCase();
+
+            return text === ruleText ? 0 : (text < ruleText ? -1 : 1);
+        };
+
+        switch (rule.operator) {
+            case 'equals': return compare(rule.value) === 0;
+            case 'notEqual': return compare(rule.value) !== 0;
+            case 'greaterThan': return compare(rule.value) > 0;
+            case 'greaterThanOrEqual': return compare(rule.value) >= 0;
+            case 'lessThan': return compare(rule.value) < 0;
+            case 'lessThanOrEqual': return compare(rule.value) <= 0;
+            case 'between':
+            case 'notBetween': {
+                if (isBlank(rule.valueTo)) { return false; }
+
+                // like Excel, the range can be given either way round
+                const fromResult = compare(rule.value);
+                const toResult = compare(rule.valueTo);
+                const between = (fromResult >= 0 && toResult <= 0) || (fromResult <= 0 && toResult >= 0);
+
+                return rule.operator === 'between' ? between : !between;
+            }
+            default: return false;
+        }
+    }
+
+    private static isInTopBottom(rule: TopBottomFormattingRule, number: number, stats: ConditionalFormattingColumnStats): boolean {
+        const { numbers } = stats;
+
+        if (!numbers.length || !(rule.rank > 0)) { return false; }
+
+        const count = rule.percent
+            ? Math.max(1, Math.floor(numbers.length * Math.min(rule.rank, 100) / 100))
+            : Math.min(Math.floor(rule.rank), numbers.length);
+
+        // values tied with the last one in the rank are included, as they are in Excel
+        return rule.bottom ? number <= numbers[count - 1] : number >= numbers[numbers.length - count];
+    }
+
+    /** Returns the colour at the position (from 0 to 1) through the colours, or null if any colour isn't hex */
+    public static interpolateColors(colors: string[], position: number): string | null {
+        const rgbs = colors.map(color => ConditionalFormattingService.parseHexColor(color));
+
+        if (rgbs.length < 2 || rgbs.some(rgb => rgb == null)) { return null; }
+
+        const scaled = position * (rgbs.length - 1);
+        const index = Math.min(Math.floor(scaled), rgbs.length - 2);
+        const fraction = scaled - index;
+        const from = rgbs[index]!;
+        const to = rgbs[index + 1]!;
+
+        return '#' + from.map((channel, i) => {
+            const mixed = Math.round(channel + (to[i] - channel) * fraction);
+            return (mixed < 16 ? '0' : '') + mixed.toString(16);
+        }).join('');
+    }
+
+    private static parseHexColor(color: string): number[] | null {
+        const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color || '');
+
+        if (!match) { return null; }
+
+        const hex = match[1].length === 3 ? match[1].replace(/./g, char => char + char) : match[1];
+
+        return [0, 2, 4].map(start => parseInt(hex.substr(start, 2), 16));
+    }
+
+    public getRules(): ConditionalFormattingRule[] {
+        return deepCloneObject(this.rules);
+    }
+
+    public setRules(rules: ConditionalFormattingRule[] | null | undefined): void {
+        const newRules = rules ? deepCloneObject(rules) : [];
+
+        if (jsonEquals(this.rules, newRules)) { return; }
+
+        this.rules = newRules;
+        this.statsByColId.clear();
+        this.dispatchChanged();
+    }
+
+    /** Replaces the rules of one column, keeping their place in the order if the column already had rules */
+    public setColumnRules(colId: string, rules: ConditionalFormattingRule[]): void {
+        const index = findIndex(this.rules, rule => rule.colId === colId);
+        const otherRules = this.rules.filter(rule => rule.colId !== colId);
+
+        // the rules before the first one of the column all belong to other columns, so index is still the right place
+        otherRules.splice(index < 0 ? otherRules.length : index, 0, ...rules.map(rule => ({ ...rule, colId })));
+
+        this.setRules(otherRules);
+    }
+
+    public getColumnRules(colId: string): ConditionalFormattingRule[] {
+        return this.rules.filter(rule => rule.colId === colId);
+    }
+
+    public isActive(): boolean {
+        return this.rules.length > 0;
+    }
+
+    /** The format for the cell, or null if no rule applies. Only data rows are formatted, not groups or pinned rows */
+    public getCellFormat(node: RowNode, column: Column): CellConditionalFormat | null {
+        if (!this.rules.length || !node.data || node.group || node.rowPinned) { return null; }
+
+        const rules = this.getColumnRules(column.getColId());
+
+        if (!rules.length) { return null; }
+
+        const value = this.valueService.getValue(column, node);
+
+        return ConditionalFormattingService.evaluateRules(rules, value, this.getColumnStats(column));
+    }
+
+    /** Converts the format into the css styles for the cell, the icon is positioned by the theme */
+    public getCellStyles(format: CellConditionalFormat): { [key: string]: string; } {
+        const styles: { [key: string]: string; } = {};
+        const images: string[] = [];
+
+        if (format.backgroundColor) { styles.backgroundColor = format.backgroundColor; }
+        if (format.color) { styles.color = format.color; }
+        if (format.bold) { styles.fontWeight = 'bold'; }
+        if (format.italic) { styles.fontStyle = 'italic'; }
+
+        // the icon goes first, so it is drawn on top of the data bar
+        if (format.icon) {
+            const shape = ICON_SHAPES[format.icon.iconSet];
+
+            if (shape) {
+                const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="${ICON_COLORS[format.icon.index]}">${shape[format.icon.index]}</svg>`;
+                images.push(`url("data:image/svg+xml,${encodeURIComponent(svg)}")`);
+            }
+        }
+
+        if (format.dataBar) {
+            const { color, percent } = format.dataBar;
+            const direction = this.gridOptionsWrapper.isEnableRtl() ? 'left' : 'right';
+            images.push(`linear-gradient(to ${direction}, ${color} ${percent}%, transparent ${percent}%)`);
+        }
+
+        if (images.length) {
+            styles.backgroundImage = images.join(', ');
+        }
+
+        return styles;
+    }
+
+    public showEditor(column: Column): void {
+        this.hideEditor();
+
+        const translate = this.gridOptionsWrapper.getLocaleTextFunc();
+        const colId = column.getColId();
+        const editorComp = this.createBean(new ConditionalFormattingEditorComp(colId, deepCloneObject(this.getColumnRules(colId))));
+        const columnName = this.columnModel.getDisplayNameForColumn(column, 'header') || colId;
+        const dialog = this.editorDialog = this.createBean(new AgDialog({
+            title: `${translate('conditionalFormatting', 'Conditional Formatting')} - ${columnName}`,
+            component: editorComp,
+            width: 640,
+            height: 400,
+            minWidth: 480,
+            resizable: true,
+            movable: true,
+            centered: true,
+            closable: true
+        }));
+
+        editorComp.addManagedListener(editorComp, ConditionalFormattingEditorComp.EVENT_APPLY, () => {
+            this.setColumnRules(colId, editorComp.getRules());
+            this.destroyBean(dialog);
+        });
+
+        editorComp.addManagedListener(editorComp, ConditionalFormattingEditorComp.EVENT_CANCEL, () => this.destroyBean(dialog));
+
+        dialog.addDestroyFunc(() => {
+            this.editorDialog = null;
+            this.destroyBean(editorComp);
+        });
+    }
+
+    public hideEditor(): void {
+        if (this.editorDialog) {
+            this.destroyBean(this.editorDialog);
+        }
+    }
+
+    private onDataChanged(): void {
+        if (!this.rules.length) { return; }
+
+        // ranks, averages and duplicates depend on all the values, so any change can change the format of any cell
+        this.statsByColId.clear();
+        this.dispatchChanged();
+    }
+
+    private getColumnStats(column: Column): ConditionalFormattingColumnStats {
+        const colId = column.getColId();
+        let stats = this.statsByColId.get(colId);
+
+        if (!stats) {
+            const values: any[] = [];
+
+            this.forEachDataNode(node => values.push(this.valueService.getValue(column, node)));
+
+            stats = ConditionalFormattingService.createColumnStats(values);
+            this.statsByColId.set(colId, stats);
+        }
+
+        return stats;
+    }
+
+    private forEachDataNode(callback: (node: RowNode) => void): void {
+        const dataCallback = (node: RowNode) => {
+            if (node.data && !node.group) {
+                callback(node);
+            }
+        };
+
+        // filtered out rows aren't included, so the formats follow what is shown
+        if (this.rowModel.getType() === Constants.ROW_MODEL_TYPE_CLIENT_SIDE) {
+            (this.rowModel as IClientSideRowModel).forEachNodeAfterFilter(dataCallback);
+            return;
+        }
+
+        // other row models only have the rows that are loaded
+        this.rowModel.forEachNode(dataCallback);
+    }
+
+    private dispatchChanged(): void {
+        const event: ConditionalFormattingChangedEvent = {
+            type: Events.EVENT_CONDITIONAL_FORMATTING_CHANGED,
+            api: this.gridOptionsWrapper.getApi()!,
+            columnApi: this.gridOptionsWrapper.getColumnApi()!
+        };
+
+        this.eventService.dispatchEvent(event);
+    }
+}
@@ -0,0 +1,236 @@
+import { UndoRedoService } from './undoRedoService';
+import { ColumnModel } from '../columns/columnModel';
+import { FilterManager } from '../filter/filterManager';
+import { GridOptionsWrapper } from '../gridOptionsWrapper';
+import { GridApi } from '../gridApi';
+import { IClientSideRowModel } from '../interfaces/iClientSideRowModel';
+import { FocusService } from '../focusService';
+import { Column } from '../entities/column';
+import { RowNode } from '../entities/rowNode';
+import { CellRange } from '../interfaces/IRangeService';
+import { Events } from '../eventKeys';
+import { Constants } from '../constants/constants';
+import { AgPromise } from '../utils';
+import { mock } from '../test-utils/mock';
+
+class TestEventService {
+    private listeners: { [type: string]: ((event?: any) => void)[]; } = {};
+
+    public addEventListener(type: string, listener: (event?: any) => void): void {
+        (this.listeners[type] = this.listeners[type] || []).push(listener);
+    }
+
+    public removeEventListener(type: string, listener: (event?: any) => void): void {
+        this.listeners[type] = (this.listeners[type] || []).filter(l => l !== listener);
+    }
+
+    public dispatch(type: string, event: any = {}): void {
+        (this.listeners[type] || []).forEach(listener => listener({ type, ...event }));
+    }
+}
+
+function createService(rowNodes: RowNode[] = []) {
+    const service = new UndoRedoService();
+    const eventService = new TestEventService();
+    let filterModel: any = {};
+
+    const gridOptionsWrapper = mock<GridOptionsWrapper>(
+        'isUndoRedoCellEditing', 'isUndoRedoStructuralChanges', 'isUndoRedoTransactions', 'getUndoRedoCellEditingLimit', 'getRowNodeIdFunc'
+    );
+    gridOptionsWrapper.isUndoRedoCellEditing.mockReturnValue(true);
+    gridOptionsWrapper.isUndoRedoStructuralChanges.mockReturnValue(true);
+    gridOptionsWrapper.getUndoRedoCellEditingLimit.mockReturnValue(10);
+
+    const columnModel = mock<ColumnModel>('getColumnState', 'isPivotMode');
+    columnModel.getColumnState.mockReturnValue([]);
+    columnModel.isPivotMode.mockReturnValue(false);
+
+    const filterManager = mock<FilterManager>('getFilterModel', 'setFilterModel');
+    filterManager.getFilterModel.mockImplementation(() => filterModel);
+
+    const gridApi = mock<GridApi>('addCellRange', 'ensureIndexVisible', 'ensureColumnVisible');
+
+    const rowModel = mock<IClientSideRowModel>('getRow', 'getRowNode', 'getType', 'updateRowData', 'batchUpdateRowData', 'flushAsyncTransactions');
+    rowModel.getType.mockReturnValue(Constants.ROW_MODEL_TYPE_CLIENT_SIDE);
+    rowModel.getRow.mockImplementation(rowIndex => rowNodes.filter(rowNode => rowNode.rowIndex === rowIndex)[0]);
+    rowModel.getRowNode.mockImplementation(id => rowNodes.filter(rowNode => rowNode.id === id)[0]);
+
+    const focusService = mock<FocusService>('setFocusedCell');
+
+    Object.assign(service, { gridOptionsWrapper, columnModel, filterManager, gridApi, rowModel, focusService, eventService });
+    service.init();
+
+    const changeFilterModel = (model: any) => {
+        filterModel = model;
+        eventService.dispatch(Events.EVENT_FILTER_CHANGED);
+    };
+
+    return { service, gridOptionsWrapper, filterManager, gridApi, rowModel, eventService, changeFilterModel };
+}
+
+describe('filter undo / redo', () => {
+    it('records filter changes and sets the previous model on undo', () => {
+        const { service, filterManager, changeFilterModel } = createService();
+
+        filterManager.setFilterModel.mockImplementation(model => {
+            changeFilterModel(model);
+            return AgPromise.resolve();
+        });
+
+        changeFilterModel({ a: { filter: 'x' } });
+        service.undo();
+
+        expect(filterManager.setFilterModel).toHaveBeenLastCalledWith({});
+
+        service.redo();
+
+        expect(filterManager.setFilterModel).toHaveBeenLastCalledWith({ a: { filter: 'x' } });
+    });
+
+    it('does not record the model set by undo when the filters are created asynchronously', () => {
+        const { service, filterManager, changeFilterModel } = createService();
+        let resolveFilters: () => void = () => {};
+
+        filterManager.setFilterModel.mockImplementation(model => new AgPromise<void>(resolve => {
+            resolveFilters = () => {
+                changeFilterModel(model);
+                resolve();
+            };
+        }).then(() => {}));
+
+        changeFilterModel({ a: { filter: 'x' } });
+        changeFilterModel({ a: { filter: 'y' } });
+
+        service.undo();
+        resolveFilters();
+
+        expect(filterManager.setFilterModel).toHaveBeenLastCalledWith({ a: { filter: 'x' } });
+
+        // the redo stack is kept, as no new action was recorded
+        service.redo();
+        resolveFilters();
+
+        expect(filterManager.setFilterModel).toHaveBeenLastCalledWith({ a: { filter: 'y' } });
+
+        // the next change is recorded from the model redo set
+        changeFilterModel({});
+        service.undo();
+
+        expect(filterManager.setFilterModel).toHaveBeenLastCalledWith({ a: { filter: 'y' } });
+    });
+});
+
+describe('transaction undo / redo', () => {
+    const oldData = { id: '1', value: 1 };
+    const newData = { id: '1', value: 2 };
+
+    const applyTransactions = (eventService: TestEventService, ...transactionRecords: any[]) =>
+        eventService.dispatch(Events.EVENT_TRANSACTIONS_APPLIED, { transactionRecords });
+
+    const updateRow = (eventService: TestEventService) => applyTransactions(eventService, { add: [], remove: [], update: [{ oldData, newData }] });
+
+    it('sets the data from before the update on undo', () => {
+        const { service, gridOptionsWrapper, rowModel, eventService } = createService();
+
+        gridOptionsWrapper.getRowNodeIdFunc.mockReturnValue((data: any) => data.id);
+        updateRow(eventService);
+        service.undo();
+
+        expect(rowModel.batchUpdateRowData).toHaveBeenCalledWith({ remove: [], update: [oldData], add: [] });
+        expect(rowModel.flushAsyncTransactions).toHaveBeenCalled();
+    });
+
+    it('adds removed rows back at their indexes with one transaction for each run of indexes', () => {
+        const { service, rowModel, eventService } = createService();
+        const rows = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+
+        applyTransactions(eventService, {
+            add: [],
+            remove: [{ data: rows[0], index: 1 }, { data: rows[1], index: 2 }, { data: rows[2], index: 5 }],
+            update: []
+        });
+        service.undo();
+
+        expect(rowModel.batchUpdateRowData.mock.calls).toEqual([
+            [{ remove: [], update: [], add: [rows[0], rows[1]], addIndex: 1 }],
+            [{ add: [rows[2]], addIndex: 5 }]
+        ]);
+        expect(rowModel.updateRowData).not.toHaveBeenCalled();
+    });
+
+    it('restores the recorded order of the rows with the transaction', () => {
+        const { service, gridOptionsWrapper, rowModel, eventService } = createService();
+        const row = { id: 'c' };
+
+        gridOptionsWrapper.getRowNodeIdFunc.mockReturnValue((data: any) => data.id);
+        applyTransactions(eventService, {
+            add: [],
+            remove: [{ data: row, index: 0 }],
+            update: [],
+            orderBefore: ['c', 'b', 'a'],
+            orderAfter: ['a', 'b']
+        });
+        service.undo();
+
+        expect(rowModel.updateRowData).toHaveBeenCalledWith(
+            { remove: [], update: [], add: [row] },
+            { c: 0, b: 1, a: 2 }
+        );
+        expect(rowModel.batchUpdateRowData).not.toHaveBeenCalled();
+    });
+
+    it('warns once that updates need getRowNodeId to be undone', () => {
+        const { service, rowModel, eventService } = createService();
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+        updateRow(eventService);
+        updateRow(eventService);
+        service.undo();
+        service.undo();
+
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(rowModel.batchUpdateRowData).toHaveBeenLastCalledWith({ remove: [], update: [], add: [] });
+        warn.mockRestore();
+    });
+});
+
+describe('fill undo / redo', () => {
+    const column = { getColId: () => 'a' } as Column;
+
+    const createRowNode = (id: string, rowIndex: number) =>
+        ({ id, rowIndex, displayed: true, setDataValue: jest.fn() } as Partial<RowNode> as RowNode);
+
+    const createRange = (startRowIndex: number, endRowIndex: number): CellRange => ({
+        startRow: { rowIndex: startRowIndex, rowPinned: null },
+        endRow: { rowIndex: endRowIndex, rowPinned: null },
+        columns: [column],
+        startColumn: column
+    });
+
+    it('selects the ranges on the rows that were filled after the rows are sorted', () => {
+        const rowNodes = [createRowNode('x', 0), createRowNode('y', 1)];
+        const { service, gridApi, eventService } = createService(rowNodes);
+
+        eventService.dispatch(Events.EVENT_FILL_START);
+        eventService.dispatch(Events.EVENT_CELL_VALUE_CHANGED, {
+            rowPinned: null, rowIndex: 1, column, oldValue: 1, value: 2, node: rowNodes[1]
+        });
+        eventService.dispatch(Events.EVENT_FILL_END, { initialRange: createRange(0, 0), finalRange: createRange(0, 1) });
+
+        // sorted, so the filled rows are now in other positions, and the first rows are other rows
+        rowNodes[0].rowIndex = 5;
+        rowNodes[1].rowIndex = 3;
+        rowNodes.push(createRowNode('z', 0));
+        eventService.dispatch(Events.EVENT_MODEL_UPDATED);
+
+        service.undo();
+
+        expect(rowNodes[1].setDataValue).toHaveBeenCalledWith('a', 1);
+        expect(gridApi.addCellRange).toHaveBeenLastCalledWith(expect.objectContaining({ rowStartIndex: 5, rowEndIndex: 5 }));
+
+        service.redo();
+
+        expect(rowNodes[1].setDataValue).toHaveBeenLastCalledWith('a', 2);
+        expect(gridApi.addCellRange).toHaveBeenLastCalledWith(expect.objectContaining({ rowStartIndex: 5, rowEndIndex: 3 }));
+    });
+});
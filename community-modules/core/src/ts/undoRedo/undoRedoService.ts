@@ -1,11 +1,26 @@
 import { Autowired, Bean, PostConstruct } from "../context/context";
 import { Events } from "../eventKeys";
-import { CellValueChangedEvent, FillEndEvent } from "../events";
+import { CellValueChangedEvent, ColumnResizedEvent, FillEndEvent, TransactionsAppliedEvent } from "../events";
 import { FocusService } from "../focusService";
 import { IRowModel } from "../interfaces/iRowModel";
 import { GridApi } from "../gridApi";
 import { PinnedRowModel } from "../pinnedRowModel/pinnedRowModel";
-import { CellValueChange, FillUndoRedoAction, LastFocusedCell, UndoRedoAction, UndoRedoStack } from "./undoRedoStack";
+import {
+    CellValueChange,
+    CellValueUndoRedoAction,
+    ColumnStateUndoRedoAction,
+    FillUndoRedoAction,
+    FilterUndoRedoAction,
+    GroupUndoRedoAction,
+    LastFocusedCell,
+    RangeRowIds,
+    RowOrderUndoRedoAction,
+    TransactionUndoRedoAction,
+    UndoRedoAction,
+    UndoRedoActionHandler,
+    UndoRedoActionType,
+    UndoRedoStack
+} from "./undoRedoStack";
 import { RowPosition } from "../entities/rowPosition";
 import { RowNode } from "../entities/rowNode";
 import { Constants } from "../constants/constants";
@@ -13,6 +28,12 @@ import { ModuleNames } from "../modules/moduleNames";
 import { ModuleRegistry } from "../modules/moduleRegistry";
 import { CellRange, CellRangeParams } from "../interfaces/IRangeService";
 import { BeanStub } from "../context/beanStub";
+import { ColumnModel, ColumnState } from "../columns/columnModel";
+import { FilterManager } from "../filter/filterManager";
+import { IClientSideRowModel, ClientSideRowModelSteps, RowDataRecord } from "../interfaces/iClientSideRowModel";
+import { RowDataTransaction } from "../interfaces/rowDataTransaction";
+import { jsonEquals } from "../utils/generic";
+import { doOnce } from "../utils/function";
 
 @Bean('undoRedoService')
 export class UndoRedoService extends BeanStub {
@@ -21,21 +42,46 @@ export class UndoRedoService extends BeanStub {
     @Autowired('gridApi') private gridApi: GridApi;
     @Autowired('rowModel') private rowModel: IRowModel;
     @Autowired('pinnedRowModel') private pinnedRowModel: PinnedRowModel;
+    @Autowired('columnModel') private columnModel: ColumnModel;
+    @Autowired('filterManager') private filterManager: FilterManager;
 
     private cellValueChanges: CellValueChange[] = [];
 
     private undoStack: UndoRedoStack;
     private redoStack: UndoRedoStack;
 
+    private actionHandlers: { [type: string]: UndoRedoActionHandler<any>; } = {};
+
     private isCellEditing = false;
     private isRowEditing = false;
     private isPasting = false;
     private isFilling = false;
 
+    // structural changes are undone / redone by setting state on the grid, which fires the same events
+    // we listen to for capturing new actions, so we ignore events while processing an action.
+    private isProcessingAction = false;
+    private isColumnDragging = false;
+    // filters that don't exist yet are created asynchronously, so the filter changed event can fire after the
+    // action has been processed. this counts the filter models being set by undo / redo that are still pending.
+    private pendingFilterModels = 0;
+
+    // actions pushed between startGroup() and endGroup() are undone / redone as one step
+    private groupDepth = 0;
+    private groupedActions: UndoRedoAction[] = [];
+
+    // snapshots of the last known state, so structural actions can record what the state was before the change
+    private columnStateSnapshot: ColumnState[];
+    private pivotModeSnapshot: boolean;
+    private filterModelSnapshot: { [colId: string]: any; };
+    private rowOrderSnapshot: string[] | null = null;
+
     @PostConstruct
     public init(): void {
+        const cellEditing = this.gridOptionsWrapper.isUndoRedoCellEditing();
+        const structuralChanges = this.gridOptionsWrapper.isUndoRedoStructuralChanges();
+        const transactions = this.gridOptionsWrapper.isUndoRedoTransactions();
 
-        if (!this.gridOptionsWrapper.isUndoRedoCellEditing()) {
+        if (!cellEditing && !structuralChanges && !transactions) {
             return;
         }
 
@@ -47,12 +93,32 @@ export class UndoRedoService extends BeanStub {
         this.undoStack = new UndoRedoStack(undoRedoLimit);
         this.redoStack = new UndoRedoStack(undoRedoLimit);
 
-        this.addRowEditingListeners();
-        this.addCellEditingListeners();
-        this.addPasteListeners();
-        this.addFillListeners();
+        this.registerDefaultActionHandlers();
+
+        if (cellEditing) {
+            this.addRowEditingListeners();
+            this.addCellEditingListeners();
+            this.addPasteListeners();
+            this.addFillListeners();
+
+            this.addManagedListener(this.eventService, Events.EVENT_CELL_VALUE_CHANGED, this.onCellValueChanged);
+        }
+
+        if (structuralChanges) {
+            this.addStructuralListeners();
+        }
+
+        if (structuralChanges || transactions) {
+            this.addManagedListener(this.eventService, Events.EVENT_TRANSACTIONS_APPLIED, this.onTransactionsApplied);
+
+            // the history refers to columns and rows that no longer exist once new columns or rows are set
+            this.addManagedListener(this.eventService, Events.EVENT_NEW_COLUMNS_LOADED, this.onNewColumnsOrRows);
+            this.addManagedListener(this.eventService, Events.EVENT_ROW_DATA_CHANGED, this.onNewColumnsOrRows);
+
+            // the edits and fills find their rows by id, so are kept when the rows are sorted or moved
+            return;
+        }
 
-        this.addManagedListener(this.eventService, Events.EVENT_CELL_VALUE_CHANGED, this.onCellValueChanged);
         // undo / redo is restricted to actual editing so we clear the stacks when other operations are
         // performed that change the order of the row / cols.
         this.addManagedListener(this.eventService, Events.EVENT_MODEL_UPDATED, this.clearStacks);
@@ -66,13 +132,86 @@ export class UndoRedoService extends BeanStub {
         this.addManagedListener(this.eventService, Events.EVENT_ROW_DRAG_END, this.clearStacks);
     }
 
+    private registerDefaultActionHandlers(): void {
+        const cellValueHandler: UndoRedoActionHandler<CellValueUndoRedoAction> = {
+            undo: action => this.processCellValueAction(action, cellValueChange => cellValueChange.oldValue),
+            redo: action => this.processCellValueAction(action, cellValueChange => cellValueChange.newValue)
+        };
+
+        this.registerActionHandler(UndoRedoActionType.CELL_VALUE, cellValueHandler);
+
+        this.registerActionHandler<FillUndoRedoAction>(UndoRedoActionType.FILL, {
+            undo: action => {
+                const range = this.findRange(action.initialRange, action.initialRangeRowIds);
+                this.processCellValueAction(action, cellValueChange => cellValueChange.oldValue, range);
+            },
+            redo: action => {
+                const range = this.findRange(action.finalRange, action.finalRangeRowIds);
+                this.processCellValueAction(action, cellValueChange => cellValueChange.newValue, range);
+            }
+        });
+
+        this.registerActionHandler<ColumnStateUndoRedoAction>(UndoRedoActionType.COLUMN_STATE, {
+            undo: action => this.applyColumnState(action.stateBefore, action.pivotModeBefore),
+            redo: action => this.applyColumnState(action.stateAfter, action.pivotModeAfter)
+        });
+
+        this.registerActionHandler<FilterUndoRedoAction>(UndoRedoActionType.FILTER, {
+            undo: action => this.applyFilterModel(action.modelBefore),
+            redo: action => this.applyFilterModel(action.modelAfter)
+        });
+
+        this.registerActionHandler<RowOrderUndoRedoAction>(UndoRedoActionType.ROW_ORDER, {
+            undo: action => this.applyRowOrder(action.orderBefore),
+            redo: action => this.applyRowOrder(action.orderAfter)
+        });
+
+        this.registerActionHandler<TransactionUndoRedoAction>(UndoRedoActionType.TRANSACTION, {
+            undo: action => this.applyTransaction(
+                action.added.map(row => row.data),
+                action.updated.map(row => row.oldData),
+                action.removed,
+                action.orderBefore
+            ),
+            redo: action => this.applyTransaction(
+                action.removed.map(row => row.data),
+                action.updated.map(row => row.newData),
+                action.added,
+                action.orderAfter
+            )
+        });
+
+        this.registerActionHandler<GroupUndoRedoAction>(UndoRedoActionType.GROUP, {
+            undo: action => {
+                for (let i = action.actions.length - 1; i >= 0; i--) {
+                    this.getActionHandler(action.actions[i]).undo(action.actions[i]);
+                }
+            },
+            redo: action => action.actions.forEach(groupedAction => this.getActionHandler(groupedAction).redo(groupedAction))
+        });
+    }
+
+    public registerActionHandler<T extends UndoRedoAction>(type: string, handler: UndoRedoActionHandler<T>): void {
+        this.actionHandlers[type] = handler;
+    }
+
+    private getActionHandler(action: UndoRedoAction): UndoRedoActionHandler {
+        const handler = this.actionHandlers[action.type];
+
+        if (!handler) {
+            throw new Error(`AG Grid: no undo / redo handler registered for action type '${action.type}'`);
+        }
+
+        return handler;
+    }
+
     private onCellValueChanged = (event: CellValueChangedEvent): void => {
         const shouldCaptureAction = this.isCellEditing || this.isRowEditing || this.isPasting || this.isFilling;
         if (!shouldCaptureAction) {
             return;
         }
 
-        const { rowPinned, rowIndex, column, oldValue, value } = event;
+        const { rowPinned, rowIndex, column, oldValue, value, node } = event;
 
         const cellValueChange: CellValueChange = {
             rowPinned,
@@ -82,6 +221,11 @@ export class UndoRedoService extends BeanStub {
             oldValue
         };
 
+        // when the history includes structural changes or transactions the row can move, so we find it again by id
+        if (this.isTrackingRowsById() && !rowPinned && node.id != null) {
+            cellValueChange.rowId = node.id;
+        }
+
         this.cellValueChanges.push(cellValueChange);
     }
 
@@ -103,18 +247,14 @@ export class UndoRedoService extends BeanStub {
             return;
         }
 
+        this.flushAsyncTransactions();
+
         const undoAction: UndoRedoAction | undefined = this.undoStack.pop();
-        if (!undoAction || !undoAction.cellValueChanges) {
+        if (!undoAction) {
             return;
         }
 
-        this.processAction(undoAction, (cellValueChange: CellValueChange) => cellValueChange.oldValue);
-
-        if (undoAction instanceof FillUndoRedoAction) {
-            this.processRangeAndCellFocus(undoAction.cellValueChanges, undoAction.initialRange);
-        } else {
-            this.processRangeAndCellFocus(undoAction.cellValueChanges);
-        }
+        this.processAction(() => this.getActionHandler(undoAction).undo(undoAction));
 
         this.redoStack.push(undoAction);
     }
@@ -124,35 +264,84 @@ export class UndoRedoService extends BeanStub {
             return;
         }
 
+        this.flushAsyncTransactions();
+
         const redoAction: UndoRedoAction | undefined = this.redoStack.pop();
-        if (!redoAction || !redoAction.cellValueChanges) {
+        if (!redoAction) {
             return;
         }
 
-        this.processAction(redoAction, (cellValueChange: CellValueChange) => cellValueChange.newValue);
+        this.processAction(() => this.getActionHandler(redoAction).redo(redoAction));
+
+        this.undoStack.push(redoAction);
+    }
 
-        if (redoAction instanceof FillUndoRedoAction) {
-            this.processRangeAndCellFocus(redoAction.cellValueChanges, redoAction.finalRange);
-        } else {
-            this.processRangeAndCellFocus(redoAction.cellValueChanges);
+    /** Adds an action to the history, the action's type must have a handler registered */
+    public pushAction(action: UndoRedoAction): void {
+        if (!this.undoStack) {
+            console.warn('AG Grid: undo / redo is not enabled, set undoRedoCellEditing or undoRedoStructuralChanges to push actions');
+            return;
         }
 
-        this.undoStack.push(redoAction);
+        if (!this.actionHandlers[action.type]) {
+            console.warn(`AG Grid: cannot push undo / redo action, no handler registered for action type '${action.type}'`);
+            return;
+        }
+
+        this.pushActionsToUndoStack(action);
+    }
+
+    /** Until endGroup() is called, all actions are collected into one step of the history */
+    public startGroup(): void {
+        this.groupDepth++;
+    }
+
+    public endGroup(): void {
+        if (this.groupDepth === 0) { return; }
+
+        this.groupDepth--;
+
+        if (this.groupDepth > 0) { return; }
+
+        const actions = this.groupedActions;
+        this.groupedActions = [];
+
+        if (actions.length === 0) { return; }
+
+        this.pushActionsToUndoStack(actions.length === 1 ? actions[0] : new GroupUndoRedoAction(actions));
+    }
+
+    private processAction(callback: () => void): void {
+        this.isProcessingAction = true;
+
+        try {
+            callback();
+        } finally {
+            this.isProcessingAction = false;
+        }
+
+        if (this.gridOptionsWrapper.isUndoRedoStructuralChanges()) {
+            this.takeSnapshots();
+        }
     }
 
-    private processAction(action: UndoRedoAction, valueExtractor: (cellValueChange: CellValueChange) => any) {
+    private processCellValueAction(
+        action: CellValueUndoRedoAction,
+        valueExtractor: (cellValueChange: CellValueChange) => any,
+        range?: CellRange
+    ) {
         action.cellValueChanges.forEach(cellValueChange => {
-            const { rowIndex, rowPinned, columnId } = cellValueChange;
-            const rowPosition: RowPosition = { rowIndex, rowPinned };
-            const currentRow = this.getRowNode(rowPosition);
+            const currentRow = this.getRowNodeForChange(cellValueChange);
 
             // checks if the row has been filtered out
-            if (!currentRow!.displayed) {
+            if (!currentRow || !currentRow.displayed) {
                 return;
             }
 
-            currentRow!.setDataValue(columnId, valueExtractor(cellValueChange));
+            currentRow.setDataValue(cellValueChange.columnId, valueExtractor(cellValueChange));
         });
+
+        this.processRangeAndCellFocus(action.cellValueChanges, range);
     }
 
     private processRangeAndCellFocus(cellValueChanges: CellValueChange[], range?: CellRange) {
@@ -185,13 +374,13 @@ export class UndoRedoService extends BeanStub {
         }
 
         const cellValueChange = cellValueChanges[0];
-        const { rowIndex, rowPinned } = cellValueChange;
-        const rowPosition: RowPosition = { rowIndex, rowPinned };
-        const row = this.getRowNode(rowPosition);
+        const row = this.getRowNodeForChange(cellValueChange);
+
+        if (!row || row.rowIndex == null) { return; }
 
         lastFocusedCell = {
             rowPinned: cellValueChange.rowPinned,
-            rowIndex: row!.rowIndex!,
+            rowIndex: row.rowIndex,
             columnId: cellValueChange.columnId
         };
 
@@ -216,8 +405,8 @@ export class UndoRedoService extends BeanStub {
             this.isRowEditing = true;
         });
         this.addManagedListener(this.eventService, Events.EVENT_ROW_EDITING_STOPPED, () => {
-            const action = new UndoRedoAction(this.cellValueChanges);
-            this.pushActionsToUndoStack(action);
+            const action = new CellValueUndoRedoAction(this.cellValueChanges);
+            this.pushCellValueAction(action);
             this.isRowEditing = false;
         });
     }
@@ -231,8 +420,8 @@ export class UndoRedoService extends BeanStub {
 
             const shouldPushAction = !this.isRowEditing && !this.isPasting && !this.isFilling;
             if (shouldPushAction) {
-                const action = new UndoRedoAction(this.cellValueChanges);
-                this.pushActionsToUndoStack(action);
+                const action = new CellValueUndoRedoAction(this.cellValueChanges);
+                this.pushCellValueAction(action);
             }
         });
     }
@@ -242,8 +431,8 @@ export class UndoRedoService extends BeanStub {
             this.isPasting = true;
         });
         this.addManagedListener(this.eventService, Events.EVENT_PASTE_END, () => {
-            const action = new UndoRedoAction(this.cellValueChanges);
-            this.pushActionsToUndoStack(action);
+            const action = new CellValueUndoRedoAction(this.cellValueChanges);
+            this.pushCellValueAction(action);
             this.isPasting = false;
         });
     }
@@ -255,18 +444,298 @@ export class UndoRedoService extends BeanStub {
 
         this.addManagedListener(this.eventService, Events.EVENT_FILL_END, (event: FillEndEvent) => {
             const action = new FillUndoRedoAction(this.cellValueChanges, event.initialRange, event.finalRange);
-            this.pushActionsToUndoStack(action);
+
+            // the ranges are positions, which point at other rows once the rows are moved or sorted
+            if (this.isTrackingRowsById()) {
+                action.initialRangeRowIds = this.getRangeRowIds(event.initialRange);
+                action.finalRangeRowIds = this.getRangeRowIds(event.finalRange);
+            }
+
+            this.pushCellValueAction(action);
             this.isFilling = false;
         });
     }
 
-    private pushActionsToUndoStack(action: UndoRedoAction) {
-        this.undoStack.push(action);
+    private getRangeRowIds(range: CellRange): RangeRowIds {
+        const getRowId = (rowPosition?: RowPosition) => {
+            const rowNode = rowPosition && !rowPosition.rowPinned ? this.getRowNode(rowPosition) : null;
+            return rowNode && rowNode.id != null ? rowNode.id : undefined;
+        };
+
+        return { startRowId: getRowId(range.startRow), endRowId: getRowId(range.endRow) };
+    }
+
+    // the range at the current positions of its rows, or undefined if they are no longer displayed
+    private findRange(range: CellRange, rowIds?: RangeRowIds): CellRange | undefined {
+        if (!rowIds) { return range; }
+
+        const findRow = (rowPosition: RowPosition | undefined, rowId?: string): RowPosition | undefined | null => {
+            if (rowId == null) { return rowPosition; }
+
+            const rowNode = this.rowModel.getRowNode(rowId);
+
+            return rowNode && rowNode.displayed && rowNode.rowIndex != null ? { rowIndex: rowNode.rowIndex, rowPinned: null } : null;
+        };
+
+        const startRow = findRow(range.startRow, rowIds.startRowId);
+        const endRow = findRow(range.endRow, rowIds.endRowId);
+
+        if (startRow === null || endRow === null) { return; }
+
+        return { ...range, startRow, endRow };
+    }
+
+    private addStructuralListeners(): void {
+        this.takeSnapshots();
+
+        const columnStateEvents = [
+            Events.EVENT_COLUMN_MOVED, Events.EVENT_COLUMN_PINNED, Events.EVENT_COLUMN_VISIBLE,
+            Events.EVENT_COLUMN_ROW_GROUP_CHANGED, Events.EVENT_COLUMN_PIVOT_CHANGED, Events.EVENT_COLUMN_VALUE_CHANGED,
+            Events.EVENT_COLUMN_PIVOT_MODE_CHANGED, Events.EVENT_SORT_CHANGED
+        ];
+
+        columnStateEvents.forEach(eventType => {
+            this.addManagedListener(this.eventService, eventType, this.onColumnStateChanged);
+        });
+
+        this.addManagedListener(this.eventService, Events.EVENT_COLUMN_RESIZED, (event: ColumnResizedEvent) => {
+            // resizing with the mouse fires many events, we only record once the user lets go
+            if (event.finished) {
+                this.onColumnStateChanged();
+            }
+        });
+
+        // moving columns with the mouse fires an event for every position the column passes through
+        this.addManagedListener(this.eventService, Events.EVENT_DRAG_STARTED, () => this.isColumnDragging = true);
+        this.addManagedListener(this.eventService, Events.EVENT_DRAG_STOPPED, () => {
+            this.isColumnDragging = false;
+            this.onColumnStateChanged();
+        });
+
+        this.addManagedListener(this.eventService, Events.EVENT_FILTER_CHANGED, this.onFilterChanged);
+
+        this.addManagedListener(this.eventService, Events.EVENT_ROW_DRAG_ENTER, this.onRowDragEnter);
+        this.addManagedListener(this.eventService, Events.EVENT_ROW_DRAG_END, this.onRowDragEnd);
+    }
+
+    private takeSnapshots(): void {
+        this.columnStateSnapshot = this.columnModel.getColumnState();
+        this.pivotModeSnapshot = this.columnModel.isPivotMode();
+        this.filterModelSnapshot = this.filterManager.getFilterModel();
+    }
+
+    private onNewColumnsOrRows = (): void => {
+        this.clearStacks();
+        this.takeSnapshots();
+    }
+
+    private onColumnStateChanged = (): void => {
+        if (this.isProcessingAction || this.isColumnDragging) { return; }
+
+        const stateBefore = this.columnStateSnapshot;
+        const pivotModeBefore = this.pivotModeSnapshot;
+
+        const stateAfter = this.columnModel.getColumnState();
+        const pivotModeAfter = this.columnModel.isPivotMode();
+
+        // one change can fire several events, eg making a column visible also moves it, so we only
+        // record an action if the state is different from what we last recorded
+        if (pivotModeBefore === pivotModeAfter && jsonEquals(stateBefore, stateAfter)) { return; }
+
+        this.columnStateSnapshot = stateAfter;
+        this.pivotModeSnapshot = pivotModeAfter;
+
+        this.pushActionsToUndoStack(new ColumnStateUndoRedoAction(stateBefore, stateAfter, pivotModeBefore, pivotModeAfter));
+    }
+
+    private onFilterChanged = (): void => {
+        if (this.isProcessingAction || this.pendingFilterModels > 0) { return; }
+
+        const modelBefore = this.filterModelSnapshot;
+        const modelAfter = this.filterManager.getFilterModel();
+
+        if (jsonEquals(modelBefore, modelAfter)) { return; }
+
+        this.filterModelSnapshot = modelAfter;
+
+        this.pushActionsToUndoStack(new FilterUndoRedoAction(modelBefore, modelAfter));
+    }
+
+    private onRowDragEnter = (): void => {
+        if (!this.isManagedRowDragging()) { return; }
+
+        this.rowOrderSnapshot = this.getRowOrder();
+    }
+
+    private onRowDragEnd = (): void => {
+        const orderBefore = this.rowOrderSnapshot;
+        this.rowOrderSnapshot = null;
+
+        if (!orderBefore || !this.isManagedRowDragging()) { return; }
+
+        const orderAfter = this.getRowOrder();
+
+        if (jsonEquals(orderBefore, orderAfter)) { return; }
+
+        this.pushActionsToUndoStack(new RowOrderUndoRedoAction(orderBefore, orderAfter));
+    }
+
+    private onTransactionsApplied = (event: TransactionsAppliedEvent): void => {
+        if (this.isProcessingAction || !event.transactionRecords) { return; }
+
+        const actions = event.transactionRecords
+            .filter(record => record.add.length > 0 || record.remove.length > 0 || record.update.length > 0)
+            .map(record => new TransactionUndoRedoAction(record));
+
+        if (actions.length === 0) { return; }
+
+        this.pushActionsToUndoStack(actions.length === 1 ? actions[0] : new GroupUndoRedoAction(actions));
+    }
+
+    // transactions still waiting to be applied happened before the undo or redo, so are recorded first
+    private flushAsyncTransactions(): void {
+        if (this.gridOptionsWrapper.isUndoRedoTransactions() && this.rowModel.getType() === Constants.ROW_MODEL_TYPE_CLIENT_SIDE) {
+            (this.rowModel as IClientSideRowModel).flushAsyncTransactions();
+        }
+    }
+
+    private isTrackingRowsById(): boolean {
+        return this.gridOptionsWrapper.isUndoRedoStructuralChanges() || this.gridOptionsWrapper.isUndoRedoTransactions();
+    }
+
+    private isManagedRowDragging(): boolean {
+        return this.gridOptionsWrapper.isRowDragManaged() && this.rowModel.getType() === Constants.ROW_MODEL_TYPE_CLIENT_SIDE;
+    }
+
+    private getRowOrder(): string[] {
+        const rootNode = (this.rowModel as IClientSideRowModel).getRootNode();
+        return rootNode.allLeafChildren.map(rowNode => rowNode.id!);
+    }
+
+    private applyTransaction(remove: any[], update: any[], add: RowDataRecord[], order?: string[]): void {
+        // without ids the rows are found by their data, which is the data from after the update, not the data to set
+        if (update.length > 0 && !this.gridOptionsWrapper.getRowNodeIdFunc()) {
+            doOnce(() => console.warn('AG Grid: undo / redo of updated rows needs getRowNodeId to find the rows, the updates are not undone'),
+                'undoRedoService.updateWithoutRowNodeId');
+            update = [];
+        }
+
+        const clientSideRowModel = this.rowModel as IClientSideRowModel;
+
+        // the order is only recorded for immutable data, which has ids, so the order includes the rows added back
+        if (order) {
+            const rowNodeOrder: { [id: string]: number; } = {};
+            order.forEach((id, index) => rowNodeOrder[id] = index);
+
+            clientSideRowModel.updateRowData({ remove, update, add: add.map(row => row.data) }, rowNodeOrder);
+            return;
+        }
+
+        // the rows are added back at the indexes they had, with a transaction for each run of consecutive indexes.
+        // the transactions are applied together, so the rows are only refreshed once.
+        this.createAddIndexTransactions(remove, update, add).forEach(rowDataTransaction => {
+            clientSideRowModel.batchUpdateRowData(rowDataTransaction);
+        });
+
+        clientSideRowModel.flushAsyncTransactions();
+    }
+
+    // the records are in ascending index order, so each run is added after the rows before it are back in place
+    private createAddIndexTransactions(remove: any[], update: any[], add: RowDataRecord[]): RowDataTransaction[] {
+        const transactions: RowDataTransaction[] = [{ remove, update, add: [] }];
+
+        add.forEach((row, i) => {
+            const lastTransaction = transactions[transactions.length - 1];
+            const lastAdd = lastTransaction.add!;
+
+            if (lastAdd.length === 0) {
+                lastTransaction.addIndex = row.index;
+                lastAdd.push(row.data);
+            } else if (add[i - 1].index === row.index - 1) {
+                lastAdd.push(row.data);
+            } else {
+                transactions.push({ add: [row.data], addIndex: row.index });
+            }
+        });
+
+        return transactions;
+    }
+
+    private applyRowOrder(order: string[]): void {
+        const leafChildren = (this.rowModel as IClientSideRowModel).getRootNode().allLeafChildren;
+
+        const indexes: { [id: string]: number; } = {};
+        order.forEach((id, index) => indexes[id] = index);
+
+        // rows added since the order was recorded have no index, they stay at the end in their current order
+        const getIndex = (rowNode: RowNode, currentIndex: number) => {
+            const index = indexes[rowNode.id!];
+            return index != null ? index : order.length + currentIndex;
+        };
+
+        const sorted = leafChildren
+            .map((rowNode, currentIndex) => ({ rowNode, index: getIndex(rowNode, currentIndex) }))
+            .sort((a, b) => a.index - b.index);
+
+        sorted.forEach((item, index) => leafChildren[index] = item.rowNode);
+
+        this.refreshLeafChildren();
+    }
+
+    private refreshLeafChildren(): void {
+        (this.rowModel as IClientSideRowModel).refreshModel({
+            step: ClientSideRowModelSteps.EVERYTHING,
+            keepRenderedRows: true,
+            animate: true,
+            keepEditingRows: true
+        });
+    }
+
+    private applyFilterModel(model: { [colId: string]: any; }): void {
+        this.pendingFilterModels++;
+
+        this.filterManager.setFilterModel(model).then(() => {
+            this.pendingFilterModels--;
+            this.filterModelSnapshot = this.filterManager.getFilterModel();
+        });
+    }
+
+    private applyColumnState(state: ColumnState[], pivotMode: boolean): void {
+        if (this.columnModel.isPivotMode() !== pivotMode) {
+            this.columnModel.setPivotMode(pivotMode, 'api');
+        }
+
+        this.columnModel.applyColumnState({ state, applyOrder: true }, 'api');
+    }
+
+    private pushCellValueAction(action: CellValueUndoRedoAction): void {
+        // editing can stop without any values changing, eg the user pressed escape
+        if (action.cellValueChanges.length > 0) {
+            this.pushActionsToUndoStack(action);
+        }
 
         this.cellValueChanges = [];
+    }
+
+    private pushActionsToUndoStack(action: UndoRedoAction) {
+        if (this.groupDepth > 0) {
+            this.groupedActions.push(action);
+            return;
+        }
+
+        this.undoStack.push(action);
         this.redoStack.clear();
     }
 
+    private getRowNodeForChange(cellValueChange: CellValueChange): RowNode | null {
+        if (cellValueChange.rowId != null) {
+            return this.rowModel.getRowNode(cellValueChange.rowId);
+        }
+
+        const { rowIndex, rowPinned } = cellValueChange;
+        return this.getRowNode({ rowIndex, rowPinned });
+    }
+
     private getRowNode(gridRow: RowPosition): RowNode | null {
         switch (gridRow.rowPinned) {
             case Constants.PINNED_TOP:
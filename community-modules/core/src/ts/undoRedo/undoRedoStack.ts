@@ -1,8 +1,13 @@
 import { CellRange } from "../interfaces/IRangeService";
+import { ColumnState } from "../columns/columnModel";
+import { RowDataRecord, RowDataTransactionRecord } from "../interfaces/iClientSideRowModel";
 
 export interface CellValueChange {
     rowPinned: string | null;
     rowIndex: number;
+    /** Set when the history can outlive the row order (eg when rows are moved or sorted), so the change
+     * is applied to the same row regardless of where it is displayed */
+    rowId?: string;
     columnId: string;
     oldValue: any;
     newValue: any;
@@ -14,7 +19,33 @@ export interface LastFocusedCell {
     columnId: string;
 }
 
-export class UndoRedoAction {
+/**
+ * Undoes and redoes actions of one type. Handlers are registered against the action type with
+ * UndoRedoService.registerActionHandler(), custom actions are supported by registering a handler
+ * for a new type.
+ */
+export interface UndoRedoActionHandler<T extends UndoRedoAction = UndoRedoAction> {
+    undo(action: T): void;
+    redo(action: T): void;
+}
+
+export interface UndoRedoAction {
+    /** Used to find the handler that undoes / redoes this action */
+    type: string;
+}
+
+export class UndoRedoActionType {
+    public static CELL_VALUE = 'cellValue';
+    public static FILL = 'fill';
+    public static COLUMN_STATE = 'columnState';
+    public static FILTER = 'filter';
+    public static ROW_ORDER = 'rowOrder';
+    public static TRANSACTION = 'transaction';
+    public static GROUP = 'group';
+}
+
+export class CellValueUndoRedoAction implements UndoRedoAction {
+    type: string = UndoRedoActionType.CELL_VALUE;
     cellValueChanges: CellValueChange[];
 
     constructor(cellValueChanges: CellValueChange[]) {
@@ -22,9 +53,20 @@ export class UndoRedoAction {
     }
 }
 
-export class FillUndoRedoAction extends UndoRedoAction {
+/** The ids of the first and last rows of a range, unset for pinned rows, which keep their positions */
+export interface RangeRowIds {
+    startRowId?: string;
+    endRowId?: string;
+}
+
+export class FillUndoRedoAction extends CellValueUndoRedoAction {
+    type: string = UndoRedoActionType.FILL;
     initialRange: CellRange;
     finalRange: CellRange;
+    /** Set along with the rowIds of the cell value changes, so the ranges are selected on the same rows after
+     * they are moved or sorted */
+    initialRangeRowIds?: RangeRowIds;
+    finalRangeRowIds?: RangeRowIds;
 
     constructor(cellValueChanges: CellValueChange[], initialRange: CellRange, finalRange: CellRange) {
         super(cellValueChanges);
@@ -33,6 +75,73 @@ export class FillUndoRedoAction extends UndoRedoAction {
     }
 }
 
+/** Covers everything held in column state, ie column moves, resizes, pinning, visibility, sorting,
+ * row grouping, pivoting and aggregation, along with the pivot mode flag. */
+export class ColumnStateUndoRedoAction implements UndoRedoAction {
+    type: string = UndoRedoActionType.COLUMN_STATE;
+    stateBefore: ColumnState[];
+    stateAfter: ColumnState[];
+    pivotModeBefore: boolean;
+    pivotModeAfter: boolean;
+
+    constructor(stateBefore: ColumnState[], stateAfter: ColumnState[], pivotModeBefore: boolean, pivotModeAfter: boolean) {
+        this.stateBefore = stateBefore;
+        this.stateAfter = stateAfter;
+        this.pivotModeBefore = pivotModeBefore;
+        this.pivotModeAfter = pivotModeAfter;
+    }
+}
+
+export class FilterUndoRedoAction implements UndoRedoAction {
+    type: string = UndoRedoActionType.FILTER;
+    modelBefore: { [colId: string]: any; };
+    modelAfter: { [colId: string]: any; };
+
+    constructor(modelBefore: { [colId: string]: any; }, modelAfter: { [colId: string]: any; }) {
+        this.modelBefore = modelBefore;
+        this.modelAfter = modelAfter;
+    }
+}
+
+/** Order of the leaf rows, by row id, before and after rows were moved by a managed row drag */
+export class RowOrderUndoRedoAction implements UndoRedoAction {
+    type: string = UndoRedoActionType.ROW_ORDER;
+    orderBefore: string[];
+    orderAfter: string[];
+
+    constructor(orderBefore: string[], orderAfter: string[]) {
+        this.orderBefore = orderBefore;
+        this.orderAfter = orderAfter;
+    }
+}
+
+export class TransactionUndoRedoAction implements UndoRedoAction {
+    type: string = UndoRedoActionType.TRANSACTION;
+    added: RowDataRecord[];
+    removed: RowDataRecord[];
+    updated: { oldData: any; newData: any; }[];
+    orderBefore?: string[];
+    orderAfter?: string[];
+
+    constructor(record: RowDataTransactionRecord) {
+        this.added = record.add;
+        this.removed = record.remove;
+        this.updated = record.update;
+        this.orderBefore = record.orderBefore;
+        this.orderAfter = record.orderAfter;
+    }
+}
+
+/** Several actions that are undone and redone together as one step */
+export class GroupUndoRedoAction implements UndoRedoAction {
+    type: string = UndoRedoActionType.GROUP;
+    actions: UndoRedoAction[];
+
+    constructor(actions: UndoRedoAction[]) {
+        this.actions = actions;
+    }
+}
+
 export class UndoRedoStack {
     private static DEFAULT_STACK_SIZE = 10;
 
@@ -50,11 +159,6 @@ export class UndoRedoStack {
     }
 
     public push(item: UndoRedoAction): void {
-        const shouldAddActions = item.cellValueChanges && item.cellValueChanges.length > 0;
-        if (!shouldAddActions) {
-            return;
-        }
-
         if (this.actionStack.length === this.maxStackSize) {
             this.actionStack.shift();
         }
@@ -121,6 +121,16 @@ export function setAriaSelected(element: HTMLElement, selected: boolean | undefi
     }
 }
 
+export function setAriaActiveDescendant(element: HTMLElement, descendantId: string | null): void {
+    const attributeName = 'activedescendant';
+
+    if (descendantId) {
+        setAriaAttribute(element, attributeName, descendantId);
+    } else {
+        removeAriaAttribute(element, attributeName);
+    }
+}
+
 export function setAriaChecked(element: HTMLElement, checked?: boolean) {
     setAriaAttribute(element, 'checked', checked === undefined ? 'mixed' : checked);
 }
\ No newline at end of file
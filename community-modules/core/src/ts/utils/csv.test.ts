@@ -1,4 +1,4 @@
-import { stringToArray } from './csv';
+import { detectCsvDelimiter, detectCsvQuote, parseCsvRows, stringToArray } from './csv';
 
 describe('stringToArray', () => {
     it('returns parsed data', () => {
@@ -64,3 +64,41 @@ describe('stringToArray', () => {
         expect(output).toStrictEqual([['a1', 'a2'], ['']]);
     });
 });
+
+describe('parseCsvRows', () => {
+    it('parses quoted fields with delimiters, newlines and escaped quotes', () => {
+        const input = 'a,"b,1","c\nd"\r\n"say ""hi""",,x\n';
+
+        expect(parseCsvRows(input).rows).toStrictEqual([['a', 'b,1', 'c\nd'], ['say "hi"', '', 'x']]);
+    });
+
+    it('stops at the end of a row, so parsing can carry on from the returned position', () => {
+        const input = 'a1,a2\n"b\n1",b2\nc1,c2';
+        const first = parseCsvRows(input, ',', '"', 0, 2);
+        const second = parseCsvRows(input, ',', '"', first.position, 2);
+
+        expect(first.rows).toStrictEqual([['a1', 'a2'], ['b\n1', 'b2']]);
+        expect(second.rows).toStrictEqual([['c1', 'c2']]);
+        expect(second.position).toBe(input.length);
+    });
+
+    it('supports other quote characters and reports unterminated quotes', () => {
+        expect(parseCsvRows("'a;b';c", ';', "'").rows).toStrictEqual([['a;b', 'c']]);
+        expect(parseCsvRows('a,"b\nc').unterminatedQuote).toBe(true);
+    });
+});
+
+describe('detectCsvDelimiter', () => {
+    it('picks the delimiter used the same number of times on each line', () => {
+        expect(detectCsvDelimiter('a;b;c\n1;2,5;3\n4;5;6')).toBe(';');
+        expect(detectCsvDelimiter('a\tb\n"1,2,3"\t4')).toBe('\t');
+        expect(detectCsvDelimiter('single column\nvalue')).toBe(',');
+    });
+});
+
+describe('detectCsvQuote', () => {
+    it('uses single quotes only when no double quotes are found', () => {
+        expect(detectCsvQuote("'a','b'\n'c','d'")).toBe("'");
+        expect(detectCsvQuote('"it\'s",b')).toBe('"');
+    });
+});
@@ -74,3 +74,155 @@ export function stringToArray(strData: string, delimiter = ','): string[][] {
 
     return data;
 }
+
+export interface CsvParseResult {
+    rows: string[][];
+    /** Where parsing stopped, pass it back in to carry on with the next rows */
+    position: number;
+    /** Whether the text ended inside a quoted field */
+    unterminatedQuote: boolean;
+}
+
+/**
+ * Parses up to maxRows rows of delimited text, starting from position. As parsing always stops at the end of a row,
+ * a large file can be parsed a chunk at a time.
+ */
+export function parseCsvRows(text: string, delimiter = ',', quote = '"', position = 0, maxRows = Infinity): CsvParseResult {
+    const rows: string[][] = [];
+    const length = text.length;
+    let unterminatedQuote = false;
+
+    while (position < length && rows.length < maxRows) {
+        const row: string[] = [];
+        let field = '';
+        let insideQuotedField = false;
+        let atFieldStart = true;
+
+        while (position < length) {
+            const char = text[position];
+
+            if (insideQuotedField) {
+                if (char === quote) {
+                    if (text[position + 1] === quote) {
+                        // unescape double quote
+                        field += quote;
+                        position += 2;
+                        continue;
+                    }
+
+                    insideQuotedField = false;
+                } else {
+                    field += char;
+                }
+
+                position++;
+                continue;
+            }
+
+            if (char === quote && atFieldStart) {
+                insideQuotedField = true;
+                atFieldStart = false;
+                position++;
+                continue;
+            }
+
+            if (char === delimiter) {
+                row.push(field);
+                field = '';
+                atFieldStart = true;
+                position++;
+                continue;
+            }
+
+            if (char === '\r' || char === '\n') {
+                position += char === '\r' && text[position + 1] === '\n' ? 2 : 1;
+                break;
+            }
+
+            field += char;
+            atFieldStart = false;
+            position++;
+        }
+
+        row.push(field);
+        rows.push(row);
+
+        if (insideQuotedField) {
+            unterminatedQuote = true;
+        }
+    }
+
+    return { rows, position, unterminatedQuote };
+}
+
+/** Picks the quote character of a file, quotes are double quotes unless only single quotes start fields */
+export function detectCsvQuote(text: string): string {
+    const sample = text.substr(0, 10000);
+
+    if (sample.indexOf('"') < 0 && /(^|[,;\t|])'/m.test(sample)) {
+        return "'";
+    }
+
+    return '"';
+}
+
+/**
+ * Picks the delimiter that appears the same number of times on each of the first lines, preferring the most frequent.
+ * Defaults to a comma.
+ */
+export function detectCsvDelimiter(text: string, quote = '"'): string {
+    const candidates = [',', ';', '\t', '|'];
+    const lines: number[][] = [];
+    let counts = candidates.map(() => 0);
+    let lineHasContent = false;
+    let insideQuotedField = false;
+
+    const endLine = () => {
+        if (lineHasContent) {
+            lines.push(counts);
+        }
+
+        counts = candidates.map(() => 0);
+        lineHasContent = false;
+    };
+
+    for (let position = 0; position < text.length && lines.length < 10; position++) {
+        const char = text[position];
+
+        // delimiters in quoted fields don't count, an escaped quote toggles twice so needs no special case
+        if (char === quote) {
+            insideQuotedField = !insideQuotedField;
+        } else if (insideQuotedField) {
+            continue;
+        } else if (char === '\r' || char === '\n') {
+            endLine();
+            continue;
+        } else if (candidates.indexOf(char) >= 0) {
+            counts[candidates.indexOf(char)]++;
+        }
+
+        lineHasContent = true;
+    }
+
+    endLine();
+
+    let best = ',';
+    let bestScore = 0;
+
+    candidates.forEach((delimiter, index) => {
+        const firstCount = lines.length ? lines[0][index] : 0;
+
+        if (!firstCount) { return; }
+
+        // consistent counts win over inconsistent ones, whatever the number of delimiters
+        const isConsistent = lines.every(line => line[index] === firstCount);
+        const score = (isConsistent ? 1000 : 0) + firstCount;
+
+        if (score > bestScore) {
+            best = delimiter;
+            bestScore = score;
+        }
+    });
+
+    return best;
+}
@@ -1,4 +1,4 @@
-import { makeNull, exists, values } from './generic';
+import { makeNull, exists, values, NAMED_COMPARATORS } from './generic';
 
 describe('makeNull', () => {
     it.each([4, 'string', new Date()])
@@ -67,3 +67,31 @@ describe('values', () => {
         expect(values(map)).toStrictEqual([1, 2, 3]);
     });
 });
+
+describe('NAMED_COMPARATORS', () => {
+    const sort = (key: string, items: any[]) => items.slice().sort(NAMED_COMPARATORS[key]);
+
+    it('sorts text ignoring case', () => {
+        expect(sort('caseInsensitive', ['b', 'A', null, 'a', 'C'])).toEqual([null, 'A', 'a', 'b', 'C']);
+    });
+
+    it('sorts numbers and numeric strings as numbers', () => {
+        expect(sort('number', ['10', 9, null, '1.5', 'abc'])).toEqual([null, 'abc', '1.5', 9, '10']);
+    });
+
+    it('sorts dates, timestamps and date strings by time', () => {
+        const first = new Date(2020, 0, 1);
+        const last = new Date(2021, 5, 1).getTime();
+
+        expect(sort('date', [last, '2020-06-01', null, first])).toEqual([null, first, '2020-06-01', last]);
+    });
+
+    it('uses nothing from outside the comparators, so they can be run from their source', () => {
+        Object.keys(NAMED_COMPARATORS).forEach(key => {
+            const comparator = new Function(`return ${NAMED_COMPARATORS[key].toString()}`)();
+
+            expect(comparator(2, 1)).toBe(1);
+            expect(comparator(1, 2)).toBe(-1);
+        });
+    });
+});
@@ -152,6 +152,45 @@ export function defaultComparator(valueA: any, valueB: any, accentedCompare: boo
 
 }
 
+/**
+ * The comparators columns can name with colDef.comparatorKey. The row model worker runs these from their source,
+ * so they mustn't use anything declared outside of them.
+ */
+export const NAMED_COMPARATORS: { [key: string]: (valueA: any, valueB: any) => number; } = {
+    caseInsensitive: (valueA: any, valueB: any): number => {
+        if (valueA == null || valueB == null) {
+            return valueA == null ? (valueB == null ? 0 : -1) : 1;
+        }
+
+        const a = String(valueA).toLowerCase();
+        const b = String(valueB).toLowerCase();
+
+        return a > b ? 1 : (a < b ? -1 : 0);
+    },
+    // numeric strings are compared as numbers, and anything that isn't a number goes first like missing values
+    number: (valueA: any, valueB: any): number => {
+        const a = valueA == null || valueA === '' ? NaN : Number(valueA);
+        const b = valueB == null || valueB === '' ? NaN : Number(valueB);
+
+        if (isNaN(a) || isNaN(b)) {
+            return isNaN(a) ? (isNaN(b) ? 0 : -1) : 1;
+        }
+
+        return a > b ? 1 : (a < b ? -1 : 0);
+    },
+    // takes dates, timestamps and date strings
+    date: (valueA: any, valueB: any): number => {
+        const a = valueA == null || valueA === '' ? NaN : new Date(valueA).getTime();
+        const b = valueB == null || valueB === '' ? NaN : new Date(valueB).getTime();
+
+        if (isNaN(a) || isNaN(b)) {
+            return isNaN(a) ? (isNaN(b) ? 0 : -1) : 1;
+        }
+
+        return a > b ? 1 : (a < b ? -1 : 0);
+    }
+};
+
 export function find<T>(collection: T[] | { [id: string]: T; } | null, predicate: string | boolean | ((item: T) => boolean), value?: any): T | null {
     if (collection === null || collection === undefined) { return null; }
 
@@ -182,6 +182,11 @@ export function escapeString(toEscape?: string | null): string | null {
     return toEscape == null ? null : toEscape.toString().toString().replace(reUnescapedHtml, chr => HTML_ESCAPES[chr]);
 }
 
+/** Escapes the characters that have a special meaning in regular expressions, so the text is matched as typed */
+export function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 /**
  * Converts a camelCase string into regular text
  * from: https://stackoverflow.com/questions/15369566/putting-space-in-camel-case-string-using-regular-expression
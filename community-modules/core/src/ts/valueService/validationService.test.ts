@@ -0,0 +1,209 @@
+import { ValidationService } from './validationService';
+import { GridOptionsWrapper } from '../gridOptionsWrapper';
+import { EventService } from '../eventService';
+import { IRowModel } from '../interfaces/iRowModel';
+import { ColumnModel } from '../columns/columnModel';
+import { ValueService } from './valueService';
+import { ColDef } from '../entities/colDef';
+import { Events } from '../eventKeys';
+import { mock } from '../test-utils/mock';
+
+function createRowNode(id: string): any {
+    const rowNode: any = { id, data: {}, validationErrors: null };
+    rowNode.setValidationErrors = jest.fn(errors => rowNode.validationErrors = errors);
+    rowNode.setDataValue = jest.fn();
+    return rowNode;
+}
+
+function createColumn(colId: string, colDef: ColDef): any {
+    return { getColId: () => colId, getColDef: () => colDef };
+}
+
+function createService() {
+    const service = new ValidationService();
+
+    const gridOptionsWrapper = mock<GridOptionsWrapper>(
+        'getInvalidCellValueAction', 'getRowValidatorFunc', 'getApi', 'getColumnApi', 'getContext'
+    );
+    const eventService = mock<EventService>('dispatchEvent');
+    const rowModel = mock<IRowModel>('getRowNode');
+    const columnModel = mock<ColumnModel>('getPrimaryColumn');
+    const valueService = mock<ValueService>('getDataWithValue');
+
+    valueService.getDataWithValue.mockImplementation((node, column, newValue) => ({ ...node.data, [column.getColId()]: newValue }));
+    Object.assign(service, { gridOptionsWrapper, eventService, rowModel, columnModel, valueService, isAlive: () => true });
+
+    const setValue = (node: any, column: any, oldValue: any, newValue: any) =>
+        (service as any).onCellValueChanged({ node, column, oldValue, newValue });
+
+    return { service, gridOptionsWrapper, eventService, rowModel, columnModel, setValue };
+}
+
+const required = (params: { newValue: any; }) => params.newValue ? null : 'Required';
+
+describe('validateNewValue', () => {
+    it('rejects invalid values and dispatches an event', () => {
+        const { service, eventService } = createService();
+        const column = createColumn('a', { validator: required });
+
+        expect(service.validateNewValue(createRowNode('1'), column, 'x', '', 'edit')).toBe('reject');
+        expect(eventService.dispatchEvent.mock.calls[0][0]).toMatchObject({
+            type: Events.EVENT_CELL_VALIDATION_FAILED,
+            error: 'Required',
+            source: 'edit'
+        });
+        expect(service.validateNewValue(createRowNode('1'), column, '', 'x', 'edit')).toBe('accept');
+    });
+
+    it('keeps editing only when the caller can', () => {
+        const { service, gridOptionsWrapper } = createService();
+        const column = createColumn('a', { validator: required });
+
+        gridOptionsWrapper.getInvalidCellValueAction.mockReturnValue('keepEditing');
+
+        expect(service.validateNewValue(createRowNode('1'), column, 'x', '', 'edit', true)).toBe('keepEditing');
+        expect(service.validateNewValue(createRowNode('1'), column, 'x', '', 'paste')).toBe('reject');
+    });
+
+    it('accepts values while async validators are pending', () => {
+        const { service } = createService();
+        const column = createColumn('a', { validator: () => Promise.resolve('Taken') });
+
+        expect(service.validateNewValue(createRowNode('1'), column, 'x', 'y', 'edit')).toBe('accept');
+    });
+});
+
+describe('validateNewValue with a row validator', () => {
+    const validateRow = ({ data }: { data: any; }) => data.min > data.max ? { min: 'Min is above max', max: 'Max is below min' } : null;
+
+    it('validates the row with the new value before it is set', () => {
+        const { service, gridOptionsWrapper, eventService } = createService();
+        const node = createRowNode('1');
+
+        node.data = { min: 1, max: 5 };
+        gridOptionsWrapper.getRowValidatorFunc.mockReturnValue(validateRow);
+
+        expect(service.validateNewValue(node, createColumn('max', {}), 5, 0, 'paste')).toBe('reject');
+        expect(eventService.dispatchEvent.mock.calls[0][0]).toMatchObject({
+            type: Events.EVENT_CELL_VALIDATION_FAILED,
+            error: 'Max is below min',
+            source: 'paste'
+        });
+        expect(node.data).toStrictEqual({ min: 1, max: 5 });
+        expect(service.validateNewValue(node, createColumn('max', {}), 5, 3, 'paste')).toBe('accept');
+    });
+
+    it('applies invalidCellValueAction to the errors of the row', () => {
+        const { service, gridOptionsWrapper } = createService();
+        const node = createRowNode('1');
+
+        node.data = { min: 1, max: 5 };
+        gridOptionsWrapper.getRowValidatorFunc.mockReturnValue(validateRow);
+
+        gridOptionsWrapper.getInvalidCellValueAction.mockReturnValue('keepEditing');
+        expect(service.validateNewValue(node, createColumn('min', {}), 1, 9, 'edit', true)).toBe('keepEditing');
+        expect(service.validateNewValue(node, createColumn('min', {}), 1, 9, 'fill')).toBe('reject');
+
+        gridOptionsWrapper.getInvalidCellValueAction.mockReturnValue('accept');
+        expect(service.validateNewValue(node, createColumn('min', {}), 1, 9, 'edit')).toBe('accept');
+    });
+
+    it('only fails values that give the row new errors, so invalid rows can be corrected', () => {
+        const { service, gridOptionsWrapper, eventService } = createService();
+        const node = createRowNode('1');
+
+        node.data = { min: 9, max: 5, name: 'a' };
+        gridOptionsWrapper.getRowValidatorFunc.mockReturnValue(validateRow);
+
+        expect(service.validateNewValue(node, createColumn('name', {}), 'a', 'b', 'edit')).toBe('accept');
+        expect(service.validateNewValue(node, createColumn('min', {}), 9, 6, 'edit')).toBe('accept');
+        expect(eventService.dispatchEvent).not.toHaveBeenCalled();
+    });
+
+    it('does not validate the row when the cell validator fails', () => {
+        const { service, gridOptionsWrapper } = createService();
+        const rowValidator = jest.fn(validateRow);
+
+        gridOptionsWrapper.getRowValidatorFunc.mockReturnValue(rowValidator);
+
+        expect(service.validateNewValue(createRowNode('1'), createColumn('a', { validator: required }), 'x', '', 'edit')).toBe('reject');
+        expect(rowValidator).not.toHaveBeenCalled();
+    });
+});
+
+describe('validation errors', () => {
+    it('sets the errors on the row when a value changes, and clears them once valid', () => {
+        const { setValue } = createService();
+        const node = createRowNode('1');
+        const column = createColumn('a', { validator: required });
+
+        setValue(node, column, 'x', '');
+        expect(node.validationErrors).toStrictEqual({ a: 'Required' });
+
+        setValue(node, column, '', 'x');
+        expect(node.validationErrors).toBeNull();
+    });
+
+    it('combines row errors with cell errors, cell errors taking priority', () => {
+        const { gridOptionsWrapper, setValue } = createService();
+        const node = createRowNode('1');
+        const column = createColumn('a', { validator: required });
+
+        gridOptionsWrapper.getRowValidatorFunc.mockReturnValue(() => ({ a: 'Row error a', b: 'Row error b' }));
+        setValue(node, column, 'x', '');
+
+        expect(node.validationErrors).toStrictEqual({ a: 'Required', b: 'Row error b' });
+    });
+
+    it('ignores async results for values that have since changed', async() => {
+        const { setValue } = createService();
+        const node = createRowNode('1');
+        const resolvers: ((error: string | null) => void)[] = [];
+        const column = createColumn('a', { validator: () => new Promise(resolve => resolvers.push(resolve)) });
+
+        setValue(node, column, 'x', 'y');
+        setValue(node, column, 'y', 'z');
+
+        resolvers[1](null);
+        resolvers[0]('Taken');
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(node.validationErrors).toBeNull();
+
+        setValue(node, column, 'z', 'y');
+        resolvers[2]('Taken');
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(node.validationErrors).toStrictEqual({ a: 'Taken' });
+    });
+
+    it('forgets rows that are removed, ignoring their pending async results', async() => {
+        const { service } = createService();
+        const node = createRowNode('1');
+        const resolvers: ((error: string | null) => void)[] = [];
+        const column = createColumn('a', { validator: () => new Promise(resolve => resolvers.push(resolve)) });
+
+        (service as any).onCellValueChanged({ node, column, oldValue: 'x', newValue: 'y' });
+        (service as any).onTransactionsApplied({ rowNodeTransactions: [{ add: [], remove: [node], update: [] }] });
+
+        resolvers[0]('Taken');
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(node.validationErrors).toBeNull();
+        expect((service as any).cellVersions).toStrictEqual({});
+    });
+
+    it('only returns the errors of rows that are still in the grid', () => {
+        const { service, rowModel, columnModel, setValue } = createService();
+        const column = createColumn('a', { validator: required });
+        const kept = createRowNode('1');
+        const removed = createRowNode('2');
+
+        rowModel.getRowNode.mockImplementation(id => id === '1' ? kept : null);
+        columnModel.getPrimaryColumn.mockReturnValue(column);
+        setValue(kept, column, 'x', '');
+        setValue(removed, column, 'x', '');
+
+        expect(service.getValidationErrors()).toStrictEqual([{ node: kept, column, error: 'Required' }]);
+    });
+});
@@ -0,0 +1,332 @@
+import { Autowired, Bean, PostConstruct } from "../context/context";
+import { BeanStub } from "../context/beanStub";
+import { Events } from "../eventKeys";
+import { CellValidationFailedEvent, CellValueChangedEvent, TransactionsAppliedEvent } from "../events";
+import { RowNode } from "../entities/rowNode";
+import { Column } from "../entities/column";
+import { ValidatorParams, ValidatorResult } from "../entities/colDef";
+import { RowValidatorParams } from "../entities/gridOptions";
+import { ColumnModel } from "../columns/columnModel";
+import { ValueService } from "./valueService";
+import { IRowModel } from "../interfaces/iRowModel";
+import { iterateObject } from "../utils/object";
+
+export interface CellValidationError {
+    node: RowNode;
+    column: Column;
+    error: string;
+}
+
+/** What the caller should do with a new value after it was validated */
+export type ValidationOutcome = 'accept' | 'reject' | 'keepEditing';
+
+interface CellValidationResult {
+    node: RowNode;
+    column: Column;
+    oldValue: any;
+    newValue: any;
+    result: ValidatorResult | Promise<ValidatorResult>;
+    source: string;
+}
+
+@Bean('validationService')
+export class ValidationService extends BeanStub {
+
+    @Autowired('columnModel') private columnModel: ColumnModel;
+    @Autowired('rowModel') private rowModel: IRowModel;
+    @Autowired('valueService') private valueService: ValueService;
+
+    // errors from colDef.validator and gridOptions.rowValidator are kept apart, as each is cleared on its own
+    private cellErrors: { [rowId: string]: { [colId: string]: string; }; } = {};
+    private rowErrors: { [rowId: string]: { [colId: string]: string; }; } = {};
+
+    // rows with at least one error, so we don't need to go through all rows to find the errors
+    private invalidRowNodes: { [rowId: string]: RowNode; } = {};
+
+    // incremented each time a cell is validated, so a late async result doesn't replace the result of a newer value
+    private cellVersions: { [rowId: string]: { [colId: string]: number; }; } = {};
+
+    // the result of validating a value that is about to be set, used when the value changed event arrives
+    // so the validator isn't called a second time for the same value
+    private pendingResult: CellValidationResult | null = null;
+
+    @PostConstruct
+    private init(): void {
+        this.addManagedListener(this.eventService, Events.EVENT_CELL_VALUE_CHANGED, this.onCellValueChanged.bind(this));
+        this.addManagedListener(this.eventService, Events.EVENT_ROW_DATA_CHANGED, this.clearErrors.bind(this));
+        this.addManagedListener(this.eventService, Events.EVENT_TRANSACTIONS_APPLIED, this.onTransactionsApplied.bind(this));
+    }
+
+    /**
+     * Validates a value from editing, pasting or filling before it is set, with colDef.validator and then with
+     * gridOptions.rowValidator. Async validators can't stop the value from being set, so the value is accepted and
+     * the result is applied when the validator resolves.
+     */
+    public validateNewValue(
+        node: RowNode,
+        column: Column,
+        oldValue: any,
+        newValue: any,
+        source: string,
+        canKeepEditing = false
+    ): ValidationOutcome {
+        const result = this.callValidator(node, column, oldValue, newValue, source);
+
+        this.pendingResult = { node, column, oldValue, newValue, result, source };
+
+        const error = this.isPromise(result) || result == null ? this.getNewRowError(node, column, newValue) : result;
+
+        if (error == null) { return 'accept'; }
+
+        this.dispatchValidationFailed(node, column, oldValue, newValue, error, source);
+
+        const action = this.gridOptionsWrapper.getInvalidCellValueAction();
+
+        if (action === 'accept') { return 'accept'; }
+
+        this.pendingResult = null;
+
+        return action === 'keepEditing' && canKeepEditing ? 'keepEditing' : 'reject';
+    }
+
+    public getValidationErrors(): CellValidationError[] {
+        const res: CellValidationError[] = [];
+
+        iterateObject(this.invalidRowNodes, (rowId: string, node: RowNode) => {
+            // the row could have been removed since it was validated
+            if (this.rowModel.getRowNode(rowId) !== node) { return; }
+
+            iterateObject(node.validationErrors, (colId: string, error: string) => {
+                const column = this.columnModel.getPrimaryColumn(colId);
+                if (column) {
+                    res.push({ node, column, error });
+                }
+            });
+        });
+
+        return res;
+    }
+
+    private onCellValueChanged(event: CellValueChangedEvent): void {
+        const { node, column } = event;
+        const pending = this.pendingResult;
+
+        this.pendingResult = null;
+
+        if (node.id == null) { return; }
+
+        // values set another way, eg through the API or undo / redo, are validated so the cell shows the right state
+        const usePending = pending && pending.node === node && pending.column === column && pending.newValue === event.newValue;
+        const cellResult: CellValidationResult = usePending ? pending! : {
+            node,
+            column,
+            oldValue: event.oldValue,
+            newValue: event.newValue,
+            result: this.callValidator(node, column, event.oldValue, event.newValue, 'api'),
+            source: 'api'
+        };
+
+        this.applyCellResult(cellResult);
+        this.validateRow(node);
+    }
+
+    private applyCellResult(cellResult: CellValidationResult): void {
+        const { node, column, result } = cellResult;
+        const rowId = node.id!;
+        const colId = column.getColId();
+        const rowVersions = this.cellVersions[rowId] = this.cellVersions[rowId] || {};
+        const version = rowVersions[colId] = (rowVersions[colId] || 0) + 1;
+
+        if (!this.isPromise(result)) {
+            this.setCellError(node, column, result);
+            return;
+        }
+
+        const onResult = (error: ValidatorResult) => {
+            // the row could have been removed, or the value set again, while waiting for the validator
+            if (!this.isAlive() || this.cellVersions[rowId] !== rowVersions || rowVersions[colId] !== version) { return; }
+
+            this.onAsyncResult(cellResult, error);
+        };
+
+        result.then(onResult, (error: any) => console.warn('AG Grid: colDef.validator failed', error));
+    }
+
+    private onAsyncResult(cellResult: CellValidationResult, error: ValidatorResult): void {
+        const { node, column, oldValue, newValue, source } = cellResult;
+
+        if (error == null || source === 'api') {
+            this.setCellError(node, column, error);
+            return;
+        }
+
+        this.dispatchValidationFailed(node, column, oldValue, newValue, error, source);
+
+        if (this.gridOptionsWrapper.getInvalidCellValueAction() === 'accept') {
+            this.setCellError(node, column, error);
+            return;
+        }
+
+        // the value was set while waiting for the validator, so now it's known to be invalid it's put back
+        node.setDataValue(column, oldValue);
+    }
+
+    /**
+     * The error the row validator gives the row with the new value, that it doesn't give the row as it is, so rows
+     * that are already invalid can still be edited. The error of the edited column is preferred.
+     */
+    private getNewRowError(node: RowNode, column: Column, newValue: any): string | null {
+        if (!this.gridOptionsWrapper.getRowValidatorFunc()) { return null; }
+
+        const errorsBefore = this.callRowValidator(node, node.data) || {};
+        const errorsAfter = this.callRowValidator(node, this.valueService.getDataWithValue(node, column, newValue)) || {};
+        const newErrorColIds = Object.keys(errorsAfter).filter(colId => errorsAfter[colId] !== errorsBefore[colId]);
+
+        if (!newErrorColIds.length) { return null; }
+
+        const colId = column.getColId();
+
+        return errorsAfter[newErrorColIds.indexOf(colId) >= 0 ? colId : newErrorColIds[0]];
+    }
+
+    private validateRow(node: RowNode): void {
+        if (!this.gridOptionsWrapper.getRowValidatorFunc()) { return; }
+
+        const errors = this.callRowValidator(node, node.data);
+
+        if (errors) {
+            this.rowErrors[node.id!] = errors;
+        } else {
+            delete this.rowErrors[node.id!];
+        }
+
+        this.updateRowNode(node);
+    }
+
+    private setCellError(node: RowNode, column: Column, error: ValidatorResult): void {
+        const rowId = node.id!;
+        const colId = column.getColId();
+        const rowCellErrors = this.cellErrors[rowId];
+
+        if (error != null) {
+            this.cellErrors[rowId] = { ...rowCellErrors, [colId]: error };
+        } else if (rowCellErrors && rowCellErrors[colId] != null) {
+            delete rowCellErrors[colId];
+        } else {
+            // nothing changed
+            return;
+        }
+
+        this.updateRowNode(node);
+    }
+
+    private updateRowNode(node: RowNode): void {
+        const rowId = node.id!;
+
+        // cell errors take priority, as they describe the value the user has just entered
+        const errors = { ...this.rowErrors[rowId], ...this.cellErrors[rowId] };
+        const hasErrors = Object.keys(errors).length > 0;
+
+        if (hasErrors) {
+            this.invalidRowNodes[rowId] = node;
+        } else {
+            delete this.invalidRowNodes[rowId];
+            delete this.cellErrors[rowId];
+            delete this.rowErrors[rowId];
+        }
+
+        if (!hasErrors && !node.validationErrors) { return; }
+
+        node.setValidationErrors(hasErrors ? errors : null);
+    }
+
+    private onTransactionsApplied(event: TransactionsAppliedEvent): void {
+        event.rowNodeTransactions.forEach(rowNodeTransaction => {
+            rowNodeTransaction.remove.forEach(node => this.clearRow(node.id!));
+        });
+    }
+
+    // removed rows are forgotten, otherwise the errors and versions of every row ever validated would be kept
+    private clearRow(rowId: string): void {
+        delete this.cellErrors[rowId];
+        delete this.rowErrors[rowId];
+        delete this.invalidRowNodes[rowId];
+        delete this.cellVersions[rowId];
+    }
+
+    private clearErrors(): void {
+        iterateObject(this.invalidRowNodes, (rowId: string, node: RowNode) => node.setValidationErrors(null));
+
+        this.cellErrors = {};
+        this.rowErrors = {};
+        this.invalidRowNodes = {};
+        this.cellVersions = {};
+    }
+
+    private callValidator(
+        node: RowNode,
+        column: Column,
+        oldValue: any,
+        newValue: any,
+        source: string
+    ): ValidatorResult | Promise<ValidatorResult> {
+        const colDef = column.getColDef();
+
+        if (!colDef.validator) { return null; }
+
+        const params: ValidatorParams = {
+            node,
+            data: node.data,
+            oldValue,
+            newValue,
+            colDef,
+            column,
+            api: this.gridOptionsWrapper.getApi(),
+            columnApi: this.gridOptionsWrapper.getColumnApi(),
+            context: this.gridOptionsWrapper.getContext(),
+            source
+        };
+
+        return colDef.validator(params);
+    }
+
+    private callRowValidator(node: RowNode, data: any): { [colId: string]: string; } | null | undefined {
+        const rowValidator = this.gridOptionsWrapper.getRowValidatorFunc()!;
+        const params: RowValidatorParams = {
+            data,
+            node,
+            api: this.gridOptionsWrapper.getApi()!,
+            columnApi: this.gridOptionsWrapper.getColumnApi()!,
+            context: this.gridOptionsWrapper.getContext()
+        };
+
+        return rowValidator(params);
+    }
+
+    private dispatchValidationFailed(node: RowNode, column: Column, oldValue: any, newValue: any, error: string, source: string): void {
+        const event: CellValidationFailedEvent = {
+            type: Events.EVENT_CELL_VALIDATION_FAILED,
+            event: null,
+            node,
+            data: node.data,
+            value: newValue,
+            oldValue,
+            newValue,
+            error,
+            source,
+            column,
+            colDef: column.getColDef(),
+            rowIndex: node.rowIndex,
+            rowPinned: node.rowPinned,
+            context: this.gridOptionsWrapper.getContext(),
+            api: this.gridOptionsWrapper.getApi()!,
+            columnApi: this.gridOptionsWrapper.getColumnApi()!
+        };
+
+        this.eventService.dispatchEvent(event);
+    }
+
+    private isPromise(result: ValidatorResult | Promise<ValidatorResult>): result is Promise<ValidatorResult> {
+        return result != null && typeof (result as Promise<ValidatorResult>).then === 'function';
+    }
+}
@@ -0,0 +1,48 @@
+import { ValueService } from './valueService';
+import { GridOptionsWrapper } from '../gridOptionsWrapper';
+import { ExpressionService } from './expressionService';
+import { ColDef } from '../entities/colDef';
+import { mock } from '../test-utils/mock';
+
+function createColumn(colDef: ColDef): any {
+    return { getColDef: () => colDef, isFieldContainsDots: () => !!colDef.field && colDef.field.indexOf('.') >= 0 };
+}
+
+function createService() {
+    const service = new ValueService();
+    const gridOptionsWrapper = mock<GridOptionsWrapper>('getApi', 'getColumnApi', 'getContext');
+    const expressionService = new ExpressionService();
+
+    Object.assign(service, { gridOptionsWrapper, expressionService });
+    jest.spyOn(service, 'getValue').mockReturnValue('old');
+
+    return service;
+}
+
+describe('getDataWithValue', () => {
+    it('sets the value in a copy of the data, copying the objects of nested fields', () => {
+        const service = createService();
+        const data = { name: 'a', address: { city: 'Dublin', country: 'Ireland' } };
+        const rowNode: any = { data };
+
+        expect(service.getDataWithValue(rowNode, createColumn({ field: 'name' }), 'b')).toStrictEqual({ ...data, name: 'b' });
+        expect(service.getDataWithValue(rowNode, createColumn({ field: 'address.city' }), 'Cork')).toStrictEqual({
+            name: 'a',
+            address: { city: 'Cork', country: 'Ireland' }
+        });
+        expect(data).toStrictEqual({ name: 'a', address: { city: 'Dublin', country: 'Ireland' } });
+    });
+
+    it('gives valueSetters a copy of the data', () => {
+        const service = createService();
+        const rowNode: any = { data: { first: 'a', last: 'b' } };
+        const valueSetter = jest.fn(params => {
+            [params.data.first, params.data.last] = params.newValue.split(' ');
+            return true;
+        });
+
+        expect(service.getDataWithValue(rowNode, createColumn({ valueSetter }), 'c d')).toStrictEqual({ first: 'c', last: 'd' });
+        expect(valueSetter.mock.calls[0][0]).toMatchObject({ oldValue: 'old', newValue: 'c d', node: rowNode });
+        expect(rowNode.data).toStrictEqual({ first: 'a', last: 'b' });
+    });
+});
@@ -204,6 +204,52 @@ export class ValueService extends BeanStub {
         this.eventService.dispatchEvent(event);
     }
 
+    /**
+     * Returns a copy of the row's data with the new value set, leaving the row as it is, so the row can be validated
+     * before the value is set. The objects on the path of a nested field are copied too, while valueSetters are given
+     * a shallow copy of the data.
+     */
+    public getDataWithValue(rowNode: RowNode, column: Column, newValue: any): any {
+        const colDef = column.getColDef();
+        const { field, newValueHandler, valueSetter } = colDef;
+        const data = { ...rowNode.data };
+
+        if (exists(newValueHandler) || exists(valueSetter)) {
+            const params: NewValueParams = {
+                node: rowNode,
+                data,
+                oldValue: this.getValue(column, rowNode),
+                newValue,
+                colDef,
+                column,
+                api: this.gridOptionsWrapper.getApi(),
+                columnApi: this.gridOptionsWrapper.getColumnApi(),
+                context: this.gridOptionsWrapper.getContext()
+            };
+
+            if (newValueHandler) {
+                newValueHandler(params);
+            } else {
+                this.expressionService.evaluate(valueSetter, params);
+            }
+
+            return data;
+        }
+
+        if (field && column.isFieldContainsDots()) {
+            const fieldPieces = field.split('.');
+            let currentObject = data;
+
+            for (let i = 0; i < fieldPieces.length - 1 && typeof currentObject[fieldPieces[i]] === 'object'; i++) {
+                currentObject = currentObject[fieldPieces[i]] = { ...currentObject[fieldPieces[i]] };
+            }
+        }
+
+        this.setValueUsingField(data, field, newValue, column.isFieldContainsDots());
+
+        return data;
+    }
+
     private setValueUsingField(data: any, field: string | undefined, newValue: any, isFieldContainsDots: boolean): boolean {
         if (!field) {
             return false;
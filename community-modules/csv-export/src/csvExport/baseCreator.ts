@@ -1,4 +1,4 @@
-import { ExportParams, _ } from "@ag-grid-community/core";
+import { ExportParams, RowNode, _ } from "@ag-grid-community/core";
 import { BaseCreatorBeans, GridSerializingSession } from "./interfaces";
 
 export abstract class BaseCreator<T, S extends GridSerializingSession<T>, P extends ExportParams<T>> {
@@ -9,7 +9,8 @@ export abstract class BaseCreator<T, S extends GridSerializingSession<T>, P exte
         this.beans = beans;
     }
 
-    public abstract export(userParams?: P): string;
+    /** The rows of the row model are exported, unless the rows to export are given */
+    public abstract export(userParams?: P, rows?: RowNode[]): string;
     protected abstract getDefaultExportParams(): P | undefined;
 
     protected getFileName(fileName?: string): string {
@@ -22,14 +23,14 @@ export abstract class BaseCreator<T, S extends GridSerializingSession<T>, P exte
         return fileName.indexOf('.') === -1 ? `${fileName}.${extension}` : fileName;
     }
 
-    protected getMergedParamsAndData(userParams?: P): { mergedParams: P, data: string } {
+    protected getMergedParamsAndData(userParams?: P, rows?: RowNode[]): { mergedParams: P, data: string } {
         const mergedParams = this.mergeDefaultParams(userParams);
-        const data = this.beans.gridSerializer.serialize(this.createSerializingSession(mergedParams), mergedParams);
+        const data = this.beans.gridSerializer.serialize(this.createSerializingSession(mergedParams), mergedParams, rows);
 
         return { mergedParams, data };
     }
 
-    private mergeDefaultParams(userParams?: P): P {
+    protected mergeDefaultParams(userParams?: P): P {
         const baseParams: P | undefined = this.getDefaultExportParams();
         const params: P = {} as P;
         _.assign(params, baseParams);
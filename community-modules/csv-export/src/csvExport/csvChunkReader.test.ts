@@ -0,0 +1,99 @@
+import { CsvChunkReader } from './csvChunkReader';
+import { SerializedChunk } from './interfaces';
+
+function createReader(chunks: SerializedChunk[]) {
+    const serializeChunk = jest.fn(() => chunks[serializeChunk.mock.calls.length - 1]);
+    const onProgress = jest.fn();
+    const reader = new CsvChunkReader(serializeChunk, onProgress);
+
+    return { reader, serializeChunk, onProgress };
+}
+
+const chunks: SerializedChunk[] = [
+    { data: 'a', rowsExported: 2, rowCount: 3, done: false },
+    { data: 'b', rowsExported: 3, rowCount: 3, done: true }
+];
+
+describe('read', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('serialises each chunk in a timeout of its own, reporting the progress before calling back', () => {
+        const { reader, serializeChunk, onProgress } = createReader(chunks);
+        const calls: string[] = [];
+
+        onProgress.mockImplementation((rowsExported, rowCount, finished) => calls.push(`progress ${rowsExported}/${rowCount} ${finished}`));
+
+        reader.read(data => calls.push(`data ${data}`));
+
+        expect(serializeChunk).not.toHaveBeenCalled();
+
+        jest.runOnlyPendingTimers();
+        reader.read(data => calls.push(`data ${data}`));
+        jest.runOnlyPendingTimers();
+
+        expect(calls).toStrictEqual(['progress 2/3 false', 'data a', 'progress 3/3 true', 'data b']);
+    });
+
+    it('calls back with null once the last chunk was read, without serialising again', () => {
+        const { reader, serializeChunk, onProgress } = createReader(chunks);
+        const callback = jest.fn();
+
+        reader.read(() => reader.read(() => reader.read(callback)));
+        jest.runAllTimers();
+
+        expect(callback).toHaveBeenCalledWith(null);
+        expect(serializeChunk).toHaveBeenCalledTimes(2);
+        expect(onProgress).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('cancel', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('stops a pending read, calling it back with null and reporting the rows exported so far', () => {
+        const { reader, serializeChunk, onProgress } = createReader(chunks);
+        const callback = jest.fn();
+
+        reader.read(() => {});
+        jest.runOnlyPendingTimers();
+        reader.read(callback);
+        reader.cancel();
+        jest.runAllTimers();
+
+        expect(serializeChunk).toHaveBeenCalledTimes(1);
+        expect(callback.mock.calls).toEqual([[null]]);
+        expect(onProgress).toHaveBeenLastCalledWith(2, 3, false, true);
+        expect(reader.isCancelled()).toBe(true);
+    });
+
+    it('calls back reads after cancelling with null', () => {
+        const { reader, serializeChunk } = createReader(chunks);
+        const callback = jest.fn();
+
+        reader.cancel();
+        reader.read(callback);
+
+        expect(callback).toHaveBeenCalledWith(null);
+        expect(serializeChunk).not.toHaveBeenCalled();
+    });
+
+    it('does nothing once the export has finished or was cancelled', () => {
+        const { reader, onProgress } = createReader(chunks);
+
+        reader.read(() => reader.read(() => {}));
+        jest.runAllTimers();
+        reader.cancel();
+
+        expect(onProgress).toHaveBeenCalledTimes(2);
+        expect(reader.isCancelled()).toBe(false);
+
+        const { reader: cancelledReader, onProgress: onCancelledProgress } = createReader(chunks);
+
+        cancelledReader.cancel();
+        cancelledReader.cancel();
+
+        expect(onCancelledProgress).toHaveBeenCalledTimes(1);
+    });
+});
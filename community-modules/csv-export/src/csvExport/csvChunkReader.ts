@@ -0,0 +1,67 @@
+import { SerializedChunk } from "./interfaces";
+
+/**
+ * Reads a streaming CSV export. Each chunk is serialised in a timeout of its own, so the browser can render and handle
+ * events in between, and the export can be cancelled between chunks.
+ */
+export class CsvChunkReader {
+
+    private rowsExported = 0;
+    private rowCount = 0;
+    private finished = false;
+    private cancelled = false;
+    private timeout: number | undefined;
+    private pendingCallback: ((data: string | null) => void) | undefined;
+
+    constructor(
+        private readonly serializeChunk: () => SerializedChunk,
+        private readonly onProgress: (rowsExported: number, rowCount: number, finished: boolean, cancelled: boolean) => void
+    ) {}
+
+    /** Calls back with the next chunk of the CSV, or with null once the export has finished or was cancelled */
+    public read(callback: (data: string | null) => void): void {
+        if (this.finished || this.cancelled) {
+            callback(null);
+            return;
+        }
+
+        this.pendingCallback = callback;
+        this.timeout = window.setTimeout(() => {
+            this.timeout = undefined;
+            this.pendingCallback = undefined;
+
+            const chunk = this.serializeChunk();
+
+            this.rowsExported = chunk.rowsExported;
+            this.rowCount = chunk.rowCount;
+            this.finished = chunk.done;
+            this.onProgress(this.rowsExported, this.rowCount, this.finished, false);
+
+            callback(chunk.data);
+        }, 0);
+    }
+
+    public cancel(): void {
+        if (this.finished || this.cancelled) { return; }
+
+        const callback = this.pendingCallback;
+
+        this.cancelled = true;
+        this.pendingCallback = undefined;
+
+        if (this.timeout != null) {
+            window.clearTimeout(this.timeout);
+            this.timeout = undefined;
+        }
+
+        this.onProgress(this.rowsExported, this.rowCount, false, true);
+
+        if (callback) {
+            callback(null);
+        }
+    }
+
+    public isCancelled(): boolean {
+        return this.cancelled;
+    }
+}
@@ -0,0 +1,160 @@
+import { CsvExportProgressEvent, Events, EventService } from '@ag-grid-community/core';
+import { CsvCreator } from './csvCreator';
+import { Downloader } from './downloader';
+import { SerializedChunk } from './interfaces';
+
+function createCreator(rowCount: number, chunkSize = 2) {
+    let rowsExported = 0;
+    const serializeChunk = jest.fn((): SerializedChunk => {
+        rowsExported = Math.min(rowsExported + chunkSize, rowCount);
+
+        return { data: `rows to ${rowsExported};`, rowsExported, rowCount, done: rowsExported === rowCount };
+    });
+
+    const creator = new CsvCreator();
+    const eventService = new EventService();
+    const events: CsvExportProgressEvent[] = [];
+
+    eventService.addEventListener(Events.EVENT_CSV_EXPORT_PROGRESS, (event: CsvExportProgressEvent) => events.push(event));
+
+    Object.assign(creator, {
+        eventService,
+        gridSerializer: { serializeInChunks: jest.fn(() => serializeChunk) },
+        gridOptionsWrapper: {
+            getDefaultExportParams: (): undefined => undefined,
+            getApi: (): any => null,
+            getColumnApi: (): any => null,
+            isSuppressCsvExport: () => false
+        }
+    });
+
+    return { creator, events, serializeChunk };
+}
+
+function getProgress(events: CsvExportProgressEvent[]) {
+    return events.map(({ rowsExported, rowCount, finished, cancelled }) => ({ rowsExported, rowCount, finished, cancelled }));
+}
+
+describe('exportDataAsCsvStream', () => {
+    let download: jest.SpyInstance;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        download = jest.spyOn(Downloader, 'download').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        download.mockRestore();
+    });
+
+    it('dispatches a progress event for each chunk, and downloads the file once the last chunk was read', () => {
+        const { creator, events } = createCreator(5);
+        let progressWhenDownloading: CsvExportProgressEvent[] = [];
+
+        download.mockImplementation(() => progressWhenDownloading = events.slice());
+
+        creator.exportDataAsCsvStream({ fileName: 'medals' });
+
+        jest.runOnlyPendingTimers();
+
+        expect(getProgress(events)).toStrictEqual([{ rowsExported: 2, rowCount: 5, finished: false, cancelled: false }]);
+        expect(download).not.toHaveBeenCalled();
+
+        jest.runAllTimers();
+
+        expect(getProgress(events).map(event => event.rowsExported)).toStrictEqual([2, 4, 5]);
+        expect(events[2].finished).toBe(true);
+        expect(download).toHaveBeenCalledTimes(1);
+        expect(download.mock.calls[0][0]).toBe('medals.csv');
+        expect(progressWhenDownloading.length).toBe(3);
+    });
+
+    it('does not download the file when the export is cancelled mid-export', () => {
+        const { creator, events, serializeChunk } = createCreator(5);
+
+        creator.exportDataAsCsvStream();
+        jest.runOnlyPendingTimers();
+
+        creator.cancelCsvExport();
+        jest.runAllTimers();
+
+        expect(serializeChunk).toHaveBeenCalledTimes(1);
+        expect(getProgress(events)).toStrictEqual([
+            { rowsExported: 2, rowCount: 5, finished: false, cancelled: false },
+            { rowsExported: 2, rowCount: 5, finished: false, cancelled: true }
+        ]);
+        expect(download).not.toHaveBeenCalled();
+
+        // the cancelled export is no longer active, so it isn't cancelled again
+        creator.cancelCsvExport();
+
+        expect(events.length).toBe(2);
+    });
+
+    it('only cancels the exports that have not finished', () => {
+        const { creator, events } = createCreator(2);
+
+        creator.exportDataAsCsvStream();
+        jest.runAllTimers();
+        creator.cancelCsvExport();
+
+        expect(getProgress(events)).toStrictEqual([{ rowsExported: 2, rowCount: 2, finished: true, cancelled: false }]);
+        expect(download).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('getDataAsCsvStream', () => {
+    // jsdom has no streams, so the underlying source given to the stream is driven directly
+    let source: UnderlyingSource<Uint8Array>;
+    const controller = { enqueue: jest.fn(), close: jest.fn() };
+    const decode = (chunk: Uint8Array) => String.fromCharCode.apply(null, Array.from(chunk));
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        controller.enqueue.mockClear();
+        controller.close.mockClear();
+
+        Object.assign(window, {
+            ReadableStream: function(underlyingSource: UnderlyingSource<Uint8Array>) { source = underlyingSource; },
+            TextEncoder: function() { return { encode: (data: string) => new Uint8Array(data.split('').map(c => c.charCodeAt(0))) }; }
+        });
+    });
+
+    afterEach(() => jest.useRealTimers());
+
+    it('serialises a chunk when pulled, and closes the stream after the last chunk', () => {
+        const { creator, serializeChunk } = createCreator(3);
+
+        creator.getDataAsCsvStream();
+
+        expect(serializeChunk).not.toHaveBeenCalled();
+
+        source.pull!(controller as any);
+        // a pull while a chunk is being read does not read another one
+        source.pull!(controller as any);
+        jest.runAllTimers();
+
+        expect(serializeChunk).toHaveBeenCalledTimes(1);
+
+        source.pull!(controller as any);
+        jest.runAllTimers();
+        source.pull!(controller as any);
+
+        expect(controller.enqueue.mock.calls.map(([chunk]) => decode(chunk))).toEqual(['rows to 2;', 'rows to 3;']);
+        expect(controller.close).toHaveBeenCalledTimes(1);
+    });
+
+    it('cancels the export without closing the stream when the stream is cancelled', () => {
+        const { creator, events } = createCreator(3);
+
+        creator.getDataAsCsvStream();
+        source.pull!(controller as any);
+        source.cancel!(undefined);
+        jest.runAllTimers();
+
+        expect(controller.enqueue).not.toHaveBeenCalled();
+        expect(controller.close).not.toHaveBeenCalled();
+        expect(getProgress(events)).toStrictEqual([{ rowsExported: 0, rowCount: 0, finished: false, cancelled: true }]);
+    });
+});
@@ -1,17 +1,28 @@
 import {
+    _,
+    AgPromise,
     Autowired,
     Bean,
     ColumnModel,
     CsvCustomContent,
     CsvExportParams,
+    CsvExportProgressEvent,
+    CsvServerSideExportParams,
+    CsvStreamExportParams,
+    Events,
+    EventService,
     GridOptionsWrapper,
     ICsvCreator,
     PostConstruct,
+    PreDestroy,
+    RowNode,
     ValueService
 } from "@ag-grid-community/core";
 import { BaseCreator } from "./baseCreator";
+import { CsvChunkReader } from "./csvChunkReader";
 import { Downloader } from "./downloader";
 import { GridSerializer } from "./gridSerializer";
+import { ServerSideRowLoader } from "./serverSideRowLoader";
 import { CsvSerializingSession } from "./sessions/csvSerializingSession";
 
 @Bean('csvCreator')
@@ -21,6 +32,10 @@ export class CsvCreator extends BaseCreator<CsvCustomContent, CsvSerializingSess
     @Autowired('valueService') private valueService: ValueService;
     @Autowired('gridSerializer') private gridSerializer: GridSerializer;
     @Autowired('gridOptionsWrapper') gridOptionsWrapper: GridOptionsWrapper;
+    @Autowired('eventService') private eventService: EventService;
+    @Autowired('serverSideRowLoader') private serverSideRowLoader: ServerSideRowLoader;
+
+    private readonly activeReaders: CsvChunkReader[] = [];
 
     @PostConstruct
     public postConstruct(): void {
@@ -34,13 +49,13 @@ export class CsvCreator extends BaseCreator<CsvCustomContent, CsvSerializingSess
         return this.gridOptionsWrapper.getDefaultExportParams('csv');
     }
 
-    public export(userParams?: CsvExportParams): string {
+    public export(userParams?: CsvExportParams, rows?: RowNode[]): string {
         if (this.isExportSuppressed()) {
             console.warn(`ag-grid: Export cancelled. Export is not allowed as per your configuration.`);
             return '';
         }
 
-        const { mergedParams, data } = this.getMergedParamsAndData(userParams);
+        const { mergedParams, data } = this.getMergedParamsAndData(userParams, rows);
 
         const packagedFile = new Blob(["\ufeff", data], {
             // @ts-ignore
@@ -60,6 +75,111 @@ export class CsvCreator extends BaseCreator<CsvCustomContent, CsvSerializingSess
         return this.getMergedParamsAndData(params).data;
     }
 
+    public exportDataAsCsvFromServer(params: CsvServerSideExportParams = {}): AgPromise<boolean> {
+        if (this.isExportSuppressed()) {
+            console.warn(`ag-grid: Export cancelled. Export is not allowed as per your configuration.`);
+            return AgPromise.resolve(false);
+        }
+
+        return this.serverSideRowLoader.loadAllRows(rows => this.export(params, rows), params.pageSize);
+    }
+
+    public getDataAsCsvStream(params?: CsvStreamExportParams): ReadableStream<Uint8Array> {
+        const reader = this.createChunkReader(params);
+        const encoder = new TextEncoder();
+        let reading = false;
+        let streamCancelled = false;
+
+        // chunks are only serialised when the stream asks for more, so a slow consumer doesn't fill up the queue.
+        // enqueueing asks for the next chunk again while the queue has room.
+        return new ReadableStream<Uint8Array>({
+            pull: controller => {
+                if (reading) { return; }
+
+                reading = true;
+                reader.read(data => {
+                    reading = false;
+
+                    if (data != null) {
+                        controller.enqueue(encoder.encode(data));
+                    } else if (!streamCancelled) {
+                        controller.close();
+                    }
+                });
+            },
+            cancel: () => {
+                streamCancelled = true;
+                reader.cancel();
+            }
+        });
+    }
+
+    public exportDataAsCsvStream(params?: CsvStreamExportParams): void {
+        if (this.isExportSuppressed()) {
+            console.warn(`ag-grid: Export cancelled. Export is not allowed as per your configuration.`);
+            return;
+        }
+
+        const reader = this.createChunkReader(params);
+        const fileName = this.getFileName(this.mergeDefaultParams(params).fileName);
+        // each chunk is kept in a blob of its own, so the whole file never has to be held in one string
+        const parts: Blob[] = [];
+
+        const readChunk = () => reader.read(data => {
+            if (data != null) {
+                parts.push(new Blob([data]));
+                readChunk();
+                return;
+            }
+
+            if (reader.isCancelled()) { return; }
+
+            const packagedFile = new Blob(["\ufeff" as string | Blob].concat(parts), {
+                // @ts-ignore
+                type: window.navigator.msSaveOrOpenBlob ? this.getMimeType() : 'octet/stream'
+            });
+
+            Downloader.download(fileName, packagedFile);
+        });
+
+        readChunk();
+    }
+
+    @PreDestroy
+    public cancelCsvExport(): void {
+        // cancelling a reader removes it from the list
+        this.activeReaders.slice().forEach(reader => reader.cancel());
+    }
+
+    private createChunkReader(userParams?: CsvStreamExportParams): CsvChunkReader {
+        const params = this.mergeDefaultParams(userParams) as CsvStreamExportParams;
+        const serializeChunk = this.gridSerializer.serializeInChunks(
+            this.createSerializingSession(params), params, params.chunkSize || 5000
+        );
+
+        const reader = new CsvChunkReader(serializeChunk, (rowsExported, rowCount, finished, cancelled) => {
+            if (finished || cancelled) {
+                _.removeFromArray(this.activeReaders, reader);
+            }
+
+            const event: CsvExportProgressEvent = {
+                type: Events.EVENT_CSV_EXPORT_PROGRESS,
+                api: this.gridOptionsWrapper.getApi()!,
+                columnApi: this.gridOptionsWrapper.getColumnApi()!,
+                rowsExported,
+                rowCount,
+                finished,
+                cancelled
+            };
+
+            this.eventService.dispatchEvent(event);
+        });
+
+        this.activeReaders.push(reader);
+
+        return reader;
+    }
+
     public getMimeType(): string {
         return 'text/csv;charset=utf-8;';
     }
@@ -0,0 +1,86 @@
+import { AgPromise, CsvImportParams, ImportError, ImportResult, ImportValue } from '@ag-grid-community/core';
+import { CsvImporter } from './csvImporter';
+
+function createImporter() {
+    const importer = new CsvImporter();
+    const result: ImportResult = { mappings: [], rowData: [], errors: [] };
+    const importRows = jest.fn(
+        (table: (ImportValue[] | null)[], params: CsvImportParams, errors: ImportError[]) => AgPromise.resolve(result)
+    );
+
+    Object.assign(importer, { gridImporter: { importRows } });
+
+    return { importer, importRows, result };
+}
+
+/** Imports the text, running the chunks of rows that are left to timeouts */
+function importCsv(text: string, params?: CsvImportParams) {
+    const { importer, importRows, result } = createImporter();
+    const callback = jest.fn();
+
+    importer.importCsv(text, params).then(callback);
+    jest.runAllTimers();
+
+    expect(callback).toHaveBeenCalledWith(result);
+
+    const [table, , errors] = importRows.mock.calls[0];
+
+    return { table, errors };
+}
+
+beforeEach(() => jest.useFakeTimers());
+afterEach(() => jest.useRealTimers());
+
+describe('importCsv', () => {
+    it('detects the delimiter and quotes, leaving out the byte order mark', () => {
+        const { table, errors } = importCsv('\ufeffCountry;Gold\n\'Ireland; North\';1\n');
+
+        expect(table).toEqual([['Country', 'Gold'], ['Ireland; North', '1']]);
+        expect(errors).toEqual([]);
+    });
+
+    it('reports the rows with the wrong number of fields, passing null in their place', () => {
+        const { table, errors } = importCsv('Medals\nCountry,Gold\nIreland,1\nFrance\n\nSpain,2,3\n"Italy,4', { headerRowIndex: 1 });
+
+        expect(table).toEqual([['Medals'], ['Country', 'Gold'], ['Ireland', '1'], null, [''], null, null]);
+        expect(errors).toEqual([
+            { rowNumber: 4, message: 'Expected 2 fields but found 1' },
+            { rowNumber: 6, message: 'Expected 2 fields but found 3' },
+            { rowNumber: 7, message: 'A quoted field is not closed' }
+        ]);
+    });
+
+    it('parses a chunk of rows at a time, with the first chunk parsed straight away', () => {
+        const { importer, importRows } = createImporter();
+        const rows = ['Country,Gold'];
+
+        for (let i = 0; i < 9; i++) {
+            rows.push(`Country ${i},${i}`);
+        }
+
+        importer.importCsv(rows.join('\n'), { chunkSize: 4 });
+
+        expect(jest.getTimerCount()).toBe(1);
+        jest.runOnlyPendingTimers();
+        jest.runOnlyPendingTimers();
+        expect(importRows).toHaveBeenCalledTimes(1);
+
+        const [table, params] = importRows.mock.calls[0];
+
+        expect(table.length).toBe(10);
+        expect(table[9]).toEqual(['Country 8', '8']);
+        expect(params.chunkSize).toBe(4);
+    });
+
+    it('resolves with null, without importing the rows, when the grid is destroyed while parsing', () => {
+        const { importer, importRows } = createImporter();
+        const callback = jest.fn();
+
+        importer.importCsv('Country\na\nb\nc', { chunkSize: 2 }).then(callback);
+        jest.spyOn(importer, 'isAlive').mockReturnValue(false);
+        jest.runAllTimers();
+
+        expect(callback).toHaveBeenCalledWith(null);
+        expect(importRows).not.toHaveBeenCalled();
+    });
+});
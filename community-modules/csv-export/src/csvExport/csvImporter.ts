@@ -0,0 +1,121 @@
+import {
+    _,
+    AgPromise,
+    Autowired,
+    Bean,
+    BeanStub,
+    CsvImportParams,
+    ICsvImporter,
+    ImportError,
+    ImportResult,
+    ImportValue
+} from "@ag-grid-community/core";
+import { GridImporter } from "./gridImporter";
+
+@Bean('csvImporter')
+export class CsvImporter extends BeanStub implements ICsvImporter {
+
+    @Autowired('gridImporter') private gridImporter: GridImporter;
+
+    public importCsv(data: string | Blob, params: CsvImportParams = {}): AgPromise<ImportResult> {
+        return new AgPromise<ImportResult>(resolve => {
+            this.readText(data).then(text => {
+                if (text == null) {
+                    resolve(null);
+                    return;
+                }
+
+                this.parseInChunks(text, params, (table, errors) => {
+                    if (this.isAlive()) {
+                        this.gridImporter.importRows(table, params, errors).then(resolve);
+                    } else {
+                        resolve(null);
+                    }
+                });
+            });
+        });
+    }
+
+    /**
+     * Large files are parsed a chunk of rows at a time, with the browser free to render and handle events in between.
+     * Rows with the wrong number of fields are reported as errors rather than imported with misplaced values.
+     */
+    private parseInChunks(
+        text: string,
+        params: CsvImportParams,
+        callback: (table: (ImportValue[] | null)[], errors: ImportError[]) => void
+    ): void {
+        // the byte order mark written by the CSV export isn't part of the first header
+        if (text.charCodeAt(0) === 0xfeff) {
+            text = text.substr(1);
+        }
+
+        const quote = params.quoteChar || _.detectCsvQuote(text);
+        const delimiter = params.columnSeparator || _.detectCsvDelimiter(text, quote);
+        const chunkSize = params.chunkSize || 10000;
+        const headerRowIndex = params.headerRowIndex != null ? params.headerRowIndex : 0;
+        const table: (ImportValue[] | null)[] = [];
+        const errors: ImportError[] = [];
+        let expectedFieldCount: number | undefined;
+        let position = 0;
+
+        const parseChunk = () => {
+            const result = _.parseCsvRows(text, delimiter, quote, position, chunkSize);
+            const isLastChunk = result.position >= text.length;
+
+            result.rows.forEach((row, i) => {
+                const rowNumber = table.length + 1;
+                const isBlank = row.length === 1 && row[0] === '';
+
+                if (isLastChunk && result.unterminatedQuote && i === result.rows.length - 1) {
+                    errors.push({ rowNumber, message: 'A quoted field is not closed' });
+                    table.push(null);
+                    return;
+                }
+
+                // rows above the header, such as a title, aren't checked
+                if (isBlank || table.length < headerRowIndex) {
+                    table.push(row);
+                    return;
+                }
+
+                if (expectedFieldCount == null) {
+                    expectedFieldCount = row.length;
+                } else if (row.length !== expectedFieldCount) {
+                    errors.push({ rowNumber, message: `Expected ${expectedFieldCount} fields but found ${row.length}` });
+                    table.push(null);
+                    return;
+                }
+
+                table.push(row);
+            });
+
+            position = result.position;
+
+            if (isLastChunk || !this.isAlive()) {
+                callback(table, errors);
+            } else {
+                window.setTimeout(parseChunk, 0);
+            }
+        };
+
+        parseChunk();
+    }
+
+    private readText(data: string | Blob): AgPromise<string> {
+        if (typeof data === 'string') {
+            return AgPromise.resolve(data);
+        }
+
+        return new AgPromise<string>(resolve => {
+            const reader = new FileReader();
+
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = () => {
+                console.warn('AG Grid: unable to read the CSV file');
+                resolve(null);
+            };
+            reader.readAsText(data);
+        });
+    }
+}
@@ -0,0 +1,201 @@
+import { BaseImportParams, ColDef, Column, ExpressionService, ImportResult, ImportValue } from '@ag-grid-community/core';
+import { GridImporter } from './gridImporter';
+
+function createColumn(colDef: ColDef): Column {
+    return { getColDef: () => colDef, getColId: () => colDef.field } as Partial<Column> as Column;
+}
+
+/** Generated column definitions are given to processColDef, to set the properties the importer doesn't */
+function createImporter(colDefs: ColDef[] = [], processColDef = (colDef: ColDef) => colDef) {
+    const importer = new GridImporter();
+    let columns = colDefs.map(createColumn);
+    const gridApi = {
+        setColumnDefs: jest.fn((newColDefs: ColDef[]) => columns = newColDefs.map(colDef => createColumn(processColDef(colDef)))),
+        setRowData: jest.fn(),
+        applyTransaction: jest.fn()
+    };
+
+    Object.assign(importer, {
+        gridApi,
+        expressionService: new ExpressionService(),
+        columnModel: {
+            getAllPrimaryColumns: () => columns,
+            getDisplayNameForColumn: (column: Column) => column.getColDef().headerName
+        },
+        gridOptionsWrapper: {
+            isRowModelDefault: () => true,
+            isSuppressFieldDotNotation: () => false,
+            getApi: (): null => null,
+            getColumnApi: (): null => null,
+            getContext: (): null => null
+        }
+    });
+
+    return { importer, gridApi };
+}
+
+/** Imports the rows, running the chunks of rows that are left to timeouts */
+function importRows(importer: GridImporter, table: (ImportValue[] | null)[], params?: BaseImportParams): ImportResult | null {
+    let result: ImportResult | null | undefined;
+
+    importer.importRows(table, params).then(res => result = res);
+    jest.runAllTimers();
+
+    expect(result).not.toBeUndefined();
+
+    return result!;
+}
+
+beforeEach(() => jest.useFakeTimers());
+afterEach(() => jest.useRealTimers());
+
+describe('mappings', () => {
+    it('matches the headers to the fields and header names of the columns, ignoring case and spaces', () => {
+        const { importer, gridApi } = createImporter([
+            { field: 'country', headerName: 'Country Name' },
+            { field: 'gold' },
+            { headerName: 'No field' }
+        ]);
+        const result = importRows(importer, [[' country name ', 'GOLD', 'Gold', 'Silver'], ['Ireland', '1', '2', '3']])!;
+
+        expect(result.mappings).toStrictEqual([
+            { index: 0, header: 'country name', field: 'country' },
+            { index: 1, header: 'GOLD', field: 'gold' },
+            { index: 2, header: 'Gold', field: null },
+            { index: 3, header: 'Silver', field: null }
+        ]);
+        expect(gridApi.setRowData).toHaveBeenCalledWith([{ country: 'Ireland', gold: '1' }]);
+        expect(gridApi.setColumnDefs).not.toHaveBeenCalled();
+    });
+
+    it('names the columns of files without headers by their positions', () => {
+        const { importer } = createImporter([{ field: 'country', headerName: 'Column 2' }]);
+        const result = importRows(importer, [['1', 'Ireland']], { headerRowIndex: -1 })!;
+
+        expect(result.mappings.map(mapping => mapping.field)).toStrictEqual([null, 'country']);
+        expect(result.rowData).toStrictEqual([{ country: 'Ireland' }]);
+    });
+
+    it('passes the mappings and rows to processImport, which can change the mappings or cancel the import', () => {
+        const { importer, gridApi } = createImporter([{ field: 'country' }, { field: 'code' }]);
+        const table = [['Country', 'Code'], ['Ireland', 'IE'], null, ['', '']];
+        const processImport = jest.fn(() => [{ index: 0, header: 'Country', field: 'country' }, { index: 1, header: 'Code', field: null }]);
+
+        expect(importRows(importer, table, { processImport })!.rowData).toStrictEqual([{ country: 'Ireland' }]);
+        expect(processImport.mock.calls[0]).toMatchObject([{
+            mappings: [{ index: 0, header: 'Country', field: 'country' }, { index: 1, header: 'Code', field: 'code' }],
+            rows: [['Ireland', 'IE']]
+        }]);
+
+        gridApi.setRowData.mockClear();
+
+        expect(importRows(importer, table, { processImport: () => false })).toBeNull();
+        expect(gridApi.setRowData).not.toHaveBeenCalled();
+    });
+});
+
+describe('values', () => {
+    it('infers the types of the generated columns when all of their values are of the type', () => {
+        const { importer, gridApi } = createImporter();
+        const result = importRows(importer, [
+            ['Name', 'Gold', 'Active', 'Joined', 'Code', 'Mixed'],
+            ['a', '1.5', 'TRUE', '2020-01-02', '007', '1'],
+            ['b', '', 'false', '2020-01-03 10:30', '010', 'x']
+        ], { generateColumnDefs: true })!;
+
+        expect(result.rowData).toEqual([
+            { name: 'a', gold: 1.5, active: true, joined: new Date(2020, 0, 2), code: '007', mixed: '1' },
+            { name: 'b', gold: null, active: false, joined: new Date(2020, 0, 3, 10, 30), code: '010', mixed: 'x' }
+        ]);
+
+        const colDefs: ColDef[] = gridApi.setColumnDefs.mock.calls[0][0];
+
+        expect(colDefs.map(({ field, headerName, type, filter }) => ({ field, headerName, type, filter }))).toEqual([
+            { field: 'name', headerName: 'Name' },
+            { field: 'gold', headerName: 'Gold', type: 'numericColumn', filter: 'agNumberColumnFilter' },
+            { field: 'active', headerName: 'Active' },
+            { field: 'joined', headerName: 'Joined', filter: 'agDateColumnFilter' },
+            { field: 'code', headerName: 'Code' },
+            { field: 'mixed', headerName: 'Mixed' }
+        ]);
+        expect((colDefs[3].valueFormatter as any)({ value: new Date(2020, 0, 2) })).toBe('2020-01-02 00:00:00');
+    });
+
+    it('keeps the text of the values when inferTypes is false', () => {
+        const { importer } = createImporter();
+
+        expect(importRows(importer, [['Gold'], ['1']], { generateColumnDefs: true, inferTypes: false })!.rowData).toStrictEqual([
+            { gold: '1' }
+        ]);
+    });
+
+    it('passes the values through the valueParsers of the columns, reporting the rows they fail on', () => {
+        const valueParser = jest.fn(params => {
+            if (params.newValue === 'x') { throw new Error('Not a number'); }
+
+            return Number(params.newValue);
+        });
+        const { importer } = createImporter([{ field: 'country' }, { field: 'medals.gold', valueParser }]);
+        const result = importRows(importer, [['Country', 'Medals.Gold'], ['Ireland', '1'], ['France', 'x']])!;
+
+        expect(result.rowData).toStrictEqual([{ country: 'Ireland', medals: { gold: 1 } }]);
+        expect(result.errors).toStrictEqual([{ rowNumber: 3, message: 'Not a number' }]);
+        expect(valueParser.mock.calls[0][0]).toMatchObject({ newValue: '1', oldValue: undefined, data: { country: 'Ireland' } });
+    });
+});
+
+describe('importMode', () => {
+    const table = [['Country'], ['Ireland']];
+
+    it('replaces the rows of the grid by default', () => {
+        const { importer, gridApi } = createImporter([{ field: 'country' }]);
+
+        importRows(importer, table);
+
+        expect(gridApi.setRowData).toHaveBeenCalledWith([{ country: 'Ireland' }]);
+        expect(gridApi.applyTransaction).not.toHaveBeenCalled();
+    });
+
+    it('adds the rows to the grid in a transaction', () => {
+        const { importer, gridApi } = createImporter([{ field: 'country' }]);
+
+        importRows(importer, table, { importMode: 'transaction' });
+
+        expect(gridApi.applyTransaction).toHaveBeenCalledWith({ add: [{ country: 'Ireland' }] });
+        expect(gridApi.setRowData).not.toHaveBeenCalled();
+    });
+});
+
+describe('chunks', () => {
+    const table = [['Country', 'Gold'], ['a', '1'], ['b', '2'], ['c', '3'], ['d', '4'], ['e', '5']];
+
+    it('infers the types and parses the values a chunk of rows at a time', () => {
+        const valueParser = jest.fn(params => params.newValue);
+        const { importer, gridApi } = createImporter([], colDef => ({ ...colDef, valueParser }));
+        const callback = jest.fn();
+
+        importer.importRows(table, { generateColumnDefs: true, chunkSize: 2 }).then(callback);
+
+        // the first chunk of each pass over the five rows is done straight away, then a timeout for each of the others
+        for (let i = 0; i < 4; i++) {
+            expect(callback).not.toHaveBeenCalled();
+            jest.runOnlyPendingTimers();
+        }
+
+        expect(valueParser).toHaveBeenCalledTimes(10);
+        expect(gridApi.setRowData).toHaveBeenCalledTimes(1);
+        expect(callback.mock.calls[0][0].rowData[4]).toStrictEqual({ country: 'e', gold: 5 });
+    });
+
+    it('stops, resolving with null, when the grid is destroyed during the import', () => {
+        const { importer, gridApi } = createImporter([{ field: 'country' }]);
+        const callback = jest.fn();
+
+        importer.importRows(table, { chunkSize: 2 }).then(callback);
+        jest.spyOn(importer, 'isAlive').mockReturnValue(false);
+        jest.runAllTimers();
+
+        expect(callback).toHaveBeenCalledWith(null);
+        expect(gridApi.setRowData).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,375 @@
+import {
+    _,
+    AgPromise,
+    Autowired,
+    BaseImportParams,
+    Bean,
+    BeanStub,
+    ColDef,
+    Column,
+    ColumnModel,
+    ExpressionService,
+    GridApi,
+    ImportColumnMapping,
+    ImportError,
+    ImportResult,
+    ImportValue,
+    ValueFormatterParams,
+    ValueParserParams
+} from "@ag-grid-community/core";
+
+interface ImportRow {
+    values: ImportValue[];
+    rowNumber: number;
+}
+
+type ImportColumnType = 'number' | 'boolean' | 'date';
+
+interface TypeInference {
+    /** The types all of the values so far are of, in order of preference */
+    types: ImportColumnType[];
+    hasValues: boolean;
+    /** Whether any of the dates have times */
+    hasTimes: boolean;
+}
+
+const NUMBER_REGEX = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2})?)?$/;
+
+// each converter returns undefined for values that aren't of its type, text is only converted when inferring types
+const converters: { [type in ImportColumnType]: (value: ImportValue, convertText: boolean) => ImportValue | undefined } = {
+    number: (value, convertText) => {
+        if (typeof value === 'number') { return value; }
+
+        // numbers with leading zeros are usually codes, so are kept as text
+        return convertText && typeof value === 'string' && NUMBER_REGEX.test(value) && !/^[-+]?0\d/.test(value)
+            ? parseFloat(value)
+            : undefined;
+    },
+    boolean: (value, convertText) => {
+        if (typeof value === 'boolean') { return value; }
+
+        const text = convertText && typeof value === 'string' ? value.toLowerCase() : null;
+
+        return text === 'true' || text === 'false' ? text === 'true' : undefined;
+    },
+    date: (value, convertText) => {
+        if (value instanceof Date) { return value; }
+
+        return convertText && typeof value === 'string' && ISO_DATE_REGEX.test(value)
+            ? _.parseDateTimeFromString(value.replace('T', ' ')) || undefined
+            : undefined;
+    }
+};
+
+/**
+ * Loads the rows read by the importers into the grid. The header row is matched to the grid's columns, and each
+ * value goes through the column's valueParser, as if the user had typed it into the cell.
+ */
+@Bean('gridImporter')
+export class GridImporter extends BeanStub {
+
+    @Autowired('columnModel') private columnModel: ColumnModel;
+    @Autowired('expressionService') private expressionService: ExpressionService;
+    @Autowired('gridApi') private gridApi: GridApi;
+
+    /**
+     * Rows that failed to parse are passed as null, with their errors, so the remaining rows keep their row numbers.
+     * The types of the columns are inferred, and the values parsed, a chunk of rows at a time, with the browser free to
+     * render and handle events in between. Resolves with null when the import is cancelled.
+     */
+    public importRows(
+        table: (ImportValue[] | null)[], params: BaseImportParams = {}, errors: ImportError[] = []
+    ): AgPromise<ImportResult | null> {
+        if (!this.gridOptionsWrapper.isRowModelDefault()) {
+            console.warn('AG Grid: importing rows is only supported with the Client Side Row Model');
+            return AgPromise.resolve(null);
+        }
+
+        const headerRowIndex = params.headerRowIndex != null ? params.headerRowIndex : 0;
+        const headerRow = headerRowIndex >= 0 ? table[headerRowIndex] || [] : [];
+        const rows: ImportRow[] = [];
+
+        for (let i = headerRowIndex + 1; i < table.length; i++) {
+            const values = table[i];
+
+            // blank rows are left out, a sheet often has some formatted but empty rows at the end
+            if (values && values.some(value => value != null && value !== '')) {
+                rows.push({ values, rowNumber: i + 1 });
+            }
+        }
+
+        const columnCount = rows.reduce((count, row) => Math.max(count, row.values.length), headerRow.length);
+        const headers: string[] = [];
+
+        for (let i = 0; i < columnCount; i++) {
+            const header = headerRow[i];
+            headers.push(header != null && header !== '' ? this.toText(header) : `Column ${i + 1}`);
+        }
+
+        const generateColumnDefs = params.generateColumnDefs || !this.getColumnsWithFields().length;
+        let mappings = generateColumnDefs ? this.createGeneratedMappings(headers) : this.createMappings(headers);
+
+        if (params.processImport) {
+            const result = params.processImport({
+                mappings,
+                rows: rows.map(row => row.values),
+                api: this.gridOptionsWrapper.getApi(),
+                columnApi: this.gridOptionsWrapper.getColumnApi(),
+                context: this.gridOptionsWrapper.getContext()
+            });
+
+            if (result === false) { return AgPromise.resolve(null); }
+
+            if (Array.isArray(result)) {
+                mappings = result;
+            }
+        }
+
+        const convertText = params.inferTypes !== false;
+        const chunkSize = params.chunkSize || 10000;
+        const inferences = mappings.map(mapping => generateColumnDefs && mapping.field != null ? this.createTypeInference() : null);
+
+        return new AgPromise<ImportResult | null>(resolve => {
+            this.forEachInChunks(rows, chunkSize, row => {
+                inferences.forEach((inference, i) => inference && this.inferType(inference, row.values[mappings[i].index], convertText));
+            }, () => {
+                if (!this.isAlive()) {
+                    resolve(null);
+                    return;
+                }
+
+                const types = inferences.map(inference => this.getInferredType(inference));
+
+                if (generateColumnDefs) {
+                    const colDefs = mappings
+                        .map((mapping, i) => mapping.field != null ? this.createColDef(mapping, types[i], inferences[i]) : null)
+                        .filter(colDef => colDef != null) as ColDef[];
+
+                    this.gridApi.setColumnDefs(colDefs);
+                }
+
+                this.loadRows(rows, mappings, types, params, errors, resolve);
+            });
+        });
+    }
+
+    private loadRows(
+        rows: ImportRow[],
+        mappings: ImportColumnMapping[],
+        types: (ImportColumnType | null)[],
+        params: BaseImportParams,
+        errors: ImportError[],
+        resolve: (result: ImportResult | null) => void
+    ): void {
+        const convertText = params.inferTypes !== false;
+        const columnsWithFields = this.getColumnsWithFields();
+        const mappedColumns = mappings.map(mapping =>
+            _.find(columnsWithFields, column => column.getColDef().field === mapping.field)
+        );
+        const rowData: any[] = [];
+
+        this.forEachInChunks(rows, params.chunkSize || 10000, row => {
+            try {
+                rowData.push(this.createData(row.values, mappings, mappedColumns, types, convertText));
+            } catch (e) {
+                errors.push({ rowNumber: row.rowNumber, message: e && e.message ? e.message : String(e) });
+            }
+        }, () => {
+            if (!this.isAlive()) {
+                resolve(null);
+                return;
+            }
+
+            // the rows are loaded in one go, so the grid sorts, filters and groups them once
+            if (params.importMode === 'transaction') {
+                this.gridApi.applyTransaction({ add: rowData });
+            } else {
+                this.gridApi.setRowData(rowData);
+            }
+
+            errors.sort((a, b) => a.rowNumber - b.rowNumber);
+
+            resolve({ mappings, rowData, errors });
+        });
+    }
+
+    /** Stops early, leaving the remaining rows, when the grid is destroyed */
+    private forEachInChunks(rows: ImportRow[], chunkSize: number, callback: (row: ImportRow) => void, done: () => void): void {
+        let index = 0;
+
+        const processChunk = () => {
+            const end = Math.min(index + chunkSize, rows.length);
+
+            // for optimum performance, we use a for loop here rather than functional code
+            for (; index < end; index++) {
+                callback(rows[index]);
+            }
+
+            if (index >= rows.length || !this.isAlive()) {
+                done();
+            } else {
+                window.setTimeout(processChunk, 0);
+            }
+        };
+
+        processChunk();
+    }
+
+    private getColumnsWithFields(): Column[] {
+        const columns = this.columnModel.getAllPrimaryColumns() || [];
+
+        return columns.filter(column => !!column.getColDef().field);
+    }
+
+    private createMappings(headers: string[]): ImportColumnMapping[] {
+        const normalise = (value: string | null | undefined) => value ? value.trim().toLowerCase() : '';
+        const available = this.getColumnsWithFields();
+
+        return headers.map((header, index) => {
+            const name = normalise(header);
+            const column = _.find(available, col =>
+                normalise(this.columnModel.getDisplayNameForColumn(col, 'header')) === name ||
+                normalise(col.getColDef().field) === name ||
+                normalise(col.getColId()) === name
+            );
+
+            if (column) {
+                // a column only takes the values of the first matching header
+                _.removeFromArray(available, column);
+            }
+
+            return { index, header, field: column ? column.getColDef().field! : null };
+        });
+    }
+
+    private createGeneratedMappings(headers: string[]): ImportColumnMapping[] {
+        const usedFields: { [field: string]: boolean; } = {};
+
+        return headers.map((header, index) => {
+            // fields are camel cased from the header, without dots, as they'd be read as nested properties
+            const words = header.match(/[a-z0-9]+/gi) || [];
+            const base = words
+                .map((word, i) => i === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.substr(1).toLowerCase())
+                .join('') || `column${index + 1}`;
+            let field = base;
+
+            for (let suffix = 2; usedFields[field]; suffix++) {
+                field = `${base}${suffix}`;
+            }
+
+            usedFields[field] = true;
+
+            return { index, header, field };
+        });
+    }
+
+    private createTypeInference(): TypeInference {
+        return { types: ['boolean', 'number', 'date'], hasValues: false, hasTimes: false };
+    }
+
+    /** Narrows the types the column can be to those the value is of */
+    private inferType(inference: TypeInference, value: ImportValue, convertText: boolean): void {
+        if (value == null || value === '' || !inference.types.length) { return; }
+
+        inference.hasValues = true;
+        inference.types = inference.types.filter(type => converters[type](value, convertText) !== undefined);
+
+        if (!inference.hasTimes && inference.types.indexOf('date') >= 0) {
+            const date = converters.date(value, convertText) as Date;
+            inference.hasTimes = (date.getHours() + date.getMinutes() + date.getSeconds()) > 0;
+        }
+    }
+
+    /** The type of a column, when all of its values are of that type */
+    private getInferredType(inference: TypeInference | null): ImportColumnType | null {
+        return inference && inference.hasValues && inference.types.length ? inference.types[0] : null;
+    }
+
+    private createColDef(mapping: ImportColumnMapping, type: ImportColumnType | null, inference: TypeInference | null): ColDef {
+        const colDef: ColDef = { field: mapping.field!, headerName: mapping.header };
+
+        if (type === 'number') {
+            colDef.type = 'numericColumn';
+            colDef.filter = 'agNumberColumnFilter';
+        } else if (type === 'date') {
+            // times are only shown when some of the dates have them
+            const includeTime = inference!.hasTimes;
+
+            colDef.filter = 'agDateColumnFilter';
+            colDef.valueFormatter = (params: ValueFormatterParams) =>
+                params.value instanceof Date ? _.serialiseDate(params.value, includeTime)! : params.value;
+        }
+
+        return colDef;
+    }
+
+    private createData(
+        row: ImportValue[],
+        mappings: ImportColumnMapping[],
+        columns: (Column | null)[],
+        types: (ImportColumnType | null)[],
+        convertText: boolean
+    ): any {
+        const data: any = {};
+        const suppressDotNotation = this.gridOptionsWrapper.isSuppressFieldDotNotation();
+
+        mappings.forEach((mapping, i) => {
+            if (mapping.field == null) { return; }
+
+            const type = types[i];
+            let value = row[mapping.index];
+
+            if (type) {
+                const converted = converters[type](value, convertText);
+                value = converted !== undefined ? converted : null;
+            }
+
+            const column = columns[i];
+            const parsed = column ? this.parseValue(column, data, value == null ? null : value) : value;
+
+            this.setValue(data, mapping.field, parsed, !suppressDotNotation);
+        });
+
+        return data;
+    }
+
+    private parseValue(column: Column, data: any, value: ImportValue): any {
+        const colDef = column.getColDef();
+
+        if (!colDef.valueParser) { return value; }
+
+        const params: ValueParserParams = {
+            node: null,
+            data,
+            oldValue: undefined,
+            newValue: value,
+            colDef,
+            column,
+            api: this.gridOptionsWrapper.getApi(),
+            columnApi: this.gridOptionsWrapper.getColumnApi(),
+            context: this.gridOptionsWrapper.getContext()
+        };
+
+        return this.expressionService.evaluate(colDef.valueParser, params);
+    }
+
+    private setValue(data: any, field: string, value: any, useDotNotation: boolean): void {
+        const pieces = useDotNotation ? field.split('.') : [field];
+        let target = data;
+
+        pieces.slice(0, -1).forEach(piece => {
+            if (target[piece] == null || typeof target[piece] !== 'object') {
+                target[piece] = {};
+            }
+
+            target = target[piece];
+        });
+
+        target[pieces[pieces.length - 1]] = value;
+    }
+
+    private toText(value: ImportValue): string {
+        return value instanceof Date ? value.toISOString() : String(value).trim();
+    }
+}
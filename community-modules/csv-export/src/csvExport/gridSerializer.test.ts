@@ -0,0 +1,116 @@
+import { ColDef, Column, ColumnModel, CsvExportParams, GridOptionsWrapper, RowNode, ValueService } from '@ag-grid-community/core';
+import { GridSerializer } from './gridSerializer';
+import { CsvSerializingSession } from './sessions/csvSerializingSession';
+
+function createColumn(field: string): Column {
+    return { getColId: () => field, getColDef: (): ColDef => ({ field }) } as Column;
+}
+
+function createRowNode(data: any, rowPinned?: string): RowNode {
+    return { data, rowPinned, level: 0, group: false } as Partial<RowNode> as RowNode;
+}
+
+function createSerializer(rowNodes: RowNode[], pinnedTop: RowNode[] = [], pinnedBottom: RowNode[] = []) {
+    const columns = [createColumn('country'), createColumn('gold')];
+    const columnModel = {
+        isPivotMode: () => false,
+        getAllDisplayedColumns: () => columns,
+        getGridBalancedTree: () => columns,
+        getDisplayNameForColumn: (column: Column) => column.getColId().toUpperCase()
+    };
+    const valueService = { getValue: (column: Column, rowNode: RowNode) => rowNode.data[column.getColId()] };
+    const gridOptionsWrapper = {
+        getContext: (): any => null,
+        getApi: (): any => null,
+        getColumnApi: (): any => null,
+        isGroupRemoveSingleChildren: () => false,
+        isGroupHideOpenParents: () => false,
+        isGroupRemoveLowestSingleChildren: () => false,
+        isGroupMultiAutoColumn: () => false,
+        isGroupUseEntireRow: () => false
+    };
+
+    const serializer = new GridSerializer();
+
+    Object.assign(serializer, {
+        columnModel,
+        gridOptionsWrapper,
+        // the columns have no groups, so the displayed groups are the columns themselves
+        displayedGroupCreator: { createDisplayedGroups: (columnsToExport: Column[]) => columnsToExport },
+        rowModel: {
+            getType: () => 'clientSide',
+            forEachNodeAfterFilterAndSort: (callback: (rowNode: RowNode) => void) => rowNodes.forEach(callback)
+        },
+        pinnedRowModel: {
+            forEachPinnedTopRow: (callback: (rowNode: RowNode) => void) => pinnedTop.forEach(callback),
+            forEachPinnedBottomRow: (callback: (rowNode: RowNode) => void) => pinnedBottom.forEach(callback)
+        }
+    });
+
+    const createSession = () => new CsvSerializingSession({
+        columnModel: columnModel as Partial<ColumnModel> as ColumnModel,
+        valueService: valueService as Partial<ValueService> as ValueService,
+        gridOptionsWrapper: gridOptionsWrapper as Partial<GridOptionsWrapper> as GridOptionsWrapper,
+        suppressQuotes: false,
+        columnSeparator: ','
+    });
+
+    return { serializer, createSession };
+}
+
+function readAllChunks(serializeChunk: () => { data: string, rowsExported: number, done: boolean }) {
+    const data: string[] = [];
+    const rowsExported: number[] = [];
+
+    for (let done = false; !done;) {
+        const chunk = serializeChunk();
+
+        data.push(chunk.data);
+        rowsExported.push(chunk.rowsExported);
+        done = chunk.done;
+    }
+
+    return { data, rowsExported };
+}
+
+describe('serializeInChunks', () => {
+    const rowNodes = [
+        createRowNode({ country: 'Ireland', gold: 1 }),
+        createRowNode({ country: 'France', gold: 2 }),
+        createRowNode({ country: 'Spain', gold: 3 })
+    ];
+    const pinnedTop = [createRowNode({ country: 'Top', gold: 0 }, 'top')];
+    const pinnedBottom = [createRowNode({ country: 'Total', gold: 6 }, 'bottom')];
+
+    it('serialises the same output as serialize, a chunk of rows at a time', () => {
+        const { serializer, createSession } = createSerializer(rowNodes, pinnedTop, pinnedBottom);
+        const params: CsvExportParams = { prependContent: 'Medals', appendContent: 'End' };
+
+        const { data, rowsExported } = readAllChunks(serializer.serializeInChunks(createSession(), params, 2));
+
+        expect(rowsExported).toStrictEqual([2, 4, 5]);
+        expect(data.join('')).toBe(serializer.serialize(createSession(), params));
+        expect(data[2]).toBe('\r\n"Total","6"\r\nEnd');
+    });
+
+    it('skips the same rows as serialize', () => {
+        const { serializer, createSession } = createSerializer(rowNodes, pinnedTop, pinnedBottom);
+        const params: CsvExportParams = {
+            skipPinnedTop: true,
+            skipColumnHeaders: true,
+            shouldRowBeSkipped: ({ node }) => node.data.country === 'France'
+        };
+
+        const { data } = readAllChunks(serializer.serializeInChunks(createSession(), params, 2));
+
+        expect(data.join('')).toBe(serializer.serialize(createSession(), params));
+        expect(data.join('')).toBe('"Ireland","1"\r\n"Spain","3"\r\n"Total","6"');
+    });
+
+    it('returns the headers in one chunk that is done when there are no rows', () => {
+        const { serializer, createSession } = createSerializer([]);
+        const serializeChunk = serializer.serializeInChunks(createSession(), {}, 2);
+
+        expect(serializeChunk()).toStrictEqual({ data: '"COUNTRY","GOLD"', rowsExported: 0, rowCount: 0, done: true });
+    });
+});
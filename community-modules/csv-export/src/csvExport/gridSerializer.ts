@@ -20,7 +20,9 @@ import {
     SelectionService,
     ShouldRowBeSkippedParams
 } from "@ag-grid-community/core";
-import { GridSerializingSession, RowAccumulator, RowSpanningAccumulator } from "./interfaces";
+import {
+    GridSerializingSession, RowAccumulator, RowSpanningAccumulator, SerializedChunk, StreamingSerializingSession
+} from "./interfaces";
 
 type ProcessGroupHeaderCallback = (params: ProcessGroupHeaderForExportParams) => string;
 
@@ -35,7 +37,8 @@ export class GridSerializer extends BeanStub {
     @Autowired('pinnedRowModel') private pinnedRowModel: PinnedRowModel;
     @Autowired('selectionService') private selectionService: SelectionService;
 
-    public serialize<T>(gridSerializingSession: GridSerializingSession<T>, params: ExportParams<T> = {}): string {
+    /** The rows of the row model are exported, unless the rows to export are given */
+    public serialize<T>(gridSerializingSession: GridSerializingSession<T>, params: ExportParams<T> = {}, rows?: RowNode[]): string {
         const columnsToExport = this.getColumnsToExport(params.allColumns, params.columnKeys);
 
         const serializeChain = _.compose(
@@ -45,7 +48,7 @@ export class GridSerializer extends BeanStub {
             this.exportColumnGroups(params, columnsToExport),
             this.exportHeaders(params, columnsToExport),
             this.processPinnedTopRows(params, columnsToExport),
-            this.processRows(params, columnsToExport),
+            this.processRows(params, columnsToExport, rows),
             this.processPinnedBottomRows(params, columnsToExport),
             this.appendContent(params)
         );
@@ -53,6 +56,47 @@ export class GridSerializer extends BeanStub {
         return serializeChain(gridSerializingSession).parse();
     }
 
+    /**
+     * Serialises the export a chunk of rows at a time. Each call of the returned function serialises the next chunk
+     * and returns the output of the session since the previous call, so the whole export is never held in memory.
+     */
+    public serializeInChunks<T>(
+        gridSerializingSession: StreamingSerializingSession<T>, params: ExportParams<T>, chunkSize: number
+    ): () => SerializedChunk {
+        const columnsToExport = this.getColumnsToExport(params.allColumns, params.columnKeys);
+        const rows: RowNode[] = [];
+        const collectRow = (node: RowNode) => { rows.push(node); };
+        let index = 0;
+
+        _.compose(
+            this.prepareSession(columnsToExport),
+            this.prependContent(params),
+            this.exportColumnGroups(params, columnsToExport),
+            this.exportHeaders(params, columnsToExport)
+        )(gridSerializingSession);
+
+        // the rows are collected up front, as the row models can't be iterated a part at a time
+        this.pinnedRowModel.forEachPinnedTopRow(collectRow);
+        this.forEachRowToExport(params, collectRow);
+        this.pinnedRowModel.forEachPinnedBottomRow(collectRow);
+
+        return () => {
+            const end = Math.min(index + chunkSize, rows.length);
+
+            for (; index < end; index++) {
+                this.processRow(gridSerializingSession, params, columnsToExport, rows[index]);
+            }
+
+            const done = index >= rows.length;
+
+            if (done) {
+                this.appendContent(params)(gridSerializingSession);
+            }
+
+            return { data: gridSerializingSession.flush(), rowsExported: index, rowCount: rows.length, done };
+        };
+    }
+
     private processRow<T>(gridSerializingSession: GridSerializingSession<T>, params: ExportParams<T>, columnsToExport: Column[], node: RowNode): void {
         const rowSkipper: (params: ShouldRowBeSkippedParams) => boolean = params.shouldRowBeSkipped || (() => false);
         const gridOptionsWrapper = this.gridOptionsWrapper;
@@ -176,46 +220,54 @@ export class GridSerializer extends BeanStub {
         }
     }
 
-    private processRows<T>(params: ExportParams<T>, columnsToExport: Column[]): (gridSerializingSession: GridSerializingSession<T>) => GridSerializingSession<T> {
+    private processRows<T>(params: ExportParams<T>, columnsToExport: Column[], rows?: RowNode[]): (gridSerializingSession: GridSerializingSession<T>) => GridSerializingSession<T> {
         return (gridSerializingSession) => {
-            // when in pivot mode, we always render cols on screen, never 'all columns'
-            const rowModel = this.rowModel;
-            const rowModelType = rowModel.getType();
-            const usingCsrm = rowModelType === Constants.ROW_MODEL_TYPE_CLIENT_SIDE;
-            const usingSsrm = rowModelType === Constants.ROW_MODEL_TYPE_SERVER_SIDE;
-            const onlySelectedNonStandardModel = !usingCsrm && params.onlySelected;
             const processRow = this.processRow.bind(this, gridSerializingSession, params, columnsToExport);
+            if (rows) {
+                rows.forEach(processRow);
+            } else {
+                this.forEachRowToExport(params, processRow);
+            }
+            return gridSerializingSession;
+        };
+    }
 
-            if (this.columnModel.isPivotMode()) {
+    private forEachRowToExport<T>(params: ExportParams<T>, processRow: (node: RowNode) => void): void {
+        // when in pivot mode, we always render cols on screen, never 'all columns'
+        const rowModel = this.rowModel;
+        const rowModelType = rowModel.getType();
+        const usingCsrm = rowModelType === Constants.ROW_MODEL_TYPE_CLIENT_SIDE;
+        const usingSsrm = rowModelType === Constants.ROW_MODEL_TYPE_SERVER_SIDE;
+        const onlySelectedNonStandardModel = !usingCsrm && params.onlySelected;
+
+        if (this.columnModel.isPivotMode()) {
+            if (usingCsrm) {
+                (rowModel as IClientSideRowModel).forEachPivotNode(processRow);
+            } else {
+                // must be enterprise, so we can just loop through all the nodes
+                rowModel.forEachNode(processRow);
+            }
+        } else {
+            // onlySelectedAllPages: user doing pagination and wants selected items from
+            // other pages, so cannot use the standard row model as it won't have rows from
+            // other pages.
+            // onlySelectedNonStandardModel: if user wants selected in non standard row model
+            // (eg viewport) then again RowModel cannot be used, so need to use selected instead.
+            if (params.onlySelectedAllPages || onlySelectedNonStandardModel) {
+                const selectedNodes = this.selectionService.getSelectedNodes();
+                selectedNodes.forEach(processRow);
+            } else {
+                // here is everything else - including standard row model and selected. we don't use
+                // the selection model even when just using selected, so that the result is the order
+                // of the rows appearing on the screen.
                 if (usingCsrm) {
-                    (rowModel as IClientSideRowModel).forEachPivotNode(processRow);
+                    (rowModel as IClientSideRowModel).forEachNodeAfterFilterAndSort(processRow);
+                } else if (usingSsrm) {
+                    (rowModel as IServerSideRowModel).forEachNodeAfterFilterAndSort(processRow);
                 } else {
-                    // must be enterprise, so we can just loop through all the nodes
                     rowModel.forEachNode(processRow);
                 }
-            } else {
-                // onlySelectedAllPages: user doing pagination and wants selected items from
-                // other pages, so cannot use the standard row model as it won't have rows from
-                // other pages.
-                // onlySelectedNonStandardModel: if user wants selected in non standard row model
-                // (eg viewport) then again RowModel cannot be used, so need to use selected instead.
-                if (params.onlySelectedAllPages || onlySelectedNonStandardModel) {
-                    const selectedNodes = this.selectionService.getSelectedNodes();
-                    selectedNodes.forEach(processRow);
-                } else {
-                    // here is everything else - including standard row model and selected. we don't use
-                    // the selection model even when just using selected, so that the result is the order
-                    // of the rows appearing on the screen.
-                    if (usingCsrm) {
-                        (rowModel as IClientSideRowModel).forEachNodeAfterFilterAndSort(processRow);
-                    } else if (usingSsrm) {
-                        (rowModel as IServerSideRowModel).forEachNodeAfterFilterAndSort(processRow);
-                    } else {
-                        rowModel.forEachNode(processRow);
-                    }
-                }
             }
-            return gridSerializingSession;
         }
     }
 
@@ -28,7 +28,7 @@ export interface GridSerializingParams {
     columnModel: ColumnModel;
     valueService: ValueService;
     gridOptionsWrapper: GridOptionsWrapper;
-    processCellCallback?: (params: ProcessCellForExportParams) => string;
+    processCellCallback?: (params: ProcessCellForExportParams) => any;
     processHeaderCallback?: (params: ProcessHeaderForExportParams) => string;
     processGroupHeaderCallback?: (params: ProcessGroupHeaderForExportParams) => string;
     processRowGroupCallback?: (params: ProcessRowGroupForExportParams) => string;
@@ -50,4 +50,16 @@ export interface GridSerializingSession<T> {
      * FINAL RESULT
      */
     parse(): string;
-}
\ No newline at end of file
+}
+
+export interface StreamingSerializingSession<T> extends GridSerializingSession<T> {
+    /** Returns what has been serialised since the last call, and forgets it */
+    flush(): string;
+}
+
+export interface SerializedChunk {
+    data: string;
+    rowsExported: number;
+    rowCount: number;
+    done: boolean;
+}
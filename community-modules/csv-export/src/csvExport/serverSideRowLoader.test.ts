@@ -0,0 +1,196 @@
+import {
+    ColDef,
+    Column,
+    Constants,
+    Context,
+    Events,
+    EventService,
+    LoadRowsForExportParams,
+    RowNode,
+    ServerSideExportProgressEvent
+} from '@ag-grid-community/core';
+import { ServerSideRowLoader } from './serverSideRowLoader';
+
+interface FakeDatasource {
+    rowModelType?: string;
+    rowGroupFields?: string[];
+    /** The rows of each group, by the keys of the group joined with '/', '' for the top level rows */
+    rowsByRoute: { [route: string]: any[]; };
+    lastRow?: number;
+    failRoute?: string;
+}
+
+function getRoute(rowNode: RowNode): string {
+    const keys: string[] = [];
+
+    for (let node: RowNode | null = rowNode; node && node.level >= 0; node = node.parent) {
+        keys.unshift(node.key!);
+    }
+
+    return keys.join('/');
+}
+
+function createLoader(datasource: FakeDatasource) {
+    const requests: string[] = [];
+    const rowGroupColumns = (datasource.rowGroupFields || []).map(field => ({ getColDef: (): ColDef => ({ field }) } as Column));
+
+    const rowModel = {
+        getType: () => datasource.rowModelType || Constants.ROW_MODEL_TYPE_SERVER_SIDE,
+        loadRowsForExport: ({ startRow, endRow, parentNode, success, fail }: LoadRowsForExportParams) => {
+            const route = getRoute(parentNode);
+
+            requests.push(`${route}[${startRow}-${endRow}]`);
+
+            if (route === datasource.failRoute) {
+                fail();
+                return;
+            }
+
+            success((datasource.rowsByRoute[route] || []).slice(startRow, endRow), datasource.lastRow);
+        }
+    };
+    const columnModel = { isPivotMode: () => false, getRowGroupColumns: () => rowGroupColumns };
+    const valueService = { getValue: (column: Column, rowNode: RowNode) => rowNode.data[column.getColDef().field!] };
+    const gridOptionsWrapper = {
+        getRowNodeIdFunc: (): undefined => undefined,
+        isTreeData: () => false,
+        getApi: (): any => null,
+        getColumnApi: (): any => null
+    };
+    const eventService = new EventService();
+    const events: ServerSideExportProgressEvent[] = [];
+
+    eventService.addEventListener(Events.EVENT_SERVER_SIDE_EXPORT_PROGRESS, (event: ServerSideExportProgressEvent) => events.push(event));
+
+    const context = new Context({
+        providedBeanInstances: {
+            rowModel, columnModel, valueService, gridOptionsWrapper, eventService,
+            rowRenderer: null, selectionService: null, valueCache: null, columnApi: null, gridApi: null,
+            frameworkOverrides: null
+        },
+        beanClasses: [ServerSideRowLoader],
+        debug: false
+    }, { log: () => {} });
+
+    const loader: ServerSideRowLoader = context.getBean('serverSideRowLoader');
+    const createBean = jest.spyOn(context, 'createBean');
+    const destroyBean = jest.spyOn(context, 'destroyBean');
+
+    return { loader, requests, events, createBean, destroyBean };
+}
+
+function loadAllRows(loader: ServerSideRowLoader, pageSize?: number) {
+    const exportRows = jest.fn();
+    let result: boolean | null = null;
+
+    loader.loadAllRows(exportRows, pageSize).then(loaded => result = loaded);
+
+    const rows: RowNode[] = exportRows.mock.calls.length ? exportRows.mock.calls[0][0] : [];
+
+    return { result, exportRows, rows };
+}
+
+describe('loadAllRows', () => {
+    const countries = [{ country: 'Ireland' }, { country: 'France' }];
+    const athletes = [{ name: 'a' }, { name: 'b' }, { name: 'c' }, { name: 'd' }, { name: 'e' }];
+
+    it('loads the rows a page at a time until a page is not full', () => {
+        const { loader, requests } = createLoader({ rowModelType: Constants.ROW_MODEL_TYPE_INFINITE, rowsByRoute: { '': athletes } });
+        const { result, rows } = loadAllRows(loader, 2);
+
+        expect(result).toBe(true);
+        expect(requests).toStrictEqual(['[0-2]', '[2-4]', '[4-6]']);
+        expect(rows.map(row => row.data.name)).toStrictEqual(['a', 'b', 'c', 'd', 'e']);
+        expect(rows.map(row => row.id)).toStrictEqual(['0', '1', '2', '3', '4']);
+    });
+
+    it('stops loading at the last row given by the datasource', () => {
+        const { loader, requests } = createLoader({ rowsByRoute: { '': athletes.slice(0, 4) }, lastRow: 4 });
+        const { rows } = loadAllRows(loader, 2);
+
+        expect(requests).toStrictEqual(['[0-2]', '[2-4]']);
+        expect(rows.length).toBe(4);
+    });
+
+    it('follows each group with its children, as if every group was expanded', () => {
+        const { loader, requests } = createLoader({
+            rowGroupFields: ['country'],
+            rowsByRoute: { '': countries, 'Ireland': athletes.slice(0, 3), 'France': athletes.slice(3) }
+        });
+        const { rows } = loadAllRows(loader, 2);
+
+        expect(requests).toStrictEqual(['[0-2]', 'Ireland[0-2]', 'Ireland[2-4]', 'France[0-2]', 'France[2-4]', '[2-4]']);
+        expect(rows.map(row => `${row.level}:${row.group ? row.key : row.data.name}`)).toStrictEqual([
+            '0:Ireland', '1:a', '1:b', '1:c', '0:France', '1:d', '1:e'
+        ]);
+        expect(rows[0].leafGroup).toBe(true);
+        expect(rows[2].id).toBe('0-1');
+        expect(rows[2].parent).toBe(rows[0]);
+    });
+
+    it('dispatches the progress as the rows load', () => {
+        const { loader, events } = createLoader({ rowsByRoute: { '': athletes } });
+
+        loadAllRows(loader, 2);
+
+        expect(events.map(({ rowsLoaded, finished, failed }) => ({ rowsLoaded, finished, failed }))).toStrictEqual([
+            { rowsLoaded: 2, finished: false, failed: false },
+            { rowsLoaded: 4, finished: false, failed: false },
+            { rowsLoaded: 5, finished: false, failed: false },
+            { rowsLoaded: 5, finished: true, failed: false }
+        ]);
+    });
+
+    it('does not export the rows when the datasource fails to load a page', () => {
+        const { loader, requests, events } = createLoader({
+            rowGroupFields: ['country'],
+            rowsByRoute: { '': countries, 'Ireland': athletes },
+            failRoute: 'France'
+        });
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const { result, exportRows } = loadAllRows(loader, 10);
+
+        expect(result).toBe(false);
+        expect(exportRows).not.toHaveBeenCalled();
+        expect(requests).toStrictEqual(['[0-10]', 'Ireland[0-10]', 'France[0-10]']);
+        expect(events[events.length - 1].failed).toBe(true);
+        expect(warn).toHaveBeenCalledTimes(1);
+        warn.mockRestore();
+    });
+
+    it('destroys the nodes it created once they are exported, or the load failed', () => {
+        const rowsByRoute = { '': countries, 'Ireland': athletes };
+        const { loader, createBean, destroyBean } = createLoader({ rowGroupFields: ['country'], rowsByRoute });
+        const exportRows = jest.fn(() => expect(destroyBean).not.toHaveBeenCalled());
+
+        loader.loadAllRows(exportRows);
+
+        const createdNodes = createBean.mock.results.map(result => result.value);
+
+        // the root node, the two groups and the children of Ireland
+        expect(createdNodes.length).toBe(8);
+        expect(exportRows).toHaveBeenCalledTimes(1);
+        expect(destroyBean.mock.calls.map(([bean]) => bean)).toEqual(createdNodes);
+
+        const failing = createLoader({ rowGroupFields: ['country'], rowsByRoute, failRoute: 'France' });
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+        failing.loader.loadAllRows(() => {});
+
+        expect(failing.createBean).toHaveBeenCalledTimes(8);
+        expect(failing.destroyBean).toHaveBeenCalledTimes(8);
+        warn.mockRestore();
+    });
+
+    it('warns and resolves with false for row models without a datasource', () => {
+        const { loader, requests } = createLoader({ rowModelType: Constants.ROW_MODEL_TYPE_CLIENT_SIDE, rowsByRoute: {} });
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const { result, exportRows } = loadAllRows(loader);
+
+        expect(result).toBe(false);
+        expect(exportRows).not.toHaveBeenCalled();
+        expect(requests).toStrictEqual([]);
+        expect(warn).toHaveBeenCalledTimes(1);
+        warn.mockRestore();
+    });
+});
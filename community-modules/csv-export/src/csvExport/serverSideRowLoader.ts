@@ -0,0 +1,187 @@
+import {
+    AgPromise,
+    Autowired,
+    Bean,
+    BeanStub,
+    ColumnModel,
+    Constants,
+    Events,
+    IInfiniteRowModel,
+    IRowModel,
+    IServerSideRowModel,
+    RowNode,
+    ServerSideExportProgressEvent,
+    ValueService
+} from "@ag-grid-community/core";
+
+interface ExportLoad {
+    pageSize: number;
+    /** The rows to export, in the order they are exported */
+    rows: RowNode[];
+    /** Every node created for the export, so they can be destroyed once it has been exported */
+    createdNodes: RowNode[];
+}
+
+/**
+ * Loads every row of the Server-Side or Infinite Row Model's datasource for an export, a page at a time. Group rows are
+ * followed by their children, as if every group was expanded.
+ */
+@Bean('serverSideRowLoader')
+export class ServerSideRowLoader extends BeanStub {
+
+    @Autowired('rowModel') private rowModel: IRowModel;
+    @Autowired('columnModel') private columnModel: ColumnModel;
+    @Autowired('valueService') private valueService: ValueService;
+
+    /**
+     * Calls `exportRows` with the rows once they have all loaded, then destroys the nodes. Resolves with false if the
+     * row model doesn't have a datasource, or it fails to load a page
+     */
+    public loadAllRows(exportRows: (rows: RowNode[]) => void, pageSize = 1000): AgPromise<boolean> {
+        const type = this.rowModel.getType();
+
+        if (type !== Constants.ROW_MODEL_TYPE_SERVER_SIDE && type !== Constants.ROW_MODEL_TYPE_INFINITE) {
+            console.warn('AG Grid: exporting from the server requires the Server-Side or Infinite Row Model');
+            return AgPromise.resolve(false);
+        }
+
+        const load: ExportLoad = { pageSize, rows: [], createdNodes: [] };
+        const rootNode = this.createRowNode(load, null);
+
+        return new AgPromise<boolean>(resolve => {
+            this.loadChildren(load, rootNode, 0, loaded => {
+                if (!loaded) {
+                    console.warn('AG Grid: the export was cancelled as the datasource failed to load rows');
+                }
+
+                this.dispatchProgress(load.rows.length, loaded, !loaded);
+
+                const exported = loaded && this.isAlive();
+
+                if (exported) {
+                    exportRows(load.rows);
+                }
+
+                this.destroyBeans(load.createdNodes);
+                resolve(exported);
+            });
+        });
+    }
+
+    private loadChildren(load: ExportLoad, parentNode: RowNode, startRow: number, callback: (loaded: boolean) => void): void {
+        const rowModel = this.rowModel as IServerSideRowModel | IInfiniteRowModel;
+        const { pageSize } = load;
+
+        rowModel.loadRowsForExport({
+            startRow,
+            endRow: startRow + pageSize,
+            parentNode,
+            success: (rowData, lastRow) => {
+                if (!this.isAlive()) {
+                    callback(false);
+                    return;
+                }
+
+                const endRow = startRow + rowData.length;
+                const isLastPage = rowData.length < pageSize || (lastRow != null && lastRow >= 0 && endRow >= lastRow);
+                const nodes = rowData.map((data, index) => this.createRowNode(load, parentNode, data, startRow + index));
+
+                this.addRows(load, nodes, 0, loaded => {
+                    if (!loaded || isLastPage) {
+                        callback(loaded);
+                        return;
+                    }
+
+                    this.loadChildren(load, parentNode, endRow, callback);
+                });
+            },
+            fail: () => callback(false)
+        });
+    }
+
+    private addRows(load: ExportLoad, nodes: RowNode[], index: number, callback: (loaded: boolean) => void): void {
+        const { rows } = load;
+
+        for (let i = index; i < nodes.length; i++) {
+            const node = nodes[i];
+
+            rows.push(node);
+
+            // in pivot mode the lowest groups hold the aggregated values, so they have no children to load
+            if (node.group && !(this.columnModel.isPivotMode() && node.leafGroup)) {
+                this.dispatchProgress(rows.length, false, false);
+                this.loadChildren(load, node, 0, loaded => {
+                    if (loaded) {
+                        this.addRows(load, nodes, i + 1, callback);
+                    } else {
+                        callback(false);
+                    }
+                });
+                return;
+            }
+        }
+
+        this.dispatchProgress(rows.length, false, false);
+        callback(true);
+    }
+
+    /** The nodes aren't part of the row model, they only have what the serializer needs */
+    private createRowNode(load: ExportLoad, parentNode: RowNode | null, data?: any, index?: number): RowNode {
+        const rowNode = this.createBean(new RowNode());
+
+        load.createdNodes.push(rowNode);
+
+        rowNode.parent = parentNode;
+        rowNode.level = parentNode ? parentNode.level + 1 : -1;
+        rowNode.uiLevel = rowNode.level;
+
+        if (!parentNode) {
+            rowNode.group = true;
+            return rowNode;
+        }
+
+        const getRowNodeId = this.gridOptionsWrapper.getRowNodeIdFunc();
+
+        rowNode.data = data;
+        rowNode.id = getRowNodeId ? getRowNodeId(data) : `${parentNode.id != null ? parentNode.id + '-' : ''}${index}`;
+
+        if (this.gridOptionsWrapper.isTreeData()) {
+            const isGroupFunc = this.gridOptionsWrapper.getIsServerSideGroupFunc();
+            const getKeyFunc = this.gridOptionsWrapper.getServerSideGroupKeyFunc();
+
+            rowNode.group = !!isGroupFunc && isGroupFunc(data);
+
+            if (rowNode.group && getKeyFunc) {
+                rowNode.key = getKeyFunc(data);
+            }
+
+            return rowNode;
+        }
+
+        const rowGroupColumns = this.columnModel.getRowGroupColumns();
+        const rowGroupColumn = rowGroupColumns[rowNode.level];
+
+        if (rowGroupColumn && this.rowModel.getType() === Constants.ROW_MODEL_TYPE_SERVER_SIDE) {
+            rowNode.group = true;
+            rowNode.leafGroup = rowNode.level === rowGroupColumns.length - 1;
+            rowNode.rowGroupColumn = rowGroupColumn;
+            rowNode.field = rowGroupColumn.getColDef().field || null;
+            rowNode.key = this.valueService.getValue(rowGroupColumn, rowNode);
+        }
+
+        return rowNode;
+    }
+
+    private dispatchProgress(rowsLoaded: number, finished: boolean, failed: boolean): void {
+        const event: ServerSideExportProgressEvent = {
+            type: Events.EVENT_SERVER_SIDE_EXPORT_PROGRESS,
+            api: this.gridOptionsWrapper.getApi()!,
+            columnApi: this.gridOptionsWrapper.getColumnApi()!,
+            rowsLoaded,
+            finished,
+            failed
+        };
+
+        this.eventService.dispatchEvent(event);
+    }
+}
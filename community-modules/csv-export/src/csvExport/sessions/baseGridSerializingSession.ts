@@ -17,7 +17,7 @@ export abstract class BaseGridSerializingSession<T> implements GridSerializingSe
     public columnModel: ColumnModel;
     public valueService: ValueService;
     public gridOptionsWrapper: GridOptionsWrapper;
-    public processCellCallback?: (params: ProcessCellForExportParams) => string;
+    public processCellCallback?: (params: ProcessCellForExportParams) => any;
     public processHeaderCallback?: (params: ProcessHeaderForExportParams) => string;
     public processGroupHeaderCallback?: (params: ProcessGroupHeaderForExportParams) => string;
     public processRowGroupCallback?: (params: ProcessRowGroupForExportParams) => string;
@@ -111,7 +111,7 @@ export abstract class BaseGridSerializingSession<T> implements GridSerializingSe
         return keys.reverse().join(' -> ');
     }
 
-    private processCell(accumulatedRowIndex: number, rowNode: RowNode, column: Column, value: any, processCellCallback: ((params: ProcessCellForExportParams) => string) | undefined, type: string): any {
+    protected processCell(accumulatedRowIndex: number, rowNode: RowNode, column: Column, value: any, processCellCallback: ((params: ProcessCellForExportParams) => any) | undefined, type: string): any {
         if (processCellCallback) {
             return processCellCallback({
                 accumulatedRowIndex,
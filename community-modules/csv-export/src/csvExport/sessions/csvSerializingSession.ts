@@ -1,10 +1,12 @@
 import { Column, Constants, CsvCustomContent, RowNode } from "@ag-grid-community/core";
-import { CsvSerializingParams, RowAccumulator, RowSpanningAccumulator } from "../interfaces";
+import { CsvSerializingParams, RowAccumulator, RowSpanningAccumulator, StreamingSerializingSession } from "../interfaces";
 import { BaseGridSerializingSession } from "./baseGridSerializingSession";
 
 const LINE_SEPARATOR = '\r\n';
 
-export class CsvSerializingSession extends BaseGridSerializingSession<CsvCustomContent> {
+export class CsvSerializingSession extends BaseGridSerializingSession<CsvCustomContent>
+    implements StreamingSerializingSession<CsvCustomContent> {
+
     private isFirstLine = true;
     private result: string = '';
     private suppressQuotes: boolean;
@@ -127,6 +129,14 @@ export class CsvSerializingSession extends BaseGridSerializingSession<CsvCustomC
         return this.result;
     }
 
+    public flush(): string {
+        const { result } = this;
+
+        this.result = '';
+
+        return result;
+    }
+
     private beginNewLine() {
         if (!this.isFirstLine) {
             this.result += LINE_SEPARATOR;
@@ -1,8 +1,14 @@
 import { Module, ModuleNames } from "@ag-grid-community/core";
 import { CsvCreator } from "./csvExport/csvCreator";
 import { GridSerializer } from "./csvExport/gridSerializer";
+import { GridImporter } from "./csvExport/gridImporter";
+import { CsvImporter } from "./csvExport/csvImporter";
+import { ServerSideRowLoader } from "./csvExport/serverSideRowLoader";
+import { PdfCreator } from "./pdfExport/pdfCreator";
+import { JsonCreator } from "./jsonExport/jsonCreator";
+import { HtmlCreator } from "./htmlExport/htmlCreator";
 
 export const CsvExportModule: Module = {
     moduleName: ModuleNames.CsvExportModule,
-    beans: [CsvCreator, GridSerializer]
+    beans: [CsvCreator, GridSerializer, GridImporter, CsvImporter, ServerSideRowLoader, PdfCreator, JsonCreator, HtmlCreator]
 };
@@ -0,0 +1,139 @@
+import {
+    Autowired,
+    Bean,
+    Column,
+    ColumnModel,
+    ExcelStyle,
+    GridOptions,
+    GridOptionsWrapper,
+    HtmlExportParams,
+    IHtmlCreator,
+    PostConstruct,
+    RowNode,
+    StylingService,
+    ValueService
+} from "@ag-grid-community/core";
+import { BaseCreator } from "../csvExport/baseCreator";
+import { Downloader } from "../csvExport/downloader";
+import { GridSerializer, RowType } from "../csvExport/gridSerializer";
+import { HtmlSerializingSession } from "./htmlSerializingSession";
+import { MarkdownSerializingSession } from "./markdownSerializingSession";
+import { TableSerializingSession } from "./tableSerializingSession";
+
+@Bean('htmlCreator')
+export class HtmlCreator extends BaseCreator<string, TableSerializingSession, HtmlExportParams> implements IHtmlCreator {
+
+    @Autowired('columnModel') private columnModel: ColumnModel;
+    @Autowired('valueService') private valueService: ValueService;
+    @Autowired('gridOptions') private gridOptions: GridOptions;
+    @Autowired('stylingService') private stylingService: StylingService;
+    @Autowired('gridSerializer') private gridSerializer: GridSerializer;
+    @Autowired('gridOptionsWrapper') gridOptionsWrapper: GridOptionsWrapper;
+
+    @PostConstruct
+    public postConstruct(): void {
+        this.setBeans({
+            gridSerializer: this.gridSerializer,
+            gridOptionsWrapper: this.gridOptionsWrapper
+        });
+    }
+
+    protected getDefaultExportParams(): HtmlExportParams | undefined {
+        return this.gridOptionsWrapper.getDefaultExportParams('html');
+    }
+
+    public export(userParams?: HtmlExportParams, rows?: RowNode[]): string {
+        if (this.isExportSuppressed()) {
+            console.warn(`ag-grid: Export cancelled. Export is not allowed as per your configuration.`);
+            return '';
+        }
+
+        const { mergedParams, data } = this.getMergedParamsAndData(userParams, rows);
+        const isMarkdown = mergedParams.format === 'markdown';
+        const fileName = mergedParams.fileName || (isMarkdown ? 'export.md' : undefined);
+        // the table is put in a page, so the file opens in a browser with the right encoding
+        const content = isMarkdown ? data : `<!DOCTYPE html>\n<html>\n<head><meta charset="utf-8"></head>\n<body>\n${data}\n</body>\n</html>`;
+        const packagedFile = new Blob([content], {
+            type: isMarkdown ? 'text/markdown;charset=utf-8' : this.getMimeType()
+        });
+
+        Downloader.download(this.getFileName(fileName), packagedFile);
+
+        return data;
+    }
+
+    public exportDataAsHtml(params?: HtmlExportParams): void {
+        this.export(params);
+    }
+
+    public getDataAsHtml(params?: HtmlExportParams): string {
+        return this.getMergedParamsAndData(params).data;
+    }
+
+    public getMimeType(): string {
+        return 'text/html;charset=utf-8';
+    }
+
+    public getDefaultFileName(): string {
+        return 'export.html';
+    }
+
+    public getDefaultFileExtension(): string {
+        return 'html';
+    }
+
+    public createSerializingSession(params: HtmlExportParams): TableSerializingSession {
+        const { columnModel, valueService, gridOptionsWrapper } = this;
+        const config = {
+            ...params,
+            columnModel,
+            valueService,
+            gridOptionsWrapper,
+            baseExcelStyles: this.gridOptions.excelStyles || [],
+            styleLinker: this.styleLinker.bind(this)
+        };
+
+        return params.format === 'markdown' ? new MarkdownSerializingSession(config) : new HtmlSerializingSession(config);
+    }
+
+    public isExportSuppressed(): boolean {
+        return this.gridOptionsWrapper.isSuppressHtmlExport();
+    }
+
+    /** The same styles as the Excel export, the excelStyles that match the cell classes of each cell */
+    private styleLinker(rowType: RowType, rowIndex: number, value: string, column: Column, node: RowNode | null): string[] | null {
+        if (rowType === RowType.HEADER) { return ["header"]; }
+        if (rowType === RowType.HEADER_GROUPING) { return ["header", "headerGroup"]; }
+
+        const styles = this.gridOptions.excelStyles;
+        const applicableStyles: string[] = ["cell"];
+
+        if (!styles || !styles.length || !node) { return applicableStyles; }
+
+        const styleIds: string[] = styles.map((it: ExcelStyle) => it.id);
+
+        this.stylingService.processAllCellClasses(
+            column.getColDef(),
+            {
+                value: value,
+                data: node.data,
+                node: node,
+                colDef: column.getColDef(),
+                rowIndex: rowIndex,
+                api: this.gridOptionsWrapper.getApi()!,
+                columnApi: this.gridOptionsWrapper.getColumnApi()!,
+                $scope: null,
+                context: this.gridOptionsWrapper.getContext()
+            },
+            (className: string) => {
+                if (styleIds.indexOf(className) > -1) {
+                    applicableStyles.push(className);
+                }
+            }
+        );
+
+        return applicableStyles.sort((left: string, right: string): number => {
+            return (styleIds.indexOf(left) < styleIds.indexOf(right)) ? -1 : 1;
+        });
+    }
+}
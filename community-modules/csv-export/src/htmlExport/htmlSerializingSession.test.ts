@@ -0,0 +1,59 @@
+import { ColDef, Column, ColumnModel, GridOptionsWrapper, RowNode, ValueService } from '@ag-grid-community/core';
+import { HtmlSerializingSession } from './htmlSerializingSession';
+
+function createColumn(field: string): Column {
+    return { getColId: () => field, getColDef: (): ColDef => ({ field }) } as Column;
+}
+
+function createSession() {
+    const columnModel = { getDisplayNameForColumn: (column: Column) => column.getColId(), isPivotMode: () => false };
+    const valueService = { getValue: (column: Column, rowNode: RowNode) => rowNode.data[column.getColId()] };
+    const gridOptionsWrapper = { isGroupMultiAutoColumn: () => false, isGroupUseEntireRow: () => false };
+
+    return new HtmlSerializingSession({
+        columnModel: columnModel as Partial<ColumnModel> as ColumnModel,
+        valueService: valueService as Partial<ValueService> as ValueService,
+        gridOptionsWrapper: gridOptionsWrapper as Partial<GridOptionsWrapper> as GridOptionsWrapper,
+        baseExcelStyles: [],
+        styleLinker: () => null
+    });
+}
+
+/** The cells of the table without their styles */
+function stripStyles(html: string): string {
+    return html.replace(/ style="[^"]*"/g, '');
+}
+
+describe('parse', () => {
+    const columns = [createColumn('<b>name</b>'), createColumn('notes')];
+
+    it('escapes the headers, the cells and the custom content', () => {
+        const session = createSession();
+
+        session.prepare(columns);
+        session.addCustomContent('Tom & Jerry <script>');
+
+        const groupRow = session.onNewHeaderGroupingRow();
+        groupRow.onColumn('"Details"', 0, 1);
+
+        const headerRow = session.onNewHeaderRow();
+        columns.forEach((column, index) => headerRow.onColumn(column, index, undefined));
+
+        const bodyRow = session.onNewBodyRow();
+        const rowNode = { level: 0, data: { '<b>name</b>': 'O\'Brien & <Sons>', 'notes': 'line 1\nline 2' } } as RowNode;
+        columns.forEach((column, index) => bodyRow.onColumn(column, index, rowNode));
+
+        expect(stripStyles(session.parse()).split('\n')).toStrictEqual([
+            '<p>Tom &amp; Jerry &lt;script&gt;</p>',
+            '<table>',
+            '<thead>',
+            '<tr><th colspan="2">&quot;Details&quot;</th></tr>',
+            '<tr><th>&lt;b&gt;name&lt;/b&gt;</th><th>notes</th></tr>',
+            '</thead>',
+            '<tbody>',
+            '<tr><td>O&#39;Brien &amp; &lt;Sons&gt;</td><td>line 1<br>line 2</td></tr>',
+            '</tbody>',
+            '</table>'
+        ]);
+    });
+});
@@ -0,0 +1,64 @@
+import { Constants, _ } from "@ag-grid-community/core";
+import { RowType } from "../csvExport/gridSerializer";
+import { TableCell, TableRow, TableSerializingParams, TableSerializingSession } from "./tableSerializingSession";
+
+// the styles are inline, as email clients and documents ignore style sheets in pasted HTML
+const TABLE_CSS = 'border-collapse: collapse';
+const CELL_CSS = 'border: 1px solid #babfc7; padding: 2px 6px';
+const HEADER_CSS = 'background-color: #f8f8f8';
+const ROW_GROUP_INDENT = 20;
+
+const escapeText = (text: string): string => {
+    return (_.escapeString(text) || '').replace(/\r?\n/g, '<br>');
+};
+
+export class HtmlSerializingSession extends TableSerializingSession {
+
+    constructor(config: TableSerializingParams) {
+        super(config, Constants.EXPORT_TYPE_HTML);
+    }
+
+    public parse(): string {
+        const { before, rows, after } = this.splitContent();
+        const isHeader = (row: TableRow) => row.type === RowType.HEADER_GROUPING || row.type === RowType.HEADER;
+        const headerRows = rows.filter(isHeader);
+        const bodyRows = rows.filter(row => !isHeader(row));
+        const lines = before.map(text => `<p>${escapeText(text)}</p>`);
+
+        lines.push(`<table style="${TABLE_CSS}">`);
+
+        if (headerRows.length) {
+            lines.push('<thead>', ...headerRows.map(row => this.createRow(row, 'th')), '</thead>');
+        }
+
+        if (bodyRows.length) {
+            lines.push('<tbody>', ...bodyRows.map(row => this.createRow(row, 'td')), '</tbody>');
+        }
+
+        lines.push('</table>', ...after.map(text => `<p>${escapeText(text)}</p>`));
+
+        return lines.join('\n');
+    }
+
+    private createRow(row: TableRow, tagName: 'th' | 'td'): string {
+        return `<tr>${row.cells.map(cell => this.createCell(cell, tagName)).join('')}</tr>`;
+    }
+
+    private createCell(cell: TableCell, tagName: 'th' | 'td'): string {
+        const { style } = cell;
+        const css = [CELL_CSS];
+
+        if (tagName === 'th') { css.push(HEADER_CSS); }
+        if (style.bold != null) { css.push(`font-weight: ${style.bold ? 'bold' : 'normal'}`); }
+        if (style.italic) { css.push('font-style: italic'); }
+        if (style.fontSize) { css.push(`font-size: ${style.fontSize}pt`); }
+        if (style.color) { css.push(`color: ${style.color}`); }
+        if (style.background) { css.push(`background-color: ${style.background}`); }
+        if (style.align) { css.push(`text-align: ${style.align}`); }
+        if (cell.level) { css.push(`padding-left: ${6 + cell.level * ROW_GROUP_INDENT}px`); }
+
+        const colSpan = cell.span ? ` colspan="${cell.span + 1}"` : '';
+
+        return `<${tagName}${colSpan} style="${css.join('; ')}">${escapeText(cell.text)}</${tagName}>`;
+    }
+}
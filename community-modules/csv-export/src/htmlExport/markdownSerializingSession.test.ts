@@ -0,0 +1,49 @@
+import { ColDef, Column, ColumnModel, GridOptionsWrapper, RowNode, ValueService } from '@ag-grid-community/core';
+import { MarkdownSerializingSession } from './markdownSerializingSession';
+
+function createColumn(field: string): Column {
+    return { getColId: () => field, getColDef: (): ColDef => ({ field }) } as Column;
+}
+
+function createSession() {
+    const columnModel = { getDisplayNameForColumn: (column: Column) => column.getColId(), isPivotMode: () => false };
+    const valueService = { getValue: (column: Column, rowNode: RowNode) => rowNode.data[column.getColId()] };
+    const gridOptionsWrapper = { isGroupMultiAutoColumn: () => false, isGroupUseEntireRow: () => false };
+
+    return new MarkdownSerializingSession({
+        columnModel: columnModel as Partial<ColumnModel> as ColumnModel,
+        valueService: valueService as Partial<ValueService> as ValueService,
+        gridOptionsWrapper: gridOptionsWrapper as Partial<GridOptionsWrapper> as GridOptionsWrapper,
+        baseExcelStyles: [],
+        styleLinker: () => null
+    });
+}
+
+describe('parse', () => {
+    const columns = [createColumn('a|b'), createColumn('path')];
+
+    it('escapes pipes, backslashes and line breaks in the headers, cells and custom content', () => {
+        const session = createSession();
+
+        session.prepare(columns);
+        session.addCustomContent('C:\\exports | today');
+
+        const groupRow = session.onNewHeaderGroupingRow();
+        groupRow.onColumn('Either|Or', 0, 1);
+
+        const headerRow = session.onNewHeaderRow();
+        columns.forEach((column, index) => headerRow.onColumn(column, index, undefined));
+
+        const bodyRow = session.onNewBodyRow();
+        const rowNode = { level: 0, data: { 'a|b': 'yes|no', 'path': 'C:\\temp\nD:\\' } } as RowNode;
+        columns.forEach((column, index) => bodyRow.onColumn(column, index, rowNode));
+
+        expect(session.parse()).toBe([
+            'C:\\\\exports \\| today',
+            '',
+            '| Either\\|Or / a\\|b | Either\\|Or / path |',
+            '| --- | --- |',
+            '| yes\\|no | C:\\\\temp<br>D:\\\\ |'
+        ].join('\n'));
+    });
+});
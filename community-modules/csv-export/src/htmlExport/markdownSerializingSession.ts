@@ -0,0 +1,99 @@
+import { Constants } from "@ag-grid-community/core";
+import { RowType } from "../csvExport/gridSerializer";
+import { TableCell, TableRow, TableSerializingParams, TableSerializingSession } from "./tableSerializingSession";
+
+// em spaces, as Markdown collapses ordinary spaces
+const ROW_GROUP_INDENT = '\u2003\u2003';
+
+const escapeText = (text: string): string => {
+    return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+};
+
+/**
+ * Markdown tables have a single header row and no cells spanning columns, so the names of the column groups are
+ * written in the header of each of their columns, and custom content between rows goes in the first cell.
+ */
+export class MarkdownSerializingSession extends TableSerializingSession {
+
+    constructor(config: TableSerializingParams) {
+        super(config, Constants.EXPORT_TYPE_MARKDOWN);
+    }
+
+    public parse(): string {
+        const { before, rows, after } = this.splitContent();
+        const bodyRows = rows.filter(row => row.type === RowType.BODY || row.type === 'content');
+        const lines = [
+            this.createLine(this.getHeaders(rows)),
+            this.createLine(this.getSeparators(bodyRows)),
+            ...bodyRows.map(row => this.createLine(this.getCellTexts(row)))
+        ];
+        const paragraphs = [...before.map(escapeText), lines.join('\n'), ...after.map(escapeText)];
+
+        return paragraphs.join('\n\n');
+    }
+
+    private getHeaders(rows: TableRow[]): string[] {
+        const headers: string[][] = [];
+
+        for (let i = 0; i < this.columnCount; i++) { headers.push([]); }
+
+        rows.forEach(row => {
+            if (row.type !== RowType.HEADER_GROUPING && row.type !== RowType.HEADER) { return; }
+
+            row.cells.forEach(cell => {
+                if (!cell.text) { return; }
+
+                for (let i = cell.columnIndex; i <= cell.columnIndex + cell.span && i < this.columnCount; i++) {
+                    headers[i].push(escapeText(cell.text));
+                }
+            });
+        });
+
+        return headers.map(names => names.join(' / '));
+    }
+
+    /** A column is aligned when all of its cells are aligned the same way */
+    private getSeparators(bodyRows: TableRow[]): string[] {
+        const separators: string[] = [];
+
+        for (let i = 0; i < this.columnCount; i++) {
+            const alignments = bodyRows
+                .filter(row => row.type === RowType.BODY && row.cells[i])
+                .map(row => row.cells[i].style.align || 'left');
+            const align = alignments.length && alignments.every(a => a === alignments[0]) ? alignments[0] : 'left';
+
+            separators.push(align === 'right' ? '---:' : align === 'center' ? ':---:' : '---');
+        }
+
+        return separators;
+    }
+
+    private getCellTexts(row: TableRow): string[] {
+        const texts: string[] = [];
+
+        for (let i = 0; i < this.columnCount; i++) { texts.push(''); }
+
+        row.cells.forEach(cell => {
+            if (cell.columnIndex < this.columnCount) {
+                texts[cell.columnIndex] = this.getCellText(cell);
+            }
+        });
+
+        return texts;
+    }
+
+    private getCellText(cell: TableCell): string {
+        let text = escapeText(cell.text);
+
+        if (text && cell.style.italic) { text = `_${text}_`; }
+        if (text && cell.style.bold) { text = `**${text}**`; }
+
+        for (let i = 0; i < cell.level; i++) { text = ROW_GROUP_INDENT + text; }
+
+        return text;
+    }
+
+    private createLine(cells: string[]): string {
+        return `| ${cells.join(' | ')} |`;
+    }
+}
@@ -0,0 +1,178 @@
+import { Column, ExcelStyle, HtmlExportParams, RowNode } from "@ag-grid-community/core";
+import { GridSerializingParams, RowAccumulator, RowSpanningAccumulator } from "../csvExport/interfaces";
+import { BaseGridSerializingSession } from "../csvExport/sessions/baseGridSerializingSession";
+import { RowType } from "../csvExport/gridSerializer";
+
+export interface TableSerializingParams extends GridSerializingParams, HtmlExportParams {
+    baseExcelStyles: ExcelStyle[];
+    styleLinker: (rowType: RowType, rowIndex: number, value: string, column: Column, node: RowNode | null) => string[] | null;
+}
+
+/** Only what the excel styles set explicitly, colours are '#rrggbb' */
+export interface TableCellStyle {
+    bold?: boolean;
+    italic?: boolean;
+    color?: string;
+    background?: string;
+    fontSize?: number;
+    align?: 'left' | 'center' | 'right';
+}
+
+export interface TableCell {
+    text: string;
+    columnIndex: number;
+    /** The number of columns after the first one the cell covers */
+    span: number;
+    /** The row group level of the row, for the first cell of body rows */
+    level: number;
+    style: TableCellStyle;
+}
+
+export interface TableRow {
+    /** Custom content is a single cell across the whole table */
+    type: RowType | 'content';
+    cells: TableCell[];
+}
+
+const COLOR_REGEX = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Collects the rows of the export as cells, for the sessions that write tables to lay out once every row is known.
+ */
+export abstract class TableSerializingSession extends BaseGridSerializingSession<string> {
+
+    protected readonly rows: TableRow[] = [];
+    protected columnCount = 0;
+
+    private readonly config: TableSerializingParams;
+    private readonly exportType: string;
+    private readonly stylesById: { [id: string]: ExcelStyle } = {};
+    private rowIndex = 0;
+
+    constructor(config: TableSerializingParams, exportType: string) {
+        super(config);
+
+        this.config = config;
+        this.exportType = exportType;
+        config.baseExcelStyles.forEach(style => this.stylesById[style.id] = style);
+    }
+
+    public prepare(columnsToExport: Column[]): void {
+        super.prepare(columnsToExport);
+        this.columnCount = columnsToExport.length;
+    }
+
+    public addCustomContent(content: string): void {
+        if (!content) { return; }
+
+        this.rows.push({
+            type: 'content',
+            cells: [{ text: content, columnIndex: 0, span: Math.max(this.columnCount - 1, 0), level: 0, style: {} }]
+        });
+    }
+
+    public onNewHeaderGroupingRow(): RowSpanningAccumulator {
+        const row = this.addRow(RowType.HEADER_GROUPING);
+
+        return {
+            onColumn: (header: string, index: number, span: number) => {
+                const styleIds = this.config.styleLinker(RowType.HEADER_GROUPING, 1, header, null!, null);
+
+                row.cells.push({ text: header, columnIndex: index, span, level: 0, style: this.getStyle(styleIds) });
+            }
+        };
+    }
+
+    public onNewHeaderRow(): RowAccumulator {
+        const row = this.addRow(RowType.HEADER);
+
+        return {
+            onColumn: (column: Column, index: number) => {
+                const text = this.extractHeaderValue(column);
+                const styleIds = this.config.styleLinker(RowType.HEADER, 1, text, column, null);
+
+                row.cells.push({ text, columnIndex: index, span: 0, level: 0, style: this.getStyle(styleIds) });
+            }
+        };
+    }
+
+    public onNewBodyRow(): RowAccumulator {
+        const row = this.addRow(RowType.BODY);
+        const rowIndex = this.rowIndex++;
+
+        return {
+            onColumn: (column: Column, index: number, node: RowNode) => {
+                const value = this.extractRowCellValue(column, index, rowIndex, this.exportType, node);
+                const styleIds = this.config.styleLinker(RowType.BODY, rowIndex, value, column, node);
+
+                row.cells.push({
+                    text: value != null ? value.toString() : '',
+                    columnIndex: index,
+                    span: 0,
+                    level: index === 0 ? Math.max(node.level, 0) : 0,
+                    style: this.getStyle(styleIds)
+                });
+            }
+        };
+    }
+
+    /**
+     * Custom content before the first row or after the last row of the table, such as prependContent and
+     * appendContent, is written outside of the table.
+     */
+    protected splitContent(): { before: string[], rows: TableRow[], after: string[] } {
+        const isContent = (row: TableRow) => row.type === 'content';
+        let start = 0;
+        let end = this.rows.length;
+
+        while (start < end && isContent(this.rows[start])) { start++; }
+        while (end > start && isContent(this.rows[end - 1])) { end--; }
+
+        const getText = (row: TableRow) => row.cells[0].text;
+
+        return {
+            before: this.rows.slice(0, start).map(getText),
+            rows: this.rows.slice(start, end),
+            after: this.rows.slice(end).map(getText)
+        };
+    }
+
+    private addRow(type: RowType): TableRow {
+        const row: TableRow = { type, cells: [] };
+
+        this.rows.push(row);
+
+        return row;
+    }
+
+    /** The excel styles are applied in order, so later styles override earlier ones */
+    private getStyle(styleIds: string[] | null): TableCellStyle {
+        const style: TableCellStyle = {};
+
+        (styleIds || []).forEach(id => {
+            const excelStyle = this.stylesById[id];
+
+            if (!excelStyle) { return; }
+
+            const { font, interior, alignment } = excelStyle;
+
+            if (font) {
+                if (font.bold != null) { style.bold = font.bold; }
+                if (font.italic != null) { style.italic = font.italic; }
+                if (font.size != null) { style.fontSize = font.size; }
+                if (font.color && COLOR_REGEX.test(font.color)) { style.color = font.color; }
+            }
+
+            if (interior && interior.pattern !== 'None' && interior.color && COLOR_REGEX.test(interior.color)) {
+                style.background = interior.color;
+            }
+
+            if (alignment && alignment.horizontal) {
+                const horizontal = alignment.horizontal;
+                style.align = horizontal === 'Right' ? 'right' : horizontal === 'Center' ? 'center' : 'left';
+            }
+        });
+
+        return style;
+    }
+}
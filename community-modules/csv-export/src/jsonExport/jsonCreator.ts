@@ -0,0 +1,89 @@
+import {
+    Autowired,
+    Bean,
+    ColumnModel,
+    GridOptionsWrapper,
+    IJsonCreator,
+    JsonExportParams,
+    PostConstruct,
+    RowNode,
+    ValueService
+} from "@ag-grid-community/core";
+import { BaseCreator } from "../csvExport/baseCreator";
+import { Downloader } from "../csvExport/downloader";
+import { GridSerializer } from "../csvExport/gridSerializer";
+import { JsonSerializingSession } from "./jsonSerializingSession";
+
+@Bean('jsonCreator')
+export class JsonCreator extends BaseCreator<never, JsonSerializingSession, JsonExportParams> implements IJsonCreator {
+
+    @Autowired('columnModel') private columnModel: ColumnModel;
+    @Autowired('valueService') private valueService: ValueService;
+    @Autowired('gridSerializer') private gridSerializer: GridSerializer;
+    @Autowired('gridOptionsWrapper') gridOptionsWrapper: GridOptionsWrapper;
+
+    @PostConstruct
+    public postConstruct(): void {
+        this.setBeans({
+            gridSerializer: this.gridSerializer,
+            gridOptionsWrapper: this.gridOptionsWrapper
+        });
+    }
+
+    protected getDefaultExportParams(): JsonExportParams | undefined {
+        return this.gridOptionsWrapper.getDefaultExportParams('json');
+    }
+
+    public export(userParams?: JsonExportParams, rows?: RowNode[]): string {
+        if (this.isExportSuppressed()) {
+            console.warn(`ag-grid: Export cancelled. Export is not allowed as per your configuration.`);
+            return '';
+        }
+
+        const { mergedParams, data } = this.getMergedParamsAndData(userParams, rows);
+        const isNdjson = mergedParams.format === 'ndjson';
+        const fileName = mergedParams.fileName || (isNdjson ? 'export.ndjson' : undefined);
+        const packagedFile = new Blob([data], {
+            type: isNdjson ? 'application/x-ndjson' : this.getMimeType()
+        });
+
+        Downloader.download(this.getFileName(fileName), packagedFile);
+
+        return data;
+    }
+
+    public exportDataAsJson(params?: JsonExportParams): void {
+        this.export(params);
+    }
+
+    public getDataAsJson(params?: JsonExportParams): string {
+        return this.getMergedParamsAndData(params).data;
+    }
+
+    public getMimeType(): string {
+        return 'application/json';
+    }
+
+    public getDefaultFileName(): string {
+        return 'export.json';
+    }
+
+    public getDefaultFileExtension(): string {
+        return 'json';
+    }
+
+    public createSerializingSession(params: JsonExportParams): JsonSerializingSession {
+        const { columnModel, valueService, gridOptionsWrapper } = this;
+
+        return new JsonSerializingSession({
+            ...params,
+            columnModel,
+            valueService,
+            gridOptionsWrapper
+        });
+    }
+
+    public isExportSuppressed(): boolean {
+        return this.gridOptionsWrapper.isSuppressJsonExport();
+    }
+}
@@ -0,0 +1,114 @@
+import { ColDef, Column, ColumnModel, GridOptionsWrapper, ProcessCellForExportParams, RowNode, ValueService } from '@ag-grid-community/core';
+import { JsonSerializingParams, JsonSerializingSession } from './jsonSerializingSession';
+
+function createColumn(field: string): Column {
+    return { getColId: () => field, getColDef: (): ColDef => ({ field }) } as Column;
+}
+
+function createRowNode(id: string, data: any, parent: RowNode | null, group = false): RowNode {
+    return { id, data, parent, group, level: parent ? parent.level + 1 : 0 } as Partial<RowNode> as RowNode;
+}
+
+function serialize(rowNodes: RowNode[], params: Partial<JsonSerializingParams> = {}): string {
+    const columns = [createColumn('country'), createColumn('gold')];
+    const valueService = { getValue: (column: Column, rowNode: RowNode) => rowNode.data[column.getColId()] };
+    const gridOptionsWrapper = { getApi: (): null => null, getColumnApi: (): null => null, getContext: (): null => null };
+    const session = new JsonSerializingSession({
+        columnModel: null as any as ColumnModel,
+        valueService: valueService as Partial<ValueService> as ValueService,
+        gridOptionsWrapper: gridOptionsWrapper as Partial<GridOptionsWrapper> as GridOptionsWrapper,
+        ...params
+    });
+
+    session.prepare(columns);
+    rowNodes.forEach(rowNode => {
+        const row = session.onNewBodyRow();
+        columns.forEach((column, index) => row.onColumn(column, index, rowNode));
+    });
+
+    return session.parse();
+}
+
+describe('parse', () => {
+    // Europe > Ireland > a, b and Europe > France > c, then Asia > d
+    const europe = createRowNode('row-group-0', { country: 'Europe', gold: 6 }, null, true);
+    const ireland = createRowNode('row-group-0-0', { country: 'Ireland', gold: 3 }, europe, true);
+    const a = createRowNode('a', { country: 'Ireland', gold: 1 }, ireland);
+    const b = createRowNode('b', { country: 'Ireland', gold: 2 }, ireland);
+    const france = createRowNode('row-group-0-1', { country: 'France', gold: 3 }, europe, true);
+    const c = createRowNode('c', { country: 'France', gold: 3 }, france);
+    const asia = createRowNode('row-group-1', { country: 'Asia', gold: null }, null, true);
+    const d = createRowNode('d', { country: 'Japan', gold: 4 }, asia);
+
+    it('nests the rows of each group in its children', () => {
+        const json = JSON.parse(serialize([europe, ireland, a, b, france, c, asia, d], { format: 'nested' }));
+
+        expect(json).toEqual([
+            {
+                country: 'Europe', gold: 6, children: [
+                    {
+                        country: 'Ireland', gold: 3, children: [
+                            { country: 'Ireland', gold: 1 },
+                            { country: 'Ireland', gold: 2 }
+                        ]
+                    },
+                    { country: 'France', gold: 3, children: [{ country: 'France', gold: 3 }] }
+                ]
+            },
+            { country: 'Asia', gold: null, children: [{ country: 'Japan', gold: 4 }] }
+        ]);
+    });
+
+    it('nests the rows of skipped groups in the nearest group that was exported', () => {
+        const json = JSON.parse(serialize([europe, a, b, c, d], { format: 'nested' }));
+
+        expect(json).toEqual([
+            {
+                country: 'Europe', gold: 6, children: [
+                    { country: 'Ireland', gold: 1 },
+                    { country: 'Ireland', gold: 2 },
+                    { country: 'France', gold: 3 }
+                ]
+            },
+            { country: 'Japan', gold: 4 }
+        ]);
+    });
+
+    it('writes the groups as flat rows for the other formats', () => {
+        expect(JSON.parse(serialize([europe, ireland, a]))).toEqual([
+            { country: 'Europe', gold: 6 },
+            { country: 'Ireland', gold: 3 },
+            { country: 'Ireland', gold: 1 }
+        ]);
+
+        expect(serialize([europe, a], { format: 'ndjson' })).toBe('{"country":"Europe","gold":6}\n{"country":"Ireland","gold":1}');
+    });
+
+    it('writes bigints as strings of their digits', () => {
+        const rowNode = createRowNode('a', { country: 'Ireland', gold: BigInt('9007199254740993') }, null);
+
+        expect(serialize([rowNode])).toBe('[{"country":"Ireland","gold":"9007199254740993"}]');
+        const processCellCallback = (params: ProcessCellForExportParams) =>
+            typeof params.value === 'bigint' ? params.value * BigInt(2) : params.value;
+
+        expect(serialize([rowNode], { processCellCallback }))
+            .toBe('[{"country":"Ireland","gold":"18014398509481986"}]');
+    });
+
+    it('writes the objects of the avg and count agg funcs as their values', () => {
+        const avg = { count: 2, value: 1.5, toString: () => '1.5', toNumber: () => 1.5 };
+        const bigAvg = { count: 2, value: BigInt(3), toString: () => '3', toNumber: () => BigInt(3) };
+        const emptyAvg = { count: 0, value: null, toString: () => '', toNumber: (): null => null };
+        const count = { value: 2, toString: () => '2', toNumber: () => 2 };
+
+        expect(JSON.parse(serialize([
+            createRowNode('a', { country: count, gold: avg }, null, true),
+            createRowNode('b', { country: 'Ireland', gold: bigAvg }, null, true),
+            createRowNode('c', { country: 'France', gold: emptyAvg }, null, true)
+        ]))).toEqual([
+            { country: 2, gold: 1.5 },
+            { country: 'Ireland', gold: '3' },
+            { country: 'France', gold: null }
+        ]);
+    });
+});
@@ -0,0 +1,132 @@
+import { Column, Constants, JsonExportParams, RowNode, _ } from "@ag-grid-community/core";
+import { GridSerializingParams, RowAccumulator, RowSpanningAccumulator } from "../csvExport/interfaces";
+import { BaseGridSerializingSession } from "../csvExport/sessions/baseGridSerializingSession";
+
+export interface JsonSerializingParams extends GridSerializingParams, JsonExportParams { }
+
+interface JsonRow {
+    values: { [colId: string]: any; };
+    children?: JsonRow[];
+}
+
+// the headers aren't part of the JSON
+const IGNORED_ROW = { onColumn: () => undefined };
+
+/**
+ * The avg and count agg funcs return objects, which are written as the values they show. JSON has no bigints, and
+ * numbers past 2^53 lose their precision when parsed, so bigints are written as strings of their digits.
+ */
+function toJsonValue(value: any): any {
+    if (value == null) { return null; }
+
+    if (typeof value === 'object' && typeof value.toNumber === 'function') { return toJsonValue(value.toNumber()); }
+
+    return typeof value === 'bigint' ? value.toString() : value;
+}
+
+export class JsonSerializingSession extends BaseGridSerializingSession<never> {
+
+    private readonly format: 'rows' | 'nested' | 'ndjson';
+    private readonly space: number | undefined;
+    private readonly rows: JsonRow[] = [];
+    private readonly rowsByNodeId: { [id: string]: JsonRow; } = {};
+    private rowIndex = 0;
+
+    constructor(config: JsonSerializingParams) {
+        super(config);
+
+        this.format = config.format || 'rows';
+        this.space = config.space;
+    }
+
+    public addCustomContent(): void {
+        // custom content can't be added to JSON
+    }
+
+    public onNewHeaderGroupingRow(): RowSpanningAccumulator {
+        return IGNORED_ROW;
+    }
+
+    public onNewHeaderRow(): RowAccumulator {
+        return IGNORED_ROW;
+    }
+
+    public onNewBodyRow(): RowAccumulator {
+        const rowIndex = this.rowIndex++;
+        let row: JsonRow | undefined;
+
+        return {
+            onColumn: (column: Column, index: number, node: RowNode) => {
+                if (!row) {
+                    row = this.addRow(node);
+                }
+
+                row.values[column.getColId()] = this.extractTypedValue(column, rowIndex, node);
+            }
+        };
+    }
+
+    public parse(): string {
+        const values = this.rows.map(row => this.toJson(row));
+
+        if (this.format === 'ndjson') {
+            return values.map(value => JSON.stringify(value)).join('\n');
+        }
+
+        return JSON.stringify(values, null, this.space);
+    }
+
+    /**
+     * Values keep their types rather than being turned into text. Group rows have their key in the group column, and
+     * their aggregated values in the value columns.
+     */
+    private extractTypedValue(column: Column, rowIndex: number, node: RowNode): any {
+        const value = this.valueService.getValue(column, node);
+
+        if (this.processCellCallback) {
+            return toJsonValue(this.processCell(rowIndex, node, column, value, this.processCellCallback, Constants.EXPORT_TYPE_JSON));
+        }
+
+        return toJsonValue(value);
+    }
+
+    private addRow(node: RowNode): JsonRow {
+        const row: JsonRow = { values: {} };
+        const parentRow = this.format === 'nested' ? this.findParentRow(node) : undefined;
+
+        if (this.format === 'nested' && node.group) {
+            row.children = [];
+        }
+
+        if (node.id != null) {
+            this.rowsByNodeId[node.id] = row;
+        }
+
+        if (parentRow) {
+            parentRow.children!.push(row);
+        } else {
+            this.rows.push(row);
+        }
+
+        return row;
+    }
+
+    /** When group rows are skipped, rows go in the nearest group that was exported, or at the top level */
+    private findParentRow(node: RowNode): JsonRow | undefined {
+        let parent = node.parent;
+
+        while (parent) {
+            const parentRow = parent.id != null ? this.rowsByNodeId[parent.id] : undefined;
+
+            if (parentRow && parentRow.children) { return parentRow; }
+
+            parent = parent.parent;
+        }
+    }
+
+    private toJson(row: JsonRow): any {
+        if (!row.children) { return row.values; }
+
+        return _.assign({}, row.values, { children: row.children.map(child => this.toJson(child)) });
+    }
+}
@@ -4,6 +4,11 @@ export { CsvCreator } from './csvExport/csvCreator';
 export { CsvExportModule } from './csvExportModule';
 export { Downloader } from './csvExport/downloader';
 export { GridSerializer, RowType } from './csvExport/gridSerializer';
+export { GridImporter } from './csvExport/gridImporter';
+export { ServerSideRowLoader } from './csvExport/serverSideRowLoader';
 export { RowSpanningAccumulator, GridSerializingParams, RowAccumulator } from './csvExport/interfaces';
 export { XmlFactory } from './csvExport/xmlFactory';
 export { ZipContainer } from './csvExport/zipContainer';
+export { PdfCreator } from './pdfExport/pdfCreator';
+export { JsonCreator } from './jsonExport/jsonCreator';
+export { HtmlCreator } from './htmlExport/htmlCreator';
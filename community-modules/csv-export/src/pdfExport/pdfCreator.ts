@@ -0,0 +1,134 @@
+import {
+    Autowired,
+    Bean,
+    Column,
+    ColumnModel,
+    ExcelStyle,
+    GridOptions,
+    GridOptionsWrapper,
+    IPdfCreator,
+    PdfExportParams,
+    PostConstruct,
+    RowNode,
+    StylingService,
+    ValueService
+} from "@ag-grid-community/core";
+import { BaseCreator } from "../csvExport/baseCreator";
+import { Downloader } from "../csvExport/downloader";
+import { GridSerializer, RowType } from "../csvExport/gridSerializer";
+import { PdfSerializingSession } from "./pdfSerializingSession";
+
+@Bean('pdfCreator')
+export class PdfCreator extends BaseCreator<string, PdfSerializingSession, PdfExportParams> implements IPdfCreator {
+
+    @Autowired('columnModel') private columnModel: ColumnModel;
+    @Autowired('valueService') private valueService: ValueService;
+    @Autowired('gridOptions') private gridOptions: GridOptions;
+    @Autowired('stylingService') private stylingService: StylingService;
+    @Autowired('gridSerializer') private gridSerializer: GridSerializer;
+    @Autowired('gridOptionsWrapper') gridOptionsWrapper: GridOptionsWrapper;
+
+    @PostConstruct
+    public postConstruct(): void {
+        this.setBeans({
+            gridSerializer: this.gridSerializer,
+            gridOptionsWrapper: this.gridOptionsWrapper
+        });
+    }
+
+    protected getDefaultExportParams(): PdfExportParams | undefined {
+        return this.gridOptionsWrapper.getDefaultExportParams('pdf');
+    }
+
+    public export(userParams?: PdfExportParams, rows?: RowNode[]): string {
+        if (this.isExportSuppressed()) {
+            console.warn(`ag-grid: Export cancelled. Export is not allowed as per your configuration.`);
+            return '';
+        }
+
+        const { mergedParams, data } = this.getMergedParamsAndData(userParams, rows);
+
+        Downloader.download(this.getFileName(mergedParams.fileName), this.packageFile(data));
+
+        return data;
+    }
+
+    public exportDataAsPdf(params?: PdfExportParams): void {
+        this.export(params);
+    }
+
+    public getDataAsPdf(params?: PdfExportParams): Blob {
+        return this.packageFile(this.getMergedParamsAndData(params).data);
+    }
+
+    public getMimeType(): string {
+        return 'application/pdf';
+    }
+
+    public getDefaultFileName(): string {
+        return 'export.pdf';
+    }
+
+    public getDefaultFileExtension(): string {
+        return 'pdf';
+    }
+
+    public createSerializingSession(params: PdfExportParams): PdfSerializingSession {
+        const { columnModel, valueService, gridOptionsWrapper } = this;
+
+        return new PdfSerializingSession({
+            ...params,
+            columnModel,
+            valueService,
+            gridOptionsWrapper,
+            baseExcelStyles: this.gridOptions.excelStyles || [],
+            styleLinker: this.styleLinker.bind(this)
+        });
+    }
+
+    public isExportSuppressed(): boolean {
+        return this.gridOptionsWrapper.isSuppressPdfExport();
+    }
+
+    /** The PDF only has ASCII characters, so the text converts to the same bytes */
+    private packageFile(data: string): Blob {
+        return new Blob([data], { type: this.getMimeType() });
+    }
+
+    /** The same styles as the Excel export, the excelStyles that match the cell classes of each cell */
+    private styleLinker(rowType: RowType, rowIndex: number, value: string, column: Column, node: RowNode | null): string[] | null {
+        if (rowType === RowType.HEADER) { return ["header"]; }
+        if (rowType === RowType.HEADER_GROUPING) { return ["header", "headerGroup"]; }
+
+        const styles = this.gridOptions.excelStyles;
+        const applicableStyles: string[] = ["cell"];
+
+        if (!styles || !styles.length || !node) { return applicableStyles; }
+
+        const styleIds: string[] = styles.map((it: ExcelStyle) => it.id);
+
+        this.stylingService.processAllCellClasses(
+            column.getColDef(),
+            {
+                value: value,
+                data: node.data,
+                node: node,
+                colDef: column.getColDef(),
+                rowIndex: rowIndex,
+                api: this.gridOptionsWrapper.getApi()!,
+                columnApi: this.gridOptionsWrapper.getColumnApi()!,
+                $scope: null,
+                context: this.gridOptionsWrapper.getContext()
+            },
+            (className: string) => {
+                if (styleIds.indexOf(className) > -1) {
+                    applicableStyles.push(className);
+                }
+            }
+        );
+
+        return applicableStyles.sort((left: string, right: string): number => {
+            return (styleIds.indexOf(left) < styleIds.indexOf(right)) ? -1 : 1;
+        });
+    }
+}
@@ -0,0 +1,93 @@
+import { PdfDocument } from './pdfDocument';
+
+function getXrefOffsets(pdf: string): number[] {
+    const xref = pdf.substr(pdf.lastIndexOf('\nxref\n'));
+
+    return xref.split('\n').filter(line => / 00000 n $/.test(line)).map(line => parseInt(line, 10));
+}
+
+function getTextOperands(pdf: string): string[] {
+    const operands: string[] = [];
+
+    pdf.split('\n').forEach(line => {
+        if (/ Tj$/.test(line)) {
+            operands.push(line.substr(0, line.length - 3));
+        }
+    });
+
+    return operands;
+}
+
+describe('build', () => {
+    it('points the cross-reference table at each object', () => {
+        const document = new PdfDocument(595.28, 841.89);
+
+        document.drawText('Page one', 36, 800, 'regular', 9, [0, 0, 0]);
+        document.addPage();
+        document.drawRect(36, 700, 100, 18, [1, 0, 0], [0, 0, 0]);
+        document.drawText('Page two', 36, 800, 'bold', 9, [0, 0, 0]);
+
+        const pdf = document.build();
+        const offsets = getXrefOffsets(pdf);
+
+        // the catalog, the page tree, four fonts, then two pages with their content
+        expect(offsets.length).toBe(10);
+        offsets.forEach((offset, index) => {
+            expect(pdf.substr(offset, `${index + 1} 0 obj\n`.length)).toBe(`${index + 1} 0 obj\n`);
+        });
+
+        const startXref = parseInt(pdf.substr(pdf.lastIndexOf('startxref\n') + 'startxref\n'.length), 10);
+
+        expect(pdf.substr(startXref, 5)).toBe('xref\n');
+        expect(pdf).toContain('/Size 11 /Root 1 0 R');
+        expect(pdf).toContain('/Kids [7 0 R 9 0 R] /Count 2');
+    });
+
+    it('gives the length of each content stream', () => {
+        const document = new PdfDocument(100, 100);
+
+        document.drawText('Total', 10, 10, 'regular', 9, [0, 0, 0]);
+
+        const pdf = document.build();
+        const match = /<< \/Length (\d+) >>\nstream\n/.exec(pdf)!;
+        const start = match.index + match[0].length;
+
+        expect(pdf.substr(start + parseInt(match[1], 10), '\nendstream'.length)).toBe('\nendstream');
+    });
+});
+
+describe('drawText', () => {
+    it('escapes parentheses and backslashes', () => {
+        const document = new PdfDocument(100, 100);
+
+        document.drawText('a(b)c\\d', 10, 10, 'regular', 9, [0, 0, 0]);
+
+        expect(getTextOperands(document.build())).toStrictEqual(['(a\\(b\\)c\\\\d)']);
+    });
+
+    it('writes the WinAnsi codes of characters outside ASCII as octal escapes', () => {
+        const document = new PdfDocument(100, 100);
+
+        document.drawText('Café €5 – ok', 10, 10, 'regular', 9, [0, 0, 0]);
+
+        const pdf = document.build();
+
+        expect(getTextOperands(pdf)).toStrictEqual(['(Caf\\351 \\2005 \\226 ok)']);
+        expect(/^[\x00-\x7f]*$/.test(pdf)).toBe(true);
+    });
+
+    it('replaces characters the standard fonts cannot show with question marks', () => {
+        const document = new PdfDocument(100, 100);
+
+        document.drawText('東京 ✓', 10, 10, 'regular', 9, [0, 0, 0]);
+
+        expect(getTextOperands(document.build())).toStrictEqual(['(?? ?)']);
+    });
+});
+
+describe('measureText', () => {
+    it('measures text with the widths of the font', () => {
+        expect(PdfDocument.measureText('Hi', 'regular', 10)).toBeCloseTo(9.44);
+        expect(PdfDocument.measureText('Hi', 'bold', 10)).toBeCloseTo(10);
+    });
+});
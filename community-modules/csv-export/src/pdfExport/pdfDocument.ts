@@ -0,0 +1,198 @@
+export type PdfFont = 'regular' | 'bold' | 'italic' | 'boldItalic';
+
+/** Red, green and blue from 0 to 1 */
+export type PdfColor = [number, number, number];
+
+// the standard 14 fonts every PDF reader has, so no font has to be embedded in the file
+const FONT_NAMES: { [font in PdfFont]: string } = {
+    regular: 'Helvetica',
+    bold: 'Helvetica-Bold',
+    italic: 'Helvetica-Oblique',
+    boldItalic: 'Helvetica-BoldOblique'
+};
+
+const FONT_RESOURCES: { [font in PdfFont]: string } = {
+    regular: 'F1',
+    bold: 'F2',
+    italic: 'F3',
+    boldItalic: 'F4'
+};
+
+// widths of the characters 32 to 126 in thousandths of the font size, from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+    556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+    722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+    556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+    260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+    556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+    722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+    556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+    280, 389, 584
+];
+
+// the characters of the WinAnsi encoding that aren't at their unicode position
+const WIN_ANSI_CODES: { [char: string]: number } = {
+    '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87,
+    'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91,
+    '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98,
+    '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+const formatNumber = (value: number): string => {
+    return (Math.round(value * 100) / 100).toString();
+};
+
+const formatColor = (color: PdfColor): string => color.map(formatNumber).join(' ');
+
+/** Characters the standard fonts can't show are replaced with question marks */
+const toWinAnsi = (text: string): number[] => {
+    const codes: number[] = [];
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text.charAt(i);
+        const code = text.charCodeAt(i);
+
+        if ((code >= 32 && code < 127) || (code >= 160 && code <= 255)) {
+            codes.push(code);
+        } else if (WIN_ANSI_CODES[char] != null) {
+            codes.push(WIN_ANSI_CODES[char]);
+        } else {
+            codes.push(63);
+        }
+    }
+
+    return codes;
+};
+
+/** Writes the text as a PDF string, with everything outside ASCII escaped so the whole file stays ASCII */
+const toPdfString = (text: string): string => {
+    return '(' + toWinAnsi(text).map(code => {
+        if (code === 40 || code === 41 || code === 92) { return '\\' + String.fromCharCode(code); }
+        if (code > 126) { return '\\' + code.toString(8); }
+        return String.fromCharCode(code);
+    }).join('') + ')';
+};
+
+/**
+ * A minimal PDF writer with text and filled or stroked rectangles, which is all a table needs. The content
+ * of the pages isn't compressed, which keeps the writer small.
+ */
+export class PdfDocument {
+
+    private readonly pages: string[][] = [];
+    private currentPage = -1;
+
+    constructor(public readonly width: number, public readonly height: number) {}
+
+    public static measureText(text: string, font: PdfFont, size: number): number {
+        const widths = font === 'bold' || font === 'boldItalic' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+        let width = 0;
+
+        toWinAnsi(text).forEach(code => {
+            width += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+        });
+
+        return width * size / 1000;
+    }
+
+    /** Adds a page, which is drawn on until another page is added or selected */
+    public addPage(): void {
+        this.pages.push([]);
+        this.currentPage = this.pages.length - 1;
+    }
+
+    public selectPage(index: number): void {
+        this.currentPage = index;
+    }
+
+    public getPageCount(): number {
+        return this.pages.length;
+    }
+
+    /** The origin is the bottom left of the page, as in the PDF itself */
+    public drawRect(x: number, y: number, width: number, height: number, fill?: PdfColor, stroke?: PdfColor): void {
+        if (!fill && !stroke) { return; }
+
+        const rect = [x, y, width, height].map(formatNumber).join(' ');
+        const ops: string[] = ['q'];
+
+        if (fill) { ops.push(`${formatColor(fill)} rg`); }
+        if (stroke) { ops.push(`${formatColor(stroke)} RG 0.5 w`); }
+
+        ops.push(`${rect} re ${fill && stroke ? 'B' : fill ? 'f' : 'S'}`, 'Q');
+
+        this.write(ops.join('\n'));
+    }
+
+    /** The y is the baseline of the text */
+    public drawText(text: string, x: number, y: number, font: PdfFont, size: number, color: PdfColor): void {
+        if (!text) { return; }
+
+        this.write([
+            'BT',
+            `/${FONT_RESOURCES[font]} ${formatNumber(size)} Tf`,
+            `${formatColor(color)} rg`,
+            `${formatNumber(x)} ${formatNumber(y)} Td`,
+            `${toPdfString(text)} Tj`,
+            'ET'
+        ].join('\n'));
+    }
+
+    public build(): string {
+        const objects: string[] = [];
+        const fonts = Object.keys(FONT_NAMES) as PdfFont[];
+        // objects 1 and 2 are the catalog and the page tree, followed by the fonts then a page and its content each
+        const firstFont = 3;
+        const firstPage = firstFont + fonts.length;
+        const pageIds = this.pages.map((page, index) => firstPage + index * 2);
+        const fontResources = fonts.map((font, index) => `/${FONT_RESOURCES[font]} ${firstFont + index} 0 R`).join(' ');
+
+        objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+        objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+
+        fonts.forEach(font => {
+            objects.push(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`);
+        });
+
+        this.pages.forEach((page, index) => {
+            const content = page.join('\n');
+
+            objects.push(
+                `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(this.width)} ${formatNumber(this.height)}] ` +
+                `/Resources << /Font << ${fontResources} >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+            );
+            objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+        });
+
+        let result = '%PDF-1.4\n';
+        const offsets: number[] = [];
+
+        objects.forEach((object, index) => {
+            offsets.push(result.length);
+            result += `${index + 1} 0 obj\n${object}\nendobj\n`;
+        });
+
+        const xrefOffset = result.length;
+
+        result += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+        offsets.forEach(offset => {
+            result += `${('0000000000' + offset).slice(-10)} 00000 n \n`;
+        });
+        result += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+        return result;
+    }
+
+    private write(operations: string): void {
+        if (!this.pages.length) {
+            this.addPage();
+        }
+
+        this.pages[this.currentPage].push(operations);
+    }
+}
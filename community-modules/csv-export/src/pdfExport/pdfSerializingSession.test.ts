@@ -0,0 +1,75 @@
+import { ColDef, Column, ColumnModel, GridOptionsWrapper, RowNode, ValueService } from '@ag-grid-community/core';
+import { PdfSerializingParams, PdfSerializingSession } from './pdfSerializingSession';
+
+function createColumn(field: string): Column {
+    return { getColId: () => field, getColDef: (): ColDef => ({ field }), getActualWidth: () => 200 } as Column;
+}
+
+function createSession(params: Partial<PdfSerializingParams> = {}) {
+    const columnModel = { getDisplayNameForColumn: (column: Column) => column.getColId().toUpperCase(), isPivotMode: () => false };
+    const valueService = { getValue: (column: Column, rowNode: RowNode) => rowNode.data[column.getColId()] };
+    const gridOptionsWrapper = { isGroupMultiAutoColumn: () => false, isGroupUseEntireRow: () => false };
+
+    return new PdfSerializingSession({
+        columnModel: columnModel as Partial<ColumnModel> as ColumnModel,
+        valueService: valueService as Partial<ValueService> as ValueService,
+        gridOptionsWrapper: gridOptionsWrapper as Partial<GridOptionsWrapper> as GridOptionsWrapper,
+        baseExcelStyles: [],
+        styleLinker: () => null,
+        ...params
+    });
+}
+
+function serialize(session: PdfSerializingSession, rows: any[]): string {
+    const columns = [createColumn('country'), createColumn('gold')];
+
+    session.prepare(columns);
+
+    const header = session.onNewHeaderRow();
+    columns.forEach((column, index) => header.onColumn(column, index, undefined));
+
+    rows.forEach(data => {
+        const body = session.onNewBodyRow();
+        columns.forEach((column, index) => body.onColumn(column, index, { data, level: 0 } as RowNode));
+    });
+
+    return session.parse();
+}
+
+/** The text drawn on each page, in the order it is drawn */
+function getPageTexts(pdf: string): string[][] {
+    const streams = pdf.split('\nstream\n').slice(1).map(stream => stream.substr(0, stream.indexOf('\nendstream')));
+
+    return streams.map(stream => stream.split('\n')
+        .filter(line => / Tj$/.test(line))
+        .map(line => line.substring(1, line.length - 4)));
+}
+
+describe('parse', () => {
+    it('repeats the column headers at the top of every page, and numbers the pages', () => {
+        const rows: any[] = [];
+
+        for (let i = 0; i < 60; i++) {
+            rows.push({ country: `Country ${i}`, gold: i });
+        }
+
+        const pages = getPageTexts(serialize(createSession(), rows));
+
+        expect(pages.length).toBe(2);
+        pages.forEach((texts, index) => {
+            expect(texts.slice(0, 2)).toStrictEqual(['COUNTRY', 'GOLD']);
+            expect(texts[texts.length - 1]).toBe(`Page ${index + 1} of 2`);
+        });
+        expect(pages[1][2]).toBe(`Country ${(pages[0].length - 3) / 2}`);
+    });
+
+    it('escapes the values of the cells and the page header', () => {
+        const pdf = serialize(createSession({ headerText: 'Medals (2020)', suppressPageNumbers: true }), [
+            { country: 'Côte d\'Ivoire', gold: '\\1' }
+        ]);
+
+        expect(getPageTexts(pdf)).toStrictEqual([
+            ['COUNTRY', 'GOLD', 'C\\364te d\'Ivoire', '\\\\1', 'Medals \\(2020\\)']
+        ]);
+    });
+});
@@ -0,0 +1,361 @@
+import { Column, Constants, ExcelStyle, PdfExportParams, RowNode, _ } from "@ag-grid-community/core";
+import { GridSerializingParams, RowAccumulator, RowSpanningAccumulator } from "../csvExport/interfaces";
+import { BaseGridSerializingSession } from "../csvExport/sessions/baseGridSerializingSession";
+import { RowType } from "../csvExport/gridSerializer";
+import { PdfColor, PdfDocument, PdfFont } from "./pdfDocument";
+
+export interface PdfSerializingParams extends GridSerializingParams, PdfExportParams {
+    baseExcelStyles: ExcelStyle[];
+    styleLinker: (rowType: RowType, rowIndex: number, value: string, column: Column, node: RowNode | null) => string[] | null;
+}
+
+interface PdfCellStyle {
+    font: PdfFont;
+    size?: number;
+    color: PdfColor;
+    background?: PdfColor;
+    align: 'left' | 'center' | 'right';
+}
+
+interface PdfCell {
+    text: string;
+    columnIndex: number;
+    /** The number of columns after the first one the cell covers */
+    span: number;
+    indent: number;
+    style: PdfCellStyle;
+}
+
+interface PdfRow {
+    /** Custom content is a line of text across the page, rather than cells */
+    type: RowType | 'content';
+    cells: PdfCell[];
+}
+
+const PAGE_SIZES: { [size: string]: [number, number] } = {
+    A3: [841.89, 1190.55],
+    A4: [595.28, 841.89],
+    A5: [419.53, 595.28],
+    Letter: [612, 792],
+    Legal: [612, 1008]
+};
+
+const BLACK: PdfColor = [0, 0, 0];
+const GRID_LINE_COLOR: PdfColor = [0.74, 0.76, 0.78];
+const HEADER_BACKGROUND: PdfColor = [0.96, 0.96, 0.97];
+const CELL_PADDING = 3;
+// columns are sized in pixels, which are 3/4 of a point
+const POINTS_PER_PIXEL = 0.75;
+
+const parseColor = (color?: string): PdfColor | undefined => {
+    const match = color && /^#?([0-9a-f]{6})$/i.exec(color);
+
+    if (!match) { return; }
+
+    const value = parseInt(match[1], 16);
+
+    return [(value >> 16 & 255) / 255, (value >> 8 & 255) / 255, (value & 255) / 255];
+};
+
+export class PdfSerializingSession extends BaseGridSerializingSession<string> {
+
+    private readonly config: PdfSerializingParams;
+    private readonly stylesById: { [id: string]: ExcelStyle } = {};
+    private readonly rows: PdfRow[] = [];
+    private columnsToExport: Column[] = [];
+    private rowIndex = 0;
+
+    constructor(config: PdfSerializingParams) {
+        super(config);
+
+        this.config = config;
+        config.baseExcelStyles.forEach(style => this.stylesById[style.id] = style);
+    }
+
+    public prepare(columnsToExport: Column[]): void {
+        super.prepare(columnsToExport);
+        this.columnsToExport = columnsToExport;
+    }
+
+    public addCustomContent(content: string): void {
+        if (!content) { return; }
+
+        content.split(/\r?\n/).forEach(line => {
+            this.rows.push({
+                type: 'content',
+                cells: [{ text: line, columnIndex: 0, span: 0, indent: 0, style: this.getStyle([]) }]
+            });
+        });
+    }
+
+    public onNewHeaderGroupingRow(): RowSpanningAccumulator {
+        const row = this.addRow(RowType.HEADER_GROUPING);
+
+        return {
+            onColumn: (header: string, index: number, span: number) => {
+                row.cells.push({
+                    text: header,
+                    columnIndex: index,
+                    span,
+                    indent: 0,
+                    style: this.getStyle(this.config.styleLinker(RowType.HEADER_GROUPING, 1, header, null!, null), true)
+                });
+            }
+        };
+    }
+
+    public onNewHeaderRow(): RowAccumulator {
+        const row = this.addRow(RowType.HEADER);
+
+        return {
+            onColumn: (column: Column, index: number) => {
+                const text = this.extractHeaderValue(column);
+
+                row.cells.push({
+                    text,
+                    columnIndex: index,
+                    span: 0,
+                    indent: 0,
+                    style: this.getStyle(this.config.styleLinker(RowType.HEADER, 1, text, column, null), true)
+                });
+            }
+        };
+    }
+
+    public onNewBodyRow(): RowAccumulator {
+        const row = this.addRow(RowType.BODY);
+        const rowIndex = this.rowIndex++;
+
+        return {
+            onColumn: (column: Column, index: number, node: RowNode) => {
+                const value = this.extractRowCellValue(column, index, rowIndex, Constants.EXPORT_TYPE_PDF, node);
+                const text = value != null ? value.toString() : '';
+                const styleIds = this.config.styleLinker(RowType.BODY, rowIndex, value, column, node);
+
+                row.cells.push({
+                    text,
+                    columnIndex: index,
+                    span: 0,
+                    indent: index === 0 && node.level > 0 ? node.level * this.getRowGroupIndent() : 0,
+                    style: this.getStyle(styleIds)
+                });
+            }
+        };
+    }
+
+    public parse(): string {
+        return new PdfTableWriter(this.config, this.columnsToExport, this.rows).write();
+    }
+
+    private addRow(type: RowType): PdfRow {
+        const row: PdfRow = { type, cells: [] };
+
+        this.rows.push(row);
+
+        return row;
+    }
+
+    private getRowGroupIndent(): number {
+        return this.config.rowGroupIndent != null ? this.config.rowGroupIndent : 10;
+    }
+
+    /** The excel styles are applied in order, so later styles override earlier ones */
+    private getStyle(styleIds: string[] | null, isHeader = false): PdfCellStyle {
+        let bold = isHeader;
+        let italic = false;
+        const style: PdfCellStyle = {
+            font: 'regular',
+            color: BLACK,
+            background: isHeader ? HEADER_BACKGROUND : undefined,
+            align: 'left'
+        };
+
+        (styleIds || []).forEach(id => {
+            const excelStyle = this.stylesById[id];
+
+            if (!excelStyle) { return; }
+
+            const { font, interior, alignment } = excelStyle;
+
+            if (font) {
+                if (font.bold != null) { bold = font.bold; }
+                if (font.italic != null) { italic = font.italic; }
+                if (font.size != null) { style.size = font.size; }
+                style.color = parseColor(font.color) || style.color;
+            }
+
+            if (interior && interior.pattern !== 'None') {
+                style.background = parseColor(interior.color) || style.background;
+            }
+
+            if (alignment && alignment.horizontal) {
+                const horizontal = alignment.horizontal;
+                style.align = horizontal === 'Right' ? 'right' : horizontal === 'Center' ? 'center' : 'left';
+            }
+        });
+
+        style.font = bold ? (italic ? 'boldItalic' : 'bold') : (italic ? 'italic' : 'regular');
+
+        return style;
+    }
+}
+
+/**
+ * Lays the rows out on pages, repeating the header rows at the top of every page. Columns keep the widths they have
+ * in the grid, unless they don't fit the page, when they are all narrowed in proportion.
+ */
+class PdfTableWriter {
+
+    private readonly document: PdfDocument;
+    private readonly fontSize: number;
+    private readonly rowHeight: number;
+    private readonly left: number;
+    private readonly top: number;
+    private readonly bottom: number;
+    private readonly columnLefts: number[] = [];
+    private readonly tableWidth: number;
+
+    constructor(
+        private readonly params: PdfSerializingParams,
+        columns: Column[],
+        private readonly rows: PdfRow[]
+    ) {
+        const pageSize = PAGE_SIZES[params.pageSize || 'A4'] || PAGE_SIZES.A4;
+        const [width, height] = params.orientation === 'landscape' ? [pageSize[1], pageSize[0]] : pageSize;
+        const margins = _.assign({ top: 36, right: 36, bottom: 36, left: 36 }, params.margins);
+
+        this.document = new PdfDocument(width, height);
+        this.fontSize = params.fontSize || 9;
+        this.rowHeight = this.fontSize * 2;
+        this.left = margins.left;
+        // the page header and footer are inside the margins, above and below the table
+        this.top = height - margins.top - (params.headerText ? this.rowHeight : 0);
+        this.bottom = margins.bottom + (params.footerText || !params.suppressPageNumbers ? this.rowHeight : 0);
+
+        const availableWidth = width - margins.left - margins.right;
+        const widths = columns.map(column => column.getActualWidth() * POINTS_PER_PIXEL);
+        const totalWidth = widths.reduce((total, columnWidth) => total + columnWidth, 0);
+        const scale = totalWidth > availableWidth ? availableWidth / totalWidth : 1;
+        let x = this.left;
+
+        widths.forEach(columnWidth => {
+            this.columnLefts.push(x);
+            x += columnWidth * scale;
+        });
+
+        this.columnLefts.push(x);
+        this.tableWidth = x - this.left;
+    }
+
+    public write(): string {
+        const headerRows = this.rows.filter(row => row.type === RowType.HEADER_GROUPING || row.type === RowType.HEADER);
+        let y = this.startPage([]);
+
+        this.rows.forEach(row => {
+            if (y - this.rowHeight < this.bottom) {
+                const isHeader = row.type === RowType.HEADER_GROUPING || row.type === RowType.HEADER;
+                y = this.startPage(isHeader ? [] : headerRows);
+            }
+
+            this.drawRow(row, y);
+            y -= this.rowHeight;
+        });
+
+        this.drawPageHeadersAndFooters();
+
+        return this.document.build();
+    }
+
+    private startPage(headerRows: PdfRow[]): number {
+        let y = this.top;
+
+        this.document.addPage();
+
+        headerRows.forEach(row => {
+            this.drawRow(row, y);
+            y -= this.rowHeight;
+        });
+
+        return y;
+    }
+
+    private drawRow(row: PdfRow, top: number): void {
+        const bottom = top - this.rowHeight;
+
+        if (row.type === 'content') {
+            const cell = row.cells[0];
+            this.drawText(cell, this.left, this.left + this.tableWidth, bottom);
+            return;
+        }
+
+        row.cells.forEach(cell => {
+            const lastColumn = Math.min(cell.columnIndex + cell.span + 1, this.columnLefts.length - 1);
+            const x = this.columnLefts[cell.columnIndex];
+            const right = this.columnLefts[lastColumn];
+
+            if (x == null || right <= x) { return; }
+
+            this.document.drawRect(x, bottom, right - x, this.rowHeight, cell.style.background, GRID_LINE_COLOR);
+            this.drawText(cell, x + cell.indent, right, bottom);
+        });
+    }
+
+    /** Text that doesn't fit the cell is cut short with an ellipsis */
+    private drawText(cell: PdfCell, x: number, right: number, bottom: number): void {
+        const { style } = cell;
+        const size = style.size || this.fontSize;
+        const maxWidth = right - x - CELL_PADDING * 2;
+        let text = cell.text;
+
+        if (maxWidth <= 0) { return; }
+
+        if (PdfDocument.measureText(text, style.font, size) > maxWidth) {
+            while (text.length && PdfDocument.measureText(text + '…', style.font, size) > maxWidth) {
+                text = text.substr(0, text.length - 1);
+            }
+            text = text.length ? text + '…' : '';
+        }
+
+        const textWidth = PdfDocument.measureText(text, style.font, size);
+        let textX = x + CELL_PADDING;
+
+        if (style.align === 'right') {
+            textX = right - CELL_PADDING - textWidth;
+        } else if (style.align === 'center') {
+            textX = x + (right - x - textWidth) / 2;
+        }
+
+        // the baseline is placed so the text is roughly centred in the row
+        const baseline = bottom + (this.rowHeight - size * 0.7) / 2;
+
+        this.document.drawText(text, textX, baseline, style.font, size, style.color);
+    }
+
+    private drawPageHeadersAndFooters(): void {
+        const { params, document, fontSize } = this;
+        const pageCount = document.getPageCount();
+        const right = this.left + this.tableWidth;
+        const headerY = this.top + fontSize * 0.7;
+        const footerY = this.bottom - this.rowHeight + fontSize * 0.3;
+
+        // added once the pages are laid out, as the page numbers need the page count
+        for (let i = 0; i < pageCount; i++) {
+            document.selectPage(i);
+
+            if (params.headerText) {
+                document.drawText(params.headerText, this.left, headerY, 'bold', fontSize, BLACK);
+            }
+
+            if (params.footerText) {
+                document.drawText(params.footerText, this.left, footerY, 'regular', fontSize, BLACK);
+            }
+
+            if (!params.suppressPageNumbers) {
+                const text = `Page ${i + 1} of ${pageCount}`;
+                const width = PdfDocument.measureText(text, 'regular', fontSize);
+
+                document.drawText(text, right - width, footerY, 'regular', fontSize, BLACK);
+            }
+        }
+    }
+}
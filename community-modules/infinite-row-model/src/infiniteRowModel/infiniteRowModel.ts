@@ -9,6 +9,8 @@ import {
     FilterManager,
     GridApi,
     IDatasource,
+    IGetRowsParams,
+    LoadRowsForExportParams,
     ModelUpdatedEvent,
     NumberSequence,
     PostConstruct,
@@ -135,6 +137,29 @@ export class InfiniteRowModel extends BeanStub implements IInfiniteRowModel {
         }
     }
 
+    /** Requests rows with the current filter and sort, without adding them to the cache */
+    public loadRowsForExport(params: LoadRowsForExportParams): void {
+        const { datasource } = this;
+
+        if (!datasource) {
+            params.fail();
+            return;
+        }
+
+        const getRowsParams: IGetRowsParams = {
+            startRow: params.startRow,
+            endRow: params.endRow,
+            successCallback: params.success,
+            failCallback: params.fail,
+            sortModel: this.sortController.getSortModel(),
+            filterModel: this.filterManager.getFilterModel(),
+            context: this.gridOptionsWrapper.getContext()
+        };
+
+        // put in timeout, to force result to be async
+        window.setTimeout(() => datasource.getRows(getRowsParams), 0);
+    }
+
     public isEmpty(): boolean {
         return !this.infiniteCache;
     }
@@ -1,4 +1,4 @@
-import { CellCtrl, Component, Context, ICellComp, ICellEditor, ICellRendererComp, UserCompDetails, _ } from '@ag-grid-community/core';
+import { CellCtrl, CellFindMatch, Component, Context, ICellComp, ICellEditor, ICellRendererComp, UserCompDetails, _ } from '@ag-grid-community/core';
 import React, { MutableRefObject, useCallback, useEffect, useRef, useState } from 'react';
 import { CssClasses } from '../utils';
 import { JsEditorComp } from './jsEditorComp';
@@ -53,8 +53,32 @@ const jsxEditValue = (
     )
 }
 
+// the same highlighting as the vanilla cell, with a mark around each match of the find search value
+const jsxValueWithFindMatches = (value: any, findMatches: CellFindMatch[]) => {
+    if (value == null || findMatches.length === 0) {
+        return <>{ value }</>;
+    }
+
+    const text = value.toString();
+    const parts: JSX.Element[] = [];
+    let position = 0;
+
+    findMatches.forEach(({ start, end, active }, index) => {
+        // the matches can be for the previous value, until the find service catches up with the change
+        if (start < position || end > text.length) { return; }
+
+        const className = active ? 'ag-find-match ag-find-active-match' : 'ag-find-match';
+
+        parts.push(<React.Fragment key={ index }>{ text.slice(position, start) }<mark className={ className }>{ text.slice(start, end) }</mark></React.Fragment>);
+        position = end;
+    });
+
+    return <>{ parts }{ text.slice(position) }</>;
+}
+
 const jsxShowValue = (
     showDetails: ShowDetails,
+    findMatches: CellFindMatch[],
     parentId: number,
     cellRendererRef: MutableRefObject<any>,
     showTools: boolean,
@@ -71,7 +95,7 @@ const jsxShowValue = (
 
     const bodyJsxFunc = () => (
         <>
-            { noCellRenderer && <>{ value }</> }
+            { noCellRenderer && jsxValueWithFindMatches(value, findMatches) }
             { reactCellRenderer && <CellRendererClass { ...compDetails!.params } ref={ cellRendererRef }></CellRendererClass> }
         </>
     );
@@ -111,6 +135,7 @@ export const CellComp = (props: {
 
     const [showDetails, setShowDetails ] = useState<ShowDetails>();
     const [editDetails, setEditDetails ] = useState<EditDetails>();
+    const [findMatches, setFindMatches] = useState<CellFindMatch[]>([]);
 
     const [cssClasses, setCssClasses] = useState<CssClasses>(new CssClasses());
     const [userStyles, setUserStyles] = useState<any>();
@@ -247,10 +272,12 @@ export const CellComp = (props: {
 
             getCellEditor: () => cellEditorRef.current || null,
             getCellRenderer: () => cellRendererRef.current,
-            getParentOfValue: () => toolsValueSpan ? toolsValueSpan : eGui.current
+            getParentOfValue: () => toolsValueSpan ? toolsValueSpan : eGui.current,
+            refreshFindHighlight: () => setFindMatches(cellCtrl.getFindMatches())
         };
 
         cellCtrl.setComp(compProxy, false, null, eGui.current!, printLayout, editingRow);
+        setFindMatches(cellCtrl.getFindMatches());
         cellCtrl.updateCssCellValue();
 
     }, [cellCtrl, editingRow, printLayout, toolsValueSpan]);
@@ -272,7 +299,7 @@ export const CellComp = (props: {
              aria-selected={ ariaSelected } aria-colindex={ ariaColIndex } role={ role }
              col-id={ colId } title={ title } unselectable={ unselectable } aria-describedby={ ariaDescribedBy }>
 
-            { showDetails!=null && jsxShowValue(showDetails, cellCtrl.getInstanceId(), cellRendererRef, showTools, unselectable, toolsRefCallback, toolsValueRefCallback) }
+            { showDetails!=null && jsxShowValue(showDetails, findMatches, cellCtrl.getInstanceId(), cellRendererRef, showTools, unselectable, toolsRefCallback, toolsValueRefCallback) }
             { editDetails!=null && jsxEditValue(editDetails, setInlineCellEditorRef, setPopupCellEditorRef, eGui.current!, cellCtrl) }
 
         </div>
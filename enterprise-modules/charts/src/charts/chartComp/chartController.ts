@@ -88,6 +88,8 @@ export class ChartController extends BeanStub {
 
     public getChartModel(): ChartModel {
         const modelType: ChartModelType = this.model.isPivotChart() ? 'pivot' : 'range';
+        const dimension = this.model.getSelectedDimension();
+
         return {
             modelType,
             chartId: this.model.getChartId(),
@@ -102,6 +104,8 @@ export class ChartController extends BeanStub {
             suppressChartRanges: this.model.isSuppressChartRanges(),
             aggFunc: this.model.getAggFunc(),
             unlinkChart: this.model.isUnlinked(),
+            categoryColId: dimension && dimension.colId !== ChartDataModel.DEFAULT_CATEGORY ? dimension.colId : undefined,
+            seriesColIds: this.model.getSelectedValueColState().map(colState => colState.colId)
         };
     }
 
@@ -6,6 +6,7 @@ import {
     Column,
     ColumnModel,
     ColumnGroup,
+    Constants,
     IAggFunc,
     IAggregationStage,
     IClientSideRowModel,
@@ -333,9 +334,15 @@ export class ChartDatasource extends BeanStub {
 
     private getAllRowNodes() {
         let allRowNodes: RowNode[] = [];
-        this.gridRowModel.forEachNode((rowNode: RowNode) => {
-            allRowNodes.push(rowNode);
-        });
+        const pushRowNode = (rowNode: RowNode) => allRowNodes.push(rowNode);
+        const clientSideRowModel = this.gridRowModel as IClientSideRowModel;
+
+        // forEachNode only visits the columnar rows that have a node
+        if (this.gridRowModel.getType() === Constants.ROW_MODEL_TYPE_CLIENT_SIDE && clientSideRowModel.isColumnar()) {
+            clientSideRowModel.forEachLeafNode(pushRowNode);
+        } else {
+            this.gridRowModel.forEachNode(pushRowNode);
+        }
         return this.sortRowNodes(allRowNodes);
     }
 
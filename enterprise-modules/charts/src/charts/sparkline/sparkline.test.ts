@@ -0,0 +1,126 @@
+import { Arc, Rect } from 'ag-charts-community';
+import { Node } from 'ag-charts-community/dist/cjs/scene/node';
+import { Sparkline, SparklineStyle } from './sparkline';
+
+// the scene draws to a canvas, which isn't available to the tests, so only its size is kept
+jest.mock('ag-charts-community', () => {
+    class Scene {
+        public root: any;
+        public container: HTMLElement | undefined;
+        public canvas = { element: document.createElement('canvas') };
+
+        constructor(_document: Document, public width: number, public height: number) {}
+
+        public resize(width: number, height: number): void {
+            this.width = width;
+            this.height = height;
+        }
+
+        public cancelRender(): void {}
+    }
+
+    return { ...jest.requireActual('ag-charts-community'), Scene };
+});
+
+function createStyle(style: Partial<SparklineStyle> = {}): SparklineStyle {
+    return {
+        type: 'line',
+        stroke: 'blue',
+        strokeWidth: 1,
+        fill: 'green',
+        negativeFill: 'red',
+        padding: 0,
+        markerSize: 4,
+        markers: {},
+        ...style
+    };
+}
+
+function createSparkline(values: any[], style: Partial<SparklineStyle> = {}): Sparkline {
+    const sparkline = new Sparkline(document.createElement('div'), createStyle(style), 100, 20);
+
+    sparkline.setValues(values);
+
+    return sparkline;
+}
+
+/** The nodes of a type in the scene graph, in the order they are drawn */
+function findNodes<T extends Node>(sparkline: Sparkline, nodeType: new () => T): T[] {
+    const found: T[] = [];
+    const visit = (node: Node) => {
+        if (node instanceof nodeType) { found.push(node); }
+        node.children.forEach(visit);
+    };
+
+    visit(sparkline.scene.root!);
+
+    return found;
+}
+
+describe('setValues', () => {
+    it('parses numeric strings and drops anything that is not a number', () => {
+        const sparkline = createSparkline([1, '2.5', 'x', null, Infinity, NaN]);
+
+        expect(sparkline.getValues()).toStrictEqual([1, 2.5, null, null, null, null]);
+    });
+});
+
+describe('getIndexAt', () => {
+    it('returns the closest point of a line', () => {
+        const sparkline = createSparkline([1, 2, null, 4, 5]);
+
+        expect(sparkline.getIndexAt(0)).toBe(0);
+        expect(sparkline.getIndexAt(30)).toBe(1);
+        expect(sparkline.getIndexAt(50)).toBeUndefined();
+        expect(sparkline.getIndexAt(500)).toBe(4);
+    });
+
+    it('returns the column under x', () => {
+        const sparkline = createSparkline([1, 2, 3, 4], { type: 'column' });
+
+        expect(sparkline.getIndexAt(24)).toBe(0);
+        expect(sparkline.getIndexAt(26)).toBe(1);
+    });
+
+    it('returns undefined without values', () => {
+        expect(createSparkline([]).getIndexAt(10)).toBeUndefined();
+    });
+});
+
+describe('markers', () => {
+    it('highlights the points that have a colour, the first of min, max, first and last winning', () => {
+        const sparkline = createSparkline([1, 5, 3], { markers: { min: 'min', max: 'max', first: 'first' } });
+        const markers = findNodes(sparkline, Arc);
+
+        expect(markers.map(marker => marker.fill)).toStrictEqual(['min', 'max']);
+        expect(markers.map(marker => marker.centerX)).toStrictEqual([0, 50]);
+    });
+
+    it('removes the markers that are no longer needed', () => {
+        const sparkline = createSparkline([1, 5, 3], { markers: { min: 'min', max: 'max' } });
+
+        sparkline.setValues([2, 2]);
+
+        expect(findNodes(sparkline, Arc).length).toBe(1);
+    });
+});
+
+describe('columns', () => {
+    it('draws negative columns below zero in the negative fill', () => {
+        const sparkline = createSparkline([10, -10], { type: 'column' });
+        const [positive, negative] = findNodes(sparkline, Rect);
+
+        expect(positive.fill).toBe('green');
+        expect(negative.fill).toBe('red');
+        expect(positive.y + positive.height).toBe(negative.y);
+    });
+
+    it('draws wins and losses with the same height, and hides draws', () => {
+        const sparkline = createSparkline([3, -1, 0, null], { type: 'winLoss' });
+        const columns = findNodes(sparkline, Rect);
+
+        expect(columns.map(column => column.visible)).toStrictEqual([true, true, false, false]);
+        expect(columns[0].height).toBe(columns[1].height);
+        expect(columns[0].y).toBeLessThan(columns[1].y);
+    });
+});
@@ -0,0 +1,334 @@
+import { SparklineType } from "@ag-grid-community/core";
+import { Arc, Group, LinearScale, Path, Rect, Scene } from "ag-charts-community";
+
+export interface SparklineStyle {
+    type: SparklineType;
+    stroke: string;
+    strokeWidth: number;
+    fill: string;
+    negativeFill: string;
+    padding: number;
+    markerSize: number;
+    markers: SparklineMarkerColors;
+}
+
+/** Colours of the highlighted points, an undefined colour means the point isn't highlighted */
+export interface SparklineMarkerColors {
+    min?: string;
+    max?: string;
+    first?: string;
+    last?: string;
+}
+
+interface SparklineExtremes {
+    min?: number;
+    max?: number;
+    first?: number;
+    last?: number;
+}
+
+/**
+ * Draws a small axis-less chart of a series of numbers. The nodes are kept between updates, so a renderer can be
+ * refreshed with new values without creating a new scene.
+ */
+export class Sparkline {
+
+    public readonly scene: Scene;
+
+    private readonly root = new Group();
+    private readonly area = new Path();
+    private readonly line = new Path();
+    private readonly columnGroup = new Group();
+    private readonly markerGroup = new Group();
+    private readonly yScale = new LinearScale();
+
+    private columns: Rect[] = [];
+    private markers: Arc[] = [];
+    private values: (number | null)[] = [];
+
+    constructor(container: HTMLElement, private style: SparklineStyle, width: number, height: number) {
+        const scene = new Scene(window.document, width, height);
+
+        this.area.stroke = undefined;
+        this.line.fill = undefined;
+        this.line.lineJoin = 'round';
+        this.line.lineCap = 'round';
+
+        this.root.append([this.area, this.columnGroup, this.line, this.markerGroup]);
+
+        scene.root = this.root;
+        scene.container = container;
+
+        this.scene = scene;
+    }
+
+    public setValues(values: any[]): void {
+        this.values = values.map(value => {
+            const number = typeof value === 'string' ? parseFloat(value) : value;
+
+            return typeof number === 'number' && isFinite(number) ? number : null;
+        });
+
+        this.update();
+    }
+
+    public getValues(): (number | null)[] {
+        return this.values;
+    }
+
+    public setStyle(style: SparklineStyle): void {
+        this.style = style;
+        this.update();
+    }
+
+    public setSize(width: number, height: number): void {
+        this.scene.resize(width, height);
+        this.update();
+    }
+
+    /** Returns the index of the value closest to x, or undefined when there's no value there */
+    public getIndexAt(x: number): number | undefined {
+        const count = this.values.length;
+
+        if (!count) { return; }
+
+        const { padding, type } = this.style;
+        const width = this.scene.width - padding * 2;
+        const index = this.isColumnType(type)
+            ? Math.floor((x - padding) / (width / count))
+            : Math.round((x - padding) / (width / Math.max(count - 1, 1)));
+        const clamped = Math.min(Math.max(index, 0), count - 1);
+
+        return this.values[clamped] == null ? undefined : clamped;
+    }
+
+    public destroy(): void {
+        this.scene.cancelRender();
+        this.scene.container = undefined;
+    }
+
+    private isColumnType(type: SparklineType): boolean {
+        return type === 'column' || type === 'winLoss';
+    }
+
+    private update(): void {
+        const { type } = this.style;
+        const isColumnType = this.isColumnType(type);
+
+        this.line.visible = !isColumnType;
+        this.area.visible = type === 'area';
+        this.columnGroup.visible = isColumnType;
+        this.markerGroup.visible = !isColumnType;
+
+        if (isColumnType) {
+            this.updateColumns();
+        } else {
+            this.updateLine();
+        }
+    }
+
+    private getExtremes(): SparklineExtremes {
+        const extremes: SparklineExtremes = {};
+        const { values } = this;
+
+        values.forEach((value, index) => {
+            if (value == null) { return; }
+
+            if (extremes.first == null) { extremes.first = index; }
+
+            extremes.last = index;
+
+            if (extremes.min == null || value < values[extremes.min]!) { extremes.min = index; }
+            if (extremes.max == null || value > values[extremes.max]!) { extremes.max = index; }
+        });
+
+        return extremes;
+    }
+
+    /** The marker colour for each highlighted index, the first of min, max, first and last wins */
+    private getMarkerColors(): { [index: number]: string; } {
+        const extremes = this.getExtremes();
+        const { markers } = this.style;
+        const colors: { [index: number]: string; } = {};
+
+        (['min', 'max', 'first', 'last'] as (keyof SparklineExtremes)[]).forEach(key => {
+            const index = extremes[key];
+            const color = markers[key];
+
+            if (index != null && color && colors[index] == null) {
+                colors[index] = color;
+            }
+        });
+
+        return colors;
+    }
+
+    private updateYScale(includeZero: boolean): void {
+        const { padding } = this.style;
+        const numbers = this.values.filter(value => value != null) as number[];
+        let min = numbers.length ? Math.min(...numbers) : 0;
+        let max = numbers.length ? Math.max(...numbers) : 0;
+
+        if (includeZero) {
+            min = Math.min(min, 0);
+            max = Math.max(max, 0);
+        }
+
+        // a flat series is drawn through the middle
+        if (min === max) {
+            min -= 1;
+            max += 1;
+        }
+
+        this.yScale.domain = [min, max];
+        this.yScale.range = [this.scene.height - padding, padding];
+    }
+
+    private updateLine(): void {
+        const { values, yScale, line, area } = this;
+        const { stroke, strokeWidth, fill, padding, markerSize } = this.style;
+        const count = values.length;
+        const step = (this.scene.width - padding * 2) / Math.max(count - 1, 1);
+        const getX = (index: number) => count > 1 ? padding + index * step : this.scene.width / 2;
+
+        this.updateYScale(false);
+
+        const [min, max] = yScale.domain;
+        const baseline = yScale.convert(Math.min(Math.max(0, min), max));
+
+        line.stroke = stroke;
+        line.strokeWidth = strokeWidth;
+        area.fill = fill;
+        area.fillOpacity = 0.3;
+
+        const linePath = line.path;
+        const areaPath = area.path;
+        let segmentStart: number | undefined;
+        let previousX = 0;
+
+        linePath.clear();
+        areaPath.clear();
+
+        // missing values break the line, each unbroken segment of the area is closed down to the baseline
+        const closeArea = () => {
+            if (segmentStart == null) { return; }
+
+            areaPath.lineTo(previousX, baseline);
+            areaPath.lineTo(segmentStart, baseline);
+            areaPath.closePath();
+            segmentStart = undefined;
+        };
+
+        values.forEach((value, index) => {
+            if (value == null) {
+                closeArea();
+                return;
+            }
+
+            const x = getX(index);
+            const y = yScale.convert(value);
+
+            if (segmentStart == null) {
+                segmentStart = x;
+                linePath.moveTo(x, y);
+                areaPath.moveTo(x, baseline);
+                areaPath.lineTo(x, y);
+            } else {
+                linePath.lineTo(x, y);
+                areaPath.lineTo(x, y);
+            }
+
+            previousX = x;
+        });
+
+        closeArea();
+
+        line.dirtyPath = true;
+        area.dirtyPath = true;
+
+        const markerColors = this.getMarkerColors();
+        const indexes = Object.keys(markerColors).map(Number);
+
+        this.markers = this.updateNodes(this.markerGroup, this.markers, indexes.length, () => new Arc());
+        this.markers.forEach((marker, i) => {
+            const index = indexes[i];
+
+            marker.centerX = getX(index);
+            marker.centerY = yScale.convert(values[index]!);
+            marker.radiusX = marker.radiusY = markerSize / 2;
+            marker.startAngle = 0;
+            marker.endAngle = Math.PI * 2;
+            marker.fill = markerColors[index];
+            marker.stroke = undefined;
+        });
+    }
+
+    private updateColumns(): void {
+        const { values, yScale } = this;
+        const { type, fill, negativeFill, padding } = this.style;
+        const { width, height } = this.scene;
+        const count = values.length;
+        const band = (width - padding * 2) / Math.max(count, 1);
+        const gap = band > 3 ? Math.max(1, band * 0.2) : 0;
+        const markerColors = this.getMarkerColors();
+
+        this.updateYScale(true);
+
+        const zero = yScale.convert(0);
+        // wins and losses are bars of the same height, above and below the middle
+        const middle = height / 2;
+        const halfHeight = Math.max(middle - padding - 0.5, 1);
+
+        this.columns = this.updateNodes(this.columnGroup, this.columns, count, () => {
+            const rect = new Rect();
+            rect.crisp = true;
+            rect.stroke = undefined;
+            return rect;
+        });
+
+        this.columns.forEach((column, index) => {
+            const value = values[index];
+
+            column.x = padding + index * band + gap / 2;
+            column.width = Math.max(band - gap, 1);
+
+            if (value == null || (type === 'winLoss' && value === 0)) {
+                column.visible = false;
+                return;
+            }
+
+            let top: number;
+            let bottom: number;
+
+            if (type === 'winLoss') {
+                top = value > 0 ? middle - halfHeight : middle + 0.5;
+                bottom = value > 0 ? middle - 0.5 : middle + halfHeight;
+            } else {
+                const y = yScale.convert(value);
+                top = Math.min(y, zero);
+                // zero values are still drawn as a thin line
+                bottom = Math.max(Math.max(y, zero), top + 1);
+            }
+
+            column.visible = true;
+            column.y = top;
+            column.height = bottom - top;
+            column.fill = markerColors[index] || (value < 0 ? negativeFill : fill);
+        });
+    }
+
+    private updateNodes<T extends Arc | Rect>(group: Group, nodes: T[], count: number, create: () => T): T[] {
+        nodes.slice(count).forEach(node => group.removeChild(node));
+
+        const kept = nodes.slice(0, count);
+        const added: T[] = [];
+
+        for (let i = kept.length; i < count; i++) {
+            added.push(create());
+        }
+
+        group.append(added);
+
+        return kept.concat(added);
+    }
+}
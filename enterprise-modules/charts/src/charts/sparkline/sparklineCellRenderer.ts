@@ -0,0 +1,166 @@
+import {
+    _,
+    Autowired,
+    Column,
+    Component,
+    ICellRenderer,
+    ISparklineCellRendererParams,
+    PopupService,
+    RowNode,
+    SparklineMarkerOptions
+} from "@ag-grid-community/core";
+import { AgChartThemePalette, getChartTheme } from "ag-charts-community";
+import { Sparkline, SparklineMarkerColors, SparklineStyle } from "./sparkline";
+
+export class SparklineCellRenderer extends Component implements ICellRenderer {
+
+    private static TEMPLATE = /* html */ `<div class="ag-sparkline-cell"></div>`;
+
+    @Autowired('popupService') private popupService: PopupService;
+
+    private params: ISparklineCellRendererParams;
+    private sparkline: Sparkline;
+    private eTooltip: HTMLElement | undefined;
+
+    constructor() {
+        super(SparklineCellRenderer.TEMPLATE);
+    }
+
+    public init(params: ISparklineCellRendererParams): void {
+        this.params = params;
+
+        // the size comes from the column and row rather than the DOM, so rendering rows while scrolling doesn't
+        // force a layout
+        const { width, height } = this.getSize();
+
+        this.sparkline = new Sparkline(this.getGui(), this.createStyle(), width, height);
+        this.sparkline.setValues(this.getValues());
+
+        if (params.column) {
+            this.addManagedListener(params.column, Column.EVENT_WIDTH_CHANGED, this.onSizeChanged.bind(this));
+        }
+
+        this.addManagedListener(params.node, RowNode.EVENT_HEIGHT_CHANGED, this.onSizeChanged.bind(this));
+
+        if (!params.tooltip || params.tooltip.enabled !== false) {
+            const canvas = this.sparkline.scene.canvas.element;
+
+            this.addManagedListener(canvas, 'mousemove', this.onMouseMove.bind(this));
+            this.addManagedListener(canvas, 'mouseleave', this.hideTooltip.bind(this));
+        }
+    }
+
+    public refresh(params: ISparklineCellRendererParams): boolean {
+        this.params = params;
+        this.sparkline.setStyle(this.createStyle());
+        this.sparkline.setValues(this.getValues());
+        this.hideTooltip();
+
+        return true;
+    }
+
+    private getValues(): any[] {
+        const { value } = this.params;
+
+        return Array.isArray(value) ? value : [];
+    }
+
+    private getSize(): { width: number, height: number; } {
+        const { column, node } = this.params;
+
+        return {
+            width: column ? column.getActualWidth() : 0,
+            height: node.rowHeight != null ? node.rowHeight : this.gridOptionsWrapper.getRowHeightAsNumber()
+        };
+    }
+
+    private onSizeChanged(): void {
+        const { width, height } = this.getSize();
+
+        this.sparkline.setSize(width, height);
+    }
+
+    private getPalette(): AgChartThemePalette {
+        const themeName = this.params.chartTheme || this.gridOptionsWrapper.getChartThemes()[0];
+        const customThemes = this.gridOptionsWrapper.getCustomChartThemes();
+        const customTheme = customThemes && customThemes[themeName];
+
+        // only the palette is needed, so a custom theme isn't built into a ChartTheme for every rendered cell
+        if (customTheme) {
+            return customTheme.palette || getChartTheme(customTheme.baseTheme).palette;
+        }
+
+        return getChartTheme(themeName).palette;
+    }
+
+    private createStyle(): SparklineStyle {
+        const { params } = this;
+        const { fills, strokes } = this.getPalette();
+        const type = params.type || 'line';
+        const markers: SparklineMarkerOptions = params.markers || {};
+        const defaultFill = type === 'line' || type === 'area' ? strokes[0] : fills[0];
+        const getMarkerColor = (option: boolean | string | undefined, defaultColor: string) =>
+            option === true ? defaultColor : (option || undefined);
+        const markerColors: SparklineMarkerColors = {
+            min: getMarkerColor(markers.min, fills[1]),
+            max: getMarkerColor(markers.max, fills[2]),
+            first: getMarkerColor(markers.first, fills[3]),
+            last: getMarkerColor(markers.last, fills[3])
+        };
+
+        return {
+            type,
+            stroke: params.stroke || strokes[0],
+            strokeWidth: params.strokeWidth != null ? params.strokeWidth : 1.5,
+            fill: params.fill || defaultFill,
+            negativeFill: params.negativeFill || fills[1],
+            padding: params.padding != null ? params.padding : 3,
+            markerSize: markers.size != null ? markers.size : 4,
+            markers: markerColors
+        };
+    }
+
+    private onMouseMove(event: MouseEvent): void {
+        const canvas = this.sparkline.scene.canvas.element;
+        const index = this.sparkline.getIndexAt(event.clientX - canvas.getBoundingClientRect().left);
+
+        if (index == null) {
+            this.hideTooltip();
+            return;
+        }
+
+        const values = this.sparkline.getValues();
+        const value = values[index]!;
+        const { tooltip } = this.params;
+        const text = tooltip && tooltip.renderer ? tooltip.renderer({ value, index, values }) : String(value);
+
+        if (!this.eTooltip) {
+            this.eTooltip = document.createElement('div');
+            this.eTooltip.className = 'ag-tooltip ag-sparkline-tooltip';
+            this.popupService.getPopupParent().appendChild(this.eTooltip);
+        }
+
+        const parentRect = this.popupService.getPopupParent().getBoundingClientRect();
+
+        this.eTooltip.textContent = text;
+        this.eTooltip.style.left = `${event.clientX - parentRect.left + 10}px`;
+        this.eTooltip.style.top = `${event.clientY - parentRect.top + 16}px`;
+    }
+
+    private hideTooltip(): void {
+        if (this.eTooltip) {
+            _.removeFromParent(this.eTooltip);
+            this.eTooltip = undefined;
+        }
+    }
+
+    protected destroy(): void {
+        this.hideTooltip();
+
+        if (this.sparkline) {
+            this.sparkline.destroy();
+        }
+
+        super.destroy();
+    }
+}
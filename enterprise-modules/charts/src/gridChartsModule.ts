@@ -3,6 +3,7 @@ import { EnterpriseCoreModule } from "@ag-grid-enterprise/core";
 import { ChartService } from "./charts/chartService";
 import { ChartTranslator } from "./charts/chartComp/chartTranslator";
 import { ChartCrossFilter } from "./charts/chartComp/chartCrossFilter";
+import { SparklineCellRenderer } from "./charts/sparkline/sparklineCellRenderer";
 
 import { RangeSelectionModule } from "@ag-grid-enterprise/range-selection";
 
@@ -11,6 +12,9 @@ export const GridChartsModule: Module = {
     beans: [
         ChartService, ChartTranslator, ChartCrossFilter
     ],
+    userComponents: [
+        { componentName: 'agSparklineCellRenderer', componentClass: SparklineCellRenderer }
+    ],
     dependantModules: [
         RangeSelectionModule,
         EnterpriseCoreModule
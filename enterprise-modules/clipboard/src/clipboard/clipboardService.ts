@@ -19,6 +19,7 @@ import {
     FocusService,
     GridApi,
     GridCtrl,
+    HtmlExportParams,
     IClipboardService,
     IRowModel,
     Logger,
@@ -35,7 +36,9 @@ import {
     RowValueChangedEvent,
     SelectionService,
     ValueService,
+    ValidationService,
     ICsvCreator,
+    IHtmlCreator,
     IRangeService,
     Optional
 } from "@ag-grid-community/core";
@@ -52,12 +55,14 @@ interface ColumnCallback {
 export class ClipboardService extends BeanStub implements IClipboardService {
 
     @Autowired('csvCreator') private csvCreator: ICsvCreator;
+    @Autowired('htmlCreator') private htmlCreator: IHtmlCreator;
     @Autowired('loggerFactory') private loggerFactory: LoggerFactory;
     @Autowired('selectionService') private selectionService: SelectionService;
     @Optional('rangeService') private rangeService: IRangeService;
     @Autowired('rowModel') private rowModel: IRowModel;
 
     @Autowired('valueService') private valueService: ValueService;
+    @Autowired('validationService') private validationService: ValidationService;
     @Autowired('focusService') private focusService: FocusService;
     @Autowired('rowRenderer') private rowRenderer: RowRenderer;
     @Autowired('columnModel') private columnModel: ColumnModel;
@@ -470,6 +475,11 @@ export class ClipboardService extends BeanStub implements IClipboardService {
         ) { return; }
 
         const processedValue = this.processCell(rowNode, column, value, type, this.gridOptionsWrapper.getProcessCellFromClipboardFunc());
+        const oldValue = this.valueService.getValue(column, rowNode);
+        const outcome = this.validationService.validateNewValue(rowNode, column, oldValue, processedValue, 'paste');
+
+        if (outcome !== 'accept') { return; }
+
         this.valueService.setValue(rowNode, column, processedValue, Constants.SOURCE_PASTE);
 
         const cellId = this.cellPositionUtils.createIdFromValues(rowNode.rowIndex!, column, rowNode.rowPinned);
@@ -554,6 +564,7 @@ export class ClipboardService extends BeanStub implements IClipboardService {
 
         let data = '';
         const cellsToFlash = {} as any;
+        const copiedRanges: { columns: Column[], rowNodes: RowNode[] }[] = [];
 
         // adds columns to the data
         const columnCallback = (columns: Column[]) => {
@@ -569,9 +580,17 @@ export class ClipboardService extends BeanStub implements IClipboardService {
         };
 
         // adds cell values to the data
-        const rowCallback: RowCallback = (currentRow: RowPosition, rowNode: RowNode, columns: Column[], _2: number, isLastRow?: boolean) => {
+        const rowCallback: RowCallback = (currentRow: RowPosition, rowNode: RowNode, columns: Column[], rangeIndex: number, isLastRow?: boolean) => {
             const processCellForClipboardFunc = this.gridOptionsWrapper.getProcessCellForClipboardFunc();
 
+            if (rangeIndex === 0) {
+                copiedRanges.push({ columns, rowNodes: [] });
+            }
+
+            if (rowNode) {
+                copiedRanges[copiedRanges.length - 1].rowNodes.push(rowNode);
+            }
+
             columns.forEach((column, index) => {
                 const value = this.valueService.getValue(column, rowNode);
                 const processedValue = this.processCell(rowNode, column, value, Constants.EXPORT_TYPE_CLIPBOARD, processCellForClipboardFunc);
@@ -594,7 +613,9 @@ export class ClipboardService extends BeanStub implements IClipboardService {
         };
 
         this.iterateActiveRanges(false, rowCallback, columnCallback);
-        this.copyDataToClipboard(data);
+        this.copyCellsToClipboard(
+            data, copiedRanges.map(range => this.createExportParamsForCopy(includeHeaders, range.columns, range.rowNodes))
+        );
         this.dispatchFlashCells(cellsToFlash);
     }
 
@@ -624,7 +645,7 @@ export class ClipboardService extends BeanStub implements IClipboardService {
             data = processedValue;
         }
 
-        this.copyDataToClipboard(data);
+        this.copyCellsToClipboard(data, [this.createExportParamsForCopy(includeHeaders, [column], rowNode ? [rowNode] : [])]);
         this.dispatchFlashCells({ [cellId]: true });
     }
 
@@ -692,15 +713,69 @@ export class ClipboardService extends BeanStub implements IClipboardService {
 
         const data = this.csvCreator.getDataAsCsv(params);
 
-        this.copyDataToClipboard(data);
+        this.copyCellsToClipboard(data, [this.createExportParamsForCopy(includeHeaders, columnKeys)]);
+    }
+
+    /** The params to export the copied cells as a table with, the selected rows are exported when no rows are given */
+    private createExportParamsForCopy(
+        includeHeaders: boolean, columnKeys?: (string | Column)[], rowNodes?: RowNode[]
+    ): HtmlExportParams {
+        const params: HtmlExportParams = {
+            columnKeys,
+            skipColumnHeaders: !includeHeaders,
+            skipColumnGroupHeaders: !includeHeaders,
+            processCellCallback: this.gridOptionsWrapper.getProcessCellForClipboardFunc(),
+            processHeaderCallback: this.gridOptionsWrapper.getProcessHeaderForClipboardFunc()
+        };
+
+        if (!rowNodes) {
+            params.onlySelected = true;
+            return params;
+        }
+
+        const copiedIds: { [id: string]: boolean } = {};
+
+        rowNodes.forEach(rowNode => copiedIds[rowNode.id!] = true);
+        params.shouldRowBeSkipped = ({ node }) => !copiedIds[node.id!];
+
+        return params;
+    }
+
+    /**
+     * The copied cells are also written as an HTML table with copyHtmlToClipboard, and as a Markdown table in place
+     * of the text with copyMarkdownToClipboard. There is a table for each copied range.
+     */
+    private copyCellsToClipboard(data: string, exportParams: HtmlExportParams[]): void {
+        const copyHtml = this.gridOptionsWrapper.isCopyHtmlToClipboard();
+        const copyMarkdown = this.gridOptionsWrapper.isCopyMarkdownToClipboard();
+
+        if (!copyHtml && !copyMarkdown) {
+            this.copyDataToClipboard(data);
+            return;
+        }
+
+        const getTables = (format: 'html' | 'markdown', separator: string) => exportParams
+            .map(params => this.htmlCreator.getDataAsHtml({ ...params, format }))
+            .join(separator);
+
+        this.copyDataToClipboard(
+            copyMarkdown ? getTables('markdown', '\n\n') : data,
+            copyHtml ? getTables('html', '\n') : undefined
+        );
     }
 
-    private copyDataToClipboard(data: string): void {
+    private copyDataToClipboard(data: string, html?: string): void {
         const userProvidedFunc = this.gridOptionsWrapper.getSendToClipboardFunc();
 
         // method 1 - user provided func
         if (userProvidedFunc) {
-            userProvidedFunc({ data });
+            userProvidedFunc(html != null ? { data, html } : { data });
+            return;
+        }
+
+        // the native clipboard API can only write text in the browsers we support, the copy event can also write HTML
+        if (html != null) {
+            this.copyDataToClipboardLegacy(data, html);
             return;
         }
 
@@ -725,16 +800,34 @@ export class ClipboardService extends BeanStub implements IClipboardService {
         this.copyDataToClipboardLegacy(data);
     }
 
-    private copyDataToClipboardLegacy(data: string): void {
+    private copyDataToClipboardLegacy(data: string, html?: string): void {
         // method 3 - if all else fails, the old school hack
         this.executeOnTempElement(element => {
-            const focusedElementBefore = this.gridOptionsWrapper.getDocument().activeElement as HTMLElement;
+            const eDocument = this.gridOptionsWrapper.getDocument();
+            const focusedElementBefore = eDocument.activeElement as HTMLElement;
+            const onCopy = (event: ClipboardEvent) => {
+                if (!event.clipboardData) { return; }
+
+                event.clipboardData.setData('text/plain', data);
+                event.clipboardData.setData('text/html', html!);
+                event.preventDefault();
+            };
 
             element.value = data || ' '; // has to be non-empty value or execCommand will not do anything
             element.select();
             element.focus({ preventScroll: true });
 
-            const result = document.execCommand('copy');
+            let result: boolean;
+
+            if (html != null) {
+                eDocument.addEventListener('copy', onCopy);
+            }
+
+            try {
+                result = document.execCommand('copy');
+            } finally {
+                eDocument.removeEventListener('copy', onCopy);
+            }
 
             if (!result) {
                 console.warn('ag-grid: Browser did not allow document.execCommand(\'copy\'). Ensure ' +
@@ -0,0 +1,35 @@
+import { ChartType, ExcelChart } from "@ag-grid-community/core";
+
+const CHART_TYPES: { [chartType: string]: Pick<ExcelChart, 'type' | 'grouping'> } = {
+    [ChartType.Column]: { type: 'column', grouping: 'standard' },
+    [ChartType.GroupedColumn]: { type: 'column', grouping: 'standard' },
+    [ChartType.StackedColumn]: { type: 'column', grouping: 'stacked' },
+    [ChartType.NormalizedColumn]: { type: 'column', grouping: 'percentStacked' },
+    [ChartType.Bar]: { type: 'bar', grouping: 'standard' },
+    [ChartType.GroupedBar]: { type: 'bar', grouping: 'standard' },
+    [ChartType.StackedBar]: { type: 'bar', grouping: 'stacked' },
+    [ChartType.NormalizedBar]: { type: 'bar', grouping: 'percentStacked' },
+    [ChartType.Line]: { type: 'line', grouping: 'standard' },
+    [ChartType.Scatter]: { type: 'scatter', grouping: 'standard' },
+    [ChartType.Pie]: { type: 'pie', grouping: 'standard' },
+    [ChartType.Doughnut]: { type: 'doughnut', grouping: 'standard' },
+    [ChartType.Area]: { type: 'area', grouping: 'standard' },
+    [ChartType.StackedArea]: { type: 'area', grouping: 'stacked' },
+    [ChartType.NormalizedArea]: { type: 'area', grouping: 'percentStacked' }
+};
+
+/** The Excel chart of the grid chart type, or null for the types Excel doesn't have, like histograms */
+export const getExcelChartType = (chartType: ChartType): Pick<ExcelChart, 'type' | 'grouping'> | null => {
+    return CHART_TYPES[chartType] || null;
+};
+
+/** Charts take colours as RRGGBB, so colours in other formats are left for Excel to choose */
+export const getChartColor = (color: string): string | undefined => {
+    const match = color && /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color);
+
+    if (!match) { return; }
+
+    const hex = match[1].length === 3 ? match[1].replace(/./g, char => char + char) : match[1];
+
+    return hex.toUpperCase();
+};
@@ -63,6 +63,14 @@ export interface Fill {
     bgRgb?: string;
 }
 
+/** A differential format, the parts of a cell format that conditional formatting changes */
+export interface Dxf {
+    bold?: boolean;
+    italic?: boolean;
+    fontRgb?: string;
+    fillRgb?: string;
+}
+
 export interface ExcelCalculatedImage extends ExcelImage {
     totalWidth: number;
     totalHeight: number;
@@ -1,4 +1,4 @@
-import { Column, RowHeightCallbackParams, XmlElement } from "@ag-grid-community/core";
+import { Column, ExcelFormula, RowHeightCallbackParams, XmlElement } from "@ag-grid-community/core";
 import { XmlFactory } from "@ag-grid-community/csv-export";
 import { INCH_TO_EMU } from "./excelConstants";
 import { ExcelCalculatedImage } from "./excelInterfaces";
@@ -24,6 +24,10 @@ export const getFontFamilyId = (name?: string): number | undefined => {
     return Math.max(pos, 0);
 };
 
+export const isExcelFormula = (value: any): value is ExcelFormula => {
+    return value != null && typeof value === 'object' && typeof value.formula === 'string';
+};
+
 export const getHeightFromProperty = (rowIndex: number, height?: number | ((params: RowHeightCallbackParams) => number)): number | undefined => {
     if (!height) { return; }
 
@@ -1,8 +1,11 @@
 import {
+    ChartModel,
     Column,
     ColumnWidthCallbackParams,
+    ConditionalFormattingRule,
     RowHeightCallbackParams,
     Constants,
+    ExcelConditionalFormatting,
     ExcelCell,
     ExcelColumn,
     ExcelData,
@@ -24,7 +27,7 @@ import {
     RowSpanningAccumulator,
     RowType
 } from "@ag-grid-community/csv-export";
-import { getHeightFromProperty } from "./assets/excelUtils";
+import { getExcelColumnName, getHeightFromProperty, isExcelFormula } from "./assets/excelUtils";
 
 export interface ExcelGridSerializingParams extends GridSerializingParams {
     autoConvertFormulas?: boolean;
@@ -39,6 +42,15 @@ export interface ExcelGridSerializingParams extends GridSerializingParams {
     styleLinker: (rowType: RowType, rowIndex: number, value: string, column?: Column, node?: RowNode) => string[];
     addImageToCell?: (rowIndex: number, column: Column, value: string) => { image: ExcelImage, value?: string } | undefined;
     suppressTextAsCDATA?: boolean;
+    conditionalFormattingRules?: ConditionalFormattingRule[];
+    outlineRowGroups?: boolean;
+    outlineColumnGroups?: boolean;
+    /** The number of the SUBTOTAL function that calculates the aggFunc of the column, if Excel has one */
+    getSubtotalFunction?: (column: Column) => number | null;
+    freezePanes?: boolean;
+    listValidation?: boolean;
+    protectSheet?: boolean;
+    charts?: ChartModel[];
 }
 
 interface ExcelMixedStyle {
@@ -60,6 +72,9 @@ export abstract class BaseExcelSerializingSession<T> extends BaseGridSerializing
     protected cols: ExcelColumn[];
     protected columnsToExport: Column[];
 
+    // the rows of each column with conditional formatting rules, only data rows are formatted like in the grid
+    private conditionalFormattingCells: Map<string, { colIndex: number, rowIndexes: number[]; }> = new Map();
+
     constructor(config: ExcelGridSerializingParams) {
         super(config);
         this.config = _.assign({}, config);
@@ -76,6 +91,7 @@ export abstract class BaseExcelSerializingSession<T> extends BaseGridSerializing
     protected abstract createCell(styleId: string | null, type: T, value: string): ExcelCell;
     protected abstract addImage(rowIndex: number, column: Column, value: string): { image: ExcelImage, value?: string } | undefined;
     protected abstract createMergedCell(styleId: string | null, type: T, value: string, numOfCells: number): ExcelCell;
+    protected abstract createFormulaCell(styleId: string | null, formula: string): ExcelCell;
 
     public addCustomContent(customContent: ExcelCell[][]): void {
         customContent.forEach(row => {
@@ -142,7 +158,8 @@ export abstract class BaseExcelSerializingSession<T> extends BaseGridSerializing
             table: {
                 columns: this.cols,
                 rows: this.rows
-            }
+            },
+            conditionalFormatting: this.getConditionalFormatting()
         };
 
         return this.createExcel(data);
@@ -158,6 +175,39 @@ export abstract class BaseExcelSerializingSession<T> extends BaseGridSerializing
         return this.stylesByIds[styleId] || null;
     }
 
+    private getConditionalFormatting(): ExcelConditionalFormatting[] {
+        const rules = this.config.conditionalFormattingRules || [];
+        const result: ExcelConditionalFormatting[] = [];
+
+        rules.forEach(rule => {
+            const cells = this.conditionalFormattingCells.get(rule.colId);
+
+            if (cells) {
+                result.push({ sqref: this.getRangesForRows(cells.colIndex, cells.rowIndexes), rule });
+            }
+        });
+
+        return result;
+    }
+
+    /** Joins consecutive rows into ranges, eg rows 2, 3, 4 and 6 of column B become 'B2:B4 B6' */
+    protected getRangesForRows(colIndex: number, rowIndexes: number[]): string {
+        const colName = getExcelColumnName(colIndex + 1);
+        const ranges: string[] = [];
+        let start = rowIndexes[0];
+
+        rowIndexes.forEach((rowIndex, i) => {
+            const next = rowIndexes[i + 1];
+
+            if (next === rowIndex + 1) { return; }
+
+            ranges.push(start === rowIndex ? `${colName}${start}` : `${colName}${start}:${colName}${rowIndex}`);
+            start = next;
+        });
+
+        return ranges.join(' ');
+    }
+
     private convertColumnToExcel(column: Column | null, index: number): ExcelColumn {
         const columnWidth = this.config.columnWidth;
         if (columnWidth) {
@@ -201,9 +251,18 @@ export abstract class BaseExcelSerializingSession<T> extends BaseGridSerializing
                 return;
             }
             const valueForCell = this.extractRowCellValue(column, index, rowIndex, Constants.EXPORT_TYPE_EXCEL, node);
+
+            this.addConditionalFormattingCell(column, index, rowIndex, node);
             const styleIds: string[] = this.config.styleLinker(RowType.BODY, rowIndex, valueForCell, column, node);
             const excelStyleId: string | null = this.getStyleId(styleIds);
             const colSpan = column.getColSpan(node);
+
+            // a formula from the processCellCallback isn't merged, the spanned cells are written after it
+            if (isExcelFormula(valueForCell)) {
+                currentCells.push(this.createFormulaCell(excelStyleId, valueForCell.formula));
+                return;
+            }
+
             const addedImage = this.addImage(rowIndex, column, valueForCell);
 
             if (addedImage) {
@@ -217,7 +276,23 @@ export abstract class BaseExcelSerializingSession<T> extends BaseGridSerializing
         };
     }
 
-    private getStyleId(styleIds?: string[] | null): string | null {
+    private addConditionalFormattingCell(column: Column, colIndex: number, rowIndex: number, node: RowNode): void {
+        const rules = this.config.conditionalFormattingRules;
+        const colId = column.getColId();
+
+        if (!rules || !node.data || node.group || !rules.some(rule => rule.colId === colId)) { return; }
+
+        let cells = this.conditionalFormattingCells.get(colId);
+
+        if (!cells) {
+            cells = { colIndex, rowIndexes: [] };
+            this.conditionalFormattingCells.set(colId, cells);
+        }
+
+        cells.rowIndexes.push(rowIndex);
+    }
+
+    protected getStyleId(styleIds?: string[] | null): string | null {
         if (!styleIds || !styleIds.length) { return null; }
         if (styleIds.length === 1) { return styleIds[0]; }
 
@@ -1,16 +1,22 @@
 import {
     _,
+    AgPromise,
     Autowired,
     Bean,
     Column,
     ColumnModel,
+    ConditionalFormattingService,
     ExcelCell,
     ExcelExportParams,
     ExcelFactoryMode,
+    ExcelServerSideExportParams,
     ExcelStyle,
     GridOptions,
     GridOptionsWrapper,
+    IAggFuncService,
+    IChartService,
     IExcelCreator,
+    Optional,
     PostConstruct,
     RowNode,
     StylingService,
@@ -20,16 +26,30 @@ import {
 import { ExcelXmlSerializingSession } from './excelXmlSerializingSession';
 import { ExcelXlsxSerializingSession } from './excelXlsxSerializingSession';
 import { ExcelXlsxFactory } from './excelXlsxFactory';
-import { BaseCreator, Downloader, GridSerializer, RowType, ZipContainer } from "@ag-grid-community/csv-export";
+import {
+    BaseCreator,
+    Downloader,
+    GridSerializer,
+    RowType,
+    ServerSideRowLoader,
+    ZipContainer
+} from "@ag-grid-community/csv-export";
 import { ExcelGridSerializingParams } from './baseExcelSerializingSession';
 import { ExcelXmlFactory } from './excelXmlFactory';
 
 type SerializingSession = ExcelXlsxSerializingSession | ExcelXmlSerializingSession;
 
+// the numbers of the SUBTOTAL functions for the aggFuncs, the ones that count hidden rows so collapsed groups are included
+const SUBTOTAL_FUNCTIONS: { [aggFunc: string]: number } = { avg: 1, count: 3, max: 4, min: 5, sum: 9 };
+
+// the cells of a protected sheet are locked, unless their style unlocks them
+const UNLOCKED_STYLE: ExcelStyle = { id: 'agUnlockedCell', protection: { protected: false, hideFormula: false } };
+
 export const getMultipleSheetsAsExcel = (params: ExcelExportMultipleSheetParams): Blob | undefined => {
     const { data, fontSize = 11, author = 'AG Grid' } = params;
 
     const hasImages = ExcelXlsxFactory.images.size > 0;
+    const hasCharts = ExcelXlsxFactory.worksheetCharts.size > 0;
 
     ZipContainer.addFolders([
         '_rels/',
@@ -40,14 +60,20 @@ export const getMultipleSheetsAsExcel = (params: ExcelExportMultipleSheetParams)
         'xl/worksheets/'
     ]);
 
-    if (hasImages) {
+    if (hasImages || hasCharts) {
         ZipContainer.addFolders([
             'xl/worksheets/_rels',
             'xl/drawings/',
-            'xl/drawings/_rels',
-            'xl/media/',
-
+            'xl/drawings/_rels'
         ]);
+    }
+
+    if (hasCharts) {
+        ZipContainer.addFolders(['xl/charts/']);
+    }
+
+    if (hasImages) {
+        ZipContainer.addFolders(['xl/media/']);
 
         let imgCounter = 0;
         ExcelXlsxFactory.images.forEach(value => {
@@ -64,11 +90,11 @@ export const getMultipleSheetsAsExcel = (params: ExcelExportMultipleSheetParams)
     }
 
     const sheetLen = data.length;
-    let imageRelationCounter = 0;
+    let drawingCounter = 0;
     data.forEach((value, idx) => {
         ZipContainer.addFile(`xl/worksheets/sheet${idx + 1}.xml`, value);
-        if (hasImages && ExcelXlsxFactory.worksheetImages.get(idx)) {
-            createImageRelationsForSheet(idx, imageRelationCounter++);
+        if (ExcelXlsxFactory.hasDrawing(idx)) {
+            createDrawingForSheet(idx, drawingCounter++);
         }
     });
 
@@ -94,15 +120,21 @@ export const exportMultipleSheetsAsExcel = (params: ExcelExportMultipleSheetPara
     }
 }
 
-const createImageRelationsForSheet = (sheetIndex: number, currentRelationIndex: number) => {
+const createDrawingForSheet = (sheetIndex: number, currentRelationIndex: number) => {
     const drawingFolder = 'xl/drawings';
     const drawingFileName = `${drawingFolder}/drawing${currentRelationIndex + 1}.xml`;
     const relFileName = `${drawingFolder}/_rels/drawing${currentRelationIndex + 1}.xml.rels`;
     const worksheetRelFile = `xl/worksheets/_rels/sheet${sheetIndex + 1}.xml.rels`;
+    const charts = ExcelXlsxFactory.worksheetCharts.get(sheetIndex) || [];
 
     ZipContainer.addFile(relFileName, ExcelXlsxFactory.createDrawingRel(sheetIndex));
     ZipContainer.addFile(drawingFileName, ExcelXlsxFactory.createDrawing(sheetIndex));
     ZipContainer.addFile(worksheetRelFile, ExcelXlsxFactory.createWorksheetDrawingRel(currentRelationIndex))
+
+    charts.forEach((chart, index) => {
+        const chartNumber = ExcelXlsxFactory.getChartNumber(sheetIndex, index);
+        ZipContainer.addFile(`xl/charts/chart${chartNumber}.xml`, ExcelXlsxFactory.createChart(sheetIndex, index));
+    });
 }
 
 @Bean('excelCreator')
@@ -112,8 +144,12 @@ export class ExcelCreator extends BaseCreator<ExcelCell[][], SerializingSession,
     @Autowired('valueService') private valueService: ValueService;
     @Autowired('gridOptions') private gridOptions: GridOptions;
     @Autowired('stylingService') private stylingService: StylingService;
+    @Autowired('conditionalFormattingService') private conditionalFormattingService: ConditionalFormattingService;
+    @Optional('aggFuncService') private aggFuncService: IAggFuncService;
+    @Optional('chartService') private chartService: IChartService;
 
     @Autowired('gridSerializer') private gridSerializer: GridSerializer;
+    @Autowired('serverSideRowLoader') private serverSideRowLoader: ServerSideRowLoader;
     @Autowired('gridOptionsWrapper') gridOptionsWrapper: GridOptionsWrapper;
 
     private exportMode: string = 'xlsx';
@@ -130,13 +166,13 @@ export class ExcelCreator extends BaseCreator<ExcelCell[][], SerializingSession,
         return this.gridOptionsWrapper.getDefaultExportParams('excel');
     }
 
-    public export(userParams?: ExcelExportParams): string {
+    public export(userParams?: ExcelExportParams, rows?: RowNode[]): string {
         if (this.isExportSuppressed()) {
             console.warn(`ag-grid: Export cancelled. Export is not allowed as per your configuration.`);
             return '';
         }
 
-        const { mergedParams, data } = this.getMergedParamsAndData(userParams);
+        const { mergedParams, data } = this.getMergedParamsAndData(userParams, rows);
 
         const packageFile = this.packageFile({
             data: [data],
@@ -163,6 +199,18 @@ export class ExcelCreator extends BaseCreator<ExcelCell[][], SerializingSession,
         return this.export(params);
     }
 
+    public exportDataAsExcelFromServer(params: ExcelServerSideExportParams = {}): AgPromise<boolean> {
+        if (this.isExportSuppressed()) {
+            console.warn(`ag-grid: Export cancelled. Export is not allowed as per your configuration.`);
+            return AgPromise.resolve(false);
+        }
+
+        return this.serverSideRowLoader.loadAllRows(rows => {
+            this.setExportMode(params.exportMode || 'xlsx');
+            this.export(params, rows);
+        }, params.pageSize);
+    }
+
     public getDataAsExcel(params?: ExcelExportParams): Blob | string | undefined {
         const { mergedParams, data } =  this.getMergedParamsAndData(params);
 
@@ -218,6 +266,9 @@ export class ExcelCreator extends BaseCreator<ExcelCell[][], SerializingSession,
         if (params.sheetName != null) {
             sheetName = _.utf8_encode(params.sheetName.toString().substr(0, 31));
         }
+        const excelStyles = this.gridOptions.excelStyles || [];
+        const isProtected = isXlsx && !!params.protectSheet;
+
         const config: ExcelGridSerializingParams = {
             ...params,
             sheetName,
@@ -225,13 +276,45 @@ export class ExcelCreator extends BaseCreator<ExcelCell[][], SerializingSession,
             valueService,
             gridOptionsWrapper,
             headerRowHeight: params.headerRowHeight || params.rowHeight,
-            baseExcelStyles: this.gridOptions.excelStyles || [],
-            styleLinker: this.styleLinker.bind(this)
+            baseExcelStyles: isProtected ? [...excelStyles, UNLOCKED_STYLE] : excelStyles,
+            styleLinker: isProtected ? this.unlockedStyleLinker.bind(this) : this.styleLinker.bind(this),
+            // the xml format doesn't have conditional formats
+            conditionalFormattingRules: isXlsx ? this.conditionalFormattingService.getRules() : undefined,
+            getSubtotalFunction: this.getSubtotalFunction.bind(this),
+            charts: isXlsx && params.includeCharts && this.chartService ? this.chartService.getChartModels() : undefined
         };
 
         return new (isXlsx ? ExcelXlsxSerializingSession : ExcelXmlSerializingSession)(config);
     }
 
+    /**
+     * The aggFuncs of the grid that Excel's SUBTOTAL function can calculate, unless they have been replaced by the
+     * application's aggFuncs
+     */
+    private getSubtotalFunction(column: Column): number | null {
+        const valueColumn = column.getColDef().pivotValueColumn || column;
+        const aggFunc = valueColumn.getAggFunc();
+        const userAggFuncs = this.gridOptionsWrapper.getAggFuncs() || {};
+
+        if (!aggFunc || !this.aggFuncService) { return null; }
+
+        const names = Object.keys(SUBTOTAL_FUNCTIONS).filter(name => !userAggFuncs[name]);
+        const name = typeof aggFunc === 'string'
+            ? aggFunc
+            : _.find(names, key => this.aggFuncService.getAggFunc(key) === aggFunc);
+
+        return name && names.indexOf(name) >= 0 ? SUBTOTAL_FUNCTIONS[name] : null;
+    }
+
+    /** Adds the unlocked style to the cells that are editable in the grid */
+    private unlockedStyleLinker(rowType: RowType, rowIndex: number, value: string, column: Column, node: RowNode): string[] | null {
+        const styleIds = this.styleLinker(rowType, rowIndex, value, column, node);
+
+        if (rowType !== RowType.BODY || !column.isCellEditable(node)) { return styleIds; }
+
+        return [...(styleIds || []), UNLOCKED_STYLE.id];
+    }
+
     private styleLinker(rowType: RowType, rowIndex: number, value: string, column: Column, node: RowNode): string[] | null {
         if (rowType === RowType.HEADER) { return ["header"]; }
         if (rowType === RowType.HEADER_GROUPING) { return ["header", "headerGroup"]; }
@@ -1,5 +1,6 @@
 import {
     Column,
+    ExcelChart,
     ExcelFactoryMode,
     ExcelHeaderFooterConfig,
     ExcelImage,
@@ -12,6 +13,7 @@ import {
     _
 } from '@ag-grid-community/core';
 
+import chartFactory from './files/ooxml/chart';
 import coreFactory from './files/ooxml/core';
 import contentTypesFactory from './files/ooxml/contentTypes';
 import drawingFactory from './files/ooxml/drawing';
@@ -37,6 +39,8 @@ export class ExcelXlsxFactory {
     public static images: Map<string, { sheetId: number, image: ExcelCalculatedImage[] }[]> = new Map();
     /** Maps sheets to images */
     public static worksheetImages: Map<number, ExcelCalculatedImage[]> = new Map();
+    /** Maps sheets to charts */
+    public static worksheetCharts: Map<number, ExcelChart[]> = new Map();
     /** Maps all workbook images to a global Id */
     public static workbookImageIds: ImageIdMap = new Map();
     /** Maps all sheet images to unique Ids */
@@ -54,6 +58,10 @@ export class ExcelXlsxFactory {
         this.addSheetName(worksheet);
         registerStyles(styles, this.sheetNames.length);
 
+        if (worksheet.charts && worksheet.charts.length) {
+            this.worksheetCharts.set(this.sheetNames.length - 1, worksheet.charts);
+        }
+
         return this.createWorksheet(worksheet, margins, pageSetup, headerFooterConfig);
     }
 
@@ -93,6 +101,32 @@ export class ExcelXlsxFactory {
         this.buildSheetImageMap(currentSheetIndex, calculatedImage);
     }
 
+    /** Images and charts are both in the drawing of the sheet */
+    public static hasDrawing(sheetIndex: number): boolean {
+        return !!this.worksheetImages.get(sheetIndex) || !!this.worksheetCharts.get(sheetIndex);
+    }
+
+    public static getChartCount(): number {
+        let count = 0;
+
+        this.worksheetCharts.forEach(charts => count += charts.length);
+
+        return count;
+    }
+
+    /** The charts are numbered across the workbook, in the order of the sheets */
+    public static getChartNumber(sheetIndex: number, chartIndex: number): number {
+        let chartNumber = chartIndex + 1;
+
+        this.worksheetCharts.forEach((charts, index) => {
+            if (index < sheetIndex) {
+                chartNumber += charts.length;
+            }
+        });
+
+        return chartNumber;
+    }
+
     private static buildSheetImageMap(sheetIndex: number, image: ExcelCalculatedImage): void {
         let worksheetImageIdMap = this.worksheetImageIds.get(sheetIndex);
 
@@ -145,6 +179,7 @@ export class ExcelXlsxFactory {
 
         this.images = new Map();
         this.worksheetImages = new Map();
+        this.worksheetCharts = new Map();
 
         this.workbookImageIds = new Map();
         this.worksheetImageIds = new Map();
@@ -221,16 +256,35 @@ export class ExcelXlsxFactory {
         return createXmlPart(drawingFactory.getTemplate({ sheetIndex }));
     }
 
+    public static createChart(sheetIndex: number, chartIndex: number): string {
+        const chart = this.worksheetCharts.get(sheetIndex)![chartIndex];
+
+        return createXmlPart(chartFactory.getTemplate({ chart, sheetName: this.sheetNames[sheetIndex] }));
+    }
+
     public static createDrawingRel(sheetIndex: number) {
         const worksheetImageIds = this.worksheetImageIds.get(sheetIndex);
+        const charts = this.worksheetCharts.get(sheetIndex) || [];
+        const imageCount = worksheetImageIds ? worksheetImageIds.size : 0;
         const XMLArr: ExcelRelationship[] = [];
 
-        worksheetImageIds!.forEach((value, key) => {
+        if (worksheetImageIds) {
+            worksheetImageIds.forEach((value, key) => {
+                XMLArr.push({
+                    Id: `rId${value.index + 1}`,
+                    Type: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image',
+                    Target: `../media/image${this.workbookImageIds.get(key)!.index + 1}.${value.type}`
+                })
+            });
+        }
+
+        // the charts follow the images
+        charts.forEach((chart, index) => {
             XMLArr.push({
-                Id: `rId${value.index + 1}`,
-                Type: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image',
-                Target: `../media/image${this.workbookImageIds.get(key)!.index + 1}.${value.type}`
-            })
+                Id: `rId${imageCount + index + 1}`,
+                Type: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/chart',
+                Target: `../charts/chart${this.getChartNumber(sheetIndex, index)}.xml`
+            });
         });
 
         return createXmlPart(relationshipsFactory.getTemplate(XMLArr));
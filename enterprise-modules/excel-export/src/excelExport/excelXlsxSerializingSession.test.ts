@@ -0,0 +1,172 @@
+import { ColDef, Column, ColumnModel, ExcelWorksheet, GridOptionsWrapper, RowNode, ValueService } from '@ag-grid-community/core';
+import { ExcelGridSerializingParams } from './baseExcelSerializingSession';
+import { ExcelXlsxFactory } from './excelXlsxFactory';
+import { ExcelXlsxSerializingSession } from './excelXlsxSerializingSession';
+
+function createColumn(colId: string, colDef: ColDef = {}, pinned: string | null = null): Column {
+    return {
+        getColId: () => colId,
+        getColDef: () => ({ field: colId, ...colDef }),
+        getActualWidth: () => 100,
+        getColSpan: () => 1,
+        getPinned: () => pinned,
+        getAggFunc: (): string | null => colDef.aggFunc as string || null
+    } as Partial<Column> as Column;
+}
+
+function createRowNode(props: Partial<RowNode>): RowNode {
+    return { level: 0, parent: null, ...props } as RowNode;
+}
+
+function createGroup(key: string, gold: number, parent: RowNode | null, expanded = true): RowNode {
+    return createRowNode({ key, group: true, expanded, parent, level: parent ? parent.level + 1 : 0, data: { gold } });
+}
+
+/** Serialises the rows, returning the worksheet the session gives the factory */
+function serialize(columns: Column[], rowNodes: RowNode[], params: Partial<ExcelGridSerializingParams> = {}, includeFooter = false): ExcelWorksheet {
+    const columnModel = { isPivotMode: () => false, getDisplayNameForColumn: (column: Column) => column.getColId() };
+    const valueService = { getValue: (column: Column, rowNode: RowNode) => rowNode.data ? rowNode.data[column.getColId()] : undefined };
+    const gridOptionsWrapper = {
+        isGroupMultiAutoColumn: () => false,
+        isGroupUseEntireRow: () => false,
+        isGroupIncludeFooter: () => includeFooter,
+        isGroupIncludeTotalFooter: () => false
+    };
+    const session = new ExcelXlsxSerializingSession({
+        columnModel: columnModel as Partial<ColumnModel> as ColumnModel,
+        valueService: valueService as Partial<ValueService> as ValueService,
+        gridOptionsWrapper: gridOptionsWrapper as Partial<GridOptionsWrapper> as GridOptionsWrapper,
+        baseExcelStyles: [],
+        sheetName: 'Sheet1',
+        styleLinker: () => [],
+        ...params
+    });
+    let worksheet: ExcelWorksheet | undefined;
+    const createExcel = jest.spyOn(ExcelXlsxFactory, 'createExcel').mockImplementation((styles, data) => {
+        worksheet = data;
+        return '';
+    });
+
+    session.prepare(columns);
+
+    const headerRow = session.onNewHeaderRow();
+    columns.forEach((column, index) => headerRow.onColumn(column, index, undefined));
+
+    rowNodes.forEach(rowNode => {
+        const bodyRow = session.onNewBodyRow();
+        columns.forEach((column, index) => bodyRow.onColumn(column, index, rowNode));
+    });
+
+    session.parse();
+    createExcel.mockRestore();
+
+    return worksheet!;
+}
+
+/** The formulas and values of a column, by row, with the first row of the sheet left out as it is the header */
+function getColumnValues(worksheet: ExcelWorksheet, colIndex: number): (string | null)[] {
+    return worksheet.table.rows.slice(1).map(row => {
+        const cell = row.cells[colIndex];
+
+        if (!cell || cell.data.type === 'empty') { return null; }
+
+        return cell.data.type === 'f' ? `=${cell.data.value}` : cell.data.value;
+    });
+}
+
+beforeEach(() => ExcelXlsxFactory.resetFactory());
+
+describe('outlineRowGroups', () => {
+    const columns = [createColumn('country', { showRowGroup: true }), createColumn('gold', { aggFunc: 'sum' })];
+    const getSubtotalFunction = (column: Column) => column.getColId() === 'gold' ? 9 : null;
+
+    // Europe > Ireland > a, b and Europe > France (collapsed) > c, then Asia > d
+    const europe = createGroup('Europe', 6, null);
+    const ireland = createGroup('Ireland', 3, europe);
+    const france = createGroup('France', 3, europe, false);
+    const asia = createGroup('Asia', 4, null);
+    const rowNodes = [
+        europe,
+        ireland,
+        createRowNode({ parent: ireland, level: 2, data: { country: 'a', gold: 1 } }),
+        createRowNode({ parent: ireland, level: 2, data: { country: 'b', gold: 2 } }),
+        france,
+        createRowNode({ parent: france, level: 2, data: { country: 'c', gold: 3 } }),
+        asia,
+        createRowNode({ parent: asia, level: 1, data: { country: 'd', gold: 4 } })
+    ];
+
+    it('writes SUBTOTALs of the detail rows in the rows of nested groups', () => {
+        const worksheet = serialize(columns, rowNodes, { outlineRowGroups: true, getSubtotalFunction });
+        const { rows } = worksheet.table;
+
+        expect(getColumnValues(worksheet, 1)).toEqual([
+            '=SUBTOTAL(9,B3:B7)', '=SUBTOTAL(9,B4:B5)', '1', '2', '=SUBTOTAL(9,B7:B7)', '3', '=SUBTOTAL(9,B9:B9)', '4'
+        ]);
+        expect(rows.map(row => row.outlineLevel)).toEqual([undefined, undefined, 1, 2, 2, 1, 2, undefined, 1]);
+        expect(rows[5].collapsed).toBe(true);
+        expect(rows[6].hidden).toBe(true);
+        expect(worksheet.outlineSummaryBelow).toBe(false);
+    });
+
+    it('writes SUBTOTALs in the footers of nested groups, leaving the aggregated values out of the group rows', () => {
+        const worksheet = serialize(columns, rowNodes, { outlineRowGroups: true, getSubtotalFunction }, true);
+
+        const labels = getColumnValues(worksheet, 0);
+
+        // the labels are shared strings, so the cells have their positions
+        expect([labels[4], labels[7], labels[8], labels[11]]).toEqual(
+            ['Total Ireland', 'Total France', 'Total Europe', 'Total Asia'].map(label => String(ExcelXlsxFactory.getStringPosition(label)))
+        );
+        expect(getColumnValues(worksheet, 1)).toEqual([
+            null, null, '1', '2', '=SUBTOTAL(9,B4:B5)',
+            null, '3', '=SUBTOTAL(9,B8:B8)',
+            '=SUBTOTAL(9,B3:B9)',
+            null, '4', '=SUBTOTAL(9,B12:B12)'
+        ]);
+        expect(worksheet.table.rows.map(row => row.outlineLevel)).toEqual([
+            undefined, undefined, 1, 2, 2, 1, 1, 2, 1, undefined, undefined, 1, undefined
+        ]);
+        expect(worksheet.outlineSummaryBelow).toBe(true);
+    });
+});
+
+describe('freezePanes', () => {
+    const columns = [createColumn('country', {}, 'left'), createColumn('gold')];
+    const rowNode = createRowNode({ data: { country: 'Ireland', gold: 1 } });
+
+    it('freezes the columns pinned left, and the rows above the first row that is not pinned to the top', () => {
+        const pinnedTop = createRowNode({ rowPinned: 'top', data: { country: 'Total', gold: 1 } });
+        const worksheet = serialize(columns, [pinnedTop, rowNode, rowNode], { freezePanes: true });
+
+        expect(worksheet.frozenPane).toEqual({ columns: 1, rows: 2 });
+    });
+
+    it('freezes the header rows when no rows are pinned', () => {
+        const worksheet = serialize([createColumn('country'), createColumn('gold')], [rowNode], { freezePanes: true });
+
+        expect(worksheet.frozenPane).toEqual({ columns: 0, rows: 1 });
+    });
+});
+
+describe('listValidation', () => {
+    const createMedalColumn = (values: any[]) => createColumn('medal', { cellEditor: 'agSelectCellEditor', cellEditorParams: { values } });
+    const group = createGroup('Ireland', 2, null);
+    const rowNode = createRowNode({ parent: group, level: 1, data: { country: 'Ireland', medal: 'Gold' } });
+
+    it('validates the data rows of the columns with select editors against their values', () => {
+        const columns = [createColumn('country'), createMedalColumn(['Gold', 'Silver', null])];
+        const worksheet = serialize(columns, [group, rowNode, rowNode, group, rowNode], { listValidation: true });
+
+        expect(worksheet.dataValidations).toEqual([{ sqref: 'B3:B4 B6', values: ['Gold', 'Silver', ''] }]);
+    });
+
+    it('warns about lists with commas, which Excel cannot take', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const worksheet = serialize([createMedalColumn(['Gold, first', 'Silver'])], [rowNode], { listValidation: true });
+
+        expect(worksheet.dataValidations).toEqual([]);
+        expect(warn).toHaveBeenCalledTimes(1);
+        warn.mockRestore();
+    });
+});
@@ -1,22 +1,212 @@
 import {
+    CartesianChartOptions,
+    CellRangeParams,
+    ChartModel,
     Column,
+    Constants,
     ExcelCell,
+    ExcelChart,
+    ExcelChartSeries,
+    ExcelDataValidation,
     ExcelImage,
     ExcelOOXMLDataType,
+    ExcelRow,
     ExcelStyle,
     ExcelWorksheet,
+    RowNode,
     _
 } from '@ag-grid-community/core';
+import { RowAccumulator, RowType } from '@ag-grid-community/csv-export';
 
 import { ExcelXlsxFactory } from './excelXlsxFactory';
 import { BaseExcelSerializingSession } from './baseExcelSerializingSession';
+import { getExcelColumnName, getHeightFromProperty, isExcelFormula } from './assets/excelUtils';
+import { getChartColor, getExcelChartType } from './assets/excelChartUtils';
+
+interface OutlineGroup {
+    node: RowNode;
+    row: ExcelRow;
+    /** The number of the first row in the sheet after the row of the group */
+    firstDetailRow: number;
+}
+
+interface ValidationColumn {
+    colIndex: number;
+    values: string[];
+    rowIndexes: number[];
+}
+
+interface NodeRow {
+    node: RowNode;
+    rowIndex: number;
+}
+
+// the deepest outline Excel has
+const MAX_OUTLINE_LEVEL = 7;
+
+const SELECT_CELL_EDITORS = ['agSelectCellEditor', 'agPopupSelectCellEditor', 'agRichSelectCellEditor'];
+
+// the longest list Excel takes in the formula of a data validation
+const MAX_LIST_LENGTH = 255;
+
+// the height of the rows of Excel, in pixels
+const DEFAULT_ROW_HEIGHT = 20;
+
+/** The values of the select editors, if the list can be written in a formula */
+const getListValues = (column: Column): string[] | null => {
+    const { cellEditor, cellEditorParams } = column.getColDef();
+
+    if (typeof cellEditor !== 'string' || SELECT_CELL_EDITORS.indexOf(cellEditor) < 0) { return null; }
+
+    const values = cellEditorParams && cellEditorParams.values;
+
+    if (!Array.isArray(values) || !values.length) { return null; }
+
+    const strings = values.map(value => value == null ? '' : String(value));
+
+    // commas separate the values of the list, there is no way of escaping them
+    if (strings.some(value => value.indexOf(',') >= 0) || strings.join(',').length > MAX_LIST_LENGTH) {
+        console.warn(`AG Grid: the values of column ${column.getColId()} can't be exported as a list, as they contain commas or are too long`);
+        return null;
+    }
+
+    return strings;
+};
+
+/** The columns that column groups only show when open are the details of the groups, like in the grid */
+const getColumnOutline = (column: Column): { level: number, hidden: boolean } => {
+    let columnGroupShow = column.getColumnGroupShow();
+    let parent = column.getOriginalParent();
+    let level = 0;
+    let hidden = false;
+
+    while (parent) {
+        if (columnGroupShow === 'open') {
+            level++;
+            hidden = hidden || !parent.isExpanded();
+        }
+
+        columnGroupShow = parent.getColumnGroupShow();
+        parent = parent.getOriginalParent();
+    }
+
+    return { level: Math.min(level, MAX_OUTLINE_LEVEL), hidden };
+};
+
+const isDescendant = (node: RowNode, ancestor: RowNode): boolean => {
+    let parent = node.parent;
+
+    while (parent) {
+        if (parent === ancestor) { return true; }
+        parent = parent.parent;
+    }
+
+    return false;
+};
 
 export class ExcelXlsxSerializingSession extends BaseExcelSerializingSession<ExcelOOXMLDataType> {
 
+    // the outlined row groups the current row is in, outermost first
+    private readonly outlineGroups: OutlineGroup[] = [];
+    // the first row of the total footer, once the first row has been written
+    private totalFirstRow: number | null = null;
+    private frozenColumnCount = 0;
+    // the rows above the first body row that isn't pinned to the top
+    private frozenRowCount: number | null = null;
+    private readonly validationColumns: Map<string, ValidationColumn> = new Map();
+    // the rows of the sheet the nodes are in, for the cells of the charts
+    private readonly nodeRows: NodeRow[] = [];
+
+    public prepare(columnsToExport: Column[]): void {
+        super.prepare(columnsToExport);
+
+        if (this.config.freezePanes) {
+            const firstUnpinned = _.findIndex(columnsToExport, column => column.getPinned() !== Constants.PINNED_LEFT);
+            this.frozenColumnCount = firstUnpinned < 0 ? columnsToExport.length : firstUnpinned;
+        }
+
+        if (this.config.listValidation) {
+            columnsToExport.forEach((column, colIndex) => {
+                const values = getListValues(column);
+
+                if (values) {
+                    this.validationColumns.set(column.getColId(), { colIndex, values, rowIndexes: [] });
+                }
+            });
+        }
+
+        if (!this.config.outlineColumnGroups) { return; }
+
+        columnsToExport.forEach((column, index) => {
+            const { level, hidden } = getColumnOutline(column);
+
+            if (level) {
+                this.cols[index].outlineLevel = level;
+                this.cols[index].hidden = hidden;
+            }
+        });
+    }
+
+    public onNewBodyRow(): RowAccumulator {
+        const rowAccumulator = this.config.outlineRowGroups ? this.onNewOutlinedBodyRow() : super.onNewBodyRow();
+
+        return {
+            onColumn: (column: Column, index: number, node: RowNode) => {
+                rowAccumulator.onColumn(column, index, node);
+
+                // the row has been added by now, so it's the last row
+                if (this.frozenRowCount == null && node.rowPinned !== Constants.PINNED_TOP) {
+                    this.frozenRowCount = this.rows.length - 1;
+                }
+
+                if (index === 0 && this.config.charts) {
+                    this.nodeRows.push({ node, rowIndex: this.rows.length });
+                }
+
+                const validationColumn = this.validationColumns.get(column.getColId());
+
+                // only data rows are validated, like only they are edited in the grid
+                if (validationColumn && node.data && !node.group) {
+                    validationColumn.rowIndexes.push(this.rows.length);
+                }
+            }
+        };
+    }
+
+    public parse(): string {
+        if (this.config.outlineRowGroups) {
+            this.closeOutlineGroups(null);
+        }
+
+        return super.parse();
+    }
+
     protected createExcel(data: ExcelWorksheet): string {
         const { excelStyles, config } = this;
         const { margins, pageSetup, headerFooterConfig } = config;
 
+        if (config.outlineRowGroups) {
+            // without footers the rows of the groups summarise them, and they are above their details
+            data.outlineSummaryBelow = this.isWritingFooters();
+        }
+
+        if (config.freezePanes) {
+            data.frozenPane = {
+                columns: this.frozenColumnCount,
+                rows: this.frozenRowCount != null ? this.frozenRowCount : this.rows.length
+            };
+        }
+
+        if (config.listValidation) {
+            data.dataValidations = this.getDataValidations();
+        }
+
+        data.protected = config.protectSheet;
+
+        if (config.charts) {
+            data.charts = this.getCharts(config.charts);
+        }
+
         return ExcelXlsxFactory.createExcel(
             excelStyles,
             data,
@@ -93,6 +283,297 @@ export class ExcelXlsxSerializingSession extends BaseExcelSerializingSession<Exc
         };
     }
 
+    /** Not created with createCell, which would change the type to the dataType of the style */
+    protected createFormulaCell(styleId: string | null, formula: string): ExcelCell {
+        return {
+            styleId: this.getStyleById(styleId) ? styleId! : undefined,
+            data: {
+                type: 'f',
+                value: _.startsWith(formula, '=') ? formula.slice(1) : formula
+            }
+        };
+    }
+
+    private getDataValidations(): ExcelDataValidation[] {
+        const dataValidations: ExcelDataValidation[] = [];
+
+        this.validationColumns.forEach(({ colIndex, values, rowIndexes }) => {
+            if (rowIndexes.length) {
+                dataValidations.push({ sqref: this.getRangesForRows(colIndex, rowIndexes), values });
+            }
+        });
+
+        return dataValidations;
+    }
+
+    /** The charts are placed to the right of the cells, one below the other */
+    private getCharts(chartModels: ChartModel[]): ExcelChart[] {
+        const { rowHeight } = this.config;
+        const charts: ExcelChart[] = [];
+        let row = 0;
+
+        chartModels.forEach(model => {
+            const chart = this.createChart(model, row);
+
+            if (chart) {
+                charts.push(chart);
+                row += Math.ceil(chart.height / (typeof rowHeight === 'number' ? rowHeight : DEFAULT_ROW_HEIGHT)) + 1;
+            }
+        });
+
+        return charts;
+    }
+
+    private createChart(model: ChartModel, row: number): ExcelChart | null {
+        const chartType = getExcelChartType(model.chartType);
+
+        if (!chartType) {
+            console.warn(`AG Grid: ${model.chartType} charts can't be exported to Excel`);
+            return null;
+        }
+
+        // the values of the chart aren't in the cells when the chart aggregates them
+        if (model.aggFunc) {
+            console.warn('AG Grid: charts that aggregate their values can\'t be exported to Excel');
+            return null;
+        }
+
+        const rowIndexes = this.getChartRowIndexes(model.cellRange);
+        const getColIndex = (colId: string) => _.findIndex(this.columnsToExport, column => column.getColId() === colId);
+        const valueColIndexes = (model.seriesColIds || []).map(getColIndex).filter(index => index >= 0);
+        const categoryColIndex = model.categoryColId ? getColIndex(model.categoryColId) : -1;
+
+        if (!rowIndexes.length || !valueColIndexes.length) { return null; }
+
+        const getRanges = (colIndex: number) => this.getRangesForRows(colIndex, rowIndexes);
+        const getName = (colIndex: number) => this.extractHeaderValue(this.columnsToExport[colIndex]);
+        const categories = categoryColIndex >= 0 ? getRanges(categoryColIndex) : undefined;
+        const options = model.chartOptions as CartesianChartOptions<any>;
+        const { title, xAxis, yAxis, seriesDefaults } = options;
+        let series: ExcelChartSeries[];
+
+        if (chartType.type === 'scatter') {
+            series = this.getScatterSeries(valueColIndexes, !!(seriesDefaults && seriesDefaults.paired)).map(([xColIndex, yColIndex]) => ({
+                name: `${getName(yColIndex)} vs ${getName(xColIndex)}`,
+                categories: getRanges(xColIndex),
+                values: getRanges(yColIndex)
+            }));
+        } else {
+            // a pie shows the first series only, the rings of a doughnut show them all
+            const colIndexes = chartType.type === 'pie' ? valueColIndexes.slice(0, 1) : valueColIndexes;
+
+            series = colIndexes.map(colIndex => ({ name: getName(colIndex), categories, values: getRanges(colIndex) }));
+        }
+
+        const isLine = chartType.type === 'line' || chartType.type === 'scatter';
+        const palette = seriesDefaults && (isLine ? seriesDefaults.stroke : seriesDefaults.fill);
+        const getTitle = (caption?: { enabled: boolean, text?: string }) => caption && caption.enabled ? caption.text : undefined;
+
+        return _.assign({}, chartType, {
+            title: getTitle(title),
+            xAxisTitle: xAxis ? getTitle(xAxis.title) : undefined,
+            yAxisTitle: yAxis ? getTitle(yAxis.title) : undefined,
+            series,
+            colors: ((palette && palette.colors || []) as string[]).map(getChartColor).filter(color => !!color) as string[],
+            row,
+            column: this.cols.length + 1,
+            width: (model.chart && model.chart.width) || 600,
+            height: (model.chart && model.chart.height) || 400
+        });
+    }
+
+    /** The x and y columns of the series, the first column has the x values unless the columns are in pairs */
+    private getScatterSeries(colIndexes: number[], paired: boolean): [number, number][] {
+        if (paired) {
+            return colIndexes
+                .filter((colIndex, i) => i % 2 === 0 && i + 1 < colIndexes.length)
+                .map((colIndex, i) => [colIndex, colIndexes[i * 2 + 1]] as [number, number]);
+        }
+
+        return colIndexes.slice(1).map(colIndex => [colIndexes[0], colIndex] as [number, number]);
+    }
+
+    /** The rows of the sheet with the nodes of the range, expanded groups aren't charted as their children are */
+    private getChartRowIndexes(cellRange: CellRangeParams): number[] {
+        const { rowStartIndex, rowEndIndex, rowStartPinned } = cellRange;
+        const hasRows = rowStartIndex != null && rowEndIndex != null;
+        const firstRow = hasRows ? Math.min(rowStartIndex!, rowEndIndex!) : 0;
+        const lastRow = hasRows ? Math.max(rowStartIndex!, rowEndIndex!) : Number.MAX_VALUE;
+
+        return this.nodeRows
+            .filter(({ node }) =>
+                (node.rowPinned || null) === (rowStartPinned || null) &&
+                node.rowIndex != null && node.rowIndex >= firstRow && node.rowIndex <= lastRow &&
+                !(node.group && node.expanded)
+            )
+            .map(({ rowIndex }) => rowIndex);
+    }
+
+    private onNewOutlinedBodyRow(): RowAccumulator {
+        let rowAccumulator: RowAccumulator | undefined;
+        let row: ExcelRow;
+
+        // the row is added once its node is known, as the footers of the groups that end before it go first
+        return {
+            onColumn: (column: Column, index: number, node: RowNode) => {
+                if (!rowAccumulator) {
+                    this.closeOutlineGroups(node);
+                    rowAccumulator = super.onNewBodyRow();
+                    row = this.rows[this.rows.length - 1];
+                    this.outlineRow(row, node);
+                }
+
+                const cellCount = row.cells.length;
+
+                rowAccumulator.onColumn(column, index, node);
+
+                // the aggregated values are only in the footers, so the SUBTOTALs of the outer groups don't count them twice
+                if (this.isOutlineGroup(node) && this.isWritingFooters() && row.cells.length > cellCount && this.getSubtotalFunction(column) != null) {
+                    row.cells[row.cells.length - 1].data = { type: 'empty', value: null };
+                }
+            }
+        };
+    }
+
+    private outlineRow(row: ExcelRow, node: RowNode): void {
+        const level = Math.min(this.outlineGroups.length, MAX_OUTLINE_LEVEL);
+
+        if (level) { row.outlineLevel = level; }
+        if (this.isInCollapsedGroup()) { row.hidden = true; }
+
+        if (node.rowPinned) { return; }
+
+        if (this.totalFirstRow == null && this.gridOptionsWrapper.isGroupIncludeTotalFooter()) {
+            this.totalFirstRow = this.rows.length;
+        }
+
+        if (this.isOutlineGroup(node)) {
+            this.outlineGroups.push({ node, row, firstDetailRow: this.rows.length + 1 });
+
+            // Excel puts the collapse button on the row that summarises the group
+            if (!node.expanded && !this.isWritingFooters()) {
+                row.collapsed = true;
+            }
+        }
+    }
+
+    /**
+     * Ends the groups that don't contain the node, or all of them at the end of the sheet. The aggregated values
+     * become SUBTOTAL formulas in the footers of the groups, or in the rows of the groups when there are no footers.
+     */
+    private closeOutlineGroups(node: RowNode | null): void {
+        const groups = this.outlineGroups;
+
+        while (groups.length && !(node && isDescendant(node, groups[groups.length - 1].node))) {
+            const group = groups.pop()!;
+
+            if (this.isWritingFooters()) {
+                this.addFooter(group.node, group.firstDetailRow);
+            } else {
+                this.addGroupSubtotals(group);
+            }
+        }
+
+        // the pinned rows at the bottom aren't part of the total
+        if ((!node || node.rowPinned) && this.totalFirstRow != null) {
+            this.addFooter(null, this.totalFirstRow);
+            this.totalFirstRow = null;
+        }
+    }
+
+    /** The footer of the group, or the total footer without a node */
+    private addFooter(node: RowNode | null, firstRow: number): void {
+        const lastRow = this.rows.length;
+
+        if (lastRow < firstRow) { return; }
+
+        const rowIndex = lastRow + 1;
+        const labelIndex = Math.max(_.findIndex(this.columnsToExport, column => !!column.getColDef().showRowGroup), 0);
+        const cells: ExcelCell[] = this.columnsToExport.map((column, index) => {
+            const styleIds = node ? this.config.styleLinker(RowType.BODY, rowIndex, '', column, node) : ['cell'];
+            const styleId = this.getStyleId(styleIds);
+            const subtotalFunction = this.getSubtotalFunction(column);
+
+            if (index === labelIndex) {
+                return this.createCell(styleId, 's', `Total ${node ? node.key : ''}`.trim());
+            }
+
+            if (subtotalFunction != null) {
+                return this.createSubtotalCell(styleId, subtotalFunction, index, firstRow, lastRow);
+            }
+
+            // the aggFuncs Excel doesn't have keep the values of the grid
+            if (node && this.getAggFunc(column) != null) {
+                const value = this.extractRowCellValue(column, index, rowIndex, Constants.EXPORT_TYPE_EXCEL, node);
+
+                if (isExcelFormula(value)) {
+                    return this.createFormulaCell(styleId, value.formula);
+                }
+
+                return this.createCell(styleId, this.getDataTypeForValue(value), value);
+            }
+
+            return { styleId: this.getStyleById(styleId) ? styleId! : undefined, data: { type: 'empty', value: null } };
+        });
+        const level = Math.min(this.outlineGroups.length, MAX_OUTLINE_LEVEL);
+
+        this.rows.push({
+            cells,
+            height: getHeightFromProperty(rowIndex, this.config.rowHeight),
+            outlineLevel: level || undefined,
+            hidden: this.isInCollapsedGroup() || undefined,
+            collapsed: node && !node.expanded ? true : undefined
+        });
+    }
+
+    private addGroupSubtotals(group: OutlineGroup): void {
+        const { row, firstDetailRow } = group;
+        const lastRow = this.rows.length;
+
+        // merged cells would move the cells away from their columns
+        if (lastRow < firstDetailRow || row.cells.length !== this.columnsToExport.length) { return; }
+
+        this.columnsToExport.forEach((column, index) => {
+            const subtotalFunction = this.getSubtotalFunction(column);
+
+            if (subtotalFunction != null) {
+                row.cells[index] = this.createSubtotalCell(row.cells[index].styleId || null, subtotalFunction, index, firstDetailRow, lastRow);
+            }
+        });
+    }
+
+    private createSubtotalCell(styleId: string | null, subtotalFunction: number, index: number, firstRow: number, lastRow: number): ExcelCell {
+        const columnName = getExcelColumnName(index + 1);
+
+        return this.createFormulaCell(styleId, `SUBTOTAL(${subtotalFunction},${columnName}${firstRow}:${columnName}${lastRow})`);
+    }
+
+    private isOutlineGroup(node: RowNode): boolean {
+        // in pivot mode the lowest groups are the leaves
+        return node.group === true && !node.rowPinned && !(this.columnModel.isPivotMode() && node.leafGroup);
+    }
+
+    private isInCollapsedGroup(): boolean {
+        return this.outlineGroups.some(group => !group.node.expanded);
+    }
+
+    private isWritingFooters(): boolean {
+        return this.gridOptionsWrapper.isGroupIncludeFooter();
+    }
+
+    private getAggFunc(column: Column) {
+        // the aggFunc of a pivot column is the aggFunc of its value column
+        const valueColumn = column.getColDef().pivotValueColumn || column;
+
+        return valueColumn.getAggFunc();
+    }
+
+    private getSubtotalFunction(column: Column): number | null {
+        const { getSubtotalFunction } = this.config;
+
+        return getSubtotalFunction ? getSubtotalFunction(column) : null;
+    }
+
     private getCellValue(type: ExcelOOXMLDataType, value: string | null): string | null {
         if (value == null) { return ExcelXlsxFactory.getStringPosition('').toString(); }
 
@@ -91,6 +91,16 @@ export class ExcelXmlSerializingSession extends BaseExcelSerializingSession<Exce
         }
     }
 
+    protected createFormulaCell(styleId: string | null, formula: string): ExcelCell {
+        return {
+            styleId: !!this.getStyleById(styleId) ? styleId! : undefined,
+            data: {
+                type: 'Formula',
+                value: formula
+            }
+        };
+    }
+
     protected createMergedCell(styleId: string | null, type: ExcelDataType, value: string, numOfCells: number): ExcelCell {
         return {
             styleId: !!this.getStyleById(styleId) ? styleId! : undefined,
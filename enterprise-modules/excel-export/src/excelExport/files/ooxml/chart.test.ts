@@ -0,0 +1,142 @@
+import { ChartType, ExcelChart, XmlElement } from '@ag-grid-community/core';
+import { getExcelChartType } from '../../assets/excelChartUtils';
+import { createXmlPart } from '../../assets/excelUtils';
+import chartFactory from './chart';
+
+function createChart(chartType: ChartType, chart: Partial<ExcelChart> = {}): ExcelChart {
+    return {
+        ...getExcelChartType(chartType)!,
+        series: [
+            { name: 'Gold', categories: 'A2:A4', values: 'B2:B4' },
+            { name: 'Silver', categories: 'A2:A4', values: 'C2:C4' }
+        ],
+        colors: ['FF0000', '00FF00'],
+        row: 0,
+        column: 4,
+        width: 600,
+        height: 400,
+        ...chart
+    };
+}
+
+function getTemplate(chart: ExcelChart, sheetName = 'Sheet1'): XmlElement {
+    return chartFactory.getTemplate({ chart, sheetName });
+}
+
+function findElements(element: XmlElement, name: string): XmlElement[] {
+    const found = element.name === name ? [element] : [];
+
+    return found.concat(...(element.children || []).map(child => findElements(child, name)));
+}
+
+/** The val of the first element with the name */
+function getVal(element: XmlElement, name: string): string | number | undefined {
+    const found = findElements(element, name)[0];
+
+    return found && found.properties!.rawMap.val;
+}
+
+function getPlot(element: XmlElement): XmlElement {
+    return findElements(element, 'c:plotArea')[0].children![1];
+}
+
+function getAxes(element: XmlElement): string[] {
+    return findElements(element, 'c:plotArea')[0].children!.slice(2).map(axis => `${axis.name} ${getVal(axis, 'c:axPos')}`);
+}
+
+describe('chart types', () => {
+    it('writes column and bar charts as bar charts in the direction of the bars', () => {
+        const column = getTemplate(createChart(ChartType.GroupedColumn));
+        const bar = getTemplate(createChart(ChartType.GroupedBar));
+
+        expect(getPlot(column).name).toBe('c:barChart');
+        expect(getVal(column, 'c:barDir')).toBe('col');
+        expect(getVal(column, 'c:grouping')).toBe('clustered');
+        expect(findElements(column, 'c:overlap')).toEqual([]);
+        expect(getAxes(column)).toEqual(['c:catAx b', 'c:valAx l']);
+
+        expect(getVal(bar, 'c:barDir')).toBe('bar');
+        expect(getAxes(bar)).toEqual(['c:catAx l', 'c:valAx b']);
+    });
+
+    it('overlaps the bars of stacked and normalised charts', () => {
+        const stacked = getTemplate(createChart(ChartType.StackedColumn));
+        const normalized = getTemplate(createChart(ChartType.NormalizedBar));
+
+        expect(getVal(stacked, 'c:grouping')).toBe('stacked');
+        expect(getVal(stacked, 'c:overlap')).toBe(100);
+        expect(getVal(normalized, 'c:grouping')).toBe('percentStacked');
+        expect(getVal(normalized, 'c:overlap')).toBe(100);
+    });
+
+    it('writes line charts with coloured lines and markers', () => {
+        const line = getTemplate(createChart(ChartType.Line));
+        const series = findElements(line, 'c:ser')[0];
+
+        expect(getPlot(line).name).toBe('c:lineChart');
+        expect(findElements(series, 'a:ln')[0].properties!.rawMap.w).toBe(28575);
+        expect(getVal(findElements(series, 'a:ln')[0], 'a:srgbClr')).toBe('FF0000');
+        expect(getVal(series, 'c:symbol')).toBe('circle');
+        expect(getVal(series, 'c:smooth')).toBe(0);
+    });
+
+    it('writes the grouping of area charts', () => {
+        expect(getPlot(getTemplate(createChart(ChartType.Area))).name).toBe('c:areaChart');
+        expect(getVal(getTemplate(createChart(ChartType.StackedArea)), 'c:grouping')).toBe('stacked');
+        expect(getVal(getTemplate(createChart(ChartType.NormalizedArea)), 'c:grouping')).toBe('percentStacked');
+    });
+
+    it('writes scatter charts with number values on both axes', () => {
+        const scatter = getTemplate(createChart(ChartType.Scatter, {
+            series: [{ name: 'Silver vs Gold', categories: 'B2:B4', values: 'C2:C4' }]
+        }));
+        const series = findElements(scatter, 'c:ser')[0];
+
+        expect(getPlot(scatter).name).toBe('c:scatterChart');
+        expect(getVal(scatter, 'c:scatterStyle')).toBe('lineMarker');
+        expect(findElements(series, 'c:xVal')[0].children![0].name).toBe('c:numRef');
+        expect(findElements(series, 'c:yVal').length).toBe(1);
+        expect(findElements(series, 'c:cat')).toEqual([]);
+        expect(getAxes(scatter)).toEqual(['c:valAx b', 'c:valAx l']);
+    });
+
+    it('colours each slice of pie and doughnut charts, without axes', () => {
+        const pie = getTemplate(createChart(ChartType.Pie, { series: [{ name: 'Gold', categories: 'A2:A4', values: 'B2:B3 B5' }] }));
+        const doughnut = getTemplate(createChart(ChartType.Doughnut));
+        const slices = findElements(pie, 'c:dPt');
+
+        expect(getPlot(pie).name).toBe('c:pieChart');
+        expect(slices.map(slice => getVal(slice, 'a:srgbClr'))).toEqual(['FF0000', '00FF00', 'FF0000']);
+        expect(getAxes(pie)).toEqual([]);
+
+        expect(getPlot(doughnut).name).toBe('c:doughnutChart');
+        expect(getVal(doughnut, 'c:holeSize')).toBe(50);
+        expect(findElements(doughnut, 'c:ser').length).toBe(2);
+    });
+
+    it('has an Excel chart for the grid chart types Excel has', () => {
+        expect(getExcelChartType(ChartType.Histogram)).toBeNull();
+    });
+});
+
+describe('references', () => {
+    it('refers to the cells of the sheet with absolute references, quoting the name of the sheet', () => {
+        const chart = createChart(ChartType.GroupedColumn, { series: [{ name: 'Gold & Silver', categories: 'A2:A4', values: 'B2:B3 B5' }] });
+        const xml = createXmlPart(getTemplate(chart, 'O\'Brien\'s'));
+
+        expect(xml).toContain('<c:f>&#39;O&#39;&#39;Brien&#39;&#39;s&#39;!$A$2:$A$4</c:f>');
+        expect(xml).toContain(
+            '<c:f>(&#39;O&#39;&#39;Brien&#39;&#39;s&#39;!$B$2:$B$3,&#39;O&#39;&#39;Brien&#39;&#39;s&#39;!$B$5)</c:f>'
+        );
+        expect(xml).toContain('<c:v>Gold &amp; Silver</c:v>');
+    });
+
+    it('only has a title when the chart has one', () => {
+        expect(getVal(getTemplate(createChart(ChartType.Line)), 'c:autoTitleDeleted')).toBe(1);
+
+        const titled = getTemplate(createChart(ChartType.Line, { title: 'Medals', xAxisTitle: 'Country' }));
+
+        expect(findElements(titled, 'a:t').map(text => text.textNode)).toEqual(['Medals', 'Country']);
+        expect(getVal(titled, 'c:autoTitleDeleted')).toBe(0);
+    });
+});
@@ -0,0 +1,255 @@
+import { ExcelChart, ExcelChartSeries, ExcelOOXMLTemplate, XmlElement, _ } from '@ag-grid-community/core';
+
+// the ids the axes refer to each other by
+const CATEGORY_AXIS_ID = 1;
+const VALUE_AXIS_ID = 2;
+
+const getVal = (name: string, val: string | number): XmlElement => ({
+    name,
+    properties: { rawMap: { val } }
+});
+
+const getColor = (color: string): XmlElement => ({
+    name: 'a:solidFill',
+    children: [{
+        name: 'a:srgbClr',
+        properties: { rawMap: { val: color } }
+    }]
+});
+
+/** The space separated ranges as absolute references to the cells of the sheet, eg 'Sheet'!$A$2:$A$5 */
+const getReference = (sheetName: string, ranges: string): string => {
+    const sheet = `'${sheetName.replace(/'/g, "''")}'`;
+    const references = ranges.split(' ').map(range =>
+        `${sheet}!${range.split(':').map(cell => cell.replace(/^([A-Z]+)(\d+)$/, '$$$1$$$2')).join(':')}`
+    );
+
+    return references.length > 1 ? `(${references.join(',')})` : references[0];
+};
+
+const getCellCount = (ranges: string): number => {
+    return ranges.split(' ').reduce((count, range) => {
+        const rows = range.split(':').map(cell => parseInt(cell.replace(/^[A-Z]+/, ''), 10));
+
+        return count + (rows.length > 1 ? rows[1] - rows[0] + 1 : 1);
+    }, 0);
+};
+
+const getTitle = (text?: string): XmlElement[] => {
+    if (!text) { return []; }
+
+    return [{
+        name: 'c:title',
+        children: [{
+            name: 'c:tx',
+            children: [{
+                name: 'c:rich',
+                children: [{ name: 'a:bodyPr' }, {
+                    name: 'a:p',
+                    children: [{
+                        name: 'a:r',
+                        children: [{ name: 'a:t', textNode: _.escapeString(_.utf8_encode(text)) }]
+                    }]
+                }]
+            }]
+        }, getVal('c:overlay', 0)]
+    }];
+};
+
+const getReferenceElement = (name: string, refName: string, sheetName: string, ranges: string): XmlElement => ({
+    name,
+    children: [{
+        name: refName,
+        children: [{ name: 'c:f', textNode: _.escapeString(getReference(sheetName, ranges)) }]
+    }]
+});
+
+const getShapeProperties = (chart: ExcelChart, color: string): XmlElement => {
+    // the series of line and scatter charts are drawn as lines and markers, the others are filled
+    if (chart.type === 'line') {
+        return { name: 'c:spPr', children: [{ name: 'a:ln', properties: { rawMap: { w: 28575 } }, children: [getColor(color)] }] };
+    }
+
+    if (chart.type === 'scatter') {
+        return { name: 'c:spPr', children: [{ name: 'a:ln', children: [{ name: 'a:noFill' }] }] };
+    }
+
+    return { name: 'c:spPr', children: [getColor(color)] };
+};
+
+const getSeries = (chart: ExcelChart, series: ExcelChartSeries, index: number, sheetName: string): XmlElement => {
+    const { colors, type } = chart;
+    const color = colors[index % colors.length];
+    const isScatter = type === 'scatter';
+    const isPie = type === 'pie' || type === 'doughnut';
+    const children: XmlElement[] = [
+        getVal('c:idx', index),
+        getVal('c:order', index),
+        { name: 'c:tx', children: [{ name: 'c:v', textNode: _.escapeString(_.utf8_encode(series.name)) }] }
+    ];
+
+    if (!isPie && color) {
+        children.push(getShapeProperties(chart, color));
+    }
+
+    if (type === 'line' || isScatter) {
+        children.push({
+            name: 'c:marker',
+            children: [getVal('c:symbol', 'circle'), getVal('c:size', isScatter ? 7 : 5)].concat(
+                color ? [{ name: 'c:spPr', children: [getColor(color)] }] : []
+            )
+        });
+    }
+
+    if (type === 'bar' || type === 'column') {
+        children.push(getVal('c:invertIfNegative', 0));
+    }
+
+    // the slices of pies take the colours in turn, rather than the series
+    if (isPie && colors.length) {
+        const count = getCellCount(series.values);
+
+        for (let i = 0; i < count; i++) {
+            children.push({
+                name: 'c:dPt',
+                children: [getVal('c:idx', i), getVal('c:bubble3D', 0), { name: 'c:spPr', children: [getColor(colors[i % colors.length])] }]
+            });
+        }
+    }
+
+    if (series.categories) {
+        children.push(isScatter
+            ? getReferenceElement('c:xVal', 'c:numRef', sheetName, series.categories)
+            : getReferenceElement('c:cat', 'c:strRef', sheetName, series.categories));
+    }
+
+    children.push(getReferenceElement(isScatter ? 'c:yVal' : 'c:val', 'c:numRef', sheetName, series.values));
+
+    if (type === 'line' || isScatter) {
+        children.push(getVal('c:smooth', 0));
+    }
+
+    return { name: 'c:ser', children };
+};
+
+const getPlot = (chart: ExcelChart, sheetName: string): XmlElement => {
+    const { type, grouping } = chart;
+    const series = chart.series.map((s, index) => getSeries(chart, s, index, sheetName));
+    const axisIds = [getVal('c:axId', CATEGORY_AXIS_ID), getVal('c:axId', VALUE_AXIS_ID)];
+    const isStacked = grouping !== 'standard';
+
+    switch (type) {
+        case 'column':
+        case 'bar':
+            return {
+                name: 'c:barChart',
+                children: [
+                    getVal('c:barDir', type === 'bar' ? 'bar' : 'col'),
+                    getVal('c:grouping', isStacked ? grouping : 'clustered'),
+                    getVal('c:varyColors', 0),
+                    ...series,
+                    getVal('c:gapWidth', 150),
+                    // the bars of stacked charts are on top of each other, rather than side by side
+                    ...(isStacked ? [getVal('c:overlap', 100)] : []),
+                    ...axisIds
+                ]
+            };
+        case 'line':
+            return {
+                name: 'c:lineChart',
+                children: [getVal('c:grouping', 'standard'), getVal('c:varyColors', 0), ...series, getVal('c:marker', 1), ...axisIds]
+            };
+        case 'area':
+            return {
+                name: 'c:areaChart',
+                children: [getVal('c:grouping', grouping), getVal('c:varyColors', 0), ...series, ...axisIds]
+            };
+        case 'scatter':
+            return {
+                name: 'c:scatterChart',
+                children: [getVal('c:scatterStyle', 'lineMarker'), getVal('c:varyColors', 0), ...series, ...axisIds]
+            };
+        case 'pie':
+            return {
+                name: 'c:pieChart',
+                children: [getVal('c:varyColors', 1), ...series, getVal('c:firstSliceAng', 0)]
+            };
+        case 'doughnut':
+            return {
+                name: 'c:doughnutChart',
+                children: [getVal('c:varyColors', 1), ...series, getVal('c:firstSliceAng', 0), getVal('c:holeSize', 50)]
+            };
+    }
+};
+
+const getAxis = (name: string, id: number, crossId: number, position: string, title?: string, gridLines?: boolean): XmlElement => {
+    const children: XmlElement[] = [
+        getVal('c:axId', id),
+        { name: 'c:scaling', children: [getVal('c:orientation', 'minMax')] },
+        getVal('c:delete', 0),
+        getVal('c:axPos', position)
+    ];
+
+    if (gridLines) {
+        children.push({ name: 'c:majorGridlines' });
+    }
+
+    children.push(...getTitle(title), getVal('c:tickLblPos', 'nextTo'), getVal('c:crossAx', crossId), getVal('c:crosses', 'autoZero'));
+
+    if (name === 'c:valAx') {
+        children.push(getVal('c:crossBetween', 'between'));
+    }
+
+    return { name, children };
+};
+
+const getAxes = (chart: ExcelChart): XmlElement[] => {
+    const { type, xAxisTitle, yAxisTitle } = chart;
+
+    if (type === 'pie' || type === 'doughnut') { return []; }
+
+    // the categories of bar charts are on the left, and the x values of scatter charts are numbers too
+    const isBar = type === 'bar';
+    const xAxis = type === 'scatter' ? 'c:valAx' : 'c:catAx';
+
+    return [
+        getAxis(xAxis, CATEGORY_AXIS_ID, VALUE_AXIS_ID, isBar ? 'l' : 'b', xAxisTitle),
+        getAxis('c:valAx', VALUE_AXIS_ID, CATEGORY_AXIS_ID, isBar ? 'b' : 'l', yAxisTitle, true)
+    ];
+};
+
+const chartFactory: ExcelOOXMLTemplate = {
+    getTemplate(config: { chart: ExcelChart, sheetName: string }) {
+        const { chart, sheetName } = config;
+
+        return {
+            name: 'c:chartSpace',
+            properties: {
+                rawMap: {
+                    'xmlns:c': 'http://schemas.openxmlformats.org/drawingml/2006/chart',
+                    'xmlns:a': 'http://schemas.openxmlformats.org/drawingml/2006/main',
+                    'xmlns:r': 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+                }
+            },
+            children: [
+                getVal('c:roundedCorners', 0),
+                {
+                    name: 'c:chart',
+                    children: [
+                        ...getTitle(chart.title),
+                        getVal('c:autoTitleDeleted', chart.title ? 0 : 1),
+                        {
+                            name: 'c:plotArea',
+                            children: [{ name: 'c:layout' }, getPlot(chart, sheetName), ...getAxes(chart)]
+                        },
+                        { name: 'c:legend', children: [getVal('c:legendPos', 'r'), getVal('c:overlay', 0)] },
+                        getVal('c:plotVisOnly', 1),
+                        getVal('c:dispBlanksAs', 'gap')
+                    ]
+                }
+            ]
+        };
+    }
+};
+
+export default chartFactory;
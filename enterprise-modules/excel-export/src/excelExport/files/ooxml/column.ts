@@ -5,7 +5,7 @@ const getExcelCellWidth = (width: number): number => Math.ceil((width - 12) / 7
 
 const columnFactory: ExcelOOXMLTemplate = {
     getTemplate(config: ExcelColumn) {
-        const {min, max, s, width, hidden, bestFit} = config;
+        const {min, max, s, width, hidden, bestFit, outlineLevel} = config;
         let excelWidth = 1;
         let customWidth = '0';
 
@@ -24,7 +24,8 @@ const columnFactory: ExcelOOXMLTemplate = {
                     style: s,
                     hidden: hidden ? '1' : '0',
                     bestFit: bestFit ? '1' : '0',
-                    customWidth: customWidth
+                    customWidth: customWidth,
+                    outlineLevel: outlineLevel || undefined
                 }
             }
         };
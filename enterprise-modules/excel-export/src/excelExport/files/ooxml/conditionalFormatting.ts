@@ -0,0 +1,180 @@
+import {
+    CellValueFormattingRule,
+    ConditionalFormattingStyle,
+    ExcelConditionalFormatting,
+    ExcelOOXMLTemplate,
+    XmlElement,
+    _
+} from '@ag-grid-community/core';
+import { registerDxf } from './styles/stylesheet';
+import { convertLegacyColor } from '../../assets/excelLegacyConvert';
+
+const iconSetNames: { [iconSet: string]: string } = {
+    arrows: '3Arrows',
+    trafficLights: '3TrafficLights1',
+    flags: '3Flags'
+};
+
+const cellIsOperators: { [operator: string]: string } = {
+    equals: 'equal',
+    notEqual: 'notEqual',
+    greaterThan: 'greaterThan',
+    greaterThanOrEqual: 'greaterThanOrEqual',
+    lessThan: 'lessThan',
+    lessThanOrEqual: 'lessThanOrEqual',
+    between: 'between',
+    notBetween: 'notBetween'
+};
+
+const getArgb = (color: string): string | undefined => {
+    const hex = color && color.charAt(0) === '#' ? color.substr(1) : color;
+
+    // short hex colours aren't understood by Excel, so are written out in full
+    return convertLegacyColor(hex && hex.length === 3 ? hex.replace(/./g, char => char + char) : hex);
+};
+
+const getDxfId = (style: ConditionalFormattingStyle): number => registerDxf({
+    bold: style.bold || undefined,
+    italic: style.italic || undefined,
+    fontRgb: style.color ? getArgb(style.color) : undefined,
+    fillRgb: style.backgroundColor ? getArgb(style.backgroundColor) : undefined
+});
+
+const getFormulaValue = (value: number | string | undefined): string => {
+    if (typeof value === 'number' || _.isNumeric(value)) { return String(value); }
+
+    return _.escapeString(`"${String(value).replace(/"/g, '""')}"`)!;
+};
+
+const createCellValueRule = (rule: CellValueFormattingRule, firstCell: string, priority: number): XmlElement => {
+    const dxfId = getDxfId(rule.style);
+
+    if (rule.operator === 'contains') {
+        const text = String(rule.value);
+
+        return {
+            name: 'cfRule',
+            properties: {
+                rawMap: { type: 'containsText', dxfId, priority, operator: 'containsText', text: _.escapeString(text) }
+            },
+            children: [{
+                name: 'formula',
+                textNode: `NOT(ISERROR(SEARCH(${getFormulaValue(text)},${firstCell})))`
+            }]
+        };
+    }
+
+    const formulas: (number | string | undefined)[] = [rule.value];
+
+    if (rule.operator === 'between' || rule.operator === 'notBetween') {
+        formulas.push(rule.valueTo);
+    }
+
+    return {
+        name: 'cfRule',
+        properties: {
+            rawMap: { type: 'cellIs', dxfId, priority, operator: cellIsOperators[rule.operator] }
+        },
+        children: formulas.map(formula => ({ name: 'formula', textNode: getFormulaValue(formula) }))
+    };
+};
+
+const createCfvo = (type: string, val?: number): XmlElement => ({
+    name: 'cfvo',
+    properties: { rawMap: { type, val } }
+});
+
+const createColor = (color: string): XmlElement => ({
+    name: 'color',
+    properties: { rawMap: { rgb: getArgb(color) } }
+});
+
+const createRule = (conditionalFormatting: ExcelConditionalFormatting, priority: number): XmlElement => {
+    const { rule, sqref } = conditionalFormatting;
+    // relative references in formulas are written from the top left cell of the ranges
+    const firstCell = sqref.split(/[ :]/)[0];
+
+    switch (rule.type) {
+        case 'cellValue':
+            return createCellValueRule(rule, firstCell, priority);
+        case 'topBottom':
+            return {
+                name: 'cfRule',
+                properties: {
+                    rawMap: {
+                        type: 'top10',
+                        dxfId: getDxfId(rule.style),
+                        priority,
+                        rank: rule.rank,
+                        bottom: rule.bottom ? 1 : undefined,
+                        percent: rule.percent ? 1 : undefined
+                    }
+                }
+            };
+        case 'average':
+            return {
+                name: 'cfRule',
+                properties: {
+                    rawMap: { type: 'aboveAverage', dxfId: getDxfId(rule.style), priority, aboveAverage: rule.below ? 0 : undefined }
+                }
+            };
+        case 'duplicates':
+            return {
+                name: 'cfRule',
+                properties: {
+                    rawMap: { type: rule.unique ? 'uniqueValues' : 'duplicateValues', dxfId: getDxfId(rule.style), priority }
+                }
+            };
+        case 'colorScale': {
+            const cfvos = rule.colors.length > 2
+                ? [createCfvo('min'), createCfvo('percent', 50), createCfvo('max')]
+                : [createCfvo('min'), createCfvo('max')];
+
+            return {
+                name: 'cfRule',
+                properties: { rawMap: { type: 'colorScale', priority } },
+                children: [{
+                    name: 'colorScale',
+                    children: [...cfvos, ...rule.colors.slice(0, cfvos.length).map(createColor)]
+                }]
+            };
+        }
+        case 'dataBar':
+            return {
+                name: 'cfRule',
+                properties: { rawMap: { type: 'dataBar', priority } },
+                children: [{
+                    name: 'dataBar',
+                    // the bars go from empty to the full width of the cell, as they do in the grid
+                    properties: { rawMap: { minLength: 0, maxLength: 100 } },
+                    children: [createCfvo('min'), createCfvo('max'), createColor(rule.color)]
+                }]
+            };
+        case 'iconSet':
+            return {
+                name: 'cfRule',
+                properties: { rawMap: { type: 'iconSet', priority } },
+                children: [{
+                    name: 'iconSet',
+                    properties: { rawMap: { iconSet: iconSetNames[rule.iconSet] } },
+                    children: [createCfvo('percent', 0), createCfvo('percent', 33), createCfvo('percent', 67)]
+                }]
+            };
+    }
+};
+
+const conditionalFormattingFactory: ExcelOOXMLTemplate = {
+    getTemplate(conditionalFormatting: ExcelConditionalFormatting, priority: number) {
+        return {
+            name: 'conditionalFormatting',
+            properties: {
+                rawMap: {
+                    sqref: conditionalFormatting.sqref
+                }
+            },
+            children: [createRule(conditionalFormatting, priority)]
+        };
+    }
+};
+
+export default conditionalFormattingFactory;
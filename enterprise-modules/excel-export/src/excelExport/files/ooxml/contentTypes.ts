@@ -11,19 +11,25 @@ const contentTypesFactory: ExcelOOXMLTemplate = {
             PartName: `/xl/worksheets/sheet${i + 1}.xml`
         }));
 
-        const sheetsWithImages = ExcelXlsxFactory.worksheetImages.size;
+        const sheetsWithDrawings = worksheets.filter((v, i) => ExcelXlsxFactory.hasDrawing(i)).length;
         const imageTypesObject: { [ key: string ]: boolean} = {};
 
         ExcelXlsxFactory.workbookImageIds.forEach((v) => {
             imageTypesObject[v.type] = true;
         });
 
-        const imageDocs = _.fill(new Array(sheetsWithImages), undefined).map((v, i) => ({
+        const imageDocs = _.fill(new Array(sheetsWithDrawings), undefined).map((v, i) => ({
             name: 'Override',
             ContentType: 'application/vnd.openxmlformats-officedocument.drawing+xml',
             PartName: `/xl/drawings/drawing${i + 1}.xml`
         }));
 
+        const chartDocs = _.fill(new Array(ExcelXlsxFactory.getChartCount()), undefined).map((v, i) => ({
+            name: 'Override',
+            ContentType: 'application/vnd.openxmlformats-officedocument.drawingml.chart+xml',
+            PartName: `/xl/charts/chart${i + 1}.xml`
+        }));
+
         const imageTypes = Object.keys(imageTypesObject).map(ext => ({
             name: 'Default',
             ContentType: `image/${ext}`,
@@ -60,6 +66,7 @@ const contentTypesFactory: ExcelOOXMLTemplate = {
                 PartName: '/xl/sharedStrings.xml'
             },
             ...imageDocs,
+            ...chartDocs,
             {
                 name: 'Override',
                 ContentType: 'application/vnd.openxmlformats-package.core-properties+xml',
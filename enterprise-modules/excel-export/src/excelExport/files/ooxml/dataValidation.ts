@@ -0,0 +1,26 @@
+import { ExcelDataValidation, ExcelOOXMLTemplate, _ } from '@ag-grid-community/core';
+
+const dataValidationFactory: ExcelOOXMLTemplate = {
+    getTemplate(dataValidation: ExcelDataValidation) {
+        // the list is a single string in the formula, so quotes in the values are doubled like in any formula string
+        const list = dataValidation.values.map(value => value.replace(/"/g, '""')).join(',');
+
+        return {
+            name: 'dataValidation',
+            properties: {
+                rawMap: {
+                    type: 'list',
+                    allowBlank: 1,
+                    showErrorMessage: 1,
+                    sqref: dataValidation.sqref
+                }
+            },
+            children: [{
+                name: 'formula1',
+                textNode: _.escapeString(`"${list}"`)
+            }]
+        };
+    }
+};
+
+export default dataValidationFactory;
@@ -1,4 +1,4 @@
-import { ExcelImage, ExcelOOXMLTemplate, XmlElement } from '@ag-grid-community/core';
+import { ExcelChart, ExcelImage, ExcelOOXMLTemplate, XmlElement } from '@ag-grid-community/core';
 import { ExcelXlsxFactory } from '../../excelXlsxFactory';
 import { ExcelCalculatedImage, ImageAnchor, ImageBoxSize, ImageColor } from '../../assets/excelInterfaces';
 import { pixelsToEMU } from '../../assets/excelUtils';
@@ -295,15 +295,84 @@ const getPicture = (
     }
 }
 
+const getChartFrame = (chart: ExcelChart, id: number, relationIndex: number): XmlElement => ({
+    name: 'xdr:oneCellAnchor',
+    children: [
+        getAnchor('from', { row: chart.row, col: chart.column, offsetX: 0, offsetY: 0 }),
+        {
+            name: 'xdr:ext',
+            properties: {
+                rawMap: {
+                    cx: pixelsToEMU(chart.width),
+                    cy: pixelsToEMU(chart.height)
+                }
+            }
+        }, {
+            name: 'xdr:graphicFrame',
+            properties: {
+                rawMap: {
+                    macro: ''
+                }
+            },
+            children: [{
+                name: 'xdr:nvGraphicFramePr',
+                children: [{
+                    name: 'xdr:cNvPr',
+                    properties: {
+                        rawMap: {
+                            id,
+                            name: `Chart ${id}`
+                        }
+                    }
+                }, {
+                    name: 'xdr:cNvGraphicFramePr'
+                }]
+            }, {
+                name: 'xdr:xfrm',
+                children: [{
+                    name: 'a:off',
+                    properties: { rawMap: { x: 0, y: 0 } }
+                }, {
+                    name: 'a:ext',
+                    properties: { rawMap: { cx: 0, cy: 0 } }
+                }]
+            }, {
+                name: 'a:graphic',
+                children: [{
+                    name: 'a:graphicData',
+                    properties: {
+                        rawMap: {
+                            uri: 'http://schemas.openxmlformats.org/drawingml/2006/chart'
+                        }
+                    },
+                    children: [{
+                        name: 'c:chart',
+                        properties: {
+                            rawMap: {
+                                'xmlns:c': 'http://schemas.openxmlformats.org/drawingml/2006/chart',
+                                'xmlns:r': 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+                                'r:id': `rId${relationIndex}`
+                            }
+                        }
+                    }]
+                }]
+            }]
+        },
+        { name: 'xdr:clientData' }
+    ]
+});
+
 const drawingFactory: ExcelOOXMLTemplate = {
     getTemplate(config: {
         sheetIndex: number
     }) {
         const { sheetIndex } = config;
-        const sheetImages = ExcelXlsxFactory.worksheetImages.get(sheetIndex);
+        const sheetImages = ExcelXlsxFactory.worksheetImages.get(sheetIndex) || [];
         const sheetImageIds = ExcelXlsxFactory.worksheetImageIds.get(sheetIndex);
+        const sheetCharts = ExcelXlsxFactory.worksheetCharts.get(sheetIndex) || [];
+        const imageRelationCount = sheetImageIds ? sheetImageIds.size : 0;
 
-        const children = sheetImages!.map((image, idx) => {
+        const children: XmlElement[] = sheetImages.map((image, idx) => {
             const boxSize = getImageBoxSize(image);
             return ({
                 name: 'xdr:twoCellAnchor',
@@ -321,6 +390,11 @@ const drawingFactory: ExcelOOXMLTemplate = {
             });
         });
 
+        // the ids of the charts follow those of the images, as do their relationships
+        sheetCharts.forEach((chart, idx) => {
+            children.push(getChartFrame(chart, sheetImages.length + idx + 1, imageRelationCount + idx + 1));
+        });
+
         return {
             name: 'xdr:wsDr',
             properties: {
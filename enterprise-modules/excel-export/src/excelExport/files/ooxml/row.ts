@@ -40,7 +40,7 @@ const shouldDisplayCell = (cell: ExcelCell) => cell.data.value !== '' || cell.st
 
 const rowFactory: ExcelOOXMLTemplate = {
     getTemplate(config: ExcelRow, idx: number, currentSheet: number) {
-        const { index, collapsed, hidden, height, s, cells = [] } = config;
+        const { index, collapsed, hidden, height, outlineLevel, s, cells = [] } = config;
         addEmptyCells(cells, idx);
         const children = cells.filter(shouldDisplayCell).map((cell, idx) => cellFactory.getTemplate(cell, idx, currentSheet));
 
@@ -54,7 +54,8 @@ const rowFactory: ExcelOOXMLTemplate = {
                     ht: height,
                     customHeight: height != null ? '1' : '0',
                     s,
-                    customFormat: s != null ? '1' : '0'
+                    customFormat: s != null ? '1' : '0',
+                    outlineLevel: outlineLevel || undefined
                 }
             },
             children
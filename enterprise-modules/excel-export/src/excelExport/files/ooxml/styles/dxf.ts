@@ -0,0 +1,35 @@
+import { ExcelOOXMLTemplate, XmlElement } from '@ag-grid-community/core';
+import { Dxf } from '../../../assets/excelInterfaces';
+
+const dxfFactory: ExcelOOXMLTemplate = {
+    getTemplate(dxf: Dxf) {
+        const { bold, italic, fontRgb, fillRgb } = dxf;
+        const children: XmlElement[] = [];
+        const fontChildren: XmlElement[] = [];
+
+        if (bold) { fontChildren.push({ name: 'b' }); }
+        if (italic) { fontChildren.push({ name: 'i' }); }
+        if (fontRgb) {
+            fontChildren.push({ name: 'color', properties: { rawMap: { rgb: fontRgb } } });
+        }
+
+        if (fontChildren.length) {
+            children.push({ name: 'font', children: fontChildren });
+        }
+
+        // unlike cell fills, the colour of a solid fill in a dxf is the background colour
+        if (fillRgb) {
+            children.push({
+                name: 'fill',
+                children: [{
+                    name: 'patternFill',
+                    children: [{ name: 'bgColor', properties: { rawMap: { rgb: fillRgb } } }]
+                }]
+            });
+        }
+
+        return { name: 'dxf', children };
+    }
+};
+
+export default dxfFactory;
@@ -0,0 +1,19 @@
+import { ExcelOOXMLTemplate } from '@ag-grid-community/core';
+import { Dxf } from '../../../assets/excelInterfaces';
+import dxfFactory from './dxf';
+
+const dxfsFactory: ExcelOOXMLTemplate = {
+    getTemplate(dxfs: Dxf[]) {
+        return {
+            name: "dxfs",
+            properties: {
+                rawMap: {
+                    count: dxfs.length
+                }
+            },
+            children: dxfs.map(dxf => dxfFactory.getTemplate(dxf))
+        };
+    }
+};
+
+export default dxfsFactory;
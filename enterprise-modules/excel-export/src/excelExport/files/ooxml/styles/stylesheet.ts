@@ -6,10 +6,11 @@ import bordersFactory from './borders';
 import cellStylesXfsFactory from './cellStyleXfs';
 import cellXfsFactory from './cellXfs';
 import cellStylesFactory from './cellStyles';
+import dxfsFactory from './dxfs';
 
 import { Xf } from './xf';
 import { CellStyle } from './cellStyle';
-import { Border, BorderProperty, BorderSet, ExcelThemeFont, Fill, NumberFormat, StylesMap } from '../../../assets/excelInterfaces';
+import { Border, BorderProperty, BorderSet, Dxf, ExcelThemeFont, Fill, NumberFormat, StylesMap } from '../../../assets/excelInterfaces';
 import { convertLegacyBorder, convertLegacyColor, convertLegacyPattern } from '../../../assets/excelLegacyConvert';
 import { numberFormatMap } from '../../../assets/excelConstants';
 import { getFontFamilyId } from '../../../assets/excelUtils';
@@ -22,6 +23,7 @@ let registeredBorders: BorderSet[];
 let registeredCellStyleXfs: Xf[];
 let registeredCellXfs: Xf[];
 let registeredCellStyles: CellStyle[];
+let registeredDxfs: Dxf[];
 let currentSheet: number;
 
 const getStyleName = (name: string, currentSheet: number): string => {
@@ -40,6 +42,7 @@ const resetStylesheetValues = (): void => {
     registeredCellStyleXfs = [{ borderId: 0, fillId: 0, fontId: 0, numFmtId: 0 }];
     registeredCellXfs = [{ borderId: 0, fillId: 0, fontId: 0, numFmtId: 0, xfId: 0 }];
     registeredCellStyles = [{ builtinId: 0, name: 'Normal', xfId: 0 }];
+    registeredDxfs = [];
 };
 
 const registerFill = (fill: ExcelInterior): number => {
@@ -251,6 +254,23 @@ const registerStyle = (config: ExcelStyle): void => {
     });
 };
 
+/** Registers the format of a conditional formatting rule, returning the dxfId the rule refers to */
+export const registerDxf = (dxf: Dxf): number => {
+    let pos = _.findIndex(registeredDxfs, currentDxf =>
+        currentDxf.bold == dxf.bold &&
+        currentDxf.italic == dxf.italic &&
+        currentDxf.fontRgb == dxf.fontRgb &&
+        currentDxf.fillRgb == dxf.fillRgb
+    );
+
+    if (pos === -1) {
+        pos = registeredDxfs.length;
+        registeredDxfs.push(dxf);
+    }
+
+    return pos;
+};
+
 const stylesheetFactory: ExcelOOXMLTemplate = {
     getTemplate(defaultFontSize: number) {
         const numberFormats = numberFormatsFactory.getTemplate(registeredNumberFmts);
@@ -260,6 +280,7 @@ const stylesheetFactory: ExcelOOXMLTemplate = {
         const cellStylesXfs = cellStylesXfsFactory.getTemplate(registeredCellStyleXfs);
         const cellXfs = cellXfsFactory.getTemplate(registeredCellXfs);
         const cellStyles = cellStylesFactory.getTemplate(registeredCellStyles);
+        const dxfs = registeredDxfs.length ? [dxfsFactory.getTemplate(registeredDxfs)] : [];
 
         resetStylesheetValues();
 
@@ -283,6 +304,7 @@ const stylesheetFactory: ExcelOOXMLTemplate = {
                 cellStylesXfs,
                 cellXfs,
                 cellStyles,
+                ...dxfs,
                 {
                     name: 'tableStyles',
                     properties: {
@@ -0,0 +1,52 @@
+import { ExcelWorksheet } from '@ag-grid-community/core';
+import { createXmlPart } from '../../assets/excelUtils';
+import worksheetFactory from './worksheet';
+
+function createWorksheetXml(worksheet: Partial<ExcelWorksheet>): string {
+    const table = { columns: [{ width: 100 }, { width: 100 }], rows: [] as any[] };
+
+    return createXmlPart(worksheetFactory.getTemplate({ worksheet: { name: 'Sheet1', table, ...worksheet }, currentSheet: 0 }));
+}
+
+/** The element with its children, without the line breaks between the tags */
+function getElement(xml: string, name: string): string | null {
+    const match = new RegExp(`<${name}[ >][^]*?(</${name}>|/>)`).exec(xml);
+
+    return match && match[0].replace(/>\s+</g, '><');
+}
+
+describe('frozen panes', () => {
+    it('scrolls the cell after the frozen columns and rows', () => {
+        const xml = createWorksheetXml({ frozenPane: { columns: 1, rows: 2 } });
+
+        expect(getElement(xml, 'pane')).toBe('<pane xSplit="1" ySplit="2" topLeftCell="B3" activePane="bottomRight" state="frozen"/>');
+        expect(getElement(xml, 'selection')).toBe('<selection pane="bottomRight"/>');
+    });
+
+    it('names the pane after the frozen part when only rows or columns are frozen', () => {
+        expect(getElement(createWorksheetXml({ frozenPane: { columns: 0, rows: 1 } }), 'pane'))
+            .toBe('<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>');
+        expect(getElement(createWorksheetXml({ frozenPane: { columns: 27, rows: 0 } }), 'pane'))
+            .toBe('<pane xSplit="27" topLeftCell="AB1" activePane="topRight" state="frozen"/>');
+    });
+
+    it('has no sheet views when nothing is frozen', () => {
+        expect(getElement(createWorksheetXml({ frozenPane: { columns: 0, rows: 0 } }), 'sheetViews')).toBeNull();
+    });
+});
+
+describe('data validations', () => {
+    it('writes the values as a list, doubling the quotes in them', () => {
+        const xml = createWorksheetXml({
+            dataValidations: [{ sqref: 'C2:C4 C6', values: ['Gold', 'Silver & "Bronze"'] }]
+        });
+
+        expect(getElement(xml, 'dataValidations')).toBe(
+            '<dataValidations count="1">' +
+            '<dataValidation type="list" allowBlank="1" showErrorMessage="1" sqref="C2:C4 C6">' +
+            '<formula1>&quot;Gold,Silver &amp; &quot;&quot;Bronze&quot;&quot;&quot;</formula1>' +
+            '</dataValidation>' +
+            '</dataValidations>'
+        );
+    });
+});
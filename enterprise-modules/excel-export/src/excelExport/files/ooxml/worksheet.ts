@@ -9,12 +9,16 @@ import {
     ExcelHeaderFooterContent,
     ExcelHeaderFooterConfig,
     _,
-    ExcelFont
+    ExcelFont,
+    ExcelConditionalFormatting,
+    ExcelDataValidation
 } from '@ag-grid-community/core';
 
 import columnFactory from './column';
 import rowFactory from './row';
 import mergeCellFactory from './mergeCell';
+import conditionalFormattingFactory from './conditionalFormatting';
+import dataValidationFactory from './dataValidation';
 import { ExcelXlsxFactory } from '../../excelXlsxFactory';
 import { getExcelColumnName } from '../../assets/excelUtils';
 
@@ -83,6 +87,85 @@ const getPageSize = (pageSize?: string): number => {
     return pos === -1 ? 1 : (pos + 1);
 }
 
+const addSheetProperties = (outlineSummaryBelow?: boolean) => {
+    return (children: XmlElement[]) => {
+        if (outlineSummaryBelow === false) {
+            children.push({
+                name: 'sheetPr',
+                children: [{
+                    name: 'outlinePr',
+                    properties: {
+                        rawMap: { summaryBelow: 0 }
+                    }
+                }]
+            });
+        }
+        return children;
+    }
+}
+
+const addSheetViews = (frozenPane?: { columns: number, rows: number }) => {
+    return (children: XmlElement[]) => {
+        if (!frozenPane || (!frozenPane.columns && !frozenPane.rows)) { return children; }
+
+        const { columns, rows } = frozenPane;
+        // the pane that scrolls both ways is named after the panes that are frozen
+        const activePane = columns && rows ? 'bottomRight' : columns ? 'topRight' : 'bottomLeft';
+
+        children.push({
+            name: 'sheetViews',
+            children: [{
+                name: 'sheetView',
+                properties: {
+                    rawMap: { workbookViewId: 0 }
+                },
+                children: [{
+                    name: 'pane',
+                    properties: {
+                        rawMap: {
+                            xSplit: columns || undefined,
+                            ySplit: rows || undefined,
+                            topLeftCell: `${getExcelColumnName(columns + 1)}${rows + 1}`,
+                            activePane,
+                            state: 'frozen'
+                        }
+                    }
+                }, {
+                    name: 'selection',
+                    properties: {
+                        rawMap: { pane: activePane }
+                    }
+                }]
+            }]
+        });
+
+        return children;
+    }
+}
+
+const addSheetFormatProperties = (rows: ExcelRow[], columns: ExcelColumn[]) => {
+    return (children: XmlElement[]) => {
+        const getMaxLevel = (items: { outlineLevel?: number }[]) => items.reduce((max, item) => Math.max(max, item.outlineLevel || 0), 0);
+        const outlineLevelRow = getMaxLevel(rows);
+        const outlineLevelCol = getMaxLevel(columns);
+
+        // Excel sizes the outline buttons from the deepest levels
+        if (outlineLevelRow || outlineLevelCol) {
+            children.push({
+                name: 'sheetFormatPr',
+                properties: {
+                    rawMap: {
+                        defaultRowHeight: 15,
+                        outlineLevelRow: outlineLevelRow || undefined,
+                        outlineLevelCol: outlineLevelCol || undefined
+                    }
+                }
+            });
+        }
+        return children;
+    }
+}
+
 const addColumns = (columns: ExcelColumn[]) => {
     return (children: XmlElement[]) => {
         if (columns.length) {
@@ -107,6 +190,20 @@ const addSheetData = (rows: ExcelRow[], sheetNumber: number) => {
     }
 }
 
+const addSheetProtection = (isProtected?: boolean) => {
+    return (children: XmlElement[]) => {
+        if (isProtected) {
+            children.push({
+                name: 'sheetProtection',
+                properties: {
+                    rawMap: { sheet: 1, objects: 1, scenarios: 1 }
+                }
+            });
+        }
+        return children;
+    }
+}
+
 const addMergeCells = (mergeCells: string[]) => {
     return (children: XmlElement[]) => {
         if (mergeCells.length) {
@@ -124,6 +221,34 @@ const addMergeCells = (mergeCells: string[]) => {
     }
 }
 
+const addConditionalFormatting = (conditionalFormatting: ExcelConditionalFormatting[]) => {
+    return (children: XmlElement[]) => {
+        // the priorities follow the order of the rules, so the first rule wins like it does in the grid
+        conditionalFormatting.forEach((formatting, idx) => {
+            children.push(conditionalFormattingFactory.getTemplate(formatting, idx + 1));
+        });
+
+        return children;
+    }
+}
+
+const addDataValidations = (dataValidations: ExcelDataValidation[]) => {
+    return (children: XmlElement[]) => {
+        if (dataValidations.length) {
+            children.push({
+                name: 'dataValidations',
+                properties: {
+                    rawMap: {
+                        count: dataValidations.length
+                    }
+                },
+                children: dataValidations.map(dataValidation => dataValidationFactory.getTemplate(dataValidation))
+            });
+        }
+        return children;
+    }
+}
+
 const addPageMargins = (margins: ExcelSheetMargin) => {
     return (children: XmlElement[]) => {
         const { top = 0.75, right = 0.7, bottom = 0.75, left = 0.7, header = 0.3, footer = 0.3 } = margins;
@@ -269,7 +394,7 @@ const addHeaderFooter = (headerFooterConfig?: ExcelHeaderFooterConfig) => {
 
 const addDrawingRel = (currentSheet: number) => {
     return (children: XmlElement[]) => {
-        if (ExcelXlsxFactory.worksheetImages.get(currentSheet)) {
+        if (ExcelXlsxFactory.hasDrawing(currentSheet)) {
             children.push({
                 name: 'drawing',
                 properties: {
@@ -293,14 +418,20 @@ const worksheetFactory: ExcelOOXMLTemplate = {
         headerFooterConfig?: ExcelHeaderFooterConfig
     }) {
         const { worksheet, currentSheet, margins = {}, pageSetup, headerFooterConfig } = params;
-        const { table } = worksheet;
+        const { table, conditionalFormatting = [], outlineSummaryBelow, frozenPane, dataValidations = [] } = worksheet;
         const { rows, columns } = table;
         const mergedCells = (columns && columns.length) ? getMergedCells(rows, columns) : [];
 
         const createWorksheetChildren = _.compose(
+            addSheetProperties(outlineSummaryBelow),
+            addSheetViews(frozenPane),
+            addSheetFormatProperties(rows, columns),
             addColumns(columns),
             addSheetData(rows, currentSheet + 1),
+            addSheetProtection(worksheet.protected),
             addMergeCells(mergedCells),
+            addConditionalFormatting(conditionalFormatting),
+            addDataValidations(dataValidations),
             addPageMargins(margins),
             addPageSetup(pageSetup),
             addHeaderFooter(headerFooterConfig),
@@ -0,0 +1,68 @@
+import {
+    AgPromise,
+    Autowired,
+    Bean,
+    BeanStub,
+    ExcelImportParams,
+    IExcelImporter,
+    ImportResult,
+    ImportValue
+} from "@ag-grid-community/core";
+import { GridImporter } from "@ag-grid-community/csv-export";
+import { WorkbookReader } from "./workbookReader";
+import { ZipReader } from "./zipReader";
+
+@Bean('excelImporter')
+export class ExcelImporter extends BeanStub implements IExcelImporter {
+
+    @Autowired('gridImporter') private gridImporter: GridImporter;
+
+    public importFromExcel(data: Blob | ArrayBuffer, params: ExcelImportParams = {}): AgPromise<ImportResult> {
+        return new AgPromise<ImportResult>(resolve => {
+            this.readArrayBuffer(data).then(buffer => {
+                const table = buffer && this.isAlive() ? this.readTable(buffer, params) : null;
+
+                if (table) {
+                    this.gridImporter.importRows(table, params).then(resolve);
+                } else {
+                    resolve(null);
+                }
+            });
+        });
+    }
+
+    private readTable(buffer: ArrayBuffer, params: ExcelImportParams): ImportValue[][] | null {
+        let table: ImportValue[][] | null;
+
+        try {
+            table = new WorkbookReader(new ZipReader(new Uint8Array(buffer))).readSheet(params.sheetName);
+        } catch (e) {
+            console.warn(`AG Grid: unable to read the Excel file, ${e.message}`);
+            return null;
+        }
+
+        if (!table) {
+            console.warn(`AG Grid: the Excel file has no sheet named '${params.sheetName}'`);
+            return null;
+        }
+
+        return table;
+    }
+
+    private readArrayBuffer(data: Blob | ArrayBuffer): AgPromise<ArrayBuffer> {
+        if (data instanceof ArrayBuffer) {
+            return AgPromise.resolve(data);
+        }
+
+        return new AgPromise<ArrayBuffer>(resolve => {
+            const reader = new FileReader();
+
+            reader.onload = () => resolve(reader.result as ArrayBuffer);
+            reader.onerror = () => {
+                console.warn('AG Grid: unable to read the Excel file');
+                resolve(null);
+            };
+            reader.readAsArrayBuffer(data);
+        });
+    }
+}
@@ -0,0 +1,55 @@
+import { inflateRaw } from './inflate';
+
+// the tests compress with node's zlib, which writes every kind of deflate block
+const zlib = jest.requireActual('zlib');
+
+function toBytes(text: string): Uint8Array {
+    const bytes = new Uint8Array(text.length);
+
+    for (let i = 0; i < text.length; i++) {
+        bytes[i] = text.charCodeAt(i);
+    }
+
+    return bytes;
+}
+
+function createRows(count: number): string {
+    let xml = '';
+
+    // the values vary, so the data compresses into more than one block with long and short back references
+    for (let i = 0; i < count; i++) {
+        xml += `<row r="${i + 1}"><c r="A${i + 1}"><v>${(i * 7919) % 1000}</v></c><c r="B${i + 1}" t="s"><v>${i % 13}</v></c></row>`;
+    }
+
+    return xml;
+}
+
+function inflate(bytes: Uint8Array, options: any): Uint8Array {
+    return inflateRaw(new Uint8Array(zlib.deflateRawSync(bytes, options)), bytes.length);
+}
+
+describe('inflateRaw', () => {
+    const bytes = toBytes(createRows(2000));
+
+    it('inflates stored blocks', () => {
+        expect(inflate(bytes, { level: 0 })).toStrictEqual(bytes);
+    });
+
+    it('inflates blocks with the fixed Huffman codes', () => {
+        expect(inflate(bytes, { strategy: zlib.constants.Z_FIXED })).toStrictEqual(bytes);
+    });
+
+    it('inflates blocks with dynamic Huffman codes', () => {
+        expect(inflate(bytes, { level: 9 })).toStrictEqual(bytes);
+    });
+
+    it('inflates runs that overlap the bytes they copy', () => {
+        const run = toBytes('ab' + new Array(1000).join('a'));
+
+        expect(inflate(run, {})).toStrictEqual(run);
+    });
+
+    it('throws on data that is not deflated', () => {
+        expect(() => inflateRaw(new Uint8Array([0xff, 0xff]), 10)).toThrow();
+    });
+});
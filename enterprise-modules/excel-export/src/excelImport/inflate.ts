@@ -0,0 +1,216 @@
+// Decoder for raw DEFLATE data (RFC 1951), the compression used by the files of .xlsx workbooks.
+// The decoding of the Huffman codes follows zlib's reference implementation, puff.c
+
+interface Huffman {
+    // number of codes of each length
+    counts: Uint16Array;
+    // symbols ordered by their code
+    symbols: Uint16Array;
+}
+
+const MAX_BITS = 15;
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [
+    1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+    8193, 12289, 16385, 24577
+];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+let fixedTables: { literals: Huffman; distances: Huffman; } | undefined;
+
+const buildHuffman = (lengths: ArrayLike<number>, offset: number, count: number): Huffman => {
+    const counts = new Uint16Array(MAX_BITS + 1);
+    const offsets = new Uint16Array(MAX_BITS + 1);
+    const symbols = new Uint16Array(count);
+
+    for (let i = 0; i < count; i++) {
+        counts[lengths[offset + i]]++;
+    }
+
+    counts[0] = 0;
+
+    for (let len = 1; len < MAX_BITS; len++) {
+        offsets[len + 1] = offsets[len] + counts[len];
+    }
+
+    for (let i = 0; i < count; i++) {
+        const len = lengths[offset + i];
+
+        if (len) {
+            symbols[offsets[len]++] = i;
+        }
+    }
+
+    return { counts, symbols };
+};
+
+const getFixedTables = () => {
+    if (!fixedTables) {
+        const lengths = new Uint8Array(288 + 30);
+
+        for (let i = 0; i < 288; i++) {
+            lengths[i] = i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8;
+        }
+
+        for (let i = 288; i < lengths.length; i++) {
+            lengths[i] = 5;
+        }
+
+        fixedTables = { literals: buildHuffman(lengths, 0, 288), distances: buildHuffman(lengths, 288, 30) };
+    }
+
+    return fixedTables;
+};
+
+class BitReader {
+    private pos = 0;
+    private bitBuffer = 0;
+    private bitCount = 0;
+
+    constructor(private readonly data: Uint8Array) {}
+
+    public bits(count: number): number {
+        while (this.bitCount < count) {
+            if (this.pos >= this.data.length) {
+                throw new Error('unexpected end of compressed data');
+            }
+
+            this.bitBuffer |= this.data[this.pos++] << this.bitCount;
+            this.bitCount += 8;
+        }
+
+        const value = this.bitBuffer & ((1 << count) - 1);
+
+        this.bitBuffer >>>= count;
+        this.bitCount -= count;
+
+        return value;
+    }
+
+    public decode(huffman: Huffman): number {
+        let code = 0;
+        let first = 0;
+        let index = 0;
+
+        for (let len = 1; len <= MAX_BITS; len++) {
+            code |= this.bits(1);
+
+            const count = huffman.counts[len];
+
+            if (code - count < first) {
+                return huffman.symbols[index + (code - first)];
+            }
+
+            index += count;
+            first = (first + count) << 1;
+            code <<= 1;
+        }
+
+        throw new Error('invalid Huffman code');
+    }
+
+    /** Stored blocks start on a byte boundary, so the rest of the current byte is skipped */
+    public readStoredBytes(): Uint8Array {
+        this.bitBuffer = 0;
+        this.bitCount = 0;
+
+        const { data } = this;
+        const length = data[this.pos] | (data[this.pos + 1] << 8);
+        const start = this.pos + 4;
+
+        this.pos = start + length;
+
+        return data.subarray(start, start + length);
+    }
+}
+
+const readDynamicTables = (reader: BitReader) => {
+    const literalCount = reader.bits(5) + 257;
+    const distanceCount = reader.bits(5) + 1;
+    const codeLengthCount = reader.bits(4) + 4;
+    const codeLengths = new Uint8Array(19);
+
+    for (let i = 0; i < codeLengthCount; i++) {
+        codeLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3);
+    }
+
+    const codeLengthHuffman = buildHuffman(codeLengths, 0, 19);
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    let i = 0;
+
+    while (i < lengths.length) {
+        const symbol = reader.decode(codeLengthHuffman);
+
+        if (symbol < 16) {
+            lengths[i++] = symbol;
+            continue;
+        }
+
+        // 16 repeats the previous length, 17 and 18 are runs of zeros
+        const value = symbol === 16 ? lengths[i - 1] : 0;
+        const repeat = symbol === 16 ? 3 + reader.bits(2) : symbol === 17 ? 3 + reader.bits(3) : 11 + reader.bits(7);
+
+        for (let j = 0; j < repeat; j++) {
+            lengths[i++] = value;
+        }
+    }
+
+    return {
+        literals: buildHuffman(lengths, 0, literalCount),
+        distances: buildHuffman(lengths, literalCount, distanceCount)
+    };
+};
+
+/** Inflates raw DEFLATE data, the size of the output is known from the zip's file header */
+export function inflateRaw(data: Uint8Array, size: number): Uint8Array {
+    const output = new Uint8Array(size);
+    const reader = new BitReader(data);
+    let outPos = 0;
+    let isFinal = false;
+
+    while (!isFinal) {
+        isFinal = reader.bits(1) === 1;
+
+        const type = reader.bits(2);
+
+        if (type === 0) {
+            const bytes = reader.readStoredBytes();
+
+            output.set(bytes, outPos);
+            outPos += bytes.length;
+            continue;
+        }
+
+        if (type === 3) {
+            throw new Error('invalid block type');
+        }
+
+        const { literals, distances } = type === 1 ? getFixedTables() : readDynamicTables(reader);
+
+        while (true) {
+            const symbol = reader.decode(literals);
+
+            if (symbol < 256) {
+                output[outPos++] = symbol;
+                continue;
+            }
+
+            if (symbol === 256) { break; }
+
+            const lengthIndex = symbol - 257;
+            const length = LENGTH_BASE[lengthIndex] + reader.bits(LENGTH_EXTRA[lengthIndex]);
+            const distanceIndex = reader.decode(distances);
+            const distance = DISTANCE_BASE[distanceIndex] + reader.bits(DISTANCE_EXTRA[distanceIndex]);
+
+            // copied a byte at a time, as the copy can overlap the bytes it produces
+            for (let i = 0; i < length; i++, outPos++) {
+                output[outPos] = output[outPos - distance];
+            }
+        }
+    }
+
+    return output;
+}
@@ -0,0 +1,114 @@
+import { WorkbookReader } from './workbookReader';
+import { ZipReader } from './zipReader';
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+interface TestWorkbook {
+    sheets: { [name: string]: string; };
+    sharedStrings?: string[];
+    // the number format of each cell style
+    numFmtIds?: number[];
+    customFormats?: { [id: number]: string; };
+    date1904?: boolean;
+}
+
+function createReader(workbook: TestWorkbook): WorkbookReader {
+    const names = Object.keys(workbook.sheets);
+    const files: { [path: string]: string; } = {
+        '_rels/.rels': `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+            `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+        'xl/workbook.xml': `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+            `<workbookPr${workbook.date1904 ? ' date1904="1"' : ''}/><sheets>` +
+            names.map((name, i) => `<sheet name="${name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+            '</sheets></workbook>',
+        'xl/_rels/workbook.xml.rels': `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+            names.map((name, i) => `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+            '</Relationships>',
+        'xl/sharedStrings.xml': `<sst xmlns="${MAIN_NS}">` +
+            (workbook.sharedStrings || []).map(text => `<si><t>${text}</t></si>`).join('') + '</sst>',
+        'xl/styles.xml': `<styleSheet xmlns="${MAIN_NS}"><numFmts>` +
+            Object.keys(workbook.customFormats || {}).map(id => `<numFmt numFmtId="${id}" formatCode="${workbook.customFormats![id as any]}"/>`).join('') +
+            '</numFmts><cellXfs>' +
+            (workbook.numFmtIds || [0]).map(id => `<xf numFmtId="${id}"/>`).join('') +
+            '</cellXfs></styleSheet>'
+    };
+
+    names.forEach((name, i) => {
+        files[`xl/worksheets/sheet${i + 1}.xml`] = `<worksheet xmlns="${MAIN_NS}"><sheetData>${workbook.sheets[name]}</sheetData></worksheet>`;
+    });
+
+    const zip = { getText: (path: string) => files[path] != null ? files[path] : null };
+
+    return new WorkbookReader(zip as ZipReader);
+}
+
+describe('readSheet', () => {
+    it('reads the values of each type of cell', () => {
+        const reader = createReader({
+            sharedStrings: ['Ireland'],
+            sheets: {
+                Sheet1: '<row r="1">' +
+                    '<c r="A1" t="s"><v>0</v></c>' +
+                    '<c r="B1" t="inlineStr"><is><t>inline</t></is></c>' +
+                    '<c r="C1" t="b"><v>1</v></c>' +
+                    '<c r="D1"><v>1.5</v></c>' +
+                    '<c r="E1" t="str"><f>A1</f><v>Ireland</v></c>' +
+                    '<c r="F1" t="e"><v>#DIV/0!</v></c>' +
+                    '</row>'
+            }
+        });
+
+        expect(reader.readSheet()).toStrictEqual([['Ireland', 'inline', true, 1.5, 'Ireland', null]]);
+    });
+
+    it('fills the cells and rows that are not in the sheet', () => {
+        const reader = createReader({
+            sheets: { Sheet1: '<row r="1"><c r="B1"><v>1</v></c></row><row r="3"><c r="A3"><v>2</v></c></row>' }
+        });
+
+        expect(reader.readSheet()).toStrictEqual([[null, 1], [], [2]]);
+    });
+
+    it('reads the sheet with the given name', () => {
+        const reader = createReader({
+            sheets: { First: '<row r="1"><c r="A1"><v>1</v></c></row>', Second: '<row r="1"><c r="A1"><v>2</v></c></row>' }
+        });
+
+        expect(reader.getSheetNames()).toStrictEqual(['First', 'Second']);
+        expect(reader.readSheet('Second')).toStrictEqual([[2]]);
+        expect(reader.readSheet('Third')).toBeNull();
+    });
+});
+
+describe('dates', () => {
+    const readDate = (serial: number, workbook: Partial<TestWorkbook> = {}) => createReader({
+        numFmtIds: [0, 14],
+        sheets: { Sheet1: `<row r="1"><c r="A1" s="1"><v>${serial}</v></c></row>` },
+        ...workbook
+    }).readSheet()![0][0];
+
+    it('reads numbers with a date format as dates', () => {
+        expect(readDate(44197)).toStrictEqual(new Date(2021, 0, 1));
+        expect(readDate(44197.75)).toStrictEqual(new Date(2021, 0, 1, 18));
+    });
+
+    it('reads the dates before the 1st of March 1900, which Excel counts a 29th of February before', () => {
+        expect(readDate(1)).toStrictEqual(new Date(1900, 0, 1));
+        expect(readDate(59)).toStrictEqual(new Date(1900, 1, 28));
+        expect(readDate(61)).toStrictEqual(new Date(1900, 2, 1));
+    });
+
+    it('reads the dates of workbooks that count from 1904', () => {
+        expect(readDate(0, { date1904: true })).toStrictEqual(new Date(1904, 0, 1));
+        expect(readDate(42735, { date1904: true })).toStrictEqual(new Date(2021, 0, 1));
+    });
+
+    it('finds dates in custom formats, but not in their text', () => {
+        const customFormats = { 164: 'dd/mm/yyyy', 165: '&quot;days&quot;\\ 0' };
+
+        expect(readDate(44197, { numFmtIds: [0, 164], customFormats })).toStrictEqual(new Date(2021, 0, 1));
+        expect(readDate(44197, { numFmtIds: [0, 165], customFormats })).toBe(44197);
+    });
+});
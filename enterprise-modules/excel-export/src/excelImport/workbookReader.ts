@@ -0,0 +1,247 @@
+import { ImportValue } from "@ag-grid-community/core";
+import { ZipReader } from "./zipReader";
+
+interface SheetInfo {
+    name: string;
+    path: string;
+}
+
+// built in number formats that show dates and times, see ECMA-376 18.8.30
+const DATE_FORMAT_IDS = [14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57];
+
+const getElements = (parent: Document | Element, localName: string): Element[] => {
+    const list = parent.getElementsByTagNameNS('*', localName);
+    const elements: Element[] = [];
+
+    for (let i = 0; i < list.length; i++) {
+        elements.push(list[i]);
+    }
+
+    return elements;
+};
+
+const getText = (element: Element): string => {
+    // phonetic runs (rPh) are readings of the text for Asian languages, not part of the text itself
+    return getElements(element, 't')
+        .filter(t => !t.parentNode || (t.parentNode as Element).localName !== 'rPh')
+        .map(t => t.textContent || '')
+        .join('');
+};
+
+const getColumnIndex = (reference: string): number => {
+    const letters = reference.match(/^[A-Z]+/i);
+    let index = 0;
+
+    if (!letters) { return -1; }
+
+    for (let i = 0; i < letters[0].length; i++) {
+        index = index * 26 + letters[0].toUpperCase().charCodeAt(i) - 64;
+    }
+
+    return index - 1;
+};
+
+const isDateFormatCode = (formatCode: string): boolean => {
+    // text in quotes, escaped characters and colours or conditions in brackets can contain the date letters
+    const code = formatCode.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, '');
+
+    return /[dmyhs]/i.test(code);
+};
+
+/** Reads the cells of the sheets of an .xlsx workbook, with shared strings resolved and dates as Date objects */
+export class WorkbookReader {
+
+    private readonly workbookPath: string;
+    private readonly sheets: SheetInfo[] = [];
+    private readonly sharedStrings: string[] = [];
+    private readonly dateStyles: boolean[] = [];
+    private date1904 = false;
+
+    constructor(private readonly zip: ZipReader) {
+        this.workbookPath = this.getRelationshipTargets('', '_rels/.rels').officeDocument || 'xl/workbook.xml';
+        this.readWorkbook();
+    }
+
+    public getSheetNames(): string[] {
+        return this.sheets.map(sheet => sheet.name);
+    }
+
+    /** Returns the rows of the sheet, or of the first sheet when no name is given */
+    public readSheet(name?: string): ImportValue[][] | null {
+        const sheet = name != null ? this.sheets.filter(s => s.name === name)[0] : this.sheets[0];
+        const document = sheet ? this.parse(sheet.path) : null;
+
+        if (!document) { return null; }
+
+        const table: ImportValue[][] = [];
+
+        getElements(document, 'row').forEach(row => {
+            const rowNumber = parseInt(row.getAttribute('r') || '', 10);
+            const values: ImportValue[] = [];
+
+            getElements(row, 'c').forEach(cell => {
+                const reference = cell.getAttribute('r');
+                const columnIndex = reference ? getColumnIndex(reference) : values.length;
+
+                values[columnIndex < 0 ? values.length : columnIndex] = this.getCellValue(cell);
+            });
+
+            // rows and cells without content aren't written to the sheet, the gaps are filled with nulls
+            for (let i = 0; i < values.length; i++) {
+                if (values[i] === undefined) { values[i] = null; }
+            }
+
+            table[isNaN(rowNumber) ? table.length : rowNumber - 1] = values;
+        });
+
+        for (let i = 0; i < table.length; i++) {
+            if (!table[i]) { table[i] = []; }
+        }
+
+        return table;
+    }
+
+    private readWorkbook(): void {
+        const workbook = this.parse(this.workbookPath);
+
+        if (!workbook) {
+            throw new Error('the file has no workbook');
+        }
+
+        const folder = this.workbookPath.substr(0, this.workbookPath.lastIndexOf('/') + 1);
+        const relsPath = `${folder}_rels/${this.workbookPath.substr(folder.length)}.rels`;
+        const targetsById = this.getRelationshipTargets(folder, relsPath, true);
+        const targetsByType = this.getRelationshipTargets(folder, relsPath);
+        const workbookPr = getElements(workbook, 'workbookPr')[0];
+
+        this.date1904 = !!workbookPr && /^(1|true)$/.test(workbookPr.getAttribute('date1904') || '');
+
+        getElements(workbook, 'sheet').forEach(sheet => {
+            const id = sheet.getAttribute('r:id') || sheet.getAttributeNS(
+                'http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id'
+            );
+            const path = id && targetsById[id];
+
+            if (path) {
+                this.sheets.push({ name: sheet.getAttribute('name') || '', path });
+            }
+        });
+
+        this.readSharedStrings(targetsByType.sharedStrings || `${folder}sharedStrings.xml`);
+        this.readStyles(targetsByType.styles || `${folder}styles.xml`);
+    }
+
+    private readSharedStrings(path: string): void {
+        const document = this.parse(path);
+
+        if (!document) { return; }
+
+        getElements(document, 'si').forEach(si => this.sharedStrings.push(getText(si)));
+    }
+
+    private readStyles(path: string): void {
+        const document = this.parse(path);
+
+        if (!document) { return; }
+
+        const customDateFormats: { [id: number]: boolean; } = {};
+
+        getElements(document, 'numFmt').forEach(numFmt => {
+            const id = parseInt(numFmt.getAttribute('numFmtId') || '', 10);
+            customDateFormats[id] = isDateFormatCode(numFmt.getAttribute('formatCode') || '');
+        });
+
+        const cellXfs = getElements(document, 'cellXfs')[0];
+
+        if (!cellXfs) { return; }
+
+        getElements(cellXfs, 'xf').forEach(xf => {
+            const numFmtId = parseInt(xf.getAttribute('numFmtId') || '0', 10);
+            const isCustom = customDateFormats[numFmtId] != null;
+
+            this.dateStyles.push(isCustom ? customDateFormats[numFmtId] : DATE_FORMAT_IDS.indexOf(numFmtId) >= 0);
+        });
+    }
+
+    private getCellValue(cell: Element): ImportValue {
+        const type = cell.getAttribute('t');
+        const v = getElements(cell, 'v')[0];
+        const text = v ? v.textContent || '' : '';
+
+        switch (type) {
+            case 's': {
+                const sharedString = this.sharedStrings[parseInt(text, 10)];
+                return sharedString != null ? sharedString : null;
+            }
+            case 'inlineStr':
+                return getText(cell);
+            case 'str':
+                return text;
+            case 'b':
+                return text === '1';
+            case 'd':
+                return text ? new Date(text) : null;
+            case 'e':
+                return null;
+        }
+
+        const number = v ? parseFloat(text) : NaN;
+
+        if (isNaN(number)) { return null; }
+
+        return this.dateStyles[parseInt(cell.getAttribute('s') || '0', 10)] ? this.toDate(number) : number;
+    }
+
+    /** Dates are stored as the number of days since the start of 1900, or 1904 for workbooks made on old Macs */
+    private toDate(serial: number): Date {
+        let days = serial + (this.date1904 ? 1462 : 0);
+
+        // Excel counts the 29th of February 1900, which didn't happen, so the days before it are one day further
+        // from 1970. the 29th itself is read as the 1st of March.
+        if (!this.date1904 && serial < 61) {
+            days += 1;
+        }
+
+        // 25569 is the serial of 1970-01-01, the date is in local time as Excel has no time zones
+        const utc = new Date(Math.round((days - 25569) * 86400000));
+
+        return new Date(
+            utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate(),
+            utc.getUTCHours(), utc.getUTCMinutes(), utc.getUTCSeconds(), utc.getUTCMilliseconds()
+        );
+    }
+
+    /**
+     * Maps the ids of the relationships, or the last part of their types (eg 'styles'), to the paths of their targets
+     */
+    private getRelationshipTargets(folder: string, relsPath: string, byId = false): { [key: string]: string; } {
+        const document = this.parse(relsPath);
+        const targets: { [key: string]: string; } = {};
+
+        if (!document) { return targets; }
+
+        getElements(document, 'Relationship').forEach(relationship => {
+            const type = relationship.getAttribute('Type') || '';
+            const target = relationship.getAttribute('Target') || '';
+            const key = byId ? relationship.getAttribute('Id') || '' : type.substr(type.lastIndexOf('/') + 1);
+
+            targets[key] = target.charAt(0) === '/' ? target.substr(1) : folder + target;
+        });
+
+        return targets;
+    }
+
+    private parse(path: string): Document | null {
+        const text = this.zip.getText(path);
+
+        if (text == null) { return null; }
+
+        const document = new DOMParser().parseFromString(text, 'application/xml');
+
+        if (getElements(document, 'parsererror').length) {
+            throw new Error(`${path} is not valid XML`);
+        }
+
+        return document;
+    }
+}
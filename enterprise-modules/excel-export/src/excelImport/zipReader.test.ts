@@ -0,0 +1,87 @@
+import { ZipReader } from './zipReader';
+
+const zlib = jest.requireActual('zlib');
+
+interface TestZipEntry {
+    path: string;
+    text: string;
+    deflate?: boolean;
+    // an extra field only in the local header, which moves the start of the data
+    localExtra?: number;
+}
+
+function encodeUtf8(text: string): number[] {
+    const binary = unescape(encodeURIComponent(text));
+    const bytes: number[] = [];
+
+    for (let i = 0; i < binary.length; i++) {
+        bytes.push(binary.charCodeAt(i));
+    }
+
+    return bytes;
+}
+
+const uint16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+const uint32 = (value: number) => uint16(value & 0xffff).concat(uint16(value >>> 16));
+
+function createZip(entries: TestZipEntry[], comment = ''): Uint8Array {
+    const local: number[] = [];
+    const central: number[] = [];
+
+    entries.forEach(entry => {
+        const name = encodeUtf8(entry.path);
+        const content = encodeUtf8(entry.text);
+        const data: number[] = entry.deflate ? Array.prototype.slice.call(zlib.deflateRawSync(new Uint8Array(content))) : content;
+        const method = entry.deflate ? 8 : 0;
+        const extra = new Array(entry.localExtra || 0).fill(0);
+        const sizes = uint32(0).concat(uint32(data.length), uint32(content.length));
+        const offset = local.length;
+
+        local.push(
+            ...uint32(0x04034b50), ...uint16(20), ...uint16(0), ...uint16(method), ...uint32(0), ...sizes,
+            ...uint16(name.length), ...uint16(extra.length), ...name, ...extra, ...data
+        );
+        central.push(
+            ...uint32(0x02014b50), ...uint16(20), ...uint16(20), ...uint16(0), ...uint16(method), ...uint32(0), ...sizes,
+            ...uint16(name.length), ...uint16(0), ...uint16(0), ...uint16(0), ...uint16(0), ...uint32(0), ...uint32(offset),
+            ...name
+        );
+    });
+
+    const commentBytes = encodeUtf8(comment);
+    const end = [
+        ...uint32(0x06054b50), ...uint16(0), ...uint16(0), ...uint16(entries.length), ...uint16(entries.length),
+        ...uint32(central.length), ...uint32(local.length), ...uint16(commentBytes.length), ...commentBytes
+    ];
+
+    return new Uint8Array(local.concat(central, end));
+}
+
+describe('ZipReader', () => {
+    it('reads stored and deflated files', () => {
+        const zip = new ZipReader(createZip([
+            { path: 'xl/workbook.xml', text: '<workbook/>' },
+            { path: 'xl/sharedStrings.xml', text: '<sst><si><t>Zürich</t></si></sst>', deflate: true }
+        ]));
+
+        expect(zip.getText('xl/workbook.xml')).toBe('<workbook/>');
+        expect(zip.getText('xl/sharedStrings.xml')).toBe('<sst><si><t>Zürich</t></si></sst>');
+        expect(zip.getText('xl/styles.xml')).toBeNull();
+    });
+
+    it('finds the data after the extra field of the local header', () => {
+        const zip = new ZipReader(createZip([{ path: 'a.xml', text: '<a/>', localExtra: 12 }]));
+
+        expect(zip.getText('a.xml')).toBe('<a/>');
+    });
+
+    it('finds the central directory before a comment', () => {
+        const zip = new ZipReader(createZip([{ path: 'a.xml', text: '<a/>' }], 'made by a test'));
+
+        expect(zip.getText('a.xml')).toBe('<a/>');
+    });
+
+    it('throws for files that are not zips', () => {
+        expect(() => new ZipReader(new Uint8Array(100))).toThrow('not a zip file');
+    });
+});
@@ -0,0 +1,132 @@
+import { inflateRaw } from "./inflate";
+
+interface ZipEntry {
+    method: number;
+    compressedSize: number;
+    size: number;
+    localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const STORED = 0;
+const DEFLATED = 8;
+
+/**
+ * Reads the files of a zip archive, the reverse of ZipContainer. Files are found through the central directory and
+ * are only inflated when they are read.
+ */
+export class ZipReader {
+
+    private readonly entries: { [path: string]: ZipEntry; } = {};
+
+    constructor(private readonly data: Uint8Array) {
+        this.readCentralDirectory();
+    }
+
+    public getText(path: string): string | null {
+        const entry = this.entries[path];
+
+        if (!entry) { return null; }
+
+        const { data } = this;
+        const offset = entry.localHeaderOffset;
+        // the name and extra field lengths of the local header can differ from the ones in the central directory
+        const start = offset + 30 + this.readUint16(offset + 26) + this.readUint16(offset + 28);
+        const compressed = data.subarray(start, start + entry.compressedSize);
+
+        if (entry.method === STORED) {
+            return decodeUtf8(compressed);
+        }
+
+        if (entry.method === DEFLATED) {
+            return decodeUtf8(inflateRaw(compressed, entry.size));
+        }
+
+        throw new Error(`unsupported compression method ${entry.method} for ${path}`);
+    }
+
+    private readCentralDirectory(): void {
+        const { data } = this;
+        let end = -1;
+
+        // the end record is followed by a comment of up to 64k
+        for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+            if (this.readUint32(i) === END_OF_CENTRAL_DIRECTORY) {
+                end = i;
+                break;
+            }
+        }
+
+        if (end < 0) {
+            throw new Error('not a zip file');
+        }
+
+        const count = this.readUint16(end + 10);
+        let pos = this.readUint32(end + 16);
+
+        for (let i = 0; i < count; i++) {
+            if (this.readUint32(pos) !== CENTRAL_DIRECTORY_HEADER) {
+                throw new Error('invalid zip central directory');
+            }
+
+            const nameLength = this.readUint16(pos + 28);
+            const path = decodeUtf8(data.subarray(pos + 46, pos + 46 + nameLength));
+
+            this.entries[path] = {
+                method: this.readUint16(pos + 10),
+                compressedSize: this.readUint32(pos + 20),
+                size: this.readUint32(pos + 24),
+                localHeaderOffset: this.readUint32(pos + 42)
+            };
+
+            pos += 46 + nameLength + this.readUint16(pos + 30) + this.readUint16(pos + 32);
+        }
+    }
+
+    private readUint16(pos: number): number {
+        return this.data[pos] | (this.data[pos + 1] << 8);
+    }
+
+    private readUint32(pos: number): number {
+        return (this.readUint16(pos) | (this.readUint16(pos + 2) << 16)) >>> 0;
+    }
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+    if (typeof TextDecoder !== 'undefined') {
+        return new TextDecoder('utf-8').decode(bytes);
+    }
+
+    const codes: number[] = [];
+    let result = '';
+
+    for (let i = 0; i < bytes.length;) {
+        const byte = bytes[i++];
+        let code: number;
+
+        if (byte < 0x80) {
+            code = byte;
+        } else if (byte < 0xe0) {
+            code = ((byte & 0x1f) << 6) | (bytes[i++] & 0x3f);
+        } else if (byte < 0xf0) {
+            code = ((byte & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+        } else {
+            code = ((byte & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+        }
+
+        if (code > 0xffff) {
+            code -= 0x10000;
+            codes.push(0xd800 + (code >> 10), 0xdc00 + (code & 0x3ff));
+        } else {
+            codes.push(code);
+        }
+
+        // converted in chunks, as fromCharCode takes the codes as arguments
+        if (codes.length > 8192) {
+            result += String.fromCharCode.apply(null, codes.splice(0, codes.length));
+        }
+    }
+
+    return result + String.fromCharCode.apply(null, codes);
+}
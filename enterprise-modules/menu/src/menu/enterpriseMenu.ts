@@ -394,6 +394,11 @@ export class EnterpriseMenu extends BeanStub {
         result.push('autoSizeAll');
         result.push(EnterpriseMenu.MENU_ITEM_SEPARATOR);
 
+        if (this.gridOptionsWrapper.isEnableConditionalFormattingEditor()) {
+            result.push('conditionalFormatting');
+            result.push(EnterpriseMenu.MENU_ITEM_SEPARATOR);
+        }
+
         if (allowRowGroup && this.column.isPrimary()) {
             if (groupedByThisColumn) {
                 result.push('rowUnGroup');
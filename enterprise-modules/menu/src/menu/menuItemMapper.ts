@@ -107,6 +107,11 @@ export class MenuItemMapper extends BeanStub {
                     name: localeTextFunc('autosizeAllColumns', 'Autosize All Columns'),
                     action: () => this.columnModel.autoSizeAllColumns(skipHeaderOnAutoSize, "contextMenu")
                 };
+            case 'conditionalFormatting':
+                return {
+                    name: localeTextFunc('conditionalFormattingOoo', 'Conditional Formatting...'),
+                    action: () => this.gridApi.showConditionalFormattingEditor(column!)
+                };
             case 'rowGroup':
                 return {
                     name: localeTextFunc('groupBy', 'Group by') + ' ' + _.escapeString(this.columnModel.getDisplayNameForColumn(column, 'header')),
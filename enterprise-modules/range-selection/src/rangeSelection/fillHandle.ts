@@ -6,6 +6,7 @@ import {
     RowNode,
     RowPosition,
     ValueService,
+    ValidationService,
     Events,
     FillEndEvent,
     FillStartEvent,
@@ -24,6 +25,7 @@ type Direction = 'x' | 'y';
 export class FillHandle extends AbstractSelectionHandle {
 
     @Autowired('valueService') private valueService: ValueService;
+    @Autowired('validationService') private validationService: ValidationService;
 
     static TEMPLATE = /* html */ `<div class="ag-fill-handle"></div>`;
 
@@ -224,7 +226,7 @@ export class FillHandle extends AbstractSelectionHandle {
                 withinInitialRange = updateInitialSet();
             } else {
                 currentValue = this.processValues(e, currentValues, initialValues, col, rowNode, idx++);
-                if (col.isCellEditable(rowNode)) {
+                if (col.isCellEditable(rowNode) && this.isValidFillValue(col, rowNode, currentValue)) {
                     rowNode.setDataValue(col, currentValue);
                 }
             }
@@ -242,6 +244,11 @@ export class FillHandle extends AbstractSelectionHandle {
         }
     }
 
+    private isValidFillValue(column: Column, rowNode: RowNode, value: any): boolean {
+        const oldValue = this.valueService.getValue(column, rowNode);
+        return this.validationService.validateNewValue(rowNode, column, oldValue, value, 'fill') === 'accept';
+    }
+
     private clearCellsInRange(startRow: RowPosition, endRow: RowPosition, columns: Column[]) {
         let currentRow: RowPosition | null | undefined = startRow;
 
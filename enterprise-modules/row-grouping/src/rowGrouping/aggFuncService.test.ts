@@ -1,4 +1,4 @@
-import { IAggFuncParams } from '@ag-grid-community/core';
+import { IAggFuncParams, IStatefulAggFuncParams } from '@ag-grid-community/core';
 import { AggFuncService } from './aggFuncService';
 import { GridOptionsWrapper } from '@ag-grid-community/core';
 
@@ -241,3 +241,230 @@ describe('aggAvg', () => {
         expect(avg(createParams([])).toNumber()).toBeNull();
     });
 });
+
+function createStatefulParams(values: any[], inputValues: { [colId: string]: any[]; } = {}, aggFuncParams?: any): IStatefulAggFuncParams {
+    return {
+        values: values,
+        inputValues: inputValues,
+        colDef: { aggFuncParams: aggFuncParams }
+    } as IStatefulAggFuncParams;
+}
+
+describe('aggWeightedAvg', () => {
+    const weightedAvg = createService().getStatefulAggFunc('weightedAvg')!;
+
+    it('has function', () => {
+        expect(weightedAvg).toBeDefined();
+    });
+
+    it('takes the weights from the weight column', () => {
+        expect(weightedAvg.inputColumns).toBeInstanceOf(Function);
+        expect((weightedAvg.inputColumns as Function)({ aggFuncParams: { weightColumn: 'volume' } })).toEqual(['volume']);
+    });
+
+    it('returns weighted average of numbers', () => {
+        const state = weightedAvg.aggregate(createStatefulParams([10, 20, 'foo'], { volume: [1, 3, 5] }, { weightColumn: 'volume' }));
+
+        expect(weightedAvg.getValue(state)).toBe(17.5);
+    });
+
+    it('combines states of groups', () => {
+        const state1 = weightedAvg.aggregate(createStatefulParams([10], { volume: [1] }, { weightColumn: 'volume' }));
+        const state2 = weightedAvg.aggregate(createStatefulParams([20], { volume: [3] }, { weightColumn: 'volume' }));
+
+        expect(weightedAvg.getValue(weightedAvg.combine([state1, state2]))).toBe(17.5);
+    });
+
+    it('returns average without weight column', () => {
+        expect(weightedAvg.getValue(weightedAvg.aggregate(createStatefulParams([10, 20])))).toBe(15);
+    });
+
+    it('returns null for empty array', () => {
+        expect(weightedAvg.getValue(weightedAvg.aggregate(createStatefulParams([])))).toBeNull();
+    });
+});
+
+describe('aggMedian', () => {
+    const median = createService().getStatefulAggFunc('median')!;
+
+    it('has function', () => {
+        expect(median).toBeDefined();
+    });
+
+    it('returns median of odd number of values', () => {
+        expect(median.getValue(median.aggregate(createStatefulParams([9, 1, 'foo', 5, null])))).toBe(5);
+    });
+
+    it('returns median of even number of values', () => {
+        expect(median.getValue(median.aggregate(createStatefulParams([9, 1, 5, 3])))).toBe(4);
+    });
+
+    it('combines states of groups', () => {
+        const state = median.combine([
+            median.aggregate(createStatefulParams([1, 10])),
+            median.aggregate(createStatefulParams([4, 2, 7]))
+        ]);
+
+        expect(median.getValue(state)).toBe(4);
+    });
+
+    it('returns null for empty array', () => {
+        expect(median.getValue(median.aggregate(createStatefulParams([])))).toBeNull();
+    });
+});
+
+describe('aggPercentile', () => {
+    const percentile = createService().getStatefulAggFunc('percentile')!;
+
+    it('has function', () => {
+        expect(percentile).toBeDefined();
+    });
+
+    it('returns percentile of values', () => {
+        const state = percentile.aggregate(createStatefulParams([1, 2, 3, 4, 5], {}, { percentile: 90 }));
+
+        expect(percentile.getValue(state)).toBeCloseTo(4.6);
+    });
+
+    it('keeps the percentile when combining states', () => {
+        const state = percentile.combine([
+            percentile.aggregate(createStatefulParams([1, 5], {}, { percentile: 25 })),
+            percentile.aggregate(createStatefulParams([3, 2, 4], {}, { percentile: 25 }))
+        ]);
+
+        expect(percentile.getValue(state)).toBe(2);
+    });
+
+    it('returns median without percentile', () => {
+        expect(percentile.getValue(percentile.aggregate(createStatefulParams([1, 2, 3])))).toBe(2);
+    });
+});
+
+describe('aggStdDev', () => {
+    const stdDev = createService().getStatefulAggFunc('stdDev')!;
+
+    it('has function', () => {
+        expect(stdDev).toBeDefined();
+    });
+
+    it('returns sample standard deviation of numbers', () => {
+        const state = stdDev.aggregate(createStatefulParams([2, 4, 4, 4, 'foo', 5, 5, 7, 9]));
+
+        expect(stdDev.getValue(state)).toBeCloseTo(2.138, 3);
+    });
+
+    it('combines states of groups', () => {
+        const state = stdDev.combine([
+            stdDev.aggregate(createStatefulParams([2, 4, 4])),
+            stdDev.aggregate(createStatefulParams([])),
+            stdDev.aggregate(createStatefulParams([4, 5, 5, 7, 9]))
+        ]);
+
+        expect(stdDev.getValue(state)).toBeCloseTo(2.138, 3);
+    });
+
+    it('returns null for fewer than two values', () => {
+        expect(stdDev.getValue(stdDev.aggregate(createStatefulParams([5])))).toBeNull();
+    });
+});
+
+describe('aggCountDistinct', () => {
+    const countDistinct = createService().getStatefulAggFunc('countDistinct')!;
+
+    it('has function', () => {
+        expect(countDistinct).toBeDefined();
+    });
+
+    it('returns count of distinct values', () => {
+        expect(countDistinct.getValue(countDistinct.aggregate(createStatefulParams([1, 'a', 1, null, 'a', 2])))).toBe(3);
+    });
+
+    it('combines states of groups', () => {
+        const state = countDistinct.combine([
+            countDistinct.aggregate(createStatefulParams(['a', 'b'])),
+            countDistinct.aggregate(createStatefulParams(['b', 'c']))
+        ]);
+
+        expect(countDistinct.getValue(state)).toBe(3);
+    });
+});
+
+describe('incremental aggregation', () => {
+    const service = createService();
+
+    function aggregate(name: string, values: any[], added: any[] = [], removed: any[] = []): any {
+        const aggFunc = service.getIncrementalAggFunc(name)!;
+        let state = aggFunc.aggregate(createStatefulParams(values));
+
+        state = aggFunc.remove!(state, createStatefulParams(removed));
+        state = aggFunc.add!(state, createStatefulParams(added));
+
+        return aggFunc.getValue(state);
+    }
+
+    it('adds and removes values from sum', () => {
+        expect(aggregate('sum', [5, 10, 'foo'], [3], [10])).toBe(8);
+    });
+
+    it('returns null from sum when all values are removed', () => {
+        expect(aggregate('sum', [5, 10], [], [5, 10])).toBeNull();
+    });
+
+    it('sums again when removing bigints', () => {
+        const sum = service.getIncrementalAggFunc('sum')!;
+        const state = sum.aggregate(createStatefulParams([BigInt(5), BigInt(10)]));
+
+        expect(sum.remove!(state, createStatefulParams([BigInt(5)]))).toBeNull();
+    });
+
+    it('adds and removes values from count', () => {
+        expect(aggregate('count', [5, 10, null], [3, 4], [10]).toNumber()).toBe(4);
+    });
+
+    it('adds and removes values from avg', () => {
+        const result = aggregate('avg', [5, 10, 15], [30], [5]);
+
+        expect(result.toNumber()).toBe(55 / 3);
+        expect(result.count).toBe(3);
+    });
+
+    it('removes the min value', () => {
+        expect(aggregate('min', [5, 1, 10, 1], [7], [1, 1])).toBe(5);
+    });
+
+    it('removes the max value', () => {
+        expect(aggregate('max', [5, 1, 10], [7], [10])).toBe(7);
+    });
+
+    it('combines min states with removed values', () => {
+        const min = service.getIncrementalAggFunc('min')!;
+        const state1 = min.remove!(min.aggregate(createStatefulParams([1, 8])), createStatefulParams([1]));
+        const state2 = min.aggregate(createStatefulParams([4, 6]));
+
+        expect(min.getValue(min.combine([state1, state2]))).toBe(4);
+    });
+
+    it('combines min states again instead of adding to or removing from them', () => {
+        const min = service.getIncrementalAggFunc('min')!;
+        const combined = min.combine([min.aggregate(createStatefulParams([1, 8]))]);
+
+        expect(min.remove!(combined, createStatefulParams([1]))).toBeNull();
+        expect(min.add!(combined, createStatefulParams([0]))).toBeNull();
+    });
+
+    it('returns null from max when all values are removed', () => {
+        expect(aggregate('max', [5, 1], [], [1, 5])).toBeNull();
+    });
+
+    it('has no incremental function for replaced built-in functions', () => {
+        const replaced = createService();
+
+        replaced.addAggFunc('sum', () => 0);
+
+        expect(replaced.getIncrementalAggFunc('sum')).toBeUndefined();
+    });
+
+    it('has no incremental function for stateful functions without add and remove', () => {
+        expect(service.getIncrementalAggFunc('median')).toBeUndefined();
+    });
+});
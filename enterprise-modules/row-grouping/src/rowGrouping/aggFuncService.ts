@@ -1,13 +1,17 @@
 import {
     Bean,
     BeanStub,
+    ColDef,
     Column,
     IAggFunc,
     IAggFuncService,
     PostConstruct,
     _,
-    IAggFuncParams
+    IAggFuncParams,
+    IStatefulAggFunc,
+    IStatefulAggFuncParams
 } from '@ag-grid-community/core';
+import { AggHeap } from './aggHeap';
 
 // @ts-ignore
 const AGBigInt = typeof BigInt === 'undefined' ? null : BigInt;
@@ -22,8 +26,16 @@ export class AggFuncService extends BeanStub implements IAggFuncService {
     private static AGG_MAX = 'max';
     private static AGG_COUNT = 'count';
     private static AGG_AVG = 'avg';
+    private static AGG_WEIGHTED_AVG = 'weightedAvg';
+    private static AGG_MEDIAN = 'median';
+    private static AGG_PERCENTILE = 'percentile';
+    private static AGG_STD_DEV = 'stdDev';
+    private static AGG_COUNT_DISTINCT = 'countDistinct';
 
     private aggFuncsMap: { [key: string]: IAggFunc; } = {};
+    // the stateful versions of the built-in functions, for incrementalAggregation
+    private incrementalAggFuncsMap: { [key: string]: IStatefulAggFunc; } = {};
+    private statefulAggFuncsMap: { [key: string]: IStatefulAggFunc; } = {};
     private initialised = false;
 
     @PostConstruct
@@ -44,6 +56,16 @@ export class AggFuncService extends BeanStub implements IAggFuncService {
         this.aggFuncsMap[AggFuncService.AGG_MAX] = aggMax;
         this.aggFuncsMap[AggFuncService.AGG_COUNT] = aggCount;
         this.aggFuncsMap[AggFuncService.AGG_AVG] = aggAvg;
+        this.incrementalAggFuncsMap[AggFuncService.AGG_SUM] = aggIncrementalSum;
+        this.incrementalAggFuncsMap[AggFuncService.AGG_COUNT] = aggIncrementalCount;
+        this.incrementalAggFuncsMap[AggFuncService.AGG_AVG] = aggIncrementalAvg;
+        this.incrementalAggFuncsMap[AggFuncService.AGG_MIN] = createIncrementalMinMax(false);
+        this.incrementalAggFuncsMap[AggFuncService.AGG_MAX] = createIncrementalMinMax(true);
+        this.statefulAggFuncsMap[AggFuncService.AGG_WEIGHTED_AVG] = aggWeightedAvg;
+        this.statefulAggFuncsMap[AggFuncService.AGG_MEDIAN] = aggMedian;
+        this.statefulAggFuncsMap[AggFuncService.AGG_PERCENTILE] = aggPercentile;
+        this.statefulAggFuncsMap[AggFuncService.AGG_STD_DEV] = aggStdDev;
+        this.statefulAggFuncsMap[AggFuncService.AGG_COUNT_DISTINCT] = aggCountDistinct;
         this.initialised = true;
     }
 
@@ -62,13 +84,23 @@ export class AggFuncService extends BeanStub implements IAggFuncService {
         return _.existsAndNotEmpty(allKeys) ? allKeys[0] : null;
     }
 
-    public addAggFuncs(aggFuncs?: { [key: string]: IAggFunc; }): void {
+    public addAggFuncs(aggFuncs?: { [key: string]: IAggFunc | IStatefulAggFunc; }): void {
         _.iterateObject(aggFuncs, this.addAggFunc.bind(this));
     }
 
-    public addAggFunc(key: string, aggFunc: IAggFunc): void {
+    public addAggFunc(key: string, aggFunc: IAggFunc | IStatefulAggFunc): void {
         this.init();
-        this.aggFuncsMap[key] = aggFunc;
+
+        // a key names one function, so replace any function of the other kind
+        delete this.incrementalAggFuncsMap[key];
+
+        if (typeof aggFunc === 'function') {
+            this.aggFuncsMap[key] = aggFunc;
+            delete this.statefulAggFuncsMap[key];
+        } else {
+            this.statefulAggFuncsMap[key] = aggFunc;
+            delete this.aggFuncsMap[key];
+        }
     }
 
     public getAggFunc(name: string): IAggFunc {
@@ -76,14 +108,36 @@ export class AggFuncService extends BeanStub implements IAggFuncService {
         return this.aggFuncsMap[name];
     }
 
+    public getStatefulAggFunc(name: string): IStatefulAggFunc | undefined {
+        this.init();
+        return this.statefulAggFuncsMap[name];
+    }
+
+    // the function as a stateful function that can add and remove values, if it can
+    public getIncrementalAggFunc(name: string): IStatefulAggFunc | undefined {
+        this.init();
+
+        const statefulAggFunc = this.statefulAggFuncsMap[name];
+
+        if (statefulAggFunc) {
+            return statefulAggFunc.add && statefulAggFunc.remove ? statefulAggFunc : undefined;
+        }
+
+        return this.incrementalAggFuncsMap[name];
+    }
+
     public getFuncNames(column: Column): string[] {
         const userAllowedFuncs = column.getColDef().allowedAggFuncs;
 
-        return userAllowedFuncs == null ? Object.keys(this.aggFuncsMap).sort() : userAllowedFuncs;
+        if (userAllowedFuncs != null) { return userAllowedFuncs; }
+
+        return Object.keys(this.aggFuncsMap).concat(Object.keys(this.statefulAggFuncsMap)).sort();
     }
 
     public clear(): void {
         this.aggFuncsMap = {};
+        this.statefulAggFuncsMap = {};
+        this.incrementalAggFuncsMap = {};
     }
 }
 
@@ -169,8 +223,12 @@ function aggCount(params: IAggFuncParams): { value: number; toString(): string;
         result += value != null && typeof value.value === 'number' ? value.value : 1;
     }
 
+    return createCountValue(result);
+}
+
+function createCountValue(count: number): { value: number; toString(): string; toNumber(): number; } {
     return {
-        value: result,
+        value: count,
         toString: function() {
             return this.value.toString();
         },
@@ -217,6 +275,10 @@ function aggAvg(params: IAggFuncParams): { value: number | bigint | null; count:
         }
     }
 
+    return createAvgValue(sum, count);
+}
+
+function createAvgValue(sum: any, count: number): { value: number | bigint | null; count: number; toString(): string; toNumber(): number; } {
     let value = null;
 
     // avoid divide by zero error
@@ -246,3 +308,276 @@ function aggAvg(params: IAggFuncParams): { value: number | bigint | null; count:
         }
     };
 }
+
+interface SumState {
+    sum: number | bigint | null;
+    // the number of values in the sum
+    count: number;
+}
+
+function createSumState(values: any[]): SumState {
+    let count = 0;
+
+    for (let i = 0; i < values.length; i++) {
+        if (typeof values[i] === 'number' || typeof values[i] === 'bigint') {
+            count++;
+        }
+    }
+
+    return { sum: aggSum({ values } as IAggFuncParams), count };
+}
+
+function combineSumStates(states: SumState[]): SumState {
+    let count = 0;
+
+    for (let i = 0; i < states.length; i++) {
+        count += states[i].count;
+    }
+
+    return { sum: aggSum({ values: states.map(state => state.sum) } as IAggFuncParams), count };
+}
+
+const aggIncrementalSum: IStatefulAggFunc<SumState> = {
+    aggregate: params => createSumState(params.values),
+    combine: combineSumStates,
+    add: (state, params) => combineSumStates([state, createSumState(params.values)]),
+    remove: (state, params) => {
+        const removed = createSumState(params.values);
+
+        // bigints are summed again from all the rows
+        if (typeof state.sum === 'bigint' || typeof removed.sum === 'bigint') { return null; }
+
+        const count = state.count - removed.count;
+
+        return { sum: count > 0 ? (state.sum as number) - (removed.sum || 0) : null, count };
+    },
+    getValue: state => state.sum
+};
+
+const aggIncrementalAvg: IStatefulAggFunc<SumState> = {
+    ...aggIncrementalSum,
+    getValue: state => createAvgValue(state.count > 0 ? state.sum : 0, state.count)
+};
+
+const aggIncrementalCount: IStatefulAggFunc<number> = {
+    aggregate: params => params.values.length,
+    combine: states => states.reduce((count, state) => count + state, 0),
+    add: (state, params) => state + params.values.length,
+    remove: (state, params) => state - params.values.length,
+    getValue: createCountValue
+};
+
+function getNumbers(values: any[]): (number | bigint)[] {
+    return values.filter(value => typeof value === 'number' || typeof value === 'bigint');
+}
+
+function createIncrementalMinMax(max: boolean): IStatefulAggFunc<AggHeap> {
+    return {
+        aggregate: params => new AggHeap(max, getNumbers(params.values)),
+        combine: states => AggHeap.combine(states, max),
+        // combined heaps are combined again from the heaps of the child groups
+        add: (state, params) => {
+            if (state.isCombined()) { return null; }
+
+            getNumbers(params.values).forEach(value => state.add(value));
+            return state;
+        },
+        remove: (state, params) => {
+            if (state.isCombined()) { return null; }
+
+            getNumbers(params.values).forEach(value => state.remove(value));
+            return state;
+        },
+        getValue: state => state.peek()
+    };
+}
+
+function getAggFuncParam(params: IAggFuncParams, key: string): any {
+    const aggFuncParams = params.colDef ? params.colDef.aggFuncParams : null;
+
+    return aggFuncParams ? aggFuncParams[key] : undefined;
+}
+
+function getWeightColumns(colDef: ColDef): string[] {
+    const weightColumn = colDef.aggFuncParams ? colDef.aggFuncParams.weightColumn : null;
+
+    return weightColumn ? [weightColumn] : [];
+}
+
+// the average of the values, weighted by the values of aggFuncParams.weightColumn. without a weight column
+// every value has a weight of 1.
+const aggWeightedAvg: IStatefulAggFunc<{ sum: number; weight: number; }> = {
+    inputColumns: getWeightColumns,
+    aggregate: (params: IStatefulAggFuncParams) => {
+        const { values } = params;
+        const weightColumn = getAggFuncParam(params, 'weightColumn');
+        const weights = weightColumn ? params.inputValues[weightColumn] : null;
+        let sum = 0;
+        let weight = 0;
+
+        for (let i = 0; i < values.length; i++) {
+            const value = values[i];
+            const valueWeight = weights ? weights[i] : 1;
+
+            if (typeof value === 'number' && typeof valueWeight === 'number') {
+                sum += value * valueWeight;
+                weight += valueWeight;
+            }
+        }
+
+        return { sum, weight };
+    },
+    combine: states => {
+        let sum = 0;
+        let weight = 0;
+
+        for (let i = 0; i < states.length; i++) {
+            sum += states[i].sum;
+            weight += states[i].weight;
+        }
+
+        return { sum, weight };
+    },
+    getValue: state => state.weight !== 0 ? state.sum / state.weight : null
+};
+
+interface PercentileState {
+    // the numbers, sorted ascending
+    values: number[];
+    percentile: number;
+}
+
+function createPercentileState(params: IStatefulAggFuncParams, percentile: number): PercentileState {
+    const values = params.values.filter(value => typeof value === 'number') as number[];
+
+    return { values: values.sort((a, b) => a - b), percentile };
+}
+
+function combinePercentileStates(states: PercentileState[]): PercentileState {
+    let values: number[] = [];
+
+    for (let i = 0; i < states.length; i++) {
+        values = mergeSortedValues(values, states[i].values);
+    }
+
+    return { values, percentile: states.length > 0 ? states[0].percentile : 50 };
+}
+
+function mergeSortedValues(a: number[], b: number[]): number[] {
+    const result: number[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < a.length && j < b.length) {
+        result.push(a[i] <= b[j] ? a[i++] : b[j++]);
+    }
+
+    while (i < a.length) { result.push(a[i++]); }
+    while (j < b.length) { result.push(b[j++]); }
+
+    return result;
+}
+
+// interpolates between the closest ranks, as Excel's PERCENTILE.INC does
+function getPercentileValue(state: PercentileState): number | null {
+    const { values, percentile } = state;
+
+    if (values.length === 0) { return null; }
+
+    const rank = Math.min(Math.max(percentile, 0), 100) / 100 * (values.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+
+    return values[lower] + (values[upper] - values[lower]) * (rank - lower);
+}
+
+const aggMedian: IStatefulAggFunc<PercentileState> = {
+    aggregate: params => createPercentileState(params, 50),
+    combine: combinePercentileStates,
+    getValue: getPercentileValue
+};
+
+// the percentile is aggFuncParams.percentile, between 0 and 100, which defaults to the median
+const aggPercentile: IStatefulAggFunc<PercentileState> = {
+    aggregate: params => {
+        const percentile = getAggFuncParam(params, 'percentile');
+
+        return createPercentileState(params, typeof percentile === 'number' ? percentile : 50);
+    },
+    combine: combinePercentileStates,
+    getValue: getPercentileValue
+};
+
+interface StdDevState {
+    count: number;
+    mean: number;
+    // the sum of the squared differences from the mean
+    m2: number;
+}
+
+// the sample standard deviation. the states are combined without the values, using the parallel algorithm of Chan et al.
+const aggStdDev: IStatefulAggFunc<StdDevState> = {
+    aggregate: params => {
+        const { values } = params;
+        let count = 0;
+        let mean = 0;
+        let m2 = 0;
+
+        for (let i = 0; i < values.length; i++) {
+            const value = values[i];
+
+            if (typeof value === 'number') {
+                count++;
+                const delta = value - mean;
+                mean += delta / count;
+                m2 += delta * (value - mean);
+            }
+        }
+
+        return { count, mean, m2 };
+    },
+    combine: states => {
+        let count = 0;
+        let mean = 0;
+        let m2 = 0;
+
+        for (let i = 0; i < states.length; i++) {
+            const state = states[i];
+
+            if (state.count === 0) { continue; }
+
+            const combinedCount = count + state.count;
+            const delta = state.mean - mean;
+
+            mean += delta * state.count / combinedCount;
+            m2 += state.m2 + delta * delta * count * state.count / combinedCount;
+            count = combinedCount;
+        }
+
+        return { count, mean, m2 };
+    },
+    getValue: state => state.count > 1 ? Math.sqrt(state.m2 / (state.count - 1)) : null
+};
+
+const aggCountDistinct: IStatefulAggFunc<Set<any>> = {
+    aggregate: params => {
+        const { values } = params;
+        const distinct = new Set<any>();
+
+        for (let i = 0; i < values.length; i++) {
+            if (values[i] != null) {
+                distinct.add(values[i]);
+            }
+        }
+
+        return distinct;
+    },
+    combine: states => {
+        const distinct = new Set<any>();
+
+        states.forEach(state => state.forEach(value => distinct.add(value)));
+
+        return distinct;
+    },
+    getValue: state => state.size
+};
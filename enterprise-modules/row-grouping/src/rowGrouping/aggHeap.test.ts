@@ -0,0 +1,59 @@
+import { AggHeap } from './aggHeap';
+
+describe('AggHeap', () => {
+    it('returns the min or max value', () => {
+        expect(new AggHeap(false, [5, 1, 10]).peek()).toBe(1);
+        expect(new AggHeap(true, [5, 1, 10]).peek()).toBe(10);
+        expect(new AggHeap(true).peek()).toBeNull();
+    });
+
+    it('takes out removed values', () => {
+        const heap = new AggHeap(false, [5, 1, 10, 1, 7]);
+
+        heap.remove(1);
+        expect(heap.peek()).toBe(1);
+
+        heap.remove(1);
+        expect(heap.peek()).toBe(5);
+
+        heap.remove(10);
+        heap.remove(5);
+        expect(heap.peek()).toBe(7);
+    });
+
+    it('keeps its size bounded when values that never reach the top are replaced', () => {
+        const heap = new AggHeap(false, [0]);
+
+        for (let i = 1; i <= 1000; i++) {
+            heap.add(i);
+            heap.remove(i);
+        }
+
+        for (let i = 1; i <= 1000; i++) {
+            heap.add(i + 1000);
+
+            if (i > 1) {
+                heap.remove(i + 999);
+            }
+        }
+
+        expect(heap.peek()).toBe(0);
+        expect(heap.getSize()).toBeLessThanOrEqual(4);
+    });
+
+    it('follows the heaps it combines without copying their values', () => {
+        const heap1 = new AggHeap(true, [1, 8]);
+        const heap2 = new AggHeap(true, [4, 6]);
+        const combined = AggHeap.combine([heap1, heap2], true);
+
+        expect(combined.isCombined()).toBe(true);
+        expect(combined.getSize()).toBe(0);
+        expect(combined.peek()).toBe(8);
+
+        heap1.remove(8);
+        expect(combined.peek()).toBe(6);
+
+        heap2.add(9);
+        expect(combined.peek()).toBe(9);
+    });
+});
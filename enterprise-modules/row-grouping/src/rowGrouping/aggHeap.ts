@@ -0,0 +1,158 @@
+// a binary heap of the values of a group, used by min and max to remove values without looking at the other values.
+// removed values are kept in a second heap, and only taken out of the values heap once they reach the top, or
+// all together once there are too many of them. groups of groups keep the heaps of their children instead of values.
+export class AggHeap {
+
+    private readonly max: boolean;
+    private readonly values: (number | bigint)[];
+    private readonly removed: (number | bigint)[] = [];
+    private readonly children: AggHeap[] | null;
+
+    constructor(max: boolean, values: (number | bigint)[] = [], children: AggHeap[] | null = null) {
+        this.max = max;
+        this.values = values;
+        this.children = children;
+
+        this.heapify(this.values);
+    }
+
+    // the combined heap refers to the heaps, so it changes with them, and has to be combined again when heaps are added
+    public static combine(heaps: AggHeap[], max: boolean): AggHeap {
+        return new AggHeap(max, [], heaps.slice());
+    }
+
+    // values can't be added to or removed from combined heaps
+    public isCombined(): boolean {
+        return this.children !== null;
+    }
+
+    // the number of values kept, including the removed values that were not taken out yet
+    public getSize(): number {
+        return this.values.length + this.removed.length;
+    }
+
+    public add(value: number | bigint): void {
+        this.push(this.values, value);
+    }
+
+    public remove(value: number | bigint): void {
+        this.push(this.removed, value);
+
+        if (this.removed.length > this.values.length / 2) {
+            this.compact();
+        }
+    }
+
+    // the min or max value, or null if there are no values
+    public peek(): number | bigint | null {
+        if (this.children) {
+            return this.peekChildren(this.children);
+        }
+
+        // take out the values that were removed
+        while (this.removed.length > 0 && this.values.length > 0 && !this.isBefore(this.values[0], this.removed[0])) {
+            // if the removed value comes first it was never added, so there is no value to take out
+            if (!this.isBefore(this.removed[0], this.values[0])) {
+                this.pop(this.values);
+            }
+            this.pop(this.removed);
+        }
+
+        return this.values.length > 0 ? this.values[0] : null;
+    }
+
+    private peekChildren(children: AggHeap[]): number | bigint | null {
+        let first: number | bigint | null = null;
+
+        for (let i = 0; i < children.length; i++) {
+            const value = children[i].peek();
+
+            if (value !== null && (first === null || this.isBefore(value, first))) {
+                first = value;
+            }
+        }
+
+        return first;
+    }
+
+    // takes all the removed values out of the values heap, so they can't outgrow the values
+    private compact(): void {
+        const removedCounts = new Map<number | bigint, number>();
+
+        this.removed.forEach(value => removedCounts.set(value, (removedCounts.get(value) || 0) + 1));
+
+        let count = 0;
+
+        this.values.forEach(value => {
+            const removedCount = removedCounts.get(value);
+
+            if (removedCount) {
+                removedCounts.set(value, removedCount - 1);
+            } else {
+                this.values[count++] = value;
+            }
+        });
+
+        this.values.length = count;
+        this.removed.length = 0;
+
+        this.heapify(this.values);
+    }
+
+    // true if a comes before b at the top of the heap
+    private isBefore(a: number | bigint, b: number | bigint): boolean {
+        return this.max ? a > b : a < b;
+    }
+
+    private heapify(heap: (number | bigint)[]): void {
+        for (let i = Math.floor(heap.length / 2) - 1; i >= 0; i--) {
+            this.siftDown(heap, i);
+        }
+    }
+
+    private push(heap: (number | bigint)[], value: number | bigint): void {
+        heap.push(value);
+
+        let index = heap.length - 1;
+
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+
+            if (!this.isBefore(heap[index], heap[parent])) { break; }
+
+            this.swap(heap, index, parent);
+            index = parent;
+        }
+    }
+
+    private pop(heap: (number | bigint)[]): void {
+        const last = heap.pop()!;
+
+        if (heap.length > 0) {
+            heap[0] = last;
+            this.siftDown(heap, 0);
+        }
+    }
+
+    private siftDown(heap: (number | bigint)[], index: number): void {
+        while (true) {
+            const left = index * 2 + 1;
+            const right = left + 1;
+            let first = index;
+
+            if (left < heap.length && this.isBefore(heap[left], heap[first])) { first = left; }
+            if (right < heap.length && this.isBefore(heap[right], heap[first])) { first = right; }
+
+            if (first === index) { return; }
+
+            this.swap(heap, index, first);
+            index = first;
+        }
+    }
+
+    private swap(heap: (number | bigint)[], a: number, b: number): void {
+        const value = heap[a];
+        heap[a] = heap[b];
+        heap[b] = value;
+    }
+}
@@ -12,11 +12,20 @@ import {
     GridApi,
     ColumnApi,
     ChangedPath,
+    ColumnarRows,
+    ColDef,
+    ExpressionService,
+    FilterManager,
+    CalculatedMeasureParams,
     IAggFuncParams,
+    IStatefulAggFunc,
+    IStatefulAggFuncParams,
+    RowNodeTransaction,
     _
 } from "@ag-grid-community/core";
 import { PivotStage } from "./pivotStage";
 import { AggFuncService } from "./aggFuncService";
+import { ShowValueAsService, toNumber } from "./showValueAsService";
 
 interface AggregationDetails {
     changedPath: ChangedPath;
@@ -24,6 +33,18 @@ interface AggregationDetails {
     pivotColumns: Column[];
 }
 
+// the values a leaf row was aggregated with by its group, to remove them when the row changes
+interface AggregatedLeaf {
+    parent: RowNode;
+    values: { [colId: string]: any; };
+}
+
+// the values of the leaf rows a transaction adds to and removes from a group
+interface AggDelta {
+    added: { [colId: string]: any; }[];
+    removed: { [colId: string]: any; }[];
+}
+
 @Bean('aggregationStage')
 export class AggregationStage extends BeanStub implements IRowNodeStage {
 
@@ -33,9 +54,21 @@ export class AggregationStage extends BeanStub implements IRowNodeStage {
     @Autowired('aggFuncService') private aggFuncService: AggFuncService;
     @Autowired('gridApi') private gridApi: GridApi;
     @Autowired('columnApi') private columnApi: ColumnApi;
+    @Autowired('filterManager') private filterManager: FilterManager;
+    @Autowired('expressionService') private expressionService: ExpressionService;
+    @Autowired('showValueAsService') private showValueAsService: ShowValueAsService;
 
     private filteredOnly: boolean;
 
+    // true when a value column shows its values as something else, so the groups keep the aggregated data in rawAggData
+    private showValueAsActive: boolean;
+    // the pivot column ids by pivot keys and value column, for the calculated measures to look up the other values
+    private pivotColIds: { [key: string]: string; } = {};
+
+    // true when the groups keep the states of all the agg funcs for incrementalAggregation
+    private incremental: boolean;
+    private aggregatedLeaves: { [id: string]: AggregatedLeaf; } = {};
+
     // it's possible to recompute the aggregate without doing the other parts
     // + gridApi.recomputeAggregates()
     public execute(params: StageExecuteParams): any {
@@ -49,11 +82,131 @@ export class AggregationStage extends BeanStub implements IRowNodeStage {
         const changedPathActive = params.changedPath && params.changedPath.isActive();
         if (noValueColumns && noUserAgg && changedPathActive) { return; }
 
+        // update props, in case changed since last time
+        this.filteredOnly = !this.gridOptionsWrapper.isSuppressAggFilteredOnly();
+        this.incremental = this.gridOptionsWrapper.isIncrementalAggregation() && !params.columnarRows && !this.columnModel.isPivotActive();
+        this.showValueAsActive = this.showValueAsService.isActive();
+        this.pivotColIds = this.createPivotColIds();
+
+        if (params.columnarRows) {
+            this.aggregateColumnarRows(params.rowNode, params.columnarRows);
+        } else {
+            this.aggregateRowNodes(params);
+        }
+
+        // the parents are aggregated from the raw data of their children, so the values are shown once all are aggregated
+        if (this.showValueAsActive) {
+            this.showValueAsService.showValuesAs(params.rowNode);
+        }
+    }
+
+    private aggregateRowNodes(params: StageExecuteParams): void {
         const aggDetails = this.createAggDetails(params);
+        const { rowNodeTransactions } = params;
+
+        // every group is aggregated again, which records the leaves again
+        if (!aggDetails.changedPath.isActive() || !this.incremental) {
+            this.aggregatedLeaves = {};
+        }
+
+        if (this.canAggregateIncrementally(aggDetails, rowNodeTransactions)) {
+            this.recursivelyCreateAggData(aggDetails, this.createAggDeltas(rowNodeTransactions!, aggDetails.valueColumns));
+            return;
+        }
+
+        if (rowNodeTransactions) {
+            this.forgetRemovedLeaves(rowNodeTransactions);
+        }
 
         this.recursivelyCreateAggData(aggDetails);
     }
 
+    private canAggregateIncrementally(aggDetails: AggregationDetails, rowNodeTransactions?: RowNodeTransaction[] | null): boolean {
+        const { gridOptionsWrapper } = this;
+
+        if (!this.incremental || !aggDetails.changedPath.isActive() || _.missingOrEmpty(rowNodeTransactions)) { return false; }
+
+        const unsupported = gridOptionsWrapper.getGroupRowAggNodesFunc() ||
+            gridOptionsWrapper.isTreeData() ||
+            gridOptionsWrapper.isSuppressParentsInRowNodes() ||
+            // the transactions don't say which rows the filter has added to or removed from the groups
+            (this.filteredOnly && this.filterManager.isAnyFilterPresent());
+
+        if (unsupported || aggDetails.valueColumns.length === 0) { return false; }
+
+        return aggDetails.valueColumns.every(valueColumn => {
+            const statefulAggFunc = this.getStatefulAggFunc(valueColumn);
+
+            return !!statefulAggFunc && !!statefulAggFunc.add && !!statefulAggFunc.remove;
+        });
+    }
+
+    // goes through the transactions in order, removing the values the leaves were aggregated with from the groups
+    // they were in, and adding the current values to the groups they are in now
+    private createAggDeltas(rowNodeTransactions: RowNodeTransaction[], valueColumns: Column[]): { [id: string]: AggDelta; } {
+        const deltas: { [id: string]: AggDelta; } = {};
+        const columns = this.getColumnsWithInputColumns(valueColumns);
+
+        const addDelta = (parent: RowNode | null, values: { [colId: string]: any; }, removed: boolean) => {
+            for (let pointer = parent; pointer; pointer = pointer.parent) {
+                const delta = deltas[pointer.id!] || (deltas[pointer.id!] = { added: [], removed: [] });
+
+                (removed ? delta.removed : delta.added).push(values);
+            }
+        };
+
+        const removeLeaf = (rowNode: RowNode) => {
+            const aggregatedLeaf = this.aggregatedLeaves[rowNode.id!];
+
+            if (aggregatedLeaf) {
+                addDelta(aggregatedLeaf.parent, aggregatedLeaf.values, true);
+                delete this.aggregatedLeaves[rowNode.id!];
+            }
+        };
+
+        const addLeaf = (rowNode: RowNode) => {
+            const values: { [colId: string]: any; } = {};
+
+            columns.forEach(column => values[column.getId()] = this.valueService.getValue(column, rowNode));
+
+            addDelta(rowNode.parent, values, false);
+            this.aggregatedLeaves[rowNode.id!] = { parent: rowNode.parent!, values };
+        };
+
+        rowNodeTransactions.forEach(tran => {
+            if (!tran) { return; }
+
+            tran.remove.forEach(removeLeaf);
+            tran.update.forEach(rowNode => {
+                removeLeaf(rowNode);
+                addLeaf(rowNode);
+            });
+            tran.add.forEach(addLeaf);
+        });
+
+        return deltas;
+    }
+
+    private forgetRemovedLeaves(rowNodeTransactions: RowNodeTransaction[]): void {
+        rowNodeTransactions.forEach(tran => {
+            if (tran) {
+                tran.remove.forEach(rowNode => delete this.aggregatedLeaves[rowNode.id!]);
+            }
+        });
+    }
+
+    private getColumnsWithInputColumns(valueColumns: Column[]): Column[] {
+        const columns = valueColumns.slice();
+
+        valueColumns.forEach(valueColumn => this.getInputColumns(valueColumn).forEach(inputColumn => {
+            if (columns.indexOf(inputColumn) < 0) {
+                columns.push(inputColumn);
+            }
+        }));
+
+        return columns;
+    }
+
     private createAggDetails(params: StageExecuteParams): AggregationDetails {
 
         const pivotActive = this.columnModel.isPivotActive();
@@ -70,11 +223,7 @@ export class AggregationStage extends BeanStub implements IRowNodeStage {
         return aggDetails;
     }
 
-    private recursivelyCreateAggData(aggDetails: AggregationDetails) {
-
-        // update prop, in case changed since last time
-        this.filteredOnly = !this.gridOptionsWrapper.isSuppressAggFilteredOnly();
-
+    private recursivelyCreateAggData(aggDetails: AggregationDetails, deltas?: { [id: string]: AggDelta; }) {
         const callback = (rowNode: RowNode) => {
 
             const hasNoChildren = !rowNode.hasChildren();
@@ -83,6 +232,8 @@ export class AggregationStage extends BeanStub implements IRowNodeStage {
                 // but it was a child previously.
                 if (rowNode.aggData) {
                     rowNode.setAggData(null);
+                    rowNode.aggStates = null;
+                    rowNode.rawAggData = null;
                 }
                 // never agg data for leaf nodes
                 return;
@@ -97,7 +248,14 @@ export class AggregationStage extends BeanStub implements IRowNodeStage {
                 if (suppressAggAtRootLevel && notPivoting) { return; }
             }
 
-            this.aggregateRowNode(rowNode, aggDetails);
+            const delta = deltas ? deltas[rowNode.id!] : undefined;
+
+            // groups created by the transactions don't have states yet, so are aggregated from all their rows
+            if (delta && this.getRawAggData(rowNode) && rowNode.aggStates) {
+                this.applyAggDelta(rowNode, delta, aggDetails);
+            } else {
+                this.aggregateRowNode(rowNode, aggDetails);
+            }
         };
 
         aggDetails.changedPath.forEachChangedNodeDepthFirst(callback, true);
@@ -108,6 +266,7 @@ export class AggregationStage extends BeanStub implements IRowNodeStage {
         const measureColumnsMissing = aggDetails.valueColumns.length === 0;
         const pivotColumnsMissing = aggDetails.pivotColumns.length === 0;
         const userFunc = this.gridOptionsWrapper.getGroupRowAggNodesFunc();
+        const aggStates: { [colId: string]: any; } = {};
 
         let aggResult: any;
         if (userFunc) {
@@ -115,21 +274,263 @@ export class AggregationStage extends BeanStub implements IRowNodeStage {
         } else if (measureColumnsMissing) {
             aggResult = null;
         } else if (pivotColumnsMissing) {
-            aggResult = this.aggregateRowNodeUsingValuesOnly(rowNode, aggDetails);
+            aggResult = this.aggregateRowNodeUsingValuesOnly(rowNode, aggDetails, aggStates);
         } else {
-            aggResult = this.aggregateRowNodeUsingValuesAndPivot(rowNode);
+            aggResult = this.aggregateRowNodeUsingValuesAndPivot(rowNode, aggStates);
+        }
+
+        this.setAggResult(rowNode, aggResult, aggStates);
+    }
+
+    private setAggResult(rowNode: RowNode, aggResult: any, aggStates: { [colId: string]: any; }): void {
+        if (!this.gridOptionsWrapper.getGroupRowAggNodesFunc()) {
+            this.calculateMeasures(rowNode, aggResult);
         }
 
-        rowNode.setAggData(aggResult);
+        // the shown values are set by the show value as service
+        const rawAggData = this.showValueAsActive ? aggResult : null;
+
+        rowNode.rawAggData = rawAggData;
+        rowNode.aggStates = aggStates;
+
+        if (!rawAggData) {
+            rowNode.setAggData(aggResult);
+        }
 
         // if we are grouping, then it's possible there is a sibling footer
         // to the group, so update the data here also if there is one
         if (rowNode.sibling) {
-            rowNode.sibling.setAggData(aggResult);
+            rowNode.sibling.rawAggData = rawAggData;
+            rowNode.sibling.aggStates = aggStates;
+
+            if (!rawAggData) {
+                rowNode.sibling.setAggData(aggResult);
+            }
+        }
+    }
+
+    // the aggregated data the parent groups are aggregated from
+    private getRawAggData(rowNode: RowNode): any {
+        return rowNode.rawAggData || rowNode.aggData;
+    }
+
+    private createPivotColIds(): { [key: string]: string; } {
+        const pivotColIds: { [key: string]: string; } = {};
+
+        if (!this.columnModel.isPivotActive()) { return pivotColIds; }
+
+        this.pivotStage.getPivotColumnDefs().forEach(colDef => {
+            if (!colDef.pivotValueColumn) { return; }
+
+            pivotColIds[this.getPivotColIdKey(colDef, colDef.pivotValueColumn.getId())] = colDef.colId!;
+        });
+
+        return pivotColIds;
+    }
+
+    private getPivotColIdKey(colDef: ColDef, valueColId: string): string {
+        return JSON.stringify([_.exists(colDef.pivotTotalColumnIds), colDef.pivotKeys || [], valueColId]);
+    }
+
+    // the calculated measures replace the values aggregated for them
+    private calculateMeasures(rowNode: RowNode, aggResult: any): void {
+        if (!aggResult) { return; }
+
+        if (!this.columnModel.isPivotActive()) {
+            this.columnModel.getValueColumns()
+                .filter(valueColumn => valueColumn.getColDef().calculatedMeasure)
+                .forEach(valueColumn => {
+                    const getValue = (colId: string) => toNumber(aggResult[colId]);
+                    aggResult[valueColumn.getId()] = this.calculateMeasure(valueColumn, rowNode, [], getValue);
+                });
+            return;
+        }
+
+        this.pivotStage.getPivotColumnDefs()
+            .filter(colDef => colDef.pivotValueColumn && colDef.pivotValueColumn.getColDef().calculatedMeasure)
+            .forEach(colDef => {
+                const getValue = (colId: string) => {
+                    const pivotColId = this.pivotColIds[this.getPivotColIdKey(colDef, colId)];
+                    return pivotColId ? toNumber(aggResult[pivotColId]) : null;
+                };
+
+                aggResult[colDef.colId!] = this.calculateMeasure(colDef.pivotValueColumn!, rowNode, colDef.pivotKeys || [], getValue);
+            });
+    }
+
+    private calculateMeasure(valueColumn: Column, rowNode: RowNode, pivotKeys: string[], getValue: (colId: string) => any): any {
+        const colDef = valueColumn.getColDef();
+        const params: CalculatedMeasureParams = {
+            getValue,
+            node: rowNode,
+            column: valueColumn,
+            colDef,
+            pivotKeys,
+            api: this.gridApi,
+            columnApi: this.columnApi,
+            context: this.gridOptionsWrapper.getContext()
+        };
+
+        return this.expressionService.evaluate(colDef.calculatedMeasure, params);
+    }
+
+    // the value column aggregated across all its pivot columns, which doesn't need pivotRowTotals
+    public getPivotRowTotal(rowNode: RowNode, valueColumn: Column): any {
+        const rawAggData = this.getRawAggData(rowNode);
+
+        if (!rawAggData) { return null; }
+
+        if (valueColumn.getColDef().calculatedMeasure) {
+            const getValue = (colId: string) => {
+                const column = this.columnModel.getPrimaryColumn(colId);
+                return column ? toNumber(this.getPivotRowTotal(rowNode, column)) : null;
+            };
+
+            return this.calculateMeasure(valueColumn, rowNode, [], getValue);
+        }
+
+        const pivotColumnCount = this.columnModel.getPivotColumns().length;
+        const colIds = this.pivotStage.getPivotColumnDefs()
+            .filter(colDef => colDef.pivotValueColumn === valueColumn
+                && !_.exists(colDef.pivotTotalColumnIds)
+                && (colDef.pivotKeys || []).length === pivotColumnCount)
+            .map(colDef => colDef.colId!);
+
+        const statefulAggFunc = this.getStatefulAggFunc(valueColumn);
+
+        if (statefulAggFunc && rowNode.aggStates) {
+            const states = colIds.map(colId => rowNode.aggStates![colId]).filter(state => state !== undefined);
+
+            return states.length ? statefulAggFunc.getValue(statefulAggFunc.combine(states)) : null;
+        }
+
+        return this.aggregateValues(colIds.map(colId => rawAggData[colId]), valueColumn.getAggFunc()!, valueColumn, rowNode);
+    }
+
+    private applyAggDelta(rowNode: RowNode, delta: AggDelta, aggDetails: AggregationDetails): void {
+        // new objects, so setAggData sees which values changed
+        const aggResult = _.cloneObject(this.getRawAggData(rowNode));
+        const aggStates = _.cloneObject(rowNode.aggStates!);
+        const childNodes = this.filteredOnly ? rowNode.childrenAfterFilter! : rowNode.childrenAfterGroup!;
+
+        aggDetails.valueColumns.forEach(valueColumn => {
+            const colId = valueColumn.getId();
+            const statefulAggFunc = this.getStatefulAggFunc(valueColumn)!;
+            let state = aggStates[colId];
+
+            if (state != null && delta.removed.length > 0) {
+                state = statefulAggFunc.remove!(state, this.createDeltaParams(delta.removed, valueColumn, rowNode));
+            }
+
+            if (state != null && delta.added.length > 0) {
+                state = statefulAggFunc.add!(state, this.createDeltaParams(delta.added, valueColumn, rowNode));
+            }
+
+            // the agg func can't add or remove these values
+            if (state == null) {
+                state = this.createAggState(rowNode, valueColumn, colId, statefulAggFunc, childNodes);
+            }
+
+            aggStates[colId] = state;
+            aggResult[colId] = statefulAggFunc.getValue(state);
+        });
+
+        this.setAggResult(rowNode, aggResult, aggStates);
+    }
+
+    private createDeltaParams(leafValues: { [colId: string]: any; }[], valueColumn: Column, rowNode: RowNode): IStatefulAggFuncParams {
+        const colId = valueColumn.getId();
+        const inputValues: { [colId: string]: any[]; } = {};
+
+        this.getInputColumns(valueColumn).forEach(inputColumn => {
+            const inputColId = inputColumn.getId();
+
+            inputValues[inputColId] = leafValues.map(values => values[inputColId]);
+        });
+
+        return this.createStatefulAggFuncParams(leafValues.map(values => values[colId]), inputValues, valueColumn, rowNode);
+    }
+
+    // columnar rows are never grouped, so the root node is the only node to aggregate. the values are read from
+    // the arrays, only columns with value getters need the row nodes.
+    private aggregateColumnarRows(rootNode: RowNode, columnarRows: ColumnarRows): void {
+        if (this.gridOptionsWrapper.isSuppressAggAtRootLevel()) { return; }
+
+        const filteredOnly = !this.gridOptionsWrapper.isSuppressAggFilteredOnly();
+        const userFunc = this.gridOptionsWrapper.getGroupRowAggNodesFunc();
+        const valueColumns = this.columnModel.getValueColumns();
+
+        const aggStates: { [colId: string]: any; } = {};
+
+        let aggResult: any = null;
+
+        if (userFunc) {
+            const rowIndexes = filteredOnly ? columnarRows.rowIndexesAfterFilter : null;
+            aggResult = userFunc(this.getColumnarRowNodes(columnarRows, rowIndexes));
+        } else if (valueColumns.length) {
+            aggResult = {};
+            valueColumns.forEach(valueColumn => {
+                const colId = valueColumn.getId();
+                const values = this.getColumnarValues(columnarRows, valueColumn, filteredOnly);
+                const statefulAggFunc = this.getStatefulAggFunc(valueColumn);
+
+                if (!statefulAggFunc) {
+                    aggResult[colId] = this.aggregateValues(values, valueColumn.getAggFunc()!, valueColumn, rootNode);
+                    return;
+                }
+
+                const inputValues: { [colId: string]: any[]; } = {};
+
+                this.getInputColumns(valueColumn).forEach(inputColumn => {
+                    inputValues[inputColumn.getId()] = this.getColumnarValues(columnarRows, inputColumn, filteredOnly);
+                });
+
+                aggStates[colId] = statefulAggFunc.aggregate(this.createStatefulAggFuncParams(values, inputValues, valueColumn, rootNode));
+                aggResult[colId] = statefulAggFunc.getValue(aggStates[colId]);
+            });
+        }
+
+        // the sibling is the total footer
+        this.setAggResult(rootNode, aggResult, aggStates);
+    }
+
+    private getColumnarRowNodes(columnarRows: ColumnarRows, rowIndexes: Int32Array | null): RowNode[] {
+        const rowNodes: RowNode[] = [];
+        const rowCount = rowIndexes ? rowIndexes.length : columnarRows.rowCount;
+
+        for (let i = 0; i < rowCount; i++) {
+            rowNodes.push(columnarRows.getRowNode(rowIndexes ? rowIndexes[i] : i));
+        }
+
+        return rowNodes;
+    }
+
+    private getColumnarValues(columnarRows: ColumnarRows, valueColumn: Column, filteredOnly: boolean): any[] {
+        const columnValues = columnarRows.getValues(valueColumn);
+        const rowIndexes = filteredOnly ? columnarRows.rowIndexesAfterFilter : null;
+        const rowCount = rowIndexes ? rowIndexes.length : columnarRows.rowCount;
+        const numeric = columnValues instanceof Float64Array;
+        const values: any[] = [];
+
+        // for optimum performance, we use a for loop here rather than calling any helper methods or using functional code
+        for (let i = 0; i < rowCount; i++) {
+            const rowIndex = rowIndexes ? rowIndexes[i] : i;
+
+            if (!columnValues) {
+                values.push(this.valueService.getValue(valueColumn, columnarRows.getRowNode(rowIndex)));
+                continue;
+            }
+
+            const value = columnValues[rowIndex];
+
+            // missing values in Float64Arrays are NaN, which the aggregation functions expect as null
+            values.push(numeric && isNaN(value) ? null : value);
         }
+
+        return values;
     }
 
-    private aggregateRowNodeUsingValuesAndPivot(rowNode: RowNode): any {
+    private aggregateRowNodeUsingValuesAndPivot(rowNode: RowNode, aggStates: { [colId: string]: any; }): any {
         const result: any = {};
         const pivotColumnDefs = this.pivotStage.getPivotColumnDefs();
 
@@ -141,6 +542,18 @@ export class AggregationStage extends BeanStub implements IRowNodeStage {
                 let values: any[];
                 const valueColumn: Column = valueColDef.pivotValueColumn!;
                 const colId = valueColDef.colId!;
+                const statefulAggFunc = this.getStatefulAggFunc(valueColumn);
+
+                if (statefulAggFunc) {
+                    // the leaf group aggregates the nodes of the mapped set, the other groups combine their children's states
+                    const childNodes = rowNode.leafGroup ?
+                        this.getNodesFromMappedSet(rowNode.childrenMapped, keys) :
+                        rowNode.childrenAfterFilter!;
+
+                    aggStates[colId] = this.createAggState(rowNode, valueColumn, colId, statefulAggFunc, childNodes);
+                    result[colId] = statefulAggFunc.getValue(aggStates[colId]);
+                    return;
+                }
 
                 if (rowNode.leafGroup) {
                     // lowest level group, get the values from the mapped set
@@ -165,6 +578,16 @@ export class AggregationStage extends BeanStub implements IRowNodeStage {
                     return;
                 }
 
+                const statefulAggFunc = this.getStatefulAggFunc(pivotValueColumn!);
+
+                if (statefulAggFunc) {
+                    const states = pivotTotalColumnIds.map(id => aggStates[id]).filter(state => state !== undefined);
+
+                    aggStates[colId!] = statefulAggFunc.combine(states);
+                    result[colId!] = statefulAggFunc.getValue(aggStates[colId!]);
+                    return;
+                }
+
                 pivotTotalColumnIds.forEach((currentColId: string) => {
                     aggResults.push(result[currentColId]);
                 });
@@ -175,57 +598,208 @@ export class AggregationStage extends BeanStub implements IRowNodeStage {
         return result;
     }
 
-    private aggregateRowNodeUsingValuesOnly(rowNode: RowNode, aggDetails: AggregationDetails): any {
+    private aggregateRowNodeUsingValuesOnly(rowNode: RowNode, aggDetails: AggregationDetails, aggStates: { [colId: string]: any; }): any {
         const result: any = {};
+        const { changedPath } = aggDetails;
 
-        const changedValueColumns = aggDetails.changedPath.isActive() ?
-            aggDetails.changedPath.getValueColumnsForNode(rowNode, aggDetails.valueColumns)
+        let changedValueColumns = changedPath.isActive() ?
+            changedPath.getValueColumnsForNode(rowNode, aggDetails.valueColumns)
             : aggDetails.valueColumns;
 
-        const notChangedValueColumns = aggDetails.changedPath.isActive() ?
-            aggDetails.changedPath.getNotValueColumnsForNode(rowNode, aggDetails.valueColumns)
+        let notChangedValueColumns = changedPath.isActive() ?
+            changedPath.getNotValueColumnsForNode(rowNode, aggDetails.valueColumns)
             : null;
 
-        const values2d = this.getValuesNormal(rowNode, changedValueColumns);
-        const oldValues = rowNode.aggData;
+        // stateful agg funcs also need recalculating when one of their input columns changed
+        if (notChangedValueColumns) {
+            const inputChangedColumns = notChangedValueColumns.filter(valueColumn =>
+                changedPath.getValueColumnsForNode(rowNode, this.getInputColumns(valueColumn)).length > 0
+            );
+
+            changedValueColumns = changedValueColumns.concat(inputChangedColumns);
+            notChangedValueColumns = notChangedValueColumns.filter(valueColumn => inputChangedColumns.indexOf(valueColumn) < 0);
+        }
+
+        const statefulValueColumns = changedValueColumns.filter(valueColumn => this.getStatefulAggFunc(valueColumn));
+        const normalValueColumns = changedValueColumns.filter(valueColumn => !this.getStatefulAggFunc(valueColumn));
 
-        changedValueColumns.forEach((valueColumn: Column, index: number) => {
+        const values2d = this.getValuesNormal(rowNode, normalValueColumns);
+        const oldValues = this.getRawAggData(rowNode);
+        const oldStates = rowNode.aggStates;
+
+        normalValueColumns.forEach((valueColumn: Column, index: number) => {
             result[valueColumn.getId()] = this.aggregateValues(values2d[index], valueColumn.getAggFunc()!, valueColumn, rowNode);
         });
 
+        if (statefulValueColumns.length) {
+            const childNodes = this.filteredOnly ? rowNode.childrenAfterFilter! : rowNode.childrenAfterGroup!;
+
+            statefulValueColumns.forEach(valueColumn => {
+                const colId = valueColumn.getId();
+                const statefulAggFunc = this.getStatefulAggFunc(valueColumn)!;
+
+                aggStates[colId] = this.createAggState(rowNode, valueColumn, colId, statefulAggFunc, childNodes);
+                result[colId] = statefulAggFunc.getValue(aggStates[colId]);
+            });
+        }
+
         if (notChangedValueColumns && oldValues) {
             notChangedValueColumns.forEach((valueColumn: Column) => {
                 result[valueColumn.getId()] = oldValues[valueColumn.getId()];
+
+                if (oldStates && oldStates[valueColumn.getId()] !== undefined) {
+                    aggStates[valueColumn.getId()] = oldStates[valueColumn.getId()];
+                }
             });
         }
 
         return result;
     }
 
+    private getStatefulAggFunc(valueColumn: Column): IStatefulAggFunc | undefined {
+        const aggFunc = valueColumn.getAggFunc();
+
+        if (typeof aggFunc !== 'string') { return undefined; }
+
+        // the built-in functions keep states too, so transactions can add and remove values
+        const incrementalAggFunc = this.incremental ? this.aggFuncService.getIncrementalAggFunc(aggFunc) : undefined;
+
+        return incrementalAggFunc || this.aggFuncService.getStatefulAggFunc(aggFunc);
+    }
+
+    private getInputColumns(valueColumn: Column): Column[] {
+        const statefulAggFunc = this.getStatefulAggFunc(valueColumn);
+        const inputColumns = statefulAggFunc ? statefulAggFunc.inputColumns : null;
+
+        if (!inputColumns) { return []; }
+
+        const colIds = typeof inputColumns === 'function' ? inputColumns(valueColumn.getColDef()) : inputColumns;
+        const columns: Column[] = [];
+
+        colIds.forEach(colId => {
+            const column = this.columnModel.getPrimaryColumn(colId);
+
+            if (column) {
+                columns.push(column);
+            } else {
+                _.doOnce(() => console.warn(`AG Grid: input column ${colId} of aggregation function not found`), 'aggregationStage.getInputColumns' + colId);
+            }
+        });
+
+        return columns;
+    }
+
+    // the state of a group is the state of the values of its leaf children, combined with the states of its group children
+    private createAggState(
+        rowNode: RowNode,
+        valueColumn: Column,
+        colId: string,
+        statefulAggFunc: IStatefulAggFunc,
+        childNodes: RowNode[]
+    ): any {
+        const inputColumns = this.getInputColumns(valueColumn);
+        const values: any[] = [];
+        const inputValues: { [colId: string]: any[]; } = {};
+        const states: any[] = [];
+
+        inputColumns.forEach(inputColumn => inputValues[inputColumn.getId()] = []);
+
+        // for optimum performance, we use a for loop here rather than calling any helper methods or using functional code
+        for (let i = 0; i < childNodes.length; i++) {
+            const childNode = childNodes[i];
+
+            if (childNode.hasChildren()) {
+                if (childNode.aggStates && childNode.aggStates[colId] !== undefined) {
+                    states.push(childNode.aggStates[colId]);
+                }
+                continue;
+            }
+
+            const value = this.valueService.getValue(valueColumn, childNode);
+            values.push(value);
+
+            for (let j = 0; j < inputColumns.length; j++) {
+                inputValues[inputColumns[j].getId()].push(this.valueService.getValue(inputColumns[j], childNode));
+            }
+
+            if (this.incremental) {
+                this.recordLeafValues(childNode, rowNode, valueColumn, value, inputColumns, inputValues);
+            }
+        }
+
+        // the states of the child groups are always combined, even if there is only one, as the group can't share
+        // the state of its child when values are added to and removed from the states of both
+        if (values.length > 0 || states.length === 0) {
+            const leafState = statefulAggFunc.aggregate(this.createStatefulAggFuncParams(values, inputValues, valueColumn, rowNode));
+
+            if (states.length === 0) { return leafState; }
+
+            states.push(leafState);
+        }
+
+        return statefulAggFunc.combine(states);
+    }
+
+    private recordLeafValues(
+        leafNode: RowNode,
+        parent: RowNode,
+        valueColumn: Column,
+        value: any,
+        inputColumns: Column[],
+        inputValues: { [colId: string]: any[]; }
+    ): void {
+        let aggregatedLeaf = this.aggregatedLeaves[leafNode.id!];
+
+        if (!aggregatedLeaf || aggregatedLeaf.parent !== parent) {
+            aggregatedLeaf = this.aggregatedLeaves[leafNode.id!] = { parent, values: {} };
+        }
+
+        aggregatedLeaf.values[valueColumn.getId()] = value;
+
+        inputColumns.forEach(inputColumn => {
+            const columnValues = inputValues[inputColumn.getId()];
+
+            aggregatedLeaf.values[inputColumn.getId()] = columnValues[columnValues.length - 1];
+        });
+    }
+
+    private createStatefulAggFuncParams(
+        values: any[],
+        inputValues: { [colId: string]: any[]; },
+        column: Column | undefined,
+        rowNode: RowNode | undefined
+    ): IStatefulAggFuncParams {
+        return {
+            values,
+            inputValues,
+            column,
+            colDef: column ? column.getColDef() : undefined,
+            rowNode,
+            data: rowNode ? rowNode.data : undefined,
+            api: this.gridApi,
+            columnApi: this.columnApi,
+            context: this.gridOptionsWrapper.getContext()
+        } as IStatefulAggFuncParams;
+    }
+
     private getValuesPivotNonLeaf(rowNode: RowNode, colId: string): any[] {
         const values: any[] = [];
         rowNode.childrenAfterFilter!.forEach((node: RowNode) => {
-            const value = node.aggData[colId];
+            const value = this.getRawAggData(node)[colId];
             values.push(value);
         });
         return values;
     }
 
     private getValuesFromMappedSet(mappedSet: any, keys: string[], valueColumn: Column): any[] {
+        return this.getNodesFromMappedSet(mappedSet, keys).map(rowNode => this.valueService.getValue(valueColumn, rowNode));
+    }
+
+    private getNodesFromMappedSet(mappedSet: any, keys: string[]): RowNode[] {
         let mapPointer = mappedSet;
         keys.forEach(key => (mapPointer = mapPointer ? mapPointer[key] : null));
 
-        if (!mapPointer) {
-            return [];
-        }
-
-        const values: any = [];
-        mapPointer.forEach((rowNode: RowNode) => {
-            const value = this.valueService.getValue(valueColumn, rowNode);
-            values.push(value);
-        });
-
-        return values;
+        return mapPointer || [];
     }
 
     private getValuesNormal(rowNode: RowNode, valueColumns: Column[]): any[][] {
@@ -243,8 +817,10 @@ export class AggregationStage extends BeanStub implements IRowNodeStage {
             for (let j = 0; j < valueColumnCount; j++) {
                 const valueColumn = valueColumns[j];
                 // if the row is a group, then it will only have an agg result value,
-                // which means valueGetter is never used.
-                const value = this.valueService.getValue(valueColumn, childNode);
+                // which means valueGetter is never used. the raw value, as the shown value can be eg a percentage.
+                const value = childNode.rawAggData ?
+                    childNode.rawAggData[valueColumn.getId()] :
+                    this.valueService.getValue(valueColumn, childNode);
                 values[j].push(value);
             }
         }
@@ -253,6 +829,15 @@ export class AggregationStage extends BeanStub implements IRowNodeStage {
     }
 
     public aggregateValues(values: any[], aggFuncOrString: string | IAggFunc, column?: Column, rowNode?: RowNode): any {
+        const statefulAggFunc = typeof aggFuncOrString === 'string' ?
+            this.aggFuncService.getStatefulAggFunc(aggFuncOrString) :
+            undefined;
+
+        // without the rows there are no input values, eg a weighted average is the plain average here
+        if (statefulAggFunc) {
+            return statefulAggFunc.getValue(statefulAggFunc.aggregate(this.createStatefulAggFuncParams(values, {}, column, rowNode)));
+        }
+
         const aggFunc = typeof aggFuncOrString === 'string' ?
             this.aggFuncService.getAggFunc(aggFuncOrString) :
             aggFuncOrString;
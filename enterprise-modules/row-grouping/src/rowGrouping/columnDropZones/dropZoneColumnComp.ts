@@ -12,6 +12,7 @@ import {
     Column,
     DragSource,
     ColumnAggFuncChangeRequestEvent,
+    ColumnShowValueAsChangeRequestEvent,
     ColumnApi,
     GridApi,
     AgEvent,
@@ -20,15 +21,32 @@ import {
     _,
     Optional,
     IAggFuncService,
+    ShowValueAs,
     VirtualList
 } from "@ag-grid-community/core";
 
 export interface ColumnRemoveEvent extends AgEvent { }
 
+// an item of the value column popup, which sets either the agg func or how the values are shown
+interface ValueColumnOption {
+    aggFunc?: string;
+    showValueAs?: ShowValueAs | null;
+}
+
 export class DropZoneColumnComp extends Component {
 
     public static EVENT_COLUMN_REMOVE = 'columnRemove';
 
+    private static SHOW_VALUE_AS_NAMES: { [showValueAs: string]: string; } = {
+        noCalculation: 'No Calculation',
+        percentOfRowTotal: '% of Row Total',
+        percentOfColumnTotal: '% of Column Total',
+        percentOfGrandTotal: '% of Grand Total',
+        differenceFromPrevious: 'Difference From Previous',
+        runningTotal: 'Running Total',
+        rank: 'Rank'
+    };
+
     private static TEMPLATE = /* html */
         `<span>
           <span ref="eDragHandle" class="ag-drag-handle ag-column-drop-cell-drag-handle"></span>
@@ -150,8 +168,16 @@ export class DropZoneColumnComp extends Component {
             const aggFuncString = typeof aggFunc === 'string' ? aggFunc : 'agg';
             const localeTextFunc = this.gridOptionsWrapper.getLocaleTextFunc();
             const aggFuncStringTranslated = localeTextFunc(aggFuncString, aggFuncString);
+            const showValueAs = this.column.getShowValueAs();
 
-            displayValue = `${aggFuncStringTranslated}(${this.displayName})`;
+            // calculated measures are not aggregated, so have no agg func to show
+            displayValue = this.column.getColDef().calculatedMeasure ?
+                this.displayName :
+                `${aggFuncStringTranslated}(${this.displayName})`;
+
+            if (showValueAs) {
+                displayValue += ` (${this.getShowValueAsName(showValueAs)})`;
+            }
         } else {
             displayValue = this.displayName;
         }
@@ -168,7 +194,7 @@ export class DropZoneColumnComp extends Component {
 
         const virtualList = new VirtualList('select-agg-func');
 
-        const rows = this.aggFuncService.getFuncNames(this.column);
+        const rows = this.getValueColumnOptions();
 
         virtualList.setModel({
             getRow: function(index: number) { return rows[index]; },
@@ -211,31 +237,79 @@ export class DropZoneColumnComp extends Component {
         virtualList.refresh();
     }
 
-    private createAggSelect(hidePopup: () => void, value: any): Component {
+    // the agg funcs, then the ways of showing the values. calculated measures are not aggregated, so only have the latter.
+    private getValueColumnOptions(): ValueColumnOption[] {
+        const aggFuncs = this.column.getColDef().calculatedMeasure ? [] : this.aggFuncService.getFuncNames(this.column);
+        const showValueAsOptions: (ShowValueAs | null)[] = [
+            null, 'percentOfRowTotal', 'percentOfColumnTotal', 'percentOfGrandTotal', 'differenceFromPrevious', 'runningTotal', 'rank'
+        ];
+
+        return aggFuncs.map(aggFunc => ({ aggFunc }) as ValueColumnOption)
+            .concat(showValueAsOptions.map(showValueAs => ({ showValueAs })));
+    }
+
+    private getShowValueAsName(showValueAs: ShowValueAs | null): string {
+        const localeTextFunc = this.gridOptionsWrapper.getLocaleTextFunc();
+        const key = showValueAs || 'noCalculation';
+
+        return localeTextFunc(key, DropZoneColumnComp.SHOW_VALUE_AS_NAMES[key]);
+    }
+
+    private createAggSelect(hidePopup: () => void, option: ValueColumnOption): Component {
 
         const itemSelected = () => {
             hidePopup();
-            if (this.gridOptionsWrapper.isFunctionsPassive()) {
-                const event: ColumnAggFuncChangeRequestEvent = {
-                    type: Events.EVENT_COLUMN_AGG_FUNC_CHANGE_REQUEST,
-                    columns: [this.column],
-                    aggFunc: value,
-                    api: this.gridApi,
-                    columnApi: this.columnApi
-                };
-                this.eventService.dispatchEvent(event);
+            if (option.aggFunc !== undefined) {
+                this.onAggFuncSelected(option.aggFunc);
             } else {
-                this.columnModel.setColumnAggFunc(this.column, value, "toolPanelDragAndDrop");
+                this.onShowValueAsSelected(option.showValueAs!);
             }
         };
 
         const localeTextFunc = this.gridOptionsWrapper.getLocaleTextFunc();
-        const aggFuncString = value.toString();
-        const aggFuncStringTranslated = localeTextFunc(aggFuncString, aggFuncString);
-        const comp = new AggItemComp(itemSelected, aggFuncStringTranslated);
+        let itemText: string;
+
+        if (option.aggFunc !== undefined) {
+            const aggFuncString = option.aggFunc.toString();
+            itemText = localeTextFunc(aggFuncString, aggFuncString);
+        } else {
+            itemText = `${localeTextFunc('showAs', 'Show as')}: ${this.getShowValueAsName(option.showValueAs!)}`;
+        }
+
+        const comp = new AggItemComp(itemSelected, itemText);
         return comp;
     }
 
+    private onAggFuncSelected(aggFunc: string): void {
+        if (this.gridOptionsWrapper.isFunctionsPassive()) {
+            const event: ColumnAggFuncChangeRequestEvent = {
+                type: Events.EVENT_COLUMN_AGG_FUNC_CHANGE_REQUEST,
+                columns: [this.column],
+                aggFunc: aggFunc,
+                api: this.gridApi,
+                columnApi: this.columnApi
+            };
+            this.eventService.dispatchEvent(event);
+        } else {
+            this.columnModel.setColumnAggFunc(this.column, aggFunc, "toolPanelDragAndDrop");
+        }
+    }
+
+    private onShowValueAsSelected(showValueAs: ShowValueAs | null): void {
+        if (this.gridOptionsWrapper.isFunctionsPassive()) {
+            const event: ColumnShowValueAsChangeRequestEvent = {
+                type: Events.EVENT_COLUMN_SHOW_VALUE_AS_CHANGE_REQUEST,
+                columns: [this.column],
+                showValueAs: showValueAs,
+                api: this.gridApi,
+                columnApi: this.columnApi
+            };
+            this.eventService.dispatchEvent(event);
+        } else {
+            this.columnModel.setColumnShowValueAs(this.column, showValueAs, "toolPanelDragAndDrop");
+        }
+    }
+
     private addElementClasses(el: HTMLElement, suffix?: string) {
         suffix = suffix ? `-${suffix}` : '';
         _.addCssClass(el, `ag-column-drop-cell${suffix}`);
@@ -0,0 +1,126 @@
+import { ColDef, Column, RowNode, ShowValueAs } from '@ag-grid-community/core';
+import { ShowValueAsService } from './showValueAsService';
+
+function createValueColumn(showValueAs: ShowValueAs): Column {
+    return { getId: () => 'gold', getShowValueAs: () => showValueAs } as Partial<Column> as Column;
+}
+
+function createGroup(id: string, rawAggData: any, children: RowNode[] = []): RowNode {
+    const rowNode: any = {
+        id,
+        rawAggData,
+        childrenAfterFilter: children,
+        hasChildren: () => true,
+        setAggData: (aggData: any) => rowNode.aggData = aggData
+    };
+
+    return rowNode as RowNode;
+}
+
+function createService(valueColumn: Column, pivotColDefs: ColDef[] | null = null): ShowValueAsService {
+    const service = new ShowValueAsService();
+    const pivotActive = !!pivotColDefs;
+    const pivotColIds = (pivotColDefs || []).filter(colDef => !colDef.pivotTotalColumnIds).map(colDef => colDef.colId!);
+
+    const columnModel = {
+        isPivotActive: () => pivotActive,
+        getValueColumns: () => [valueColumn],
+        getSecondaryColumns: () => pivotColDefs && pivotColDefs.map(colDef => ({ getColDef: () => colDef, getId: () => colDef.colId }))
+    };
+    const pivotStage = { getPivotColumnDefs: () => pivotColDefs };
+    // the values of the pivot columns added up, the same as the aggregation stage does for sum
+    const aggregationStage = {
+        getPivotRowTotal: (rowNode: RowNode) => pivotColIds.reduce((total, colId) => total + rowNode.rawAggData[colId], 0)
+    };
+
+    Object.assign(service, { columnModel, pivotStage, aggregationStage });
+
+    return service;
+}
+
+describe('showValuesAs without pivoting', () => {
+    function showValuesAs(showValueAs: ShowValueAs): RowNode[] {
+        const groups = [
+            createGroup('a', { gold: 6 }),
+            createGroup('b', { gold: 2 }),
+            createGroup('c', { gold: 6 }),
+            createGroup('d', { gold: 6, silver: 1 }),
+            createGroup('e', { gold: null })
+        ];
+
+        createService(createValueColumn(showValueAs)).showValuesAs(createGroup('root', { gold: 20 }, groups));
+
+        return groups;
+    }
+
+    it('shows the values as percents of the row total, which is the value itself', () => {
+        expect(showValuesAs('percentOfRowTotal').map(group => group.aggData.gold)).toStrictEqual([1, 1, 1, 1, null]);
+    });
+
+    it('shows the values as percents of the column total and the grand total', () => {
+        expect(showValuesAs('percentOfColumnTotal').map(group => group.aggData.gold)).toStrictEqual([0.3, 0.1, 0.3, 0.3, null]);
+        expect(showValuesAs('percentOfGrandTotal').map(group => group.aggData.gold)).toStrictEqual([0.3, 0.1, 0.3, 0.3, null]);
+    });
+
+    it('shows no difference from previous, and the value as the running total', () => {
+        expect(showValuesAs('differenceFromPrevious').map(group => group.aggData.gold)).toStrictEqual([null, null, null, null, null]);
+        expect(showValuesAs('runningTotal').map(group => group.aggData.gold)).toStrictEqual([6, 2, 6, 6, null]);
+    });
+
+    it('ranks the values among the siblings, sharing the ranks of equal values', () => {
+        expect(showValuesAs('rank').map(group => group.aggData.gold)).toStrictEqual([1, 4, 1, 1, null]);
+    });
+
+    it('keeps the other values, and the raw values the parents are aggregated from', () => {
+        const groups = showValuesAs('rank');
+
+        expect(groups[3].aggData).toStrictEqual({ gold: 1, silver: 1 });
+        expect(groups[3].rawAggData).toStrictEqual({ gold: 6, silver: 1 });
+    });
+});
+
+describe('showValuesAs when pivoting', () => {
+    function showValuesAs(showValueAs: ShowValueAs): RowNode[] {
+        const valueColumn = createValueColumn(showValueAs);
+        const pivotColDefs: ColDef[] = [
+            { colId: 'pivot_2020', pivotKeys: ['2020'], pivotValueColumn: valueColumn },
+            { colId: 'pivot_2021', pivotKeys: ['2021'], pivotValueColumn: valueColumn },
+            { colId: 'total', pivotValueColumn: valueColumn, pivotTotalColumnIds: ['pivot_2020', 'pivot_2021'] }
+        ];
+        const groups = [
+            createGroup('a', { pivot_2020: 2, pivot_2021: 6, total: 8 }),
+            createGroup('b', { pivot_2020: 6, pivot_2021: 4, total: 10 })
+        ];
+
+        createService(valueColumn, pivotColDefs).showValuesAs(createGroup('root', { pivot_2020: 8, pivot_2021: 10, total: 18 }, groups));
+
+        return groups;
+    }
+
+    it('shows the values as percents of the row total', () => {
+        expect(showValuesAs('percentOfRowTotal')[0].aggData).toStrictEqual({ pivot_2020: 0.25, pivot_2021: 0.75, total: 1 });
+    });
+
+    it('shows the values as percents of the column total', () => {
+        expect(showValuesAs('percentOfColumnTotal')[0].aggData).toStrictEqual({ pivot_2020: 0.25, pivot_2021: 0.6, total: 8 / 18 });
+    });
+
+    it('shows the values as percents of the grand total', () => {
+        expect(showValuesAs('percentOfGrandTotal')[1].aggData).toStrictEqual({ pivot_2020: 6 / 18, pivot_2021: 4 / 18, total: 10 / 18 });
+    });
+
+    it('shows the difference from the previous pivot column, keeping the total', () => {
+        expect(showValuesAs('differenceFromPrevious')[1].aggData).toStrictEqual({ pivot_2020: null, pivot_2021: -2, total: 10 });
+    });
+
+    it('shows the running total across the pivot columns, keeping the total', () => {
+        expect(showValuesAs('runningTotal')[0].aggData).toStrictEqual({ pivot_2020: 2, pivot_2021: 8, total: 8 });
+    });
+
+    it('ranks the values of each pivot column among the siblings', () => {
+        const groups = showValuesAs('rank');
+
+        expect(groups[0].aggData).toStrictEqual({ pivot_2020: 2, pivot_2021: 1, total: 2 });
+        expect(groups[1].aggData).toStrictEqual({ pivot_2020: 1, pivot_2021: 2, total: 1 });
+    });
+});
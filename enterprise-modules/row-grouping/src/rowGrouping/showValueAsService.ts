@@ -0,0 +1,236 @@
+import {
+    Autowired,
+    Bean,
+    BeanStub,
+    Column,
+    ColumnModel,
+    RowNode,
+    ShowValueAs,
+    _
+} from "@ag-grid-community/core";
+import { PivotStage } from "./pivotStage";
+import { AggregationStage } from "./aggregationStage";
+
+// a column of the aggregated data, a pivot column when pivoting, otherwise a value column
+interface ShownColumn {
+    colId: string;
+    valueColumn: Column;
+    showValueAs: ShowValueAs;
+    // true for the pivot totals, which show running totals and differences as they are
+    total: boolean;
+}
+
+// changes the aggregated data of the groups to what colDef.showValueAs asks for, after the aggregation stage.
+// the groups keep their aggregated data in rowNode.rawAggData, which the totals are taken from.
+@Bean('showValueAsService')
+export class ShowValueAsService extends BeanStub {
+
+    @Autowired('columnModel') private columnModel: ColumnModel;
+    @Autowired('pivotStage') private pivotStage: PivotStage;
+    @Autowired('aggregationStage') private aggregationStage: AggregationStage;
+
+    public isActive(): boolean {
+        return this.columnModel.getValueColumns().some(valueColumn => !!valueColumn.getShowValueAs());
+    }
+
+    public showValuesAs(rootNode: RowNode): void {
+        const shownColumns = this.getShownColumns();
+        const rowTotals: { [nodeId: string]: { [colId: string]: number | null; }; } = {};
+
+        const getRowTotal = (rowNode: RowNode, valueColumn: Column): number | null => {
+            const nodeTotals = rowTotals[rowNode.id!] || (rowTotals[rowNode.id!] = {});
+            const colId = valueColumn.getId();
+
+            if (nodeTotals[colId] === undefined) {
+                nodeTotals[colId] = this.getRowTotal(rowNode, valueColumn);
+            }
+
+            return nodeTotals[colId];
+        };
+
+        const recursivelyShowValuesAs = (siblings: RowNode[]) => {
+            // the values of the siblings from high to low, which the ranks are found in
+            const sortedValues: { [colId: string]: number[]; } = {};
+            const getSortedValues = (colId: string): number[] =>
+                sortedValues[colId] || (sortedValues[colId] = this.getSortedValues(colId, siblings));
+
+            siblings.forEach(rowNode => {
+                this.showRowValuesAs(rowNode, rootNode, shownColumns, getRowTotal, getSortedValues);
+
+                if (rowNode.childrenAfterFilter && rowNode.childrenAfterFilter.length) {
+                    recursivelyShowValuesAs(rowNode.childrenAfterFilter.filter(child => child.hasChildren()));
+                }
+            });
+        };
+
+        recursivelyShowValuesAs([rootNode]);
+    }
+
+    private getShownColumns(): ShownColumn[] {
+        const shownColumns: ShownColumn[] = [];
+
+        if (this.columnModel.isPivotActive()) {
+            this.pivotStage.getPivotColumnDefs().forEach(colDef => {
+                const valueColumn = colDef.pivotValueColumn;
+                const showValueAs = valueColumn ? valueColumn.getShowValueAs() : null;
+
+                if (valueColumn && showValueAs) {
+                    shownColumns.push({ colId: colDef.colId!, valueColumn, showValueAs, total: _.exists(colDef.pivotTotalColumnIds) });
+                }
+            });
+        } else {
+            this.columnModel.getValueColumns().forEach(valueColumn => {
+                const showValueAs = valueColumn.getShowValueAs();
+
+                if (showValueAs) {
+                    shownColumns.push({ colId: valueColumn.getId(), valueColumn, showValueAs, total: false });
+                }
+            });
+        }
+
+        return shownColumns;
+    }
+
+    private showRowValuesAs(
+        rowNode: RowNode,
+        rootNode: RowNode,
+        shownColumns: ShownColumn[],
+        getRowTotal: (rowNode: RowNode, valueColumn: Column) => number | null,
+        getSortedValues: (colId: string) => number[]
+    ): void {
+        const { rawAggData } = rowNode;
+
+        if (!rawAggData) { return; }
+
+        const aggData = _.cloneObject(rawAggData);
+
+        shownColumns.forEach(shownColumn => {
+            const { colId, valueColumn } = shownColumn;
+            const value = toNumber(rawAggData[colId]);
+
+            switch (shownColumn.showValueAs) {
+                case 'percentOfRowTotal':
+                    aggData[colId] = divide(value, getRowTotal(rowNode, valueColumn));
+                    break;
+                case 'percentOfColumnTotal':
+                    aggData[colId] = divide(value, rootNode.rawAggData ? toNumber(rootNode.rawAggData[colId]) : null);
+                    break;
+                case 'percentOfGrandTotal':
+                    aggData[colId] = divide(value, getRowTotal(rootNode, valueColumn));
+                    break;
+                case 'differenceFromPrevious':
+                case 'runningTotal':
+                    if (!shownColumn.total) {
+                        aggData[colId] = this.getValueAcrossPivotColumns(shownColumn, rawAggData);
+                    }
+                    break;
+                case 'rank':
+                    aggData[colId] = this.getRank(value, getSortedValues(colId));
+                    break;
+            }
+        });
+
+        rowNode.setAggData(aggData);
+
+        if (rowNode.sibling) {
+            rowNode.sibling.setAggData(aggData);
+        }
+    }
+
+    // not pivoting, the value column is its own row total
+    private getRowTotal(rowNode: RowNode, valueColumn: Column): number | null {
+        if (!this.columnModel.isPivotActive()) {
+            return rowNode.rawAggData ? toNumber(rowNode.rawAggData[valueColumn.getId()]) : null;
+        }
+
+        return toNumber(this.aggregationStage.getPivotRowTotal(rowNode, valueColumn));
+    }
+
+    // the difference from the previous pivot column of the value column, or the running total up to this pivot column
+    private getValueAcrossPivotColumns(shownColumn: ShownColumn, rawAggData: any): number | null {
+        const colIds = this.getPivotColIdsInOrder(shownColumn.valueColumn);
+        const index = colIds.indexOf(shownColumn.colId);
+        const value = toNumber(rawAggData[shownColumn.colId]);
+
+        if (shownColumn.showValueAs === 'differenceFromPrevious') {
+            const previous = index > 0 ? toNumber(rawAggData[colIds[index - 1]]) : null;
+
+            return value != null && previous != null ? value - previous : null;
+        }
+
+        let runningTotal: number | null = null;
+
+        for (let i = 0; i <= index; i++) {
+            const columnValue = toNumber(rawAggData[colIds[i]]);
+
+            if (columnValue != null) {
+                runningTotal = (runningTotal || 0) + columnValue;
+            }
+        }
+
+        return index >= 0 ? runningTotal : value;
+    }
+
+    // the pivot columns of the value column without the totals, in the order the pivot keys are shown. not pivoting,
+    // the value column is the only column.
+    private getPivotColIdsInOrder(valueColumn: Column): string[] {
+        const secondaryColumns = this.columnModel.getSecondaryColumns();
+
+        if (!this.columnModel.isPivotActive() || !secondaryColumns) { return [valueColumn.getId()]; }
+
+        return secondaryColumns
+            .filter(column => {
+                const colDef = column.getColDef();
+                return colDef.pivotValueColumn === valueColumn && !_.exists(colDef.pivotTotalColumnIds);
+            })
+            .map(column => column.getId());
+    }
+
+    private getSortedValues(colId: string, siblings: RowNode[]): number[] {
+        const values: number[] = [];
+
+        siblings.forEach(sibling => {
+            const value = sibling.rawAggData ? toNumber(sibling.rawAggData[colId]) : null;
+
+            if (value != null) {
+                values.push(value);
+            }
+        });
+
+        return values.sort((a, b) => b - a);
+    }
+
+    // ranks are shared by equal values, eg 1, 2, 2, 4. the rank is one more than the number of higher values, which
+    // come before the value in the sorted values.
+    private getRank(value: number | null, sortedValues: number[]): number | null {
+        if (value == null) { return null; }
+
+        let low = 0;
+        let high = sortedValues.length;
+
+        while (low < high) {
+            const middle = (low + high) >> 1;
+
+            if (sortedValues[middle] > value) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+
+        return low + 1;
+    }
+}
+
+// the avg and count agg funcs return objects, which toNumber gets the value of. the calculated measures use it too.
+export function toNumber(value: any): number | null {
+    if (typeof value === 'number') { return isNaN(value) ? null : value; }
+    if (typeof value === 'bigint') { return Number(value); }
+    if (value != null && typeof value.toNumber === 'function') { return toNumber(value.toNumber()); }
+
+    return null;
+}
+
+function divide(value: number | null, total: number | null): number | null {
+    return value != null && total ? value / total : null;
+}
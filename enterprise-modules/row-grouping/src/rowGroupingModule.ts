@@ -5,11 +5,12 @@ import { GroupStage } from "./rowGrouping/groupStage";
 import { PivotColDefService } from "./rowGrouping/pivotColDefService";
 import { PivotStage } from "./rowGrouping/pivotStage";
 import { AggFuncService } from "./rowGrouping/aggFuncService";
+import { ShowValueAsService } from "./rowGrouping/showValueAsService";
 import { GridHeaderDropZones } from "./rowGrouping/columnDropZones/gridHeaderDropZones";
 
 export const RowGroupingModule: Module = {
     moduleName: ModuleNames.RowGroupingModule,
-    beans: [AggregationStage, GroupStage, PivotColDefService, PivotStage, AggFuncService],
+    beans: [AggregationStage, GroupStage, PivotColDefService, PivotStage, AggFuncService, ShowValueAsService],
     agStackComponents: [
         { componentName: 'AgGridHeaderDropZones', componentClass: GridHeaderDropZones }
     ],
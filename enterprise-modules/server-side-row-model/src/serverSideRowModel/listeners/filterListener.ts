@@ -1,7 +1,10 @@
 import {
+    AdvancedFilterModel,
+    AdvancedFilterService,
     Autowired,
     Bean,
     BeanStub,
+    _,
     Events,
     FilterManager,
     PostConstruct,
@@ -15,6 +18,7 @@ export class FilterListener extends BeanStub {
 
     @Autowired('rowModel') private serverSideRowModel: ServerSideRowModel;
     @Autowired('filterManager') private filterManager: FilterManager;
+    @Autowired('advancedFilterService') private advancedFilterService: AdvancedFilterService;
     @Autowired('ssrmListenerUtils') private listenerUtils: ListenerUtils;
 
     @PostConstruct
@@ -31,8 +35,15 @@ export class FilterListener extends BeanStub {
 
         const newModel = this.filterManager.getFilterModel();
         const oldModel = storeParams ? storeParams.filterModel : {};
+        const newAdvancedModel = this.advancedFilterService.getModel();
+        const oldAdvancedModel = storeParams.advancedFilterModel;
 
         const changedColumns = this.findChangedColumns(newModel, oldModel);
+        this.findChangedColumnsInAdvancedModel(oldAdvancedModel, newAdvancedModel).forEach(colId => {
+            if (changedColumns.indexOf(colId) < 0) {
+                changedColumns.push(colId);
+            }
+        });
         const valueColChanged = this.listenerUtils.isSortingWithValueColumn(changedColumns);
         const secondaryColChanged = this.listenerUtils.isSortingWithSecondaryColumn(changedColumns);
 
@@ -45,7 +56,21 @@ export class FilterListener extends BeanStub {
             changedColumns
         };
 
-        this.serverSideRowModel.refreshAfterFilter(newModel, params);
+        this.serverSideRowModel.refreshAfterFilter(newModel, newAdvancedModel, params);
+    }
+
+    // the conditions of the advanced filter depend on each other, so if anything changed, all the columns it
+    // references before and after are treated as changed
+    private findChangedColumnsInAdvancedModel(oldModel: AdvancedFilterModel | null, newModel: AdvancedFilterModel | null): string[] {
+        if (JSON.stringify(oldModel) === JSON.stringify(newModel)) { return []; }
+
+        const colIds = _.convertToSet(this.advancedFilterService.getReferencedColIds(oldModel));
+        this.advancedFilterService.getReferencedColIds(newModel).forEach(colId => colIds.add(colId));
+
+        const res: string[] = [];
+        colIds.forEach(colId => res.push(colId));
+
+        return res;
     }
 
     private findChangedColumns(oldModel: any, newModel: any): string[] {
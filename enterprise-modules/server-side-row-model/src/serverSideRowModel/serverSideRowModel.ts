@@ -1,5 +1,7 @@
 import {
     _,
+    AdvancedFilterModel,
+    AdvancedFilterService,
     Autowired,
     Bean,
     BeanStub,
@@ -14,6 +16,8 @@ import {
     IServerSideDatasource,
     IServerSideRowModel,
     IServerSideStore,
+    LoadRowsForExportParams,
+    LoadSuccessParams,
     Logger,
     LoggerFactory,
     ModelUpdatedEvent,
@@ -34,10 +38,12 @@ import {
 import { NodeManager } from "./nodeManager";
 import { SortListener } from "./listeners/sortListener";
 import { StoreFactory } from "./stores/storeFactory";
+import { StoreUtils } from "./stores/storeUtils";
 
 export interface SSRMParams {
     sortModel: any;
     filterModel: any;
+    advancedFilterModel: AdvancedFilterModel | null;
     lastAccessedSequence: NumberSequence;
     dynamicRowHeight: boolean;
     rowGroupCols: ColumnVO[];
@@ -52,6 +58,7 @@ export class ServerSideRowModel extends BeanStub implements IServerSideRowModel
 
     @Autowired('columnModel') private columnModel: ColumnModel;
     @Autowired('filterManager') private filterManager: FilterManager;
+    @Autowired('advancedFilterService') private advancedFilterService: AdvancedFilterService;
     @Autowired('sortController') private sortController: SortController;
     @Autowired('gridApi') private gridApi: GridApi;
     @Autowired('columnApi') private columnApi: ColumnApi;
@@ -59,6 +66,7 @@ export class ServerSideRowModel extends BeanStub implements IServerSideRowModel
     @Autowired('ssrmSortService') private sortListener: SortListener;
     @Autowired('ssrmNodeManager') private nodeManager: NodeManager;
     @Autowired('ssrmStoreFactory') private storeFactory: StoreFactory;
+    @Autowired('ssrmCacheUtils') private storeUtils: StoreUtils;
 
     private rootNode: RowNode;
     private datasource: IServerSideDatasource | undefined;
@@ -237,6 +245,7 @@ export class ServerSideRowModel extends BeanStub implements IServerSideRowModel
 
             // sort and filter model
             filterModel: this.filterManager.getFilterModel(),
+            advancedFilterModel: this.advancedFilterService.getModel(),
             sortModel: this.sortListener.extractSortModel(),
 
             datasource: this.datasource,
@@ -248,6 +257,25 @@ export class ServerSideRowModel extends BeanStub implements IServerSideRowModel
         return params;
     }
 
+    /** Requests rows with the current columns, filter and sort, without adding them to any store */
+    public loadRowsForExport(params: LoadRowsForExportParams): void {
+        if (!this.datasource) {
+            params.fail();
+            return;
+        }
+
+        this.storeUtils.loadFromDatasource({
+            startRow: params.startRow,
+            endRow: params.endRow,
+            parentNode: params.parentNode,
+            storeParams: this.createStoreParams(),
+            successCallback: params.success,
+            success: (p: LoadSuccessParams) => params.success(p.rowData, p.rowCount),
+            failCallback: params.fail,
+            fail: params.fail
+        });
+    }
+
     public getParams(): SSRMParams {
         return this.storeParams;
     }
@@ -312,9 +340,10 @@ export class ServerSideRowModel extends BeanStub implements IServerSideRowModel
         this.onStoreUpdated();
     }
 
-    public refreshAfterFilter(newFilterModel: any, params: StoreRefreshAfterParams): void {
+    public refreshAfterFilter(newFilterModel: any, newAdvancedFilterModel: AdvancedFilterModel | null, params: StoreRefreshAfterParams): void {
         if (this.storeParams) {
             this.storeParams.filterModel = newFilterModel;
+            this.storeParams.advancedFilterModel = newAdvancedFilterModel;
         }
         const rootStore = this.getRootStore();
         if (!rootStore) { return; }
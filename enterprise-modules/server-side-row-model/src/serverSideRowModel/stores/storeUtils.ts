@@ -1,6 +1,7 @@
 import {
     _,
     IServerSideStore,
+    AdvancedFilterService,
     Autowired,
     Bean,
     BeanStub,
@@ -8,6 +9,7 @@ import {
     GridApi,
     IServerSideGetRowsParams,
     IServerSideGetRowsRequest,
+    LoadSuccessParams,
     StoreRefreshAfterParams,
     RowNode,
     ColumnVO
@@ -19,6 +21,7 @@ export class StoreUtils extends BeanStub {
 
     @Autowired('columnApi') private columnApi: ColumnApi;
     @Autowired('gridApi') private gridApi: GridApi;
+    @Autowired('advancedFilterService') private advancedFilterService: AdvancedFilterService;
 
     public createGroupKeys(groupNode: RowNode): string[] {
         const keys: string[] = [];
@@ -37,9 +40,9 @@ export class StoreUtils extends BeanStub {
     public loadFromDatasource(p: {
         storeParams: SSRMParams,
         parentNode: RowNode,
-        successCallback: () => void,
+        successCallback: (rowsThisPage: any[], lastRow: number) => void,
         failCallback: () => void,
-        success: () => void,
+        success: (params: LoadSuccessParams) => void,
         fail: () => void,
         startRow?: number,
         endRow?: number}
@@ -61,6 +64,13 @@ export class StoreUtils extends BeanStub {
             sortModel: storeParams.sortModel
         };
 
+        // the advanced filter model is the filter model, as it can join conditions across columns. the column
+        // filters that are applied alongside it are passed separately
+        if (this.advancedFilterService.isEnabled()) {
+            request.filterModel = storeParams.advancedFilterModel;
+            request.columnFilterModel = storeParams.filterModel;
+        }
+
         const getRowsParams = {
             successCallback: p.successCallback,
             success: p.success,
@@ -0,0 +1,19 @@
+import { FilterExpressionComp, IStatusPanelComp, PostConstruct } from '@ag-grid-community/core';
+
+export class FilterExpressionPanelComp extends FilterExpressionComp implements IStatusPanelComp {
+
+    @PostConstruct
+    private addPanelCss(): void {
+        this.addCssClass('ag-status-panel');
+        this.addCssClass('ag-status-panel-filter-expression');
+    }
+
+    public init() {
+    }
+
+    // this is a user component, and IComponent has "public destroy()" as part of the interface.
+    // so we need to override destroy() just to make the method public.
+    public destroy(): void {
+        super.destroy();
+    }
+}
@@ -8,6 +8,8 @@ import { FilteredRowsComp } from "./statusBar/providedPanels/filteredRowsComp";
 import { TotalRowsComp } from "./statusBar/providedPanels/totalRowsComp";
 import { SelectedRowsComp } from "./statusBar/providedPanels/selectedRowsComp";
 import { AggregationComp } from "./statusBar/providedPanels/aggregationComp";
+import { FilterExpressionPanelComp } from "./statusBar/providedPanels/filterExpressionPanelComp";
+import { FindPanelComp } from "./statusBar/providedPanels/findPanelComp";
 
 export const StatusBarModule: Module = {
     moduleName: ModuleNames.StatusBarModule,
@@ -21,7 +23,9 @@ export const StatusBarModule: Module = {
         { componentName: 'agSelectedRowCountComponent', componentClass: SelectedRowsComp },
         { componentName: 'agTotalRowCountComponent', componentClass: TotalRowsComp },
         { componentName: 'agFilteredRowCountComponent', componentClass: FilteredRowsComp },
-        { componentName: 'agTotalAndFilteredRowCountComponent', componentClass: TotalAndFilteredRowsComp }
+        { componentName: 'agTotalAndFilteredRowCountComponent', componentClass: TotalAndFilteredRowsComp },
+        { componentName: 'agFilterExpressionComponent', componentClass: FilterExpressionPanelComp },
+        { componentName: 'agFindComponent', componentClass: FindPanelComp }
     ],
     dependantModules: [
         EnterpriseCoreModule
@@ -98,6 +98,16 @@ const AG_GRID_LOCALE_EN = {
     none: 'None',
     count: 'Count',
     avg: 'Average',
+
+    // Enterprise Values Drop Zone, Show Value As
+    showAs: 'Show as',
+    noCalculation: 'No Calculation',
+    percentOfRowTotal: '% of Row Total',
+    percentOfColumnTotal: '% of Column Total',
+    percentOfGrandTotal: '% of Grand Total',
+    differenceFromPrevious: 'Difference From Previous',
+    runningTotal: 'Running Total',
+    rank: 'Rank',
     filteredRows: 'Filtered',
     selectedRows: 'Selected',
     totalRows: 'Total Rows',